@@ -0,0 +1,60 @@
+/**
+ * Local Weather Service Stand-in
+ * Serves fixture forecasts over the weather HTTP API so the HTTP weather provider can be
+ * used in development without a weather service account
+ *
+ * Usage: npm run weather:stand-in (listens on WEATHER_STAND_IN_PORT, default 8090)
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+
+import { FixtureWeatherProvider } from '../src/services/weather/fixture-weather.provider';
+import { weatherConfig } from '../src/config/weather.config';
+import { WEATHER_DEFAULTS, WEATHER_ERRORS } from '../src/constants/weather.constants';
+
+const provider = new FixtureWeatherProvider(weatherConfig.fixturePath);
+
+/**
+ * Writes a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Answers GET /forecast?latitude=&longitude=&days= with a fixture forecast
+ */
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    if (req.method !== 'GET' || url.pathname !== '/forecast') {
+        sendJson(res, 404, { error: 'Not Found' });
+        return;
+    }
+
+    const latitude = Number(url.searchParams.get('latitude'));
+    const longitude = Number(url.searchParams.get('longitude'));
+    const days = Number(url.searchParams.get('days') ?? WEATHER_DEFAULTS.FORECAST_DAYS);
+
+    if (!url.searchParams.has('latitude') || !url.searchParams.has('longitude')
+        || !Number.isFinite(latitude) || Math.abs(latitude) > 90
+        || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+        sendJson(res, 400, { error: WEATHER_ERRORS.INVALID_LOCATION });
+        return;
+    }
+    if (!Number.isInteger(days) || days < 1 || days > WEATHER_DEFAULTS.MAX_FORECAST_DAYS) {
+        sendJson(res, 400, { error: WEATHER_ERRORS.INVALID_FORECAST_DAYS });
+        return;
+    }
+
+    const forecast = await provider.getForecast({ latitude, longitude }, days);
+    sendJson(res, 200, { ...forecast, source: 'stand-in' });
+}
+
+const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => sendJson(res, 500, { error: error.message }));
+});
+
+server.listen(weatherConfig.standInPort, () => {
+    console.log(`Weather stand-in listening on http://localhost:${weatherConfig.standInPort}/forecast`);
+});
@@ -12,8 +12,25 @@ import compression from 'compression'; // @version ^1.7.4
 import winston from 'winston'; // @version ^3.8.2
 
 import { gardenRoutes } from './routes/garden.routes';
+import { plantCatalogRoutes } from './routes/plant-catalog.routes';
 import { scheduleRoutes } from './routes/schedule.routes';
-import { authenticateToken } from './middleware/auth.middleware';
+import { sensorRoutes, sensorReadingRoutes } from './routes/sensor.routes';
+import { irrigationRoutes } from './routes/irrigation.routes';
+import { plantHealthRoutes } from './routes/plant-health.routes';
+import { pestPressureRoutes } from './routes/pest-pressure.routes';
+import { growthStageRoutes } from './routes/growth-stage.routes';
+import { gardenSharingRoutes } from './routes/garden-sharing.routes';
+import { siteRoutes } from './routes/site.routes';
+import { taskAssignmentRoutes } from './routes/task-assignment.routes';
+import { authRoutes } from './routes/auth.routes';
+import { quotaRoutes } from './routes/quota.routes';
+import {
+    authenticateToken,
+    authorizeCatalogChanges,
+    authorizeGardenAccess,
+    authorizePermission,
+    limitAuthenticationAttempts
+} from './middleware/auth.middleware';
 import { errorHandler } from './middleware/error.middleware';
 import { requestLogger, responseLogger, errorLogger } from './middleware/logger.middleware';
 
@@ -58,7 +75,7 @@ function configureMiddleware(app: Express): void {
             }
         },
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Fingerprint'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Fingerprint', 'X-Sensor-Key'],
         credentials: true,
         maxAge: 86400 // 24 hours
     }));
@@ -78,6 +95,8 @@ function configureMiddleware(app: Express): void {
     // Body parsing middleware
     app.use(express.json({ limit: MAX_REQUEST_SIZE }));
     app.use(express.urlencoded({ extended: true, limit: MAX_REQUEST_SIZE }));
+    // Line protocol sensor readings
+    app.use(express.text({ type: 'text/plain', limit: MAX_REQUEST_SIZE }));
 
     // Logging middleware
     app.use(requestLogger);
@@ -98,9 +117,56 @@ function configureRoutes(app: Express): void {
         });
     });
 
+    // Signing in needs no token and is rate limited per attempt; managing the sessions and
+    // devices of the signed-in user needs a token, whose check is rate limited in the same way
+    app.use(['/api/auth/logout', '/api/auth/sessions', '/api/auth/devices'], authenticateToken);
+    app.use([
+        '/api/auth/register',
+        '/api/auth/login',
+        '/api/auth/refresh',
+        '/api/auth/password-reset'
+    ], limitAuthenticationAttempts);
+    app.use('/api/auth', authRoutes);
+
+    // Routes of one garden are open to its owner and the users it is shared with
+    app.use([
+        '/api/garden/gardens/:id',
+        '/api/sensors/gardens/:gardenId',
+        '/api/irrigation/gardens/:gardenId',
+        '/api/pest-pressure/gardens/:gardenId',
+        '/api/growth-stages/gardens/:gardenId',
+        '/api/task-assignment/gardens/:gardenId',
+        '/api/growth-stages/plants/:plantId',
+        '/api/plant-health/plants/:plantId'
+    ], authenticateToken, authorizeGardenAccess());
+    // Schedules name their garden in the path or the body, or are checked against the garden they belong to.
+    // Garden identifiers are object ids, which keeps /api/schedules/pending out of the garden check
+    app.get(
+        ['/api/schedules/:gardenId([0-9a-fA-F]{24})', '/api/schedules/pending/:gardenId'],
+        authenticateToken,
+        authorizeGardenAccess()
+    );
+    app.post('/api/schedules', authenticateToken, authorizeGardenAccess());
+    app.put(['/api/schedules/:scheduleId', '/api/schedules/:scheduleId/complete'], authenticateToken, authorizeGardenAccess());
+
     // API routes with authentication
     app.use('/api/garden', authenticateToken, gardenRoutes);
+    // The plant catalog is shared by every garden, so only administrators change it
+    app.use('/api/plant-catalog', authenticateToken, authorizeCatalogChanges(), plantCatalogRoutes);
     app.use('/api/schedules', authenticateToken, scheduleRoutes);
+    // Sensor devices submit readings with their own key rather than a user token
+    app.use('/api/sensors/readings', sensorReadingRoutes);
+    app.use('/api/sensors', authenticateToken, sensorRoutes);
+    app.use('/api/irrigation', authenticateToken, irrigationRoutes);
+    app.use('/api/plant-health', authenticateToken, plantHealthRoutes);
+    app.use('/api/pest-pressure', authenticateToken, pestPressureRoutes);
+    app.use('/api/growth-stages', authenticateToken, growthStageRoutes);
+    app.use('/api/garden-sharing', authenticateToken, gardenSharingRoutes);
+    // Creating a community site takes a role that may manage sites
+    app.post('/api/sites', authenticateToken, authorizePermission(['manage:own_site']));
+    app.use('/api/sites', authenticateToken, siteRoutes);
+    app.use('/api/task-assignment', authenticateToken, taskAssignmentRoutes);
+    app.use('/api/quotas', authenticateToken, quotaRoutes);
 
     // 404 handler
     app.use((req: Request, res: Response) => {
@@ -3,6 +3,8 @@
 import * as path from 'path';
 // sqlite3@5.1.0 - SQLite database driver type definitions
 import { Database } from 'sqlite3';
+// knex@2.5.1 - Query builder of the table-backed repositories
+import knex, { Knex } from 'knex';
 
 // Global database file path
 const DB_PATH = path.join(__dirname, '../../data/garden.db');
@@ -77,4 +79,46 @@ export const databaseConfig = {
 } as const;
 
 // Type definitions for database configuration
-export type DatabaseConfig = typeof databaseConfig;
\ No newline at end of file
+export type DatabaseConfig = typeof databaseConfig;
+
+/**
+ * Injection token for the shared Knex query builder instance
+ */
+export const KNEX_CONNECTION = 'KNEX_CONNECTION';
+
+/**
+ * Knex configuration used by table-backed repositories, migrations and seeds
+ * Points at the same SQLite database file as the native driver connection
+ */
+export const knexConfig = {
+    client: 'sqlite3',
+    connection: {
+        filename: DB_PATH
+    },
+    useNullAsDefault: true,
+    pool: {
+        min: 1,
+        max: MAX_CONNECTIONS
+    },
+    acquireConnectionTimeout: CONNECTION_TIMEOUT,
+    migrations: {
+        directory: path.join(__dirname, '../db/migrations'),
+        extension: 'ts'
+    },
+    seeds: {
+        directory: path.join(__dirname, '../db/seeds'),
+        extension: 'ts'
+    }
+} as const;
+
+// Opened on first use, then shared
+let knexConnection: Knex | undefined;
+
+/**
+ * Returns the Knex query builder shared by the middleware and the modules providing
+ * KNEX_CONNECTION with it, so they draw on one connection pool
+ */
+export const getKnexConnection = (): Knex => {
+    knexConnection = knexConnection ?? knex(knexConfig);
+    return knexConnection;
+};
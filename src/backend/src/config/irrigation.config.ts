@@ -0,0 +1,26 @@
+// @package-version dotenv@16.0.3
+import { config } from 'dotenv';
+
+import { IRRIGATION_DEFAULTS, IrrigationDriverType } from '../constants/irrigation.constants';
+
+// Load environment variables
+config();
+
+/**
+ * Irrigation configuration for the Garden Planner application
+ * Selects the driver that opens and closes valves and how many may run at once
+ */
+export const irrigationConfig = {
+    /**
+     * Valve driver: SIMULATED (valves opened in memory only)
+     */
+    driver: (process.env.IRRIGATION_DRIVER || IRRIGATION_DEFAULTS.DRIVER) as IrrigationDriverType,
+
+    /**
+     * Valves that may be open at the same time across all gardens, as the controller runs
+     * them from one water supply
+     */
+    maxConcurrentValves: Number(process.env.IRRIGATION_MAX_CONCURRENT_VALVES) || IRRIGATION_DEFAULTS.MAX_CONCURRENT_VALVES
+};
+
+export type IrrigationConfig = typeof irrigationConfig;
@@ -0,0 +1,35 @@
+// @package-version dotenv@16.0.3
+import { config } from 'dotenv';
+
+// Load environment variables
+config();
+
+/**
+ * Mail configuration for the Garden Planner application
+ * Account messages, such as password reset codes, are sent through this SMTP server
+ */
+export const mailConfig = {
+    /**
+     * SMTP server host and port
+     */
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 587,
+
+    /**
+     * Whether the connection uses TLS from the start; otherwise it is upgraded with STARTTLS
+     */
+    secure: process.env.SMTP_SECURE === 'true',
+
+    /**
+     * SMTP credentials; optional for servers accepting mail without signing in
+     */
+    username: process.env.SMTP_USERNAME,
+    password: process.env.SMTP_PASSWORD,
+
+    /**
+     * Sender address of the messages
+     */
+    from: process.env.MAIL_FROM || 'Garden Planner <no-reply@localhost>'
+};
+
+export type MailConfig = typeof mailConfig;
@@ -0,0 +1,56 @@
+// @package-version dotenv@16.0.3
+import { config } from 'dotenv';
+
+import { MQTT_DEFAULTS } from '../constants/mqtt.constants';
+
+// Load environment variables
+config();
+
+/**
+ * MQTT bridge configuration for the Garden Planner application
+ * The bridge is off unless enabled; its topics are mapped in a JSON mappings file
+ */
+export const mqttConfig = {
+    /**
+     * Whether the MQTT bridge runs
+     */
+    enabled: process.env.MQTT_ENABLED === 'true',
+
+    /**
+     * Broker URL; defaults to a broker on this machine
+     */
+    url: process.env.MQTT_URL || MQTT_DEFAULTS.URL,
+
+    /**
+     * Broker credentials; optional for an outside broker, required for the embedded one
+     */
+    username: process.env.MQTT_USERNAME,
+    password: process.env.MQTT_PASSWORD,
+
+    /**
+     * Client identifier the bridge connects with
+     */
+    clientId: process.env.MQTT_CLIENT_ID || `${MQTT_DEFAULTS.CLIENT_ID_PREFIX}-${process.pid}`,
+
+    /**
+     * JSON file mapping sensor topics to gardens and irrigation topics to zones
+     */
+    mappingsPath: process.env.MQTT_MAPPINGS_PATH,
+
+    /**
+     * Runs a broker inside the backend for hardware to connect to when there is no other broker
+     */
+    embeddedBroker: process.env.MQTT_EMBEDDED_BROKER === 'true',
+
+    /**
+     * Port the embedded broker listens on
+     */
+    embeddedBrokerPort: Number(process.env.MQTT_EMBEDDED_BROKER_PORT) || MQTT_DEFAULTS.EMBEDDED_BROKER_PORT,
+
+    /**
+     * Interface the embedded broker listens on; only this machine by default
+     */
+    embeddedBrokerHost: process.env.MQTT_EMBEDDED_BROKER_HOST || MQTT_DEFAULTS.EMBEDDED_BROKER_HOST
+};
+
+export type MqttConfig = typeof mqttConfig;
@@ -31,6 +31,16 @@ export const securityConfig = {
     },
   },
 
+  /**
+   * Password and account recovery configuration
+   */
+  authentication: {
+    passwordHashRounds: 12, // bcrypt cost factor
+    minPasswordLength: 12,
+    maxPasswordLength: 72, // bcrypt ignores anything past 72 bytes
+    passwordResetExpiresIn: '1h',
+  },
+
   /**
    * Data encryption configuration
    * Uses AES-256-GCM for secure data storage
@@ -79,6 +89,17 @@ export const securityConfig = {
         maxGardens: 5,
         maxSchedules: 50,
       },
+      site_admin: {
+        permissions: [
+          'read:own_garden',
+          'write:own_garden',
+          'read:own_schedule',
+          'write:own_schedule',
+          'manage:own_site',
+        ],
+        maxGardens: 5,
+        maxSchedules: 50,
+      },
       admin: {
         permissions: [
           'read:all_gardens',
@@ -87,6 +108,7 @@ export const securityConfig = {
           'write:all_schedules',
           'manage:users',
           'manage:system',
+          'manage:all_sites',
         ],
         maxGardens: -1, // unlimited
         maxSchedules: -1, // unlimited
@@ -6,7 +6,6 @@
 
 import Joi from 'joi'; // @version 17.9.0
 import { gardenSchema } from '../validators/garden.validator';
-import { validatePlantType } from '../validators/plant.validator';
 import { validateScheduleInput } from '../validators/schedule.validator';
 
 /**
@@ -97,15 +96,10 @@ export function getValidationRules(entityType: string): Joi.ObjectSchema {
             break;
 
         case 'plant':
+            // The catalog changes at runtime, so whether the type is in it is checked by
+            // validatePlant against the catalog service rather than by this cached schema
             schema = Joi.object({
-                type: Joi.string().custom((value, helpers) => {
-                    try {
-                        validatePlantType(value);
-                        return value;
-                    } catch (error) {
-                        return helpers.error('plant.type.invalid');
-                    }
-                }),
+                type: Joi.string(),
                 spacing: Joi.number().min(1).required(),
                 sunlightNeeds: Joi.string().required(),
                 companions: Joi.array().items(Joi.string())
@@ -0,0 +1,45 @@
+// @package-version dotenv@16.0.3
+import { config } from 'dotenv';
+
+import { WEATHER_PROVIDERS, WEATHER_DEFAULTS, WeatherProviderType } from '../constants/weather.constants';
+
+// Load environment variables
+config();
+
+/**
+ * Weather forecast configuration for the Garden Planner application
+ * Selects the forecast provider used for maintenance scheduling and its connection settings
+ */
+export const weatherConfig = {
+    /**
+     * Forecast provider: FIXTURE (offline fixture file) or HTTP (weather service)
+     */
+    provider: (process.env.WEATHER_PROVIDER || WEATHER_PROVIDERS.FIXTURE) as WeatherProviderType,
+
+    /**
+     * Fixture file replacing the bundled forecast fixture; optional
+     */
+    fixturePath: process.env.WEATHER_FIXTURE_PATH,
+
+    /**
+     * Base URL of the weather HTTP service; defaults to the local stand-in
+     */
+    apiUrl: process.env.WEATHER_API_URL || `http://localhost:${WEATHER_DEFAULTS.STAND_IN_PORT}`,
+
+    /**
+     * Maximum time to wait for the weather HTTP service in milliseconds
+     */
+    requestTimeoutMs: Number(process.env.WEATHER_REQUEST_TIMEOUT_MS) || WEATHER_DEFAULTS.REQUEST_TIMEOUT_MS,
+
+    /**
+     * How long a location's forecast is reused before it is fetched again
+     */
+    cacheTtlMinutes: Number(process.env.WEATHER_CACHE_TTL_MINUTES) || WEATHER_DEFAULTS.CACHE_TTL_MINUTES,
+
+    /**
+     * Port the local weather stand-in listens on
+     */
+    standInPort: Number(process.env.WEATHER_STAND_IN_PORT) || WEATHER_DEFAULTS.STAND_IN_PORT
+};
+
+export type WeatherConfig = typeof weatherConfig;
@@ -0,0 +1,47 @@
+/**
+ * Authentication Constants
+ * @packageVersion 5.0
+ *
+ * Defines the reasons sessions are revoked for and the error messages of registration,
+ * sign-in, refresh token rotation, password resets and device registration.
+ */
+
+import { securityConfig } from '../config/security.config';
+
+/**
+ * Reasons a session, the family of refresh tokens started by one sign-in, is revoked
+ */
+export const SESSION_REVOCATION_REASONS = {
+    LOGOUT: 'logout',
+    LOGOUT_ALL: 'logout_all',
+    TOKEN_REUSE: 'token_reuse',          // A refresh token was exchanged twice
+    DEVICE_MISMATCH: 'device_mismatch',  // A refresh token was presented by another device
+    SESSION_LIMIT: 'session_limit',      // Oldest session signed out past maxConcurrentSessions
+    PASSWORD_RESET: 'password_reset'
+} as const;
+
+export type SessionRevocationReason = typeof SESSION_REVOCATION_REASONS[keyof typeof SESSION_REVOCATION_REASONS];
+
+/**
+ * Longest push notification token accepted for a device; FCM tokens are far shorter
+ */
+export const MAX_DEVICE_TOKEN_LENGTH = 4096;
+
+/**
+ * Error messages for authentication operations
+ */
+export const AUTH_ERRORS = {
+    // Deliberately the same for unknown emails and wrong passwords
+    INVALID_CREDENTIALS: 'Invalid email or password',
+    INVALID_EMAIL: 'Invalid email address',
+    INVALID_NAME: 'Name is required',
+    WEAK_PASSWORD: `Passwords must be between ${securityConfig.authentication.minPasswordLength} and ${securityConfig.authentication.maxPasswordLength} characters`,
+    FINGERPRINT_REQUIRED: 'Device fingerprint required',
+    INVALID_REFRESH_TOKEN: 'Invalid or expired refresh token',
+    REFRESH_TOKEN_REUSED: 'Refresh token was already used; the session has been revoked',
+    DEVICE_MISMATCH: 'Refresh token was issued to another device; the session has been revoked',
+    SESSION_NOT_FOUND: 'Session not found',
+    INVALID_RESET_TOKEN: 'Invalid or expired password reset token',
+    INVALID_DEVICE_TOKEN: `Device tokens must be between 1 and ${MAX_DEVICE_TOKEN_LENGTH} characters`,
+    DEVICE_NOT_REGISTERED: 'Device not registered for notifications'
+} as const;
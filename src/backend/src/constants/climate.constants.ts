@@ -0,0 +1,129 @@
+/**
+ * Climate Constants
+ * @packageVersion 5.0
+ *
+ * Defines hardiness zones, average frost dates and the bundled offline lookup table
+ * used to work out safe planting windows for a garden's location.
+ */
+
+import { FROST_TOLERANCE } from './plant.constants';
+
+/**
+ * Where a garden's climate values came from
+ */
+export const CLIMATE_SOURCES = {
+    USER: 'USER',      // Entered by the gardener
+    LOOKUP: 'LOOKUP'   // Looked up from the bundled hardiness zone table
+} as const;
+
+/**
+ * Outcome of checking a planting date against a plant's safe window
+ */
+export const PLANTING_DATE_STATUS = {
+    OK: 'OK',            // Inside the safe window
+    WARNING: 'WARNING',  // Too late for the crop to finish before the first fall frost
+    BLOCKED: 'BLOCKED'   // Exposed to frost, or the frost-free season is too short for the crop
+} as const;
+
+/**
+ * USDA hardiness zone with optional half-zone suffix (e.g. '6' or '6b')
+ */
+export const HARDINESS_ZONE_PATTERN = /^(1[0-3]|[1-9])[ab]?$/;
+
+/**
+ * Average frost date as month and day (MM-DD)
+ */
+export const FROST_DATE_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+/**
+ * Average last spring and first fall frost for each hardiness zone in the northern hemisphere
+ * Zones without an entry are frost-free
+ */
+export const HARDINESS_ZONE_FROST_DATES: Record<number, { lastSpringFrost: string; firstFallFrost: string }> = {
+    1: { lastSpringFrost: '06-15', firstFallFrost: '08-15' },
+    2: { lastSpringFrost: '05-31', firstFallFrost: '09-01' },
+    3: { lastSpringFrost: '05-15', firstFallFrost: '09-15' },
+    4: { lastSpringFrost: '05-10', firstFallFrost: '09-25' },
+    5: { lastSpringFrost: '04-30', firstFallFrost: '10-10' },
+    6: { lastSpringFrost: '04-20', firstFallFrost: '10-20' },
+    7: { lastSpringFrost: '04-10', firstFallFrost: '10-30' },
+    8: { lastSpringFrost: '03-25', firstFallFrost: '11-10' },
+    9: { lastSpringFrost: '02-25', firstFallFrost: '12-01' },
+    10: { lastSpringFrost: '01-30', firstFallFrost: '12-15' }
+};
+
+/**
+ * Days after the last spring frost a plant may be set out, by frost tolerance
+ * The same margin is kept before the first fall frost when the crop matures
+ */
+export const FROST_TOLERANCE_OFFSET_DAYS: Record<FROST_TOLERANCE, number> = {
+    [FROST_TOLERANCE.TENDER]: 14,      // Wait until the soil has warmed
+    [FROST_TOLERANCE.HALF_HARDY]: -14, // Survives light frosts
+    [FROST_TOLERANCE.HARDY]: -28       // Survives hard frosts
+};
+
+/**
+ * Settings for looking up a hardiness zone from the garden's location
+ */
+export const CLIMATE_LOOKUP = {
+    POSTAL_PREFIX_LENGTH: 3,   // ZIP codes are matched on their sectional centre prefix
+    MAX_DISTANCE_KM: 300,      // Nearest reference point must be within this distance
+    EARTH_RADIUS_KM: 6371
+} as const;
+
+/**
+ * Bundled offline reference points for hardiness zone lookup
+ * Each entry pairs a ZIP code prefix with the coordinates and zone of its main city
+ */
+export const HARDINESS_REFERENCE_LOCATIONS: ReadonlyArray<{
+    postalPrefix: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    hardinessZone: string;
+}> = [
+    { postalPrefix: '021', name: 'Boston, MA', latitude: 42.36, longitude: -71.06, hardinessZone: '7a' },
+    { postalPrefix: '040', name: 'Portland, ME', latitude: 43.66, longitude: -70.26, hardinessZone: '6a' },
+    { postalPrefix: '054', name: 'Burlington, VT', latitude: 44.48, longitude: -73.21, hardinessZone: '5b' },
+    { postalPrefix: '100', name: 'New York, NY', latitude: 40.71, longitude: -74.01, hardinessZone: '7b' },
+    { postalPrefix: '191', name: 'Philadelphia, PA', latitude: 39.95, longitude: -75.17, hardinessZone: '7b' },
+    { postalPrefix: '200', name: 'Washington, DC', latitude: 38.91, longitude: -77.04, hardinessZone: '8a' },
+    { postalPrefix: '282', name: 'Charlotte, NC', latitude: 35.23, longitude: -80.84, hardinessZone: '8a' },
+    { postalPrefix: '303', name: 'Atlanta, GA', latitude: 33.75, longitude: -84.39, hardinessZone: '8a' },
+    { postalPrefix: '328', name: 'Orlando, FL', latitude: 28.54, longitude: -81.38, hardinessZone: '10a' },
+    { postalPrefix: '331', name: 'Miami, FL', latitude: 25.76, longitude: -80.19, hardinessZone: '11a' },
+    { postalPrefix: '372', name: 'Nashville, TN', latitude: 36.16, longitude: -86.78, hardinessZone: '7b' },
+    { postalPrefix: '441', name: 'Cleveland, OH', latitude: 41.50, longitude: -81.69, hardinessZone: '6b' },
+    { postalPrefix: '482', name: 'Detroit, MI', latitude: 42.33, longitude: -83.05, hardinessZone: '6b' },
+    { postalPrefix: '532', name: 'Milwaukee, WI', latitude: 43.04, longitude: -87.91, hardinessZone: '6a' },
+    { postalPrefix: '554', name: 'Minneapolis, MN', latitude: 44.98, longitude: -93.27, hardinessZone: '5a' },
+    { postalPrefix: '581', name: 'Fargo, ND', latitude: 46.88, longitude: -96.79, hardinessZone: '4a' },
+    { postalPrefix: '591', name: 'Billings, MT', latitude: 45.78, longitude: -108.50, hardinessZone: '5a' },
+    { postalPrefix: '606', name: 'Chicago, IL', latitude: 41.88, longitude: -87.63, hardinessZone: '6b' },
+    { postalPrefix: '631', name: 'St. Louis, MO', latitude: 38.63, longitude: -90.20, hardinessZone: '7a' },
+    { postalPrefix: '641', name: 'Kansas City, MO', latitude: 39.10, longitude: -94.58, hardinessZone: '6b' },
+    { postalPrefix: '681', name: 'Omaha, NE', latitude: 41.26, longitude: -95.94, hardinessZone: '5b' },
+    { postalPrefix: '701', name: 'New Orleans, LA', latitude: 29.95, longitude: -90.07, hardinessZone: '9b' },
+    { postalPrefix: '752', name: 'Dallas, TX', latitude: 32.78, longitude: -96.80, hardinessZone: '8b' },
+    { postalPrefix: '770', name: 'Houston, TX', latitude: 29.76, longitude: -95.37, hardinessZone: '9b' },
+    { postalPrefix: '782', name: 'San Antonio, TX', latitude: 29.42, longitude: -98.49, hardinessZone: '9a' },
+    { postalPrefix: '802', name: 'Denver, CO', latitude: 39.74, longitude: -104.99, hardinessZone: '6a' },
+    { postalPrefix: '837', name: 'Boise, ID', latitude: 43.62, longitude: -116.20, hardinessZone: '7a' },
+    { postalPrefix: '841', name: 'Salt Lake City, UT', latitude: 40.76, longitude: -111.89, hardinessZone: '7b' },
+    { postalPrefix: '850', name: 'Phoenix, AZ', latitude: 33.45, longitude: -112.07, hardinessZone: '10a' },
+    { postalPrefix: '871', name: 'Albuquerque, NM', latitude: 35.08, longitude: -106.65, hardinessZone: '7b' },
+    { postalPrefix: '891', name: 'Las Vegas, NV', latitude: 36.17, longitude: -115.14, hardinessZone: '9b' },
+    { postalPrefix: '900', name: 'Los Angeles, CA', latitude: 34.05, longitude: -118.24, hardinessZone: '10b' },
+    { postalPrefix: '921', name: 'San Diego, CA', latitude: 32.72, longitude: -117.16, hardinessZone: '10b' },
+    { postalPrefix: '941', name: 'San Francisco, CA', latitude: 37.77, longitude: -122.42, hardinessZone: '10b' },
+    { postalPrefix: '958', name: 'Sacramento, CA', latitude: 38.58, longitude: -121.49, hardinessZone: '9b' },
+    { postalPrefix: '967', name: 'Honolulu, HI', latitude: 21.31, longitude: -157.86, hardinessZone: '12b' },
+    { postalPrefix: '972', name: 'Portland, OR', latitude: 45.52, longitude: -122.68, hardinessZone: '9a' },
+    { postalPrefix: '981', name: 'Seattle, WA', latitude: 47.61, longitude: -122.33, hardinessZone: '9a' },
+    { postalPrefix: '992', name: 'Spokane, WA', latitude: 47.66, longitude: -117.43, hardinessZone: '6b' },
+    { postalPrefix: '995', name: 'Anchorage, AK', latitude: 61.22, longitude: -149.90, hardinessZone: '5a' }
+];
+
+// Type definitions for type safety
+export type ClimateSource = typeof CLIMATE_SOURCES[keyof typeof CLIMATE_SOURCES];
+export type PlantingDateStatus = typeof PLANTING_DATE_STATUS[keyof typeof PLANTING_DATE_STATUS];
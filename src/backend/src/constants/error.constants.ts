@@ -47,7 +47,8 @@ export const ERROR_CODES = {
   AUTHORIZATION_ERROR: 'E007',
   RATE_LIMIT_ERROR: 'E008',
   NETWORK_ERROR: 'E009',
-  SYSTEM_ERROR: 'E010'
+  SYSTEM_ERROR: 'E010',
+  QUOTA_EXCEEDED: 'E011'
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
@@ -65,6 +66,7 @@ export const ERROR_MESSAGES = {
   AUTHENTICATION_FAILED: 'Login failed. Please verify your credentials and try again.',
   AUTHORIZATION_FAILED: "You don't have permission to perform this action.",
   RATE_LIMIT_EXCEEDED: 'Too many requests. Please wait a few minutes before trying again.',
+  QUOTA_EXCEEDED: 'You have reached the limit of your plan. Upgrade or remove something to continue.',
   NETWORK_ERROR: 'Connection lost. Please check your internet connection.',
   GENERIC_ERROR: 'An unexpected error occurred. Our team has been notified.'
 } as const;
@@ -102,7 +104,8 @@ export const ERROR_TO_HTTP_STATUS: Record<ErrorCode, HttpStatusCode> = {
   [ERROR_CODES.AUTHORIZATION_ERROR]: HTTP_STATUS_CODES.FORBIDDEN,
   [ERROR_CODES.RATE_LIMIT_ERROR]: HTTP_STATUS_CODES.TOO_MANY_REQUESTS,
   [ERROR_CODES.NETWORK_ERROR]: HTTP_STATUS_CODES.BAD_GATEWAY,
-  [ERROR_CODES.SYSTEM_ERROR]: HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR
+  [ERROR_CODES.SYSTEM_ERROR]: HTTP_STATUS_CODES.INTERNAL_SERVER_ERROR,
+  [ERROR_CODES.QUOTA_EXCEEDED]: HTTP_STATUS_CODES.FORBIDDEN
 } as const;
 
 // Export all constants as named exports for better tree-shaking
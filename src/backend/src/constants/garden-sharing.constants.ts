@@ -0,0 +1,69 @@
+/**
+ * Garden Sharing Constants
+ * @packageVersion 5.0
+ *
+ * Defines the roles users hold in a garden, what each role may do, and the invitation
+ * codes used to share a garden with other users.
+ */
+
+/**
+ * Role a user holds in a garden
+ * The owner created the garden and manages who it is shared with; collaborators work the
+ * garden alongside the owner; viewers follow along without changing anything
+ */
+export enum GARDEN_ROLES {
+    OWNER = 'OWNER',
+    COLLABORATOR = 'COLLABORATOR',
+    VIEWER = 'VIEWER'
+}
+
+/**
+ * Roles a garden may be shared with
+ */
+export type GardenMemberRole = GARDEN_ROLES.COLLABORATOR | GARDEN_ROLES.VIEWER;
+
+/**
+ * Garden roles allowed each garden-scoped permission of securityConfig.authorization.roles
+ */
+export const GARDEN_PERMISSION_ROLES: Record<string, GARDEN_ROLES[]> = {
+    'read:own_garden': [GARDEN_ROLES.OWNER, GARDEN_ROLES.COLLABORATOR, GARDEN_ROLES.VIEWER],
+    'write:own_garden': [GARDEN_ROLES.OWNER, GARDEN_ROLES.COLLABORATOR],
+    'read:own_schedule': [GARDEN_ROLES.OWNER, GARDEN_ROLES.COLLABORATOR, GARDEN_ROLES.VIEWER],
+    'write:own_schedule': [GARDEN_ROLES.OWNER, GARDEN_ROLES.COLLABORATOR]
+};
+
+/**
+ * Permission that grants a garden-scoped permission for every garden, held by administrators
+ */
+export const ALL_GARDENS_PERMISSIONS: Record<string, string> = {
+    'read:own_garden': 'read:all_gardens',
+    'write:own_garden': 'write:all_gardens',
+    'read:own_schedule': 'read:all_schedules',
+    'write:own_schedule': 'write:all_schedules'
+};
+
+/**
+ * Defaults for sharing gardens by invitation code
+ */
+export const GARDEN_SHARING_DEFAULTS = {
+    INVITATION_CODE_LENGTH: 8,
+    INVITATION_CODE_ALPHABET: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789', // Without look-alikes such as O and 0
+    INVITATION_TTL_DAYS: 7,
+    MAX_MEMBERS: 20,               // Users a garden may be shared with besides its owner
+    MAX_OPEN_INVITATIONS: 10
+} as const;
+
+/**
+ * Error messages for garden sharing operations
+ */
+export const GARDEN_SHARING_ERRORS = {
+    NOT_OWNER: 'Only the garden owner can manage who the garden is shared with',
+    INVALID_ROLE: `Gardens can be shared as ${GARDEN_ROLES.COLLABORATOR} or ${GARDEN_ROLES.VIEWER}`,
+    INVITATION_NOT_FOUND: 'Invitation not found',
+    INVITATION_EXPIRED: 'Invitation has expired',
+    INVITATION_USED: 'Invitation has already been accepted',
+    ALREADY_MEMBER: 'User already has access to this garden',
+    MEMBER_NOT_FOUND: 'Garden member not found',
+    TOO_MANY_MEMBERS: `Gardens can be shared with at most ${GARDEN_SHARING_DEFAULTS.MAX_MEMBERS} users`,
+    TOO_MANY_INVITATIONS: `Gardens can have at most ${GARDEN_SHARING_DEFAULTS.MAX_OPEN_INVITATIONS} open invitations`
+} as const;
@@ -25,6 +25,18 @@ export const SUNLIGHT_CONDITIONS = {
     FULL_SHADE: 'FULL_SHADE'
 } as const;
 
+/**
+ * Kinds of obstacles that occupy space inside a garden boundary
+ * Zones and plants are never placed over an obstacle's footprint
+ */
+export const OBSTACLE_TYPES = {
+    TREE: 'TREE',
+    SHED: 'SHED',
+    PATH: 'PATH',
+    RAISED_BED: 'RAISED_BED',
+    OTHER: 'OTHER'
+} as const;
+
 /**
  * Required daily sunlight hours for each condition type
  * Used in space optimization calculations and plant placement
@@ -35,6 +47,31 @@ export const SUNLIGHT_HOURS = {
     FULL_SHADE: 2
 } as const;
 
+/**
+ * Sun-path sampling parameters used to estimate direct sun hours for each zone
+ * Sun positions are computed astronomically for a representative day of each month
+ */
+export const SUN_PATH_SETTINGS = {
+    SAMPLE_INTERVAL_MINUTES: 10,
+    MIN_SUN_ALTITUDE_DEGREES: 5,  // Sun lower than this is too weak to count as direct sun
+    AXIAL_TILT_DEGREES: 23.45
+} as const;
+
+/**
+ * Representative day of the year for each month, January first
+ * Declination on these days is closest to the monthly average
+ */
+export const MONTHLY_REPRESENTATIVE_DAYS = [17, 47, 75, 105, 135, 162, 198, 228, 258, 288, 318, 344] as const;
+
+/**
+ * Months (0 = January) forming the main growing season in each hemisphere
+ * Zone sunlight conditions are derived from the average over these months
+ */
+export const GROWING_SEASON_MONTHS = {
+    NORTHERN: [3, 4, 5, 6, 7, 8],
+    SOUTHERN: [9, 10, 11, 0, 1, 2]
+} as const;
+
 /**
  * Minimum size requirement for a garden zone in square feet
  * Ensures zones are large enough for practical planting
@@ -47,6 +84,26 @@ export const MIN_ZONE_SIZE = 4;
  */
 export const DEFAULT_PLANT_SPACING = 12;
 
+/**
+ * Resolution in feet of the candidate grid scanned when placing plants inside a zone
+ * Smaller values pack plants more tightly at the cost of layout generation time
+ */
+export const PLANT_PLACEMENT_GRID_STEP = 0.25;
+
+/**
+ * Resolution in feet of the candidate grid scanned when placing zones inside a garden boundary
+ */
+export const ZONE_PLACEMENT_GRID_STEP = 0.5;
+
+/**
+ * Limits applied when planning plantings across a season
+ */
+export const SEASON_PLANNING_LIMITS = {
+    DEFAULT_SEASON_DAYS: 365,
+    MAX_SEASON_DAYS: 730,
+    MAX_SUCCESSIONS: 26  // Fortnightly sowings for a full year
+} as const;
+
 /**
  * Target percentage for garden space utilization
  * Aligns with technical specification requirement of 92% space utilization
@@ -68,12 +125,17 @@ export const LAYOUT_GENERATION_TIMEOUT = 3000;
 // Type definitions for enhanced type safety
 export type SunlightCondition = typeof SUNLIGHT_CONDITIONS[keyof typeof SUNLIGHT_CONDITIONS];
 export type SunlightHours = typeof SUNLIGHT_HOURS[keyof typeof SUNLIGHT_HOURS];
+export type ObstacleType = typeof OBSTACLE_TYPES[keyof typeof OBSTACLE_TYPES];
 
 // Validation type guards
 export const isSunlightCondition = (value: string): value is SunlightCondition => {
     return Object.values(SUNLIGHT_CONDITIONS).includes(value as SunlightCondition);
 };
 
+export const isObstacleType = (value: string): value is ObstacleType => {
+    return Object.values(OBSTACLE_TYPES).includes(value as ObstacleType);
+};
+
 export const isValidGardenArea = (area: number): boolean => {
     return area >= GARDEN_AREA_LIMITS.MIN_AREA && area <= GARDEN_AREA_LIMITS.MAX_AREA;
 };
\ No newline at end of file
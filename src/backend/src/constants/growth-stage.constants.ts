@@ -0,0 +1,25 @@
+/**
+ * Growth Stage Constants
+ * @packageVersion 5.0
+ *
+ * Defines how plants are advanced through their growth stages from the growing degree
+ * days accumulated since they were planted.
+ */
+
+/**
+ * Defaults for advancing plants through their growth stages
+ * A day's growing degree days are its mean temperature above the plant's base temperature,
+ * in °C. An average growing day has a mean of AVERAGE_DAY_TEMPERATURE, so a plant develops
+ * by one average growing day for every (AVERAGE_DAY_TEMPERATURE - base) degree days. Days
+ * without recorded weather count as an average growing day.
+ */
+export const GROWTH_PROGRESSION_DEFAULTS = {
+    BASE_TEMPERATURE: 10,           // °C below which plants develop, for catalog types without their own
+    AVERAGE_DAY_TEMPERATURE: 20,    // Mean °C of an average growing day
+    MAX_DAY_PROGRESS: 2,            // Hot days count as at most this many average growing days
+    SEEDLING_SHARE: 0.25,           // Share of the days to maturity spent as a seedling without catalog durations
+    GROWING_SHARE: 0.5,             // Share spent growing on without catalog durations
+    PACE_DAYS: 14,                  // Recent days whose pace of growth projects the harvest date
+    MIN_PACE: 0.25,                 // Growing days a day projected at least, as cold spells pass
+    HARVEST_LOOKAHEAD_DAYS: 90      // Days ahead a pending harvest task is looked for
+} as const;
@@ -0,0 +1,56 @@
+/**
+ * Harvest Constants
+ * @packageVersion 5.0
+ *
+ * Defines forecast ranges and defaults used to project garden yield per week and to
+ * record actual harvests for comparison.
+ */
+
+/**
+ * Limits applied to harvest forecast requests
+ */
+export const HARVEST_FORECAST_LIMITS = {
+    DEFAULT_WEEKS: 12,
+    MAX_WEEKS: 52
+} as const;
+
+/**
+ * Defaults used when projecting when and how much a plant yields
+ */
+export const HARVEST_FORECAST_DEFAULTS = {
+    HARVEST_WINDOW_DAYS: 14,     // Used for plant types missing from the catalog
+    OVERDUE_MATURITY_DAYS: 7     // Plants past their maturity date but not yet mature are expected within a week
+} as const;
+
+/**
+ * Quality rating scale for logged harvests (1 = poor, 5 = excellent)
+ */
+export const HARVEST_QUALITY_RATING = {
+    MIN: 1,
+    MAX: 5
+} as const;
+
+/**
+ * Settings for learning each plant type's actual growth rate from logged harvests
+ * The rate is expected days to maturity divided by the days a plant actually took to its first harvest
+ */
+export const GROWTH_RATE_LEARNING = {
+    SMOOTHING: 0.3,     // Weight of the newest first harvest in the running rate
+    MIN_RATE: 0.25,     // Samples are clamped so one odd harvest cannot skew the rate
+    MAX_RATE: 4
+} as const;
+
+/**
+ * Error messages for harvest operations
+ */
+export const HARVEST_ERRORS = {
+    INVALID_QUANTITY: 'Harvest quantity must be a positive number of kilograms',
+    INVALID_COUNT: 'Harvest count must be a positive whole number',
+    MISSING_AMOUNT: 'Harvest must record a weight or a count',
+    INVALID_QUALITY: `Harvest quality rating must be a whole number from ${HARVEST_QUALITY_RATING.MIN} to ${HARVEST_QUALITY_RATING.MAX}`,
+    INVALID_DATE: 'Harvest date must be a valid date that is not in the future',
+    INVALID_SEASON: 'Harvest season must be a four-digit year',
+    PLANT_NOT_IN_GARDEN: 'Plant does not belong to this garden',
+    NOT_A_HARVEST_TASK: 'Harvest details can only be recorded when completing a harvesting task',
+    INVALID_FORECAST_RANGE: `Forecast must cover between 1 and ${HARVEST_FORECAST_LIMITS.MAX_WEEKS} weeks from a valid date`
+} as const;
@@ -0,0 +1,65 @@
+/**
+ * Irrigation Constants
+ * @packageVersion 5.0
+ *
+ * Defines the drivers, limits and messages for irrigation valves that water garden zones
+ * automatically when their watering tasks come due.
+ */
+
+/**
+ * Drivers that open and close irrigation valves
+ */
+export const IRRIGATION_DRIVERS = {
+    SIMULATED: 'SIMULATED'     // Valves are opened in memory only; for development and tests
+} as const;
+
+export type IrrigationDriverType = typeof IRRIGATION_DRIVERS[keyof typeof IRRIGATION_DRIVERS];
+
+/**
+ * States of a valve run
+ */
+export const IRRIGATION_RUN_STATUS = {
+    RUNNING: 'RUNNING',
+    COMPLETED: 'COMPLETED',
+    FAILED: 'FAILED'
+} as const;
+
+export type IrrigationRunStatus = typeof IRRIGATION_RUN_STATUS[keyof typeof IRRIGATION_RUN_STATUS];
+
+/**
+ * Defaults for running valves
+ */
+export const IRRIGATION_DEFAULTS = {
+    DRIVER: IRRIGATION_DRIVERS.SIMULATED,
+    MAX_CONCURRENT_VALVES: 2,      // Valves open at once across all gardens; more would drop the supply pressure
+    MAX_RUN_MINUTES: 60,           // Longest a valve runs for one watering when the valve sets none
+    TASK_LOOKBACK_HOURS: 12,       // Watering tasks overdue by longer are left to the gardener
+    RUN_HISTORY_LIMIT: 50
+} as const;
+
+/**
+ * Limits on the valves linked to zones
+ */
+export const IRRIGATION_LIMITS = {
+    MAX_VALVE_NAME_LENGTH: 100,
+    MAX_CHANNEL_LENGTH: 100,
+    MAX_FLOW_RATE_LPM: 200,        // Litres per minute; beyond a garden supply line
+    MAX_RUN_MINUTES: 240
+} as const;
+
+/**
+ * Error messages for irrigation valves and runs
+ */
+export const IRRIGATION_ERRORS = {
+    VALVE_NOT_FOUND: 'Irrigation valve not found',
+    UNKNOWN_ZONE: 'Zone does not belong to the garden',
+    ZONE_HAS_VALVE: 'Zone is already linked to an irrigation valve',
+    INVALID_VALVE_NAME: `Valve name must be between 1 and ${IRRIGATION_LIMITS.MAX_VALVE_NAME_LENGTH} characters`,
+    INVALID_CHANNEL: `Valve channel must be between 1 and ${IRRIGATION_LIMITS.MAX_CHANNEL_LENGTH} characters`,
+    INVALID_FLOW_RATE: `Flow rate must be above 0 and at most ${IRRIGATION_LIMITS.MAX_FLOW_RATE_LPM} litres per minute`,
+    INVALID_MAX_RUN: `Maximum run time must be above 0 and at most ${IRRIGATION_LIMITS.MAX_RUN_MINUTES} minutes`,
+    VALVE_RUNNING: 'Irrigation valve is running; wait for the run to finish',
+    VALVE_NOT_OPENED: 'Valve could not be opened',
+    NOTHING_DELIVERED: 'Valve delivered no water; its watering tasks are left to the gardener',
+    UNKNOWN_DRIVER: 'Unknown irrigation driver'
+} as const;
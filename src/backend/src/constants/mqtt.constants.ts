@@ -0,0 +1,55 @@
+/**
+ * MQTT Constants
+ * @packageVersion 5.0
+ *
+ * Defines defaults and messages for the optional MQTT bridge that feeds readings from
+ * garden sensors into the sensor store and sends watering commands to irrigation
+ * controllers.
+ */
+
+/**
+ * Defaults for the MQTT bridge connection
+ */
+export const MQTT_DEFAULTS = {
+    URL: 'mqtt://localhost:1883',
+    CLIENT_ID_PREFIX: 'garden-planner',
+    QOS: 1,
+    RECONNECT_PERIOD_MS: 5000,
+    CONNECT_TIMEOUT_MS: 10000,
+    EMBEDDED_BROKER_PORT: 1883,
+    EMBEDDED_BROKER_HOST: 'localhost',
+    COMMAND_LOOKBACK_HOURS: 12     // Watering tasks overdue by longer are left to the gardener
+} as const;
+
+/**
+ * Placeholders sensor and irrigation topics may contain; in sensor topics each matches one
+ * topic level and supplies the zone, plant or metric of the reading
+ */
+export const MQTT_TOPIC_PLACEHOLDERS = {
+    ZONE: 'zoneId',
+    PLANT: 'plantId',
+    METRIC: 'metric'
+} as const;
+
+/**
+ * Commands published to irrigation controllers
+ */
+export const IRRIGATION_COMMANDS = {
+    WATER: 'water'
+} as const;
+
+export type IrrigationCommandType = typeof IRRIGATION_COMMANDS[keyof typeof IRRIGATION_COMMANDS];
+
+/**
+ * Error messages for the MQTT bridge
+ */
+export const MQTT_ERRORS = {
+    INVALID_MAPPINGS: 'MQTT mappings must list sensor topics with a device key and irrigation topics with a garden',
+    INVALID_TOPIC: 'MQTT topic placeholders must fill a whole topic level and wildcards are not allowed in irrigation topics',
+    INVALID_PAYLOAD: 'MQTT payload must be a number or a JSON object of readings',
+    MISSING_METRIC: 'MQTT reading has no metric: set one in the mapping, the topic or the payload',
+    NOT_CONNECTED: 'MQTT bridge is not connected',
+    BROKER_CREDENTIALS_REQUIRED: 'The embedded MQTT broker needs MQTT_USERNAME and MQTT_PASSWORD',
+    BAD_CREDENTIALS: 'MQTT username or password is incorrect',
+    PUBLISH_NOT_ALLOWED: 'MQTT clients may only publish to mapped sensor topics'
+} as const;
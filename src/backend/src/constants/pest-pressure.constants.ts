@@ -0,0 +1,193 @@
+/**
+ * Pest Pressure Constants
+ * @packageVersion 5.0
+ *
+ * Defines the pests and diseases whose pressure is tracked per garden, the plants they
+ * attack, the daily weather that favours them and how gardeners should respond when the
+ * risk rises.
+ */
+
+import { PLANT_FAMILY } from './plant.constants';
+import { PLANT_PROBLEMS } from './plant-health.constants';
+import { IPestThreat } from '../interfaces/pest-pressure.interface';
+
+/**
+ * Pests and diseases tracked by the pressure calendar
+ */
+export const PEST_THREATS = {
+    LATE_BLIGHT: 'late_blight',
+    EARLY_BLIGHT: 'early_blight',
+    POWDERY_MILDEW: 'powdery_mildew',
+    DOWNY_MILDEW: 'downy_mildew',
+    APHIDS: 'aphids',
+    SPIDER_MITES: 'spider_mites',
+    SLUGS: 'slugs',
+    CABBAGE_WHITE: 'cabbage_white',
+    CARROT_FLY: 'carrot_fly',
+    FLEA_BEETLES: 'flea_beetles'
+} as const;
+
+export type PestThreat = typeof PEST_THREATS[keyof typeof PEST_THREATS];
+
+/**
+ * Whether a threat is an animal pest or a disease
+ */
+export const PEST_THREAT_KINDS = {
+    PEST: 'PEST',
+    DISEASE: 'DISEASE'
+} as const;
+
+export type PestThreatKind = typeof PEST_THREAT_KINDS[keyof typeof PEST_THREAT_KINDS];
+
+/**
+ * Risk a threat poses to a garden, lowest first
+ */
+export const PEST_RISK_LEVELS = {
+    LOW: 'LOW',
+    MODERATE: 'MODERATE',   // Plants should be inspected
+    HIGH: 'HIGH'            // Plants should be treated
+} as const;
+
+export type PestRiskLevel = typeof PEST_RISK_LEVELS[keyof typeof PEST_RISK_LEVELS];
+
+/**
+ * Where the weather of a day came from
+ */
+export const WEATHER_DAY_SOURCES = {
+    SENSORS: 'SENSORS',     // Air temperature and humidity measured in the garden
+    FORECAST: 'FORECAST'    // The forecast for the day
+} as const;
+
+export type WeatherDaySource = typeof WEATHER_DAY_SOURCES[keyof typeof WEATHER_DAY_SOURCES];
+
+/**
+ * Defaults for working out pest pressure
+ */
+export const PEST_PRESSURE_DEFAULTS = {
+    HISTORY_DAYS: 7,            // Days before today shown on the calendar
+    WINDOW_DAYS: 7,             // Favourable days are counted over the week ending on a day
+    LOOKAHEAD_DAYS: 3,          // Forecast days after today that raise today's risk
+    MIN_SENSOR_HOURS: 12,       // Hours a day needs measurements in for sensors to describe it
+    INSPECTION_INTERVAL_DAYS: 3,    // An inspection done this recently covers a moderate risk
+    TREATMENT_INTERVAL_DAYS: 7      // A treatment done this recently covers any risk
+} as const;
+
+/**
+ * What is known about each tracked pest and disease
+ * A day favours a threat when its mean temperature (°C), mean relative humidity (%) and
+ * rainfall (mm) fall within the threat's ranges. The risk is moderate once the week ending
+ * on a day holds moderateDays favourable days and high once it holds highDays. Threats
+ * without host families attack every plant.
+ */
+export const PEST_THREAT_CATALOG: ReadonlyArray<IPestThreat> = [
+    {
+        threat: PEST_THREATS.LATE_BLIGHT,
+        kind: PEST_THREAT_KINDS.DISEASE,
+        hostFamilies: [PLANT_FAMILY.SOLANACEAE],
+        // Mild, muggy spells; the basis of the blight warnings issued to potato growers
+        conditions: { minTemperature: 10, maxTemperature: 24, minHumidity: 85 },
+        moderateDays: 2,
+        highDays: 4,
+        inspection: 'Check leaves for dark, water-soaked patches with white fuzz beneath',
+        treatment: 'Remove blighted leaves, keep foliage dry and spray with a copper fungicide'
+    },
+    {
+        threat: PEST_THREATS.EARLY_BLIGHT,
+        kind: PEST_THREAT_KINDS.DISEASE,
+        hostFamilies: [PLANT_FAMILY.SOLANACEAE],
+        conditions: { minTemperature: 20, maxTemperature: 30, minHumidity: 80 },
+        moderateDays: 3,
+        highDays: 5,
+        problem: PLANT_PROBLEMS.FUNGAL_LEAF_SPOT,
+        inspection: 'Check the lowest leaves for brown spots with rings like a target',
+        treatment: 'Remove spotted lower leaves, mulch against soil splash and spray with a copper fungicide'
+    },
+    {
+        threat: PEST_THREATS.POWDERY_MILDEW,
+        kind: PEST_THREAT_KINDS.DISEASE,
+        hostFamilies: [PLANT_FAMILY.CUCURBITACEAE, PLANT_FAMILY.FABACEAE],
+        // Warm days with humid air but little rain to wash spores off
+        conditions: { minTemperature: 15, maxTemperature: 28, minHumidity: 50, maxHumidity: 85, maxRainfall: 2 },
+        moderateDays: 4,
+        highDays: 6,
+        problem: PLANT_PROBLEMS.POWDERY_MILDEW,
+        inspection: 'Check upper leaf surfaces for white, powdery patches',
+        treatment: 'Remove affected leaves and spray with a potassium bicarbonate or sulfur fungicide'
+    },
+    {
+        threat: PEST_THREATS.DOWNY_MILDEW,
+        kind: PEST_THREAT_KINDS.DISEASE,
+        hostFamilies: [PLANT_FAMILY.CUCURBITACEAE, PLANT_FAMILY.ASTERACEAE, PLANT_FAMILY.BRASSICACEAE],
+        conditions: { minTemperature: 10, maxTemperature: 22, minHumidity: 85, minRainfall: 1 },
+        moderateDays: 2,
+        highDays: 4,
+        inspection: 'Check leaf undersides for grey-purple down below yellow patches',
+        treatment: 'Remove affected leaves, thin plants to let air through and spray with a copper fungicide'
+    },
+    {
+        threat: PEST_THREATS.APHIDS,
+        kind: PEST_THREAT_KINDS.PEST,
+        // Heavy rain knocks colonies off
+        conditions: { minTemperature: 18, maxTemperature: 28, maxRainfall: 5 },
+        moderateDays: 4,
+        highDays: 6,
+        problem: PLANT_PROBLEMS.APHID_INFESTATION,
+        inspection: 'Check shoot tips and leaf undersides for aphid colonies and sticky residue',
+        treatment: 'Knock aphids off with a jet of water and spray with insecticidal soap'
+    },
+    {
+        threat: PEST_THREATS.SPIDER_MITES,
+        kind: PEST_THREAT_KINDS.PEST,
+        hostFamilies: [PLANT_FAMILY.SOLANACEAE, PLANT_FAMILY.CUCURBITACEAE, PLANT_FAMILY.FABACEAE],
+        conditions: { minTemperature: 27, maxHumidity: 45 },
+        moderateDays: 3,
+        highDays: 5,
+        problem: PLANT_PROBLEMS.SPIDER_MITE_INFESTATION,
+        inspection: 'Check leaf undersides for fine webbing and pale speckling',
+        treatment: 'Mist the undersides of leaves and spray with horticultural oil'
+    },
+    {
+        threat: PEST_THREATS.SLUGS,
+        kind: PEST_THREAT_KINDS.PEST,
+        hostFamilies: [PLANT_FAMILY.ASTERACEAE, PLANT_FAMILY.BRASSICACEAE, PLANT_FAMILY.FABACEAE],
+        conditions: { minTemperature: 8, minHumidity: 75, minRainfall: 2 },
+        moderateDays: 2,
+        highDays: 4,
+        problem: PLANT_PROBLEMS.SLUG_DAMAGE,
+        inspection: 'Look for slime trails and ragged holes at dusk',
+        treatment: 'Collect slugs at dusk and set beer traps or iron phosphate pellets'
+    },
+    {
+        threat: PEST_THREATS.CABBAGE_WHITE,
+        kind: PEST_THREAT_KINDS.PEST,
+        hostFamilies: [PLANT_FAMILY.BRASSICACEAE],
+        // Butterflies fly and lay in warm, dry weather
+        conditions: { minTemperature: 16, maxRainfall: 2 },
+        moderateDays: 3,
+        highDays: 6,
+        problem: PLANT_PROBLEMS.CATERPILLAR_DAMAGE,
+        inspection: 'Check leaf undersides for yellow egg clusters and young caterpillars',
+        treatment: 'Pick off eggs and caterpillars, net the plants and spray with Bacillus thuringiensis'
+    },
+    {
+        threat: PEST_THREATS.CARROT_FLY,
+        kind: PEST_THREAT_KINDS.PEST,
+        hostFamilies: [PLANT_FAMILY.APIACEAE],
+        conditions: { minTemperature: 12, maxTemperature: 24, maxRainfall: 4 },
+        moderateDays: 4,
+        highDays: 6,
+        inspection: 'Check for reddish, wilting foliage and tunnels in lifted roots',
+        treatment: 'Cover the rows with fine insect mesh and avoid bruising foliage when thinning'
+    },
+    {
+        threat: PEST_THREATS.FLEA_BEETLES,
+        kind: PEST_THREAT_KINDS.PEST,
+        hostFamilies: [PLANT_FAMILY.BRASSICACEAE, PLANT_FAMILY.SOLANACEAE],
+        conditions: { minTemperature: 15, maxHumidity: 60, maxRainfall: 1 },
+        moderateDays: 3,
+        highDays: 5,
+        problem: PLANT_PROBLEMS.FLEA_BEETLE_DAMAGE,
+        inspection: 'Check young leaves for small round shot holes',
+        treatment: 'Cover plants with fleece and spray with neem oil'
+    }
+];
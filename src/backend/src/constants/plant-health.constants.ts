@@ -0,0 +1,308 @@
+/**
+ * Plant Health Constants
+ * @packageVersion 5.0
+ *
+ * Defines the symptoms and pests gardeners record when they look over a plant, the
+ * problems they point to, and the rules that map observations and recent conditions to
+ * likely problems and the actions that treat them.
+ */
+
+import { IDiagnosisRule } from '../interfaces/plant-health.interface';
+
+/**
+ * Overall health of a plant, shared with the web client
+ */
+export const PLANT_HEALTH_STATUS = {
+    EXCELLENT: 'EXCELLENT',
+    GOOD: 'GOOD',
+    FAIR: 'FAIR',
+    POOR: 'POOR',
+    CRITICAL: 'CRITICAL'
+} as const;
+
+export type PlantHealthStatus = typeof PLANT_HEALTH_STATUS[keyof typeof PLANT_HEALTH_STATUS];
+
+/**
+ * Symptoms a gardener can record on a plant
+ */
+export const PLANT_SYMPTOMS = {
+    YELLOWING_LEAVES: 'yellowing_leaves',
+    BROWN_LEAF_SPOTS: 'brown_leaf_spots',
+    POWDERY_COATING: 'powdery_coating',
+    WILTING: 'wilting',
+    LEAF_CURL: 'leaf_curl',
+    HOLES_IN_LEAVES: 'holes_in_leaves',
+    STICKY_RESIDUE: 'sticky_residue',
+    FINE_WEBBING: 'fine_webbing',
+    SLIME_TRAILS: 'slime_trails',
+    STUNTED_GROWTH: 'stunted_growth',
+    BLOSSOM_END_ROT: 'blossom_end_rot',
+    STEM_ROT: 'stem_rot',
+    SCORCHED_LEAVES: 'scorched_leaves'
+} as const;
+
+export type PlantSymptom = typeof PLANT_SYMPTOMS[keyof typeof PLANT_SYMPTOMS];
+
+/**
+ * Pests a gardener can record seeing on a plant
+ */
+export const PLANT_PESTS = {
+    APHIDS: 'aphids',
+    SPIDER_MITES: 'spider_mites',
+    WHITEFLIES: 'whiteflies',
+    CATERPILLARS: 'caterpillars',
+    SLUGS: 'slugs',
+    FLEA_BEETLES: 'flea_beetles'
+} as const;
+
+export type PlantPest = typeof PLANT_PESTS[keyof typeof PLANT_PESTS];
+
+/**
+ * Problems a diagnosis can name
+ */
+export const PLANT_PROBLEMS = {
+    POWDERY_MILDEW: 'powdery_mildew',
+    FUNGAL_LEAF_SPOT: 'fungal_leaf_spot',
+    ROOT_ROT: 'root_rot',
+    APHID_INFESTATION: 'aphid_infestation',
+    SPIDER_MITE_INFESTATION: 'spider_mite_infestation',
+    WHITEFLY_INFESTATION: 'whitefly_infestation',
+    CATERPILLAR_DAMAGE: 'caterpillar_damage',
+    SLUG_DAMAGE: 'slug_damage',
+    FLEA_BEETLE_DAMAGE: 'flea_beetle_damage',
+    DROUGHT_STRESS: 'drought_stress',
+    HEAT_STRESS: 'heat_stress',
+    NITROGEN_DEFICIENCY: 'nitrogen_deficiency',
+    CALCIUM_UPTAKE: 'calcium_uptake'
+} as const;
+
+export type PlantProblem = typeof PLANT_PROBLEMS[keyof typeof PLANT_PROBLEMS];
+
+/**
+ * How badly a problem affects a plant, mildest first
+ */
+export const PROBLEM_SEVERITY = {
+    LOW: 'LOW',
+    MODERATE: 'MODERATE',
+    HIGH: 'HIGH'
+} as const;
+
+export type ProblemSeverity = typeof PROBLEM_SEVERITY[keyof typeof PROBLEM_SEVERITY];
+
+/**
+ * Kinds of recommended action; treatments become pest control tasks
+ */
+export const HEALTH_ACTION_TYPES = {
+    TREATMENT: 'TREATMENT',     // Spraying, picking off or trapping; scheduled as a pest control task
+    CARE: 'CARE'                // A change to watering, feeding or placement
+} as const;
+
+export type HealthActionType = typeof HEALTH_ACTION_TYPES[keyof typeof HEALTH_ACTION_TYPES];
+
+/**
+ * Defaults for diagnosing plants
+ */
+export const PLANT_HEALTH_DEFAULTS = {
+    OBSERVATION_WINDOW_DAYS: 14,    // Observations older than this no longer count towards a diagnosis
+    HISTORY_LIMIT: 50,
+    MODERATE_AFFECTED_PERCENT: 20,  // Share of the plant affected that raises a problem to moderate
+    HIGH_AFFECTED_PERCENT: 50,      // ... and to high
+    CRITICAL_AFFECTED_PERCENT: 75,  // Share beyond which a plant with a severe problem is critical
+    LEAF_COLOR: 'green'             // Leaf colour when no leaf symptom was observed
+} as const;
+
+/**
+ * Weights that make up the confidence in a diagnosed problem
+ */
+export const DIAGNOSIS_CONFIDENCE = {
+    BASE: 0.25,                 // Any one sign of the problem
+    SIGNS: 0.4,                 // Spread over the share of the rule's signs observed
+    PEST_SIGHTING: 0.25,        // A pest behind the problem was seen
+    CONDITIONS: 0.2,            // Recent conditions favour the problem
+    MAX: 0.95,
+    MIN: 0.5                    // Problems less likely than this are left out of a diagnosis
+} as const;
+
+/**
+ * Leaf colour reported for leaf symptoms, most telling first
+ */
+export const SYMPTOM_LEAF_COLORS: ReadonlyArray<{ symptom: PlantSymptom; leafColor: string }> = [
+    { symptom: PLANT_SYMPTOMS.POWDERY_COATING, leafColor: 'white-coated' },
+    { symptom: PLANT_SYMPTOMS.SCORCHED_LEAVES, leafColor: 'brown' },
+    { symptom: PLANT_SYMPTOMS.BROWN_LEAF_SPOTS, leafColor: 'spotted' },
+    { symptom: PLANT_SYMPTOMS.YELLOWING_LEAVES, leafColor: 'yellow' }
+];
+
+/**
+ * Days until a treatment task is due, by severity of the problem it treats
+ */
+export const TREATMENT_DUE_DAYS: Record<ProblemSeverity, number> = {
+    [PROBLEM_SEVERITY.LOW]: 3,
+    [PROBLEM_SEVERITY.MODERATE]: 1,
+    [PROBLEM_SEVERITY.HIGH]: 0
+};
+
+/**
+ * Limits on recorded observations
+ */
+export const PLANT_HEALTH_LIMITS = {
+    MAX_NOTES_LENGTH: 2000,
+    MAX_PHOTOS: 10,
+    MAX_PHOTO_URL_LENGTH: 2048,
+    MAX_CAPTION_LENGTH: 200
+} as const;
+
+/**
+ * Error messages for plant observations and diagnoses
+ */
+export const PLANT_HEALTH_ERRORS = {
+    EMPTY_OBSERVATION: 'An observation must record at least one symptom, pest or note',
+    UNKNOWN_SYMPTOM: 'Unknown symptom',
+    UNKNOWN_PEST: 'Unknown pest',
+    INVALID_AFFECTED_PERCENT: 'Affected share must be between 0 and 100 percent',
+    INVALID_NOTES: `Notes must be at most ${PLANT_HEALTH_LIMITS.MAX_NOTES_LENGTH} characters`,
+    TOO_MANY_PHOTOS: `An observation can carry at most ${PLANT_HEALTH_LIMITS.MAX_PHOTOS} photos`,
+    INVALID_PHOTO: `Photos need a URL of at most ${PLANT_HEALTH_LIMITS.MAX_PHOTO_URL_LENGTH} characters and a caption of at most ${PLANT_HEALTH_LIMITS.MAX_CAPTION_LENGTH}`,
+    INVALID_OBSERVED_AT: 'Observation time must be a valid date that is not in the future',
+    NO_DIAGNOSIS: 'Plant has not been diagnosed'
+} as const;
+
+/**
+ * Rules mapping observations and recent conditions to likely problems
+ * A rule applies when any of its symptoms or pests was observed; further signs, a sighting
+ * of the pest and conditions that favour the problem make it more likely. Humidity is
+ * percent, temperature °C and soil moisture the share of field capacity from 0 to 1.
+ */
+export const DIAGNOSIS_RULES: ReadonlyArray<IDiagnosisRule> = [
+    {
+        problem: PLANT_PROBLEMS.POWDERY_MILDEW,
+        symptoms: [PLANT_SYMPTOMS.POWDERY_COATING, PLANT_SYMPTOMS.YELLOWING_LEAVES, PLANT_SYMPTOMS.LEAF_CURL],
+        pests: [],
+        conditions: { minHumidity: 60, minTemperature: 15, maxTemperature: 30 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Remove affected leaves and spray with a potassium bicarbonate or sulfur fungicide' },
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Water at the base in the morning and thin growth to let air through' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.FUNGAL_LEAF_SPOT,
+        symptoms: [PLANT_SYMPTOMS.BROWN_LEAF_SPOTS, PLANT_SYMPTOMS.YELLOWING_LEAVES],
+        pests: [],
+        conditions: { minHumidity: 80, minTemperature: 10 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Remove spotted leaves and spray with a copper fungicide' },
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Keep leaves dry and mulch to stop soil splashing onto them' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.ROOT_ROT,
+        symptoms: [PLANT_SYMPTOMS.WILTING, PLANT_SYMPTOMS.STEM_ROT, PLANT_SYMPTOMS.YELLOWING_LEAVES],
+        pests: [],
+        conditions: { minSoilMoisture: 0.95 },
+        severity: PROBLEM_SEVERITY.HIGH,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Stop watering until the top of the soil dries and improve drainage around the roots' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.APHID_INFESTATION,
+        symptoms: [PLANT_SYMPTOMS.STICKY_RESIDUE, PLANT_SYMPTOMS.LEAF_CURL],
+        pests: [PLANT_PESTS.APHIDS],
+        conditions: { minTemperature: 18, maxTemperature: 30 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Knock aphids off with a jet of water and spray with insecticidal soap' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.SPIDER_MITE_INFESTATION,
+        symptoms: [PLANT_SYMPTOMS.FINE_WEBBING, PLANT_SYMPTOMS.YELLOWING_LEAVES],
+        pests: [PLANT_PESTS.SPIDER_MITES],
+        conditions: { maxHumidity: 40, minTemperature: 27 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Mist the undersides of leaves and spray with horticultural oil' },
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Raise humidity around the plant during hot, dry spells' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.WHITEFLY_INFESTATION,
+        symptoms: [PLANT_SYMPTOMS.STICKY_RESIDUE],
+        pests: [PLANT_PESTS.WHITEFLIES],
+        conditions: { minTemperature: 20 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Hang yellow sticky traps and spray leaf undersides with insecticidal soap' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.CATERPILLAR_DAMAGE,
+        symptoms: [PLANT_SYMPTOMS.HOLES_IN_LEAVES],
+        pests: [PLANT_PESTS.CATERPILLARS],
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Pick off caterpillars and spray with Bacillus thuringiensis' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.SLUG_DAMAGE,
+        symptoms: [PLANT_SYMPTOMS.SLIME_TRAILS, PLANT_SYMPTOMS.HOLES_IN_LEAVES],
+        pests: [PLANT_PESTS.SLUGS],
+        conditions: { minHumidity: 70, minSoilMoisture: 0.7 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Collect slugs at dusk and set beer traps or iron phosphate pellets' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.FLEA_BEETLE_DAMAGE,
+        symptoms: [PLANT_SYMPTOMS.HOLES_IN_LEAVES],
+        pests: [PLANT_PESTS.FLEA_BEETLES],
+        conditions: { minTemperature: 15, maxHumidity: 60 },
+        severity: PROBLEM_SEVERITY.LOW,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.TREATMENT, description: 'Cover plants with fleece and spray with neem oil' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.DROUGHT_STRESS,
+        symptoms: [PLANT_SYMPTOMS.WILTING, PLANT_SYMPTOMS.SCORCHED_LEAVES, PLANT_SYMPTOMS.LEAF_CURL],
+        pests: [],
+        conditions: { maxSoilMoisture: 0.5 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Water deeply and mulch to hold moisture in the soil' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.HEAT_STRESS,
+        symptoms: [PLANT_SYMPTOMS.SCORCHED_LEAVES, PLANT_SYMPTOMS.WILTING],
+        pests: [],
+        conditions: { minTemperature: 32 },
+        severity: PROBLEM_SEVERITY.LOW,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Shade the plant through the afternoon and water early in the day' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.NITROGEN_DEFICIENCY,
+        symptoms: [PLANT_SYMPTOMS.YELLOWING_LEAVES, PLANT_SYMPTOMS.STUNTED_GROWTH],
+        pests: [],
+        severity: PROBLEM_SEVERITY.LOW,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Feed with a nitrogen-rich fertilizer or compost tea' }
+        ]
+    },
+    {
+        problem: PLANT_PROBLEMS.CALCIUM_UPTAKE,
+        symptoms: [PLANT_SYMPTOMS.BLOSSOM_END_ROT],
+        pests: [],
+        conditions: { maxSoilMoisture: 0.5 },
+        severity: PROBLEM_SEVERITY.MODERATE,
+        actions: [
+            { type: HEALTH_ACTION_TYPES.CARE, description: 'Water evenly so the roots can take up calcium, and remove affected fruit' }
+        ]
+    }
+];
@@ -5,7 +5,14 @@
  */
 
 /**
- * Supported plant types for garden planning and maintenance
+ * Catalog key identifying a kind of plant (e.g. 'tomatoes', 'garlic')
+ * Plant traits are resolved at runtime from the plant catalog by this key
+ */
+export type PlantType = string;
+
+/**
+ * Built-in plant types shipped with the default plant catalog seed
+ * Additional types are added through the plant catalog API without a new build
  */
 export enum PLANT_TYPES {
     TOMATOES = 'tomatoes',
@@ -32,6 +39,12 @@ export enum SUNLIGHT_REQUIREMENTS {
     FULL_SHADE = 'full_shade'
 }
 
+/**
+ * Baseline catalog values for the built-in plant types
+ * The tables below seed the plant catalog (see db/seeds/plants.seed.ts); services and
+ * validators read plant traits from the catalog at runtime, not from these constants
+ */
+
 /**
  * Required spacing in inches between plants for layout optimization
  * Based on standard horticultural spacing guidelines
@@ -52,6 +65,125 @@ export const DAYS_TO_MATURITY: Record<PLANT_TYPES, number> = {
     [PLANT_TYPES.CARROTS]: 70   // From seed to harvest
 };
 
+/**
+ * Days a crop keeps its bed after maturity while it is being harvested
+ * Used by the season planner to decide when a zone can be replanted
+ */
+export const HARVEST_WINDOW_DAYS: Record<PLANT_TYPES, number> = {
+    [PLANT_TYPES.TOMATOES]: 60, // Fruits over several weeks until frost
+    [PLANT_TYPES.LETTUCE]: 14,  // Leaves bolt soon after maturity
+    [PLANT_TYPES.CARROTS]: 21   // Roots hold in the ground for a few weeks
+};
+
+/**
+ * Days a plant spends as a seedling before it starts growing on
+ * The seedling and growing days are counted in average growing days, and the plant is
+ * mature from their end until its days to maturity
+ */
+export const SEEDLING_DAYS: Record<PLANT_TYPES, number> = {
+    [PLANT_TYPES.TOMATOES]: 14, // Transplants settle in within two weeks
+    [PLANT_TYPES.LETTUCE]: 14,
+    [PLANT_TYPES.CARROTS]: 21   // Slow to germinate and establish
+};
+
+/**
+ * Days a plant spends growing on after the seedling stage
+ */
+export const GROWING_DAYS: Record<PLANT_TYPES, number> = {
+    [PLANT_TYPES.TOMATOES]: 46, // Flowering and fruit set
+    [PLANT_TYPES.LETTUCE]: 21,  // Leaves fill out into a head
+    [PLANT_TYPES.CARROTS]: 35   // Roots lengthen before they bulk up
+};
+
+/**
+ * Mean temperature in °C below which a plant stops developing
+ * Growing degree days are counted above it, so cool-season crops keep growing in weather
+ * that holds warm-season crops back
+ */
+export const BASE_TEMPERATURES: Record<PLANT_TYPES, number> = {
+    [PLANT_TYPES.TOMATOES]: 10,
+    [PLANT_TYPES.LETTUCE]: 4,
+    [PLANT_TYPES.CARROTS]: 5
+};
+
+/**
+ * Whether a plant is harvested once, lifted at maturity instead of being picked over a
+ * harvesting stage
+ */
+export const SINGLE_HARVEST: Record<PLANT_TYPES, boolean> = {
+    [PLANT_TYPES.TOMATOES]: false,
+    [PLANT_TYPES.LETTUCE]: true,
+    [PLANT_TYPES.CARROTS]: true
+};
+
+/**
+ * Days between succession sowings for fast crops sown repeatedly through the season
+ * Plant types without an interval are sown once per planting
+ */
+export const SUCCESSION_INTERVAL_DAYS: Partial<Record<PLANT_TYPES, number>> = {
+    [PLANT_TYPES.LETTUCE]: 14   // Fortnightly sowings for a continuous harvest
+};
+
+/**
+ * How much frost a plant survives, which sets how close to the frost dates it may grow
+ */
+export enum FROST_TOLERANCE {
+    TENDER = 'TENDER',
+    HALF_HARDY = 'HALF_HARDY',
+    HARDY = 'HARDY'
+}
+
+/**
+ * Frost tolerance for each built-in plant type
+ */
+export const FROST_TOLERANCES: Record<PLANT_TYPES, FROST_TOLERANCE> = {
+    [PLANT_TYPES.TOMATOES]: FROST_TOLERANCE.TENDER,
+    [PLANT_TYPES.LETTUCE]: FROST_TOLERANCE.HALF_HARDY,
+    [PLANT_TYPES.CARROTS]: FROST_TOLERANCE.HARDY
+};
+
+/**
+ * Weeks before set-out that seed is started indoors
+ * Plant types without a value are sown directly in the garden
+ */
+export const INDOOR_SOWING_WEEKS: Partial<Record<PLANT_TYPES, number>> = {
+    [PLANT_TYPES.TOMATOES]: 6
+};
+
+/**
+ * Botanical families used for crop rotation
+ * Crops of one family share soil pests, diseases and nutrient demands, so they rotate together
+ */
+export enum PLANT_FAMILY {
+    AMARANTHACEAE = 'AMARANTHACEAE',   // Beets, spinach, chard
+    AMARYLLIDACEAE = 'AMARYLLIDACEAE', // Onions, garlic, leeks
+    APIACEAE = 'APIACEAE',             // Carrots, parsnips, celery
+    ASTERACEAE = 'ASTERACEAE',         // Lettuce, endive, artichokes
+    BRASSICACEAE = 'BRASSICACEAE',     // Cabbage, kale, radishes
+    CUCURBITACEAE = 'CUCURBITACEAE',   // Squash, cucumbers, melons
+    FABACEAE = 'FABACEAE',             // Beans and peas
+    POACEAE = 'POACEAE',               // Sweet corn
+    SOLANACEAE = 'SOLANACEAE',         // Tomatoes, peppers, potatoes
+    OTHER = 'OTHER'
+}
+
+/**
+ * Plant family for each built-in plant type
+ */
+export const PLANT_FAMILIES: Record<PLANT_TYPES, PLANT_FAMILY> = {
+    [PLANT_TYPES.TOMATOES]: PLANT_FAMILY.SOLANACEAE,
+    [PLANT_TYPES.LETTUCE]: PLANT_FAMILY.ASTERACEAE,
+    [PLANT_TYPES.CARROTS]: PLANT_FAMILY.APIACEAE
+};
+
+/**
+ * Default crop rotation rules applied during layout optimization and season planning
+ */
+export const CROP_ROTATION_DEFAULTS = {
+    ROTATION_SEASONS: 3,     // Seasons before a family may return to the same zone
+    MAX_ROTATION_SEASONS: 10
+} as const;
+
 /**
  * Watering interval in days for maintenance scheduling
  * Assumes average climate conditions - adjust based on weather
@@ -90,4 +222,42 @@ export const COMPANION_PLANTS: Record<PLANT_TYPES, PLANT_TYPES[]> = {
     [PLANT_TYPES.TOMATOES]: [PLANT_TYPES.LETTUCE],     // Lettuce provides ground cover
     [PLANT_TYPES.LETTUCE]: [PLANT_TYPES.CARROTS],      // Carrots break up soil for lettuce
     [PLANT_TYPES.CARROTS]: [PLANT_TYPES.TOMATOES]      // Tomatoes provide shade
-};
\ No newline at end of file
+};
+
+/**
+ * Companion planting relationship types stored in the companion_plants table
+ */
+export enum COMPANION_RELATIONSHIP_TYPES {
+    BENEFICIAL = 'BENEFICIAL',
+    NEUTRAL = 'NEUTRAL',
+    HARMFUL = 'HARMFUL'
+}
+
+/**
+ * Default companion planting rules applied during layout optimization
+ */
+export const COMPANION_PLANTING_DEFAULTS = {
+    ANTAGONIST_DISTANCE_INCHES: 36,   // Minimum distance kept between antagonistic plants
+    FORBID_HARMFUL_ADJACENCY: true,   // Reject antagonists in range instead of penalising
+    BENEFICIAL_SPACING_FACTOR: 0.75,  // 25% spacing reduction for beneficial companions
+    BENEFICIAL_SCORE: 1,              // Placement score per beneficial neighbour
+    HARMFUL_PENALTY: -2               // Placement score per antagonistic neighbour in range
+} as const;
+
+/**
+ * Pattern for catalog plant type keys: lowercase words separated by underscores
+ */
+export const PLANT_TYPE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+/**
+ * Error messages for plant catalog operations
+ */
+export const PLANT_CATALOG_ERRORS = {
+    ENTRY_NOT_FOUND: 'Plant type not found in catalog',
+    DUPLICATE_TYPE: 'Plant type already exists in catalog',
+    VERSION_CONFLICT: 'Plant catalog entry was modified by another request',
+    INVALID_ENTRY: 'Invalid plant catalog entry',
+    UNKNOWN_COMPANION: 'Companion plant type not found in catalog',
+    INVALID_RELATIONSHIP: 'Invalid companion relationship',
+    TYPE_IN_USE: 'Plant type is still used by plants or their growth records'
+} as const;
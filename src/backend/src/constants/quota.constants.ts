@@ -0,0 +1,33 @@
+/**
+ * Quota Constants
+ * @packageVersion 5.0
+ *
+ * Defines the resources whose number each role limits through maxGardens and maxSchedules
+ * in securityConfig.authorization.roles, and the features reserved to some roles.
+ */
+
+/**
+ * Resources limited per role
+ */
+export enum QUOTA_RESOURCES {
+    GARDENS = 'gardens',
+    SCHEDULES = 'schedules'
+}
+
+/**
+ * Limit value meaning a role has no limit
+ */
+export const UNLIMITED_QUOTA = -1;
+
+/**
+ * Permission of the roles that may use advanced features, such as companion-aware layouts
+ */
+export const ADVANCED_FEATURES_PERMISSION = 'use:advanced_features';
+
+/**
+ * Error messages for quota checks
+ */
+export const QUOTA_ERRORS = {
+    GARDEN_LIMIT_REACHED: 'Garden limit of your role reached',
+    SCHEDULE_LIMIT_REACHED: 'Pending task limit of your role reached'
+} as const;
@@ -19,9 +19,22 @@ export const TASK_INTERVALS = {
     [TaskType.FERTILIZING]: 168,    // Weekly fertilizing (7 days * 24 hours)
     [TaskType.PRUNING]: 336,        // Bi-weekly pruning (14 days * 24 hours)
     [TaskType.HARVESTING]: 168,     // Weekly harvesting
-    [TaskType.PEST_CONTROL]: 168    // Weekly pest control
+    [TaskType.PEST_CONTROL]: 168,   // Spacing of pest control; tasks are raised by pest pressure, not repeated
+    [TaskType.COMPOSTING]: 168,     // Weekly turning of a site's compost
+    [TaskType.WEEDING]: 336         // Bi-weekly weeding of a site's paths
 } as const;
 
+/**
+ * Task types generated ahead and renewed on completion at their interval
+ * Pest control is left out: tasks are raised when pest pressure or a diagnosis calls for them
+ */
+export const RECURRING_TASK_TYPES: TaskType[] = [
+    TaskType.WATERING,
+    TaskType.FERTILIZING,
+    TaskType.PRUNING,
+    TaskType.HARVESTING
+];
+
 /**
  * Priority levels for different task types
  * Higher number indicates higher priority
@@ -34,7 +47,9 @@ export const TASK_PRIORITIES = {
     [TaskType.FERTILIZING]: 2,      // Important for growth
     [TaskType.PRUNING]: 3,          // Critical for plant health
     [TaskType.HARVESTING]: 1,       // Flexible timing
-    [TaskType.PEST_CONTROL]: 2      // Important for protection
+    [TaskType.PEST_CONTROL]: 2,     // Important for protection
+    [TaskType.COMPOSTING]: 1,       // Shared site upkeep
+    [TaskType.WEEDING]: 1           // Shared site upkeep
 } as const;
 
 /**
@@ -57,5 +72,30 @@ export const SCHEDULE_ERRORS = {
     INVALID_TASK_TYPE: 'Invalid task type specified',
     SCHEDULE_FULL: 'Maximum tasks per day exceeded',
     INVALID_INTERVAL: 'Invalid task interval specified',
-    INVALID_GARDEN_ID: 'Invalid garden ID provided'
-} as const;
\ No newline at end of file
+    INVALID_GARDEN_ID: 'Invalid garden ID provided',
+    SCHEDULE_NOT_FOUND: 'Schedule not found'
+} as const;
+
+/**
+ * Ways a pending watering task can be adjusted for rain
+ */
+export const RAIN_ADJUSTMENT_ACTIONS = {
+    SKIPPED: 'SKIPPED',      // Closed because rain covered it and a later watering takes over
+    POSTPONED: 'POSTPONED',  // Moved later because rain covers the plant's demand until then
+    RESTORED: 'RESTORED'     // Moved back towards its original date after forecast rain failed to fall
+} as const;
+
+export type RainAdjustmentAction = typeof RAIN_ADJUSTMENT_ACTIONS[keyof typeof RAIN_ADJUSTMENT_ACTIONS];
+
+/**
+ * Settings for rescheduling watering tasks from observed and forecast rainfall
+ * Rain is credited against a plant's daily water demand over its spacing footprint
+ */
+export const RAIN_RESCHEDULING = {
+    INTERCEPTION_MM: 2,          // Rain caught by leaves and mulch that never reaches the roots
+    INFILTRATION_FRACTION: 0.8,  // Share of the remaining rain that soaks in rather than running off
+    FORECAST_CONFIDENCE: 0.7,    // Forecast rain is discounted against rain already observed
+    LOOKAHEAD_DAYS: 7,           // Pending watering tasks due within this many days are reviewed
+    OVERDUE_DAYS: 2,             // Overdue watering tasks up to this many days old are reviewed
+    MAX_POSTPONE_DAYS: 7         // Tasks are never postponed further than this from now
+} as const;
@@ -0,0 +1,90 @@
+/**
+ * Sensor Constants
+ * @packageVersion 5.0
+ *
+ * Defines the metrics garden sensors report, the ranges readings must fall in, and the
+ * limits and retention applied when readings are ingested and kept.
+ */
+
+/**
+ * Metrics sensors can report
+ * Soil moisture is the share of the soil's water-holding capacity, from 0 (dry) to 100 (full)
+ */
+export const SENSOR_METRICS = {
+    SOIL_MOISTURE: 'soil_moisture',         // Percent of field capacity
+    SOIL_TEMPERATURE: 'soil_temperature',   // °C
+    SOIL_PH: 'soil_ph',
+    AIR_TEMPERATURE: 'air_temperature',     // °C
+    HUMIDITY: 'humidity',                   // Percent relative humidity
+    LIGHT: 'light'                          // Lux
+} as const;
+
+export type SensorMetric = typeof SENSOR_METRICS[keyof typeof SENSOR_METRICS];
+
+/**
+ * Values each metric can physically take; readings outside are rejected as sensor faults
+ */
+export const SENSOR_METRIC_RANGES: Record<SensorMetric, { min: number; max: number }> = {
+    [SENSOR_METRICS.SOIL_MOISTURE]: { min: 0, max: 100 },
+    [SENSOR_METRICS.SOIL_TEMPERATURE]: { min: -30, max: 60 },
+    [SENSOR_METRICS.SOIL_PH]: { min: 0, max: 14 },
+    [SENSOR_METRICS.AIR_TEMPERATURE]: { min: -50, max: 60 },
+    [SENSOR_METRICS.HUMIDITY]: { min: 0, max: 100 },
+    [SENSOR_METRICS.LIGHT]: { min: 0, max: 200000 }
+};
+
+/**
+ * Limits applied when readings are submitted
+ */
+export const SENSOR_INGESTION_LIMITS = {
+    MAX_BATCH_SIZE: 1000,
+    MAX_FUTURE_SKEW_MINUTES: 5,     // Device clocks drift; readings further ahead are rejected
+    KEY_BYTES: 32,
+    MAX_DEVICE_NAME_LENGTH: 100
+} as const;
+
+/**
+ * How long readings are kept
+ * Raw readings past their retention are rolled up into hourly aggregates
+ */
+export const SENSOR_RETENTION = {
+    RAW_DAYS: 30,
+    HOURLY_DAYS: 730
+} as const;
+
+/**
+ * Readings older than this are not taken as the current conditions
+ */
+export const SENSOR_FRESHNESS_HOURS = 6;
+
+/**
+ * Limits applied to reading history requests
+ */
+export const SENSOR_HISTORY_LIMITS = {
+    DEFAULT_DAYS: 7,
+    MAX_DAYS: 365
+} as const;
+
+/**
+ * Header sensor devices send their key in
+ */
+export const SENSOR_KEY_HEADER = 'x-sensor-key';
+
+/**
+ * Error messages for sensor operations
+ */
+export const SENSOR_ERRORS = {
+    MISSING_KEY: 'Sensor key is required',
+    INVALID_KEY: 'Sensor key is invalid or revoked',
+    DEVICE_NOT_FOUND: 'Sensor device not found',
+    INVALID_DEVICE_NAME: `Sensor device name must be between 1 and ${SENSOR_INGESTION_LIMITS.MAX_DEVICE_NAME_LENGTH} characters`,
+    EMPTY_BATCH: 'At least one reading is required',
+    BATCH_TOO_LARGE: `At most ${SENSOR_INGESTION_LIMITS.MAX_BATCH_SIZE} readings can be submitted at once`,
+    UNKNOWN_METRIC: `Metric must be one of: ${Object.values(SENSOR_METRICS).join(', ')}`,
+    VALUE_OUT_OF_RANGE: 'Reading value is outside the range the metric can take',
+    INVALID_TIMESTAMP: 'Reading time must be a valid time that is neither in the future nor past the retention period',
+    UNKNOWN_ZONE: 'Zone does not belong to the sensor\'s garden',
+    UNKNOWN_PLANT: 'Plant does not belong to the sensor\'s garden',
+    INVALID_LINE: 'Line must read "<metric>[,zone=<id>][,plant=<id>] value=<number> [<unix timestamp>]"',
+    INVALID_HISTORY_RANGE: `History must cover between 1 and ${SENSOR_HISTORY_LIMITS.MAX_DAYS} days`
+} as const;
@@ -0,0 +1,70 @@
+/**
+ * Community Site Constants
+ * @packageVersion 5.0
+ *
+ * Defines the community sites that hold many gardens as plots, the site-wide tasks their
+ * members share, and the limits on allocating plots.
+ */
+
+import { TaskFrequency, TaskType } from '../interfaces/schedule.interface';
+
+/**
+ * Role a user holds in a community site
+ * Admins lay out plots, allocate them and raise site-wide tasks; members hold a plot or
+ * have one shared with them
+ */
+export enum SITE_ROLES {
+    ADMIN = 'ADMIN',
+    MEMBER = 'MEMBER'
+}
+
+/**
+ * Permission that grants a site-scoped permission for every site, held by administrators
+ */
+export const ALL_SITES_PERMISSIONS: Record<string, string> = {
+    'manage:own_site': 'manage:all_sites'
+};
+
+/**
+ * Task types raised for a whole site rather than one plant, which any member may claim
+ */
+export const SITE_TASK_TYPES: TaskType[] = [
+    TaskType.COMPOSTING,
+    TaskType.WEEDING
+];
+
+/**
+ * Days until a repeating site task falls due again after it is completed
+ */
+export const SITE_TASK_REPEAT_DAYS: Partial<Record<TaskFrequency, number>> = {
+    [TaskFrequency.DAILY]: 1,
+    [TaskFrequency.WEEKLY]: 7,
+    [TaskFrequency.BIWEEKLY]: 14,
+    [TaskFrequency.MONTHLY]: 30
+};
+
+/**
+ * Defaults for community sites
+ */
+export const SITE_DEFAULTS = {
+    MAX_PLOTS_PER_MEMBER: 2,         // Plots of one site a member may hold at once
+    STATISTICS_MAX_AGE_HOURS: 6,     // Plot schedule statistics older than this are recalculated
+    STATISTICS_MONTHS: 6,            // Months of completion rates kept for each plot
+    MAX_TASKS_COUNTED: 1000          // Tasks of one garden or site read for statistics and listings
+} as const;
+
+/**
+ * Error messages for community site operations
+ */
+export const SITE_ERRORS = {
+    NOT_ADMIN: 'Only site admins can manage the site',
+    PLOT_NOT_FOUND: 'Plot not found',
+    PLOT_NUMBER_TAKEN: 'Plot number is already in use on this site',
+    PLOT_ALLOCATED: 'Plot is already allocated',
+    TOO_MANY_PLOTS: `Members can hold at most ${SITE_DEFAULTS.MAX_PLOTS_PER_MEMBER} plots of a site`,
+    INVALID_TASK_TYPE: `Site tasks must be one of ${SITE_TASK_TYPES.join(', ')}`,
+    TASK_NOT_FOUND: 'Site task not found',
+    TASK_CLAIMED: 'Site task has already been claimed',
+    TASK_NOT_CLAIMED: 'Site task was claimed by another member',
+    TASK_COMPLETED: 'Site task is already completed'
+} as const;
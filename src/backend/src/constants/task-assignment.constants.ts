@@ -0,0 +1,35 @@
+/**
+ * Task Assignment Constants
+ * @packageVersion 5.0
+ *
+ * Defines the limits on assigning garden tasks to the users a garden is shared with,
+ * claiming them from the garden's pool of unassigned tasks and rotating duties between users.
+ */
+
+/**
+ * Limits on task assignment and rotations
+ */
+export const TASK_ASSIGNMENT_LIMITS = {
+    MAX_ROTATION_USERS: 20,          // Users taking turns in one rotation
+    MIN_PERIOD_DAYS: 1,
+    MAX_PERIOD_DAYS: 90,
+    ROTATION_LOOKAHEAD_DAYS: 14,     // Unassigned tasks due this far ahead are assigned by rotation
+    POOL_LOOKAHEAD_DAYS: 30,         // Unassigned tasks due this far ahead are listed in the pool
+    HISTORY_DAYS: 30,                // Days of completion history listed when no period is given
+    MAX_HISTORY_DAYS: 366            // Longest period completion history is listed for
+} as const;
+
+/**
+ * Error messages for task assignment operations
+ */
+export const TASK_ASSIGNMENT_ERRORS = {
+    NOT_ALLOWED: 'Only the garden owner and collaborators can assign tasks',
+    NOT_ASSIGNABLE: 'Tasks can only be assigned to the garden owner or collaborators',
+    TASK_ASSIGNED: 'Task is already assigned',
+    TASK_NOT_ASSIGNED: 'Task is not assigned to you',
+    TASK_COMPLETED: 'Task is already completed',
+    INVALID_ROTATION: `A rotation needs between 1 and ${TASK_ASSIGNMENT_LIMITS.MAX_ROTATION_USERS} distinct users`,
+    INVALID_PERIOD: `Rotation periods must be whole days between ${TASK_ASSIGNMENT_LIMITS.MIN_PERIOD_DAYS} and ${TASK_ASSIGNMENT_LIMITS.MAX_PERIOD_DAYS}`,
+    ROTATION_NOT_FOUND: 'Task rotation not found',
+    INVALID_HISTORY_PERIOD: `Completion history needs a start before its end, at most ${TASK_ASSIGNMENT_LIMITS.MAX_HISTORY_DAYS} days apart`
+} as const;
@@ -0,0 +1,78 @@
+/**
+ * Water Balance Constants
+ * @packageVersion 5.0
+ *
+ * Defines soil types, their water holding capacities and the coefficients used to keep a
+ * daily soil water balance per garden zone and derive watering from it.
+ */
+
+/**
+ * Soil types a garden zone can be made of
+ */
+export const SOIL_TYPES = {
+    SAND: 'SAND',
+    SANDY_LOAM: 'SANDY_LOAM',
+    LOAM: 'LOAM',
+    CLAY_LOAM: 'CLAY_LOAM',
+    CLAY: 'CLAY'
+} as const;
+
+export type SoilType = typeof SOIL_TYPES[keyof typeof SOIL_TYPES];
+
+/**
+ * Water each soil type holds for plants, in millimetres per metre of soil depth
+ * The difference between field capacity and the wilting point
+ */
+export const SOIL_WATER_CAPACITY_MM_PER_M = {
+    [SOIL_TYPES.SAND]: 60,
+    [SOIL_TYPES.SANDY_LOAM]: 110,
+    [SOIL_TYPES.LOAM]: 160,
+    [SOIL_TYPES.CLAY_LOAM]: 180,
+    [SOIL_TYPES.CLAY]: 190
+} as const;
+
+/**
+ * Sources of water applied to a zone by hand or by an irrigation system
+ */
+export const IRRIGATION_SOURCES = {
+    TASK: 'TASK',        // Watering task marked completed; the zone is watered back to capacity
+    MANUAL: 'MANUAL',    // Amount entered by the gardener
+    VALVE: 'VALVE'       // Water delivered by an irrigation valve carrying out a watering task
+} as const;
+
+export type IrrigationSource = typeof IRRIGATION_SOURCES[keyof typeof IRRIGATION_SOURCES];
+
+/**
+ * Defaults and coefficients of the daily zone water balance
+ * Evapotranspiration follows Hargreaves from the day's temperature range and the sun's
+ * position, corrected for humidity and wind since the forecast has no solar radiation
+ */
+export const WATER_BALANCE_DEFAULTS = {
+    SOIL_TYPE: SOIL_TYPES.LOAM,
+    ROOT_DEPTH_M: 0.3,               // Depth of soil vegetable roots draw water from
+    ALLOWED_DEPLETION: 0.5,          // Share of the held water used up before the zone is watered
+    REFERENCE_ET_MM: 5,              // Evapotranspiration at which plants need their catalog water requirement
+    SOIL_EVAPORATION_FACTOR: 0.3,    // Share of evapotranspiration lost from bare soil between plants
+    DEFAULT_ET_MM: 4,                // Used when the garden has no location to place the sun
+    DEFAULT_TEMPERATURE_RANGE: 10,   // Difference between daily highs and lows in °C when none is forecast
+    REFERENCE_HUMIDITY: 60,          // Relative humidity in % at which no correction is applied
+    HUMIDITY_COEFFICIENT: 0.005,     // Correction per % of humidity below the reference
+    REFERENCE_WIND_KMH: 7.2,         // 2 m/s, the wind speed Hargreaves is calibrated for
+    WIND_COEFFICIENT: 0.01,          // Correction per km/h of wind above the reference
+    MIN_CORRECTION: 0.5,
+    MAX_CORRECTION: 1.5,
+    DEFAULT_HISTORY_DAYS: 30,
+    MAX_HISTORY_DAYS: 365,
+    MAX_CATCH_UP_DAYS: 30,           // Days without a recorded balance that are filled in at most
+    MAX_PROJECTION_DAYS: 14          // Watering is scheduled no further ahead than this
+} as const;
+
+/**
+ * Error messages for water balance operations
+ */
+export const WATER_BALANCE_ERRORS = {
+    ZONE_NOT_FOUND: 'Zone not found in garden',
+    INVALID_SOIL_TYPE: `Soil type must be one of: ${Object.values(SOIL_TYPES).join(', ')}`,
+    INVALID_IRRIGATION: 'Irrigation amount must be a positive number of millimetres',
+    INVALID_HISTORY_DAYS: `Water balance history must cover between 1 and ${WATER_BALANCE_DEFAULTS.MAX_HISTORY_DAYS} days`
+} as const;
@@ -0,0 +1,56 @@
+/**
+ * Weather Constants
+ * @packageVersion 5.0
+ *
+ * Defines the weather providers, forecast defaults and fallback conditions used to feed
+ * forecast data into maintenance scheduling.
+ */
+
+/**
+ * Supported weather forecast providers
+ */
+export const WEATHER_PROVIDERS = {
+    FIXTURE: 'FIXTURE',  // Forecast built from a bundled or local fixture file
+    HTTP: 'HTTP'         // Forecast fetched from a weather HTTP service (or the local stand-in)
+} as const;
+
+export type WeatherProviderType = typeof WEATHER_PROVIDERS[keyof typeof WEATHER_PROVIDERS];
+
+/**
+ * Defaults applied to forecast requests
+ */
+export const WEATHER_DEFAULTS = {
+    FORECAST_DAYS: 7,
+    MAX_FORECAST_DAYS: 16,
+    HOURLY_FORECAST_HOURS: 48,    // Hourly values are only provided for the first two days
+    CACHE_TTL_MINUTES: 60,
+    REQUEST_TIMEOUT_MS: 5000,
+    LOCATION_PRECISION: 2,        // Forecasts are cached per location rounded to about 1 km
+    WARMEST_HOUR: 15,             // Hour of the daily maximum when spreading a day over hours
+    MAX_RAINFALL_MM: 500,         // Upper bound for a single rainfall observation
+    STAND_IN_PORT: 8090
+} as const;
+
+/**
+ * Conditions assumed when no forecast is available for a garden
+ * Temperature in °C, humidity in %, rainfall in mm per day, wind speed in km/h
+ */
+export const DEFAULT_ENVIRONMENTAL_FACTORS = {
+    temperature: 25,   // Optimal growing temperature
+    humidity: 60,      // Optimal humidity
+    rainfall: 0,       // No rainfall
+    windSpeed: 5       // Light breeze
+} as const;
+
+/**
+ * Error messages for weather operations
+ */
+export const WEATHER_ERRORS = {
+    INVALID_LOCATION: 'Weather location must have a latitude between -90 and 90 and a longitude between -180 and 180',
+    INVALID_FORECAST_DAYS: `Weather forecast must cover between 1 and ${WEATHER_DEFAULTS.MAX_FORECAST_DAYS} days`,
+    INVALID_FIXTURE: 'Weather fixture must contain at least one day of forecast values',
+    UNKNOWN_PROVIDER: 'Unknown weather provider',
+    INVALID_RAINFALL: `Rainfall must be between 0 and ${WEATHER_DEFAULTS.MAX_RAINFALL_MM} millimetres`,
+    INVALID_OBSERVATION_DATE: 'Rainfall observation date must be a valid date that is not in the future',
+    PROVIDER_UNAVAILABLE: 'Weather provider is unavailable'
+} as const;
@@ -0,0 +1,202 @@
+/**
+ * Auth Controller
+ * Handles HTTP requests for registering, signing in, refreshing and signing out sessions
+ * and resetting forgotten passwords; devices identify themselves with the
+ * X-Device-Fingerprint header their sessions are bound to, and register their push
+ * notification tokens to be told about the tasks assigned to their user
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Body,
+    Param,
+    Req,
+    Headers,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+import { Request } from 'express'; // @version ^4.18.2
+
+import { AuthService } from '../services/auth.service';
+import { IAuthSession, IAuthTokens, IRegistrationInput } from '../interfaces/auth.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('auth')
+export class AuthController {
+    private readonly logger = new Logger(AuthController.name);
+
+    constructor(private readonly authService: AuthService) {}
+
+    /**
+     * Creates an account and signs it in
+     * @param body Email, name and password
+     * @param deviceFingerprint Fingerprint of the device signing in
+     * @returns Promise<IAuthTokens> Tokens of the new session
+     */
+    @Post('register')
+    async register(
+        @Body() body: IRegistrationInput,
+        @Headers('x-device-fingerprint') deviceFingerprint: string
+    ): Promise<IAuthTokens> {
+        try {
+            return await this.authService.register(body, deviceFingerprint);
+        } catch (error) {
+            this.logger.error(`Failed to register user: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Signs a user in
+     * @param body Email and password
+     * @param deviceFingerprint Fingerprint of the device signing in
+     * @returns Promise<IAuthTokens> Tokens of the new session
+     */
+    @Post('login')
+    @HttpCode(HttpStatus.OK)
+    async login(
+        @Body() body: { email: string; password: string },
+        @Headers('x-device-fingerprint') deviceFingerprint: string
+    ): Promise<IAuthTokens> {
+        try {
+            return await this.authService.login(body?.email, body?.password, deviceFingerprint);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Exchanges a refresh token for the next token pair of its session
+     * @param body Refresh token issued with the last pair
+     * @param deviceFingerprint Fingerprint of the device the session is bound to
+     * @returns Promise<IAuthTokens> Next tokens of the session
+     */
+    @Post('refresh')
+    @HttpCode(HttpStatus.OK)
+    async refresh(
+        @Body() body: { refreshToken: string },
+        @Headers('x-device-fingerprint') deviceFingerprint: string
+    ): Promise<IAuthTokens> {
+        try {
+            return await this.authService.refresh(body?.refreshToken, deviceFingerprint);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Signs out the session of the access token the request was made with
+     */
+    @Post('logout')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async logout(@Req() request: Request): Promise<void> {
+        try {
+            await this.authService.logout(request.user!.id, request.user!.sessionId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the devices the signed-in user is signed in on
+     * @returns Promise<IAuthSession[]> Sessions, most recently signed in first
+     */
+    @Get('sessions')
+    async listSessions(@Req() request: Request): Promise<IAuthSession[]> {
+        try {
+            return await this.authService.listSessions(request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Signs out every session of the signed-in user, this one included
+     */
+    @Delete('sessions')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async logoutAll(@Req() request: Request): Promise<void> {
+        try {
+            await this.authService.logoutAll(request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Signs out one session of the signed-in user, such as a lost device
+     * @param sessionId Session identifier
+     */
+    @Delete('sessions/:sessionId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async revokeSession(@Req() request: Request, @Param('sessionId') sessionId: string): Promise<void> {
+        try {
+            await this.authService.logout(request.user!.id, sessionId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Registers the device of the signed-in user for push notifications
+     * @param body Push notification token of the device
+     */
+    @Post('devices')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async registerDevice(@Req() request: Request, @Body() body: { token: string }): Promise<void> {
+        try {
+            await this.authService.registerDevice(request.user!.id, body?.token);
+        } catch (error) {
+            this.logger.error(`Failed to register device: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Stops sending push notifications to a device of the signed-in user
+     * @param token Push notification token of the device
+     */
+    @Delete('devices/:token')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async unregisterDevice(@Req() request: Request, @Param('token') token: string): Promise<void> {
+        try {
+            await this.authService.unregisterDevice(request.user!.id, token);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Sends a password reset token to the account with the email, if there is one
+     * @param body Email address
+     */
+    @Post('password-reset/request')
+    @HttpCode(HttpStatus.ACCEPTED)
+    async requestPasswordReset(@Body() body: { email: string }): Promise<void> {
+        try {
+            await this.authService.requestPasswordReset(body?.email);
+        } catch (error) {
+            this.logger.error(`Failed to request password reset: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Sets a new password with a reset token, signing out every session
+     * @param body Reset token and new password
+     */
+    @Post('password-reset/confirm')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async resetPassword(@Body() body: { token: string; password: string }): Promise<void> {
+        try {
+            await this.authService.resetPassword(body?.token, body?.password);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Garden Sharing Controller
+ * Handles HTTP requests for sharing gardens with other users by invitation code and
+ * managing who a garden is shared with
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    Req,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+import { Request } from 'express'; // @version ^4.18.2
+
+import { GardenSharingService } from '../services/garden-sharing.service';
+import {
+    IGardenInvitation,
+    IGardenMemberSummary,
+    IGardenMembership
+} from '../interfaces/garden.interface';
+import { GardenMemberRole } from '../constants/garden-sharing.constants';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('garden-sharing')
+export class GardenSharingController {
+    private readonly logger = new Logger(GardenSharingController.name);
+
+    constructor(private readonly gardenSharingService: GardenSharingService) {}
+
+    /**
+     * Lists the owner of a garden and the users it is shared with
+     * @param gardenId Garden identifier
+     * @returns Promise<IGardenMemberSummary[]> Users with access to the garden and their roles
+     */
+    @Get('gardens/:gardenId/members')
+    async listMembers(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string
+    ): Promise<IGardenMemberSummary[]> {
+        try {
+            return await this.gardenSharingService.listMembers(gardenId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Hands out an invitation code sharing a garden with whoever accepts it
+     * @param gardenId Garden identifier
+     * @param body Role the invited user joins as
+     * @returns Promise<IGardenInvitation> Invitation with its code and expiry
+     */
+    @Post('gardens/:gardenId/invitations')
+    @HttpCode(HttpStatus.CREATED)
+    async createInvitation(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Body() body: { role: GardenMemberRole }
+    ): Promise<IGardenInvitation> {
+        try {
+            return await this.gardenSharingService.createInvitation(gardenId, request.user!.id, body?.role);
+        } catch (error) {
+            this.logger.error(`Failed to create garden invitation: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Withdraws an invitation code before it is accepted
+     * @param gardenId Garden identifier
+     * @param code Invitation code
+     */
+    @Delete('gardens/:gardenId/invitations/:code')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async revokeInvitation(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('code') code: string
+    ): Promise<void> {
+        try {
+            await this.gardenSharingService.revokeInvitation(gardenId, request.user!.id, code);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Accepts an invitation code, sharing its garden with the signed-in user
+     * @param code Invitation code
+     * @returns Promise<IGardenMembership> Garden and role the user was given
+     */
+    @Post('invitations/:code/accept')
+    async acceptInvitation(
+        @Req() request: Request,
+        @Param('code') code: string
+    ): Promise<IGardenMembership> {
+        try {
+            return await this.gardenSharingService.acceptInvitation(code, request.user!.id);
+        } catch (error) {
+            this.logger.error(`Failed to accept garden invitation: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Changes what a user the garden is shared with may do
+     * @param gardenId Garden identifier
+     * @param userId User whose role changes
+     * @param body New role
+     */
+    @Put('gardens/:gardenId/members/:userId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async updateMemberRole(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('userId') userId: string,
+        @Body() body: { role: GardenMemberRole }
+    ): Promise<void> {
+        try {
+            await this.gardenSharingService.updateMemberRole(gardenId, request.user!.id, userId, body?.role);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Stops sharing a garden with a user; members may also leave a garden themselves
+     * @param gardenId Garden identifier
+     * @param userId User who loses access
+     */
+    @Delete('gardens/:gardenId/members/:userId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeMember(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('userId') userId: string
+    ): Promise<void> {
+        try {
+            await this.gardenSharingService.removeMember(gardenId, request.user!.id, userId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
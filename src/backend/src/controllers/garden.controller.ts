@@ -15,17 +15,36 @@ import {
     Delete, 
     Body, 
     Param, 
+    Query,
+    Req,
     UseGuards,
     HttpException,
     HttpStatus,
     Logger
 } from '@nestjs/common'; // @version ^9.0.0
 import { ThrottlerGuard } from '@nestjs/throttler'; // @version ^4.0.0
+import { Request } from 'express'; // @version ^4.18.2
 
 import { GardenService } from '../services/garden.service';
-import { IGarden } from '../interfaces/garden.interface';
+import { QuotaExceededError } from '../services/quota.service';
+import {
+    IGarden,
+    ISeasonPlanRequest,
+    ISeasonTimeline,
+    IPlantingCalendar
+} from '../interfaces/garden.interface';
+import {
+    IHarvestForecast,
+    IHarvestInput,
+    IHarvestRecord,
+    ISeasonHarvestTotals
+} from '../interfaces/harvest.interface';
+import { IRainfallObservationInput, IWeatherForecast } from '../interfaces/weather.interface';
+import { IRainfallRecordResult } from '../interfaces/schedule.interface';
+import { IZoneWaterBalanceReport } from '../interfaces/water-balance.interface';
 import { validateGardenInput } from '../validators/garden.validator';
 import { GARDEN_AREA_LIMITS, SPACE_UTILIZATION_TARGET } from '../constants/garden.constants';
+import { toHttpException } from '../utils/error.utils';
 
 @Controller('gardens')
 @UseGuards(ThrottlerGuard)
@@ -39,17 +58,19 @@ export class GardenController {
     /**
      * Creates a new garden with optimized layout
      * Implements F-001-RQ-001 and F-001-RQ-002 requirements
+     * Owners past the garden limit of their role get a 403 naming the limit reached
      */
     @Post()
-    async createGarden(@Body() gardenData: IGarden): Promise<IGarden> {
+    async createGarden(@Req() request: Request, @Body() gardenData: IGarden): Promise<IGarden> {
         this.logger.debug(`Creating garden with area: ${gardenData.area} sq ft`);
         
         try {
             // Validate garden input
             await validateGardenInput(gardenData);
 
-            // Create garden with optimization
-            const garden = await this.gardenService.createGarden(gardenData);
+            // Create garden with optimization, owned by the user creating it
+            const { members, invitations, ...gardenInput } = gardenData;
+            const garden = await this.gardenService.createGarden({ ...gardenInput, ownerId: request.user!.id });
 
             // Verify space utilization meets target
             if (garden.optimizationMetrics?.spaceUtilization < SPACE_UTILIZATION_TARGET) {
@@ -62,6 +83,12 @@ export class GardenController {
             return garden;
         } catch (error) {
             this.logger.error(`Garden creation failed: ${error.message}`);
+            if (error instanceof QuotaExceededError) {
+                throw new HttpException(
+                    { code: error.code, message: error.message, quota: error.details },
+                    HttpStatus.FORBIDDEN
+                );
+            }
             throw new HttpException(
                 error.message || 'Garden creation failed',
                 error.status || HttpStatus.BAD_REQUEST
@@ -69,6 +96,19 @@ export class GardenController {
         }
     }
 
+    /**
+     * Lists the gardens the user owns or that are shared with them
+     */
+    @Get()
+    async listGardens(@Req() request: Request): Promise<IGarden[]> {
+        try {
+            return await this.gardenService.listGardens(request.user!.id);
+        } catch (error) {
+            this.logger.error(`Garden listing failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
     /**
      * Retrieves garden by ID with optimization metrics
      */
@@ -135,13 +175,14 @@ export class GardenController {
 
     /**
      * Deletes garden and associated optimization data
+     * Only the owner may delete a garden; the users it is shared with cannot
      */
     @Delete(':id')
-    async deleteGarden(@Param('id') id: string): Promise<void> {
+    async deleteGarden(@Req() request: Request, @Param('id') id: string): Promise<void> {
         this.logger.debug(`Deleting garden ${id}`);
         
         try {
-            const deleted = await this.gardenService.deleteGarden(id);
+            const deleted = await this.gardenService.deleteGarden(id, request.user!.id);
             if (!deleted) {
                 throw new HttpException(
                     `Garden with ID ${id} not found`,
@@ -192,4 +233,197 @@ export class GardenController {
             );
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Plans succession plantings for the whole season and returns the timeline
+     */
+    @Post(':id/timeline')
+    async planSeason(
+        @Param('id') id: string,
+        @Body() request: ISeasonPlanRequest
+    ): Promise<ISeasonTimeline> {
+        this.logger.debug(`Planning season timeline for garden ${id}`);
+
+        try {
+            return await this.gardenService.planSeason(id, request);
+        } catch (error) {
+            this.logger.error(`Season planning failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists frost-safe planting windows and suggested sowing dates for the garden's climate
+     */
+    @Get(':id/planting-calendar')
+    async getPlantingCalendar(
+        @Param('id') id: string,
+        @Query('date') date?: string
+    ): Promise<IPlantingCalendar> {
+        this.logger.debug(`Building planting calendar for garden ${id}`);
+
+        try {
+            return await this.gardenService.getPlantingCalendar(id, date ? new Date(date) : undefined);
+        } catch (error) {
+            this.logger.error(`Planting calendar failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Projects the garden's yield per week and compares it with recorded harvests
+     */
+    @Get(':id/harvest-forecast')
+    async getHarvestForecast(
+        @Param('id') id: string,
+        @Query('from') from?: string,
+        @Query('weeks') weeks?: string
+    ): Promise<IHarvestForecast> {
+        this.logger.debug(`Building harvest forecast for garden ${id}`);
+
+        try {
+            return await this.gardenService.getHarvestForecast(
+                id,
+                from ? new Date(from) : undefined,
+                weeks ? Number(weeks) : undefined
+            );
+        } catch (error) {
+            this.logger.error(`Harvest forecast failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Records a harvest actually picked from one of the garden's plants
+     */
+    @Post(':id/harvests')
+    async recordHarvest(
+        @Param('id') id: string,
+        @Body() input: IHarvestInput
+    ): Promise<IHarvestRecord> {
+        this.logger.debug(`Recording harvest for garden ${id}`);
+
+        try {
+            return await this.gardenService.recordHarvest(id, input);
+        } catch (error) {
+            this.logger.error(`Harvest recording failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the garden's harvest log, optionally for one season
+     */
+    @Get(':id/harvests')
+    async listHarvests(
+        @Param('id') id: string,
+        @Query('season') season?: string
+    ): Promise<IHarvestRecord[]> {
+        return this.listHarvestLog(id, { season: season ? Number(season) : undefined });
+    }
+
+    /**
+     * Totals the garden's harvest log per season and plant type
+     */
+    @Get(':id/harvests/totals')
+    async getHarvestTotals(@Param('id') id: string): Promise<ISeasonHarvestTotals[]> {
+        try {
+            return await this.gardenService.getHarvestTotals(id);
+        } catch (error) {
+            this.logger.error(`Harvest totals failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the hourly and daily weather forecast for the garden's location
+     */
+    @Get(':id/weather')
+    async getWeatherForecast(
+        @Param('id') id: string,
+        @Query('days') days?: string
+    ): Promise<IWeatherForecast> {
+        try {
+            return await this.gardenService.getWeatherForecast(id, days ? Number(days) : undefined);
+        } catch (error) {
+            this.logger.error(`Weather forecast failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Records rain measured at the garden and reschedules watering it makes unnecessary
+     */
+    @Post(':id/rainfall')
+    async recordRainfall(
+        @Param('id') id: string,
+        @Body() input: IRainfallObservationInput
+    ): Promise<IRainfallRecordResult> {
+        this.logger.debug(`Recording rainfall for garden ${id}`);
+
+        try {
+            return await this.gardenService.recordRainfall(id, input);
+        } catch (error) {
+            this.logger.error(`Rainfall recording failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the daily soil water balance of a zone and when it next needs watering
+     */
+    @Get(':id/zones/:zoneId/water-balance')
+    async getZoneWaterBalance(
+        @Param('id') id: string,
+        @Param('zoneId') zoneId: string,
+        @Query('days') days?: string
+    ): Promise<IZoneWaterBalanceReport> {
+        try {
+            return await this.gardenService.getZoneWaterBalance(id, zoneId, days ? Number(days) : undefined);
+        } catch (error) {
+            this.logger.error(`Water balance retrieval failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the harvests picked from one zone of the garden
+     */
+    @Get(':id/zones/:zoneId/harvests')
+    async listZoneHarvests(
+        @Param('id') id: string,
+        @Param('zoneId') zoneId: string,
+        @Query('season') season?: string
+    ): Promise<IHarvestRecord[]> {
+        return this.listHarvestLog(id, { zoneId, season: season ? Number(season) : undefined });
+    }
+
+    /**
+     * Lists the harvests picked from one plant of the garden
+     */
+    @Get(':id/plants/:plantId/harvests')
+    async listPlantHarvests(
+        @Param('id') id: string,
+        @Param('plantId') plantId: string
+    ): Promise<IHarvestRecord[]> {
+        return this.listHarvestLog(id, { plantId });
+    }
+
+    /**
+     * Lists the harvest log with the given filters, mapping failures to HTTP errors
+     * @private
+     */
+    private async listHarvestLog(
+        id: string,
+        filters: { plantId?: string; zoneId?: string; season?: number }
+    ): Promise<IHarvestRecord[]> {
+        this.logger.debug(`Listing harvests for garden ${id}`);
+
+        try {
+            return await this.gardenService.listHarvests(id, filters);
+        } catch (error) {
+            this.logger.error(`Harvest listing failed: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+}
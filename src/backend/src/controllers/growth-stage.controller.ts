@@ -0,0 +1,72 @@
+/**
+ * Growth Stage Controller
+ * Handles HTTP requests for the growth tracked for garden plants as they are advanced
+ * through their growth stages
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Param,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { GrowthStageService } from '../services/growth-stage.service';
+import { IDegreeDayCurve, IGrowthProgression, IPlantGrowthTracking } from '../interfaces/growth-stage.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('growth-stages')
+export class GrowthStageController {
+    private readonly logger = new Logger(GrowthStageController.name);
+
+    constructor(private readonly growthStageService: GrowthStageService) {}
+
+    /**
+     * Retrieves the growth tracked for the plants of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IPlantGrowthTracking[]> Stage, days in stage and expected harvest date of each plant
+     */
+    @Get('gardens/:gardenId')
+    async getGardenTracking(@Param('gardenId') gardenId: string): Promise<IPlantGrowthTracking[]> {
+        try {
+            return await this.growthStageService.getGardenTracking(gardenId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the growing degree days a plant has accumulated, for charting its progress
+     * to maturity
+     * @param plantId Plant identifier
+     * @returns Promise<IDegreeDayCurve> Daily and accumulated degree days against the stage thresholds
+     */
+    @Get('plants/:plantId/degree-days')
+    async getDegreeDayCurve(@Param('plantId') plantId: string): Promise<IDegreeDayCurve> {
+        try {
+            return await this.growthStageService.getDegreeDayCurve(plantId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Advances the plants of a garden now, raising harvest tasks for plants ready to harvest
+     * @param gardenId Garden identifier
+     * @returns Promise<IGrowthProgression[]> Growth of each plant after it was advanced
+     */
+    @Post('gardens/:gardenId/progression')
+    @HttpCode(HttpStatus.CREATED)
+    async progressGarden(@Param('gardenId') gardenId: string): Promise<IGrowthProgression[]> {
+        try {
+            return await this.growthStageService.progressGarden(gardenId);
+        } catch (error) {
+            this.logger.error(`Failed to advance growth stages: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+}
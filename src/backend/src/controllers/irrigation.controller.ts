@@ -0,0 +1,123 @@
+/**
+ * Irrigation Controller
+ * Handles HTTP requests for linking irrigation valves to garden zones and reviewing the
+ * valve runs that carried out watering tasks
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    Query,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { IrrigationService } from '../services/irrigation/irrigation.service';
+import { IIrrigationRun, IIrrigationValve, IIrrigationValveInput } from '../interfaces/irrigation.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('irrigation')
+export class IrrigationController {
+    private readonly logger = new Logger(IrrigationController.name);
+
+    constructor(private readonly irrigationService: IrrigationService) {}
+
+    /**
+     * Links a valve to a garden zone
+     * @param gardenId Garden identifier
+     * @param body Zone, name, controller channel, flow rate and optional maximum run time
+     * @returns Promise<IIrrigationValve> Stored valve
+     */
+    @Post('gardens/:gardenId/valves')
+    @HttpCode(HttpStatus.CREATED)
+    async registerValve(
+        @Param('gardenId') gardenId: string,
+        @Body() body: IIrrigationValveInput
+    ): Promise<IIrrigationValve> {
+        try {
+            return await this.irrigationService.registerValve(gardenId, body);
+        } catch (error) {
+            this.logger.error(`Failed to link irrigation valve: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the valves of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IIrrigationValve[]> Valves
+     */
+    @Get('gardens/:gardenId/valves')
+    async listValves(@Param('gardenId') gardenId: string): Promise<IIrrigationValve[]> {
+        try {
+            return await this.irrigationService.listValves(gardenId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Changes a valve's name, channel, flow rate, maximum run time or whether it runs
+     * @param gardenId Garden identifier
+     * @param valveId Valve identifier
+     * @param body Fields to change
+     * @returns Promise<IIrrigationValve> Updated valve
+     */
+    @Put('gardens/:gardenId/valves/:valveId')
+    async updateValve(
+        @Param('gardenId') gardenId: string,
+        @Param('valveId') valveId: string,
+        @Body() body: Partial<Omit<IIrrigationValveInput, 'zoneId'>>
+    ): Promise<IIrrigationValve> {
+        try {
+            return await this.irrigationService.updateValve(gardenId, valveId, body);
+        } catch (error) {
+            this.logger.error(`Failed to update irrigation valve: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Unlinks a valve from its zone
+     * @param gardenId Garden identifier
+     * @param valveId Valve identifier
+     */
+    @Delete('gardens/:gardenId/valves/:valveId')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeValve(
+        @Param('gardenId') gardenId: string,
+        @Param('valveId') valveId: string
+    ): Promise<void> {
+        try {
+            await this.irrigationService.removeValve(gardenId, valveId);
+        } catch (error) {
+            this.logger.error(`Failed to remove irrigation valve: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the latest valve runs of a garden
+     * @param gardenId Garden identifier
+     * @param limit Maximum number of runs
+     * @returns Promise<IIrrigationRun[]> Runs, newest first
+     */
+    @Get('gardens/:gardenId/runs')
+    async listRuns(
+        @Param('gardenId') gardenId: string,
+        @Query('limit') limit?: string
+    ): Promise<IIrrigationRun[]> {
+        try {
+            return await this.irrigationService.listRuns(gardenId, limit !== undefined ? Number(limit) : undefined);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
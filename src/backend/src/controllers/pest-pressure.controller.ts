@@ -0,0 +1,66 @@
+/**
+ * Pest Pressure Controller
+ * Handles HTTP requests for the pests and diseases tracked and the pressure they put on
+ * each garden
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Param,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { PestPressureService } from '../services/pest-pressure.service';
+import { IPestPressureReport, IPestThreat } from '../interfaces/pest-pressure.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('pest-pressure')
+export class PestPressureController {
+    private readonly logger = new Logger(PestPressureController.name);
+
+    constructor(private readonly pestPressureService: PestPressureService) {}
+
+    /**
+     * Lists the pests and diseases tracked
+     * @returns IPestThreat[] Host families, favourable weather and responses of each threat
+     */
+    @Get('threats')
+    getThreats(): IPestThreat[] {
+        return this.pestPressureService.getThreats();
+    }
+
+    /**
+     * Retrieves the pest pressure calendar of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IPestPressureReport> Daily risks and the current risk of each threat
+     */
+    @Get('gardens/:gardenId')
+    async getPressureCalendar(@Param('gardenId') gardenId: string): Promise<IPestPressureReport> {
+        try {
+            return await this.pestPressureService.getPressureCalendar(gardenId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Assesses a garden now and raises pest control tasks for elevated risks
+     * @param gardenId Garden identifier
+     * @returns Promise<IPestPressureReport> Risk calendar with the tasks covering each risk
+     */
+    @Post('gardens/:gardenId/assessment')
+    @HttpCode(HttpStatus.CREATED)
+    async assessGarden(@Param('gardenId') gardenId: string): Promise<IPestPressureReport> {
+        try {
+            return await this.pestPressureService.assessGarden(gardenId);
+        } catch (error) {
+            this.logger.error(`Failed to assess pest pressure: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Plant Catalog Controller
+ * Handles HTTP requests for managing the plant catalog used for plant trait lookups.
+ * Every signed-in user reads the catalog; only administrators change it.
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    HttpCode,
+    HttpException,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { PlantCatalogService } from '../services/plant-catalog.service';
+import { PlantCatalogInput } from '../repositories/plant-catalog.repository';
+import { IPlantCatalogEntry, ICompanionRelationship } from '../interfaces/plant.interface';
+import { COMPANION_RELATIONSHIP_TYPES } from '../constants/plant.constants';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('plant-catalog')
+export class PlantCatalogController {
+    private readonly logger = new Logger(PlantCatalogController.name);
+
+    constructor(private readonly plantCatalogService: PlantCatalogService) {}
+
+    /**
+     * Lists all plant types in the catalog
+     * @returns Promise<IPlantCatalogEntry[]> Catalog entries
+     */
+    @Get()
+    async listEntries(): Promise<IPlantCatalogEntry[]> {
+        return this.plantCatalogService.listEntries();
+    }
+
+    /**
+     * Retrieves a catalog entry by plant type
+     * @param type Plant type key
+     * @returns Promise<IPlantCatalogEntry> Catalog entry
+     */
+    @Get(':type')
+    async getEntry(@Param('type') type: string): Promise<IPlantCatalogEntry> {
+        try {
+            return this.plantCatalogService.requireEntry(type);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Adds a new plant type to the catalog
+     * @param entryData Catalog entry data
+     * @returns Promise<IPlantCatalogEntry> Created catalog entry
+     */
+    @Post()
+    async createEntry(@Body() entryData: PlantCatalogInput): Promise<IPlantCatalogEntry> {
+        try {
+            this.logger.log(`Adding plant type to catalog: ${entryData.type}`);
+            return await this.plantCatalogService.createEntry(entryData);
+        } catch (error) {
+            this.logger.error(`Failed to add plant type: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Updates a catalog entry; the body must carry the version the client last read
+     * @param type Plant type key
+     * @param entryData Updated catalog entry data with expected version
+     * @returns Promise<IPlantCatalogEntry> Updated catalog entry
+     */
+    @Put(':type')
+    async updateEntry(
+        @Param('type') type: string,
+        @Body() entryData: PlantCatalogInput & { version: number }
+    ): Promise<IPlantCatalogEntry> {
+        try {
+            if (typeof entryData.version !== 'number') {
+                throw new HttpException(
+                    'version is required for catalog updates',
+                    HttpStatus.BAD_REQUEST
+                );
+            }
+
+            const { version, ...input } = entryData;
+            this.logger.log(`Updating plant type ${type} from version ${version}`);
+            return await this.plantCatalogService.updateEntry(type, input, version);
+        } catch (error) {
+            this.logger.error(`Failed to update plant type: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Removes a plant type from the catalog
+     * @param type Plant type key
+     */
+    @Delete(':type')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async deleteEntry(@Param('type') type: string): Promise<void> {
+        try {
+            this.logger.log(`Removing plant type from catalog: ${type}`);
+            await this.plantCatalogService.deleteEntry(type);
+        } catch (error) {
+            this.logger.error(`Failed to remove plant type: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists companion relationships recorded for a plant type
+     * @param type Plant type key
+     * @returns Promise<ICompanionRelationship[]> Recorded relationships
+     */
+    @Get(':type/relationships')
+    async listRelationships(@Param('type') type: string): Promise<ICompanionRelationship[]> {
+        try {
+            this.plantCatalogService.requireEntry(type);
+            return this.plantCatalogService.listRelationships(type);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Records a BENEFICIAL, NEUTRAL or HARMFUL relationship between two plant types
+     * @param type Plant type key
+     * @param companionType Neighbouring plant type key
+     * @param relationshipData Relationship type and optional description
+     * @returns Promise<ICompanionRelationship> Stored relationship
+     */
+    @Put(':type/relationships/:companionType')
+    async setRelationship(
+        @Param('type') type: string,
+        @Param('companionType') companionType: string,
+        @Body() relationshipData: { relationshipType: COMPANION_RELATIONSHIP_TYPES; benefitDescription?: string }
+    ): Promise<ICompanionRelationship> {
+        try {
+            this.logger.log(`Recording ${relationshipData.relationshipType} relationship ${type} -> ${companionType}`);
+            return await this.plantCatalogService.setRelationship({
+                plantType: type,
+                companionType,
+                relationshipType: relationshipData.relationshipType,
+                benefitDescription: relationshipData.benefitDescription
+            });
+        } catch (error) {
+            this.logger.error(`Failed to record relationship: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Removes the relationship recorded between two plant types
+     * @param type Plant type key
+     * @param companionType Neighbouring plant type key
+     */
+    @Delete(':type/relationships/:companionType')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeRelationship(
+        @Param('type') type: string,
+        @Param('companionType') companionType: string
+    ): Promise<void> {
+        try {
+            await this.plantCatalogService.removeRelationship(type, companionType);
+        } catch (error) {
+            this.logger.error(`Failed to remove relationship: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+}
@@ -0,0 +1,105 @@
+/**
+ * Plant Health Controller
+ * Handles HTTP requests for recording what gardeners observe on their plants and reading
+ * the diagnoses worked out from those observations
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Param,
+    Query,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { PlantHealthService } from '../services/plant-health.service';
+import {
+    IPlantDiagnosis,
+    IPlantObservation,
+    IPlantObservationInput,
+    IPlantObservationResult
+} from '../interfaces/plant-health.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('plant-health')
+export class PlantHealthController {
+    private readonly logger = new Logger(PlantHealthController.name);
+
+    constructor(private readonly plantHealthService: PlantHealthService) {}
+
+    /**
+     * Records an observation of a plant and diagnoses the plant again
+     * @param plantId Plant identifier
+     * @param body Symptoms, pests, affected share, notes and photo metadata
+     * @returns Promise<IPlantObservationResult> Stored observation and the new diagnosis
+     */
+    @Post('plants/:plantId/observations')
+    @HttpCode(HttpStatus.CREATED)
+    async recordObservation(
+        @Param('plantId') plantId: string,
+        @Body() body: IPlantObservationInput
+    ): Promise<IPlantObservationResult> {
+        try {
+            return await this.plantHealthService.recordObservation(plantId, body);
+        } catch (error) {
+            this.logger.error(`Failed to record plant observation: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the latest observations of a plant
+     * @param plantId Plant identifier
+     * @param limit Maximum number of observations
+     * @returns Promise<IPlantObservation[]> Observations, newest first
+     */
+    @Get('plants/:plantId/observations')
+    async listObservations(
+        @Param('plantId') plantId: string,
+        @Query('limit') limit?: string
+    ): Promise<IPlantObservation[]> {
+        try {
+            return await this.plantHealthService.listObservations(
+                plantId,
+                limit !== undefined ? Number(limit) : undefined
+            );
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the latest diagnosis of a plant
+     * @param plantId Plant identifier
+     * @returns Promise<IPlantDiagnosis> Latest diagnosis
+     */
+    @Get('plants/:plantId/diagnosis')
+    async getLatestDiagnosis(@Param('plantId') plantId: string): Promise<IPlantDiagnosis> {
+        try {
+            return await this.plantHealthService.getLatestDiagnosis(plantId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Diagnoses a plant again, e.g. after conditions changed
+     * @param plantId Plant identifier
+     * @returns Promise<IPlantDiagnosis> New diagnosis
+     */
+    @Post('plants/:plantId/diagnosis')
+    @HttpCode(HttpStatus.CREATED)
+    async diagnosePlant(@Param('plantId') plantId: string): Promise<IPlantDiagnosis> {
+        try {
+            return await this.plantHealthService.diagnosePlant(plantId);
+        } catch (error) {
+            this.logger.error(`Failed to diagnose plant: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+}
@@ -21,6 +21,7 @@ import {
 } from '@nestjs/common'; // ^8.0.0
 
 import { PlantService } from '../services/plant.service';
+import { PlantCatalogService } from '../services/plant-catalog.service';
 import { validatePlant } from '../validators/plant.validator';
 import { IPlant } from '../interfaces/plant.interface';
 
@@ -36,7 +37,10 @@ interface EnvironmentalFactors {
 export class PlantController {
     private readonly logger = new Logger(PlantController.name);
 
-    constructor(private readonly plantService: PlantService) {}
+    constructor(
+        private readonly plantService: PlantService,
+        private readonly plantCatalogService: PlantCatalogService
+    ) {}
 
     /**
      * Creates a new plant with environmental factor validation
@@ -47,7 +51,7 @@ export class PlantController {
     async createPlant(@Body() plantData: IPlant): Promise<IPlant> {
         try {
             this.logger.log(`Creating new plant of type: ${plantData.type}`);
-            await validatePlant(plantData);
+            await validatePlant(plantData, this.plantCatalogService);
             return await this.plantService.createPlant(plantData);
         } catch (error) {
             this.logger.error(`Failed to create plant: ${error.message}`);
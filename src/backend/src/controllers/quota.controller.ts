@@ -0,0 +1,36 @@
+/**
+ * Quota Controller
+ * Handles HTTP requests for the limits of the signed-in user's role and how much of them
+ * the user has used
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Req
+} from '@nestjs/common'; // ^8.0.0
+import { Request } from 'express'; // @version ^4.18.2
+
+import { QuotaService } from '../services/quota.service';
+import { IQuotaUsage } from '../interfaces/quota.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('quotas')
+export class QuotaController {
+    constructor(private readonly quotaService: QuotaService) {}
+
+    /**
+     * Reports the gardens and pending tasks of the signed-in user against the limits of
+     * their role, and whether the role has advanced features
+     * @returns Promise<IQuotaUsage> Usage against the limits
+     */
+    @Get()
+    async getUsage(@Req() request: Request): Promise<IQuotaUsage> {
+        try {
+            return await this.quotaService.getUsage(request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
@@ -1,19 +1,16 @@
-import { Controller, Get, Post, Put, Body, Param, Query, UseInterceptors } from '@nestjs/common'; // ^8.0.0
+import { Controller, Get, Post, Put, Body, Param, Query, Req, UseInterceptors } from '@nestjs/common'; // ^8.0.0
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger'; // ^5.0.0
 import { CacheInterceptor } from '@nestjs/cache-manager'; // ^1.0.0
+import { Request } from 'express'; // @version ^4.18.2
 
 import { ScheduleService } from '../services/schedule.service';
+import { QuotaExceededError } from '../services/quota.service';
 import { validateSchedule } from '../validators/schedule.validator';
 import { ISchedule, TaskType } from '../interfaces/schedule.interface';
+import { IHarvestCompletion } from '../interfaces/harvest.interface';
+import { IEnvironmentalFactors } from '../interfaces/weather.interface';
 import { SCHEDULE_ERRORS } from '../constants/schedule.constants';
 
-interface EnvironmentalFactors {
-    temperature: number;
-    humidity: number;
-    rainfall: number;
-    windSpeed: number;
-}
-
 /**
  * Controller handling garden maintenance schedule operations
  * Implements caching, environmental factor support, and optimized performance
@@ -26,6 +23,7 @@ export class ScheduleController {
 
     /**
      * Creates a new maintenance schedule with environmental factor consideration
+     * Conditions come from the garden's weather forecast unless environmentalFactors is given
      */
     @Post()
     @ApiOperation({ summary: 'Create maintenance schedule with environmental factors' })
@@ -34,10 +32,10 @@ export class ScheduleController {
     async createSchedule(
         @Body('gardenId') gardenId: string,
         @Body('daysAhead') daysAhead: number,
-        @Body('environmentalFactors') environmentalFactors: EnvironmentalFactors
+        @Body('environmentalFactors') environmentalFactors?: IEnvironmentalFactors
     ): Promise<ISchedule[]> {
         try {
-            if (!gardenId || !daysAhead || !environmentalFactors) {
+            if (!gardenId || !daysAhead) {
                 throw new Error(SCHEDULE_ERRORS.INVALID_GARDEN_ID);
             }
 
@@ -47,6 +45,10 @@ export class ScheduleController {
                 environmentalFactors
             );
         } catch (error) {
+            // Quota errors keep their code and details for the error middleware
+            if (error instanceof QuotaExceededError) {
+                throw error;
+            }
             throw new Error(`Failed to create schedule: ${error.message}`);
         }
     }
@@ -97,6 +99,8 @@ export class ScheduleController {
 
     /**
      * Marks task as completed with environmental factor updates
+     * Harvesting tasks accept the harvest's weight or count, quality rating and notes.
+     * The signed-in user is credited with the work in the garden's completion history
      */
     @Put(':scheduleId/complete')
     @ApiOperation({ summary: 'Mark maintenance task as completed' })
@@ -104,12 +108,17 @@ export class ScheduleController {
     @ApiResponse({ status: 404, description: 'Schedule not found' })
     async markTaskCompleted(
         @Param('scheduleId') scheduleId: string,
-        @Body('environmentalFactors') environmentalFactors: EnvironmentalFactors
+        @Body('environmentalFactors') environmentalFactors?: IEnvironmentalFactors,
+        @Body('harvest') harvest?: IHarvestCompletion,
+        @Req() request?: Request
     ): Promise<ISchedule> {
         try {
             return await this.scheduleService.markTaskCompleted(
                 scheduleId,
-                environmentalFactors
+                environmentalFactors,
+                harvest,
+                undefined,
+                request?.user?.id
             );
         } catch (error) {
             throw new Error(`Failed to mark task as completed: ${error.message}`);
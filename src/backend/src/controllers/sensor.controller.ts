@@ -0,0 +1,182 @@
+/**
+ * Sensor Controller
+ * Handles HTTP requests for registering garden sensor devices, ingesting their readings
+ * and reading back current and past sensor values
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Body,
+    Param,
+    Query,
+    Headers,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+
+import { SensorService } from '../services/sensor.service';
+import {
+    ISensorDevice,
+    ISensorDeviceRegistration,
+    ISensorHistory,
+    ISensorIngestionResult,
+    ISensorReadingInput,
+    ISensorSnapshot
+} from '../interfaces/sensor.interface';
+import { SENSOR_KEY_HEADER, SensorMetric } from '../constants/sensor.constants';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('sensors')
+export class SensorController {
+    private readonly logger = new Logger(SensorController.name);
+
+    constructor(private readonly sensorService: SensorService) {}
+
+    /**
+     * Stores a JSON batch of readings submitted by a sensor device
+     * The device authenticates with its key in the sensor key header
+     * @param key Device key
+     * @param body Readings to store
+     * @returns Promise<ISensorIngestionResult> Readings stored and rejected
+     */
+    @Post('readings')
+    @HttpCode(HttpStatus.ACCEPTED)
+    async ingestReadings(
+        @Headers(SENSOR_KEY_HEADER) key: string,
+        @Body() body: { readings: ISensorReadingInput[] }
+    ): Promise<ISensorIngestionResult> {
+        try {
+            return await this.sensorService.ingestReadings(key, body?.readings);
+        } catch (error) {
+            this.logger.error(`Failed to ingest sensor readings: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Stores readings submitted by a sensor device in the line protocol (text/plain)
+     * The device authenticates with its key in the sensor key header
+     * @param key Device key
+     * @param body Lines to store, one reading per line
+     * @returns Promise<ISensorIngestionResult> Readings stored and lines rejected
+     */
+    @Post('readings/line')
+    @HttpCode(HttpStatus.ACCEPTED)
+    async ingestLineProtocol(
+        @Headers(SENSOR_KEY_HEADER) key: string,
+        @Body() body: string
+    ): Promise<ISensorIngestionResult> {
+        try {
+            return await this.sensorService.ingestLineProtocol(key, body);
+        } catch (error) {
+            this.logger.error(`Failed to ingest sensor lines: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Registers a sensor device for a garden
+     * @param gardenId Garden identifier
+     * @param body Device name
+     * @returns Promise<ISensorDeviceRegistration> Device and the key it authenticates with
+     */
+    @Post('gardens/:gardenId/devices')
+    async registerDevice(
+        @Param('gardenId') gardenId: string,
+        @Body() body: { name: string }
+    ): Promise<ISensorDeviceRegistration> {
+        try {
+            return await this.sensorService.registerDevice(gardenId, body?.name);
+        } catch (error) {
+            this.logger.error(`Failed to register sensor device: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the sensor devices of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<ISensorDevice[]> Devices
+     */
+    @Get('gardens/:gardenId/devices')
+    async listDevices(@Param('gardenId') gardenId: string): Promise<ISensorDevice[]> {
+        try {
+            return await this.sensorService.listDevices(gardenId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Revokes a sensor device's key
+     * @param gardenId Garden identifier
+     * @param deviceId Device identifier
+     * @returns Promise<ISensorDevice> Revoked device
+     */
+    @Delete('gardens/:gardenId/devices/:deviceId')
+    async revokeDevice(
+        @Param('gardenId') gardenId: string,
+        @Param('deviceId') deviceId: string
+    ): Promise<ISensorDevice> {
+        try {
+            return await this.sensorService.revokeDevice(gardenId, deviceId);
+        } catch (error) {
+            this.logger.error(`Failed to revoke sensor device: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the latest current reading of each metric in a garden
+     * @param gardenId Garden identifier
+     * @param zoneId Zone to read at
+     * @param plantId Plant to read at
+     * @returns Promise<ISensorSnapshot> Latest readings
+     */
+    @Get('gardens/:gardenId/latest')
+    async getLatestReadings(
+        @Param('gardenId') gardenId: string,
+        @Query('zoneId') zoneId?: string,
+        @Query('plantId') plantId?: string
+    ): Promise<ISensorSnapshot> {
+        try {
+            return await this.sensorService.getLatestReadings(gardenId, { zoneId, plantId });
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves the readings of one metric in a garden over the last days
+     * @param gardenId Garden identifier
+     * @param metric Metric measured
+     * @param days Number of days, ending now
+     * @param zoneId Zone the readings are limited to
+     * @param plantId Plant the readings are limited to
+     * @returns Promise<ISensorHistory> Raw readings and hourly aggregates
+     */
+    @Get('gardens/:gardenId/history')
+    async getReadingHistory(
+        @Param('gardenId') gardenId: string,
+        @Query('metric') metric: SensorMetric,
+        @Query('days') days?: string,
+        @Query('zoneId') zoneId?: string,
+        @Query('plantId') plantId?: string
+    ): Promise<ISensorHistory> {
+        try {
+            return await this.sensorService.getReadingHistory(
+                gardenId,
+                metric,
+                days !== undefined ? Number(days) : undefined,
+                { zoneId, plantId }
+            );
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
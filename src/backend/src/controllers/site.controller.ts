@@ -0,0 +1,266 @@
+/**
+ * Site Controller
+ * Handles HTTP requests for community sites: laying out and allocating plots, site-wide
+ * tasks members claim, and the site dashboard
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    Req,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+import { Request } from 'express'; // @version ^4.18.2
+
+import { SiteService } from '../services/site.service';
+import { ISchedule } from '../interfaces/schedule.interface';
+import {
+    ISite,
+    ISiteDashboard,
+    ISiteInput,
+    ISiteMembership,
+    ISitePlot,
+    ISitePlotInput,
+    ISiteTaskInput
+} from '../interfaces/site.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('sites')
+export class SiteController {
+    private readonly logger = new Logger(SiteController.name);
+
+    constructor(private readonly siteService: SiteService) {}
+
+    /**
+     * Lists the sites the signed-in user administers or has a plot in
+     * @returns Promise<ISiteMembership[]> Sites with the user's role in each
+     */
+    @Get()
+    async listSites(@Req() request: Request): Promise<ISiteMembership[]> {
+        try {
+            return await this.siteService.listSites(request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Creates a community site run by the signed-in user
+     * @param body Name and address of the site
+     * @returns Promise<ISite> Created site
+     */
+    @Post()
+    @HttpCode(HttpStatus.CREATED)
+    async createSite(@Req() request: Request, @Body() body: ISiteInput): Promise<ISite> {
+        try {
+            return await this.siteService.createSite(body, request.user!.id);
+        } catch (error) {
+            this.logger.error(`Failed to create site: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Retrieves a site the signed-in user belongs to
+     * @param siteId Site identifier
+     * @returns Promise<ISiteMembership> Site with the user's role in it
+     */
+    @Get(':siteId')
+    async getSite(@Req() request: Request, @Param('siteId') siteId: string): Promise<ISiteMembership> {
+        try {
+            return await this.siteService.getSite(siteId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the plots of a site and who holds them
+     * @param siteId Site identifier
+     * @returns Promise<ISitePlot[]> Plots in plot number order
+     */
+    @Get(':siteId/plots')
+    async listPlots(@Req() request: Request, @Param('siteId') siteId: string): Promise<ISitePlot[]> {
+        try {
+            return await this.siteService.listPlots(siteId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lays out a vacant plot on a site
+     * @param siteId Site identifier
+     * @param body Number, area and zones of the plot
+     * @returns Promise<ISitePlot> Created plot
+     */
+    @Post(':siteId/plots')
+    @HttpCode(HttpStatus.CREATED)
+    async createPlot(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Body() body: ISitePlotInput
+    ): Promise<ISitePlot> {
+        try {
+            return await this.siteService.createPlot(siteId, request.user!.id, body);
+        } catch (error) {
+            this.logger.error(`Failed to create plot: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Allocates a vacant plot to a member
+     * @param siteId Site identifier
+     * @param gardenId Garden identifier of the plot
+     * @param body Member the plot is allocated to
+     * @returns Promise<ISitePlot> Allocated plot
+     */
+    @Put(':siteId/plots/:gardenId/holder')
+    async allocatePlot(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Param('gardenId') gardenId: string,
+        @Body() body: { userId: string }
+    ): Promise<ISitePlot> {
+        try {
+            return await this.siteService.allocatePlot(siteId, request.user!.id, gardenId, body?.userId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Takes a plot back from its holder
+     * @param siteId Site identifier
+     * @param gardenId Garden identifier of the plot
+     */
+    @Delete(':siteId/plots/:gardenId/holder')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async vacatePlot(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Param('gardenId') gardenId: string
+    ): Promise<void> {
+        try {
+            await this.siteService.vacatePlot(siteId, request.user!.id, gardenId);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the pending site-wide tasks of a site
+     * @param siteId Site identifier
+     * @returns Promise<ISchedule[]> Pending tasks, soonest due first
+     */
+    @Get(':siteId/tasks')
+    async listTasks(@Req() request: Request, @Param('siteId') siteId: string): Promise<ISchedule[]> {
+        try {
+            return await this.siteService.listTasks(siteId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Raises a site-wide task for members to claim
+     * @param siteId Site identifier
+     * @param body Type, due date and repetition of the task
+     * @returns Promise<ISchedule> Created task
+     */
+    @Post(':siteId/tasks')
+    @HttpCode(HttpStatus.CREATED)
+    async createTask(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Body() body: ISiteTaskInput
+    ): Promise<ISchedule> {
+        try {
+            return await this.siteService.createTask(siteId, request.user!.id, body);
+        } catch (error) {
+            this.logger.error(`Failed to create site task: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Claims a site-wide task for the signed-in user
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @returns Promise<ISchedule> Claimed task
+     */
+    @Post(':siteId/tasks/:taskId/claim')
+    async claimTask(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Param('taskId') taskId: string
+    ): Promise<ISchedule> {
+        try {
+            return await this.siteService.claimTask(siteId, taskId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Hands a claimed site-wide task back for another member to claim
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @returns Promise<ISchedule> Released task
+     */
+    @Delete(':siteId/tasks/:taskId/claim')
+    async releaseTask(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Param('taskId') taskId: string
+    ): Promise<ISchedule> {
+        try {
+            return await this.siteService.releaseTask(siteId, taskId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Completes a site-wide task
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @returns Promise<ISchedule> Completed task
+     */
+    @Post(':siteId/tasks/:taskId/complete')
+    async completeTask(
+        @Req() request: Request,
+        @Param('siteId') siteId: string,
+        @Param('taskId') taskId: string
+    ): Promise<ISchedule> {
+        try {
+            return await this.siteService.completeTask(siteId, taskId, request.user!.id);
+        } catch (error) {
+            this.logger.error(`Failed to complete site task: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Sums up the plots and task statistics of a site
+     * @param siteId Site identifier
+     * @returns Promise<ISiteDashboard> Site totals, plot statistics and site task counts
+     */
+    @Get(':siteId/dashboard')
+    async getDashboard(@Req() request: Request, @Param('siteId') siteId: string): Promise<ISiteDashboard> {
+        try {
+            return await this.siteService.getDashboard(siteId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Task Assignment Controller
+ * Handles HTTP requests for sharing out the tasks of a garden: assigning them, claiming
+ * them from the pool, rotating duties and the history of who completed what
+ * @version 1.0.0
+ */
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Body,
+    Param,
+    Query,
+    Req,
+    HttpCode,
+    HttpStatus,
+    Logger
+} from '@nestjs/common'; // ^8.0.0
+import { Request } from 'express'; // @version ^4.18.2
+
+import { TaskAssignmentService } from '../services/task-assignment.service';
+import { IGardenTaskRotation } from '../interfaces/garden.interface';
+import { ISchedule, TaskType } from '../interfaces/schedule.interface';
+import { ITaskCompletionHistory, ITaskRotationInput } from '../interfaces/task-assignment.interface';
+import { toHttpException } from '../utils/error.utils';
+
+@Controller('task-assignment')
+export class TaskAssignmentController {
+    private readonly logger = new Logger(TaskAssignmentController.name);
+
+    constructor(private readonly taskAssignmentService: TaskAssignmentService) {}
+
+    /**
+     * Lists the pending tasks of a garden nobody is assigned to
+     * @param gardenId Garden identifier
+     * @returns Promise<ISchedule[]> Unassigned tasks
+     */
+    @Get('gardens/:gardenId/pool')
+    async listPool(@Req() request: Request, @Param('gardenId') gardenId: string): Promise<ISchedule[]> {
+        try {
+            return await this.taskAssignmentService.listPool(gardenId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Assigns a task to the owner or a collaborator of the garden
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @param body User the task is assigned to
+     * @returns Promise<ISchedule> Assigned task
+     */
+    @Put('gardens/:gardenId/tasks/:scheduleId/assignee')
+    async assignTask(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('scheduleId') scheduleId: string,
+        @Body() body: { userId: string }
+    ): Promise<ISchedule> {
+        try {
+            return await this.taskAssignmentService.assignTask(gardenId, scheduleId, request.user!.id, body?.userId);
+        } catch (error) {
+            this.logger.error(`Failed to assign task: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Puts an assigned task back in the garden's pool
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @returns Promise<ISchedule> Unassigned task
+     */
+    @Delete('gardens/:gardenId/tasks/:scheduleId/assignee')
+    async unassignTask(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('scheduleId') scheduleId: string
+    ): Promise<ISchedule> {
+        try {
+            return await this.taskAssignmentService.unassignTask(gardenId, scheduleId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Claims an unassigned task for the signed-in user
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @returns Promise<ISchedule> Claimed task
+     */
+    @Post('gardens/:gardenId/tasks/:scheduleId/claim')
+    async claimTask(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('scheduleId') scheduleId: string
+    ): Promise<ISchedule> {
+        try {
+            return await this.taskAssignmentService.claimTask(gardenId, scheduleId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the duties that pass between the garden's users in turn
+     * @param gardenId Garden identifier
+     * @returns Promise<IGardenTaskRotation[]> Rotations of the garden
+     */
+    @Get('gardens/:gardenId/rotations')
+    async listRotations(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string
+    ): Promise<IGardenTaskRotation[]> {
+        try {
+            return await this.taskAssignmentService.listRotations(gardenId, request.user!.id);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Sets the rotation of a task type
+     * @param gardenId Garden identifier
+     * @param taskType Type of task the rotation assigns
+     * @param body Users taking turns, days per turn and the day the first turn starts
+     * @returns Promise<IGardenTaskRotation> Rotation as stored
+     */
+    @Put('gardens/:gardenId/rotations/:taskType')
+    async setRotation(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('taskType') taskType: TaskType,
+        @Body() body: ITaskRotationInput
+    ): Promise<IGardenTaskRotation> {
+        try {
+            return await this.taskAssignmentService.setRotation(gardenId, request.user!.id, taskType, {
+                ...body,
+                startsOn: body?.startsOn ? new Date(body.startsOn) : undefined
+            });
+        } catch (error) {
+            this.logger.error(`Failed to set task rotation: ${error.message}`);
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Stops rotating a task type
+     * @param gardenId Garden identifier
+     * @param taskType Type of task the rotation assigns
+     */
+    @Delete('gardens/:gardenId/rotations/:taskType')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async removeRotation(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Param('taskType') taskType: TaskType
+    ): Promise<void> {
+        try {
+            await this.taskAssignmentService.removeRotation(gardenId, request.user!.id, taskType);
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+
+    /**
+     * Lists the tasks completed in the garden and who completed them
+     * @param gardenId Garden identifier
+     * @param from Start of the period (ISO date), 30 days before its end by default
+     * @param to End of the period (ISO date), now by default
+     * @returns Promise<ITaskCompletionHistory> Completed tasks with totals per user
+     */
+    @Get('gardens/:gardenId/completions')
+    async getCompletionHistory(
+        @Req() request: Request,
+        @Param('gardenId') gardenId: string,
+        @Query('from') from?: string,
+        @Query('to') to?: string
+    ): Promise<ITaskCompletionHistory> {
+        try {
+            return await this.taskAssignmentService.getCompletionHistory(
+                gardenId,
+                request.user!.id,
+                from ? new Date(from) : undefined,
+                to ? new Date(to) : undefined
+            );
+        } catch (error) {
+            throw toHttpException(error);
+        }
+    }
+}
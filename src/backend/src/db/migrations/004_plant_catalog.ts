@@ -0,0 +1,44 @@
+import { Knex } from 'knex'; // v2.5.1
+import { PLANT_TYPES } from '../../constants/plant.constants';
+
+/**
+ * Turns plant_details into an editable plant catalog: plant types become free-form
+ * catalog keys instead of a fixed enum, and each entry gets a display name
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.string('type', 64).notNullable().alter();
+        table.string('name').notNullable().defaultTo('');
+        table.unique(['type'], { indexName: 'plant_details_type_unique' });
+    });
+
+    // Plant instances reference catalog keys, not the original three-value enum
+    await knex.schema.alterTable('plants', (table) => {
+        table.string('type', 64).notNullable().alter();
+        table.integer('wateringFrequencyDays').nullable();
+        table.integer('fertilizingFrequencyDays').nullable();
+    });
+}
+
+/**
+ * Restores the original plant type enum constraints
+ * Catalog entries outside the built-in plant types are removed first
+ */
+export async function down(knex: Knex): Promise<void> {
+    const builtInTypes = Object.values(PLANT_TYPES);
+
+    await knex('plants').whereNotIn('type', builtInTypes).delete();
+    await knex('plant_details').whereNotIn('type', builtInTypes).delete();
+
+    await knex.schema.alterTable('plants', (table) => {
+        table.dropColumn('fertilizingFrequencyDays');
+        table.dropColumn('wateringFrequencyDays');
+        table.enu('type', builtInTypes).notNullable().alter();
+    });
+
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropUnique(['type'], 'plant_details_type_unique');
+        table.dropColumn('name');
+        table.enum('type', builtInTypes).notNullable().alter();
+    });
+}
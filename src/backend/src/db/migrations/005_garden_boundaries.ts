@@ -0,0 +1,41 @@
+import { Knex } from 'knex'; // v2.5.1
+import { OBSTACLE_TYPES } from '../../constants/garden.constants';
+
+/**
+ * Describes gardens by a boundary polygon with obstacles instead of area alone,
+ * so layouts only use plantable space
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('gardens', (table) => {
+        // Array of { x, y } vertices in feet; null for rectangular plots
+        table.jsonb('boundary').nullable();
+    });
+
+    await knex.schema.createTable('garden_obstacles', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.enu('type', Object.values(OBSTACLE_TYPES)).notNullable();
+        table.jsonb('boundary').notNullable();
+        table.string('label').nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+        table.timestamp('updatedAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.index('gardenId');
+    });
+}
+
+/**
+ * Drops obstacle and boundary data, returning gardens to area-only descriptions
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('garden_obstacles');
+
+    await knex.schema.alterTable('gardens', (table) => {
+        table.dropColumn('boundary');
+    });
+}
@@ -0,0 +1,35 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Records garden latitude, orientation and obstacle heights so the sunlight analyzer
+ * can estimate direct sun per zone from the sun's path
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('gardens', (table) => {
+        table.float('latitude').nullable();
+        // Compass bearing in degrees faced by the garden's top edge
+        table.float('orientation').nullable();
+
+        table.check('?? IS NULL OR (?? >= -90 AND ?? <= 90)', ['latitude', 'latitude', 'latitude'], 'gardens_latitude_check');
+        table.check('?? IS NULL OR (?? >= 0 AND ?? <= 360)', ['orientation', 'orientation', 'orientation'], 'gardens_orientation_check');
+    });
+
+    await knex.schema.alterTable('garden_obstacles', (table) => {
+        // Height in feet; null for obstacles that cast no shade
+        table.float('height').nullable();
+    });
+}
+
+/**
+ * Removes sun-path inputs from gardens and obstacles
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('garden_obstacles', (table) => {
+        table.dropColumn('height');
+    });
+
+    await knex.schema.alterTable('gardens', (table) => {
+        table.dropChecks(['gardens_latitude_check', 'gardens_orientation_check']);
+        table.dropColumns('latitude', 'orientation');
+    });
+}
@@ -0,0 +1,38 @@
+import { Knex } from 'knex'; // v2.5.1
+import {
+    PLANT_TYPES,
+    HARVEST_WINDOW_DAYS,
+    SUCCESSION_INTERVAL_DAYS
+} from '../../constants/plant.constants';
+
+/**
+ * Adds the harvest window and succession interval to the plant catalog so the
+ * season planner knows how long each crop holds its bed
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.integer('harvestWindowDays').notNullable().defaultTo(14);
+        // Null for crops sown once per planting
+        table.integer('successionIntervalDays').nullable();
+    });
+
+    // Backfill the built-in plant types with their baseline values
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({
+                harvestWindowDays: HARVEST_WINDOW_DAYS[type],
+                successionIntervalDays: SUCCESSION_INTERVAL_DAYS[type] ?? null
+            });
+    }
+}
+
+/**
+ * Removes succession planting traits from the plant catalog
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumn('successionIntervalDays');
+        table.dropColumn('harvestWindowDays');
+    });
+}
@@ -0,0 +1,58 @@
+import { Knex } from 'knex'; // v2.5.1
+import {
+    PLANT_TYPES,
+    FROST_TOLERANCE,
+    FROST_TOLERANCES,
+    INDOOR_SOWING_WEEKS
+} from '../../constants/plant.constants';
+
+/**
+ * Records garden climate inputs and plant frost tolerance so planting dates can be
+ * checked against each plant's frost-safe window
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('gardens', (table) => {
+        table.float('longitude').nullable();
+        table.string('postalCode', 10).nullable();
+        // USDA zone such as '6b'; null when looked up from the location
+        table.string('hardinessZone', 3).nullable();
+        // Average frost dates as MM-DD; null for frost-free gardens or zone lookups
+        table.string('lastSpringFrost', 5).nullable();
+        table.string('firstFallFrost', 5).nullable();
+
+        table.check('?? IS NULL OR (?? >= -180 AND ?? <= 180)', ['longitude', 'longitude', 'longitude'], 'gardens_longitude_check');
+    });
+
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.enum('frostTolerance', Object.values(FROST_TOLERANCE))
+            .notNullable()
+            .defaultTo(FROST_TOLERANCE.HALF_HARDY);
+        // Null for crops sown directly in the garden
+        table.integer('indoorSowingWeeks').nullable();
+    });
+
+    // Backfill the built-in plant types with their baseline values
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({
+                frostTolerance: FROST_TOLERANCES[type],
+                indoorSowingWeeks: INDOOR_SOWING_WEEKS[type] ?? null
+            });
+    }
+}
+
+/**
+ * Removes frost date inputs from gardens and frost traits from the plant catalog
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumn('indoorSowingWeeks');
+        table.dropColumn('frostTolerance');
+    });
+
+    await knex.schema.alterTable('gardens', (table) => {
+        table.dropChecks(['gardens_longitude_check']);
+        table.dropColumns('longitude', 'postalCode', 'hardinessZone', 'lastSpringFrost', 'firstFallFrost');
+    });
+}
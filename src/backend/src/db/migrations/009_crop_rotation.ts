@@ -0,0 +1,52 @@
+import { Knex } from 'knex'; // v2.5.1
+import {
+    PLANT_TYPES,
+    PLANT_FAMILY,
+    PLANT_FAMILIES,
+    CROP_ROTATION_DEFAULTS
+} from '../../constants/plant.constants';
+
+/**
+ * Records each plant's family and each garden's rotation period so layouts and season plans
+ * can keep the same family out of a zone for the rotation period; what grew in each zone is
+ * kept with the zone in the garden document
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.enum('family', Object.values(PLANT_FAMILY))
+            .notNullable()
+            .defaultTo(PLANT_FAMILY.OTHER);
+    });
+
+    // Backfill the built-in plant types with their families
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({ family: PLANT_FAMILIES[type] });
+    }
+
+    await knex.schema.alterTable('gardens', (table) => {
+        // Null uses CROP_ROTATION_DEFAULTS.ROTATION_SEASONS
+        table.integer('rotationSeasons').nullable();
+
+        table.check(
+            `?? IS NULL OR (?? >= 1 AND ?? <= ${CROP_ROTATION_DEFAULTS.MAX_ROTATION_SEASONS})`,
+            ['rotationSeasons', 'rotationSeasons', 'rotationSeasons'],
+            'gardens_rotation_seasons_check'
+        );
+    });
+}
+
+/**
+ * Drops the rotation period and plant families
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('gardens', (table) => {
+        table.dropChecks(['gardens_rotation_seasons_check']);
+        table.dropColumn('rotationSeasons');
+    });
+
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumn('family');
+    });
+}
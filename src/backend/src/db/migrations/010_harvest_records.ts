@@ -0,0 +1,33 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Records harvests actually picked so yield forecasts can be compared with real results
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('harvest_records', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.uuid('plantId').notNullable();
+        // Copied from the plant so totals survive plant removal
+        table.string('plantType', 64).notNullable();
+        table.timestamp('harvestedAt').notNullable();
+        table.float('quantityKg').notNullable().checkPositive();
+        table.text('notes').nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.index(['gardenId', 'harvestedAt'], 'harvest_records_garden_date_idx');
+        table.index('plantId');
+    });
+}
+
+/**
+ * Drops recorded harvests
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('harvest_records');
+}
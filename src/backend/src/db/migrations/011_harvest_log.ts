@@ -0,0 +1,66 @@
+import { Knex } from 'knex'; // v2.5.1
+import { HARVEST_QUALITY_RATING } from '../../constants/harvest.constants';
+
+/**
+ * Turns recorded harvests into a harvest log: a harvest may be weighed or counted, rated
+ * for quality, tied to the zone and the harvesting task it completed, and totalled per season
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('harvest_records', (table) => {
+        table.float('quantityKg').nullable().alter();
+        table.integer('count').nullable();
+        table.integer('qualityRating').nullable();
+        table.string('zoneId', 64).nullable();
+        table.uuid('scheduleId').nullable();
+        // Calendar year of the harvest, used for season totals
+        table.integer('season').nullable();
+
+        table.check('?? IS NOT NULL OR ?? IS NOT NULL', ['quantityKg', 'count'], 'harvest_records_amount_check');
+        table.check('?? IS NULL OR ?? > 0', ['count', 'count'], 'harvest_records_count_check');
+        table.check(
+            `?? IS NULL OR (?? >= ${HARVEST_QUALITY_RATING.MIN} AND ?? <= ${HARVEST_QUALITY_RATING.MAX})`,
+            ['qualityRating', 'qualityRating', 'qualityRating'],
+            'harvest_records_quality_check'
+        );
+
+        table.index(['gardenId', 'season'], 'harvest_records_garden_season_idx');
+        table.index(['gardenId', 'zoneId'], 'harvest_records_garden_zone_idx');
+    });
+
+    // Seasons are worked out here rather than in SQL, as date functions differ between databases
+    const unseasoned: Array<{ id: string; harvestedAt: Date | string | number }> = await knex('harvest_records')
+        .whereNull('season')
+        .select('id', 'harvestedAt');
+    for (const record of unseasoned) {
+        await knex('harvest_records')
+            .where({ id: record.id })
+            .update({ season: new Date(record.harvestedAt).getFullYear() });
+    }
+
+    await knex.schema.alterTable('harvest_records', (table) => {
+        table.integer('season').notNullable().alter();
+    });
+}
+
+/**
+ * Drops the harvest log columns; counted harvests without a weight are removed
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('harvest_records').whereNull('quantityKg').delete();
+
+    await knex.schema.alterTable('harvest_records', (table) => {
+        table.dropIndex(['gardenId', 'zoneId'], 'harvest_records_garden_zone_idx');
+        table.dropIndex(['gardenId', 'season'], 'harvest_records_garden_season_idx');
+        table.dropChecks([
+            'harvest_records_amount_check',
+            'harvest_records_count_check',
+            'harvest_records_quality_check'
+        ]);
+        table.dropColumn('season');
+        table.dropColumn('scheduleId');
+        table.dropColumn('zoneId');
+        table.dropColumn('qualityRating');
+        table.dropColumn('count');
+        table.float('quantityKg').notNullable().alter();
+    });
+}
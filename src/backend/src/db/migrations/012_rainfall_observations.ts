@@ -0,0 +1,37 @@
+import { Knex } from 'knex'; // v2.5.1
+import { WEATHER_DEFAULTS } from '../../constants/weather.constants';
+
+/**
+ * Records rain measured at each garden so pending watering tasks can be skipped or
+ * postponed when the soil has already been watered from the sky
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('rainfall_observations', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        // End of the period the rain was measured over
+        table.timestamp('observedAt').notNullable();
+        table.float('rainfallMm').notNullable();
+        table.string('source', 32).nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.check(
+            `?? >= 0 AND ?? <= ${WEATHER_DEFAULTS.MAX_RAINFALL_MM}`,
+            ['rainfallMm', 'rainfallMm'],
+            'rainfall_observations_amount_check'
+        );
+        table.index(['gardenId', 'observedAt'], 'rainfall_observations_garden_date_idx');
+    });
+}
+
+/**
+ * Drops recorded rainfall
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('rainfall_observations');
+}
@@ -0,0 +1,62 @@
+import { Knex } from 'knex'; // v2.5.1
+import { SOIL_TYPES, IRRIGATION_SOURCES } from '../../constants/water-balance.constants';
+
+/**
+ * Keeps a daily soil water balance per garden zone and the irrigation applied to zones,
+ * so watering follows what the soil holds and the plants draw rather than a fixed interval
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('irrigation_events', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.string('zoneId', 64).notNullable();
+        table.timestamp('appliedAt').notNullable();
+        table.float('amountMm').notNullable();
+        table.enum('source', Object.values(IRRIGATION_SOURCES)).notNullable();
+        table.uuid('scheduleId').nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.check('?? > 0', ['amountMm'], 'irrigation_events_amount_check');
+        table.index(['gardenId', 'zoneId', 'appliedAt'], 'irrigation_events_zone_date_idx');
+    });
+
+    await knex.schema.createTable('zone_water_balances', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.string('zoneId', 64).notNullable();
+        // Start of the UTC day the balance covers
+        table.date('date').notNullable();
+        table.enum('soilType', Object.values(SOIL_TYPES)).notNullable();
+        table.float('capacityMm').notNullable();
+        table.float('startMm').notNullable();
+        table.float('rainfallMm').notNullable().defaultTo(0);
+        table.float('irrigationMm').notNullable().defaultTo(0);
+        table.float('evaporationMm').notNullable().defaultTo(0);
+        table.float('plantDemandMm').notNullable().defaultTo(0);
+        table.float('referenceEtMm').notNullable().defaultTo(0);
+        table.float('drainageMm').notNullable().defaultTo(0);
+        table.float('endMm').notNullable();
+        table.timestamp('updatedAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.unique(['gardenId', 'zoneId', 'date'], { indexName: 'zone_water_balances_zone_date_unique' });
+        table.check('?? >= 0 AND ?? <= ??', ['endMm', 'endMm', 'capacityMm'], 'zone_water_balances_end_check');
+    });
+}
+
+/**
+ * Drops the zone water balances and irrigation log
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('zone_water_balances');
+    await knex.schema.dropTableIfExists('irrigation_events');
+}
@@ -0,0 +1,83 @@
+import { Knex } from 'knex'; // v2.5.1
+import { SENSOR_METRICS } from '../../constants/sensor.constants';
+
+/**
+ * Stores readings submitted by garden sensor devices, so measured soil moisture,
+ * temperature and light replace defaults and forecasts where a garden has sensors.
+ * Raw readings are rolled up into hourly aggregates once past their retention.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('sensor_devices', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.string('name', 100).notNullable();
+        // SHA-256 of the device key; the key itself is never stored
+        table.string('keyHash', 64).notNullable().unique();
+        table.timestamp('lastSeenAt').nullable();
+        table.timestamp('revokedAt').nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.index(['gardenId'], 'sensor_devices_garden_idx');
+    });
+
+    await knex.schema.createTable('sensor_readings', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.uuid('deviceId').notNullable();
+        table.enum('metric', Object.values(SENSOR_METRICS)).notNullable();
+        table.float('value').notNullable();
+        table.string('zoneId', 64).nullable();
+        table.string('plantId', 64).nullable();
+        table.timestamp('recordedAt').notNullable();
+        // Start of the hour the reading falls in, for rolling readings up
+        table.timestamp('recordedHour').notNullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+        table.foreign('deviceId')
+            .references('id')
+            .inTable('sensor_devices')
+            .onDelete('CASCADE');
+
+        table.index(['gardenId', 'metric', 'recordedAt'], 'sensor_readings_garden_metric_date_idx');
+        table.index(['recordedAt'], 'sensor_readings_date_idx');
+    });
+
+    await knex.schema.createTable('sensor_readings_hourly', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.enum('metric', Object.values(SENSOR_METRICS)).notNullable();
+        table.string('zoneId', 64).nullable();
+        table.string('plantId', 64).nullable();
+        table.timestamp('hour').notNullable();
+        table.float('min').notNullable();
+        table.float('max').notNullable();
+        table.float('avg').notNullable();
+        table.integer('count').notNullable();
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.check('?? > 0', ['count'], 'sensor_readings_hourly_count_check');
+        table.index(['gardenId', 'metric', 'hour'], 'sensor_readings_hourly_garden_metric_hour_idx');
+    });
+}
+
+/**
+ * Drops sensor readings, their aggregates and the devices that submitted them
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('sensor_readings_hourly');
+    await knex.schema.dropTableIfExists('sensor_readings');
+    await knex.schema.dropTableIfExists('sensor_devices');
+}
@@ -0,0 +1,80 @@
+import { Knex } from 'knex'; // v2.5.1
+import { IRRIGATION_RUN_STATUS } from '../../constants/irrigation.constants';
+import { IRRIGATION_SOURCES } from '../../constants/water-balance.constants';
+
+/**
+ * Links garden zones to irrigation valves and logs the valve runs that carry out their
+ * watering tasks, so due watering is done by the irrigation system with the water it
+ * actually delivered credited to the zone
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('irrigation_valves', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        table.string('zoneId', 64).notNullable();
+        table.string('name', 100).notNullable();
+        table.string('channel', 100).notNullable();
+        table.float('flowRateLpm').notNullable();
+        table.float('maxRunMinutes').nullable();
+        table.boolean('enabled').notNullable().defaultTo(true);
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+        table.timestamp('updatedAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.unique(['gardenId', 'zoneId'], { indexName: 'irrigation_valves_zone_unique' });
+        table.check('?? > 0', ['flowRateLpm'], 'irrigation_valves_flow_rate_check');
+    });
+
+    await knex.schema.createTable('irrigation_runs', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('valveId').notNullable();
+        table.uuid('gardenId').notNullable();
+        table.string('zoneId', 64).notNullable();
+        // Watering tasks carried out with the water each plant needs
+        table.jsonb('tasks').notNullable().defaultTo('[]');
+        table.float('plannedMl').notNullable();
+        table.float('runMinutes').notNullable();
+        table.timestamp('startedAt').notNullable();
+        table.timestamp('endsAt').notNullable();
+        table.timestamp('finishedAt').nullable();
+        table.float('deliveredMl').nullable();
+        table.enum('status', Object.values(IRRIGATION_RUN_STATUS)).notNullable();
+        table.string('error', 500).nullable();
+
+        table.foreign('valveId')
+            .references('id')
+            .inTable('irrigation_valves')
+            .onDelete('CASCADE');
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.index(['status'], 'irrigation_runs_status_idx');
+        table.index(['gardenId', 'startedAt'], 'irrigation_runs_garden_date_idx');
+    });
+
+    // Water delivered by valves is logged as its own irrigation source
+    await knex.schema.alterTable('irrigation_events', (table) => {
+        table.enum('source', Object.values(IRRIGATION_SOURCES)).notNullable().alter();
+    });
+}
+
+/**
+ * Drops the valve runs and valves; water delivered by valves is kept as task watering
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('irrigation_events')
+        .where({ source: IRRIGATION_SOURCES.VALVE })
+        .update({ source: IRRIGATION_SOURCES.TASK });
+    await knex.schema.alterTable('irrigation_events', (table) => {
+        table.enum('source', [IRRIGATION_SOURCES.TASK, IRRIGATION_SOURCES.MANUAL]).notNullable().alter();
+    });
+
+    await knex.schema.dropTableIfExists('irrigation_runs');
+    await knex.schema.dropTableIfExists('irrigation_valves');
+}
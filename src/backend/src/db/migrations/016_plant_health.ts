@@ -0,0 +1,65 @@
+import { Knex } from 'knex'; // v2.5.1
+import { PLANT_HEALTH_STATUS } from '../../constants/plant-health.constants';
+
+/**
+ * Stores what gardeners observe on their plants and the diagnoses worked out from those
+ * observations, so plant health follows what was actually seen rather than the weather.
+ * Growth tracking takes its health status from the same scale as the web client.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('plant_observations', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.string('plantId', 64).notNullable();
+        table.uuid('gardenId').nullable();
+        table.jsonb('symptoms').notNullable().defaultTo('[]');
+        table.jsonb('pests').notNullable().defaultTo('[]');
+        table.float('affectedPercent').nullable();
+        table.text('notes').nullable();
+        // Photo metadata only; the images are stored by the client
+        table.jsonb('photos').notNullable().defaultTo('[]');
+        table.timestamp('observedAt').notNullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.check('?? BETWEEN 0 AND 100', ['affectedPercent'], 'plant_observations_affected_check');
+        table.index(['plantId', 'observedAt'], 'plant_observations_plant_date_idx');
+    });
+
+    await knex.schema.createTable('plant_diagnoses', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.string('plantId', 64).notNullable();
+        table.uuid('gardenId').nullable();
+        table.enum('healthStatus', Object.values(PLANT_HEALTH_STATUS)).notNullable();
+        table.jsonb('problems').notNullable().defaultTo('[]');
+        table.jsonb('conditions').notNullable();
+        table.jsonb('observationIds').notNullable().defaultTo('[]');
+        table.jsonb('treatmentScheduleIds').notNullable().defaultTo('[]');
+        table.timestamp('diagnosedAt').notNullable();
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.index(['plantId', 'diagnosedAt'], 'plant_diagnoses_plant_date_idx');
+    });
+
+    await knex('plant_growth_tracking')
+        .where({ healthStatus: 'healthy' })
+        .update({ healthStatus: PLANT_HEALTH_STATUS.GOOD });
+}
+
+/**
+ * Drops diagnoses and observations and restores the old growth tracking status
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('plant_growth_tracking')
+        .update({ healthStatus: 'healthy' });
+
+    await knex.schema.dropTableIfExists('plant_diagnoses');
+    await knex.schema.dropTableIfExists('plant_observations');
+}
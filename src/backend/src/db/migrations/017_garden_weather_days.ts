@@ -0,0 +1,36 @@
+import { Knex } from 'knex'; // v2.5.1
+import { WEATHER_DAY_SOURCES } from '../../constants/pest-pressure.constants';
+
+/**
+ * Keeps each day's weather at a garden as it was last known, so pest and disease pressure
+ * can be worked out from the recent past in gardens without sensors
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('garden_weather_days', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.uuid('gardenId').notNullable();
+        // Start of the UTC day
+        table.date('date').notNullable();
+        table.float('minTemperature').notNullable();
+        table.float('maxTemperature').notNullable();
+        table.float('humidity').notNullable();
+        table.float('rainfall').notNullable().defaultTo(0);
+        table.enum('source', Object.values(WEATHER_DAY_SOURCES)).notNullable();
+        table.timestamp('updatedAt').notNullable().defaultTo(knex.fn.now());
+
+        table.foreign('gardenId')
+            .references('id')
+            .inTable('gardens')
+            .onDelete('CASCADE');
+
+        table.unique(['gardenId', 'date'], { indexName: 'garden_weather_days_garden_date_unique' });
+        table.check('?? BETWEEN 0 AND 100', ['humidity'], 'garden_weather_days_humidity_check');
+    });
+}
+
+/**
+ * Drops the garden weather history
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('garden_weather_days');
+}
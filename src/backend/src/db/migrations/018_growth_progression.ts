@@ -0,0 +1,48 @@
+import { Knex } from 'knex'; // v2.5.1
+import { PLANT_TYPES, SEEDLING_DAYS, GROWING_DAYS } from '../../constants/plant.constants';
+
+/**
+ * Adds the stage durations plants are advanced through to the plant catalog, and tracks
+ * the growth of each plant set out in a garden next to the growth tracked per plant type
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        // Null to take a share of the days to maturity
+        table.integer('seedlingDays').nullable();
+        table.integer('growingDays').nullable();
+    });
+
+    // Backfill the built-in plant types with their baseline values
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({
+                seedlingDays: SEEDLING_DAYS[type],
+                growingDays: GROWING_DAYS[type]
+            });
+    }
+
+    await knex.schema.alterTable('plant_growth_tracking', (table) => {
+        // Plant the row tracks; null for rows tracking a whole plant type
+        table.string('gardenPlantId', 64).nullable().unique('growth_tracking_garden_plant_uniq');
+        table.date('stageStartedAt').nullable();
+        // Average growing days the plant has developed by since it was planted
+        table.float('progressDays').nullable();
+    });
+}
+
+/**
+ * Removes per-plant growth tracking and the catalog stage durations
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('plant_growth_tracking').whereNotNull('gardenPlantId').delete();
+
+    await knex.schema.alterTable('plant_growth_tracking', (table) => {
+        table.dropUnique(['gardenPlantId'], 'growth_tracking_garden_plant_uniq');
+        table.dropColumns('gardenPlantId', 'stageStartedAt', 'progressDays');
+    });
+
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumns('seedlingDays', 'growingDays');
+    });
+}
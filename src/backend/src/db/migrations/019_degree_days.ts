@@ -0,0 +1,37 @@
+import { Knex } from 'knex'; // v2.5.1
+import { PLANT_TYPES, BASE_TEMPERATURES } from '../../constants/plant.constants';
+
+/**
+ * Adds the base temperature growing degree days are counted above to the plant catalog,
+ * and the degree days each tracked plant has accumulated
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        // °C; null for the default base temperature
+        table.float('baseTemperature').nullable();
+    });
+
+    // Backfill the built-in plant types with their baseline values
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({ baseTemperature: BASE_TEMPERATURES[type] });
+    }
+
+    await knex.schema.alterTable('plant_growth_tracking', (table) => {
+        table.float('degreeDays').nullable();
+    });
+}
+
+/**
+ * Removes degree day tracking and the catalog base temperatures
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_growth_tracking', (table) => {
+        table.dropColumn('degreeDays');
+    });
+
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumn('baseTemperature');
+    });
+}
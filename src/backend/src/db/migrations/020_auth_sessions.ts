@@ -0,0 +1,46 @@
+import { Knex } from 'knex'; // v2.5.1
+
+/**
+ * Stores the refresh tokens of signed-in devices and the one-time tokens users reset their
+ * password with. Tokens are kept as SHA-256 hashes only. Each sign-in starts a family of
+ * refresh tokens, one per rotation; the family identifier is the session identifier access
+ * tokens carry, so revoking a family also revokes its access tokens.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('auth_refresh_tokens', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.string('userId', 64).notNullable();
+        table.uuid('familyId').notNullable();
+        table.string('tokenHash', 64).notNullable().unique();
+        // Hash of the device fingerprint the session is bound to
+        table.string('fingerprintHash', 64).notNullable();
+        table.timestamp('expiresAt').notNullable();
+        // Set when the token is exchanged; a second exchange is a reuse
+        table.timestamp('usedAt').nullable();
+        table.timestamp('revokedAt').nullable();
+        table.string('revokedReason', 32).nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.index(['familyId'], 'auth_refresh_tokens_family_idx');
+        table.index(['userId', 'revokedAt'], 'auth_refresh_tokens_user_idx');
+    });
+
+    await knex.schema.createTable('password_reset_tokens', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+        table.string('userId', 64).notNullable();
+        table.string('tokenHash', 64).notNullable().unique();
+        table.timestamp('expiresAt').notNullable();
+        table.timestamp('usedAt').nullable();
+        table.timestamp('createdAt').notNullable().defaultTo(knex.fn.now());
+
+        table.index(['userId'], 'password_reset_tokens_user_idx');
+    });
+}
+
+/**
+ * Drops password reset tokens and refresh tokens, signing every device out
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('password_reset_tokens');
+    await knex.schema.dropTableIfExists('auth_refresh_tokens');
+}
@@ -0,0 +1,28 @@
+import { Knex } from 'knex'; // v2.5.1
+import { PLANT_TYPES, SINGLE_HARVEST } from '../../constants/plant.constants';
+
+/**
+ * Records in the plant catalog which crops are lifted once at maturity instead of being
+ * picked over a harvesting stage
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.boolean('singleHarvest').notNullable().defaultTo(false);
+    });
+
+    // Backfill the built-in plant types with their baseline values
+    for (const type of Object.values(PLANT_TYPES)) {
+        await knex('plant_details')
+            .where({ type })
+            .update({ singleHarvest: SINGLE_HARVEST[type] });
+    }
+}
+
+/**
+ * Removes the single harvest flag from the plant catalog
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('plant_details', (table) => {
+        table.dropColumn('singleHarvest');
+    });
+}
@@ -5,17 +5,31 @@
  * @version 1.0.0
  */
 
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
 import { 
     IPlant,
-    IPlantCareSchedule 
+    IPlantCareSchedule,
+    IPlantCatalogEntry
 } from '../../interfaces/plant.interface';
 
 import {
     PLANT_TYPES,
+    COMPANION_RELATIONSHIP_TYPES,
     SUNLIGHT_REQUIREMENTS,
     GROWTH_STAGES,
     DEFAULT_PLANT_SPACING,
     DAYS_TO_MATURITY,
+    HARVEST_WINDOW_DAYS,
+    SEEDLING_DAYS,
+    GROWING_DAYS,
+    BASE_TEMPERATURES,
+    SINGLE_HARVEST,
+    SUCCESSION_INTERVAL_DAYS,
+    FROST_TOLERANCES,
+    INDOOR_SOWING_WEEKS,
+    PLANT_FAMILIES,
     WATERING_FREQUENCY_DAYS,
     FERTILIZING_FREQUENCY_DAYS,
     MIN_SUNLIGHT_HOURS,
@@ -50,14 +64,23 @@ interface IPlantMetadata {
     version: string;
 }
 
+/**
+ * Plant seed record with stage-specific care, companion and provenance details
+ */
+interface IPlantSeed extends IPlant {
+    growthStageRequirements: IGrowthStageRequirements[];
+    companionPlantingData: ICompanionPlanting[];
+    metadata: IPlantMetadata;
+}
+
 /**
  * Generates comprehensive plant seed data with detailed specifications
  * @returns Array of plant objects with complete growth and care requirements
  */
-const generatePlantSeedData = (): IPlant[] => {
+const generatePlantSeedData = (): IPlantSeed[] => {
     const currentDate = new Date();
     
-    const plantSeedData: IPlant[] = [
+    const plantSeedData: IPlantSeed[] = [
         {
             id: 'tomato-001',
             type: PLANT_TYPES.TOMATOES,
@@ -202,4 +225,126 @@ const generatePlantSeedData = (): IPlant[] => {
 };
 
 // Export the generated seed data
-export const plantSeedData = generatePlantSeedData();
\ No newline at end of file
+export const plantSeedData = generatePlantSeedData();
+
+/**
+ * Display names for the built-in plant types
+ */
+const PLANT_NAMES: Record<PLANT_TYPES, string> = {
+    [PLANT_TYPES.TOMATOES]: 'Tomatoes',
+    [PLANT_TYPES.LETTUCE]: 'Lettuce',
+    [PLANT_TYPES.CARROTS]: 'Carrots'
+};
+
+/**
+ * Optimal daily sunlight hours for the built-in plant types
+ */
+const OPTIMAL_SUNLIGHT_HOURS: Record<PLANT_TYPES, number> = {
+    [PLANT_TYPES.TOMATOES]: 8,
+    [PLANT_TYPES.LETTUCE]: 6,
+    [PLANT_TYPES.CARROTS]: 8
+};
+
+/**
+ * Generates the baseline plant catalog entries for the built-in plant types
+ * @returns Array of catalog entries used to seed plant_details and related tables
+ */
+const generatePlantCatalogSeedData = (): IPlantCatalogEntry[] => {
+    return plantSeedData.map((plant) => {
+        const type = plant.type as PLANT_TYPES;
+
+        return {
+            id: uuidv4(),
+            type,
+            name: PLANT_NAMES[type],
+            version: 1,
+            defaultSpacing: DEFAULT_PLANT_SPACING[type],
+            daysToMaturity: DAYS_TO_MATURITY[type],
+            harvestWindowDays: HARVEST_WINDOW_DAYS[type],
+            seedlingDays: SEEDLING_DAYS[type],
+            growingDays: GROWING_DAYS[type],
+            singleHarvest: SINGLE_HARVEST[type],
+            baseTemperature: BASE_TEMPERATURES[type],
+            successionIntervalDays: SUCCESSION_INTERVAL_DAYS[type],
+            frostTolerance: FROST_TOLERANCES[type],
+            indoorSowingWeeks: INDOOR_SOWING_WEEKS[type],
+            family: PLANT_FAMILIES[type],
+            wateringFrequencyDays: WATERING_FREQUENCY_DAYS[type],
+            fertilizingFrequencyDays: FERTILIZING_FREQUENCY_DAYS[type],
+            minSunlightHours: MIN_SUNLIGHT_HOURS[type],
+            optimalSunlightHours: OPTIMAL_SUNLIGHT_HOURS[type],
+            sunlightRequirement: plant.sunlightNeeds,
+            expectedYieldKg: plant.expectedYieldKg,
+            waterRequirementMl: plant.waterRequirementMl,
+            companionPlants: [...COMPANION_PLANTS[type]]
+        };
+    });
+};
+
+export const plantCatalogSeedData = generatePlantCatalogSeedData();
+
+/**
+ * Seeds the plant catalog tables with the built-in plant types
+ * Existing catalog entries are left untouched so edits made through the API survive reseeding
+ * @param knex Knex instance provided by the seed runner
+ */
+export async function seed(knex: Knex): Promise<void> {
+    await knex.transaction(async (trx) => {
+        const idsByType = new Map<string, string>();
+
+        for (const entry of plantCatalogSeedData) {
+            const existing = await trx('plant_details').where({ type: entry.type }).first('id');
+            if (existing) {
+                idsByType.set(entry.type, existing.id);
+                continue;
+            }
+
+            await trx('plant_details').insert({
+                id: entry.id,
+                type: entry.type,
+                name: entry.name,
+                version: entry.version,
+                defaultSpacing: entry.defaultSpacing,
+                daysToMaturity: entry.daysToMaturity,
+                harvestWindowDays: entry.harvestWindowDays,
+                seedlingDays: entry.seedlingDays ?? null,
+                growingDays: entry.growingDays ?? null,
+                singleHarvest: entry.singleHarvest ?? false,
+                baseTemperature: entry.baseTemperature ?? null,
+                successionIntervalDays: entry.successionIntervalDays ?? null,
+                frostTolerance: entry.frostTolerance,
+                indoorSowingWeeks: entry.indoorSowingWeeks ?? null,
+                family: entry.family,
+                wateringFrequencyDays: entry.wateringFrequencyDays,
+                fertilizingFrequencyDays: entry.fertilizingFrequencyDays,
+                minSunlightHours: entry.minSunlightHours,
+                expectedYieldKg: entry.expectedYieldKg,
+                waterRequirementMl: entry.waterRequirementMl
+            });
+
+            await trx('plant_sunlight_needs').insert({
+                plantId: entry.id,
+                requirement: entry.sunlightRequirement,
+                optimalHours: entry.optimalSunlightHours,
+                minimumHours: entry.minSunlightHours
+            });
+
+            idsByType.set(entry.type, entry.id);
+        }
+
+        // Companion relationships are seeded once both sides exist
+        for (const plant of plantSeedData) {
+            for (const companion of plant.companionPlantingData) {
+                await trx('companion_plants')
+                    .insert({
+                        plantId: idsByType.get(plant.type),
+                        companionPlantId: idsByType.get(companion.plantType),
+                        relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL,
+                        benefitDescription: companion.benefitDescription
+                    })
+                    .onConflict(['plantId', 'companionPlantId'])
+                    .ignore();
+            }
+        }
+    });
+}
\ No newline at end of file
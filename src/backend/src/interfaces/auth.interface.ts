@@ -0,0 +1,85 @@
+/**
+ * Authentication Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for signing users in: the token pairs handed to devices,
+ * the refresh tokens that renew them and the one-time tokens users reset their password with.
+ */
+
+import { IUser } from './user.interface';
+import { SessionRevocationReason } from '../constants/auth.constants';
+
+/**
+ * Registration details of a new account
+ * @interface IRegistrationInput
+ */
+export interface IRegistrationInput {
+    email: string;
+    name: string;
+    password: string;
+}
+
+/**
+ * Tokens handed to a device when it signs in or refreshes its session
+ * @interface IAuthTokens
+ */
+export interface IAuthTokens {
+    /** Signed access token, sent as a bearer token */
+    accessToken: string;
+
+    /** Opaque one-time token exchanged for the next pair */
+    refreshToken: string;
+
+    /** Lifetime of the access token in milliseconds */
+    expiresIn: number;
+
+    /** Session the tokens belong to */
+    sessionId: string;
+
+    /** Signed-in user */
+    user: IUser;
+}
+
+/**
+ * Stored refresh token; only its hash is kept
+ * @interface IRefreshTokenRecord
+ */
+export interface IRefreshTokenRecord {
+    id: string;
+    userId: string;
+
+    /** Session the token belongs to; every rotation of one sign-in shares it */
+    familyId: string;
+
+    tokenHash: string;
+
+    /** Hash of the device fingerprint the session is bound to */
+    fingerprintHash: string;
+
+    expiresAt: Date;
+
+    /** When the token was exchanged for the next pair */
+    usedAt: Date | null;
+
+    revokedAt: Date | null;
+    revokedReason: SessionRevocationReason | null;
+    createdAt: Date;
+}
+
+/**
+ * Signed-in device of a user
+ * @interface IAuthSession
+ */
+export interface IAuthSession {
+    /** Session identifier, the ID of its access tokens */
+    sessionId: string;
+
+    /** When the device signed in */
+    signedInAt: Date;
+
+    /** When the session last refreshed its tokens */
+    lastRefreshedAt: Date;
+
+    /** When the session ends unless refreshed again */
+    expiresAt: Date;
+}
@@ -8,9 +8,20 @@
  */
 
 import { IPlant } from './plant.interface';
+import {
+    PlantType,
+    COMPANION_RELATIONSHIP_TYPES,
+    FROST_TOLERANCE,
+    PLANT_FAMILY
+} from '../constants/plant.constants';
+import { ClimateSource, PlantingDateStatus } from '../constants/climate.constants';
+import { SoilType } from '../constants/water-balance.constants';
+import { GARDEN_ROLES, GardenMemberRole } from '../constants/garden-sharing.constants';
+import { TaskType } from './schedule.interface';
 import { 
     GARDEN_AREA_LIMITS,
-    SUNLIGHT_CONDITIONS
+    SUNLIGHT_CONDITIONS,
+    ObstacleType
 } from '../constants/garden.constants';
 
 /**
@@ -28,6 +39,51 @@ export interface IGarden {
     /** Array of garden zones with specific sunlight conditions */
     zones: IGardenZone[];
 
+    /** Outline of the garden in feet; a rectangular plot is assumed when omitted */
+    boundary?: IPoint[];
+
+    /** Trees, sheds, paths and existing beds that cannot be planted over */
+    obstacles?: IGardenObstacle[];
+
+    /** Latitude of the garden in decimal degrees (south is negative); enables sun-path modelling */
+    latitude?: number;
+
+    /** Compass bearing in degrees that the garden's top edge faces (0 = north, 90 = east) */
+    orientation?: number;
+
+    /** Longitude of the garden in decimal degrees (west is negative); used for climate lookup */
+    longitude?: number;
+
+    /** Postal code of the garden; used for climate lookup */
+    postalCode?: string;
+
+    /** Hardiness zone and frost dates entered by the gardener */
+    climate?: IGardenClimate;
+
+    /** Seasons before a plant family may return to the same zone; defaults to CROP_ROTATION_DEFAULTS */
+    rotationSeasons?: number;
+
+    /** User who created the garden and manages who it is shared with */
+    ownerId?: string;
+
+    /** Users the garden is shared with */
+    members?: IGardenMember[];
+
+    /** Invitation codes handed out to share the garden */
+    invitations?: IGardenInvitation[];
+
+    /** Community site the garden is a plot of */
+    siteId?: string;
+
+    /** Number the site gives the plot, unique within the site */
+    plotNumber?: string;
+
+    /** Duties that pass between the garden's users in turn, at most one per task type */
+    taskRotations?: IGardenTaskRotation[];
+
+    /** Crops grown in zones since removed from the layout, given back to a zone added again with the same identifier */
+    removedZoneHistory?: IRemovedZonePlantingRecord[];
+
     /** Garden creation timestamp */
     createdAt: Date;
 
@@ -35,6 +91,208 @@ export interface IGarden {
     updatedAt: Date;
 }
 
+/**
+ * User a garden is shared with
+ * @interface IGardenMember
+ */
+export interface IGardenMember {
+    /** User the garden is shared with */
+    userId: string;
+
+    /** What the user may do in the garden */
+    role: GardenMemberRole;
+
+    /** User who shared the garden */
+    addedBy: string;
+
+    /** When the garden was shared */
+    addedAt: Date;
+}
+
+/**
+ * Membership a user was given in a garden
+ * @interface IGardenMembership
+ */
+export interface IGardenMembership extends IGardenMember {
+    /** Garden the user was given access to */
+    gardenId: string;
+}
+
+/**
+ * Code handed out to share a garden; the first user to accept it joins the garden
+ * @interface IGardenInvitation
+ */
+export interface IGardenInvitation {
+    /** Code the invited user enters */
+    code: string;
+
+    /** Role the invited user joins the garden as */
+    role: GardenMemberRole;
+
+    /** User who created the invitation */
+    createdBy: string;
+
+    /** When the invitation was created */
+    createdAt: Date;
+
+    /** When the invitation can no longer be accepted */
+    expiresAt: Date;
+
+    /** User who accepted the invitation */
+    acceptedBy?: string;
+
+    /** When the invitation was accepted */
+    acceptedAt?: Date;
+}
+
+/**
+ * Duty that passes between a garden's users in turn, e.g. watering alternating weekly
+ * Unassigned tasks of the type go to whoever's turn it is on the day they are due
+ * @interface IGardenTaskRotation
+ */
+export interface IGardenTaskRotation {
+    /** Type of task the rotation assigns */
+    taskType: TaskType;
+
+    /** Users taking turns, in order */
+    userIds: string[];
+
+    /** Days each user's turn lasts */
+    periodDays: number;
+
+    /** Day the first user's turn starts */
+    startsOn: Date;
+}
+
+/**
+ * User who has access to a garden, as listed to the garden's users
+ * @interface IGardenMemberSummary
+ */
+export interface IGardenMemberSummary {
+    /** User identifier */
+    userId: string;
+
+    /** Name of the user, when the account still exists */
+    name?: string;
+
+    /** Email address of the user, when the account still exists */
+    email?: string;
+
+    /** Role the user holds in the garden */
+    role: GARDEN_ROLES;
+
+    /** When the user was given access; the garden's creation for its owner */
+    addedAt: Date;
+}
+
+/**
+ * Hardiness zone and average frost dates for a garden's location
+ * @interface IGardenClimate
+ */
+export interface IGardenClimate {
+    /** USDA hardiness zone (e.g. '6b') */
+    hardinessZone?: string;
+
+    /** Average last spring frost as MM-DD; undefined for frost-free gardens */
+    lastSpringFrost?: string;
+
+    /** Average first fall frost as MM-DD; undefined for frost-free gardens */
+    firstFallFrost?: string;
+
+    /** Whether the values were entered by the gardener or looked up from the bundled table */
+    source?: ClimateSource;
+}
+
+/**
+ * Frost-safe planting window and suggested sowing dates for a plant type
+ * @interface IPlantingWindow
+ */
+export interface IPlantingWindow {
+    /** Catalog plant type */
+    plantType: PlantType;
+
+    /** Frost tolerance that sets the margin kept from the frost dates */
+    frostTolerance: FROST_TOLERANCE;
+
+    /** First day the plant may be set out in the garden */
+    safeStartDate: Date;
+
+    /** Last day the plant may be set out and still mature before the first fall frost */
+    safeEndDate: Date;
+
+    /** Suggested date to start seed indoors, for crops raised as transplants */
+    sowIndoorsDate?: Date;
+
+    /** Suggested date to move indoor-raised seedlings into the garden */
+    transplantDate?: Date;
+
+    /** Suggested date to sow directly in the garden, for crops not raised indoors */
+    directSowDate?: Date;
+}
+
+/**
+ * Result of checking a planting date against a plant's safe window
+ * @interface IPlantingDateCheck
+ */
+export interface IPlantingDateCheck {
+    /** Whether the date is safe, risky or not allowed */
+    status: PlantingDateStatus;
+
+    /** Explanation for warnings and blocked dates */
+    message?: string;
+
+    /** Safe window the date was checked against */
+    window: IPlantingWindow;
+}
+
+/**
+ * Planting windows for every catalog plant type in a garden's climate
+ * @interface IPlantingCalendar
+ */
+export interface IPlantingCalendar {
+    /** Garden the calendar belongs to */
+    gardenId: string;
+
+    /** Climate the windows were worked out from */
+    climate: IGardenClimate;
+
+    /** Planting window per plant type */
+    windows: IPlantingWindow[];
+}
+
+/**
+ * Point in feet from the garden's top-left corner
+ * @interface IPoint
+ */
+export interface IPoint {
+    /** Horizontal offset in feet */
+    x: number;
+
+    /** Vertical offset in feet */
+    y: number;
+}
+
+/**
+ * Area inside the garden boundary that is unavailable for planting
+ * @interface IGardenObstacle
+ */
+export interface IGardenObstacle {
+    /** Unique identifier for the obstacle */
+    id: string;
+
+    /** Kind of obstacle */
+    type: ObstacleType;
+
+    /** Footprint polygon in feet; listed clockwise or counter-clockwise */
+    boundary: IPoint[];
+
+    /** Optional user supplied label (e.g. 'Apple tree') */
+    label?: string;
+
+    /** Height in feet; obstacles with a height cast shade during sun-path modelling */
+    height?: number;
+}
+
 /**
  * Interface for garden zones with specific sunlight conditions
  * Supports sunlight condition specification (F-001-RQ-002)
@@ -52,6 +310,85 @@ export interface IGardenZone {
 
     /** Plants placed within this zone */
     plants: IPlant[];
+
+    /** Rectangle occupied by the zone within the garden */
+    position?: IZonePosition;
+
+    /** Crops grown in the zone in earlier updates, kept for crop rotation */
+    plantingHistory?: IZonePlantingRecord[];
+
+    /** Soil the zone is made of; decides how much water it holds (loam when unset) */
+    soilType?: SoilType;
+}
+
+/**
+ * Crop grown in a zone during a season
+ * @interface IZonePlantingRecord
+ */
+export interface IZonePlantingRecord {
+    /** Catalog plant type grown */
+    plantType: PlantType;
+
+    /** Growing season (calendar year the crop was planted) */
+    season: number;
+
+    /** Date the crop was planted, when known */
+    plantedDate?: Date;
+}
+
+/**
+ * Crop grown in a zone since removed from the garden's layout
+ * @interface IRemovedZonePlantingRecord
+ */
+export interface IRemovedZonePlantingRecord extends IZonePlantingRecord {
+    /** Zone the crop was grown in */
+    zoneId: string;
+}
+
+/**
+ * Plant family placed in a zone too soon after the same family last grew there
+ * @interface IRotationWarning
+ */
+export interface IRotationWarning {
+    /** Zone the family is placed in */
+    zoneId: string;
+
+    /** Plant being placed; undefined for season plan sowings */
+    plantId?: string;
+
+    /** Plant type being placed */
+    plantType: PlantType;
+
+    /** Family shared with the earlier crop */
+    family: PLANT_FAMILY;
+
+    /** Most recent season the family grew in the zone */
+    lastGrownSeason: number;
+
+    /** First season the family may return to the zone */
+    nextAllowedSeason: number;
+
+    /** Human readable explanation */
+    message: string;
+}
+
+/**
+ * Rectangle occupied by a zone, in feet from the garden's top-left corner
+ * Mirrors the x, y, width and height columns of the zones table
+ * @interface IZonePosition
+ */
+export interface IZonePosition {
+    /** Horizontal offset of the zone's left edge in feet */
+    x: number;
+
+    /** Vertical offset of the zone's top edge in feet */
+    y: number;
+
+    /** Zone width in feet; derived from the zone area when omitted */
+    width?: number;
+
+    /** Zone height in feet; derived from the zone area when omitted */
+    height?: number;
 }
 
 /**
@@ -71,6 +408,87 @@ export interface IGardenLayout {
 
     /** Timestamp when layout was generated */
     generatedAt: Date;
+
+    /** Plants that could not be fitted inside their zone's rectangle */
+    unplacedPlantIds?: string[];
+
+    /** Per-zone explanation of companion relationships that influenced placement */
+    placementExplanations?: IZonePlacementExplanation[];
+
+    /** Estimated direct sun per zone; present when the garden latitude is known */
+    sunExposure?: IZoneSunExposure[];
+
+    /** Plants placed in a zone that grew the same family within the rotation period */
+    rotationWarnings?: IRotationWarning[];
+}
+
+/**
+ * Direct sun estimated for a zone from the sun's path and shading obstacles
+ * @interface IZoneSunExposure
+ */
+export interface IZoneSunExposure {
+    /** Zone the estimate belongs to */
+    zoneId: string;
+
+    /** Average daily hours of direct sun for each month, January first */
+    monthlySunHours: number[];
+
+    /** Average daily hours of direct sun over the growing season */
+    growingSeasonSunHours: number;
+
+    /** Sunlight condition derived from the growing season hours */
+    sunlightCondition: typeof SUNLIGHT_CONDITIONS[keyof typeof SUNLIGHT_CONDITIONS];
+
+    /** Plants receiving fewer hours than their catalog minimum */
+    underexposedPlantIds: string[];
+
+    /** Plants receiving at least their minimum but fewer than their optimal hours */
+    belowOptimalPlantIds: string[];
+}
+
+/**
+ * Single companion relationship applied while placing a plant
+ * @interface IPlacementInfluence
+ */
+export interface IPlacementInfluence {
+    /** Plant being placed */
+    plantId: string;
+
+    /** Plant type being placed */
+    plantType: PlantType;
+
+    /** Already placed neighbouring plant */
+    neighbourId: string;
+
+    /** Neighbouring plant type */
+    neighbourType: PlantType;
+
+    /** Relationship between the two plant types */
+    relationshipType: COMPANION_RELATIONSHIP_TYPES;
+
+    /** How the relationship affected placement */
+    effect: 'REWARDED' | 'PENALISED' | 'FORBIDDEN' | 'SEPARATED';
+
+    /** Human readable reason for the effect */
+    reason: string;
+}
+
+/**
+ * Explanation of companion planting decisions made for a zone
+ * @interface IZonePlacementExplanation
+ */
+export interface IZonePlacementExplanation {
+    /** Zone the explanation belongs to */
+    zoneId: string;
+
+    /** Sum of beneficial rewards and antagonist penalties for the zone */
+    companionScore: number;
+
+    /** Relationships that influenced placement */
+    influences: IPlacementInfluence[];
+
+    /** Plants left out of the zone because of antagonistic neighbours */
+    rejectedPlantIds: string[];
 }
 
 /**
@@ -97,6 +515,119 @@ export interface IGardenOptimizationParams {
     /** Zone size distribution strategy */
     zoneBalancing: 'equal' | 'optimal';
 
-    /** Whether to adjust layout based on seasonal factors */
-    seasonalAdjustments: boolean;
-}
\ No newline at end of file
+    /** Minimum distance in inches between antagonistic plants */
+    antagonistDistance?: number;
+
+    /** Whether antagonistic plants within antagonistDistance are rejected rather than penalised */
+    forbidHarmfulAdjacency?: boolean;
+
+    /** Seasons before a plant family may return to the same zone */
+    rotationSeasons?: number;
+}
+/**
+ * Crop the season planner should fit into the garden
+ * @interface ISeasonCropRequest
+ */
+export interface ISeasonCropRequest {
+    /** Catalog plant type to grow */
+    plantType: PlantType;
+
+    /** Number of plants in each sowing */
+    quantity: number;
+
+    /** Zone to grow the crop in; any zone with enough sunlight is used when omitted */
+    zoneId?: string;
+
+    /** Earliest sowing date; defaults to the start of the season */
+    earliestSowDate?: Date;
+
+    /** Number of succession sowings (default 1) */
+    successions?: number;
+}
+
+/**
+ * Request to plan plantings for a whole season at once
+ * @interface ISeasonPlanRequest
+ */
+export interface ISeasonPlanRequest {
+    /** First day a crop may be sown */
+    startDate: Date;
+
+    /** Last day a crop may hold its bed; defaults to one year after the start date */
+    endDate?: Date;
+
+    /** Crops to schedule */
+    crops: ISeasonCropRequest[];
+}
+
+/**
+ * Sowing placed on the season timeline
+ * @interface ISeasonPlanting
+ */
+export interface ISeasonPlanting {
+    /** Catalog plant type sown */
+    plantType: PlantType;
+
+    /** Zone holding the crop */
+    zoneId: string;
+
+    /** Number of plants sown */
+    quantity: number;
+
+    /** Zone area in square feet held by the crop */
+    areaSqFt: number;
+
+    /** Position of this sowing in its succession series, starting at 1 */
+    succession: number;
+
+    /** Date the crop is sown or transplanted */
+    sowDate: Date;
+
+    /** Date to start seed indoors when the crop is set out as a transplant */
+    sowIndoorsDate?: Date;
+
+    /** Date the crop is expected to mature */
+    maturityDate: Date;
+
+    /** Date the harvest window closes and the space is free again */
+    harvestEndDate: Date;
+}
+
+/**
+ * Sowing the planner could not fit into the season
+ * @interface IUnscheduledSowing
+ */
+export interface IUnscheduledSowing {
+    /** Catalog plant type requested */
+    plantType: PlantType;
+
+    /** Position of the sowing in its succession series, starting at 1 */
+    succession: number;
+
+    /** Why the sowing could not be placed */
+    reason: string;
+}
+
+/**
+ * Season-long planting timeline for a garden
+ * @interface ISeasonTimeline
+ */
+export interface ISeasonTimeline {
+    /** Garden the timeline belongs to */
+    gardenId: string;
+
+    /** First day of the planned season */
+    startDate: Date;
+
+    /** Last day of the planned season */
+    endDate: Date;
+
+    /** Scheduled sowings ordered by sowing date */
+    plantings: ISeasonPlanting[];
+
+    /** Sowings that did not fit */
+    unscheduled: IUnscheduledSowing[];
+
+    /** Sowings placed in a zone that grew the same family within the rotation period */
+    rotationWarnings?: IRotationWarning[];
+}
@@ -0,0 +1,111 @@
+/**
+ * Growth Stage Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the growth tracked for each plant set out in a garden
+ * as it is advanced through its growth stages.
+ */
+
+import { GROWTH_STAGES, PlantType } from '../constants/plant.constants';
+import { PlantHealthStatus } from '../constants/plant-health.constants';
+import { WeatherDaySource } from '../constants/pest-pressure.constants';
+
+/**
+ * Growth tracked for a plant set out in a garden
+ * @interface IPlantGrowthTracking
+ */
+export interface IPlantGrowthTracking {
+    /** Plant the growth is tracked for */
+    plantId: string;
+
+    /** Catalog entry of the plant's type */
+    catalogId: string;
+
+    /** Growth stage the plant is in */
+    currentStage: GROWTH_STAGES;
+
+    /** Day the plant entered its current stage */
+    stageStartedAt: Date;
+
+    /** Days since the plant entered its current stage */
+    daysInStage: number;
+
+    /** Average growing days the plant has developed by since it was planted */
+    progressDays: number;
+
+    /** Growing degree days accumulated since the plant was planted */
+    degreeDays: number;
+
+    /** Day the plant was ready to harvest, or is expected to be at its recent pace of growth */
+    expectedHarvestDate: Date;
+
+    /** Overall health from the plant's latest diagnosis */
+    healthStatus: PlantHealthStatus;
+
+    /** Time the tracking was last worked out */
+    lastUpdated: Date;
+}
+
+/**
+ * Outcome of advancing a plant through its growth stages
+ * @interface IGrowthProgression
+ */
+export interface IGrowthProgression {
+    plantId: string;
+    plantType: PlantType;
+
+    /** Stage the plant was in before it was advanced */
+    previousStage: GROWTH_STAGES;
+
+    /** Tracking after the plant was advanced */
+    tracking: IPlantGrowthTracking;
+
+    /** Harvest task raised as the plant became ready to harvest */
+    harvestScheduleId?: string;
+}
+
+/**
+ * Growing degree days of a day since a plant was planted
+ * @interface IDegreeDay
+ */
+export interface IDegreeDay {
+    date: Date;
+
+    /** Degree days of the day, capped for hot days */
+    degreeDays: number;
+
+    /** Degree days accumulated since planting up to the end of the day */
+    accumulated: number;
+
+    /** Where the day's weather came from; undefined for days counted as an average growing day */
+    source?: WeatherDaySource;
+}
+
+/**
+ * Growing degree days a plant has accumulated towards maturity, for charting its progress
+ * @interface IDegreeDayCurve
+ */
+export interface IDegreeDayCurve {
+    plantId: string;
+    plantType: PlantType;
+    gardenId: string;
+    plantedDate: Date;
+
+    /** Mean temperature in °C above which degree days are counted */
+    baseTemperature: number;
+
+    /** Degree days the plant enters each of its growth stages at */
+    stages: Array<{ stage: GROWTH_STAGES; degreeDays: number }>;
+
+    /** Degree days at which the plant is ready to harvest */
+    degreeDaysToMaturity: number;
+
+    /** Degree days accumulated by the end of yesterday */
+    accumulatedDegreeDays: number;
+
+    /** Day the plant was ready to harvest, or is expected to be at its recent pace of growth */
+    expectedHarvestDate: Date;
+
+    /** Degree days of each day since planting, oldest first */
+    days: IDegreeDay[];
+}
@@ -0,0 +1,218 @@
+/**
+ * Harvest Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for yield forecasts and recorded harvests, so projected
+ * and actual garden output can be compared week by week.
+ */
+
+import { PlantType } from '../constants/plant.constants';
+
+/**
+ * Harvest actually picked from a plant, as kept in the harvest log
+ * Backed by the harvest_records table
+ * @interface IHarvestRecord
+ */
+export interface IHarvestRecord {
+    /** Unique identifier of the record */
+    id: string;
+
+    /** Garden the plant grows in */
+    gardenId: string;
+
+    /** Plant harvested */
+    plantId: string;
+
+    /** Plant type harvested, copied from the plant when recorded */
+    plantType: PlantType;
+
+    /** Zone the plant grew in when harvested */
+    zoneId?: string;
+
+    /** Harvesting task completed by this harvest */
+    scheduleId?: string;
+
+    /** Date of the harvest */
+    harvestedAt: Date;
+
+    /** Calendar year of the harvest */
+    season: number;
+
+    /** Weight harvested in kilograms; a harvest records a weight, a count or both */
+    quantityKg?: number;
+
+    /** Number of items harvested (fruits, heads, roots) */
+    count?: number;
+
+    /** Quality rating from 1 (poor) to 5 (excellent) */
+    qualityRating?: number;
+
+    /** Optional notes about the harvest */
+    notes?: string;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+}
+
+/**
+ * Harvest data accepted when recording a harvest
+ * @interface IHarvestInput
+ */
+export interface IHarvestInput {
+    /** Plant harvested */
+    plantId: string;
+
+    /** Date of the harvest; defaults to today */
+    harvestedAt?: Date;
+
+    /** Weight harvested in kilograms */
+    quantityKg?: number;
+
+    /** Number of items harvested */
+    count?: number;
+
+    /** Quality rating from 1 (poor) to 5 (excellent) */
+    qualityRating?: number;
+
+    /** Optional notes about the harvest */
+    notes?: string;
+
+    /** Harvesting task completed by this harvest */
+    scheduleId?: string;
+}
+
+/**
+ * Harvest details given when completing a harvesting task
+ * The plant and date are taken from the task
+ * @interface IHarvestCompletion
+ */
+export interface IHarvestCompletion {
+    /** Weight harvested in kilograms */
+    quantityKg?: number;
+
+    /** Number of items harvested */
+    count?: number;
+
+    /** Quality rating from 1 (poor) to 5 (excellent) */
+    qualityRating?: number;
+
+    /** Optional notes about the harvest */
+    notes?: string;
+}
+
+/**
+ * Filters for listing the harvest log
+ * @interface IHarvestLogQuery
+ */
+export interface IHarvestLogQuery {
+    /** Garden whose harvests are listed */
+    gardenId: string;
+
+    /** Only harvests of this plant */
+    plantId?: string;
+
+    /** Only harvests from this zone */
+    zoneId?: string;
+
+    /** Only harvests from this calendar year */
+    season?: number;
+}
+
+/**
+ * Harvest totals of one plant type within a season
+ * @interface IHarvestTotals
+ */
+export interface IHarvestTotals {
+    /** Number of harvests logged */
+    harvestCount: number;
+
+    /** Total weight harvested in kilograms */
+    totalKg: number;
+
+    /** Total number of items harvested */
+    totalCount: number;
+
+    /** Average quality rating of the rated harvests */
+    averageQualityRating?: number;
+}
+
+/**
+ * Harvest totals of a garden for one season
+ * @interface ISeasonHarvestTotals
+ */
+export interface ISeasonHarvestTotals extends IHarvestTotals {
+    /** Calendar year of the season */
+    season: number;
+
+    /** Totals per plant type harvested in the season */
+    plantTypes: Record<PlantType, IHarvestTotals>;
+}
+
+/**
+ * Projected harvest of a single plant
+ * @interface IPlantHarvestProjection
+ */
+export interface IPlantHarvestProjection {
+    /** Plant the projection belongs to */
+    plantId: string;
+
+    /** Catalog plant type */
+    plantType: PlantType;
+
+    /** Number of plants the record stands for */
+    quantity: number;
+
+    /** Total expected yield in kilograms */
+    expectedYieldKg: number;
+
+    /** First day of the projected harvest window */
+    harvestStartDate: Date;
+
+    /** Last day of the projected harvest window */
+    harvestEndDate: Date;
+}
+
+/**
+ * Projected and actual yield for one week
+ * @interface IHarvestForecastWeek
+ */
+export interface IHarvestForecastWeek {
+    /** First day of the week (Monday) */
+    weekStart: Date;
+
+    /** Projected yield in kilograms */
+    forecastKg: number;
+
+    /** Recorded yield in kilograms */
+    actualKg: number;
+
+    /** Projected yield in kilograms per plant type */
+    forecastByPlantType: Record<PlantType, number>;
+}
+
+/**
+ * Weekly yield forecast for a garden compared with recorded harvests
+ * @interface IHarvestForecast
+ */
+export interface IHarvestForecast {
+    /** Garden the forecast belongs to */
+    gardenId: string;
+
+    /** First day of the first week */
+    startDate: Date;
+
+    /** Day after the last week */
+    endDate: Date;
+
+    /** Forecast and actual yield per week */
+    weeks: IHarvestForecastWeek[];
+
+    /** Harvest window of every plant overlapping the forecast */
+    plants: IPlantHarvestProjection[];
+
+    /** Projected yield over the forecast in kilograms */
+    totalForecastKg: number;
+
+    /** Recorded yield over the forecast in kilograms */
+    totalActualKg: number;
+}
@@ -0,0 +1,141 @@
+/**
+ * Irrigation Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for irrigation valves linked to garden zones and the
+ * valve runs that carry out watering tasks.
+ */
+
+import { IrrigationRunStatus } from '../constants/irrigation.constants';
+
+/**
+ * Irrigation valve watering a garden zone
+ * Backed by the irrigation_valves table
+ * @interface IIrrigationValve
+ */
+export interface IIrrigationValve {
+    /** Unique identifier of the valve */
+    id: string;
+
+    /** Garden the valve belongs to */
+    gardenId: string;
+
+    /** Zone the valve waters */
+    zoneId: string;
+
+    /** Name given by the gardener */
+    name: string;
+
+    /** Address of the valve on its controller, e.g. a relay number or topic */
+    channel: string;
+
+    /** Water the valve delivers in litres per minute */
+    flowRateLpm: number;
+
+    /** Longest the valve runs for one watering; IRRIGATION_DEFAULTS applies when unset */
+    maxRunMinutes?: number;
+
+    /** Whether due watering tasks of the zone are run on the valve */
+    enabled: boolean;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+
+    /** Record update timestamp */
+    updatedAt?: Date;
+}
+
+/**
+ * Valve details given when linking a valve to a zone or changing it
+ * @interface IIrrigationValveInput
+ */
+export interface IIrrigationValveInput {
+    zoneId: string;
+    name: string;
+    channel: string;
+    flowRateLpm: number;
+    maxRunMinutes?: number;
+    enabled?: boolean;
+}
+
+/**
+ * Watering task carried out by a valve run
+ * @interface IIrrigationRunTask
+ */
+export interface IIrrigationRunTask {
+    /** Watering task */
+    scheduleId: string;
+
+    /** Plant the task waters */
+    plantId: string;
+
+    /** Water the plant needs in millilitres */
+    plannedMl: number;
+}
+
+/**
+ * Valve opened to carry out the due watering tasks of its zone
+ * Backed by the irrigation_runs table
+ * @interface IIrrigationRun
+ */
+export interface IIrrigationRun {
+    /** Unique identifier of the run */
+    id: string;
+
+    /** Valve run */
+    valveId: string;
+
+    /** Garden the valve belongs to */
+    gardenId: string;
+
+    /** Zone watered */
+    zoneId: string;
+
+    /** Watering tasks the run carries out */
+    tasks: IIrrigationRunTask[];
+
+    /** Water the tasks need in millilitres */
+    plannedMl: number;
+
+    /** Time the valve is opened for at its flow rate */
+    runMinutes: number;
+
+    /** When the valve was opened */
+    startedAt: Date;
+
+    /** When the valve is due to close */
+    endsAt: Date;
+
+    /** When the valve was closed */
+    finishedAt?: Date;
+
+    /** Water delivered in millilitres, as reported by the driver or from the flow rate */
+    deliveredMl?: number;
+
+    /** Whether the valve is open, closed after watering or failed to close */
+    status: IrrigationRunStatus;
+
+    /** Why the run failed */
+    error?: string;
+}
+
+/**
+ * What the driver reports when it closes a valve
+ * @interface IValveClosure
+ */
+export interface IValveClosure {
+    /** Water delivered in millilitres when the controller meters it */
+    deliveredMl?: number;
+}
+
+/**
+ * Water delivered by a valve to complete a watering task
+ * @interface IIrrigationDelivery
+ */
+export interface IIrrigationDelivery {
+    /** Run the water was delivered by */
+    runId: string;
+
+    /** Task's share of the water delivered in millilitres */
+    deliveredMl: number;
+}
@@ -0,0 +1,100 @@
+/**
+ * MQTT Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the MQTT bridge: how sensor topics and payloads map
+ * onto readings of a garden, where watering commands are published, and the commands sent.
+ */
+
+import { SensorMetric } from '../constants/sensor.constants';
+import { IrrigationCommandType } from '../constants/mqtt.constants';
+
+/**
+ * Sensor topic whose messages are stored as readings of a registered sensor device
+ * Topics may use the MQTT + and # wildcards, and {zoneId}, {plantId} and {metric}
+ * placeholders that each match one topic level
+ * @interface IMqttSensorMapping
+ */
+export interface IMqttSensorMapping {
+    /** Topic filter, e.g. garden/bed-1/{zoneId}/moisture */
+    topic: string;
+
+    /** Key of the sensor device the readings are stored for; selects the garden */
+    deviceKey: string;
+
+    /** Metric of a bare number payload when neither topic nor payload names one */
+    metric?: SensorMetric;
+
+    /** Zone the readings are taken in when the topic does not name one */
+    zoneId?: string;
+
+    /** Plant the readings are taken at when the topic does not name one */
+    plantId?: string;
+
+    /** Payload JSON fields to read, mapped to the metric each one holds */
+    fields?: Record<string, SensorMetric>;
+
+    /** Payload JSON field holding when the values were measured (ISO date or unix seconds) */
+    timestampField?: string;
+}
+
+/**
+ * Topic watering commands for a garden, or one of its zones, are published to
+ * Topics may use {gardenId}, {zoneId} and {plantId} placeholders
+ * @interface IMqttIrrigationMapping
+ */
+export interface IMqttIrrigationMapping {
+    /** Topic to publish to, e.g. garden/bed-1/valves/{zoneId}/set */
+    topic: string;
+
+    /** Garden whose watering tasks are sent */
+    gardenId: string;
+
+    /** Zone whose watering tasks are sent; every zone of the garden when omitted */
+    zoneId?: string;
+
+    /** Whether the broker keeps the last command for controllers that connect later */
+    retain?: boolean;
+}
+
+/**
+ * Contents of the MQTT mappings file
+ * @interface IMqttMappings
+ */
+export interface IMqttMappings {
+    /** Sensor topics to subscribe to */
+    sensors: IMqttSensorMapping[];
+
+    /** Irrigation topics to publish watering commands to */
+    irrigation: IMqttIrrigationMapping[];
+}
+
+/**
+ * Command published to an irrigation controller when a watering task comes due
+ * @interface IIrrigationCommand
+ */
+export interface IIrrigationCommand {
+    /** Command to carry out */
+    command: IrrigationCommandType;
+
+    /** Watering task the command carries out */
+    scheduleId: string;
+
+    /** Garden to water */
+    gardenId: string;
+
+    /** Zone to water; undefined when the plant is in no zone */
+    zoneId?: string;
+
+    /** Plant the task waters */
+    plantId: string;
+
+    /** Water the plant needs in millilitres */
+    amountMl: number;
+
+    /** When the task came due */
+    dueDate: Date;
+
+    /** When the command was sent */
+    issuedAt: Date;
+}
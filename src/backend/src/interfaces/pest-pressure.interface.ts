@@ -0,0 +1,150 @@
+/**
+ * Pest Pressure Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the pest and disease knowledge base and the pressure
+ * calendar worked out per garden from its weather.
+ */
+
+import { PLANT_FAMILY } from '../constants/plant.constants';
+import { PlantProblem } from '../constants/plant-health.constants';
+import {
+    PestRiskLevel,
+    PestThreat,
+    PestThreatKind,
+    WeatherDaySource
+} from '../constants/pest-pressure.constants';
+
+/**
+ * Daily weather ranges that favour a pest or disease; missing bounds are open
+ * @interface IPestThreatConditions
+ */
+export interface IPestThreatConditions {
+    /** Mean air temperature in °C */
+    minTemperature?: number;
+    maxTemperature?: number;
+
+    /** Mean relative humidity in percent */
+    minHumidity?: number;
+    maxHumidity?: number;
+
+    /** Rainfall in millimetres */
+    minRainfall?: number;
+    maxRainfall?: number;
+}
+
+/**
+ * What is known about a pest or disease
+ * @interface IPestThreat
+ */
+export interface IPestThreat {
+    threat: PestThreat;
+    kind: PestThreatKind;
+
+    /** Plant families attacked; every plant when not given */
+    hostFamilies?: PLANT_FAMILY[];
+
+    /** Daily weather that favours the threat */
+    conditions: IPestThreatConditions;
+
+    /** Favourable days within a week that make the risk moderate */
+    moderateDays: number;
+
+    /** Favourable days within a week that make the risk high */
+    highDays: number;
+
+    /** Problem a plant diagnosis names for the damage it does */
+    problem?: PlantProblem;
+
+    /** What to look for when the risk is moderate */
+    inspection: string;
+
+    /** How to treat plants when the risk is high */
+    treatment: string;
+}
+
+/**
+ * Weather of one day at a garden
+ * Backed by the garden_weather_days table, which keeps each day's weather as it was last
+ * known so gardens without sensors still have a history to work from
+ * @interface IWeatherDay
+ */
+export interface IWeatherDay {
+    /** Start of the day (UTC) */
+    date: Date;
+
+    /** Lowest air temperature in °C */
+    minTemperature: number;
+
+    /** Highest air temperature in °C */
+    maxTemperature: number;
+
+    /** Mean relative humidity in percent */
+    humidity: number;
+
+    /** Total rainfall in millimetres */
+    rainfall: number;
+
+    /** Where the temperature and humidity came from */
+    source: WeatherDaySource;
+}
+
+/**
+ * One day of a garden's pest pressure calendar
+ * @interface IPestPressureDay
+ */
+export interface IPestPressureDay {
+    /** Start of the day (UTC) */
+    date: Date;
+
+    /** Whether the day is still to come */
+    forecast: boolean;
+
+    /** Weather of the day; not given for past days nothing is known about */
+    weather?: IWeatherDay;
+
+    /** Threats the day's weather favours */
+    favoured: PestThreat[];
+
+    /** Risk of each threat to the garden's plants on the day */
+    risks: Partial<Record<PestThreat, PestRiskLevel>>;
+}
+
+/**
+ * Current risk of a threat to a garden
+ * @interface IPestRisk
+ */
+export interface IPestRisk {
+    threat: PestThreat;
+    kind: PestThreatKind;
+
+    /** Highest risk from today to the end of the lookahead */
+    level: PestRiskLevel;
+
+    /** Favourable days in the week ending on the day of the highest risk */
+    favourableDays: number;
+
+    /** Day of the highest risk */
+    peakDate: Date;
+
+    /** Plants of the garden the threat attacks */
+    hostPlantIds: string[];
+
+    /** Pest control tasks raised or already pending for the risk */
+    scheduleIds: string[];
+}
+
+/**
+ * Pest pressure calendar of a garden
+ * @interface IPestPressureReport
+ */
+export interface IPestPressureReport {
+    gardenId: string;
+    assessedAt: Date;
+
+    /** Days from the start of the history to the end of the lookahead, oldest first */
+    days: IPestPressureDay[];
+
+    /** Threats to the garden's plants, highest risk first */
+    risks: IPestRisk[];
+}
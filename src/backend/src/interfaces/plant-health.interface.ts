@@ -0,0 +1,222 @@
+/**
+ * Plant Health Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the observations gardeners record on their plants and
+ * the diagnoses worked out from them.
+ */
+
+import {
+    HealthActionType,
+    PlantHealthStatus,
+    PlantPest,
+    PlantProblem,
+    PlantSymptom,
+    ProblemSeverity
+} from '../constants/plant-health.constants';
+
+/**
+ * Metadata of a photo taken with an observation; the image itself is stored elsewhere
+ * @interface IPlantPhoto
+ */
+export interface IPlantPhoto {
+    /** Where the image can be fetched */
+    url: string;
+
+    /** What the photo shows */
+    caption?: string;
+
+    /** MIME type of the image */
+    contentType?: string;
+
+    /** When the photo was taken */
+    takenAt?: Date;
+}
+
+/**
+ * What a gardener saw when looking over a plant
+ * Backed by the plant_observations table
+ * @interface IPlantObservation
+ */
+export interface IPlantObservation {
+    /** Unique identifier of the observation */
+    id: string;
+
+    /** Plant observed */
+    plantId: string;
+
+    /** Garden the plant is set out in */
+    gardenId?: string;
+
+    /** Symptoms seen */
+    symptoms: PlantSymptom[];
+
+    /** Pests seen */
+    pests: PlantPest[];
+
+    /** Share of the plant affected, in percent */
+    affectedPercent?: number;
+
+    /** Free-text notes */
+    notes?: string;
+
+    /** Photos taken */
+    photos: IPlantPhoto[];
+
+    /** When the plant was looked over */
+    observedAt: Date;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+}
+
+/**
+ * Observation details submitted by a gardener
+ * @interface IPlantObservationInput
+ */
+export interface IPlantObservationInput {
+    symptoms?: PlantSymptom[];
+    pests?: PlantPest[];
+    affectedPercent?: number;
+    notes?: string;
+    photos?: IPlantPhoto[];
+    observedAt?: Date | string;
+}
+
+/**
+ * Recent conditions at a plant that diagnosis rules weigh
+ * @interface IHealthConditions
+ */
+export interface IHealthConditions {
+    /** Air temperature in °C */
+    temperature: number;
+
+    /** Relative humidity in percent */
+    humidity: number;
+
+    /** Share of field capacity the soil holds, from 0 to 1; undefined when unknown */
+    soilMoisture?: number;
+}
+
+/**
+ * Ranges of conditions that favour a problem; unset bounds are open
+ * @interface IDiagnosisConditions
+ */
+export interface IDiagnosisConditions {
+    minHumidity?: number;
+    maxHumidity?: number;
+    minTemperature?: number;
+    maxTemperature?: number;
+    minSoilMoisture?: number;
+    maxSoilMoisture?: number;
+}
+
+/**
+ * Action recommended for a problem
+ * @interface IHealthAction
+ */
+export interface IHealthAction {
+    /** Treatments are scheduled as pest control tasks; care advice is not */
+    type: HealthActionType;
+
+    /** What to do */
+    description: string;
+}
+
+/**
+ * Rule mapping signs and conditions to a problem
+ * @interface IDiagnosisRule
+ */
+export interface IDiagnosisRule {
+    /** Problem the rule points to */
+    problem: PlantProblem;
+
+    /** Symptoms of the problem */
+    symptoms: PlantSymptom[];
+
+    /** Pests behind the problem */
+    pests: PlantPest[];
+
+    /** Conditions favouring the problem; rules without any hold in all conditions */
+    conditions?: IDiagnosisConditions;
+
+    /** Severity before the affected share of the plant is taken into account */
+    severity: ProblemSeverity;
+
+    /** Recommended actions */
+    actions: IHealthAction[];
+}
+
+/**
+ * Problem named by a diagnosis
+ * @interface IDiagnosedProblem
+ */
+export interface IDiagnosedProblem {
+    problem: PlantProblem;
+
+    /** How likely the problem is, from 0 to 1 */
+    confidence: number;
+
+    severity: ProblemSeverity;
+
+    /** Observed symptoms and pests that point to the problem */
+    signs: Array<PlantSymptom | PlantPest>;
+
+    /** Whether recent conditions favour the problem */
+    conditionsFavour: boolean;
+
+    actions: IHealthAction[];
+}
+
+/**
+ * Diagnosis of a plant from its recent observations and conditions
+ * Backed by the plant_diagnoses table
+ * @interface IPlantDiagnosis
+ */
+export interface IPlantDiagnosis {
+    /** Unique identifier of the diagnosis */
+    id: string;
+
+    /** Plant diagnosed */
+    plantId: string;
+
+    /** Garden the plant is set out in */
+    gardenId?: string;
+
+    /** Overall health of the plant */
+    healthStatus: PlantHealthStatus;
+
+    /** Likely problems, most likely first */
+    problems: IDiagnosedProblem[];
+
+    /** Conditions the rules were weighed against */
+    conditions: IHealthConditions;
+
+    /** Observations the diagnosis was worked out from */
+    observationIds: string[];
+
+    /** Pest control tasks created for the recommended treatments */
+    treatmentScheduleIds: string[];
+
+    /** When the diagnosis was made */
+    diagnosedAt: Date;
+}
+
+/**
+ * Outcome of recording an observation
+ * @interface IPlantObservationResult
+ */
+export interface IPlantObservationResult {
+    observation: IPlantObservation;
+    diagnosis: IPlantDiagnosis;
+}
+
+/**
+ * Health signs observed on a plant, as used to assess its growth
+ * @interface IObservedHealth
+ */
+export interface IObservedHealth {
+    leafColor: string;
+    pestPresence: boolean;
+    diseaseSymptoms: PlantSymptom[];
+}
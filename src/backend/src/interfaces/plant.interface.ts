@@ -6,10 +6,14 @@
  */
 
 import {
-    PLANT_TYPES,
+    PlantType,
     GROWTH_STAGES,
-    SUNLIGHT_REQUIREMENTS
+    SUNLIGHT_REQUIREMENTS,
+    COMPANION_RELATIONSHIP_TYPES,
+    FROST_TOLERANCE,
+    PLANT_FAMILY
 } from '../constants/plant.constants';
+import { PlantHealthStatus } from '../constants/plant-health.constants';
 
 /**
  * Core plant interface defining all essential properties for garden planning
@@ -20,8 +24,8 @@ export interface IPlant {
     /** Unique identifier for the plant instance */
     id: string;
 
-    /** Type of plant from supported varieties */
-    type: PLANT_TYPES;
+    /** Plant type key resolved against the plant catalog */
+    type: PlantType;
 
     /** Current growth stage in plant's lifecycle */
     growthStage: GROWTH_STAGES;
@@ -45,13 +49,131 @@ export interface IPlant {
     lastFertilizedDate: Date;
 
     /** Array of compatible plant types for companion planting */
-    companionPlants: PLANT_TYPES[];
+    companionPlants: PlantType[];
 
     /** Daily water requirement in milliliters */
     waterRequirementMl: number;
 
     /** Expected yield in kilograms at maturity */
     expectedYieldKg: number;
+
+    /** Number of plants the record stands for; defaults to 1 */
+    quantity?: number;
+
+    /** Days between watering tasks, copied from the catalog entry at planting */
+    wateringFrequencyDays?: number;
+
+    /** Days between fertilizing tasks, copied from the catalog entry at planting */
+    fertilizingFrequencyDays?: number;
+
+    /** Placement within the zone assigned by the layout optimizer */
+    position?: IPlantPosition;
+
+    /** Garden the plant is set out in; its climate decides the safe planting window */
+    gardenId?: string;
+
+    /** Warnings raised when the plant was set out near the edge of its safe window */
+    plantingWarnings?: string[];
+
+    /** Overall health from the plant's latest diagnosis */
+    healthStatus?: PlantHealthStatus;
+}
+
+/**
+ * Centre and spacing circle of a placed plant, in feet from its zone's top-left corner
+ * @interface IPlantPosition
+ */
+export interface IPlantPosition {
+    /** Horizontal offset of the plant centre in feet */
+    x: number;
+
+    /** Vertical offset of the plant centre in feet */
+    y: number;
+
+    /** Radius of the plant's spacing circle in feet */
+    radius: number;
+}
+
+/**
+ * Plant catalog entry describing the traits of a plant type
+ * Backed by the plant_details and plant_sunlight_needs tables
+ * @interface IPlantCatalogEntry
+ */
+export interface IPlantCatalogEntry {
+    /** Unique identifier of the catalog record */
+    id: string;
+
+    /** Unique plant type key (e.g. 'tomatoes') */
+    type: PlantType;
+
+    /** Human readable plant name */
+    name: string;
+
+    /** Revision number, incremented on every update */
+    version: number;
+
+    /** Required spacing in inches between plants */
+    defaultSpacing: number;
+
+    /** Expected days from planting to maturity */
+    daysToMaturity: number;
+
+    /** Days the crop keeps its bed after maturity while it is harvested */
+    harvestWindowDays: number;
+
+    /** Days the plant is a seedling; undefined to take a share of the days to maturity */
+    seedlingDays?: number;
+
+    /** Days the plant grows on after the seedling stage; undefined to take a share of the days to maturity */
+    growingDays?: number;
+
+    /** Whether the crop is lifted once at maturity instead of picked over a harvesting stage */
+    singleHarvest?: boolean;
+
+    /** Mean temperature in °C below which the plant stops developing; undefined for the default */
+    baseTemperature?: number;
+
+    /** Days between succession sowings; undefined for crops sown once per planting */
+    successionIntervalDays?: number;
+
+    /** How much frost the plant survives */
+    frostTolerance: FROST_TOLERANCE;
+
+    /** Weeks before set-out that seed is started indoors; undefined for crops sown directly */
+    indoorSowingWeeks?: number;
+
+    /** Botanical family the plant rotates with */
+    family: PLANT_FAMILY;
+
+    /** Days between watering tasks */
+    wateringFrequencyDays: number;
+
+    /** Days between fertilizing tasks */
+    fertilizingFrequencyDays: number;
+
+    /** Minimum daily sunlight hours needed */
+    minSunlightHours: number;
+
+    /** Optimal daily sunlight hours */
+    optimalSunlightHours: number;
+
+    /** Sunlight requirement category */
+    sunlightRequirement: SUNLIGHT_REQUIREMENTS;
+
+    /** Expected yield in kilograms at maturity */
+    expectedYieldKg: number;
+
+    /** Daily water requirement in milliliters */
+    waterRequirementMl: number;
+
+    /** Plant types that grow well alongside this one */
+    companionPlants: PlantType[];
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+
+    /** Record last update timestamp */
+    updatedAt?: Date;
 }
 
 /**
@@ -86,4 +208,32 @@ export interface IPlantCareSchedule {
 
     /** Projected harvest date based on growth progress */
     expectedHarvestDate: Date;
-}
\ No newline at end of file
+}
+
+/**
+ * Companion planting relationship between two catalog plant types
+ * Backed by the companion_plants table
+ * @interface ICompanionRelationship
+ */
+export interface ICompanionRelationship {
+    /** Plant type the relationship is recorded for */
+    plantType: PlantType;
+
+    /** Neighbouring plant type */
+    companionType: PlantType;
+
+    /** Effect of growing the two plants near each other */
+    relationshipType: COMPANION_RELATIONSHIP_TYPES;
+
+    /** Optional explanation of the relationship */
+    benefitDescription?: string;
+}
+
+/**
+ * Read access to the plant catalog used by validators and optimizers
+ * @interface IPlantCatalogLookup
+ */
+export interface IPlantCatalogLookup {
+    /** Returns the catalog entry for a plant type, or undefined when unknown */
+    getEntry(type: PlantType): IPlantCatalogEntry | undefined;
+}
@@ -0,0 +1,57 @@
+/**
+ * Quota Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the limits each role puts on the gardens and schedules
+ * of a user, and how much of them the user has used.
+ */
+
+import { UserRole } from '../config/security.config';
+import { QUOTA_RESOURCES } from '../constants/quota.constants';
+
+/**
+ * Use of one limited resource
+ * @interface IQuotaLimit
+ */
+export interface IQuotaLimit {
+    /** Resources counted against the limit */
+    used: number;
+
+    /** Limit of the user's role; null when unlimited */
+    limit: number | null;
+
+    /** Resources that can still be added; null when unlimited */
+    remaining: number | null;
+}
+
+/**
+ * Limits of a user's role and how much of them is used
+ * @interface IQuotaUsage
+ */
+export interface IQuotaUsage {
+    userId: string;
+    role: UserRole;
+
+    /** Gardens the user owns; plots allocated on community sites are not counted */
+    gardens: IQuotaLimit;
+
+    /** Pending tasks across the gardens the user owns */
+    schedules: IQuotaLimit;
+
+    /** Whether the role may use advanced features, such as companion-aware layouts */
+    advancedFeatures: boolean;
+}
+
+/**
+ * Details of a refused addition, returned with quota-exceeded errors
+ * @interface IQuotaExceeded
+ */
+export interface IQuotaExceeded {
+    resource: QUOTA_RESOURCES;
+    role: UserRole;
+    limit: number;
+    used: number;
+
+    /** Resources the refused operation would have added */
+    requested: number;
+}
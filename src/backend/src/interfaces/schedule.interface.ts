@@ -1,5 +1,9 @@
 // mongoose version: ^6.0.0
 import { Document } from 'mongoose';
+import { RainAdjustmentAction } from '../constants/schedule.constants';
+import { PlantProblem } from '../constants/plant-health.constants';
+import { PestRiskLevel, PestThreat } from '../constants/pest-pressure.constants';
+import { IRainfallObservation } from './weather.interface';
 
 /**
  * Enumeration of all possible garden maintenance task types
@@ -52,13 +56,70 @@ interface NotificationHistoryEntry {
     acknowledged: boolean;
 }
 
+/**
+ * Interface recording why a watering task was skipped or moved for rain
+ */
+export interface IRainAdjustment {
+    action: RainAdjustmentAction;
+    adjustedAt: Date;
+    previousDueDate: Date;
+    dueDate: Date;              // New due date; the previous one for skipped tasks
+    observedRainfallMm: number; // Rain observed since the plant was last watered
+    forecastRainfallMm: number; // Rain forecast from now until the task was due
+    coveredDays: number;        // Days of the plant's water demand covered by the rain
+    reason: string;
+}
+
+/**
+ * Interface for additional task details kept with a schedule
+ */
+export interface IScheduleTaskMetadata {
+    originalDueDate?: Date;     // Due date before any rain adjustment
+    rainCreditedFrom?: Date;    // When the plant was last watered, by hand or by rain, as of the adjustment
+    rainAdjustments?: IRainAdjustment[];
+    irrigationCommandedAt?: Date;   // When a watering command was published or a valve opened for the task
+    irrigationRunId?: string;       // Valve run that carried out the task
+    deliveredMl?: number;           // Water the valve run delivered for the task's plant
+    healthProblem?: PlantProblem;   // Problem a pest control task was scheduled to treat
+    pestThreat?: PestThreat;        // Pest or disease whose rising pressure raised a pest control task
+    pestRisk?: PestRiskLevel;       // Risk the task responds to: moderate to inspect, high to treat
+    plantingWarning?: string;       // Why the task's plant was set out outside its frost-safe window
+}
+
+/**
+ * Interface for the task statistics of a garden, stored in schedule_statistics
+ */
+export interface IScheduleStatistics {
+    gardenId: string;
+    totalTasks: number;
+    completedTasks: number;
+    upcomingTasks: number;        // Pending tasks not yet due
+    completionRate: number;       // Percentage of tasks completed
+    monthlyCompletionRate: Record<string, number>;  // Percentage of the tasks due in each month (YYYY-MM) completed
+    averageCompletionTime: number;  // Minutes tasks were completed after falling due, on average
+    missedTaskCount: number;      // Pending tasks past their due date
+    lastCalculatedAt: Date;
+}
+
+/**
+ * Interface for the outcome of recording rainfall at a garden
+ */
+export interface IRainfallRecordResult {
+    observation: IRainfallObservation;
+    adjustedSchedules: ISchedule[];  // Watering tasks skipped or moved as a result
+}
+
 /**
  * Comprehensive interface defining the structure and properties of a garden maintenance schedule
  */
 export interface ISchedule {
     id: string;
-    gardenId: string;  // Reference to the garden this schedule belongs to
-    plantId: string;   // Reference to the specific plant this task is for
+    gardenId: string;  // Reference to the garden this schedule belongs to; the site for site-wide tasks
+    plantId: string;   // Reference to the specific plant this task is for; empty for site-wide tasks
+    siteId?: string;   // Community site a site-wide task is shared across
+    assigneeId?: string;  // User the task was assigned to or who claimed it; unassigned tasks are in the pool
+    assignedAt?: Date;    // When the task was assigned or claimed
+    completedBy?: string; // User who completed the task
     taskType: TaskType;
     frequency: TaskFrequency;
     dueDate: Date;
@@ -69,6 +130,7 @@ export interface ISchedule {
     notificationHistory: NotificationHistoryEntry[];
     notes: string;
     weather_dependent: boolean;
+    task_metadata?: IScheduleTaskMetadata;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -0,0 +1,188 @@
+/**
+ * Sensor Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for garden sensor devices and the soil, air and light
+ * readings they submit, kept raw for a while and as hourly aggregates after.
+ */
+
+import { SensorMetric } from '../constants/sensor.constants';
+
+/**
+ * Sensor device allowed to submit readings for a garden
+ * Backed by the sensor_devices table; only a hash of the device key is kept
+ * @interface ISensorDevice
+ */
+export interface ISensorDevice {
+    /** Unique identifier of the device */
+    id: string;
+
+    /** Garden the device submits readings for */
+    gardenId: string;
+
+    /** Name given to the device */
+    name: string;
+
+    /** When the device last submitted readings */
+    lastSeenAt?: Date;
+
+    /** When the device key was revoked */
+    revokedAt?: Date;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+}
+
+/**
+ * Device registered for a garden with the key it authenticates with
+ * The key is only ever returned here
+ * @interface ISensorDeviceRegistration
+ */
+export interface ISensorDeviceRegistration {
+    /** Registered device */
+    device: ISensorDevice;
+
+    /** Key the device sends in the sensor key header */
+    key: string;
+}
+
+/**
+ * Reading submitted by a sensor device
+ * @interface ISensorReadingInput
+ */
+export interface ISensorReadingInput {
+    /** Metric measured */
+    metric: SensorMetric;
+
+    /** Measured value in the metric's unit */
+    value: number;
+
+    /** Zone the sensor sits in */
+    zoneId?: string;
+
+    /** Plant the sensor is placed at */
+    plantId?: string;
+
+    /** When the value was measured; defaults to when it was received */
+    recordedAt?: Date | string;
+}
+
+/**
+ * Stored sensor reading
+ * Backed by the sensor_readings table
+ * @interface ISensorReading
+ */
+export interface ISensorReading {
+    /** Unique identifier of the reading */
+    id: string;
+
+    /** Garden the reading was taken in */
+    gardenId: string;
+
+    /** Device that submitted the reading */
+    deviceId: string;
+
+    /** Metric measured */
+    metric: SensorMetric;
+
+    /** Measured value in the metric's unit */
+    value: number;
+
+    /** Zone the sensor sits in */
+    zoneId?: string;
+
+    /** Plant the sensor is placed at */
+    plantId?: string;
+
+    /** When the value was measured */
+    recordedAt: Date;
+}
+
+/**
+ * Readings of one metric at one spot rolled up over an hour
+ * Backed by the sensor_readings_hourly table
+ * @interface ISensorAggregate
+ */
+export interface ISensorAggregate {
+    /** Garden the readings were taken in */
+    gardenId: string;
+
+    /** Metric measured */
+    metric: SensorMetric;
+
+    /** Zone the sensor sits in */
+    zoneId?: string;
+
+    /** Plant the sensor is placed at */
+    plantId?: string;
+
+    /** Start of the hour */
+    hour: Date;
+
+    /** Lowest value over the hour */
+    min: number;
+
+    /** Highest value over the hour */
+    max: number;
+
+    /** Mean value over the hour */
+    avg: number;
+
+    /** Number of readings rolled up */
+    count: number;
+}
+
+/**
+ * Reading rejected from a submitted batch
+ * @interface ISensorReadingRejection
+ */
+export interface ISensorReadingRejection {
+    /** Position of the reading (or line) in the submission, from 0 */
+    index: number;
+
+    /** Why the reading was rejected */
+    error: string;
+}
+
+/**
+ * Outcome of submitting a batch of readings
+ * Valid readings are stored even when others in the batch are rejected
+ * @interface ISensorIngestionResult
+ */
+export interface ISensorIngestionResult {
+    /** Number of readings stored */
+    accepted: number;
+
+    /** Readings that were not stored */
+    rejected: ISensorReadingRejection[];
+}
+
+/**
+ * Latest current reading of each metric at a spot
+ */
+export type ISensorSnapshot = Partial<Record<SensorMetric, ISensorReading>>;
+
+/**
+ * Readings of one metric over a period: raw readings within the raw retention period and
+ * hourly aggregates before it
+ * @interface ISensorHistory
+ */
+export interface ISensorHistory {
+    /** Garden the readings were taken in */
+    gardenId: string;
+
+    /** Metric measured */
+    metric: SensorMetric;
+
+    /** Zone the readings were limited to */
+    zoneId?: string;
+
+    /** Plant the readings were limited to */
+    plantId?: string;
+
+    /** Raw readings, oldest first */
+    readings: ISensorReading[];
+
+    /** Hourly aggregates of readings past their raw retention, oldest first */
+    hourly: ISensorAggregate[];
+}
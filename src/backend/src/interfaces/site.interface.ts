@@ -0,0 +1,151 @@
+/**
+ * Community Site Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for community sites, which hold many gardens as plots
+ * allocated to their members, and for the site-wide tasks and dashboards they share.
+ */
+
+import { IGardenZone } from './garden.interface';
+import { IScheduleStatistics, TaskFrequency, TaskType } from './schedule.interface';
+import { SITE_ROLES } from '../constants/site.constants';
+
+/**
+ * Community garden site made up of plots
+ * @interface ISite
+ */
+export interface ISite {
+    /** Unique identifier of the site */
+    id: string;
+
+    /** Name of the site shown to its members */
+    name: string;
+
+    /** Street address of the site */
+    address?: string;
+
+    /** Users who lay out and allocate the site's plots; the creator first */
+    adminIds: string[];
+
+    /** Site creation timestamp */
+    createdAt: Date;
+
+    /** Last modification timestamp */
+    updatedAt: Date;
+}
+
+/**
+ * Fields of a site given when it is created
+ */
+export type ISiteInput = Pick<ISite, 'name' | 'address'>;
+
+/**
+ * Site a user belongs to, with the role they hold there
+ * @interface ISiteMembership
+ */
+export interface ISiteMembership extends ISite {
+    /** Role the user holds in the site */
+    role: SITE_ROLES;
+}
+
+/**
+ * Plot laid out on a site by its admins
+ * @interface ISitePlotInput
+ */
+export interface ISitePlotInput {
+    /** Number the site gives the plot */
+    plotNumber: string;
+
+    /** Area of the plot in square feet */
+    area: number;
+
+    /** Zones of the plot; one full-sun zone covering the plot when omitted */
+    zones?: IGardenZone[];
+}
+
+/**
+ * Plot of a site, as listed to its members
+ * @interface ISitePlot
+ */
+export interface ISitePlot {
+    /** Garden the plot is */
+    gardenId: string;
+
+    /** Number the site gives the plot */
+    plotNumber: string;
+
+    /** Area of the plot in square feet */
+    area: number;
+
+    /** Member the plot is allocated to; vacant plots have none */
+    holderId?: string;
+}
+
+/**
+ * Site-wide task raised by a site admin
+ * @interface ISiteTaskInput
+ */
+export interface ISiteTaskInput {
+    /** One of SITE_TASK_TYPES */
+    taskType: TaskType;
+
+    /** When the task falls due */
+    dueDate: Date;
+
+    /** How often the task repeats; tasks raised as needed do not repeat */
+    frequency?: TaskFrequency;
+
+    /** Instructions for the member who claims the task */
+    notes?: string;
+}
+
+/**
+ * Plot of a site with the statistics of its tasks
+ * @interface ISitePlotStatistics
+ */
+export interface ISitePlotStatistics extends ISitePlot {
+    /** Statistics of the plot's tasks */
+    statistics: IScheduleStatistics;
+}
+
+/**
+ * Overview of a site's plots and shared tasks
+ * @interface ISiteDashboard
+ */
+export interface ISiteDashboard {
+    /** Site identifier */
+    siteId: string;
+
+    /** Plots laid out on the site */
+    plotCount: number;
+
+    /** Plots allocated to a member */
+    allocatedPlots: number;
+
+    /** Tasks of all plots */
+    totalTasks: number;
+
+    /** Tasks of all plots completed */
+    completedTasks: number;
+
+    /** Pending tasks of all plots not yet due */
+    upcomingTasks: number;
+
+    /** Pending tasks of all plots past their due date */
+    missedTaskCount: number;
+
+    /** Percentage of the tasks of all plots completed */
+    completionRate: number;
+
+    /** Plots with the statistics of their tasks, in plot number order */
+    plots: ISitePlotStatistics[];
+
+    /** Pending site-wide tasks no member has claimed */
+    openSiteTasks: number;
+
+    /** Pending site-wide tasks a member has claimed */
+    claimedSiteTasks: number;
+
+    /** Pending site-wide tasks past their due date */
+    overdueSiteTasks: number;
+}
@@ -0,0 +1,67 @@
+/**
+ * Task Assignment Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for sharing out the tasks of a garden between its users:
+ * rotations that pass a duty between them in turn, and completion history crediting the
+ * work each of them did.
+ */
+
+import { ISchedule, TaskType } from './schedule.interface';
+
+/**
+ * Rotation set for a task type of a garden
+ * @interface ITaskRotationInput
+ */
+export interface ITaskRotationInput {
+    /** Users taking turns, in order; each must be the owner or a collaborator */
+    userIds: string[];
+
+    /** Days each user's turn lasts */
+    periodDays: number;
+
+    /** Day the first user's turn starts; today when not given */
+    startsOn?: Date;
+}
+
+/**
+ * Work one user did in a garden over a period
+ * @interface ITaskContributor
+ */
+export interface ITaskContributor {
+    /** User credited with the work */
+    userId: string;
+
+    /** Name of the user, when the account still exists */
+    name?: string;
+
+    /** Tasks the user completed */
+    completedTasks: number;
+
+    /** Tasks the user completed of each type */
+    taskTypes: Partial<Record<TaskType, number>>;
+}
+
+/**
+ * Tasks completed in a garden over a period and who did them
+ * @interface ITaskCompletionHistory
+ */
+export interface ITaskCompletionHistory {
+    /** Garden identifier */
+    gardenId: string;
+
+    /** Start of the period */
+    from: Date;
+
+    /** End of the period */
+    to: Date;
+
+    /** Tasks completed in the period, most recently completed first */
+    tasks: ISchedule[];
+
+    /** Users who completed tasks, most tasks first */
+    contributors: ITaskContributor[];
+
+    /** Tasks completed without a user to credit, such as those run by an irrigation valve */
+    unattributedTasks: number;
+}
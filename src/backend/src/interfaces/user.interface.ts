@@ -0,0 +1,50 @@
+/**
+ * User Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the users of the garden planner, who own gardens and
+ * share them with one another.
+ */
+
+import { UserRole } from '../config/security.config';
+
+/**
+ * User of the garden planner
+ * @interface IUser
+ */
+export interface IUser {
+    /** Unique identifier of the user, the subject of their tokens */
+    id: string;
+
+    /** Email address the user signs in with, stored in lowercase */
+    email: string;
+
+    /** Name shown to the users a garden is shared with */
+    name: string;
+
+    /** Role whose permissions and limits in securityConfig.authorization.roles apply */
+    role: UserRole;
+
+    /** bcrypt hash of the password; only loaded to check a sign-in */
+    passwordHash?: string;
+
+    /** When the password was last set or reset */
+    passwordChangedAt?: Date;
+
+    /** Push notification tokens of the devices the user registered; only loaded to address notifications */
+    deviceTokens?: string[];
+
+    /** Counter written by transactions checking the user's quotas; never loaded */
+    quotaLock?: number;
+
+    /** Account creation timestamp */
+    createdAt: Date;
+
+    /** Last modification timestamp */
+    updatedAt: Date;
+}
+
+/**
+ * Fields of a user given when the account is created
+ */
+export type IUserInput = Pick<IUser, 'email' | 'name'> & Partial<Pick<IUser, 'role'>>;
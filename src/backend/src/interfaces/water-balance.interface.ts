@@ -0,0 +1,119 @@
+/**
+ * Water Balance Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for the daily soil water balance kept per garden zone and
+ * the irrigation applied to zones, from which watering is scheduled.
+ */
+
+import { IrrigationSource, SoilType } from '../constants/water-balance.constants';
+
+/**
+ * Soil water balance of a garden zone over one day
+ * Backed by the zone_water_balances table
+ * @interface IZoneWaterBalance
+ */
+export interface IZoneWaterBalance {
+    /** Unique identifier of the record */
+    id: string;
+
+    /** Garden the zone belongs to */
+    gardenId: string;
+
+    /** Zone the balance is kept for */
+    zoneId: string;
+
+    /** Day of the balance (start of the UTC day) */
+    date: Date;
+
+    /** Soil type of the zone on that day */
+    soilType: SoilType;
+
+    /** Water the zone's root zone holds at field capacity in millimetres */
+    capacityMm: number;
+
+    /** Soil water at the start of the day in millimetres */
+    startMm: number;
+
+    /** Rain that soaked into the soil in millimetres */
+    rainfallMm: number;
+
+    /** Irrigation applied in millimetres */
+    irrigationMm: number;
+
+    /** Water lost from bare soil between plants in millimetres */
+    evaporationMm: number;
+
+    /** Water drawn by the zone's plants in millimetres */
+    plantDemandMm: number;
+
+    /** Reference evapotranspiration the losses were scaled from in millimetres */
+    referenceEtMm: number;
+
+    /** Water drained below the root zone once the soil was full in millimetres */
+    drainageMm: number;
+
+    /** Soil water at the end of the day in millimetres */
+    endMm: number;
+}
+
+/**
+ * Water applied to a garden zone
+ * Backed by the irrigation_events table
+ * @interface IIrrigationEvent
+ */
+export interface IIrrigationEvent {
+    /** Unique identifier of the event */
+    id: string;
+
+    /** Garden the zone belongs to */
+    gardenId: string;
+
+    /** Zone watered */
+    zoneId: string;
+
+    /** When the water was applied */
+    appliedAt: Date;
+
+    /** Water applied in millimetres over the zone */
+    amountMm: number;
+
+    /** How the water was applied */
+    source: IrrigationSource;
+
+    /** Watering task completed by this irrigation */
+    scheduleId?: string;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+}
+
+/**
+ * Water balance history of a zone with the watering derived from it
+ * @interface IZoneWaterBalanceReport
+ */
+export interface IZoneWaterBalanceReport {
+    /** Garden the zone belongs to */
+    gardenId: string;
+
+    /** Zone reported */
+    zoneId: string;
+
+    /** Soil type of the zone */
+    soilType: SoilType;
+
+    /** Water the zone's root zone holds at field capacity in millimetres */
+    capacityMm: number;
+
+    /** Soil water below which the zone needs watering in millimetres */
+    refillPointMm: number;
+
+    /** Daily balances, oldest first */
+    history: IZoneWaterBalance[];
+
+    /** Date the zone is projected to reach its refill point; undefined beyond the projection */
+    nextWateringDate?: Date;
+
+    /** Water needed to bring the zone back to capacity on that date in millimetres */
+    refillMm?: number;
+}
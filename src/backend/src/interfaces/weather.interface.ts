@@ -0,0 +1,143 @@
+/**
+ * Weather Interfaces
+ * @packageVersion 5.0
+ *
+ * Defines TypeScript interfaces for weather forecasts and the environmental conditions
+ * derived from them for maintenance scheduling.
+ */
+
+/**
+ * Environmental conditions considered when scheduling maintenance tasks
+ * @interface IEnvironmentalFactors
+ */
+export interface IEnvironmentalFactors {
+    /** Air temperature in °C */
+    temperature: number;
+
+    /** Relative humidity in percent */
+    humidity: number;
+
+    /** Rainfall in millimetres per day */
+    rainfall: number;
+
+    /** Wind speed in km/h */
+    windSpeed: number;
+}
+
+/**
+ * Location a forecast is requested for
+ * @interface IWeatherLocation
+ */
+export interface IWeatherLocation {
+    /** Latitude in decimal degrees (south is negative) */
+    latitude: number;
+
+    /** Longitude in decimal degrees (west is negative) */
+    longitude: number;
+}
+
+/**
+ * Forecast values for one hour
+ * @interface IHourlyForecast
+ */
+export interface IHourlyForecast {
+    /** Start of the hour (UTC) */
+    time: Date;
+
+    /** Air temperature in °C */
+    temperature: number;
+
+    /** Relative humidity in percent */
+    humidity: number;
+
+    /** Rainfall within the hour in millimetres */
+    rainfall: number;
+
+    /** Wind speed in km/h */
+    windSpeed: number;
+}
+
+/**
+ * Forecast values for one day
+ * @interface IDailyForecast
+ */
+export interface IDailyForecast {
+    /** Start of the day (UTC) */
+    date: Date;
+
+    /** Lowest air temperature in °C */
+    minTemperature: number;
+
+    /** Highest air temperature in °C */
+    maxTemperature: number;
+
+    /** Average relative humidity in percent */
+    humidity: number;
+
+    /** Total rainfall in millimetres */
+    rainfall: number;
+
+    /** Highest sustained wind speed in km/h */
+    windSpeed: number;
+}
+
+/**
+ * Weather forecast for a location as returned by a weather provider
+ * @interface IWeatherForecast
+ */
+export interface IWeatherForecast {
+    /** Location the forecast was issued for */
+    location: IWeatherLocation;
+
+    /** Provider that issued the forecast */
+    source: string;
+
+    /** When the forecast was issued */
+    issuedAt: Date;
+
+    /** Hourly values, oldest first; may cover fewer days than the daily values */
+    hourly: IHourlyForecast[];
+
+    /** Daily values, oldest first */
+    daily: IDailyForecast[];
+}
+
+/**
+ * Rainfall measured at a garden, by a rain gauge, weather station or the gardener
+ * Backed by the rainfall_observations table
+ * @interface IRainfallObservation
+ */
+export interface IRainfallObservation {
+    /** Unique identifier of the observation */
+    id: string;
+
+    /** Garden the rain fell on */
+    gardenId: string;
+
+    /** End of the period the rain was measured over */
+    observedAt: Date;
+
+    /** Rain measured in millimetres */
+    rainfallMm: number;
+
+    /** Where the measurement came from (e.g. gauge, station, manual) */
+    source?: string;
+
+    /** Record creation timestamp */
+    createdAt?: Date;
+}
+
+/**
+ * Rainfall data accepted when recording an observation
+ * @interface IRainfallObservationInput
+ */
+export interface IRainfallObservationInput {
+    /** End of the period the rain was measured over; defaults to now */
+    observedAt?: Date;
+
+    /** Rain measured in millimetres */
+    rainfallMm: number;
+
+    /** Where the measurement came from */
+    source?: string;
+}
@@ -2,9 +2,20 @@
 // @package-version winston@3.8.2
 // @package-version express-rate-limit@6.7.0
 
-import { Request, Response, NextFunction } from 'express';
-import { verifyToken, validatePermission } from '../utils/security.utils';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { verifyToken, validatePermission, generateToken } from '../utils/security.utils';
 import { securityConfig } from '../config/security.config';
+import { getKnexConnection } from '../config/database.config';
+import { GardenSharingService } from '../services/garden-sharing.service';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { AuthSessionRepository } from '../repositories/auth-session.repository';
+import { Garden } from '../models/garden.model';
+import { Schedule } from '../models/schedule.model';
+import { User } from '../models/user.model';
+import { ALL_GARDENS_PERMISSIONS, GARDEN_PERMISSION_ROLES } from '../constants/garden-sharing.constants';
 import winston from 'winston';
 import rateLimit from 'express-rate-limit';
 
@@ -27,11 +38,26 @@ const permissionCache = new Map<string, {
 // Cache TTL in milliseconds (5 minutes)
 const PERMISSION_CACHE_TTL = 5 * 60 * 1000;
 
-// Rate limiter for authentication
+// Garden access is looked up on every request, so sharing changes apply immediately
+const gardenSharing = new GardenSharingService(new GardenRepository(Garden), new UserRepository(User));
+
+// Routes acting on one schedule or plant are checked against the garden it belongs to
+const schedules = new ScheduleRepository(Schedule);
+const plants = new PlantRepository(authLogger);
+
+// Sessions are checked against the revocation store on every request, so signing a device
+// out in one process applies to all of them
+const authSessions = new AuthSessionRepository(getKnexConnection());
+
+// Request methods that only read, checked with read permissions by authorizeGardenAccess
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Rate limiter for authentication; requests authenticated earlier in the chain were counted then
 const authRateLimiter = rateLimit({
   windowMs: securityConfig.authorization.rateLimit.windowMs,
   max: securityConfig.authorization.rateLimit.maxRequests,
-  message: 'Too many authentication attempts, please try again later'
+  message: 'Too many authentication attempts, please try again later',
+  skip: (req: Request) => !!req.user
 });
 
 // Rate limiter for authorization
@@ -41,13 +67,24 @@ const authzRateLimiter = rateLimit({
   message: 'Too many authorization attempts, please try again later'
 });
 
+/**
+ * Rate limiter for the routes that sign users in, such as login and password resets
+ */
+export const limitAuthenticationAttempts = authRateLimiter;
+
 /**
  * Enhanced middleware to authenticate JWT tokens with device fingerprint validation
  * and refresh token rotation
  */
-export const authenticateToken = authRateLimiter(
+export const authenticateToken = rateLimited(authRateLimiter,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
+      // Already authenticated earlier in the middleware chain
+      if (req.user) {
+        next();
+        return;
+      }
+
       // Extract token and device fingerprint
       const authHeader = req.headers.authorization;
       const deviceFingerprint = req.headers['x-device-fingerprint'] as string;
@@ -69,6 +106,13 @@ export const authenticateToken = authRateLimiter(
       // Verify token with device fingerprint
       const decoded = await verifyToken(token, deviceFingerprint);
 
+      // Reject tokens of sessions signed out since they were issued
+      if (await authSessions.isSessionRevoked(decoded.jti!)) {
+        authLogger.warn({ message: 'Authentication failed: Session revoked', sessionId: decoded.jti });
+        res.status(401).json({ error: 'Session revoked' });
+        return;
+      }
+
       // Check for token expiration and rotation
       const tokenExp = decoded.exp! * 1000; // Convert to milliseconds
       const now = Date.now();
@@ -78,7 +122,7 @@ export const authenticateToken = authRateLimiter(
       req.user = {
         id: decoded.sub!,
         role: decoded.role as keyof typeof securityConfig.authorization.roles,
-        sessionId: decoded.jti
+        sessionId: decoded.jti!
       };
 
       // Check for token rotation if enabled
@@ -109,9 +153,11 @@ export const authenticateToken = authRateLimiter(
 
 /**
  * Enhanced middleware to check user permissions with role hierarchy and caching
+ * Garden-scoped permissions on a route acting on one garden also require the user's role
+ * in that garden to grant them, unless their role covers all gardens
  */
 export const authorizePermission = (requiredPermissions: string[]) => {
-  return authzRateLimiter(
+  return rateLimited(authzRateLimiter,
     async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       try {
         const { user } = req;
@@ -123,23 +169,12 @@ export const authorizePermission = (requiredPermissions: string[]) => {
         // Check permission cache
         const cacheKey = `${user.id}:${user.role}:${requiredPermissions.join(',')}`;
         const cachedPermissions = permissionCache.get(cacheKey);
-
-        if (cachedPermissions && 
-            Date.now() - cachedPermissions.timestamp < PERMISSION_CACHE_TTL) {
-          const hasPermissions = requiredPermissions.every(
-            permission => cachedPermissions.permissions.has(permission)
-          );
-
-          if (hasPermissions) {
-            next();
-            return;
-          }
-        }
+        const isCached = !!cachedPermissions &&
+          Date.now() - cachedPermissions.timestamp < PERMISSION_CACHE_TTL &&
+          requiredPermissions.every(permission => cachedPermissions.permissions.has(permission));
 
         // Validate permissions
-        const hasPermissions = await validatePermission(user.role, requiredPermissions);
-
-        if (!hasPermissions) {
+        if (!isCached && !await validatePermission(user.role, requiredPermissions)) {
           authLogger.warn({
             message: 'Authorization failed: Insufficient permissions',
             userId: user.id,
@@ -154,10 +189,28 @@ export const authorizePermission = (requiredPermissions: string[]) => {
         }
 
         // Update permission cache
-        permissionCache.set(cacheKey, {
-          permissions: new Set(requiredPermissions),
-          timestamp: Date.now()
-        });
+        if (!isCached) {
+          permissionCache.set(cacheKey, {
+            permissions: new Set(requiredPermissions),
+            timestamp: Date.now()
+          });
+        }
+
+        // Check the user's role in the garden the route acts on
+        const gardenId = await findRequestGardenId(req);
+        if (gardenId && !await hasGardenPermissions(gardenId, user, requiredPermissions)) {
+          authLogger.warn({
+            message: 'Authorization failed: Garden not shared with user',
+            userId: user.id,
+            gardenId,
+            requiredPermissions
+          });
+
+          res.status(403).json({
+            error: 'Insufficient permissions for this garden'
+          });
+          return;
+        }
 
         authLogger.info({
           message: 'Authorization successful',
@@ -182,15 +235,99 @@ export const authorizePermission = (requiredPermissions: string[]) => {
 };
 
 /**
- * Helper function to generate a new token during rotation
+ * Middleware limiting the routes of one garden to its owner and the users it is shared
+ * with: requests that only read need read:own_garden, all others write:own_garden
+ */
+export const authorizeGardenAccess = () => {
+  const authorizeRead = authorizePermission(['read:own_garden']);
+  const authorizeWrite = authorizePermission(['write:own_garden']);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const authorize = READ_METHODS.includes(req.method) ? authorizeRead : authorizeWrite;
+    authorize(req, res, next);
+  };
+};
+
+/**
+ * Middleware limiting changes to the plant catalog, which every garden shares, to roles that
+ * manage the system; reading the catalog is open to every signed-in user
+ */
+export const authorizeCatalogChanges = () => {
+  const authorizeChange = authorizePermission(['manage:system']);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (READ_METHODS.includes(req.method)) {
+      next();
+      return;
+    }
+    authorizeChange(req, res, next);
+  };
+};
+
+/**
+ * Helper function running a middleware once a rate limiter lets the request through
+ */
+function rateLimited(limiter: RequestHandler, handler: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    limiter(req, res, (error?: unknown) => error ? next(error) : handler(req, res, next));
+  };
+}
+
+/**
+ * Helper function to find the garden a request acts on: the gardenId or id route parameter,
+ * the garden of the schedule or plant route parameter, or else the gardenId of the body
+ */
+async function findRequestGardenId(req: Request): Promise<string | undefined> {
+  const { gardenId, id, scheduleId, plantId } = req.params;
+  if (gardenId ?? id) {
+    return gardenId ?? id;
+  }
+  if (scheduleId) {
+    return schedules.getScheduleGardenId(scheduleId);
+  }
+  if (plantId) {
+    return plants.getPlantGardenId(plantId);
+  }
+  return typeof req.body?.gardenId === 'string' ? req.body.gardenId : undefined;
+}
+
+/**
+ * Helper function to check the garden-scoped permissions of a user in one garden
+ * Roles with the matching permission on all gardens pass without a lookup
+ */
+async function hasGardenPermissions(
+  gardenId: string,
+  user: { id: string; role: keyof typeof securityConfig.authorization.roles },
+  requiredPermissions: string[]
+): Promise<boolean> {
+  const rolePermissions: readonly string[] = securityConfig.authorization.roles[user.role]?.permissions ?? [];
+  const gardenPermissions = requiredPermissions.filter(permission =>
+    GARDEN_PERMISSION_ROLES[permission] && !rolePermissions.includes(ALL_GARDENS_PERMISSIONS[permission])
+  );
+
+  for (const permission of gardenPermissions) {
+    if (!await gardenSharing.hasGardenPermission(gardenId, user.id, permission)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Helper function to generate a new access token of the same session during rotation
+ * The refresh token signed with it is discarded; the session keeps the one it has
  */
 async function generateNewToken(
   user: { id: string; role: keyof typeof securityConfig.authorization.roles; sessionId: string },
   deviceFingerprint: string
 ): Promise<string> {
-  // Implementation would call the token generation utility
-  // This is a placeholder for the actual implementation
-  return 'new.token.here';
+  const { accessToken } = generateToken({
+    id: user.id,
+    role: user.role,
+    deviceFingerprint,
+    sessionId: user.sessionId
+  });
+  return accessToken;
 }
 
 // Extend Express Request type to include user property
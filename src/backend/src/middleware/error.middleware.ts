@@ -80,7 +80,9 @@ const formatErrorResponse = (error: any, req: Request) => {
       requestId: req.id,
       timestamp: new Date().toISOString(),
       path: req.path,
-      method: req.method
+      method: req.method,
+      // Quota errors tell the client which limit was reached in every environment
+      ...(errorCode === ERROR_CODES.QUOTA_EXCEEDED && { quota: error.details })
     },
     retryable: statusCode >= 500,
     environment: process.env.NODE_ENV,
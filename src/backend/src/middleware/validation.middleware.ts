@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express'; // @version 4.18.2
 import { ValidationError } from 'class-validator'; // @version 0.14.0
 import { validateGardenInput } from '../validators/garden.validator';
 import { validatePlant } from '../validators/plant.validator';
+import { IPlantCatalogLookup } from '../interfaces/plant.interface';
 import { validateSchedule } from '../validators/schedule.validator';
 import { ERROR_MESSAGES } from '../constants/error.constants';
 
@@ -47,10 +48,11 @@ export const validateGardenRequest = async (
 };
 
 /**
- * Middleware to validate plant-related requests
- * Implements plant data integrity validation
+ * Creates middleware to validate plant-related requests
+ * Implements plant data integrity validation against the plant catalog
+ * @param plantCatalog Plant catalog used for plant trait lookups
  */
-export const validatePlantRequest = async (
+export const validatePlantRequest = (plantCatalog: IPlantCatalogLookup) => async (
     req: Request,
     res: Response,
     next: NextFunction
@@ -68,7 +70,7 @@ export const validatePlantRequest = async (
             ? req.body.adjacentPlants 
             : [];
 
-        await validatePlant(plantData, adjacentPlants);
+        await validatePlant(plantData, plantCatalog, adjacentPlants);
 
         next();
     } catch (error) {
@@ -7,31 +7,94 @@
  * and related functional requirements.
  */
 
-import { Schema, model, Document } from 'mongoose'; // @version 6.0.0
-import { IGarden, IGardenZone } from '../interfaces/garden.interface';
-import { IPlant } from '../interfaces/plant.interface';
+import { Schema, model, HydratedDocument } from 'mongoose'; // @version 6.0.0
+import {
+    IGarden,
+    IGardenZone,
+    IZonePosition,
+    IPoint,
+    IGardenObstacle,
+    IGardenClimate,
+    IZonePlantingRecord,
+    IRemovedZonePlantingRecord,
+    IGardenMember,
+    IGardenInvitation,
+    IGardenTaskRotation
+} from '../interfaces/garden.interface';
+import { TaskType } from '../interfaces/schedule.interface';
+import { IPlant, IPlantPosition } from '../interfaces/plant.interface';
 import { 
     GARDEN_AREA_LIMITS,
     SUNLIGHT_CONDITIONS,
     MIN_ZONE_SIZE,
+    OBSTACLE_TYPES,
     SPACE_UTILIZATION_TARGET
 } from '../constants/garden.constants';
+import { HARDINESS_ZONE_PATTERN, FROST_DATE_PATTERN } from '../constants/climate.constants';
+import { SOIL_TYPES } from '../constants/water-balance.constants';
+import { CROP_ROTATION_DEFAULTS } from '../constants/plant.constants';
+import { GARDEN_ROLES } from '../constants/garden-sharing.constants';
+import { TASK_ASSIGNMENT_LIMITS } from '../constants/task-assignment.constants';
+import { calculatePlantableArea } from '../utils/garden-math.utils';
+import { hasIrregularLayout } from '../validators/garden.validator';
 
 /**
- * Extended interface for Garden document with Mongoose features
+ * Garden document with Mongoose features
  */
-interface IGardenDocument extends IGarden, Document {}
+type IGardenDocument = HydratedDocument<IGarden>;
+
+/**
+ * Schema for a plant's placement within its zone
+ */
+const PlantPositionSchema = new Schema<IPlantPosition>({
+    x: { type: Number, required: true, min: 0 },
+    y: { type: Number, required: true, min: 0 },
+    radius: { type: Number, required: true, min: 0 }
+}, { _id: false });
 
 /**
  * Schema for plants within garden zones
  */
 const PlantSchema = new Schema<IPlant>({
     id: { type: String, required: true },
+    // Type and planted date are kept so replaced plants can be recorded in the zone's planting history
+    type: { type: String },
+    plantedDate: { type: Date },
     spacing: { 
         type: Number, 
         required: true,
         min: [1, 'Plant spacing must be at least 1 inch']
-    }
+    },
+    position: { type: PlantPositionSchema, required: false }
+}, { _id: false });
+
+/**
+ * Schema for a zone's rectangle within the garden
+ */
+const ZonePositionSchema = new Schema<IZonePosition>({
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+    width: { type: Number, min: 0 },
+    height: { type: Number, min: 0 }
+}, { _id: false });
+
+/**
+ * Schema for a crop grown in a zone during an earlier season
+ */
+const ZonePlantingRecordSchema = new Schema<IZonePlantingRecord>({
+    plantType: { type: String, required: true },
+    season: { type: Number, required: true },
+    plantedDate: { type: Date }
+}, { _id: false });
+
+/**
+ * Schema for a crop grown in a zone since removed from the layout
+ */
+const RemovedZonePlantingRecordSchema = new Schema<IRemovedZonePlantingRecord>({
+    zoneId: { type: String, required: true },
+    plantType: { type: String, required: true },
+    season: { type: Number, required: true },
+    plantedDate: { type: Date }
 }, { _id: false });
 
 /**
@@ -52,13 +115,130 @@ const GardenZoneSchema = new Schema<IGardenZone>({
             message: 'Invalid sunlight condition'
         }
     },
-    plants: [PlantSchema]
+    plants: [PlantSchema],
+    position: { type: ZonePositionSchema, required: false },
+    plantingHistory: { type: [ZonePlantingRecordSchema], default: [] },
+    soilType: {
+        type: String,
+        required: false,
+        enum: {
+            values: Object.values(SOIL_TYPES),
+            message: 'Invalid soil type'
+        }
+    }
+}, { _id: false });
+
+/**
+ * Schema for a vertex of a garden boundary or obstacle footprint
+ */
+const PointSchema = new Schema<IPoint>({
+    x: { type: Number, required: true, min: 0 },
+    y: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+/**
+ * Schema for obstacles occupying space inside the garden
+ */
+const GardenObstacleSchema = new Schema<IGardenObstacle>({
+    id: { type: String, required: true },
+    type: {
+        type: String,
+        required: true,
+        enum: {
+            values: Object.values(OBSTACLE_TYPES),
+            message: 'Invalid obstacle type'
+        }
+    },
+    boundary: {
+        type: [PointSchema],
+        validate: {
+            validator: (points: IPoint[]) => points.length >= 3,
+            message: 'Obstacle boundary must have at least three points'
+        }
+    },
+    label: { type: String },
+    height: { type: Number, min: 0 }
+}, { _id: false });
+
+/**
+ * Schema for the hardiness zone and frost dates entered by the gardener
+ */
+const GardenClimateSchema = new Schema<IGardenClimate>({
+    hardinessZone: { type: String, match: HARDINESS_ZONE_PATTERN },
+    lastSpringFrost: { type: String, match: FROST_DATE_PATTERN },
+    firstFallFrost: { type: String, match: FROST_DATE_PATTERN }
+}, { _id: false });
+
+/**
+ * Schema for a user the garden is shared with
+ */
+const GardenMemberSchema = new Schema<IGardenMember>({
+    userId: { type: String, required: true },
+    role: {
+        type: String,
+        required: true,
+        enum: {
+            values: [GARDEN_ROLES.COLLABORATOR, GARDEN_ROLES.VIEWER],
+            message: 'Invalid garden member role'
+        }
+    },
+    addedBy: { type: String, required: true },
+    addedAt: { type: Date, required: true }
+}, { _id: false });
+
+/**
+ * Schema for an invitation code handed out to share the garden
+ */
+const GardenInvitationSchema = new Schema<IGardenInvitation>({
+    code: { type: String, required: true },
+    role: {
+        type: String,
+        required: true,
+        enum: {
+            values: [GARDEN_ROLES.COLLABORATOR, GARDEN_ROLES.VIEWER],
+            message: 'Invalid garden member role'
+        }
+    },
+    createdBy: { type: String, required: true },
+    createdAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+    acceptedBy: { type: String },
+    acceptedAt: { type: Date }
+}, { _id: false });
+
+/**
+ * Schema for a duty that passes between the garden's users in turn
+ */
+const GardenTaskRotationSchema = new Schema<IGardenTaskRotation>({
+    taskType: {
+        type: String,
+        required: true,
+        enum: {
+            values: Object.values(TaskType),
+            message: 'Invalid task type'
+        }
+    },
+    userIds: {
+        type: [String],
+        validate: {
+            validator: (userIds: string[]) => userIds.length > 0 &&
+                userIds.length <= TASK_ASSIGNMENT_LIMITS.MAX_ROTATION_USERS,
+            message: `A rotation needs between 1 and ${TASK_ASSIGNMENT_LIMITS.MAX_ROTATION_USERS} users`
+        }
+    },
+    periodDays: {
+        type: Number,
+        required: true,
+        min: TASK_ASSIGNMENT_LIMITS.MIN_PERIOD_DAYS,
+        max: TASK_ASSIGNMENT_LIMITS.MAX_PERIOD_DAYS
+    },
+    startsOn: { type: Date, required: true }
 }, { _id: false });
 
 /**
  * Main garden schema with validation and optimization support
  */
-const GardenSchema = new Schema<IGardenDocument>({
+const GardenSchema = new Schema<IGarden>({
     id: {
         type: String,
         required: true,
@@ -94,25 +274,78 @@ const GardenSchema = new Schema<IGardenDocument>({
                 message: 'Garden must have at least one zone'
             },
             {
-                validator: function(zones: IGardenZone[]) {
+                validator: function(this: IGardenDocument, zones: IGardenZone[]) {
                     const totalZoneArea = zones.reduce((sum, zone) => sum + zone.area, 0);
-                    return Math.abs(totalZoneArea - (this as IGardenDocument).area) < 0.01;
+
+                    // Irregular gardens only need their zones to fit in the plantable area
+                    return hasIrregularLayout(this)
+                        ? totalZoneArea - calculatePlantableArea(this) < 0.01
+                        : Math.abs(totalZoneArea - this.area) < 0.01;
                 },
-                message: 'Total zone area must equal garden area'
+                message: 'Total zone area must equal garden area, or fit the plantable area of irregular gardens'
             },
             {
-                validator: function(zones: IGardenZone[]) {
+                validator: function(this: IGardenDocument, zones: IGardenZone[]) {
                     const spaceUtilization = zones.reduce((sum, zone) => {
                         const zoneUtilization = zone.plants.reduce((plantSum, plant) => 
                             plantSum + (Math.PI * Math.pow(plant.spacing / 24, 2)), 0);
                         return sum + zoneUtilization;
-                    }, 0) / this.area * 100;
+                    }, 0) / calculatePlantableArea(this) * 100;
                     
                     return spaceUtilization >= SPACE_UTILIZATION_TARGET;
                 },
                 message: `Space utilization must be at least ${SPACE_UTILIZATION_TARGET}%`
             }
         ]
+    },
+    boundary: {
+        type: [PointSchema],
+        default: undefined,
+        validate: {
+            validator: (points: IPoint[]) => !points || points.length >= 3,
+            message: 'Garden boundary must have at least three points'
+        }
+    },
+    obstacles: {
+        type: [GardenObstacleSchema],
+        default: []
+    },
+    latitude: { type: Number, min: -90, max: 90 },
+    orientation: { type: Number, min: 0, max: 360 },
+    longitude: { type: Number, min: -180, max: 180 },
+    postalCode: { type: String, trim: true },
+    climate: { type: GardenClimateSchema, required: false },
+    rotationSeasons: {
+        type: Number,
+        min: 1,
+        max: CROP_ROTATION_DEFAULTS.MAX_ROTATION_SEASONS,
+        validate: {
+            validator: Number.isInteger,
+            message: 'Rotation seasons must be a whole number'
+        }
+    },
+    ownerId: { type: String },
+    members: {
+        type: [GardenMemberSchema],
+        default: []
+    },
+    invitations: {
+        type: [GardenInvitationSchema],
+        default: []
+    },
+    siteId: { type: String },
+    plotNumber: {
+        type: String,
+        trim: true,
+        maxlength: [20, 'Plot number cannot exceed 20 characters']
+    },
+    taskRotations: {
+        type: [GardenTaskRotationSchema],
+        default: []
+    },
+    removedZoneHistory: {
+        type: [RemovedZonePlantingRecordSchema],
+        default: []
     }
 }, {
     timestamps: true,
@@ -124,6 +357,13 @@ GardenSchema.index({ id: 1, 'zones.sunlightCondition': 1 });
 GardenSchema.index({ 'zones.plants.id': 1 });
 GardenSchema.index({ createdAt: 1 });
 GardenSchema.index({ updatedAt: 1 });
+GardenSchema.index({ ownerId: 1 });
+GardenSchema.index({ 'members.userId': 1 });
+GardenSchema.index({ 'invitations.code': 1 }, { unique: true, sparse: true });
+GardenSchema.index(
+    { siteId: 1, plotNumber: 1 },
+    { unique: true, partialFilterExpression: { siteId: { $exists: true } } }
+);
 
 // Virtual for calculating space utilization
 GardenSchema.virtual('spaceUtilization').get(function(this: IGardenDocument) {
@@ -131,7 +371,7 @@ GardenSchema.virtual('spaceUtilization').get(function(this: IGardenDocument) {
         const zoneUtilization = zone.plants.reduce((plantSum, plant) => 
             plantSum + (Math.PI * Math.pow(plant.spacing / 24, 2)), 0);
         return sum + zoneUtilization;
-    }, 0) / this.area * 100;
+    }, 0) / calculatePlantableArea(this) * 100;
 });
 
 // Pre-save middleware for validation
@@ -147,4 +387,4 @@ GardenSchema.pre('save', function(next) {
 });
 
 // Create and export the Garden model
-export const Garden = model<IGardenDocument>('Garden', GardenSchema);
\ No newline at end of file
+export const Garden = model<IGarden>('Garden', GardenSchema);
\ No newline at end of file
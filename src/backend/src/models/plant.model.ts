@@ -11,14 +11,13 @@ import {
 } from '../interfaces/plant.interface';
 import {
     PLANT_TYPES,
+    PLANT_TYPE_KEY_PATTERN,
     GROWTH_STAGES,
     SUNLIGHT_REQUIREMENTS,
-    DEFAULT_PLANT_SPACING,
-    DAYS_TO_MATURITY,
     WATERING_FREQUENCY_DAYS,
-    FERTILIZING_FREQUENCY_DAYS,
-    COMPANION_PLANTS
+    FERTILIZING_FREQUENCY_DAYS
 } from '../constants/plant.constants';
+import { PLANT_HEALTH_STATUS } from '../constants/plant-health.constants';
 
 /**
  * Environmental factors affecting plant growth and maintenance
@@ -64,7 +63,7 @@ const PlantSchema = new Schema<IPlant>({
     },
     type: {
         type: String,
-        enum: Object.values(PLANT_TYPES),
+        match: PLANT_TYPE_KEY_PATTERN,
         required: true
     },
     growthStage: {
@@ -106,7 +105,7 @@ const PlantSchema = new Schema<IPlant>({
     },
     companionPlants: [{
         type: String,
-        enum: Object.values(PLANT_TYPES)
+        match: PLANT_TYPE_KEY_PATTERN
     }],
     waterRequirementMl: {
         type: Number,
@@ -118,6 +117,39 @@ const PlantSchema = new Schema<IPlant>({
         required: true,
         min: 0
     },
+    quantity: {
+        type: Number,
+        min: [1, 'Quantity must be at least 1'],
+        default: 1
+    },
+    // Care frequencies are copied from the plant catalog entry at planting time;
+    // records created before the catalog fall back to the built-in baselines
+    wateringFrequencyDays: {
+        type: Number,
+        min: 1,
+        default: function(this: IPlant) {
+            return WATERING_FREQUENCY_DAYS[this.type as PLANT_TYPES];
+        }
+    },
+    fertilizingFrequencyDays: {
+        type: Number,
+        min: 1,
+        default: function(this: IPlant) {
+            return FERTILIZING_FREQUENCY_DAYS[this.type as PLANT_TYPES];
+        }
+    },
+    gardenId: {
+        type: String,
+        index: true
+    },
+    plantingWarnings: {
+        type: [String],
+        default: undefined
+    },
+    healthStatus: {
+        type: String,
+        enum: Object.values(PLANT_HEALTH_STATUS)
+    },
     soilConditions: {
         moisture: Number,
         pH: Number,
@@ -138,7 +170,7 @@ const PlantSchema = new Schema<IPlant>({
 });
 
 /**
- * Calculates the next required watering date based on plant type and conditions
+ * Calculates the next required watering date based on catalog frequency and conditions
  * @param environmentalFactors Current environmental conditions
  * @param soilConditions Current soil conditions
  * @returns Date Next optimal watering date
@@ -147,7 +179,7 @@ PlantSchema.methods.calculateNextWateringDate = function(
     environmentalFactors: EnvironmentalFactors,
     soilConditions: SoilConditions
 ): Date {
-    const baseFrequency = WATERING_FREQUENCY_DAYS[this.type];
+    const baseFrequency = this.wateringFrequencyDays;
     let adjustedDays = baseFrequency;
 
     // Adjust for temperature
@@ -185,7 +217,7 @@ PlantSchema.methods.calculateNextFertilizingDate = function(
     soilConditions: SoilConditions,
     currentStage: GROWTH_STAGES
 ): Date {
-    const baseFrequency = FERTILIZING_FREQUENCY_DAYS[this.type];
+    const baseFrequency = this.fertilizingFrequencyDays;
     let adjustedDays = baseFrequency;
 
     // Adjust based on growth stage
@@ -234,7 +266,7 @@ PlantSchema.methods.updateGrowthStage = function(
         (Date.now() - this.plantedDate.getTime()) / (1000 * 60 * 60 * 24)
     );
     
-    const maturityProgress = daysSincePlanting / DAYS_TO_MATURITY[this.type];
+    const maturityProgress = daysSincePlanting / this.daysToMaturity;
     let newStage = this.growthStage;
 
     // Determine base growth stage from maturity progress
@@ -32,9 +32,21 @@ const scheduleSchema = new Schema<ISchedule, ScheduleModel, ScheduleMethods>({
     },
     plantId: {
         type: String,
-        required: true,
+        // Site-wide tasks are shared across a community site rather than tied to a plant
+        required: function (this: ISchedule) { return !this.siteId; },
         index: true // Optimized plant-specific queries
     },
+    siteId: {
+        type: String,
+        index: true
+    },
+    assigneeId: {
+        type: String,
+        index: true
+    },
+    assignedAt: {
+        type: Date
+    },
     taskType: {
         type: String,
         enum: Object.values(TaskType),
@@ -63,6 +75,10 @@ const scheduleSchema = new Schema<ISchedule, ScheduleModel, ScheduleMethods>({
         type: Date,
         default: null
     },
+    completedBy: {
+        type: String,
+        index: true
+    },
     priority: {
         type: Number,
         enum: Object.values(TaskPriority),
@@ -103,6 +119,10 @@ const scheduleSchema = new Schema<ISchedule, ScheduleModel, ScheduleMethods>({
     weather_dependent: {
         type: Boolean,
         default: false
+    },
+    task_metadata: {
+        type: Schema.Types.Mixed,
+        default: {}
     }
 }, {
     timestamps: true,
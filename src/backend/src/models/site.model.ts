@@ -0,0 +1,49 @@
+/**
+ * Site Model
+ * @packageVersion 5.0
+ *
+ * Implements the MongoDB schema and model for community sites, whose plots are gardens
+ * referring back to the site.
+ */
+
+import { Schema, model } from 'mongoose'; // @version 6.0.0
+import { ISite } from '../interfaces/site.interface';
+
+/**
+ * Schema for community sites
+ */
+const SiteSchema = new Schema<ISite>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    address: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Address cannot exceed 200 characters']
+    },
+    adminIds: {
+        type: [String],
+        required: true,
+        validate: {
+            validator: (adminIds: string[]) => adminIds.length > 0,
+            message: 'Site must have at least one admin'
+        }
+    }
+}, {
+    timestamps: true,
+    versionKey: false
+});
+
+SiteSchema.index({ adminIds: 1 });
+
+// Create and export the Site model
+export const Site = model<ISite>('Site', SiteSchema);
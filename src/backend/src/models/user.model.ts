@@ -0,0 +1,69 @@
+/**
+ * User Model
+ * @packageVersion 5.0
+ *
+ * Implements the MongoDB schema and model for the users who own gardens and share them
+ * with one another.
+ */
+
+import { Schema, model } from 'mongoose'; // @version 6.0.0
+import { IUser } from '../interfaces/user.interface';
+import { securityConfig } from '../config/security.config';
+
+/**
+ * Schema for users, keyed by the identifier their tokens carry as subject
+ */
+const UserSchema = new Schema<IUser>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    email: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        trim: true,
+        match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Invalid email address']
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: [100, 'Name cannot exceed 100 characters']
+    },
+    role: {
+        type: String,
+        required: true,
+        enum: {
+            values: Object.keys(securityConfig.authorization.roles),
+            message: 'Invalid user role'
+        },
+        default: 'user'
+    },
+    passwordHash: {
+        type: String,
+        select: false
+    },
+    passwordChangedAt: {
+        type: Date
+    },
+    deviceTokens: {
+        type: [String],
+        select: false
+    },
+    // Written by the transactions checking the user's quotas, so concurrent ones conflict
+    quotaLock: {
+        type: Number,
+        default: 0,
+        select: false
+    }
+}, {
+    timestamps: true,
+    versionKey: false
+});
+
+// Create and export the User model
+export const User = model<IUser>('User', UserSchema);
@@ -0,0 +1,222 @@
+/**
+ * Repository class for sign-in sessions and password reset tokens
+ * Reads and writes the auth_refresh_tokens and password_reset_tokens tables; tokens are
+ * stored as hashes and looked up by the hash of the token presented
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IAuthSession, IRefreshTokenRecord } from '../interfaces/auth.interface';
+import { SessionRevocationReason } from '../constants/auth.constants';
+
+/**
+ * Timestamp as the database driver returns it
+ */
+type TimestampColumn = Date | string | number;
+
+/**
+ * Row of the auth_refresh_tokens table
+ */
+interface RefreshTokenRow {
+    id: string;
+    userId: string;
+    familyId: string;
+    tokenHash: string;
+    fingerprintHash: string;
+    expiresAt: TimestampColumn;
+    usedAt: TimestampColumn | null;
+    revokedAt: TimestampColumn | null;
+    revokedReason: SessionRevocationReason | null;
+    createdAt: Date;
+}
+
+/**
+ * Refresh tokens of one session, aggregated by the database
+ */
+interface SessionRow {
+    familyId: string;
+    signedInAt: TimestampColumn;
+    lastRefreshedAt: TimestampColumn;
+    expiresAt: TimestampColumn;
+}
+
+@Injectable()
+export class AuthSessionRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a refresh token
+     * @param token Owner, session, token and fingerprint hashes and expiry of the token
+     * @returns Promise<IRefreshTokenRecord> Stored token
+     */
+    async createRefreshToken(
+        token: Pick<IRefreshTokenRecord, 'userId' | 'familyId' | 'tokenHash' | 'fingerprintHash' | 'expiresAt'>
+    ): Promise<IRefreshTokenRecord> {
+        const [row] = await this.knex('auth_refresh_tokens')
+            .insert({ id: uuidv4(), ...token })
+            .returning('*');
+
+        return this.toRefreshToken(row);
+    }
+
+    /**
+     * Retrieves a refresh token by its hash, whatever its state
+     * @param tokenHash Hash of the token presented
+     * @returns Promise<IRefreshTokenRecord | null> Token, or null when it was never issued
+     */
+    async findRefreshToken(tokenHash: string): Promise<IRefreshTokenRecord | null> {
+        const row = await this.knex('auth_refresh_tokens')
+            .where({ tokenHash })
+            .first();
+
+        return row ? this.toRefreshToken(row) : null;
+    }
+
+    /**
+     * Marks a refresh token as exchanged, unless it was exchanged or revoked already
+     * @param id Token identifier
+     * @param usedAt Time of the exchange
+     * @returns Promise<boolean> Whether this call was the one to exchange it
+     */
+    async markRefreshTokenUsed(id: string, usedAt: Date): Promise<boolean> {
+        const updated = await this.knex('auth_refresh_tokens')
+            .where({ id })
+            .whereNull('usedAt')
+            .whereNull('revokedAt')
+            .update({ usedAt });
+
+        return updated > 0;
+    }
+
+    /**
+     * Revokes every token of a session
+     * @param familyId Session identifier
+     * @param reason Why the session is revoked
+     * @param revokedAt Time of the revocation
+     * @returns Promise<number> Number of tokens revoked
+     */
+    async revokeFamily(familyId: string, reason: SessionRevocationReason, revokedAt: Date): Promise<number> {
+        return this.knex('auth_refresh_tokens')
+            .where({ familyId })
+            .whereNull('revokedAt')
+            .update({ revokedAt, revokedReason: reason });
+    }
+
+    /**
+     * Revokes every session of a user
+     * @param userId User identifier
+     * @param reason Why the sessions are revoked
+     * @param revokedAt Time of the revocation
+     * @returns Promise<string[]> Sessions revoked
+     */
+    async revokeUserSessions(userId: string, reason: SessionRevocationReason, revokedAt: Date): Promise<string[]> {
+        // Drivers return the column either as is or wrapped in a row
+        const rows: Array<Pick<RefreshTokenRow, 'familyId'> | string> = await this.knex('auth_refresh_tokens')
+            .where({ userId })
+            .whereNull('revokedAt')
+            .update({ revokedAt, revokedReason: reason })
+            .returning('familyId');
+
+        return [...new Set(rows.map(row => typeof row === 'string' ? row : row.familyId))];
+    }
+
+    /**
+     * Checks whether a session was revoked
+     * @param familyId Session identifier
+     * @returns Promise<boolean> Whether any token of the session is revoked
+     */
+    async isSessionRevoked(familyId: string): Promise<boolean> {
+        const row = await this.knex('auth_refresh_tokens')
+            .where({ familyId })
+            .whereNotNull('revokedAt')
+            .first('id');
+
+        return !!row;
+    }
+
+    /**
+     * Lists the sessions of a user that can still refresh their tokens
+     * @param userId User identifier
+     * @param now Reference time for expiry
+     * @returns Promise<IAuthSession[]> Sessions, most recently signed in first
+     */
+    async listActiveSessions(userId: string, now: Date): Promise<IAuthSession[]> {
+        const rows = await this.knex('auth_refresh_tokens')
+            .where({ userId })
+            .groupBy('familyId')
+            .havingRaw('COUNT("revokedAt") = 0')
+            .havingRaw('MAX("expiresAt") > ?', [now])
+            .select('familyId')
+            .min({ signedInAt: 'createdAt' })
+            .max({ lastRefreshedAt: 'createdAt', expiresAt: 'expiresAt' })
+            .orderBy('signedInAt', 'desc');
+
+        return (rows as SessionRow[]).map(row => ({
+            sessionId: row.familyId,
+            signedInAt: new Date(row.signedInAt),
+            lastRefreshedAt: new Date(row.lastRefreshedAt),
+            expiresAt: new Date(row.expiresAt)
+        }));
+    }
+
+    /**
+     * Stores a password reset token, invalidating those issued to the user before
+     * @param userId User identifier
+     * @param tokenHash Hash of the token sent to the user
+     * @param expiresAt When the token stops working
+     */
+    async createResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+        await this.knex.transaction(async (trx) => {
+            await trx('password_reset_tokens')
+                .where({ userId })
+                .whereNull('usedAt')
+                .update({ usedAt: trx.fn.now() });
+
+            await trx('password_reset_tokens')
+                .insert({ id: uuidv4(), userId, tokenHash, expiresAt });
+        });
+    }
+
+    /**
+     * Uses up a password reset token
+     * @param tokenHash Hash of the token presented
+     * @param now Time of the reset; expired tokens are refused
+     * @returns Promise<string | null> User the token was issued to, or null when it is
+     * unknown, used or expired
+     */
+    async consumeResetToken(tokenHash: string, now: Date): Promise<string | null> {
+        const [row] = await this.knex('password_reset_tokens')
+            .where({ tokenHash })
+            .whereNull('usedAt')
+            .andWhere('expiresAt', '>', now)
+            .update({ usedAt: now })
+            .returning('userId');
+
+        return row ? (row.userId ?? row) : null;
+    }
+
+    /**
+     * Maps a database row to a refresh token
+     * @private
+     */
+    private toRefreshToken(row: RefreshTokenRow): IRefreshTokenRecord {
+        return {
+            id: row.id,
+            userId: row.userId,
+            familyId: row.familyId,
+            tokenHash: row.tokenHash,
+            fingerprintHash: row.fingerprintHash,
+            expiresAt: new Date(row.expiresAt),
+            usedAt: row.usedAt ? new Date(row.usedAt) : null,
+            revokedAt: row.revokedAt ? new Date(row.revokedAt) : null,
+            revokedReason: row.revokedReason ?? null,
+            createdAt: row.createdAt
+        };
+    }
+}
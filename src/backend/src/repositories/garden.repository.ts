@@ -13,7 +13,12 @@ import { Garden } from '../models/garden.model';
 import { 
     IGarden, 
     IGardenZone, 
-    IGardenOptimizationParams 
+    IGardenOptimizationParams,
+    IZonePlantingRecord,
+    IRemovedZonePlantingRecord,
+    IGardenMember,
+    IGardenTaskRotation,
+    IGardenInvitation
 } from '../interfaces/garden.interface';
 import { 
     GARDEN_AREA_LIMITS,
@@ -22,6 +27,7 @@ import {
     isValidGardenArea,
     isSunlightCondition
 } from '../constants/garden.constants';
+import { GARDEN_ROLES, GardenMemberRole } from '../constants/garden-sharing.constants';
 
 /**
  * Repository class handling garden data persistence operations with optimization support
@@ -37,10 +43,11 @@ export class GardenRepository {
     /**
      * Creates a new garden with comprehensive validation and optimization
      * @param gardenData Garden creation data with optimization parameters
+     * @param transaction Transaction to create the garden in; one of its own is used when omitted
      * @returns Promise resolving to created garden document
      * @throws Error if validation fails
      */
-    async createGarden(gardenData: IGarden): Promise<IGarden> {
+    async createGarden(gardenData: IGarden, transaction?: ClientSession): Promise<IGarden> {
         this.logger.debug(`Creating garden with area: ${gardenData.area} sq ft`);
 
         // Validate garden area
@@ -51,32 +58,47 @@ export class GardenRepository {
         // Validate zones
         await this.validateGardenZones(gardenData.zones);
 
-        const session = await this.gardenModel.db.startSession();
+        const session = transaction ?? await this.gardenModel.db.startSession();
         try {
-            await session.withTransaction(async () => {
-                const garden = new this.gardenModel(gardenData);
+            const save = async () => {
+                // Planting history is only recorded by updates, from the plants they remove
+                const garden = new this.gardenModel({
+                    ...gardenData,
+                    zones: gardenData.zones.map(({ plantingHistory, ...zone }) => zone),
+                    removedZoneHistory: []
+                });
                 await garden.save({ session });
                 this.logger.debug(`Garden created successfully with ID: ${garden.id}`);
                 return garden;
-            });
+            };
+            await (transaction ? save() : session.withTransaction(save));
         } catch (error) {
             this.logger.error(`Failed to create garden: ${error.message}`);
             throw error;
         } finally {
-            await session.endSession();
+            if (!transaction) {
+                await session.endSession();
+            }
         }
 
-        return this.gardenModel.findById(gardenData.id).exec();
+        return this.gardenModel.findById(gardenData.id).session(transaction ?? null).exec();
     }
 
     /**
      * Updates existing garden with optimization recalculation
+     * Plants removed from a zone, or with the zone, are appended to its planting history. The owner,
+     * members and invitations are left alone; they change through the sharing operations,
+     * as do the site a plot belongs to through the site operations and the task rotations
+     * through the task assignment operations
      * @param id Garden identifier
-     * @param updateData Partial garden update data
+     * @param gardenUpdate Partial garden update data
      * @returns Promise resolving to updated garden document
      */
-    async updateGarden(id: string, updateData: Partial<IGarden>): Promise<IGarden | null> {
+    async updateGarden(id: string, gardenUpdate: Partial<IGarden>): Promise<IGarden | null> {
         this.logger.debug(`Updating garden ${id}`);
+        const {
+            ownerId, members, invitations, siteId, plotNumber, taskRotations, removedZoneHistory, ...updateData
+        } = gardenUpdate;
 
         const session = await this.gardenModel.db.startSession();
         try {
@@ -87,12 +109,20 @@ export class GardenRepository {
                 }
 
                 // Validate zones if included in update
+                let history: Pick<IGarden, 'zones' | 'removedZoneHistory'> | undefined;
                 if (updateData.zones) {
                     await this.validateGardenZones(updateData.zones);
+
+                    const existing = await this.gardenModel.findById(id).session(session).exec();
+                    history = this.recordPlantingHistory(
+                        existing?.zones || [],
+                        existing?.removedZoneHistory || [],
+                        updateData.zones
+                    );
                 }
 
                 const garden = await this.gardenModel
-                    .findByIdAndUpdate(id, updateData, { 
+                    .findByIdAndUpdate(id, { ...updateData, ...history }, { 
                         new: true,
                         runValidators: true,
                         session 
@@ -126,19 +156,250 @@ export class GardenRepository {
         return this.gardenModel.findById(id).exec();
     }
 
+    /**
+     * Retrieves a garden only if a user owns it or it is shared with them
+     * @param id Garden identifier
+     * @param userId User identifier
+     * @returns Promise resolving to garden document, or null when the user has no access
+     */
+    async getGardenForUser(id: string, userId: string): Promise<IGarden | null> {
+        return this.gardenModel.findOne({ _id: id, ...this.accessFilter(userId) }).exec();
+    }
+
+    /**
+     * Lists the gardens a user owns or that are shared with them
+     * @param userId User identifier
+     * @returns Promise resolving to the user's gardens, oldest first
+     */
+    async getGardensForUser(userId: string): Promise<IGarden[]> {
+        return this.gardenModel.find(this.accessFilter(userId)).sort({ createdAt: 1 }).exec();
+    }
+
+    /**
+     * Works out the role a user holds in a garden
+     * @param id Garden identifier
+     * @param userId User identifier
+     * @returns Promise resolving to the user's role, or undefined when the garden is
+     * missing or not shared with the user
+     */
+    async getGardenRole(id: string, userId: string): Promise<GARDEN_ROLES | undefined> {
+        const garden = await this.gardenModel.findById(id).select('ownerId members').lean<IGarden>().exec();
+        if (!garden) {
+            return undefined;
+        }
+        if (garden.ownerId === userId) {
+            return GARDEN_ROLES.OWNER;
+        }
+        return (garden.members || []).find(member => member.userId === userId)?.role;
+    }
+
+    /**
+     * Retrieves the garden an invitation code was handed out for
+     * @param code Invitation code
+     * @returns Promise resolving to garden document, or null for unknown codes
+     */
+    async getGardenByInvitationCode(code: string): Promise<IGarden | null> {
+        return this.gardenModel.findOne({ 'invitations.code': code }).exec();
+    }
+
+    /**
+     * Stores an invitation code handed out to share a garden
+     * @param id Garden identifier
+     * @param invitation Invitation to store
+     * @returns Promise resolving to true when the garden exists
+     */
+    async addInvitation(id: string, invitation: IGardenInvitation): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne({ _id: id }, { $push: { invitations: invitation } })
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Withdraws an invitation code
+     * @param id Garden identifier
+     * @param code Invitation code
+     * @returns Promise resolving to true when the invitation was removed
+     */
+    async removeInvitation(id: string, code: string): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne({ _id: id }, { $pull: { invitations: { code } } })
+            .exec();
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Accepts an invitation code, adding the user to the garden's members in the same update
+     * The invitation must still be open and the user must not already have access, so a
+     * code cannot be accepted twice even by concurrent requests
+     * @param id Garden identifier
+     * @param code Invitation code
+     * @param member Membership of the accepting user
+     * @returns Promise resolving to updated garden document, or null when the code could not be accepted
+     */
+    async acceptInvitation(id: string, code: string, member: IGardenMember): Promise<IGarden | null> {
+        return this.gardenModel.findOneAndUpdate(
+            {
+                _id: id,
+                ownerId: { $ne: member.userId },
+                'members.userId': { $ne: member.userId },
+                invitations: {
+                    $elemMatch: {
+                        code,
+                        acceptedBy: { $exists: false },
+                        expiresAt: { $gt: member.addedAt }
+                    }
+                }
+            },
+            {
+                $set: {
+                    'invitations.$.acceptedBy': member.userId,
+                    'invitations.$.acceptedAt': member.addedAt
+                },
+                $push: { members: member }
+            },
+            { new: true }
+        ).exec();
+    }
+
+    /**
+     * Changes the role of a user the garden is shared with
+     * @param id Garden identifier
+     * @param userId User identifier
+     * @param role New role
+     * @returns Promise resolving to true when the user is a member of the garden
+     */
+    async setMemberRole(id: string, userId: string, role: GardenMemberRole): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne({ _id: id, 'members.userId': userId }, { $set: { 'members.$.role': role } })
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Stops sharing a garden with a user
+     * @param id Garden identifier
+     * @param userId User identifier
+     * @returns Promise resolving to true when the user was a member of the garden
+     */
+    async removeMember(id: string, userId: string): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne({ _id: id }, { $pull: { members: { userId } } })
+            .exec();
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Replaces the duties that pass between a garden's users in turn
+     * @param id Garden identifier
+     * @param rotations Task rotations of the garden
+     * @returns Promise resolving to true when the garden exists
+     */
+    async setTaskRotations(id: string, rotations: IGardenTaskRotation[]): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne({ _id: id }, { $set: { taskRotations: rotations } }, { runValidators: true })
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Lists the plots of a community site
+     * @param siteId Site identifier
+     * @returns Promise resolving to the site's plot gardens, by plot number
+     */
+    async getSitePlots(siteId: string): Promise<IGarden[]> {
+        return this.gardenModel
+            .find({ siteId })
+            .select('siteId plotNumber area ownerId members createdAt')
+            .sort({ plotNumber: 1 })
+            .exec();
+    }
+
+    /**
+     * Allocates a vacant plot to a member, who becomes the owner of the plot's garden
+     * The plot must still be vacant, so a plot cannot be allocated twice even by concurrent requests
+     * @param id Garden identifier of the plot
+     * @param siteId Site the plot belongs to
+     * @param holderId Member the plot is allocated to
+     * @returns Promise resolving to true when the plot was allocated
+     */
+    async allocatePlot(id: string, siteId: string, holderId: string): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne(
+                { _id: id, siteId, ownerId: { $exists: false } },
+                { $set: { ownerId: holderId, members: [], invitations: [] } }
+            )
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Takes a plot back from its holder; the users it was shared with lose access too
+     * @param id Garden identifier of the plot
+     * @param siteId Site the plot belongs to
+     * @returns Promise resolving to true when the plot was allocated
+     */
+    async vacatePlot(id: string, siteId: string): Promise<boolean> {
+        const result = await this.gardenModel
+            .updateOne(
+                { _id: id, siteId, ownerId: { $exists: true } },
+                { $unset: { ownerId: '' }, $set: { members: [], invitations: [] } }
+            )
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Counts the gardens a user owns, leaving out plots allocated to them on community sites
+     * @param ownerId User identifier
+     * @param session Transaction to count in, if any
+     * @returns Promise resolving to the number of gardens
+     */
+    async countOwnedGardens(ownerId: string, session?: ClientSession): Promise<number> {
+        return this.gardenModel
+            .countDocuments({ ownerId, siteId: { $exists: false } })
+            .session(session ?? null)
+            .exec();
+    }
+
+    /**
+     * Lists the identifiers of the gardens a user owns, site plots included
+     * @param ownerId User identifier
+     * @param session Transaction to read in, if any
+     * @returns Promise resolving to garden identifiers
+     */
+    async getOwnedGardenIds(ownerId: string, session?: ClientSession): Promise<string[]> {
+        const ids = await this.gardenModel.distinct('_id', { ownerId }).session(session ?? null).exec();
+        return ids.map(id => String(id));
+    }
+
+    /**
+     * Lists the identifiers of all gardens, for background jobs that visit every garden
+     * @returns Promise resolving to garden identifiers
+     */
+    async getGardenIds(): Promise<string[]> {
+        const ids = await this.gardenModel.distinct('_id').exec();
+        return ids.map(id => String(id));
+    }
+
     /**
      * Deletes garden and associated data
      * @param id Garden identifier
+     * @param ownerId User who must own the garden; any garden is deleted when omitted. Plots
+     * of a community site are handed back to the site rather than deleted by their holder
      * @returns Promise resolving to deletion result
      */
-    async deleteGarden(id: string): Promise<boolean> {
+    async deleteGarden(id: string, ownerId?: string): Promise<boolean> {
         this.logger.debug(`Deleting garden ${id}`);
 
         const session = await this.gardenModel.db.startSession();
         try {
             await session.withTransaction(async () => {
                 const result = await this.gardenModel
-                    .findByIdAndDelete(id, { session })
+                    .findOneAndDelete(
+                        ownerId ? { _id: id, ownerId, siteId: { $exists: false } } : { _id: id },
+                        { session }
+                    )
                     .exec();
 
                 if (!result) {
@@ -158,6 +419,81 @@ export class GardenRepository {
         return true;
     }
 
+    /**
+     * Builds the query condition matching gardens a user owns or that are shared with them
+     * @param userId User identifier
+     * @returns Query condition on the owner and members
+     */
+    private accessFilter(userId: string): Record<string, unknown> {
+        return { $or: [{ ownerId: userId }, { 'members.userId': userId }] };
+    }
+
+    /**
+     * Carries each zone's planting history over to its updated version
+     * History is only ever derived from stored plants: crops removed from a zone by the
+     * update, or removed with the zone, are recorded once per plant type and season, and
+     * the history a client sends is ignored. The history of a removed zone is kept on the
+     * garden and given back if a zone with its identifier is added again.
+     * @param existingZones Zones stored before the update
+     * @param removedZoneHistory History stored for zones removed earlier
+     * @param updatedZones Zones being saved
+     * @returns Updated zones with their planting history, and the history of removed zones
+     */
+    private recordPlantingHistory(
+        existingZones: IGardenZone[],
+        removedZoneHistory: IRemovedZonePlantingRecord[],
+        updatedZones: IGardenZone[]
+    ): Pick<IGarden, 'zones' | 'removedZoneHistory'> {
+        const historyByZone = new Map<string, IZonePlantingRecord[]>();
+        const addRecords = (zoneId: string, records: IZonePlantingRecord[]) => {
+            historyByZone.set(zoneId, [
+                ...(historyByZone.get(zoneId) || []),
+                ...records.map(record => ({
+                    plantType: record.plantType,
+                    season: record.season,
+                    plantedDate: record.plantedDate
+                }))
+            ]);
+        };
+
+        removedZoneHistory.forEach(record => addRecords(record.zoneId, [record]));
+        existingZones.forEach(existing => {
+            const updated = updatedZones.find(candidate => candidate.id === existing.id);
+            addRecords(existing.id, [
+                ...(existing.plantingHistory || []),
+                ...(existing.plants || [])
+                    .filter(plant => plant.plantedDate && !(updated?.plants || []).some(current => current.id === plant.id))
+                    .map(plant => ({
+                        plantType: plant.type,
+                        season: new Date(plant.plantedDate).getFullYear(),
+                        plantedDate: plant.plantedDate
+                    }))
+            ]);
+        });
+
+        const zones = updatedZones.map(({ plantingHistory, ...zone }) => {
+            const history = this.uniquePlantingRecords(historyByZone.get(zone.id) || []);
+            return history.length > 0 ? { ...zone, plantingHistory: history } : zone;
+        });
+        const removed = [...historyByZone]
+            .filter(([zoneId]) => !updatedZones.some(zone => zone.id === zoneId))
+            .flatMap(([zoneId, records]) =>
+                this.uniquePlantingRecords(records).map(record => ({ zoneId, ...record })));
+
+        return { zones, removedZoneHistory: removed };
+    }
+
+    /**
+     * Keeps the first record of each plant type and season
+     * @param records Planting records, oldest first
+     * @returns Records without repeated plant types and seasons
+     */
+    private uniquePlantingRecords(records: IZonePlantingRecord[]): IZonePlantingRecord[] {
+        return records.filter((record, index) => records.findIndex(other =>
+            other.plantType === record.plantType && other.season === record.season
+        ) === index);
+    }
+
     /**
      * Validates garden zones configuration
      * @param zones Array of garden zones to validate
@@ -0,0 +1,88 @@
+/**
+ * Repository class for the growth tracked for each plant set out in a garden
+ * Reads and writes the per-plant rows of the plant_growth_tracking table; rows tracking a
+ * whole plant type leave gardenPlantId empty and belong to the harvest and health repositories
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IPlantGrowthTracking } from '../interfaces/growth-stage.interface';
+
+@Injectable()
+export class GrowthTrackingRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Retrieves the growth tracked for some plants
+     * @param plantIds Plant identifiers
+     * @returns Promise<IPlantGrowthTracking[]> Tracking of the plants that have any
+     */
+    async findByPlants(plantIds: string[]): Promise<IPlantGrowthTracking[]> {
+        if (!plantIds.length) {
+            return [];
+        }
+
+        const rows = await this.knex('plant_growth_tracking')
+            .whereIn('gardenPlantId', plantIds);
+
+        return rows.map(row => this.toTracking(row));
+    }
+
+    /**
+     * Stores the growth tracked for a plant, replacing what was stored for it
+     * @param tracking Growth tracked for the plant
+     */
+    async saveTracking(tracking: IPlantGrowthTracking): Promise<void> {
+        await this.knex('plant_growth_tracking')
+            .insert({
+                id: uuidv4(),
+                plantId: tracking.catalogId,
+                gardenPlantId: tracking.plantId,
+                currentStage: tracking.currentStage,
+                stageStartedAt: tracking.stageStartedAt,
+                daysInStage: tracking.daysInStage,
+                progressDays: tracking.progressDays,
+                degreeDays: tracking.degreeDays,
+                expectedHarvestDate: tracking.expectedHarvestDate,
+                healthStatus: tracking.healthStatus,
+                lastUpdated: tracking.lastUpdated
+            })
+            .onConflict(['gardenPlantId'])
+            .merge([
+                'plantId',
+                'currentStage',
+                'stageStartedAt',
+                'daysInStage',
+                'progressDays',
+                'degreeDays',
+                'expectedHarvestDate',
+                'healthStatus',
+                'lastUpdated'
+            ]);
+    }
+
+    /**
+     * Maps a database row onto a plant's growth tracking
+     * @private
+     */
+    private toTracking(row: any): IPlantGrowthTracking {
+        return {
+            plantId: row.gardenPlantId,
+            catalogId: row.plantId,
+            currentStage: row.currentStage,
+            stageStartedAt: new Date(row.stageStartedAt),
+            daysInStage: Number(row.daysInStage),
+            progressDays: Number(row.progressDays),
+            degreeDays: Number(row.degreeDays ?? 0),
+            expectedHarvestDate: new Date(row.expectedHarvestDate),
+            healthStatus: row.healthStatus,
+            lastUpdated: new Date(row.lastUpdated)
+        };
+    }
+}
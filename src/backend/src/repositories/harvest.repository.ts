@@ -0,0 +1,243 @@
+/**
+ * Repository class for the harvest log
+ * Reads and writes the harvest_records table and the actual growth rates learned from it
+ * in plant_growth_tracking
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IHarvestRecord, IHarvestLogQuery } from '../interfaces/harvest.interface';
+import { PlantType, GROWTH_STAGES } from '../constants/plant.constants';
+import { PLANT_HEALTH_STATUS } from '../constants/plant-health.constants';
+
+/**
+ * Harvest log totals of one plant type within a season, as aggregated by the database
+ */
+export interface HarvestTotalsRow {
+    season: number;
+    plantType: PlantType;
+    harvestCount: number;
+    totalKg: number;
+    totalCount: number;
+    qualityRatingSum: number;
+    ratedCount: number;
+}
+
+@Injectable()
+export class HarvestRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a harvest record
+     * @param record Harvest data without identifier
+     * @returns Promise<IHarvestRecord> Stored harvest record
+     */
+    async create(record: Omit<IHarvestRecord, 'id' | 'createdAt'>): Promise<IHarvestRecord> {
+        const [row] = await this.knex('harvest_records')
+            .insert({
+                id: uuidv4(),
+                gardenId: record.gardenId,
+                plantId: record.plantId,
+                plantType: record.plantType,
+                zoneId: record.zoneId ?? null,
+                scheduleId: record.scheduleId ?? null,
+                harvestedAt: record.harvestedAt,
+                season: record.season,
+                quantityKg: record.quantityKg ?? null,
+                count: record.count ?? null,
+                qualityRating: record.qualityRating ?? null,
+                notes: record.notes ?? null
+            })
+            .returning('*');
+
+        return this.toRecord(row);
+    }
+
+    /**
+     * Retrieves the harvests of a garden within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param from First instant of the period
+     * @param to Instant the period ends (exclusive)
+     * @returns Promise<IHarvestRecord[]> Harvest records
+     */
+    async findByGarden(gardenId: string, from: Date, to: Date): Promise<IHarvestRecord[]> {
+        const rows = await this.knex('harvest_records')
+            .where({ gardenId })
+            .andWhere('harvestedAt', '>=', from)
+            .andWhere('harvestedAt', '<', to)
+            .orderBy('harvestedAt', 'asc');
+
+        return rows.map(row => this.toRecord(row));
+    }
+
+    /**
+     * Lists the harvest log of a garden, newest first
+     * @param query Garden and optional plant, zone and season filters
+     * @returns Promise<IHarvestRecord[]> Harvest records
+     */
+    async findHarvests(query: IHarvestLogQuery): Promise<IHarvestRecord[]> {
+        const builder = this.knex('harvest_records').where({ gardenId: query.gardenId });
+        if (query.plantId) {
+            builder.andWhere({ plantId: query.plantId });
+        }
+        if (query.zoneId) {
+            builder.andWhere({ zoneId: query.zoneId });
+        }
+        if (query.season !== undefined) {
+            builder.andWhere({ season: query.season });
+        }
+
+        const rows = await builder.orderBy('harvestedAt', 'desc');
+        return rows.map(row => this.toRecord(row));
+    }
+
+    /**
+     * Checks whether any harvest has been logged for a plant
+     * @param plantId Plant identifier
+     * @returns Promise<boolean> True when the plant has been harvested before
+     */
+    async hasHarvests(plantId: string): Promise<boolean> {
+        const row = await this.knex('harvest_records').where({ plantId }).first('id');
+        return !!row;
+    }
+
+    /**
+     * Totals a garden's harvest log per season and plant type
+     * @param gardenId Garden identifier
+     * @returns Promise<HarvestTotalsRow[]> Totals ordered by season, newest first
+     */
+    async getSeasonTotals(gardenId: string): Promise<HarvestTotalsRow[]> {
+        const rows = await this.knex('harvest_records')
+            .where({ gardenId })
+            .groupBy('season', 'plantType')
+            .select('season', 'plantType')
+            .count({ harvestCount: '*' })
+            .sum({ totalKg: 'quantityKg', totalCount: 'count', qualityRatingSum: 'qualityRating' })
+            .count({ ratedCount: 'qualityRating' })
+            .orderBy([{ column: 'season', order: 'desc' }, { column: 'plantType', order: 'asc' }]);
+
+        return rows.map((row: any) => ({
+            season: Number(row.season),
+            plantType: row.plantType,
+            harvestCount: Number(row.harvestCount),
+            totalKg: Number(row.totalKg ?? 0),
+            totalCount: Number(row.totalCount ?? 0),
+            qualityRatingSum: Number(row.qualityRatingSum ?? 0),
+            ratedCount: Number(row.ratedCount)
+        }));
+    }
+
+    /**
+     * Retrieves the actual growth rate learned for each plant type
+     * @returns Promise<Map<PlantType, number>> Most recent growth rate per plant type
+     */
+    async getGrowthRates(): Promise<Map<PlantType, number>> {
+        const rows = await this.knex('plant_growth_tracking as pgt')
+            .join('plant_details as pd', 'pd.id', 'pgt.plantId')
+            .whereNull('pgt.gardenPlantId')
+            .whereNotNull('pgt.actualGrowthRate')
+            .orderBy('pgt.lastUpdated', 'asc')
+            .select('pd.type', 'pgt.actualGrowthRate');
+
+        // Later rows overwrite earlier ones, leaving the latest rate per type
+        return new Map(rows.map((row: any) => [row.type, Number(row.actualGrowthRate)]));
+    }
+
+    /**
+     * Retrieves the harvest dates expected for plants from the degree days tracked as they grow
+     * @param plantIds Plant identifiers
+     * @returns Promise<Map<string, Date>> Expected harvest date per plant that has been tracked
+     */
+    async getExpectedHarvestDates(plantIds: string[]): Promise<Map<string, Date>> {
+        if (!plantIds.length) {
+            return new Map();
+        }
+
+        const rows = await this.knex('plant_growth_tracking')
+            .whereIn('gardenPlantId', plantIds)
+            .whereNotNull('expectedHarvestDate')
+            .select('gardenPlantId', 'expectedHarvestDate');
+
+        return new Map(rows.map((row: any) => [row.gardenPlantId, new Date(row.expectedHarvestDate)]));
+    }
+
+    /**
+     * Blends a growth rate sample into the plant type's tracked actual growth rate
+     * @param plantType Catalog plant type
+     * @param sample Growth rate observed on a plant's first harvest
+     * @param smoothing Weight of the sample against the tracked rate
+     * @param expectedHarvestDate Catalog-based harvest date of the sampled plant
+     * @returns Promise<number | undefined> Updated rate, or undefined for types missing from the catalog
+     */
+    async updateGrowthRate(
+        plantType: PlantType,
+        sample: number,
+        smoothing: number,
+        expectedHarvestDate: Date
+    ): Promise<number | undefined> {
+        return this.knex.transaction(async (trx) => {
+            const details = await trx('plant_details').where({ type: plantType }).first('id');
+            if (!details) {
+                return undefined;
+            }
+
+            const tracking = await trx('plant_growth_tracking')
+                .where({ plantId: details.id })
+                .whereNull('gardenPlantId')
+                .orderBy('lastUpdated', 'desc')
+                .forUpdate()
+                .first();
+
+            if (!tracking) {
+                await trx('plant_growth_tracking').insert({
+                    id: uuidv4(),
+                    plantId: details.id,
+                    currentStage: GROWTH_STAGES.HARVESTING,
+                    daysInStage: 0,
+                    expectedHarvestDate,
+                    actualGrowthRate: sample,
+                    healthStatus: PLANT_HEALTH_STATUS.GOOD,
+                    lastUpdated: new Date()
+                });
+                return sample;
+            }
+
+            const rate = tracking.actualGrowthRate === null
+                ? sample
+                : Number(tracking.actualGrowthRate) * (1 - smoothing) + sample * smoothing;
+            await trx('plant_growth_tracking')
+                .where({ id: tracking.id })
+                .update({ actualGrowthRate: rate, lastUpdated: new Date() });
+
+            return rate;
+        });
+    }
+
+    /**
+     * Maps a database row onto a harvest record
+     * @private
+     */
+    private toRecord(row: any): IHarvestRecord {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            plantId: row.plantId,
+            plantType: row.plantType,
+            zoneId: row.zoneId ?? undefined,
+            scheduleId: row.scheduleId ?? undefined,
+            harvestedAt: new Date(row.harvestedAt),
+            season: Number(row.season),
+            quantityKg: row.quantityKg === null ? undefined : Number(row.quantityKg),
+            count: row.count ?? undefined,
+            qualityRating: row.qualityRating ?? undefined,
+            notes: row.notes ?? undefined,
+            createdAt: row.createdAt
+        };
+    }
+}
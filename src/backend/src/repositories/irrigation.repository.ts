@@ -0,0 +1,209 @@
+/**
+ * Repository class for irrigation valves and their runs
+ * Reads and writes the irrigation_valves and irrigation_runs tables
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IIrrigationRun, IIrrigationValve } from '../interfaces/irrigation.interface';
+import { IRRIGATION_RUN_STATUS } from '../constants/irrigation.constants';
+
+@Injectable()
+export class IrrigationRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a valve
+     * @param valve Valve details
+     * @returns Promise<IIrrigationValve> Stored valve
+     */
+    async createValve(valve: Omit<IIrrigationValve, 'id' | 'createdAt' | 'updatedAt'>): Promise<IIrrigationValve> {
+        const [row] = await this.knex('irrigation_valves')
+            .insert({
+                id: uuidv4(),
+                ...valve
+            })
+            .returning('*');
+
+        return this.toValve(row);
+    }
+
+    /**
+     * Retrieves a valve by identifier
+     * @param valveId Valve identifier
+     * @returns Promise<IIrrigationValve | undefined> Valve, if it exists
+     */
+    async findValveById(valveId: string): Promise<IIrrigationValve | undefined> {
+        const row = await this.knex('irrigation_valves').where({ id: valveId }).first();
+        return row ? this.toValve(row) : undefined;
+    }
+
+    /**
+     * Lists the valves of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IIrrigationValve[]> Valves, oldest first
+     */
+    async findValvesByGarden(gardenId: string): Promise<IIrrigationValve[]> {
+        const rows = await this.knex('irrigation_valves')
+            .where({ gardenId })
+            .orderBy('createdAt', 'asc');
+
+        return rows.map(row => this.toValve(row));
+    }
+
+    /**
+     * Lists the enabled valves of all gardens
+     * @returns Promise<IIrrigationValve[]> Enabled valves
+     */
+    async findEnabledValves(): Promise<IIrrigationValve[]> {
+        const rows = await this.knex('irrigation_valves').where({ enabled: true });
+        return rows.map(row => this.toValve(row));
+    }
+
+    /**
+     * Updates a valve
+     * @param valveId Valve identifier
+     * @param changes Fields to change
+     * @returns Promise<IIrrigationValve | undefined> Updated valve, if it exists
+     */
+    async updateValve(
+        valveId: string,
+        changes: Partial<Omit<IIrrigationValve, 'id' | 'gardenId' | 'createdAt' | 'updatedAt'>>
+    ): Promise<IIrrigationValve | undefined> {
+        const [row] = await this.knex('irrigation_valves')
+            .where({ id: valveId })
+            .update({ ...changes, updatedAt: this.knex.fn.now() })
+            .returning('*');
+
+        return row ? this.toValve(row) : undefined;
+    }
+
+    /**
+     * Deletes a valve together with its runs
+     * @param valveId Valve identifier
+     * @returns Promise<boolean> Whether a valve was deleted
+     */
+    async deleteValve(valveId: string): Promise<boolean> {
+        const deleted = await this.knex('irrigation_valves').where({ id: valveId }).delete();
+        return deleted > 0;
+    }
+
+    /**
+     * Stores a run of a valve that has been opened
+     * @param run Run details
+     * @returns Promise<IIrrigationRun> Stored run
+     */
+    async createRun(run: Omit<IIrrigationRun, 'id' | 'status'>): Promise<IIrrigationRun> {
+        const [row] = await this.knex('irrigation_runs')
+            .insert({
+                id: uuidv4(),
+                ...run,
+                tasks: JSON.stringify(run.tasks),
+                status: IRRIGATION_RUN_STATUS.RUNNING
+            })
+            .returning('*');
+
+        return this.toRun(row);
+    }
+
+    /**
+     * Lists the runs whose valves are open
+     * @param gardenId Garden to limit the runs to; all gardens when omitted
+     * @returns Promise<IIrrigationRun[]> Running runs, earliest ending first
+     */
+    async findRunningRuns(gardenId?: string): Promise<IIrrigationRun[]> {
+        const query = this.knex('irrigation_runs')
+            .where({ status: IRRIGATION_RUN_STATUS.RUNNING })
+            .orderBy('endsAt', 'asc');
+        if (gardenId) {
+            query.andWhere({ gardenId });
+        }
+
+        const rows = await query;
+        return rows.map(row => this.toRun(row));
+    }
+
+    /**
+     * Lists the latest runs of a garden
+     * @param gardenId Garden identifier
+     * @param limit Maximum number of runs
+     * @returns Promise<IIrrigationRun[]> Runs, newest first
+     */
+    async findRunsByGarden(gardenId: string, limit: number): Promise<IIrrigationRun[]> {
+        const rows = await this.knex('irrigation_runs')
+            .where({ gardenId })
+            .orderBy('startedAt', 'desc')
+            .limit(limit);
+
+        return rows.map(row => this.toRun(row));
+    }
+
+    /**
+     * Records how a run ended
+     * @param runId Run identifier
+     * @param result Status, closing time, water delivered and any error
+     * @returns Promise<IIrrigationRun | undefined> Updated run, if it exists
+     */
+    async finishRun(
+        runId: string,
+        result: Pick<IIrrigationRun, 'status' | 'finishedAt' | 'deliveredMl' | 'error'>
+    ): Promise<IIrrigationRun | undefined> {
+        const [row] = await this.knex('irrigation_runs')
+            .where({ id: runId })
+            .update(result)
+            .returning('*');
+
+        return row ? this.toRun(row) : undefined;
+    }
+
+    /**
+     * Maps a database row onto a valve
+     * @private
+     */
+    private toValve(row: any): IIrrigationValve {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            zoneId: row.zoneId,
+            name: row.name,
+            channel: row.channel,
+            flowRateLpm: Number(row.flowRateLpm),
+            maxRunMinutes: row.maxRunMinutes !== null && row.maxRunMinutes !== undefined
+                ? Number(row.maxRunMinutes)
+                : undefined,
+            enabled: Boolean(row.enabled),
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt
+        };
+    }
+
+    /**
+     * Maps a database row onto a run
+     * @private
+     */
+    private toRun(row: any): IIrrigationRun {
+        return {
+            id: row.id,
+            valveId: row.valveId,
+            gardenId: row.gardenId,
+            zoneId: row.zoneId,
+            tasks: typeof row.tasks === 'string' ? JSON.parse(row.tasks) : row.tasks,
+            plannedMl: Number(row.plannedMl),
+            runMinutes: Number(row.runMinutes),
+            startedAt: new Date(row.startedAt),
+            endsAt: new Date(row.endsAt),
+            finishedAt: row.finishedAt ? new Date(row.finishedAt) : undefined,
+            deliveredMl: row.deliveredMl !== null && row.deliveredMl !== undefined
+                ? Number(row.deliveredMl)
+                : undefined,
+            status: row.status,
+            error: row.error ?? undefined
+        };
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Repository class for the weather history pest pressure is worked out from
+ * Reads and writes the garden_weather_days table
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IWeatherDay } from '../interfaces/pest-pressure.interface';
+
+@Injectable()
+export class PestPressureRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a garden's weather for some days, replacing what was stored for those days
+     * @param gardenId Garden identifier
+     * @param days Weather of each day
+     */
+    async saveWeatherDays(gardenId: string, days: IWeatherDay[]): Promise<void> {
+        if (!days.length) {
+            return;
+        }
+
+        await this.knex('garden_weather_days')
+            .insert(days.map(day => ({
+                id: uuidv4(),
+                gardenId,
+                ...day,
+                updatedAt: new Date()
+            })))
+            .onConflict(['gardenId', 'date'])
+            .merge(['minTemperature', 'maxTemperature', 'humidity', 'rainfall', 'source', 'updatedAt']);
+    }
+
+    /**
+     * Retrieves a garden's weather within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param from First day of the period
+     * @param to Last day of the period (inclusive)
+     * @returns Promise<IWeatherDay[]> Weather of the days stored
+     */
+    async findWeatherDays(gardenId: string, from: Date, to: Date): Promise<IWeatherDay[]> {
+        const rows = await this.knex('garden_weather_days')
+            .where({ gardenId })
+            .andWhere('date', '>=', from)
+            .andWhere('date', '<=', to)
+            .orderBy('date', 'asc');
+
+        return rows.map(row => this.toWeatherDay(row));
+    }
+
+    /**
+     * Maps a database row onto a day's weather
+     * @private
+     */
+    private toWeatherDay(row: any): IWeatherDay {
+        return {
+            date: new Date(row.date),
+            minTemperature: Number(row.minTemperature),
+            maxTemperature: Number(row.maxTemperature),
+            humidity: Number(row.humidity),
+            rainfall: Number(row.rainfall),
+            source: row.source
+        };
+    }
+}
@@ -0,0 +1,424 @@
+/**
+ * Repository class for plant catalog persistence
+ * Reads and writes plant traits stored in the plant_details, plant_sunlight_needs
+ * and companion_plants tables
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IPlantCatalogEntry, ICompanionRelationship } from '../interfaces/plant.interface';
+import {
+    PlantType,
+    PLANT_CATALOG_ERRORS,
+    COMPANION_RELATIONSHIP_TYPES,
+    FROST_TOLERANCE,
+    PLANT_FAMILY,
+    SUNLIGHT_REQUIREMENTS
+} from '../constants/plant.constants';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/error.utils';
+
+/**
+ * Catalog entry data accepted for create and update operations
+ */
+export type PlantCatalogInput = Omit<IPlantCatalogEntry, 'id' | 'version' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Row of the plant_details table
+ */
+interface PlantDetailsRow {
+    id: string;
+    type: PlantType;
+    name: string;
+    version: number;
+    defaultSpacing: number;
+    daysToMaturity: number;
+    harvestWindowDays: number;
+    seedlingDays: number | null;
+    growingDays: number | null;
+    singleHarvest: boolean | number;
+    baseTemperature: number | null;
+    successionIntervalDays: number | null;
+    frostTolerance: FROST_TOLERANCE;
+    indoorSowingWeeks: number | null;
+    family: PLANT_FAMILY;
+    wateringFrequencyDays: number;
+    fertilizingFrequencyDays: number;
+    minSunlightHours: number;
+    expectedYieldKg: number;
+    waterRequirementMl: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Row of the plant_sunlight_needs table
+ */
+interface PlantSunlightNeedsRow {
+    plantId: string;
+    requirement: SUNLIGHT_REQUIREMENTS;
+    optimalHours: number;
+    minimumHours: number;
+}
+
+/**
+ * Row of plant_details joined with the sunlight needs of the plant
+ */
+interface PlantCatalogRow extends PlantDetailsRow {
+    sunlightRequirement: SUNLIGHT_REQUIREMENTS;
+    optimalSunlightHours: number | null;
+}
+
+@Injectable()
+export class PlantCatalogRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Retrieves all catalog entries ordered by plant type
+     * @returns Promise<IPlantCatalogEntry[]> Catalog entries with sunlight needs and companions
+     */
+    async findAll(): Promise<IPlantCatalogEntry[]> {
+        const rows = await this.baseQuery(this.knex).orderBy('pd.type', 'asc');
+        const companions = await this.findCompanionRows(this.knex);
+
+        return rows.map(row => this.toEntry(row, companions));
+    }
+
+    /**
+     * Retrieves a single catalog entry by plant type
+     * @param type Plant type key
+     * @returns Promise<IPlantCatalogEntry | null> Catalog entry or null when unknown
+     */
+    async findByType(type: PlantType): Promise<IPlantCatalogEntry | null> {
+        const row = await this.baseQuery(this.knex).where('pd.type', type).first();
+        if (!row) {
+            return null;
+        }
+
+        const companions = await this.findCompanionRows(this.knex, row.id);
+        return this.toEntry(row, companions);
+    }
+
+    /**
+     * Creates a catalog entry with its sunlight needs and companion relationships
+     * @param input Catalog entry data
+     * @returns Promise<IPlantCatalogEntry> Created catalog entry
+     */
+    async create(input: PlantCatalogInput): Promise<IPlantCatalogEntry> {
+        return this.knex.transaction(async (trx) => {
+            const existing = await trx('plant_details').where({ type: input.type }).first('id');
+            if (existing) {
+                throw new ConflictError(`${PLANT_CATALOG_ERRORS.DUPLICATE_TYPE}: ${input.type}`);
+            }
+
+            const id = uuidv4();
+            await trx('plant_details').insert({
+                id,
+                version: 1,
+                ...this.toDetailsRow(input)
+            });
+            await trx('plant_sunlight_needs').insert({
+                plantId: id,
+                ...this.toSunlightRow(input)
+            });
+            await this.replaceCompanions(trx, id, input.companionPlants);
+
+            const [row] = await this.baseQuery(trx).where('pd.id', id);
+            return this.toEntry(row, await this.findCompanionRows(trx, id));
+        });
+    }
+
+    /**
+     * Updates a catalog entry using optimistic concurrency on the version column
+     * @param type Plant type key
+     * @param input Updated catalog entry data
+     * @param expectedVersion Version the caller last read
+     * @returns Promise<IPlantCatalogEntry> Updated catalog entry
+     */
+    async update(
+        type: PlantType,
+        input: PlantCatalogInput,
+        expectedVersion: number
+    ): Promise<IPlantCatalogEntry> {
+        return this.knex.transaction(async (trx) => {
+            const existing = await trx('plant_details').where({ type }).first('id');
+            if (!existing) {
+                throw new NotFoundError(`${PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND}: ${type}`);
+            }
+
+            const updatedRows = await trx('plant_details')
+                .where({ id: existing.id, version: expectedVersion })
+                .update({
+                    ...this.toDetailsRow({ ...input, type }),
+                    version: expectedVersion + 1,
+                    updated_at: trx.fn.now()
+                });
+
+            if (updatedRows === 0) {
+                throw new ConflictError(`${PLANT_CATALOG_ERRORS.VERSION_CONFLICT}: ${type}`);
+            }
+
+            await trx('plant_sunlight_needs')
+                .where({ plantId: existing.id })
+                .update(this.toSunlightRow(input));
+            await this.replaceCompanions(trx, existing.id, input.companionPlants);
+
+            const [row] = await this.baseQuery(trx).where('pd.id', existing.id);
+            return this.toEntry(row, await this.findCompanionRows(trx, existing.id));
+        });
+    }
+
+    /**
+     * Deletes a catalog entry with its sunlight needs and companion relationships
+     * Entries with growth records are refused rather than deleting the records by cascade
+     * @param type Plant type key
+     * @returns Promise<boolean> True when an entry was deleted
+     */
+    async delete(type: PlantType): Promise<boolean> {
+        return this.knex.transaction(async (trx) => {
+            const existing = await trx('plant_details').where({ type }).first('id');
+            if (!existing) {
+                return false;
+            }
+
+            const tracked = await trx('plant_growth_tracking').where({ plantId: existing.id }).first('id');
+            if (tracked) {
+                throw new ConflictError(`${PLANT_CATALOG_ERRORS.TYPE_IN_USE}: ${type}`);
+            }
+
+            await trx('plant_details').where({ id: existing.id }).delete();
+            return true;
+        });
+    }
+
+    /**
+     * Retrieves the full companion relationship graph
+     * @returns Promise<ICompanionRelationship[]> Relationships of every type between catalog plants
+     */
+    async findRelationships(): Promise<ICompanionRelationship[]> {
+        const rows = await this.knex('companion_plants as cp')
+            .join('plant_details as plant', 'plant.id', 'cp.plantId')
+            .join('plant_details as companion', 'companion.id', 'cp.companionPlantId')
+            .select(
+                'plant.type as plantType',
+                'companion.type as companionType',
+                'cp.relationshipType',
+                'cp.benefitDescription'
+            )
+            .orderBy(['plant.type', 'companion.type']);
+
+        return rows.map(row => ({
+            plantType: row.plantType,
+            companionType: row.companionType,
+            relationshipType: row.relationshipType,
+            benefitDescription: row.benefitDescription ?? undefined
+        }));
+    }
+
+    /**
+     * Creates or replaces the relationship recorded for a plant pair
+     * @param relationship Relationship to store
+     * @returns Promise<ICompanionRelationship> Stored relationship
+     */
+    async upsertRelationship(relationship: ICompanionRelationship): Promise<ICompanionRelationship> {
+        return this.knex.transaction(async (trx) => {
+            const [plant, companion] = await Promise.all([
+                trx('plant_details').where({ type: relationship.plantType }).first('id'),
+                trx('plant_details').where({ type: relationship.companionType }).first('id')
+            ]);
+
+            if (!plant) {
+                throw new NotFoundError(`${PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND}: ${relationship.plantType}`);
+            }
+            if (!companion) {
+                throw new BadRequestError(`${PLANT_CATALOG_ERRORS.UNKNOWN_COMPANION}: ${relationship.companionType}`);
+            }
+
+            await trx('companion_plants')
+                .insert({
+                    plantId: plant.id,
+                    companionPlantId: companion.id,
+                    relationshipType: relationship.relationshipType,
+                    benefitDescription: relationship.benefitDescription ?? null
+                })
+                .onConflict(['plantId', 'companionPlantId'])
+                .merge(['relationshipType', 'benefitDescription', 'updated_at']);
+
+            return relationship;
+        });
+    }
+
+    /**
+     * Deletes the relationship recorded for a plant pair
+     * @param plantType Plant type the relationship is recorded for
+     * @param companionType Neighbouring plant type
+     * @returns Promise<boolean> True when a relationship was deleted
+     */
+    async deleteRelationship(plantType: PlantType, companionType: PlantType): Promise<boolean> {
+        const deletedRows = await this.knex('companion_plants')
+            .whereIn('plantId', this.knex('plant_details').select('id').where({ type: plantType }))
+            .whereIn('companionPlantId', this.knex('plant_details').select('id').where({ type: companionType }))
+            .delete();
+
+        return deletedRows > 0;
+    }
+
+    /**
+     * Builds the joined details/sunlight query
+     * @private
+     */
+    private baseQuery(db: Knex | Knex.Transaction): Knex.QueryBuilder<PlantDetailsRow, PlantCatalogRow[]> {
+        return db<PlantDetailsRow, PlantCatalogRow[]>('plant_details as pd')
+            .leftJoin('plant_sunlight_needs as psn', 'psn.plantId', 'pd.id')
+            .select(
+                'pd.*',
+                'psn.requirement as sunlightRequirement',
+                'psn.optimalHours as optimalSunlightHours'
+            );
+    }
+
+    /**
+     * Loads beneficial companion relationships, optionally for a single plant
+     * @private
+     */
+    private async findCompanionRows(
+        db: Knex | Knex.Transaction,
+        plantId?: string
+    ): Promise<Array<{ plantId: string; companionType: PlantType }>> {
+        const query = db('companion_plants as cp')
+            .join('plant_details as companion', 'companion.id', 'cp.companionPlantId')
+            .where('cp.relationshipType', COMPANION_RELATIONSHIP_TYPES.BENEFICIAL)
+            .select('cp.plantId', 'companion.type as companionType');
+
+        if (plantId) {
+            query.where('cp.plantId', plantId);
+        }
+
+        return query;
+    }
+
+    /**
+     * Replaces the beneficial companion relationships of a catalog entry
+     * @private
+     */
+    private async replaceCompanions(
+        trx: Knex.Transaction,
+        plantId: string,
+        companionTypes: PlantType[]
+    ): Promise<void> {
+        await trx('companion_plants')
+            .where({ plantId, relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL })
+            .delete();
+
+        if (!companionTypes || companionTypes.length === 0) {
+            return;
+        }
+
+        const companions = await trx('plant_details')
+            .whereIn('type', companionTypes)
+            .select('id', 'type');
+
+        if (companions.length !== new Set(companionTypes).size) {
+            const known = new Set(companions.map(companion => companion.type));
+            const unknown = companionTypes.filter(companionType => !known.has(companionType));
+            throw new BadRequestError(`${PLANT_CATALOG_ERRORS.UNKNOWN_COMPANION}: ${unknown.join(', ')}`);
+        }
+
+        // Listing a plant as a companion overrides any neutral or harmful record for the pair
+        await trx('companion_plants')
+            .insert(
+                companions.map(companion => ({
+                    plantId,
+                    companionPlantId: companion.id,
+                    relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL
+                }))
+            )
+            .onConflict(['plantId', 'companionPlantId'])
+            .merge(['relationshipType']);
+    }
+
+    /**
+     * Maps catalog input onto plant_details columns
+     * @private
+     */
+    private toDetailsRow(
+        input: PlantCatalogInput
+    ): Omit<PlantDetailsRow, 'id' | 'version' | 'created_at' | 'updated_at'> {
+        return {
+            type: input.type,
+            name: input.name,
+            defaultSpacing: input.defaultSpacing,
+            daysToMaturity: input.daysToMaturity,
+            harvestWindowDays: input.harvestWindowDays,
+            seedlingDays: input.seedlingDays ?? null,
+            growingDays: input.growingDays ?? null,
+            singleHarvest: input.singleHarvest ?? false,
+            baseTemperature: input.baseTemperature ?? null,
+            successionIntervalDays: input.successionIntervalDays ?? null,
+            frostTolerance: input.frostTolerance,
+            indoorSowingWeeks: input.indoorSowingWeeks ?? null,
+            family: input.family,
+            wateringFrequencyDays: input.wateringFrequencyDays,
+            fertilizingFrequencyDays: input.fertilizingFrequencyDays,
+            minSunlightHours: input.minSunlightHours,
+            expectedYieldKg: input.expectedYieldKg,
+            waterRequirementMl: input.waterRequirementMl
+        };
+    }
+
+    /**
+     * Maps catalog input onto plant_sunlight_needs columns
+     * @private
+     */
+    private toSunlightRow(input: PlantCatalogInput): Omit<PlantSunlightNeedsRow, 'plantId'> {
+        return {
+            requirement: input.sunlightRequirement,
+            optimalHours: input.optimalSunlightHours,
+            minimumHours: input.minSunlightHours
+        };
+    }
+
+    /**
+     * Maps a joined database row onto a catalog entry
+     * @private
+     */
+    private toEntry(
+        row: PlantCatalogRow,
+        companions: Array<{ plantId: string; companionType: PlantType }>
+    ): IPlantCatalogEntry {
+        return {
+            id: row.id,
+            type: row.type,
+            name: row.name,
+            version: row.version,
+            defaultSpacing: row.defaultSpacing,
+            daysToMaturity: row.daysToMaturity,
+            harvestWindowDays: row.harvestWindowDays,
+            seedlingDays: row.seedlingDays ?? undefined,
+            growingDays: row.growingDays ?? undefined,
+            singleHarvest: Boolean(row.singleHarvest),
+            baseTemperature: row.baseTemperature ?? undefined,
+            successionIntervalDays: row.successionIntervalDays ?? undefined,
+            frostTolerance: row.frostTolerance,
+            indoorSowingWeeks: row.indoorSowingWeeks ?? undefined,
+            family: row.family,
+            wateringFrequencyDays: row.wateringFrequencyDays,
+            fertilizingFrequencyDays: row.fertilizingFrequencyDays,
+            minSunlightHours: row.minSunlightHours,
+            optimalSunlightHours: row.optimalSunlightHours ?? row.minSunlightHours,
+            sunlightRequirement: row.sunlightRequirement,
+            expectedYieldKg: row.expectedYieldKg,
+            waterRequirementMl: row.waterRequirementMl,
+            companionPlants: companions
+                .filter(companion => companion.plantId === row.id)
+                .map(companion => companion.companionType),
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+}
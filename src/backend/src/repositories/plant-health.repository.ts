@@ -0,0 +1,193 @@
+/**
+ * Repository class for plant observations and diagnoses
+ * Reads and writes the plant_observations and plant_diagnoses tables and the health status
+ * kept in plant_growth_tracking
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import moment from 'moment'; // ^2.29.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IPlant } from '../interfaces/plant.interface';
+import { IPlantDiagnosis, IPlantObservation } from '../interfaces/plant-health.interface';
+import { PlantHealthStatus } from '../constants/plant-health.constants';
+
+@Injectable()
+export class PlantHealthRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores an observation
+     * @param observation Observation details
+     * @returns Promise<IPlantObservation> Stored observation
+     */
+    async createObservation(observation: Omit<IPlantObservation, 'id' | 'createdAt'>): Promise<IPlantObservation> {
+        const [row] = await this.knex('plant_observations')
+            .insert({
+                id: uuidv4(),
+                ...observation,
+                symptoms: JSON.stringify(observation.symptoms),
+                pests: JSON.stringify(observation.pests),
+                photos: JSON.stringify(observation.photos)
+            })
+            .returning('*');
+
+        return this.toObservation(row);
+    }
+
+    /**
+     * Lists the observations of a plant
+     * @param plantId Plant identifier
+     * @param options Earliest observation time and maximum number of observations
+     * @returns Promise<IPlantObservation[]> Observations, newest first
+     */
+    async findObservations(
+        plantId: string,
+        options: { since?: Date; limit?: number } = {}
+    ): Promise<IPlantObservation[]> {
+        const query = this.knex('plant_observations')
+            .where({ plantId })
+            .orderBy('observedAt', 'desc');
+        if (options.since) {
+            query.andWhere('observedAt', '>=', options.since);
+        }
+        if (options.limit) {
+            query.limit(options.limit);
+        }
+
+        const rows = await query;
+        return rows.map(row => this.toObservation(row));
+    }
+
+    /**
+     * Stores a diagnosis
+     * @param diagnosis Diagnosis details
+     * @returns Promise<IPlantDiagnosis> Stored diagnosis
+     */
+    async createDiagnosis(diagnosis: Omit<IPlantDiagnosis, 'id'>): Promise<IPlantDiagnosis> {
+        const [row] = await this.knex('plant_diagnoses')
+            .insert({
+                id: uuidv4(),
+                ...diagnosis,
+                problems: JSON.stringify(diagnosis.problems),
+                conditions: JSON.stringify(diagnosis.conditions),
+                observationIds: JSON.stringify(diagnosis.observationIds),
+                treatmentScheduleIds: JSON.stringify(diagnosis.treatmentScheduleIds)
+            })
+            .returning('*');
+
+        return this.toDiagnosis(row);
+    }
+
+    /**
+     * Retrieves the latest diagnosis of a plant
+     * @param plantId Plant identifier
+     * @returns Promise<IPlantDiagnosis | undefined> Latest diagnosis, if the plant has one
+     */
+    async findLatestDiagnosis(plantId: string): Promise<IPlantDiagnosis | undefined> {
+        const row = await this.knex('plant_diagnoses')
+            .where({ plantId })
+            .orderBy('diagnosedAt', 'desc')
+            .first();
+
+        return row ? this.toDiagnosis(row) : undefined;
+    }
+
+    /**
+     * Sets the health status tracked for a plant and its type
+     * The latest diagnosis of any plant of a type sets the status tracked for the type;
+     * types without tracking start it at the plant's growth stage
+     * @param plant Diagnosed plant
+     * @param healthStatus Health status of the diagnosis
+     * @returns Promise<boolean> Whether the type is in the catalog and was updated
+     */
+    async updateTrackedHealth(plant: IPlant, healthStatus: PlantHealthStatus): Promise<boolean> {
+        return this.knex.transaction(async (trx) => {
+            const details = await trx('plant_details').where({ type: plant.type }).first('id');
+            if (!details) {
+                return false;
+            }
+
+            await trx('plant_growth_tracking')
+                .where({ gardenPlantId: plant.id })
+                .update({ healthStatus, lastUpdated: new Date() });
+
+            const tracking = await trx('plant_growth_tracking')
+                .where({ plantId: details.id })
+                .whereNull('gardenPlantId')
+                .orderBy('lastUpdated', 'desc')
+                .forUpdate()
+                .first('id');
+
+            if (!tracking) {
+                await trx('plant_growth_tracking').insert({
+                    id: uuidv4(),
+                    plantId: details.id,
+                    currentStage: plant.growthStage,
+                    daysInStage: 0,
+                    expectedHarvestDate: moment(plant.plantedDate).add(plant.daysToMaturity, 'days').toDate(),
+                    healthStatus,
+                    lastUpdated: new Date()
+                });
+                return true;
+            }
+
+            await trx('plant_growth_tracking')
+                .where({ id: tracking.id })
+                .update({ healthStatus, lastUpdated: new Date() });
+            return true;
+        });
+    }
+
+    /**
+     * Maps a database row onto an observation
+     * @private
+     */
+    private toObservation(row: any): IPlantObservation {
+        return {
+            id: row.id,
+            plantId: row.plantId,
+            gardenId: row.gardenId ?? undefined,
+            symptoms: this.parseJson(row.symptoms),
+            pests: this.parseJson(row.pests),
+            affectedPercent: row.affectedPercent !== null && row.affectedPercent !== undefined
+                ? Number(row.affectedPercent)
+                : undefined,
+            notes: row.notes ?? undefined,
+            photos: this.parseJson(row.photos),
+            observedAt: new Date(row.observedAt),
+            createdAt: row.createdAt
+        };
+    }
+
+    /**
+     * Maps a database row onto a diagnosis
+     * @private
+     */
+    private toDiagnosis(row: any): IPlantDiagnosis {
+        return {
+            id: row.id,
+            plantId: row.plantId,
+            gardenId: row.gardenId ?? undefined,
+            healthStatus: row.healthStatus,
+            problems: this.parseJson(row.problems),
+            conditions: this.parseJson(row.conditions),
+            observationIds: this.parseJson(row.observationIds),
+            treatmentScheduleIds: this.parseJson(row.treatmentScheduleIds),
+            diagnosedAt: new Date(row.diagnosedAt)
+        };
+    }
+
+    /**
+     * Reads a jsonb column, which some drivers return as text
+     * @private
+     */
+    private parseJson(value: any): any {
+        return typeof value === 'string' ? JSON.parse(value) : value;
+    }
+}
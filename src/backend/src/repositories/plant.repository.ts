@@ -7,7 +7,8 @@
 import mongoose from 'mongoose'; // v6.0.0
 import { Plant } from '../models/plant.model';
 import { IPlant, IPlantCareSchedule } from '../interfaces/plant.interface';
-import { PLANT_TYPES, GROWTH_STAGES, DEFAULT_PLANT_SPACING } from '../constants/plant.constants';
+import { PlantType, GROWTH_STAGES } from '../constants/plant.constants';
+import { PlantHealthStatus } from '../constants/plant-health.constants';
 
 /**
  * Enhanced repository class for managing plant data persistence
@@ -41,7 +42,8 @@ export class PlantRepository {
     }
 
     /**
-     * Creates a new plant record with enhanced validation
+     * Creates a new plant record
+     * Catalog-based spacing validation is performed by PlantService before persisting
      * @param plantData Plant data to be created
      * @returns Promise<IPlant> Created plant record
      */
@@ -50,15 +52,10 @@ export class PlantRepository {
         session.startTransaction();
 
         try {
-            // Validate spacing requirements
-            if (plantData.spacing < DEFAULT_PLANT_SPACING[plantData.type]) {
-                throw new Error(`Invalid spacing for ${plantData.type}. Minimum required: ${DEFAULT_PLANT_SPACING[plantData.type]} inches`);
-            }
-
             // Create new plant instance
             const plant = new this.Plant({
                 ...plantData,
-                plantedDate: new Date(),
+                plantedDate: plantData.plantedDate ?? new Date(),
                 lastWateredDate: new Date(),
                 lastFertilizedDate: new Date()
             });
@@ -141,6 +138,101 @@ export class PlantRepository {
         }
     }
 
+    /**
+     * Retrieves a plant by its identifier
+     * @param id Plant identifier
+     * @returns Promise<IPlant | null> Plant record if found
+     */
+    async getPlantById(id: string): Promise<IPlant | null> {
+        try {
+            return await this.Plant.findOne({ id });
+        } catch (error) {
+            this.logger.error(`Failed to retrieve plant ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the garden a plant is set out in
+     * @param id Plant identifier
+     * @returns Promise<string | undefined> Garden identifier, or undefined for unknown plants
+     */
+    async getPlantGardenId(id: string): Promise<string | undefined> {
+        try {
+            const plant = await this.Plant.findOne({ id }).select('gardenId').lean();
+            return plant?.gardenId;
+        } catch (error) {
+            this.logger.error(`Failed to retrieve the garden of plant ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts the plants of a plant type
+     * @param type Plant type key
+     * @returns Promise<number> Number of plants of the type
+     */
+    async countPlantsByType(type: PlantType): Promise<number> {
+        try {
+            return await this.Plant.countDocuments({ type });
+        } catch (error) {
+            this.logger.error(`Failed to count plants of type ${type}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves all plants set out in a garden, oldest planting first
+     * @param gardenId Garden identifier
+     * @returns Promise<IPlant[]> Array of plants in the garden
+     */
+    async getPlantsByGarden(gardenId: string): Promise<IPlant[]> {
+        try {
+            return await this.Plant.find({ gardenId }).sort({ plantedDate: 1 });
+        } catch (error) {
+            this.logger.error(`Failed to retrieve plants for garden ${gardenId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Records the health status of a plant's latest diagnosis
+     * @param id Plant identifier
+     * @param healthStatus Overall health of the plant
+     * @returns Promise<IPlant | null> Updated plant record if found
+     */
+    async updatePlantHealth(id: string, healthStatus: PlantHealthStatus): Promise<IPlant | null> {
+        try {
+            return await this.Plant.findOneAndUpdate(
+                { id },
+                { $set: { healthStatus } },
+                { new: true }
+            );
+        } catch (error) {
+            this.logger.error(`Failed to update health of plant ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves a plant to the growth stage it has been advanced to
+     * @param id Plant identifier
+     * @param growthStage Growth stage the plant is in
+     * @returns Promise<IPlant | null> Updated plant record if found
+     */
+    async setGrowthStage(id: string, growthStage: GROWTH_STAGES): Promise<IPlant | null> {
+        try {
+            return await this.Plant.findOneAndUpdate(
+                { id },
+                { $set: { growthStage } },
+                { new: true }
+            );
+        } catch (error) {
+            this.logger.error(`Failed to set growth stage of plant ${id}:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Updates plant maintenance schedule based on growth stage and environmental factors
      * @param id Plant identifier
@@ -203,7 +295,7 @@ export class PlantRepository {
      */
     private verifyZoneSpacing(plants: IPlant[]): Array<{
         plantId: string,
-        type: PLANT_TYPES,
+        type: PlantType,
         currentSpacing: number,
         requiredSpacing: number
     }> {
@@ -217,8 +309,8 @@ export class PlantRepository {
                 );
 
                 const requiredSpacing = Math.max(
-                    DEFAULT_PLANT_SPACING[plants[i].type],
-                    DEFAULT_PLANT_SPACING[plants[j].type]
+                    plants[i].spacing,
+                    plants[j].spacing
                 );
 
                 if (distance < requiredSpacing) {
@@ -0,0 +1,70 @@
+/**
+ * Repository class for rainfall observed at gardens
+ * Reads and writes the rainfall_observations table
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IRainfallObservation } from '../interfaces/weather.interface';
+
+@Injectable()
+export class RainfallRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a rainfall observation
+     * @param observation Observation data without identifier
+     * @returns Promise<IRainfallObservation> Stored observation
+     */
+    async create(observation: Omit<IRainfallObservation, 'id' | 'createdAt'>): Promise<IRainfallObservation> {
+        const [row] = await this.knex('rainfall_observations')
+            .insert({
+                id: uuidv4(),
+                gardenId: observation.gardenId,
+                observedAt: observation.observedAt,
+                rainfallMm: observation.rainfallMm,
+                source: observation.source ?? null
+            })
+            .returning('*');
+
+        return this.toObservation(row);
+    }
+
+    /**
+     * Retrieves the rainfall observed at a garden after an instant, oldest first
+     * @param gardenId Garden identifier
+     * @param from Instant the period starts (exclusive)
+     * @param to Instant the period ends (inclusive)
+     * @returns Promise<IRainfallObservation[]> Rainfall observations
+     */
+    async findByGarden(gardenId: string, from: Date, to: Date): Promise<IRainfallObservation[]> {
+        const rows = await this.knex('rainfall_observations')
+            .where({ gardenId })
+            .andWhere('observedAt', '>', from)
+            .andWhere('observedAt', '<=', to)
+            .orderBy('observedAt', 'asc');
+
+        return rows.map(row => this.toObservation(row));
+    }
+
+    /**
+     * Maps a database row onto a rainfall observation
+     * @private
+     */
+    private toObservation(row: any): IRainfallObservation {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            observedAt: new Date(row.observedAt),
+            rainfallMm: Number(row.rainfallMm),
+            source: row.source ?? undefined,
+            createdAt: row.createdAt
+        };
+    }
+}
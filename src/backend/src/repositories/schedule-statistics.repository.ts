@@ -0,0 +1,87 @@
+/**
+ * Repository class for the task statistics of each garden
+ * Reads and writes the schedule_statistics table, one row per garden, recalculated from
+ * the garden's schedules when it is read after going stale
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IScheduleStatistics } from '../interfaces/schedule.interface';
+
+@Injectable()
+export class ScheduleStatisticsRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Retrieves the statistics stored for some gardens
+     * @param gardenIds Garden identifiers
+     * @returns Promise<IScheduleStatistics[]> Statistics of the gardens that have any
+     */
+    async findByGardens(gardenIds: string[]): Promise<IScheduleStatistics[]> {
+        if (!gardenIds.length) {
+            return [];
+        }
+
+        const rows = await this.knex('schedule_statistics')
+            .whereIn('garden_id', gardenIds);
+
+        return rows.map(row => this.toStatistics(row));
+    }
+
+    /**
+     * Stores the statistics of a garden, replacing what was stored for it
+     * @param statistics Statistics of the garden
+     */
+    async saveStatistics(statistics: IScheduleStatistics): Promise<void> {
+        await this.knex('schedule_statistics')
+            .insert({
+                id: uuidv4(),
+                garden_id: statistics.gardenId,
+                total_tasks: statistics.totalTasks,
+                completed_tasks: statistics.completedTasks,
+                upcoming_tasks: statistics.upcomingTasks,
+                completion_rate: statistics.completionRate,
+                monthly_completion_rate: JSON.stringify(statistics.monthlyCompletionRate),
+                average_completion_time: statistics.averageCompletionTime,
+                missed_task_count: statistics.missedTaskCount,
+                last_calculated_at: statistics.lastCalculatedAt
+            })
+            .onConflict(['garden_id'])
+            .merge([
+                'total_tasks',
+                'completed_tasks',
+                'upcoming_tasks',
+                'completion_rate',
+                'monthly_completion_rate',
+                'average_completion_time',
+                'missed_task_count',
+                'last_calculated_at'
+            ]);
+    }
+
+    /**
+     * Maps a database row onto a garden's statistics
+     * @private
+     */
+    private toStatistics(row: any): IScheduleStatistics {
+        return {
+            gardenId: row.garden_id,
+            totalTasks: Number(row.total_tasks),
+            completedTasks: Number(row.completed_tasks),
+            upcomingTasks: Number(row.upcoming_tasks),
+            completionRate: Number(row.completion_rate),
+            monthlyCompletionRate: typeof row.monthly_completion_rate === 'string'
+                ? JSON.parse(row.monthly_completion_rate)
+                : row.monthly_completion_rate || {},
+            averageCompletionTime: Number(row.average_completion_time),
+            missedTaskCount: Number(row.missed_task_count),
+            lastCalculatedAt: new Date(row.last_calculated_at)
+        };
+    }
+}
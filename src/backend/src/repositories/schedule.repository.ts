@@ -1,7 +1,8 @@
 // mongoose version: ^6.0.0
-import mongoose, { Model } from 'mongoose';
+import mongoose, { ClientSession, Model } from 'mongoose';
 import { Schedule } from '../models/schedule.model';
 import { ISchedule, TaskType, TaskPriority, IScheduleDocument } from '../interfaces/schedule.interface';
+import { IIrrigationDelivery } from '../interfaces/irrigation.interface';
 import { SCHEDULE_ERRORS, SCHEDULE_LIMITS } from '../constants/schedule.constants';
 
 interface RepositoryConfig {
@@ -18,9 +19,11 @@ interface QueryOptions {
 }
 
 interface FilterOptions {
+    gardenId?: string;
     taskTypes?: TaskType[];
     priorities?: TaskPriority[];
     completed?: boolean;
+    assigned?: boolean;     // Only tasks with (true) or without (false) an assignee
 }
 
 interface UpdateOptions {
@@ -35,7 +38,9 @@ interface DeleteOptions {
 
 interface CompletionData {
     completedDate: Date;
+    completedBy?: string;               // User who did the work
     notes?: string;
+    irrigation?: IIrrigationDelivery;   // Water delivered by the valve run that carried out the task
 }
 
 /**
@@ -59,8 +64,9 @@ export class ScheduleRepository {
 
     /**
      * Creates a new maintenance schedule with validation
+     * Runs in the transaction given, or in one of its own when none is
      */
-    async createSchedule(scheduleData: Partial<ISchedule>): Promise<ISchedule> {
+    async createSchedule(scheduleData: Partial<ISchedule>, transaction?: ClientSession): Promise<ISchedule> {
         try {
             // Validate schedule data
             if (!scheduleData.gardenId || !scheduleData.taskType || !scheduleData.dueDate) {
@@ -74,18 +80,23 @@ export class ScheduleRepository {
                     $gte: new Date(scheduleData.dueDate).setHours(0, 0, 0, 0),
                     $lt: new Date(scheduleData.dueDate).setHours(23, 59, 59, 999)
                 }
-            });
+            }).session(transaction ?? null);
 
             if (existingTasksCount >= SCHEDULE_LIMITS.MAX_TASKS_PER_DAY) {
                 throw new Error(SCHEDULE_ERRORS.SCHEDULE_FULL);
             }
 
+            if (transaction) {
+                const [created] = await this.scheduleModel.create([scheduleData], { session: transaction });
+                return created;
+            }
+
             // Create schedule with optimized write
             const session = await mongoose.startSession();
             let createdSchedule: ISchedule;
 
             await session.withTransaction(async () => {
-                createdSchedule = await this.scheduleModel.create([scheduleData], { session })[0];
+                [createdSchedule] = await this.scheduleModel.create([scheduleData], { session });
             });
 
             await session.endSession();
@@ -121,6 +132,43 @@ export class ScheduleRepository {
         }
     }
 
+    /**
+     * Retrieves a single schedule by its identifier
+     */
+    async getScheduleById(scheduleId: string): Promise<ISchedule | null> {
+        try {
+            return await this.scheduleModel
+                .findById(scheduleId)
+                .lean()
+                .maxTimeMS(this.queryTimeout)
+                .exec();
+        } catch (error) {
+            throw this.handleError('getScheduleById', error);
+        }
+    }
+
+    /**
+     * Retrieves the garden a schedule belongs to
+     * @returns Promise resolving to the garden identifier, or undefined for unknown schedules
+     */
+    async getScheduleGardenId(scheduleId: string): Promise<string | undefined> {
+        if (!mongoose.isValidObjectId(scheduleId)) {
+            return undefined;
+        }
+
+        try {
+            const schedule = await this.scheduleModel
+                .findById(scheduleId)
+                .select('gardenId')
+                .lean()
+                .maxTimeMS(this.queryTimeout)
+                .exec();
+            return schedule?.gardenId;
+        } catch (error) {
+            throw this.handleError('getScheduleGardenId', error);
+        }
+    }
+
     /**
      * Retrieves pending tasks with priority sorting and filtering
      */
@@ -135,6 +183,10 @@ export class ScheduleRepository {
                 dueDate: { $gte: startDate, $lte: endDate }
             };
 
+            if (filters.gardenId) {
+                query.gardenId = filters.gardenId;
+            }
+
             if (filters.taskTypes?.length) {
                 query.taskType = { $in: filters.taskTypes };
             }
@@ -143,6 +195,10 @@ export class ScheduleRepository {
                 query.priority = { $in: filters.priorities };
             }
 
+            if (filters.assigned !== undefined) {
+                query.assigneeId = { $exists: filters.assigned };
+            }
+
             return await this.scheduleModel
                 .find(query)
                 .sort({ priority: -1, dueDate: 1 })
@@ -155,6 +211,25 @@ export class ScheduleRepository {
         }
     }
 
+    /**
+     * Counts the tasks of some gardens that are not completed yet, in a transaction if one is given
+     */
+    async countPendingSchedules(gardenIds: string[], session?: ClientSession): Promise<number> {
+        try {
+            if (!gardenIds.length) {
+                return 0;
+            }
+
+            return await this.scheduleModel
+                .countDocuments({ gardenId: { $in: gardenIds }, completed: false })
+                .session(session ?? null)
+                .maxTimeMS(this.queryTimeout)
+                .exec();
+        } catch (error) {
+            throw this.handleError('countPendingSchedules', error);
+        }
+    }
+
     /**
      * Updates schedule with optimistic locking
      */
@@ -214,7 +289,12 @@ export class ScheduleRepository {
                                 completed: true,
                                 completedDate: completionData.completedDate,
                                 notes: completionData.notes,
-                                updatedAt: new Date()
+                                ...(completionData.completedBy ? { completedBy: completionData.completedBy } : {}),
+                                updatedAt: new Date(),
+                                ...(completionData.irrigation ? {
+                                    'task_metadata.irrigationRunId': completionData.irrigation.runId,
+                                    'task_metadata.deliveredMl': completionData.irrigation.deliveredMl
+                                } : {})
                             }
                         },
                         { new: true, session }
@@ -233,6 +313,81 @@ export class ScheduleRepository {
         }
     }
 
+    /**
+     * Retrieves the tasks of a garden completed within a period
+     * @returns Completed tasks, most recently completed first
+     */
+    async getCompletedTasks(gardenId: string, from: Date, to: Date): Promise<ISchedule[]> {
+        try {
+            return await this.scheduleModel
+                .find({ gardenId, completed: true, completedDate: { $gte: from, $lte: to } })
+                .sort({ completedDate: -1 })
+                .lean()
+                .maxTimeMS(this.queryTimeout)
+                .exec();
+        } catch (error) {
+            throw this.handleError('getCompletedTasks', error);
+        }
+    }
+
+    /**
+     * Assigns a pending task to a user, replacing any earlier assignee
+     * @returns The assigned task, or null when it is missing or completed
+     */
+    async assignTask(scheduleId: string, userId: string, assignedAt: Date): Promise<ISchedule | null> {
+        try {
+            return await this.scheduleModel
+                .findOneAndUpdate(
+                    { _id: scheduleId, completed: false },
+                    { $set: { assigneeId: userId, assignedAt } },
+                    { new: true }
+                )
+                .lean()
+                .exec();
+        } catch (error) {
+            throw this.handleError('assignTask', error);
+        }
+    }
+
+    /**
+     * Claims a pending task for a user
+     * The task must still be unclaimed, so two users cannot claim it even concurrently
+     * @returns The claimed task, or null when it is completed or claimed already
+     */
+    async claimTask(scheduleId: string, userId: string, assignedAt: Date): Promise<ISchedule | null> {
+        try {
+            return await this.scheduleModel
+                .findOneAndUpdate(
+                    { _id: scheduleId, completed: false, assigneeId: { $exists: false } },
+                    { $set: { assigneeId: userId, assignedAt } },
+                    { new: true }
+                )
+                .lean()
+                .exec();
+        } catch (error) {
+            throw this.handleError('claimTask', error);
+        }
+    }
+
+    /**
+     * Hands an assigned or claimed task back to the pool so another user can claim it
+     * @returns The released task, or null when it is completed or assigned to someone else
+     */
+    async releaseTask(scheduleId: string, userId: string): Promise<ISchedule | null> {
+        try {
+            return await this.scheduleModel
+                .findOneAndUpdate(
+                    { _id: scheduleId, completed: false, assigneeId: userId },
+                    { $unset: { assigneeId: '', assignedAt: '' } },
+                    { new: true }
+                )
+                .lean()
+                .exec();
+        } catch (error) {
+            throw this.handleError('releaseTask', error);
+        }
+    }
+
     /**
      * Deletes schedule with dependency checking
      */
@@ -0,0 +1,329 @@
+/**
+ * Repository class for sensor devices and the readings they submit
+ * Reads and writes the sensor_devices, sensor_readings and sensor_readings_hourly tables
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { ISensorAggregate, ISensorDevice, ISensorReading } from '../interfaces/sensor.interface';
+import { SensorMetric } from '../constants/sensor.constants';
+
+/**
+ * Spot within a garden readings are limited to
+ */
+export interface SensorReadingFilter {
+    zoneId?: string;
+    plantId?: string;
+}
+
+const INSERT_CHUNK_SIZE = 500;
+
+@Injectable()
+export class SensorRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a sensor device
+     * @param gardenId Garden the device submits readings for
+     * @param name Name given to the device
+     * @param keyHash Hash of the device key
+     * @returns Promise<ISensorDevice> Stored device
+     */
+    async createDevice(gardenId: string, name: string, keyHash: string): Promise<ISensorDevice> {
+        const [row] = await this.knex('sensor_devices')
+            .insert({
+                id: uuidv4(),
+                gardenId,
+                name,
+                keyHash
+            })
+            .returning('*');
+
+        return this.toDevice(row);
+    }
+
+    /**
+     * Retrieves a device by identifier
+     * @param deviceId Device identifier
+     * @returns Promise<ISensorDevice | undefined> Device, if it exists
+     */
+    async findDeviceById(deviceId: string): Promise<ISensorDevice | undefined> {
+        const row = await this.knex('sensor_devices').where({ id: deviceId }).first();
+        return row ? this.toDevice(row) : undefined;
+    }
+
+    /**
+     * Retrieves the device a key belongs to
+     * @param keyHash Hash of the device key
+     * @returns Promise<ISensorDevice | undefined> Device, if the key is known
+     */
+    async findDeviceByKeyHash(keyHash: string): Promise<ISensorDevice | undefined> {
+        const row = await this.knex('sensor_devices').where({ keyHash }).first();
+        return row ? this.toDevice(row) : undefined;
+    }
+
+    /**
+     * Lists the devices of a garden, including revoked ones
+     * @param gardenId Garden identifier
+     * @returns Promise<ISensorDevice[]> Devices, oldest first
+     */
+    async findDevicesByGarden(gardenId: string): Promise<ISensorDevice[]> {
+        const rows = await this.knex('sensor_devices')
+            .where({ gardenId })
+            .orderBy('createdAt', 'asc');
+
+        return rows.map(row => this.toDevice(row));
+    }
+
+    /**
+     * Revokes a device's key
+     * @param deviceId Device identifier
+     * @param revokedAt When the key was revoked
+     * @returns Promise<ISensorDevice | undefined> Updated device, if it exists
+     */
+    async revokeDevice(deviceId: string, revokedAt: Date): Promise<ISensorDevice | undefined> {
+        const [row] = await this.knex('sensor_devices')
+            .where({ id: deviceId })
+            .update({ revokedAt })
+            .returning('*');
+
+        return row ? this.toDevice(row) : undefined;
+    }
+
+    /**
+     * Records when a device last submitted readings
+     * @param deviceId Device identifier
+     * @param seenAt When the readings were received
+     */
+    async touchDevice(deviceId: string, seenAt: Date): Promise<void> {
+        await this.knex('sensor_devices')
+            .where({ id: deviceId })
+            .update({ lastSeenAt: seenAt });
+    }
+
+    /**
+     * Stores sensor readings
+     * @param readings Readings without identifiers
+     * @returns Promise<number> Number of readings stored
+     */
+    async createReadings(readings: Omit<ISensorReading, 'id'>[]): Promise<number> {
+        if (!readings.length) {
+            return 0;
+        }
+
+        const rows = readings.map(reading => ({
+            id: uuidv4(),
+            gardenId: reading.gardenId,
+            deviceId: reading.deviceId,
+            metric: reading.metric,
+            value: reading.value,
+            zoneId: reading.zoneId ?? null,
+            plantId: reading.plantId ?? null,
+            recordedAt: reading.recordedAt,
+            recordedHour: this.startOfHour(reading.recordedAt)
+        }));
+        await this.knex.batchInsert('sensor_readings', rows, INSERT_CHUNK_SIZE);
+
+        return rows.length;
+    }
+
+    /**
+     * Retrieves a garden's readings taken since an instant, newest first
+     * @param gardenId Garden identifier
+     * @param since Earliest reading time to include
+     * @returns Promise<ISensorReading[]> Readings
+     */
+    async findRecentReadings(gardenId: string, since: Date): Promise<ISensorReading[]> {
+        const rows = await this.knex('sensor_readings')
+            .where({ gardenId })
+            .andWhere('recordedAt', '>=', since)
+            .orderBy('recordedAt', 'desc');
+
+        return rows.map(row => this.toReading(row));
+    }
+
+    /**
+     * Retrieves a garden's readings of one metric within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param metric Metric measured
+     * @param from First instant of the period
+     * @param to Instant the period ends (exclusive)
+     * @param filter Zone or plant the readings are limited to
+     * @returns Promise<ISensorReading[]> Readings
+     */
+    async findReadings(
+        gardenId: string,
+        metric: SensorMetric,
+        from: Date,
+        to: Date,
+        filter: SensorReadingFilter = {}
+    ): Promise<ISensorReading[]> {
+        const query = this.knex('sensor_readings')
+            .where({ gardenId, metric })
+            .andWhere('recordedAt', '>=', from)
+            .andWhere('recordedAt', '<', to)
+            .orderBy('recordedAt', 'asc');
+        this.applyFilter(query, filter);
+
+        const rows = await query;
+        return rows.map(row => this.toReading(row));
+    }
+
+    /**
+     * Retrieves a garden's hourly aggregates of one metric within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param metric Metric measured
+     * @param from First instant of the period
+     * @param to Instant the period ends (exclusive)
+     * @param filter Zone or plant the aggregates are limited to
+     * @returns Promise<ISensorAggregate[]> Hourly aggregates
+     */
+    async findAggregates(
+        gardenId: string,
+        metric: SensorMetric,
+        from: Date,
+        to: Date,
+        filter: SensorReadingFilter = {}
+    ): Promise<ISensorAggregate[]> {
+        const query = this.knex('sensor_readings_hourly')
+            .where({ gardenId, metric })
+            .andWhere('hour', '>=', from)
+            .andWhere('hour', '<', to)
+            .orderBy('hour', 'asc');
+        this.applyFilter(query, filter);
+
+        const rows = await query;
+        return rows.map(row => this.toAggregate(row));
+    }
+
+    /**
+     * Rolls readings taken before an instant up into hourly aggregates and removes them
+     * @param before Start of the first hour to keep raw
+     * @returns Promise<number> Number of raw readings rolled up
+     */
+    async rollUpReadings(before: Date): Promise<number> {
+        return this.knex.transaction(async (trx): Promise<number> => {
+            const groups = await trx('sensor_readings')
+                .where('recordedAt', '<', before)
+                .groupBy('gardenId', 'metric', 'zoneId', 'plantId', 'recordedHour')
+                .select('gardenId', 'metric', 'zoneId', 'plantId', 'recordedHour')
+                .min({ min: 'value' })
+                .max({ max: 'value' })
+                .avg({ avg: 'value' })
+                .count({ count: '*' });
+
+            if (!groups.length) {
+                return 0;
+            }
+
+            const rows = groups.map((group: any) => ({
+                id: uuidv4(),
+                gardenId: group.gardenId,
+                metric: group.metric,
+                zoneId: group.zoneId,
+                plantId: group.plantId,
+                hour: group.recordedHour,
+                min: Number(group.min),
+                max: Number(group.max),
+                avg: Number(group.avg),
+                count: Number(group.count)
+            }));
+            await trx.batchInsert('sensor_readings_hourly', rows, INSERT_CHUNK_SIZE);
+
+            const removed: number = await trx('sensor_readings')
+                .where('recordedAt', '<', before)
+                .del();
+            return removed;
+        });
+    }
+
+    /**
+     * Removes hourly aggregates of hours before an instant
+     * @param before Start of the first hour to keep
+     * @returns Promise<number> Number of aggregates removed
+     */
+    async deleteAggregates(before: Date): Promise<number> {
+        return this.knex('sensor_readings_hourly')
+            .where('hour', '<', before)
+            .del();
+    }
+
+    /**
+     * Limits a readings or aggregates query to a zone or plant
+     * @private
+     */
+    private applyFilter(query: Knex.QueryBuilder, filter: SensorReadingFilter): void {
+        if (filter.zoneId) {
+            query.andWhere('zoneId', filter.zoneId);
+        }
+        if (filter.plantId) {
+            query.andWhere('plantId', filter.plantId);
+        }
+    }
+
+    /**
+     * Truncates an instant to the start of its hour
+     * @private
+     */
+    private startOfHour(date: Date): Date {
+        const hour = new Date(date);
+        hour.setUTCMinutes(0, 0, 0);
+        return hour;
+    }
+
+    /**
+     * Maps a database row onto a sensor device
+     * @private
+     */
+    private toDevice(row: any): ISensorDevice {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            name: row.name,
+            lastSeenAt: row.lastSeenAt ? new Date(row.lastSeenAt) : undefined,
+            revokedAt: row.revokedAt ? new Date(row.revokedAt) : undefined,
+            createdAt: row.createdAt
+        };
+    }
+
+    /**
+     * Maps a database row onto a sensor reading
+     * @private
+     */
+    private toReading(row: any): ISensorReading {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            deviceId: row.deviceId,
+            metric: row.metric,
+            value: Number(row.value),
+            zoneId: row.zoneId ?? undefined,
+            plantId: row.plantId ?? undefined,
+            recordedAt: new Date(row.recordedAt)
+        };
+    }
+
+    /**
+     * Maps a database row onto an hourly aggregate
+     * @private
+     */
+    private toAggregate(row: any): ISensorAggregate {
+        return {
+            gardenId: row.gardenId,
+            metric: row.metric,
+            zoneId: row.zoneId ?? undefined,
+            plantId: row.plantId ?? undefined,
+            hour: new Date(row.hour),
+            min: Number(row.min),
+            max: Number(row.max),
+            avg: Number(row.avg),
+            count: Number(row.count)
+        };
+    }
+}
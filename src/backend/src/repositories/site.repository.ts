@@ -0,0 +1,63 @@
+/**
+ * Site Repository
+ * @packageVersion 5.0
+ *
+ * Implements data persistence operations for community sites. Their plots are gardens
+ * and are stored by the garden repository.
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // @version ^8.0.0
+import { Model } from 'mongoose'; // @version ^6.0.0
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { ISite, ISiteInput } from '../interfaces/site.interface';
+
+/**
+ * Repository class handling community site data persistence operations
+ */
+@Injectable()
+export class SiteRepository {
+    private readonly logger = new Logger(SiteRepository.name);
+
+    constructor(
+        private readonly siteModel: Model<ISite>
+    ) {}
+
+    /**
+     * Creates a community site
+     * @param input Name and address of the site
+     * @param adminId User creating the site, who becomes its first admin
+     * @returns Promise resolving to the created site
+     */
+    async createSite(input: ISiteInput, adminId: string): Promise<ISite> {
+        const site = await this.siteModel.create({
+            name: input.name,
+            address: input.address,
+            adminIds: [adminId],
+            id: uuidv4()
+        });
+        this.logger.debug(`Site created with ID: ${site.id}`);
+        return site;
+    }
+
+    /**
+     * Retrieves a site by identifier
+     * @param id Site identifier
+     * @returns Promise resolving to the site, or null when there is none
+     */
+    async getSiteById(id: string): Promise<ISite | null> {
+        return this.siteModel.findOne({ id }).exec();
+    }
+
+    /**
+     * Lists the sites a user administers or holds a plot in
+     * @param userId User identifier
+     * @param siteIds Sites of the gardens the user has access to
+     * @returns Promise resolving to the sites, by name
+     */
+    async getSitesForUser(userId: string, siteIds: string[]): Promise<ISite[]> {
+        return this.siteModel
+            .find({ $or: [{ adminIds: userId }, { id: { $in: siteIds } }] })
+            .sort({ name: 1 })
+            .exec();
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * User Repository
+ * @packageVersion 5.0
+ *
+ * Implements data persistence operations for the users who own and share gardens.
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // @version ^8.0.0
+import { ClientSession, Model } from 'mongoose'; // @version ^6.0.0
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { IUser, IUserInput } from '../interfaces/user.interface';
+import { ConflictError } from '../utils/error.utils';
+
+/**
+ * Repository class handling user data persistence operations
+ */
+@Injectable()
+export class UserRepository {
+    private readonly logger = new Logger(UserRepository.name);
+
+    constructor(
+        private readonly userModel: Model<IUser>
+    ) {}
+
+    /**
+     * Creates a user account
+     * @param input Email, name and optional role of the user
+     * @param passwordHash bcrypt hash of the password the user signs in with
+     * @returns Promise resolving to the created user, without the password hash
+     * @throws Error if a user with the email already exists
+     */
+    async createUser(input: IUserInput, passwordHash?: string): Promise<IUser> {
+        const email = input.email.trim().toLowerCase();
+        if (await this.userModel.exists({ email })) {
+            throw new ConflictError(`User with email ${email} already exists`);
+        }
+
+        const user = await this.userModel.create({
+            ...input,
+            email,
+            id: uuidv4(),
+            ...(passwordHash && { passwordHash, passwordChangedAt: new Date() })
+        });
+        this.logger.debug(`User created with ID: ${user.id}`);
+        user.set('passwordHash', undefined);
+        return user;
+    }
+
+    /**
+     * Retrieves a user by identifier
+     * @param id User identifier
+     * @returns Promise resolving to the user, or null when there is none
+     */
+    async getUserById(id: string): Promise<IUser | null> {
+        return this.userModel.findOne({ id }).exec();
+    }
+
+    /**
+     * Runs work in a transaction that first writes the account of a user, so transactions
+     * started for the same user conflict and are retried one after the other
+     * @param userId User whose account is written; the work runs without it when omitted
+     * @param work Reads and writes made in the transaction
+     * @returns Promise resolving to the result of the work
+     */
+    async withUserLock<T>(userId: string | undefined, work: (session: ClientSession) => Promise<T>): Promise<T> {
+        const session = await this.userModel.db.startSession();
+        try {
+            let result: T;
+            await session.withTransaction(async () => {
+                if (userId) {
+                    await this.userModel
+                        .updateOne({ id: userId }, { $inc: { quotaLock: 1 } }, { session, timestamps: false })
+                        .exec();
+                }
+                result = await work(session);
+            });
+            return result!;
+        } finally {
+            await session.endSession();
+        }
+    }
+
+    /**
+     * Retrieves a user by email address
+     * @param email Email address, matched regardless of case
+     * @returns Promise resolving to the user, or null when there is none
+     */
+    async getUserByEmail(email: string): Promise<IUser | null> {
+        return this.userModel.findOne({ email: email.trim().toLowerCase() }).exec();
+    }
+
+    /**
+     * Retrieves a user by email address along with their password hash, to check a sign-in
+     * @param email Email address, matched regardless of case
+     * @returns Promise resolving to the user, or null when there is none
+     */
+    async getUserWithPasswordHash(email: string): Promise<IUser | null> {
+        return this.userModel
+            .findOne({ email: email.trim().toLowerCase() })
+            .select('+passwordHash')
+            .exec();
+    }
+
+    /**
+     * Replaces the password hash of a user
+     * @param id User identifier
+     * @param passwordHash bcrypt hash of the new password
+     * @param changedAt When the password changed
+     * @returns Promise resolving to whether the user exists
+     */
+    async setPasswordHash(id: string, passwordHash: string, changedAt: Date = new Date()): Promise<boolean> {
+        const result = await this.userModel
+            .updateOne({ id }, { $set: { passwordHash, passwordChangedAt: changedAt } })
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Retrieves several users at once
+     * @param ids User identifiers
+     * @returns Promise resolving to the users that exist
+     */
+    async getUsersByIds(ids: string[]): Promise<IUser[]> {
+        if (!ids.length) {
+            return [];
+        }
+        return this.userModel.find({ id: { $in: ids } }).exec();
+    }
+
+    /**
+     * Registers a device of a user for push notifications
+     * @param id User identifier
+     * @param deviceToken Push notification token of the device
+     * @returns Promise resolving to whether the user exists
+     */
+    async addDeviceToken(id: string, deviceToken: string): Promise<boolean> {
+        const result = await this.userModel
+            .updateOne({ id }, { $addToSet: { deviceTokens: deviceToken } })
+            .exec();
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Stops sending push notifications to a device of a user
+     * @param id User identifier
+     * @param deviceToken Push notification token of the device
+     * @returns Promise resolving to whether the device was registered
+     */
+    async removeDeviceToken(id: string, deviceToken: string): Promise<boolean> {
+        const result = await this.userModel
+            .updateOne({ id }, { $pull: { deviceTokens: deviceToken } })
+            .exec();
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Retrieves the push notification tokens of the devices several users registered
+     * @param ids User identifiers
+     * @returns Promise resolving to the device tokens of each user that has any
+     */
+    async getDeviceTokens(ids: string[]): Promise<Map<string, string[]>> {
+        if (!ids.length) {
+            return new Map();
+        }
+        const users = await this.userModel
+            .find({ id: { $in: [...new Set(ids)] } })
+            .select('+deviceTokens')
+            .exec();
+        return new Map(users.map(user => [user.id, user.deviceTokens ?? []]));
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * Repository class for zone water balances and the irrigation applied to zones
+ * Reads and writes the zone_water_balances and irrigation_events tables
+ * @version 1.0.0
+ */
+
+import { Inject, Injectable } from '@nestjs/common'; // ^8.0.0
+import { Knex } from 'knex'; // v2.5.1
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { KNEX_CONNECTION } from '../config/database.config';
+import { IIrrigationEvent, IZoneWaterBalance } from '../interfaces/water-balance.interface';
+
+@Injectable()
+export class WaterBalanceRepository {
+    constructor(
+        @Inject(KNEX_CONNECTION) private readonly knex: Knex
+    ) {}
+
+    /**
+     * Stores a zone's balance for a day, replacing the one already stored for that day
+     * @param balance Balance data without identifier
+     * @returns Promise<IZoneWaterBalance> Stored balance
+     */
+    async saveBalance(balance: Omit<IZoneWaterBalance, 'id'>): Promise<IZoneWaterBalance> {
+        const [row] = await this.knex('zone_water_balances')
+            .insert({
+                id: uuidv4(),
+                ...balance,
+                updatedAt: new Date()
+            })
+            .onConflict(['gardenId', 'zoneId', 'date'])
+            .merge()
+            .returning('*');
+
+        return this.toBalance(row);
+    }
+
+    /**
+     * Retrieves a zone's balances within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param from First day of the period
+     * @param to Last day of the period (inclusive)
+     * @returns Promise<IZoneWaterBalance[]> Daily balances
+     */
+    async findBalances(gardenId: string, zoneId: string, from: Date, to: Date): Promise<IZoneWaterBalance[]> {
+        const rows = await this.knex('zone_water_balances')
+            .where({ gardenId, zoneId })
+            .andWhere('date', '>=', from)
+            .andWhere('date', '<=', to)
+            .orderBy('date', 'asc');
+
+        return rows.map(row => this.toBalance(row));
+    }
+
+    /**
+     * Retrieves a zone's most recent balance on or before a day
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param date Last day to consider
+     * @returns Promise<IZoneWaterBalance | undefined> Latest balance, if any was kept
+     */
+    async findLatestBalance(gardenId: string, zoneId: string, date: Date): Promise<IZoneWaterBalance | undefined> {
+        const row = await this.knex('zone_water_balances')
+            .where({ gardenId, zoneId })
+            .andWhere('date', '<=', date)
+            .orderBy('date', 'desc')
+            .first();
+
+        return row ? this.toBalance(row) : undefined;
+    }
+
+    /**
+     * Stores water applied to a zone
+     * @param event Irrigation data without identifier
+     * @returns Promise<IIrrigationEvent> Stored irrigation event
+     */
+    async createIrrigation(event: Omit<IIrrigationEvent, 'id' | 'createdAt'>): Promise<IIrrigationEvent> {
+        const [row] = await this.knex('irrigation_events')
+            .insert({
+                id: uuidv4(),
+                gardenId: event.gardenId,
+                zoneId: event.zoneId,
+                appliedAt: event.appliedAt,
+                amountMm: event.amountMm,
+                source: event.source,
+                scheduleId: event.scheduleId ?? null
+            })
+            .returning('*');
+
+        return this.toIrrigation(row);
+    }
+
+    /**
+     * Retrieves the water applied to a zone within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param from First instant of the period
+     * @param to Instant the period ends (exclusive)
+     * @returns Promise<IIrrigationEvent[]> Irrigation events
+     */
+    async findIrrigation(gardenId: string, zoneId: string, from: Date, to: Date): Promise<IIrrigationEvent[]> {
+        const rows = await this.knex('irrigation_events')
+            .where({ gardenId, zoneId })
+            .andWhere('appliedAt', '>=', from)
+            .andWhere('appliedAt', '<', to)
+            .orderBy('appliedAt', 'asc');
+
+        return rows.map(row => this.toIrrigation(row));
+    }
+
+    /**
+     * Maps a database row onto a zone water balance
+     * @private
+     */
+    private toBalance(row: any): IZoneWaterBalance {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            zoneId: row.zoneId,
+            date: new Date(row.date),
+            soilType: row.soilType,
+            capacityMm: Number(row.capacityMm),
+            startMm: Number(row.startMm),
+            rainfallMm: Number(row.rainfallMm),
+            irrigationMm: Number(row.irrigationMm),
+            evaporationMm: Number(row.evaporationMm),
+            plantDemandMm: Number(row.plantDemandMm),
+            referenceEtMm: Number(row.referenceEtMm),
+            drainageMm: Number(row.drainageMm),
+            endMm: Number(row.endMm)
+        };
+    }
+
+    /**
+     * Maps a database row onto an irrigation event
+     * @private
+     */
+    private toIrrigation(row: any): IIrrigationEvent {
+        return {
+            id: row.id,
+            gardenId: row.gardenId,
+            zoneId: row.zoneId,
+            appliedAt: new Date(row.appliedAt),
+            amountMm: Number(row.amountMm),
+            source: row.source,
+            scheduleId: row.scheduleId ?? undefined,
+            createdAt: row.createdAt
+        };
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * Auth Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for authentication endpoints. Users register and
+ * sign in from a device, keep its session alive with single-use refresh tokens, sign
+ * devices out, register devices for push notifications and reset forgotten passwords
+ * with a one-time token.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { AuthController } from '../controllers/auth.controller';
+import { AuthService } from '../services/auth.service';
+import { MailService } from '../services/mail.service';
+import { AuthSessionRepository } from '../repositories/auth-session.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Auth module issuing and revoking the sessions of signed-in devices
+ */
+@Module({
+    controllers: [AuthController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            // Shared with the session checks of the authentication middleware
+            useFactory: getKnexConnection
+        },
+        AuthSessionRepository,
+        UserRepository,
+        MailService,
+        AuthService
+    ],
+    exports: [AuthService]
+})
+@ApiTags('auth')
+export class AuthModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Auth route configurations
+ */
+export const authRoutes: Routes = [
+    {
+        path: 'auth',
+        module: AuthModule,
+        children: [
+            {
+                path: 'register',
+                module: AuthModule
+            },
+            {
+                path: 'login',
+                module: AuthModule
+            },
+            {
+                path: 'refresh',
+                module: AuthModule
+            },
+            {
+                path: 'logout',
+                module: AuthModule
+            },
+            {
+                path: 'sessions',
+                module: AuthModule
+            },
+            {
+                path: 'sessions/:sessionId',
+                module: AuthModule
+            },
+            {
+                path: 'devices',
+                module: AuthModule
+            },
+            {
+                path: 'devices/:token',
+                module: AuthModule
+            },
+            {
+                path: 'password-reset/request',
+                module: AuthModule
+            },
+            {
+                path: 'password-reset/confirm',
+                module: AuthModule
+            }
+        ]
+    }
+];
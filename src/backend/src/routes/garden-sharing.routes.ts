@@ -0,0 +1,66 @@
+/**
+ * Garden Sharing Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for garden sharing endpoints. Garden owners hand
+ * out invitation codes and manage who their gardens are shared with; invited users accept
+ * the codes to join a garden as collaborators or viewers.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { GardenSharingController } from '../controllers/garden-sharing.controller';
+import { GardenSharingService } from '../services/garden-sharing.service';
+import { GardenRepository } from '../repositories/garden.repository';
+import { UserRepository } from '../repositories/user.repository';
+
+/**
+ * Garden sharing module managing garden members and invitation codes
+ */
+@Module({
+    controllers: [GardenSharingController],
+    providers: [
+        GardenRepository,
+        UserRepository,
+        GardenSharingService
+    ],
+    exports: [GardenSharingService]
+})
+@ApiTags('garden-sharing')
+export class GardenSharingModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Garden sharing route configurations
+ */
+export const gardenSharingRoutes: Routes = [
+    {
+        path: 'garden-sharing',
+        module: GardenSharingModule,
+        children: [
+            {
+                path: 'gardens/:gardenId/members',
+                module: GardenSharingModule
+            },
+            {
+                path: 'gardens/:gardenId/members/:userId',
+                module: GardenSharingModule
+            },
+            {
+                path: 'gardens/:gardenId/invitations',
+                module: GardenSharingModule
+            },
+            {
+                path: 'gardens/:gardenId/invitations/:code',
+                module: GardenSharingModule
+            },
+            {
+                path: 'invitations/:code/accept',
+                module: GardenSharingModule
+            }
+        ]
+    }
+];
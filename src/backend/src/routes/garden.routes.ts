@@ -65,6 +65,46 @@ export const gardenRoutes: Routes = [
             {
                 path: ':id/optimize',
                 module: GardenModule
+            },
+            {
+                path: ':id/timeline',
+                module: GardenModule
+            },
+            {
+                path: ':id/planting-calendar',
+                module: GardenModule
+            },
+            {
+                path: ':id/harvest-forecast',
+                module: GardenModule
+            },
+            {
+                path: ':id/harvests',
+                module: GardenModule
+            },
+            {
+                path: ':id/harvests/totals',
+                module: GardenModule
+            },
+            {
+                path: ':id/weather',
+                module: GardenModule
+            },
+            {
+                path: ':id/rainfall',
+                module: GardenModule
+            },
+            {
+                path: ':id/zones/:zoneId/harvests',
+                module: GardenModule
+            },
+            {
+                path: ':id/zones/:zoneId/water-balance',
+                module: GardenModule
+            },
+            {
+                path: ':id/plants/:plantId/harvests',
+                module: GardenModule
             }
         ]
     }
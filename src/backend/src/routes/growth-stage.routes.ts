@@ -0,0 +1,74 @@
+/**
+ * Growth Stage Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for growth stage endpoints. Gardeners read how far
+ * their plants have grown, chart the growing degree days each has accumulated and see when
+ * they are expected to be ready to harvest; the plants
+ * are advanced every morning by the growth stage service.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { GrowthStageController } from '../controllers/growth-stage.controller';
+import { GrowthStageService } from '../services/growth-stage.service';
+import { NotificationSchedulerService } from '../services/scheduling/notification-scheduler.service';
+import { PlantCatalogModule } from './plant-catalog.routes';
+import { GrowthTrackingRepository } from '../repositories/growth-tracking.repository';
+import { PestPressureRepository } from '../repositories/pest-pressure.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Growth stage module advancing the plants of every garden each morning
+ */
+@Module({
+    imports: [PlantCatalogModule],
+    controllers: [GrowthStageController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        GrowthTrackingRepository,
+        PestPressureRepository,
+        PlantRepository,
+        GardenRepository,
+        ScheduleRepository,
+        NotificationSchedulerService,
+        GrowthStageService
+    ],
+    exports: [GrowthStageService]
+})
+@ApiTags('growth-stages')
+export class GrowthStageModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Growth stage route configurations
+ */
+export const growthStageRoutes: Routes = [
+    {
+        path: 'growth-stages',
+        module: GrowthStageModule,
+        children: [
+            {
+                path: 'gardens/:gardenId',
+                module: GrowthStageModule
+            },
+            {
+                path: 'gardens/:gardenId/progression',
+                module: GrowthStageModule
+            },
+            {
+                path: 'plants/:plantId/degree-days',
+                module: GrowthStageModule
+            }
+        ]
+    }
+];
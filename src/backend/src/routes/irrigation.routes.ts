@@ -0,0 +1,100 @@
+/**
+ * Irrigation Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for irrigation endpoints. Garden owners link valves
+ * to zones and review the runs that carried out their watering tasks; the runs themselves
+ * are started and finished by the irrigation service.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { IrrigationController } from '../controllers/irrigation.controller';
+import { IrrigationDriver } from '../services/irrigation/irrigation-driver';
+import { SimulatedIrrigationDriver } from '../services/irrigation/simulated-irrigation.driver';
+import { IRRIGATION_CONFIG, IrrigationService } from '../services/irrigation/irrigation.service';
+import { ScheduleService } from '../services/schedule.service';
+import { PlantCatalogModule } from './plant-catalog.routes';
+import { QuotaModule } from './quota.routes';
+import { MqttModule } from '../services/mqtt/mqtt.module';
+import { IrrigationRepository } from '../repositories/irrigation.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+import { irrigationConfig, IrrigationConfig } from '../config/irrigation.config';
+import { IRRIGATION_DRIVERS, IRRIGATION_ERRORS } from '../constants/irrigation.constants';
+
+/**
+ * Creates the irrigation driver selected by the configuration
+ * @param config Irrigation configuration
+ * @returns IrrigationDriver Simulated irrigation driver
+ */
+export function createIrrigationDriver(config: IrrigationConfig): IrrigationDriver {
+    switch (config.driver) {
+        case IRRIGATION_DRIVERS.SIMULATED:
+            return new SimulatedIrrigationDriver();
+        default:
+            throw new Error(`${IRRIGATION_ERRORS.UNKNOWN_DRIVER}: ${config.driver}`);
+    }
+}
+
+/**
+ * Irrigation module running the valves linked to garden zones, with the MQTT bridge for
+ * controllers commanded over MQTT
+ */
+@Module({
+    imports: [PlantCatalogModule, QuotaModule, MqttModule],
+    controllers: [IrrigationController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        {
+            provide: IRRIGATION_CONFIG,
+            useValue: irrigationConfig
+        },
+        {
+            provide: IrrigationDriver,
+            useFactory: () => createIrrigationDriver(irrigationConfig)
+        },
+        IrrigationRepository,
+        ScheduleRepository,
+        GardenRepository,
+        PlantRepository,
+        ScheduleService,
+        IrrigationService
+    ],
+    exports: [IrrigationService]
+})
+@ApiTags('irrigation')
+export class IrrigationModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Irrigation route configurations
+ */
+export const irrigationRoutes: Routes = [
+    {
+        path: 'irrigation',
+        module: IrrigationModule,
+        children: [
+            {
+                path: 'gardens/:gardenId/valves',
+                module: IrrigationModule
+            },
+            {
+                path: 'gardens/:gardenId/valves/:valveId',
+                module: IrrigationModule
+            },
+            {
+                path: 'gardens/:gardenId/runs',
+                module: IrrigationModule
+            }
+        ]
+    }
+];
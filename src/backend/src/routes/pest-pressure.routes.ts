@@ -0,0 +1,73 @@
+/**
+ * Pest Pressure Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for pest pressure endpoints. Gardeners read the
+ * pests and diseases tracked and the risk calendar of their gardens, whose elevated risks
+ * raise inspection and treatment tasks.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { PestPressureController } from '../controllers/pest-pressure.controller';
+import { PestPressureService } from '../services/pest-pressure.service';
+import { WeatherModule } from '../services/weather/weather.module';
+import { SensorModule } from './sensor.routes';
+import { PlantCatalogModule } from './plant-catalog.routes';
+import { PestPressureRepository } from '../repositories/pest-pressure.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { RainfallRepository } from '../repositories/rainfall.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Pest pressure module running the daily assessment of every garden
+ */
+@Module({
+    imports: [WeatherModule, SensorModule, PlantCatalogModule],
+    controllers: [PestPressureController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        PestPressureRepository,
+        PlantRepository,
+        GardenRepository,
+        ScheduleRepository,
+        RainfallRepository,
+        PestPressureService
+    ],
+    exports: [PestPressureService]
+})
+@ApiTags('pest-pressure')
+export class PestPressureModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Pest pressure route configurations
+ */
+export const pestPressureRoutes: Routes = [
+    {
+        path: 'pest-pressure',
+        module: PestPressureModule,
+        children: [
+            {
+                path: 'threats',
+                module: PestPressureModule
+            },
+            {
+                path: 'gardens/:gardenId',
+                module: PestPressureModule
+            },
+            {
+                path: 'gardens/:gardenId/assessment',
+                module: PestPressureModule
+            }
+        ]
+    }
+];
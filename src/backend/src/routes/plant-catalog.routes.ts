@@ -0,0 +1,54 @@
+/**
+ * Plant Catalog Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for plant catalog management endpoints.
+ * Plant types and their traits are maintained at runtime through these routes.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { PlantCatalogController } from '../controllers/plant-catalog.controller';
+import { PlantCatalogService } from '../services/plant-catalog.service';
+import { PlantCatalogRepository } from '../repositories/plant-catalog.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Plant catalog module exporting the catalog service for plant trait lookups
+ */
+@Module({
+    controllers: [PlantCatalogController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        PlantCatalogRepository,
+        PlantRepository,
+        PlantCatalogService
+    ],
+    exports: [PlantCatalogService]
+})
+@ApiTags('plant-catalog')
+export class PlantCatalogModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Plant catalog route configurations
+ */
+export const plantCatalogRoutes: Routes = [
+    {
+        path: 'plant-catalog',
+        module: PlantCatalogModule,
+        children: [
+            {
+                path: ':type',
+                module: PlantCatalogModule
+            }
+        ]
+    }
+];
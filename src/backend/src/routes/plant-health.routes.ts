@@ -0,0 +1,73 @@
+/**
+ * Plant Health Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for plant health endpoints. Gardeners record what
+ * they see on their plants and read back the diagnoses, whose recommended treatments are
+ * scheduled as pest control tasks.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { PlantHealthController } from '../controllers/plant-health.controller';
+import { PlantHealthService } from '../services/plant-health.service';
+import { WaterBalanceService } from '../services/water-balance.service';
+import { WeatherModule } from '../services/weather/weather.module';
+import { SensorModule } from './sensor.routes';
+import { PlantCatalogModule } from './plant-catalog.routes';
+import { PlantHealthRepository } from '../repositories/plant-health.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { RainfallRepository } from '../repositories/rainfall.repository';
+import { WaterBalanceRepository } from '../repositories/water-balance.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Plant health module exporting the plant health service for growth assessment
+ */
+@Module({
+    imports: [WeatherModule, SensorModule, PlantCatalogModule],
+    controllers: [PlantHealthController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        PlantHealthRepository,
+        PlantRepository,
+        GardenRepository,
+        ScheduleRepository,
+        RainfallRepository,
+        WaterBalanceRepository,
+        WaterBalanceService,
+        PlantHealthService
+    ],
+    exports: [PlantHealthService]
+})
+@ApiTags('plant-health')
+export class PlantHealthModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Plant health route configurations
+ */
+export const plantHealthRoutes: Routes = [
+    {
+        path: 'plant-health',
+        module: PlantHealthModule,
+        children: [
+            {
+                path: 'plants/:plantId/observations',
+                module: PlantHealthModule
+            },
+            {
+                path: 'plants/:plantId/diagnosis',
+                module: PlantHealthModule
+            }
+        ]
+    }
+];
@@ -0,0 +1,45 @@
+/**
+ * Quota Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for quota endpoints. Each role limits the gardens a
+ * user owns and their pending tasks; users look up how much of their limits they have used.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { QuotaController } from '../controllers/quota.controller';
+import { QuotaService } from '../services/quota.service';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
+
+/**
+ * Quota module exporting the quota service consulted when gardens and tasks are created
+ */
+@Module({
+    controllers: [QuotaController],
+    providers: [
+        GardenRepository,
+        ScheduleRepository,
+        UserRepository,
+        QuotaService
+    ],
+    exports: [QuotaService]
+})
+@ApiTags('quotas')
+export class QuotaModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Quota route configurations
+ */
+export const quotaRoutes: Routes = [
+    {
+        path: 'quotas',
+        module: QuotaModule
+    }
+];
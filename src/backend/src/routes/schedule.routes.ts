@@ -40,10 +40,10 @@ export function configureScheduleRoutes(controller: ScheduleController): Router
         try {
             const { gardenId, daysAhead, environmentalFactors } = req.body;
 
-            // Validate request data
-            if (!gardenId || !daysAhead || !environmentalFactors) {
+            // Validate request data; environmental factors default to the garden's forecast
+            if (!gardenId || !daysAhead) {
                 return res.status(400).json({
-                    error: 'Missing required fields: gardenId, daysAhead, or environmentalFactors'
+                    error: 'Missing required fields: gardenId or daysAhead'
                 });
             }
 
@@ -112,17 +112,13 @@ export function configureScheduleRoutes(controller: ScheduleController): Router
     router.put('/:scheduleId/complete', notificationRateLimiter, async (req, res, next) => {
         try {
             const { scheduleId } = req.params;
-            const { environmentalFactors } = req.body;
-
-            if (!environmentalFactors) {
-                return res.status(400).json({
-                    error: 'Environmental factors are required for task completion'
-                });
-            }
+            const { environmentalFactors, harvest } = req.body;
 
             const updatedSchedule = await controller.markTaskCompleted(
                 scheduleId,
-                environmentalFactors
+                environmentalFactors,
+                harvest,
+                req
             );
 
             // Invalidate relevant caches
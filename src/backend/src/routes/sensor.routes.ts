@@ -0,0 +1,89 @@
+/**
+ * Sensor Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for garden sensor endpoints. Devices submit
+ * readings with their own key; registering devices and reading values back are done by
+ * garden owners.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { SensorController } from '../controllers/sensor.controller';
+import { SensorService } from '../services/sensor.service';
+import { SensorRepository } from '../repositories/sensor.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Sensor module exporting the sensor service for reading current conditions
+ */
+@Module({
+    controllers: [SensorController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        SensorRepository,
+        GardenRepository,
+        PlantRepository,
+        SensorService
+    ],
+    exports: [SensorService]
+})
+@ApiTags('sensors')
+export class SensorModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Reading ingestion route configurations, authenticated with the device's sensor key
+ */
+export const sensorReadingRoutes: Routes = [
+    {
+        path: 'sensors',
+        module: SensorModule,
+        children: [
+            {
+                path: 'readings',
+                module: SensorModule
+            },
+            {
+                path: 'readings/line',
+                module: SensorModule
+            }
+        ]
+    }
+];
+
+/**
+ * Device and reading history route configurations, authenticated with a user token
+ */
+export const sensorRoutes: Routes = [
+    {
+        path: 'sensors',
+        module: SensorModule,
+        children: [
+            {
+                path: 'gardens/:gardenId/devices',
+                module: SensorModule
+            },
+            {
+                path: 'gardens/:gardenId/devices/:deviceId',
+                module: SensorModule
+            },
+            {
+                path: 'gardens/:gardenId/latest',
+                module: SensorModule
+            },
+            {
+                path: 'gardens/:gardenId/history',
+                module: SensorModule
+            }
+        ]
+    }
+];
@@ -0,0 +1,85 @@
+/**
+ * Site Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for community site endpoints. Site admins lay out
+ * plots, allocate them to members and raise site-wide tasks; members claim and complete
+ * those tasks and follow the site dashboard.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { SiteController } from '../controllers/site.controller';
+import { SiteService } from '../services/site.service';
+import { SiteRepository } from '../repositories/site.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { ScheduleStatisticsRepository } from '../repositories/schedule-statistics.repository';
+import { KNEX_CONNECTION, getKnexConnection } from '../config/database.config';
+
+/**
+ * Site module managing community sites, their plots and site-wide tasks
+ */
+@Module({
+    controllers: [SiteController],
+    providers: [
+        {
+            provide: KNEX_CONNECTION,
+            useFactory: getKnexConnection
+        },
+        SiteRepository,
+        GardenRepository,
+        UserRepository,
+        ScheduleRepository,
+        ScheduleStatisticsRepository,
+        SiteService
+    ],
+    exports: [SiteService]
+})
+@ApiTags('sites')
+export class SiteModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Site route configurations
+ */
+export const siteRoutes: Routes = [
+    {
+        path: 'sites',
+        module: SiteModule,
+        children: [
+            {
+                path: ':siteId',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/plots',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/plots/:gardenId/holder',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/tasks',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/tasks/:taskId/claim',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/tasks/:taskId/complete',
+                module: SiteModule
+            },
+            {
+                path: ':siteId/dashboard',
+                module: SiteModule
+            }
+        ]
+    }
+];
@@ -0,0 +1,74 @@
+/**
+ * Task Assignment Routes Module
+ * @packageVersion 5.0
+ *
+ * Defines NestJS route configurations for task assignment endpoints. The users working a
+ * shared garden assign its tasks to each other, claim them from the garden's pool, set up
+ * rotations that pass a duty between them in turn and look back at who did what.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+import { Routes } from '@nestjs/core'; // @version ^9.0.0
+import { ApiTags } from '@nestjs/swagger'; // @version ^6.0.0
+
+import { TaskAssignmentController } from '../controllers/task-assignment.controller';
+import { TaskAssignmentService } from '../services/task-assignment.service';
+import { NotificationSchedulerService } from '../services/scheduling/notification-scheduler.service';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
+
+/**
+ * Task assignment module sharing out garden tasks and applying rotations each morning
+ */
+@Module({
+    controllers: [TaskAssignmentController],
+    providers: [
+        GardenRepository,
+        ScheduleRepository,
+        UserRepository,
+        NotificationSchedulerService,
+        TaskAssignmentService
+    ],
+    exports: [TaskAssignmentService]
+})
+@ApiTags('task-assignment')
+export class TaskAssignmentModule {
+    // Module configuration is handled through decorators
+}
+
+/**
+ * Task assignment route configurations
+ */
+export const taskAssignmentRoutes: Routes = [
+    {
+        path: 'task-assignment',
+        module: TaskAssignmentModule,
+        children: [
+            {
+                path: 'gardens/:gardenId/pool',
+                module: TaskAssignmentModule
+            },
+            {
+                path: 'gardens/:gardenId/tasks/:scheduleId/assignee',
+                module: TaskAssignmentModule
+            },
+            {
+                path: 'gardens/:gardenId/tasks/:scheduleId/claim',
+                module: TaskAssignmentModule
+            },
+            {
+                path: 'gardens/:gardenId/rotations',
+                module: TaskAssignmentModule
+            },
+            {
+                path: 'gardens/:gardenId/rotations/:taskType',
+                module: TaskAssignmentModule
+            },
+            {
+                path: 'gardens/:gardenId/completions',
+                module: TaskAssignmentModule
+            }
+        ]
+    }
+];
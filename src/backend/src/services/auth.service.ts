@@ -0,0 +1,382 @@
+/**
+ * Authentication Service
+ * @packageVersion 5.0
+ *
+ * Signs users in and keeps them signed in. Passwords are stored as bcrypt hashes. Each
+ * sign-in starts a session bound to the device fingerprint it was made from, whose access
+ * tokens carry the session as their ID. Refresh tokens are single use: every refresh
+ * exchanges one for the next pair, and presenting an exchanged token again revokes the
+ * whole session, since either the device or whoever stole the token is replaying it.
+ * Forgotten passwords are reset with a one-time token emailed to the user, never returned.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import * as bcrypt from 'bcrypt'; // ^5.1.0
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { UserRepository } from '../repositories/user.repository';
+import { AuthSessionRepository } from '../repositories/auth-session.repository';
+import { MailService } from './mail.service';
+import { IUser } from '../interfaces/user.interface';
+import { IAuthSession, IAuthTokens, IRefreshTokenRecord, IRegistrationInput } from '../interfaces/auth.interface';
+import { securityConfig } from '../config/security.config';
+import {
+    AUTH_ERRORS,
+    MAX_DEVICE_TOKEN_LENGTH,
+    SESSION_REVOCATION_REASONS,
+    SessionRevocationReason
+} from '../constants/auth.constants';
+import { generateToken, hashToken, parseTimeWindow, revokeSession } from '../utils/security.utils';
+import { BadRequestError, NotFoundError, UnauthorizedError } from '../utils/error.utils';
+
+@Injectable()
+export class AuthService {
+    private readonly logger = new Logger(AuthService.name);
+
+    // Unknown emails are checked against this hash so they take as long to refuse as wrong passwords
+    private dummyPasswordHash?: string;
+
+    constructor(
+        private readonly userRepository: UserRepository,
+        private readonly authSessionRepository: AuthSessionRepository,
+        private readonly mailService: MailService
+    ) {}
+
+    /**
+     * Creates an account with the basic user role and signs it in
+     * @param input Email, name and password of the user
+     * @param deviceFingerprint Fingerprint of the device signing in
+     * @param now Current time
+     * @returns Promise<IAuthTokens> Tokens of the new session
+     */
+    async register(input: IRegistrationInput, deviceFingerprint: string, now: Date = new Date()): Promise<IAuthTokens> {
+        this.requireFingerprint(deviceFingerprint);
+        if (typeof input?.email !== 'string' || !input.email.trim()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_EMAIL);
+        }
+        if (typeof input.name !== 'string' || !input.name.trim()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_NAME);
+        }
+        this.requireStrongPassword(input.password);
+
+        // Roles other than the basic one are granted by administrators, never chosen
+        const user = await this.userRepository.createUser(
+            { email: input.email, name: input.name.trim() },
+            await bcrypt.hash(input.password, securityConfig.authentication.passwordHashRounds)
+        );
+
+        this.logger.log(`User ${user.id} registered`);
+        return this.startSession(user, deviceFingerprint, now);
+    }
+
+    /**
+     * Signs a user in with their email and password
+     * @param email Email address
+     * @param password Password
+     * @param deviceFingerprint Fingerprint of the device signing in
+     * @param now Current time
+     * @returns Promise<IAuthTokens> Tokens of the new session
+     */
+    async login(email: string, password: string, deviceFingerprint: string, now: Date = new Date()): Promise<IAuthTokens> {
+        this.requireFingerprint(deviceFingerprint);
+        if (typeof email !== 'string' || typeof password !== 'string') {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
+        }
+
+        const user = await this.userRepository.getUserWithPasswordHash(email);
+        const matches = await bcrypt.compare(password, user?.passwordHash ?? await this.getDummyPasswordHash());
+        if (!matches || !user?.passwordHash) {
+            this.logger.warn('Failed sign-in attempt');
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_CREDENTIALS);
+        }
+
+        return this.startSession(user, deviceFingerprint, now);
+    }
+
+    /**
+     * Exchanges a refresh token for a new token pair of the same session
+     * A token exchanged before, or presented from another device, revokes the session
+     * @param refreshToken Refresh token issued with the last pair
+     * @param deviceFingerprint Fingerprint of the device refreshing
+     * @param now Current time
+     * @returns Promise<IAuthTokens> Next tokens of the session
+     */
+    async refresh(refreshToken: string, deviceFingerprint: string, now: Date = new Date()): Promise<IAuthTokens> {
+        this.requireFingerprint(deviceFingerprint);
+        if (typeof refreshToken !== 'string' || !refreshToken) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+        }
+
+        const record = await this.authSessionRepository.findRefreshToken(hashToken(refreshToken));
+        if (!record || record.revokedAt) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+        }
+        if (record.usedAt) {
+            await this.endSession(record, SESSION_REVOCATION_REASONS.TOKEN_REUSE, now);
+            throw new UnauthorizedError(AUTH_ERRORS.REFRESH_TOKEN_REUSED);
+        }
+        if (record.fingerprintHash !== hashToken(deviceFingerprint)) {
+            await this.endSession(record, SESSION_REVOCATION_REASONS.DEVICE_MISMATCH, now);
+            throw new UnauthorizedError(AUTH_ERRORS.DEVICE_MISMATCH);
+        }
+        if (record.expiresAt <= now) {
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+        }
+
+        // Two exchanges of one token racing each other count as a reuse
+        if (!await this.authSessionRepository.markRefreshTokenUsed(record.id, now)) {
+            await this.endSession(record, SESSION_REVOCATION_REASONS.TOKEN_REUSE, now);
+            throw new UnauthorizedError(AUTH_ERRORS.REFRESH_TOKEN_REUSED);
+        }
+
+        // The role is read again so role changes apply from the next refresh
+        const user = await this.userRepository.getUserById(record.userId);
+        if (!user) {
+            await this.endSession(record, SESSION_REVOCATION_REASONS.LOGOUT, now);
+            throw new UnauthorizedError(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+        }
+
+        return this.issueTokens(user, record.familyId, deviceFingerprint, now);
+    }
+
+    /**
+     * Signs out one session of a user
+     * @param userId User identifier
+     * @param sessionId Session identifier
+     * @param now Current time
+     */
+    async logout(userId: string, sessionId: string, now: Date = new Date()): Promise<void> {
+        const sessions = await this.authSessionRepository.listActiveSessions(userId, now);
+        if (!sessions.some(session => session.sessionId === sessionId)) {
+            throw new NotFoundError(AUTH_ERRORS.SESSION_NOT_FOUND);
+        }
+
+        await this.authSessionRepository.revokeFamily(sessionId, SESSION_REVOCATION_REASONS.LOGOUT, now);
+        revokeSession(sessionId);
+        this.logger.log(`Session ${sessionId} of user ${userId} signed out`);
+    }
+
+    /**
+     * Signs out every session of a user
+     * @param userId User identifier
+     * @param now Current time
+     * @returns Promise<number> Number of sessions signed out
+     */
+    async logoutAll(userId: string, now: Date = new Date()): Promise<number> {
+        return this.endUserSessions(userId, SESSION_REVOCATION_REASONS.LOGOUT_ALL, now);
+    }
+
+    /**
+     * Lists the devices a user is signed in on
+     * @param userId User identifier
+     * @param now Current time
+     * @returns Promise<IAuthSession[]> Sessions, most recently signed in first
+     */
+    async listSessions(userId: string, now: Date = new Date()): Promise<IAuthSession[]> {
+        return this.authSessionRepository.listActiveSessions(userId, now);
+    }
+
+    /**
+     * Registers a device of a user for push notifications, such as reminders of the tasks
+     * assigned to them
+     * @param userId User identifier
+     * @param deviceToken Push notification token of the device
+     */
+    async registerDevice(userId: string, deviceToken: string): Promise<void> {
+        this.requireDeviceToken(deviceToken);
+        if (!await this.userRepository.addDeviceToken(userId, deviceToken)) {
+            throw new NotFoundError(`User with ID ${userId} not found`);
+        }
+    }
+
+    /**
+     * Stops sending push notifications to a device of a user
+     * @param userId User identifier
+     * @param deviceToken Push notification token of the device
+     */
+    async unregisterDevice(userId: string, deviceToken: string): Promise<void> {
+        this.requireDeviceToken(deviceToken);
+        if (!await this.userRepository.removeDeviceToken(userId, deviceToken)) {
+            throw new NotFoundError(AUTH_ERRORS.DEVICE_NOT_REGISTERED);
+        }
+    }
+
+    /**
+     * Emails a one-time password reset token to the user with the email, if there is one
+     * Nothing tells the caller whether the email belongs to an account, so failures to send
+     * are only logged
+     * @param email Email address
+     * @param now Current time
+     */
+    async requestPasswordReset(email: string, now: Date = new Date()): Promise<void> {
+        if (typeof email !== 'string' || !email.trim()) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_EMAIL);
+        }
+
+        const user = await this.userRepository.getUserByEmail(email);
+        if (!user) {
+            return;
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date(now.getTime() + parseTimeWindow(securityConfig.authentication.passwordResetExpiresIn));
+        await this.authSessionRepository.createResetToken(user.id, hashToken(token), expiresAt);
+
+        try {
+            await this.mailService.send(
+                user.email,
+                'Reset your password',
+                `Use this code to choose a new password within ${securityConfig.authentication.passwordResetExpiresIn}:\n\n` +
+                    `${token}\n\nIf you did not ask for it, ignore this message.`
+            );
+        } catch (error) {
+            this.logger.error(`Failed to send the password reset token of user ${user.id}: ${error.message}`);
+            return;
+        }
+        this.logger.log(`Password reset requested for user ${user.id}`);
+    }
+
+    /**
+     * Sets a new password with a reset token and signs out every session of the user
+     * @param token Password reset token sent to the user
+     * @param password New password
+     * @param now Current time
+     */
+    async resetPassword(token: string, password: string, now: Date = new Date()): Promise<void> {
+        this.requireStrongPassword(password);
+        if (typeof token !== 'string' || !token) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_RESET_TOKEN);
+        }
+
+        const userId = await this.authSessionRepository.consumeResetToken(hashToken(token), now);
+        if (!userId) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_RESET_TOKEN);
+        }
+
+        const passwordHash = await bcrypt.hash(password, securityConfig.authentication.passwordHashRounds);
+        if (!await this.userRepository.setPasswordHash(userId, passwordHash, now)) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_RESET_TOKEN);
+        }
+
+        await this.endUserSessions(userId, SESSION_REVOCATION_REASONS.PASSWORD_RESET, now);
+        this.logger.log(`Password of user ${userId} reset`);
+    }
+
+    /**
+     * Starts a session, signing out the oldest sessions past the concurrent session limit
+     * @private
+     */
+    private async startSession(user: IUser, deviceFingerprint: string, now: Date): Promise<IAuthTokens> {
+        const maxSessions = securityConfig.authorization.session.maxConcurrentSessions;
+        const sessions = await this.authSessionRepository.listActiveSessions(user.id, now);
+
+        for (const session of sessions.slice(maxSessions - 1)) {
+            await this.authSessionRepository.revokeFamily(session.sessionId, SESSION_REVOCATION_REASONS.SESSION_LIMIT, now);
+            revokeSession(session.sessionId);
+        }
+
+        return this.issueTokens(user, uuidv4(), deviceFingerprint, now);
+    }
+
+    /**
+     * Signs a token pair for a session and stores its refresh token
+     * @private
+     */
+    private async issueTokens(user: IUser, sessionId: string, deviceFingerprint: string, now: Date): Promise<IAuthTokens> {
+        const tokens = generateToken({ id: user.id, role: user.role, deviceFingerprint, sessionId });
+
+        if (tokens.refreshToken) {
+            await this.authSessionRepository.createRefreshToken({
+                userId: user.id,
+                familyId: sessionId,
+                tokenHash: hashToken(tokens.refreshToken),
+                fingerprintHash: hashToken(deviceFingerprint),
+                expiresAt: new Date(now.getTime() + parseTimeWindow(securityConfig.jwt.refreshToken.expiresIn))
+            });
+        }
+
+        return {
+            ...tokens,
+            sessionId,
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                role: user.role,
+                createdAt: user.createdAt,
+                updatedAt: user.updatedAt
+            }
+        };
+    }
+
+    /**
+     * Revokes the session a refresh token belongs to
+     * @private
+     */
+    private async endSession(record: IRefreshTokenRecord, reason: SessionRevocationReason, now: Date): Promise<void> {
+        await this.authSessionRepository.revokeFamily(record.familyId, reason, now);
+        revokeSession(record.familyId);
+        this.logger.warn(`Session ${record.familyId} of user ${record.userId} revoked: ${reason}`);
+    }
+
+    /**
+     * Revokes every session of a user
+     * @private
+     */
+    private async endUserSessions(userId: string, reason: SessionRevocationReason, now: Date): Promise<number> {
+        const sessionIds = await this.authSessionRepository.revokeUserSessions(userId, reason, now);
+        sessionIds.forEach(sessionId => revokeSession(sessionId));
+        this.logger.log(`${sessionIds.length} sessions of user ${userId} revoked: ${reason}`);
+        return sessionIds.length;
+    }
+
+    /**
+     * Hashes a random password on first use, with the rounds of stored passwords
+     * @private
+     */
+    private async getDummyPasswordHash(): Promise<string> {
+        if (this.dummyPasswordHash) {
+            return this.dummyPasswordHash;
+        }
+
+        const passwordHash: string = await bcrypt.hash(
+            crypto.randomBytes(32).toString('hex'),
+            securityConfig.authentication.passwordHashRounds
+        );
+        this.dummyPasswordHash = passwordHash;
+        return passwordHash;
+    }
+
+    /**
+     * Ensures a device fingerprint was sent
+     * @private
+     */
+    private requireFingerprint(deviceFingerprint: string): void {
+        if (typeof deviceFingerprint !== 'string' || !deviceFingerprint) {
+            throw new UnauthorizedError(AUTH_ERRORS.FINGERPRINT_REQUIRED);
+        }
+    }
+
+    /**
+     * Ensures a device token was sent and is not longer than any real one
+     * @private
+     */
+    private requireDeviceToken(deviceToken: string): void {
+        if (typeof deviceToken !== 'string' || !deviceToken || deviceToken.length > MAX_DEVICE_TOKEN_LENGTH) {
+            throw new BadRequestError(AUTH_ERRORS.INVALID_DEVICE_TOKEN);
+        }
+    }
+
+    /**
+     * Ensures a password is long enough and short enough for bcrypt to use all of it
+     * @private
+     */
+    private requireStrongPassword(password: string): void {
+        const { minPasswordLength, maxPasswordLength } = securityConfig.authentication;
+        if (typeof password !== 'string' ||
+            password.length < minPasswordLength ||
+            Buffer.byteLength(password, 'utf8') > maxPasswordLength) {
+            throw new BadRequestError(AUTH_ERRORS.WEAK_PASSWORD);
+        }
+    }
+}
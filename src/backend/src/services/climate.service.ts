@@ -0,0 +1,269 @@
+/**
+ * Service class for garden climate and frost-safe planting windows
+ * Resolves a garden's hardiness zone and frost dates, either as entered by the gardener
+ * or looked up from the bundled offline table, and works out when each plant may be set out
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // ^8.0.0
+import moment from 'moment'; // ^2.29.0
+import { PlantCatalogService } from './plant-catalog.service';
+import {
+    IGarden,
+    IGardenClimate,
+    IPlantingWindow,
+    IPlantingDateCheck,
+    IPlantingCalendar
+} from '../interfaces/garden.interface';
+import { PlantType } from '../constants/plant.constants';
+import {
+    CLIMATE_SOURCES,
+    CLIMATE_LOOKUP,
+    PLANTING_DATE_STATUS,
+    HARDINESS_ZONE_FROST_DATES,
+    HARDINESS_REFERENCE_LOCATIONS,
+    FROST_TOLERANCE_OFFSET_DAYS
+} from '../constants/climate.constants';
+import { BadRequestError } from '../utils/error.utils';
+
+/**
+ * Frost-free period between a last spring frost and the following first fall frost
+ */
+interface FrostFreeSeason {
+    lastFrost: moment.Moment;
+    firstFrost: moment.Moment;
+}
+
+@Injectable()
+export class ClimateService {
+    private readonly logger = new Logger(ClimateService.name);
+
+    constructor(private readonly plantCatalog: PlantCatalogService) {}
+
+    /**
+     * Resolves the climate of a garden
+     * Frost dates entered by the gardener win; otherwise they are taken from the hardiness
+     * zone, which is itself looked up from the postal code or coordinates when not entered
+     * @param garden Garden with optional climate and location
+     * @returns IGardenClimate | undefined Climate, or undefined when nothing is known about the location
+     */
+    resolveClimate(garden: IGarden): IGardenClimate | undefined {
+        const entered = garden.climate;
+        if (entered?.lastSpringFrost && entered.firstFallFrost) {
+            return { ...entered, source: CLIMATE_SOURCES.USER };
+        }
+
+        const hardinessZone = entered?.hardinessZone ?? this.lookupHardinessZone(garden);
+        if (!hardinessZone) {
+            return undefined;
+        }
+
+        const frostDates = HARDINESS_ZONE_FROST_DATES[parseInt(hardinessZone, 10)];
+        // Zone frost dates are for the northern hemisphere; seasons are six months apart in the south
+        const southern = (garden.latitude ?? 0) < 0;
+
+        return {
+            hardinessZone,
+            lastSpringFrost: frostDates && (southern
+                ? this.shiftHalfYear(frostDates.lastSpringFrost)
+                : frostDates.lastSpringFrost),
+            firstFallFrost: frostDates && (southern
+                ? this.shiftHalfYear(frostDates.firstFallFrost)
+                : frostDates.firstFallFrost),
+            source: entered?.hardinessZone ? CLIMATE_SOURCES.USER : CLIMATE_SOURCES.LOOKUP
+        };
+    }
+
+    /**
+     * Looks up a hardiness zone from the bundled reference table
+     * A matching postal code prefix wins; otherwise the nearest reference point within
+     * the lookup distance is used
+     * @param location Postal code and coordinates of the garden
+     * @returns string | undefined Hardiness zone, or undefined when no reference point matches
+     */
+    lookupHardinessZone(location: Pick<IGarden, 'postalCode' | 'latitude' | 'longitude'>): string | undefined {
+        const postalCode = location.postalCode?.trim();
+        if (postalCode && /^\d{5}(-\d{4})?$/.test(postalCode)) {
+            const prefix = postalCode.slice(0, CLIMATE_LOOKUP.POSTAL_PREFIX_LENGTH);
+            const match = HARDINESS_REFERENCE_LOCATIONS.find(reference => reference.postalPrefix === prefix);
+            if (match) {
+                return match.hardinessZone;
+            }
+        }
+
+        if (location.latitude === undefined || location.longitude === undefined) {
+            return undefined;
+        }
+
+        let nearest: { hardinessZone: string; distanceKm: number } | undefined;
+        for (const reference of HARDINESS_REFERENCE_LOCATIONS) {
+            const distanceKm = this.calculateDistanceKm(
+                location.latitude,
+                location.longitude,
+                reference.latitude,
+                reference.longitude
+            );
+            if (distanceKm <= CLIMATE_LOOKUP.MAX_DISTANCE_KM && (!nearest || distanceKm < nearest.distanceKm)) {
+                nearest = { hardinessZone: reference.hardinessZone, distanceKm };
+            }
+        }
+
+        return nearest?.hardinessZone;
+    }
+
+    /**
+     * Works out the frost-safe planting window for a plant type
+     * The window belongs to the frost-free season that contains the reference date, or
+     * the next one when the reference date falls after the first fall frost
+     * @param climate Resolved garden climate
+     * @param plantType Catalog plant type
+     * @param referenceDate Date the window is worked out for
+     * @returns IPlantingWindow Safe window and suggested sowing dates
+     */
+    getPlantingWindow(climate: IGardenClimate, plantType: PlantType, referenceDate: Date): IPlantingWindow {
+        const entry = this.plantCatalog.requireEntry(plantType);
+        const reference = moment(referenceDate).startOf('day');
+        const season = this.getFrostFreeSeason(climate, reference);
+
+        let safeStart: moment.Moment;
+        let safeEnd: moment.Moment;
+        if (season) {
+            const offsetDays = FROST_TOLERANCE_OFFSET_DAYS[entry.frostTolerance];
+            safeStart = season.lastFrost.clone().add(offsetDays, 'days');
+            safeEnd = season.firstFrost.clone().subtract(offsetDays + entry.daysToMaturity, 'days');
+        } else {
+            // Frost-free gardens may be planted all year round
+            safeStart = reference.clone();
+            safeEnd = reference.clone().add(1, 'year');
+        }
+
+        const window: IPlantingWindow = {
+            plantType: entry.type,
+            frostTolerance: entry.frostTolerance,
+            safeStartDate: safeStart.toDate(),
+            safeEndDate: safeEnd.toDate()
+        };
+
+        if (entry.indoorSowingWeeks) {
+            window.sowIndoorsDate = safeStart.clone().subtract(entry.indoorSowingWeeks, 'weeks').toDate();
+            window.transplantDate = safeStart.toDate();
+        } else {
+            window.directSowDate = safeStart.toDate();
+        }
+
+        return window;
+    }
+
+    /**
+     * Checks whether a plant may be set out on a date
+     * Dates before the safe window or in a season too short for the crop are blocked;
+     * dates after the window only warn, since the crop may still give a partial harvest
+     * @param climate Resolved garden climate
+     * @param plantType Catalog plant type
+     * @param date Set-out date
+     * @returns IPlantingDateCheck Status, explanation and the window checked against
+     */
+    checkPlantingDate(climate: IGardenClimate, plantType: PlantType, date: Date): IPlantingDateCheck {
+        const entry = this.plantCatalog.requireEntry(plantType);
+        const window = this.getPlantingWindow(climate, plantType, date);
+        const day = moment(date).startOf('day');
+        const safeStart = moment(window.safeStartDate);
+        const safeEnd = moment(window.safeEndDate);
+
+        if (safeEnd.isBefore(safeStart)) {
+            return {
+                status: PLANTING_DATE_STATUS.BLOCKED,
+                message: `The frost-free season is too short for ${entry.name} to mature`,
+                window
+            };
+        }
+        if (day.isBefore(safeStart)) {
+            return {
+                status: PLANTING_DATE_STATUS.BLOCKED,
+                message: `${entry.name} set out before ${safeStart.format('MMMM D')} risks frost damage`,
+                window
+            };
+        }
+        if (day.isAfter(safeEnd)) {
+            return {
+                status: PLANTING_DATE_STATUS.WARNING,
+                message: `${entry.name} set out after ${safeEnd.format('MMMM D')} may not mature before the first fall frost`,
+                window
+            };
+        }
+
+        return { status: PLANTING_DATE_STATUS.OK, window };
+    }
+
+    /**
+     * Builds the planting calendar for every catalog plant type in a garden's climate
+     * @param garden Garden with climate or location
+     * @param referenceDate Date the windows are worked out for
+     * @returns IPlantingCalendar Climate and planting windows
+     * @throws Error if the garden's climate cannot be resolved
+     */
+    getPlantingCalendar(garden: IGarden, referenceDate: Date): IPlantingCalendar {
+        const climate = this.resolveClimate(garden);
+        if (!climate) {
+            throw new BadRequestError(
+                'Garden climate is unknown; enter a hardiness zone or frost dates, or a postal code or coordinates to look one up'
+            );
+        }
+
+        this.logger.debug(`Building planting calendar for garden ${garden.id} in zone ${climate.hardinessZone ?? 'unknown'}`);
+
+        return {
+            gardenId: garden.id,
+            climate,
+            windows: this.plantCatalog.listEntries()
+                .map(entry => this.getPlantingWindow(climate, entry.type, referenceDate))
+        };
+    }
+
+    /**
+     * Finds the frost-free season ending on or after the reference date
+     * @private
+     * @returns FrostFreeSeason | undefined Season, or undefined for frost-free climates
+     */
+    private getFrostFreeSeason(climate: IGardenClimate, reference: moment.Moment): FrostFreeSeason | undefined {
+        if (!climate.lastSpringFrost || !climate.firstFallFrost) {
+            return undefined;
+        }
+
+        for (let year = reference.year() - 1; year <= reference.year() + 1; year++) {
+            const lastFrost = moment(`${year}-${climate.lastSpringFrost}`, 'YYYY-MM-DD');
+            const firstFrost = moment(`${year}-${climate.firstFallFrost}`, 'YYYY-MM-DD');
+            // Southern hemisphere seasons run across the new year
+            if (!firstFrost.isAfter(lastFrost)) {
+                firstFrost.add(1, 'year');
+            }
+            if (!firstFrost.isBefore(reference)) {
+                return { lastFrost, firstFrost };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Moves a MM-DD frost date six months on
+     * @private
+     */
+    private shiftHalfYear(monthDay: string): string {
+        return moment(`2001-${monthDay}`, 'YYYY-MM-DD').add(6, 'months').format('MM-DD');
+    }
+
+    /**
+     * Great-circle distance between two coordinates
+     * @private
+     */
+    private calculateDistanceKm(latitude1: number, longitude1: number, latitude2: number, longitude2: number): number {
+        const toRadians = (degrees: number) => degrees * Math.PI / 180;
+        const deltaLatitude = toRadians(latitude2 - latitude1);
+        const deltaLongitude = toRadians(longitude2 - longitude1);
+        const a = Math.sin(deltaLatitude / 2) ** 2 +
+            Math.cos(toRadians(latitude1)) * Math.cos(toRadians(latitude2)) * Math.sin(deltaLongitude / 2) ** 2;
+
+        return 2 * CLIMATE_LOOKUP.EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+    }
+}
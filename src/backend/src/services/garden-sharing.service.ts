@@ -0,0 +1,280 @@
+/**
+ * Garden Sharing Service
+ * @packageVersion 5.0
+ *
+ * Lets the owner of a garden share it with other users as collaborators, who work the
+ * garden alongside them, or as viewers, who follow along. Gardens are shared by handing
+ * out invitation codes: the first user to accept a code joins the garden with its role.
+ * Households and community plots use this to have several people working on one garden.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { UserRepository } from '../repositories/user.repository';
+import {
+    IGarden,
+    IGardenInvitation,
+    IGardenMember,
+    IGardenMemberSummary,
+    IGardenMembership
+} from '../interfaces/garden.interface';
+import {
+    GARDEN_ROLES,
+    GARDEN_PERMISSION_ROLES,
+    GARDEN_SHARING_DEFAULTS,
+    GARDEN_SHARING_ERRORS,
+    GardenMemberRole
+} from '../constants/garden-sharing.constants';
+import { BadRequestError, ConflictError, ForbiddenError, GoneError, NotFoundError } from '../utils/error.utils';
+
+@Injectable()
+export class GardenSharingService {
+    private readonly logger = new Logger(GardenSharingService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly userRepository: UserRepository
+    ) {}
+
+    /**
+     * Checks whether a user may act on a garden with a garden-scoped permission
+     * @param gardenId Garden identifier
+     * @param userId User identifier
+     * @param permission Garden-scoped permission, such as 'write:own_garden'
+     * @returns Promise<boolean> True when the user's role in the garden grants the permission
+     */
+    async hasGardenPermission(gardenId: string, userId: string, permission: string): Promise<boolean> {
+        const role = await this.gardenRepository.getGardenRole(gardenId, userId);
+        return !!role && (GARDEN_PERMISSION_ROLES[permission] || []).includes(role);
+    }
+
+    /**
+     * Lists the owner of a garden and the users it is shared with
+     * @param gardenId Garden identifier
+     * @param userId User asking, who must have access to the garden
+     * @returns Promise<IGardenMemberSummary[]> Owner first, then members in the order they joined
+     */
+    async listMembers(gardenId: string, userId: string): Promise<IGardenMemberSummary[]> {
+        const garden = await this.requireGardenForUser(gardenId, userId);
+        const members = garden.members || [];
+        const users = await this.userRepository.getUsersByIds([
+            ...(garden.ownerId ? [garden.ownerId] : []),
+            ...members.map(member => member.userId)
+        ]);
+        const usersById = new Map(users.map(user => [user.id, user]));
+
+        const summaries: IGardenMemberSummary[] = garden.ownerId
+            ? [{ userId: garden.ownerId, role: GARDEN_ROLES.OWNER, addedAt: garden.createdAt }]
+            : [];
+        summaries.push(...members.map(member => ({
+            userId: member.userId,
+            role: member.role,
+            addedAt: member.addedAt
+        })));
+
+        return summaries.map(summary => ({
+            ...summary,
+            name: usersById.get(summary.userId)?.name,
+            email: usersById.get(summary.userId)?.email
+        }));
+    }
+
+    /**
+     * Hands out an invitation code sharing a garden with whoever accepts it
+     * @param gardenId Garden identifier
+     * @param ownerId User creating the invitation, who must own the garden
+     * @param role Role the invited user joins as
+     * @param now Current time
+     * @returns Promise<IGardenInvitation> Invitation with its code and expiry
+     */
+    async createInvitation(
+        gardenId: string,
+        ownerId: string,
+        role: GardenMemberRole,
+        now: Date = new Date()
+    ): Promise<IGardenInvitation> {
+        this.requireMemberRole(role);
+        const garden = await this.requireOwnedGarden(gardenId, ownerId);
+
+        if ((garden.members || []).length >= GARDEN_SHARING_DEFAULTS.MAX_MEMBERS) {
+            throw new BadRequestError(GARDEN_SHARING_ERRORS.TOO_MANY_MEMBERS);
+        }
+        const openInvitations = (garden.invitations || []).filter(invitation => this.isOpen(invitation, now));
+        if (openInvitations.length >= GARDEN_SHARING_DEFAULTS.MAX_OPEN_INVITATIONS) {
+            throw new BadRequestError(GARDEN_SHARING_ERRORS.TOO_MANY_INVITATIONS);
+        }
+
+        const invitation: IGardenInvitation = {
+            code: this.generateCode(),
+            role,
+            createdBy: ownerId,
+            createdAt: now,
+            expiresAt: moment(now).add(GARDEN_SHARING_DEFAULTS.INVITATION_TTL_DAYS, 'days').toDate()
+        };
+        await this.gardenRepository.addInvitation(gardenId, invitation);
+
+        this.logger.log(`Invitation created for garden ${gardenId} as ${role}`);
+        return invitation;
+    }
+
+    /**
+     * Withdraws an invitation code before it is accepted
+     * @param gardenId Garden identifier
+     * @param ownerId User withdrawing the invitation, who must own the garden
+     * @param code Invitation code
+     */
+    async revokeInvitation(gardenId: string, ownerId: string, code: string): Promise<void> {
+        await this.requireOwnedGarden(gardenId, ownerId);
+
+        if (!await this.gardenRepository.removeInvitation(gardenId, this.normalizeCode(code))) {
+            throw new NotFoundError(GARDEN_SHARING_ERRORS.INVITATION_NOT_FOUND);
+        }
+    }
+
+    /**
+     * Accepts an invitation code, sharing its garden with the user
+     * @param code Invitation code
+     * @param userId User accepting the invitation
+     * @param now Current time
+     * @returns Promise<IGardenMembership> Garden and role the user was given
+     */
+    async acceptInvitation(code: string, userId: string, now: Date = new Date()): Promise<IGardenMembership> {
+        const normalized = this.normalizeCode(code);
+        const garden = await this.gardenRepository.getGardenByInvitationCode(normalized);
+        const invitation = garden?.invitations?.find(candidate => candidate.code === normalized);
+        if (!garden || !invitation) {
+            throw new NotFoundError(GARDEN_SHARING_ERRORS.INVITATION_NOT_FOUND);
+        }
+        if (invitation.acceptedBy) {
+            throw new ConflictError(GARDEN_SHARING_ERRORS.INVITATION_USED);
+        }
+        if (!this.isOpen(invitation, now)) {
+            throw new GoneError(GARDEN_SHARING_ERRORS.INVITATION_EXPIRED);
+        }
+        if (garden.ownerId === userId || (garden.members || []).some(member => member.userId === userId)) {
+            throw new ConflictError(GARDEN_SHARING_ERRORS.ALREADY_MEMBER);
+        }
+        if ((garden.members || []).length >= GARDEN_SHARING_DEFAULTS.MAX_MEMBERS) {
+            throw new BadRequestError(GARDEN_SHARING_ERRORS.TOO_MANY_MEMBERS);
+        }
+
+        const member: IGardenMember = {
+            userId,
+            role: invitation.role,
+            addedBy: invitation.createdBy,
+            addedAt: now
+        };
+        // The update re-checks the invitation, so a code accepted concurrently fails here
+        if (!await this.gardenRepository.acceptInvitation(garden.id, normalized, member)) {
+            throw new ConflictError(GARDEN_SHARING_ERRORS.INVITATION_USED);
+        }
+
+        this.logger.log(`User ${userId} joined garden ${garden.id} as ${member.role}`);
+        return { gardenId: garden.id, ...member };
+    }
+
+    /**
+     * Changes what a user the garden is shared with may do
+     * @param gardenId Garden identifier
+     * @param ownerId User making the change, who must own the garden
+     * @param memberId User whose role changes
+     * @param role New role
+     */
+    async updateMemberRole(
+        gardenId: string,
+        ownerId: string,
+        memberId: string,
+        role: GardenMemberRole
+    ): Promise<void> {
+        this.requireMemberRole(role);
+        await this.requireOwnedGarden(gardenId, ownerId);
+
+        if (!await this.gardenRepository.setMemberRole(gardenId, memberId, role)) {
+            throw new NotFoundError(GARDEN_SHARING_ERRORS.MEMBER_NOT_FOUND);
+        }
+    }
+
+    /**
+     * Stops sharing a garden with a user
+     * The owner may remove anyone the garden is shared with; members may remove themselves
+     * @param gardenId Garden identifier
+     * @param userId User making the change
+     * @param memberId User who loses access
+     */
+    async removeMember(gardenId: string, userId: string, memberId: string): Promise<void> {
+        if (userId === memberId) {
+            await this.requireGardenForUser(gardenId, userId);
+        } else {
+            await this.requireOwnedGarden(gardenId, userId);
+        }
+
+        if (!await this.gardenRepository.removeMember(gardenId, memberId)) {
+            throw new NotFoundError(GARDEN_SHARING_ERRORS.MEMBER_NOT_FOUND);
+        }
+        this.logger.log(`User ${memberId} removed from garden ${gardenId}`);
+    }
+
+    /**
+     * Retrieves a garden the user has access to; gardens not shared with the user are
+     * reported as not found so their existence is not revealed
+     * @private
+     */
+    private async requireGardenForUser(gardenId: string, userId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenForUser(gardenId, userId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+
+    /**
+     * Retrieves a garden the user owns
+     * @private
+     */
+    private async requireOwnedGarden(gardenId: string, userId: string): Promise<IGarden> {
+        const garden = await this.requireGardenForUser(gardenId, userId);
+        if (garden.ownerId !== userId) {
+            throw new ForbiddenError(GARDEN_SHARING_ERRORS.NOT_OWNER);
+        }
+        return garden;
+    }
+
+    /**
+     * Rejects roles a garden cannot be shared with
+     * @private
+     */
+    private requireMemberRole(role: GardenMemberRole): void {
+        if (role !== GARDEN_ROLES.COLLABORATOR && role !== GARDEN_ROLES.VIEWER) {
+            throw new BadRequestError(GARDEN_SHARING_ERRORS.INVALID_ROLE);
+        }
+    }
+
+    /**
+     * Checks whether an invitation can still be accepted
+     * @private
+     */
+    private isOpen(invitation: IGardenInvitation, now: Date): boolean {
+        return !invitation.acceptedBy && moment(invitation.expiresAt).isAfter(now);
+    }
+
+    /**
+     * Generates a random invitation code that is easy to read out and type
+     * @private
+     */
+    private generateCode(): string {
+        const alphabet = GARDEN_SHARING_DEFAULTS.INVITATION_CODE_ALPHABET;
+        return Array.from(randomBytes(GARDEN_SHARING_DEFAULTS.INVITATION_CODE_LENGTH))
+            .map(byte => alphabet[byte % alphabet.length])
+            .join('');
+    }
+
+    /**
+     * Normalizes an entered invitation code, which is matched regardless of case and spacing
+     * @private
+     */
+    private normalizeCode(code: string): string {
+        return (code || '').replace(/[\s-]/g, '').toUpperCase();
+    }
+}
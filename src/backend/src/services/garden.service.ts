@@ -11,8 +11,33 @@ import { Injectable, Logger } from '@nestjs/common'; // @version ^9.0.0
 import { CircuitBreaker } from '@nestjs/common'; // @version ^9.0.0
 import { GardenRepository } from '../repositories/garden.repository';
 import { GardenOptimizerService } from './optimization/garden-optimizer.service';
-import { IGarden } from '../interfaces/garden.interface';
+import { SeasonPlannerService } from './optimization/season-planner.service';
+import { ClimateService } from './climate.service';
+import { HarvestService } from './harvest.service';
+import { WeatherService } from './weather/weather.service';
+import { RainWateringService } from './scheduling/rain-watering.service';
+import { WaterBalanceService } from './water-balance.service';
+import { QuotaService } from './quota.service';
+import {
+    IGarden,
+    ISeasonPlanRequest,
+    ISeasonTimeline,
+    IPlantingCalendar
+} from '../interfaces/garden.interface';
+import {
+    IHarvestForecast,
+    IHarvestInput,
+    IHarvestLogQuery,
+    IHarvestRecord,
+    ISeasonHarvestTotals
+} from '../interfaces/harvest.interface';
+import { IRainfallObservationInput, IWeatherForecast } from '../interfaces/weather.interface';
+import { IRainfallRecordResult } from '../interfaces/schedule.interface';
+import { IZoneWaterBalanceReport } from '../interfaces/water-balance.interface';
 import { GARDEN_AREA_LIMITS, SPACE_UTILIZATION_TARGET } from '../constants/garden.constants';
+import { calculatePlantableArea } from '../utils/garden-math.utils';
+import { hasIrregularLayout } from '../validators/garden.validator';
+import { BadRequestError, NotFoundError } from '../utils/error.utils';
 
 interface OptimizationResult {
     layout: IGarden;
@@ -41,13 +66,22 @@ export class GardenService {
 
     constructor(
         private readonly gardenRepository: GardenRepository,
-        private readonly gardenOptimizer: GardenOptimizerService
+        private readonly gardenOptimizer: GardenOptimizerService,
+        private readonly seasonPlanner: SeasonPlannerService,
+        private readonly climateService: ClimateService,
+        private readonly harvestService: HarvestService,
+        private readonly weatherService: WeatherService,
+        private readonly rainWateringService: RainWateringService,
+        private readonly waterBalanceService: WaterBalanceService,
+        private readonly quotaService: QuotaService
     ) {
         this.logger.log('Initializing GardenService with enhanced optimization capabilities');
     }
 
     /**
      * Creates a new garden with optimized layout and comprehensive validation
+     * The owner must be within the garden limit of their role, and only roles with advanced
+     * features get a companion-aware layout
      * @param gardenData Garden creation data
      * @returns Promise<IGarden>
      */
@@ -68,18 +102,24 @@ export class GardenService {
             }
 
             // Generate optimized layout
-            const optimizedGarden = await this.gardenOptimizer.optimizeGardenLayout(gardenData);
+            const optimizedGarden = await this.gardenOptimizer.optimizeGardenLayout(
+                gardenData,
+                await this.quotaService.canUseAdvancedFeatures(gardenData.ownerId)
+            );
 
             // Validate optimization results
             if (optimizedGarden.spaceUtilization < SPACE_UTILIZATION_TARGET) {
                 throw new Error(`Space utilization below target: ${optimizedGarden.spaceUtilization}%`);
             }
 
-            // Persist garden data
-            const createdGarden = await this.gardenRepository.createGarden({
-                ...gardenData,
-                zones: optimizedGarden.zones
-            });
+            // Persist garden data, within the owner's garden limit
+            const garden = { ...gardenData, zones: optimizedGarden.zones };
+            const createdGarden = gardenData.ownerId
+                ? await this.quotaService.createWithinGardenQuota(
+                    gardenData.ownerId,
+                    session => this.gardenRepository.createGarden(garden, session)
+                )
+                : await this.gardenRepository.createGarden(garden);
 
             // Update metrics and cache
             this.updatePerformanceMetrics(startTime, true, optimizedGarden.spaceUtilization);
@@ -107,12 +147,21 @@ export class GardenService {
         const garden = await this.gardenRepository.getGardenById(id);
         
         if (!garden) {
-            throw new Error(`Garden with ID ${id} not found`);
+            throw new NotFoundError(`Garden with ID ${id} not found`);
         }
 
         return garden;
     }
 
+    /**
+     * Lists the gardens a user owns or that are shared with them
+     * @param userId User identifier
+     * @returns Promise<IGarden[]>
+     */
+    async listGardens(userId: string): Promise<IGarden[]> {
+        return this.gardenRepository.getGardensForUser(userId);
+    }
+
     /**
      * Updates existing garden with optimization recalculation
      * @param id Garden identifier
@@ -132,7 +181,10 @@ export class GardenService {
 
             // Reoptimize layout if necessary
             if (this.requiresReoptimization(existingGarden, updateData)) {
-                const optimizedGarden = await this.gardenOptimizer.optimizeGardenLayout(updatedData);
+                const optimizedGarden = await this.gardenOptimizer.optimizeGardenLayout(
+                    updatedData,
+                    await this.quotaService.canUseAdvancedFeatures(existingGarden.ownerId)
+                );
                 updateData.zones = optimizedGarden.zones;
             }
 
@@ -156,13 +208,14 @@ export class GardenService {
     /**
      * Deletes garden and associated data
      * @param id Garden identifier
+     * @param ownerId User who must own the garden; users it is shared with cannot delete it
      * @returns Promise<boolean>
      */
-    async deleteGarden(id: string): Promise<boolean> {
+    async deleteGarden(id: string, ownerId?: string): Promise<boolean> {
         this.logger.debug(`Deleting garden ${id}`);
         
         try {
-            const deleted = await this.gardenRepository.deleteGarden(id);
+            const deleted = await this.gardenRepository.deleteGarden(id, ownerId);
             if (!deleted) {
                 throw new Error(`Failed to delete garden ${id}`);
             }
@@ -176,6 +229,106 @@ export class GardenService {
         }
     }
 
+    /**
+     * Plans plantings for a whole season across the garden's zones
+     * @param id Garden identifier
+     * @param request Season dates and crops to schedule
+     * @returns Promise<ISeasonTimeline>
+     */
+    async planSeason(id: string, request: ISeasonPlanRequest): Promise<ISeasonTimeline> {
+        this.logger.debug(`Planning season for garden ${id}`);
+        const garden = await this.getGardenById(id);
+
+        return this.seasonPlanner.planSeason(garden, request);
+    }
+
+    /**
+     * Lists frost-safe planting windows and suggested sowing dates for every catalog plant type
+     * @param id Garden identifier
+     * @param referenceDate Date the windows are worked out for; defaults to today
+     * @returns Promise<IPlantingCalendar>
+     */
+    async getPlantingCalendar(id: string, referenceDate: Date = new Date()): Promise<IPlantingCalendar> {
+        if (Number.isNaN(referenceDate.getTime())) {
+            throw new BadRequestError('Planting calendar date must be a valid date');
+        }
+
+        const garden = await this.getGardenById(id);
+        return this.climateService.getPlantingCalendar(garden, referenceDate);
+    }
+
+    /**
+     * Projects the garden's yield per week alongside the harvests recorded so far
+     * @param id Garden identifier
+     * @param from Date inside the first forecast week; defaults to today
+     * @param weeks Number of weeks to forecast
+     * @returns Promise<IHarvestForecast>
+     */
+    async getHarvestForecast(id: string, from?: Date, weeks?: number): Promise<IHarvestForecast> {
+        this.logger.debug(`Forecasting harvest for garden ${id}`);
+        return this.harvestService.getHarvestForecast(id, from, weeks);
+    }
+
+    /**
+     * Records a harvest picked in the garden
+     * @param id Garden identifier
+     * @param input Harvested plant, date, weight and notes
+     * @returns Promise<IHarvestRecord>
+     */
+    async recordHarvest(id: string, input: IHarvestInput): Promise<IHarvestRecord> {
+        return this.harvestService.recordHarvest(id, input);
+    }
+
+    /**
+     * Lists the garden's harvest log, optionally for one plant, zone or season
+     * @param id Garden identifier
+     * @param filters Optional plant, zone and season filters
+     * @returns Promise<IHarvestRecord[]>
+     */
+    async listHarvests(id: string, filters: Omit<IHarvestLogQuery, 'gardenId'> = {}): Promise<IHarvestRecord[]> {
+        return this.harvestService.listHarvests({ ...filters, gardenId: id });
+    }
+
+    /**
+     * Totals the garden's harvest log per season
+     * @param id Garden identifier
+     * @returns Promise<ISeasonHarvestTotals[]>
+     */
+    async getHarvestTotals(id: string): Promise<ISeasonHarvestTotals[]> {
+        return this.harvestService.getSeasonTotals(id);
+    }
+
+    /**
+     * Retrieves the weather forecast for the garden's location
+     * @param id Garden identifier
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast>
+     */
+    async getWeatherForecast(id: string, days?: number): Promise<IWeatherForecast> {
+        return this.weatherService.getGardenForecast(id, days);
+    }
+
+    /**
+     * Records rain measured at the garden, skipping or postponing watering it makes unnecessary
+     * @param id Garden identifier
+     * @param input Rain measured and when the measurement ended
+     * @returns Promise<IRainfallRecordResult>
+     */
+    async recordRainfall(id: string, input: IRainfallObservationInput): Promise<IRainfallRecordResult> {
+        return this.rainWateringService.recordRainfall(id, input);
+    }
+
+    /**
+     * Retrieves a zone's daily soil water balance and when it next needs watering
+     * @param id Garden identifier
+     * @param zoneId Zone identifier
+     * @param days Number of days of history
+     * @returns Promise<IZoneWaterBalanceReport>
+     */
+    async getZoneWaterBalance(id: string, zoneId: string, days?: number): Promise<IZoneWaterBalanceReport> {
+        return this.waterBalanceService.getZoneWaterBalance(id, zoneId, days);
+    }
+
     /**
      * Retrieves current optimization metrics
      * @returns OptimizationMetrics
@@ -198,7 +351,11 @@ export class GardenService {
         }
 
         const totalZoneArea = garden.zones.reduce((sum, zone) => sum + zone.area, 0);
-        if (Math.abs(totalZoneArea - garden.area) > 0.1) {
+        if (hasIrregularLayout(garden)) {
+            if (totalZoneArea - calculatePlantableArea(garden) > 0.1) {
+                throw new Error('Total zone area must not exceed plantable garden area');
+            }
+        } else if (Math.abs(totalZoneArea - garden.area) > 0.1) {
             throw new Error('Total zone area must match garden area');
         }
     }
@@ -214,6 +371,11 @@ export class GardenService {
         return !!(
             updateData.area ||
             updateData.zones ||
+            updateData.boundary ||
+            updateData.obstacles ||
+            updateData.latitude !== undefined ||
+            updateData.orientation !== undefined ||
+            updateData.rotationSeasons !== undefined ||
             Math.abs(existingGarden.area - (updateData.area || existingGarden.area)) > 0.1
         );
     }
@@ -254,7 +416,7 @@ export class GardenService {
      * @private
      */
     private generateCacheKey(garden: IGarden): string {
-        return `${garden.id}_${garden.area}_${JSON.stringify(garden.zones)}`;
+        return `${garden.id}_${garden.ownerId ?? ''}_${garden.area}_${JSON.stringify(garden.zones)}_${JSON.stringify(garden.boundary || [])}_${JSON.stringify(garden.obstacles || [])}_${garden.latitude ?? ''}_${garden.orientation ?? ''}_${garden.rotationSeasons ?? ''}`;
     }
 
     private getCachedOptimization(key: string): OptimizationResult | null {
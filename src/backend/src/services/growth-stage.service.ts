@@ -0,0 +1,493 @@
+/**
+ * Growth Stage Service
+ * @packageVersion 5.0
+ *
+ * Advances the plants of each garden through their growth stages every morning. A plant
+ * accumulates growing degree days above the base temperature of its catalog entry from the
+ * garden's recorded weather, counted in average growing days, and moves from seedling to
+ * growing to mature over the stage durations of its catalog entry. Its expected harvest
+ * date follows the pace of its recent degree days. At its days to maturity it is
+ * ready to harvest: crops picked over a season enter the harvesting stage, and each ready
+ * plant gets a harvest task and the gardener is told it is time to harvest.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { GrowthTrackingRepository } from '../repositories/growth-tracking.repository';
+import { PestPressureRepository } from '../repositories/pest-pressure.repository';
+import { PlantCatalogService } from './plant-catalog.service';
+import { NotificationSchedulerService } from './scheduling/notification-scheduler.service';
+import { IGarden } from '../interfaces/garden.interface';
+import { IPlant, IPlantCatalogEntry } from '../interfaces/plant.interface';
+import { ISchedule, TaskFrequency, TaskPriority, TaskType } from '../interfaces/schedule.interface';
+import { IWeatherDay } from '../interfaces/pest-pressure.interface';
+import {
+    IDegreeDay,
+    IDegreeDayCurve,
+    IGrowthProgression,
+    IPlantGrowthTracking
+} from '../interfaces/growth-stage.interface';
+import { INotificationPayload, NotificationType } from '../interfaces/notification.interface';
+import { GROWTH_STAGES } from '../constants/plant.constants';
+import { PLANT_HEALTH_STATUS } from '../constants/plant-health.constants';
+import { GROWTH_PROGRESSION_DEFAULTS } from '../constants/growth-stage.constants';
+import { BadRequestError, NotFoundError } from '../utils/error.utils';
+
+/**
+ * Growth stages in the order plants pass through them
+ */
+const STAGE_ORDER: GROWTH_STAGES[] = [
+    GROWTH_STAGES.SEEDLING,
+    GROWTH_STAGES.GROWING,
+    GROWTH_STAGES.MATURE,
+    GROWTH_STAGES.HARVESTING
+];
+
+/**
+ * Growing days a plant has developed by when it enters a stage
+ */
+interface IStageThreshold {
+    stage: GROWTH_STAGES;
+    progressDays: number;
+}
+
+/**
+ * Growth of a plant worked out from its degree days
+ */
+interface IPlantGrowth {
+    baseTemperature: number;
+    degreeDaysPerDay: number;
+    daysToMaturity: number;
+    days: IDegreeDay[];
+    degreeDays: number;
+    progressDays: number;
+    thresholds: IStageThreshold[];
+    reachedOn: (progressDays: number) => Date | undefined;
+    readyOn?: Date;
+    expectedHarvestDate: Date;
+}
+
+@Injectable()
+export class GrowthStageService {
+    private readonly logger = new Logger(GrowthStageService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly growthTrackingRepository: GrowthTrackingRepository,
+        private readonly pestPressureRepository: PestPressureRepository,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly notificationScheduler: NotificationSchedulerService
+    ) {}
+
+    /**
+     * Advances the plants of every garden each morning, after the day's weather is recorded
+     * A failing garden is logged and does not stop the others from being advanced
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_7AM)
+    async handleDailyProgression(): Promise<void> {
+        const gardenIds = await this.gardenRepository.getGardenIds();
+
+        for (const gardenId of gardenIds) {
+            try {
+                await this.progressGarden(gardenId);
+            } catch (error) {
+                this.logger.error(`Failed to advance growth stages for garden ${gardenId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Advances the plants of a garden through their growth stages and tracks their growth
+     * Plants are never moved back, so a stage set by hand ahead of their growth stands.
+     * Plants ready to harvest get a harvest task unless one is pending or was done since
+     * they became ready, and the gardener is told about each new task; in gardens rotating
+     * harvests, the rotation tells the user it assigns the task to instead.
+     * @param gardenId Garden identifier
+     * @param now Current time
+     * @returns Promise<IGrowthProgression[]> Growth of each plant in the catalog
+     */
+    async progressGarden(gardenId: string, now: Date = new Date()): Promise<IGrowthProgression[]> {
+        const garden = await this.requireGarden(gardenId);
+        const plants = await this.plantRepository.getPlantsByGarden(gardenId);
+        if (!plants.length) {
+            return [];
+        }
+
+        const today = moment.utc(now).startOf('day');
+        const firstPlanted = moment.utc(Math.min(...plants.map(plant => new Date(plant.plantedDate).getTime())))
+            .startOf('day');
+        const [weather, tracked, harvestTasks] = await Promise.all([
+            this.pestPressureRepository.findWeatherDays(gardenId, firstPlanted.toDate(), today.toDate()),
+            this.growthTrackingRepository.findByPlants(plants.map(plant => plant.id)),
+            this.findHarvestTasks(gardenId, firstPlanted.toDate(), now)
+        ]);
+        const weatherByDay = new Map(weather.map(day => [this.dayKey(day.date), day]));
+        const trackedByPlant = new Map(tracked.map(tracking => [tracking.plantId, tracking]));
+
+        const rotatesHarvests = (garden.taskRotations || []).some(rotation => rotation.taskType === TaskType.HARVESTING);
+        const progressions: IGrowthProgression[] = [];
+        const notifications: INotificationPayload[] = [];
+        for (const plant of plants) {
+            const entry = this.plantCatalog.getEntry(plant.type);
+            if (!entry) {
+                this.logger.warn(`Plant ${plant.id} of type ${plant.type} is not in the catalog; not advanced`);
+                continue;
+            }
+
+            const progression = await this.progressPlant(
+                gardenId,
+                plant,
+                entry,
+                weatherByDay,
+                trackedByPlant.get(plant.id),
+                harvestTasks,
+                now
+            );
+            progressions.push(progression);
+            if (progression.harvestScheduleId && !rotatesHarvests) {
+                notifications.push(this.buildNotification(gardenId, plant, entry, progression.harvestScheduleId, now));
+            }
+        }
+
+        if (notifications.length) {
+            await this.notificationScheduler.scheduleBatchNotifications(notifications, now);
+        }
+
+        const advanced = progressions.filter(progression => progression.tracking.currentStage !== progression.previousStage);
+        this.logger.log(`Advanced ${advanced.length} of ${progressions.length} plants in garden ${gardenId}`);
+        return progressions;
+    }
+
+    /**
+     * Retrieves the growth tracked for the plants of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IPlantGrowthTracking[]> Tracking of the plants advanced so far
+     */
+    async getGardenTracking(gardenId: string): Promise<IPlantGrowthTracking[]> {
+        await this.requireGarden(gardenId);
+        const plants = await this.plantRepository.getPlantsByGarden(gardenId);
+
+        return this.growthTrackingRepository.findByPlants(plants.map(plant => plant.id));
+    }
+
+    /**
+     * Works out the growing degree days of a plant since it was planted, for charting its
+     * progress to maturity
+     * @param plantId Plant identifier
+     * @param now Current time
+     * @returns Promise<IDegreeDayCurve> Daily and accumulated degree days against the stages
+     */
+    async getDegreeDayCurve(plantId: string, now: Date = new Date()): Promise<IDegreeDayCurve> {
+        const plant = await this.plantRepository.getPlantById(plantId);
+        if (!plant) {
+            throw new NotFoundError(`Plant with ID ${plantId} not found`);
+        }
+        if (!plant.gardenId) {
+            throw new BadRequestError(`Plant ${plantId} is not set out in a garden`);
+        }
+        const entry = this.plantCatalog.requireEntry(plant.type);
+
+        const today = moment.utc(now).startOf('day');
+        const weather = await this.pestPressureRepository.findWeatherDays(
+            plant.gardenId,
+            moment.utc(plant.plantedDate).startOf('day').toDate(),
+            today.toDate()
+        );
+        const growth = this.measureGrowth(plant, entry, new Map(weather.map(day => [this.dayKey(day.date), day])), today);
+
+        return {
+            plantId: plant.id,
+            plantType: plant.type,
+            gardenId: plant.gardenId,
+            plantedDate: plant.plantedDate,
+            baseTemperature: growth.baseTemperature,
+            stages: growth.thresholds.map(threshold => ({
+                stage: threshold.stage,
+                degreeDays: this.round(threshold.progressDays * growth.degreeDaysPerDay)
+            })),
+            degreeDaysToMaturity: this.round(growth.daysToMaturity * growth.degreeDaysPerDay),
+            accumulatedDegreeDays: this.round(growth.degreeDays),
+            expectedHarvestDate: growth.expectedHarvestDate,
+            days: growth.days
+        };
+    }
+
+    /**
+     * Works out the growing degree days of a day for a plant
+     * @param weather Weather of the day, if recorded
+     * @param baseTemperature Mean temperature in °C above which the plant develops
+     * @returns number Degree days, those of an average growing day when the weather is not recorded
+     */
+    getDegreeDays(weather: IWeatherDay | undefined, baseTemperature: number): number {
+        const degreeDaysPerDay = GROWTH_PROGRESSION_DEFAULTS.AVERAGE_DAY_TEMPERATURE - baseTemperature;
+        if (!weather) {
+            return degreeDaysPerDay;
+        }
+
+        const meanTemperature = (weather.minTemperature + weather.maxTemperature) / 2;
+        return Math.min(
+            GROWTH_PROGRESSION_DEFAULTS.MAX_DAY_PROGRESS * degreeDaysPerDay,
+            Math.max(0, meanTemperature - baseTemperature)
+        );
+    }
+
+    /**
+     * Advances a plant and stores its growth tracking
+     * @private
+     */
+    private async progressPlant(
+        gardenId: string,
+        plant: IPlant,
+        entry: IPlantCatalogEntry,
+        weatherByDay: Map<string, IWeatherDay>,
+        tracked: IPlantGrowthTracking | undefined,
+        harvestTasks: ISchedule[],
+        now: Date
+    ): Promise<IGrowthProgression> {
+        const today = moment.utc(now).startOf('day');
+        const growth = this.measureGrowth(plant, entry, weatherByDay, today);
+
+        const grown = growth.thresholds.filter(threshold => growth.progressDays >= threshold.progressDays).pop()!;
+        const previousStage = plant.growthStage;
+        const currentStage = STAGE_ORDER.indexOf(grown.stage) > STAGE_ORDER.indexOf(previousStage)
+            ? grown.stage
+            : previousStage;
+        if (currentStage !== previousStage) {
+            await this.plantRepository.setGrowthStage(plant.id, currentStage);
+        }
+
+        const stageStartedAt = tracked?.currentStage === currentStage
+            ? tracked.stageStartedAt
+            : currentStage === grown.stage ? growth.reachedOn(grown.progressDays)! : today.toDate();
+        const readyOn = growth.readyOn
+            ?? (currentStage === GROWTH_STAGES.HARVESTING ? stageStartedAt : undefined);
+
+        const tracking: IPlantGrowthTracking = {
+            plantId: plant.id,
+            catalogId: entry.id,
+            currentStage,
+            stageStartedAt,
+            daysInStage: Math.max(0, today.diff(moment.utc(stageStartedAt), 'days')),
+            progressDays: this.round(growth.progressDays),
+            degreeDays: this.round(growth.degreeDays),
+            expectedHarvestDate: readyOn ?? growth.expectedHarvestDate,
+            healthStatus: plant.healthStatus ?? PLANT_HEALTH_STATUS.GOOD,
+            lastUpdated: now
+        };
+        await this.growthTrackingRepository.saveTracking(tracking);
+
+        const harvestScheduleId = readyOn && !this.hasHarvestTask(plant, readyOn, harvestTasks)
+            ? await this.raiseHarvestTask(gardenId, plant, entry, now)
+            : undefined;
+
+        return { plantId: plant.id, plantType: plant.type, previousStage, tracking, harvestScheduleId };
+    }
+
+    /**
+     * Accumulates a plant's growing degree days over the days that have passed since it was
+     * planted, and works out when it reached each stage and when it will be ready to harvest
+     * A plant not yet ready is projected to keep growing at its pace over the recent days
+     * @private
+     */
+    private measureGrowth(
+        plant: IPlant,
+        entry: IPlantCatalogEntry,
+        weatherByDay: Map<string, IWeatherDay>,
+        today: moment.Moment
+    ): IPlantGrowth {
+        const planted = moment.utc(plant.plantedDate).startOf('day');
+        const daysToMaturity = plant.daysToMaturity ?? entry.daysToMaturity;
+        const baseTemperature = entry.baseTemperature ?? GROWTH_PROGRESSION_DEFAULTS.BASE_TEMPERATURE;
+        const degreeDaysPerDay = GROWTH_PROGRESSION_DEFAULTS.AVERAGE_DAY_TEMPERATURE - baseTemperature;
+
+        const days: IDegreeDay[] = [];
+        for (let day = planted.clone(); day.isBefore(today); day.add(1, 'day')) {
+            const weather = weatherByDay.get(this.dayKey(day.toDate()));
+            const degreeDays = this.getDegreeDays(weather, baseTemperature);
+            days.push({
+                date: day.toDate(),
+                degreeDays: this.round(degreeDays),
+                accumulated: (days[days.length - 1]?.accumulated ?? 0) + degreeDays,
+                source: weather?.source
+            });
+        }
+        const accumulated = days.map(day => day.accumulated);
+        days.forEach(day => day.accumulated = this.round(day.accumulated));
+
+        const degreeDays = accumulated[accumulated.length - 1] ?? 0;
+        const progressDays = degreeDays / degreeDaysPerDay;
+        const reachedOn = (threshold: number): Date | undefined => {
+            if (threshold <= 0) {
+                return planted.toDate();
+            }
+            const index = accumulated.findIndex(value => value >= threshold * degreeDaysPerDay);
+            return index < 0 ? undefined : planted.clone().add(index + 1, 'days').toDate();
+        };
+
+        const recent = [0, ...accumulated].slice(-GROWTH_PROGRESSION_DEFAULTS.PACE_DAYS - 1);
+        const pace = recent.length > 1
+            ? (recent[recent.length - 1] - recent[0]) / (recent.length - 1) / degreeDaysPerDay
+            : 1;
+        const readyOn = reachedOn(daysToMaturity);
+
+        return {
+            baseTemperature,
+            degreeDaysPerDay,
+            daysToMaturity,
+            days,
+            degreeDays,
+            progressDays,
+            thresholds: this.getStageThresholds(entry, daysToMaturity),
+            reachedOn,
+            readyOn,
+            expectedHarvestDate: readyOn ?? today.clone().add(
+                Math.ceil((daysToMaturity - progressDays) / Math.max(GROWTH_PROGRESSION_DEFAULTS.MIN_PACE, pace)),
+                'days'
+            ).toDate()
+        };
+    }
+
+    /**
+     * Works out the growing days a plant enters each of its stages at, scaling the catalog
+     * durations to the plant's own days to maturity
+     * Crops harvested once stay mature until they are lifted
+     * @private
+     */
+    private getStageThresholds(entry: IPlantCatalogEntry, daysToMaturity: number): IStageThreshold[] {
+        const scale = daysToMaturity / entry.daysToMaturity;
+        const seedlingDays = (entry.seedlingDays ?? entry.daysToMaturity * GROWTH_PROGRESSION_DEFAULTS.SEEDLING_SHARE) * scale;
+        const growingDays = (entry.growingDays ?? entry.daysToMaturity * GROWTH_PROGRESSION_DEFAULTS.GROWING_SHARE) * scale;
+
+        const thresholds: IStageThreshold[] = [
+            { stage: GROWTH_STAGES.SEEDLING, progressDays: 0 },
+            { stage: GROWTH_STAGES.GROWING, progressDays: seedlingDays },
+            { stage: GROWTH_STAGES.MATURE, progressDays: seedlingDays + growingDays }
+        ];
+        if (!entry.singleHarvest) {
+            thresholds.push({ stage: GROWTH_STAGES.HARVESTING, progressDays: daysToMaturity });
+        }
+        return thresholds;
+    }
+
+    /**
+     * Checks whether a harvest task is pending for a plant or was done since it became ready
+     * @private
+     */
+    private hasHarvestTask(plant: IPlant, readyOn: Date, tasks: ISchedule[]): boolean {
+        return tasks.some(task => task.plantId === plant.id && (
+            !task.completed || moment(task.completedDate ?? task.dueDate).isSameOrAfter(readyOn)
+        ));
+    }
+
+    /**
+     * Raises the harvest task of a plant that has become ready to harvest
+     * Crops picked over a season are then harvested weekly, crops lifted at maturity once
+     * @private
+     */
+    private async raiseHarvestTask(
+        gardenId: string,
+        plant: IPlant,
+        entry: IPlantCatalogEntry,
+        now: Date
+    ): Promise<string> {
+        const singleHarvest = Boolean(entry.singleHarvest);
+        const task = await this.scheduleRepository.createSchedule({
+            gardenId,
+            plantId: plant.id,
+            taskType: TaskType.HARVESTING,
+            frequency: singleHarvest ? TaskFrequency.AS_NEEDED : TaskFrequency.WEEKLY,
+            dueDate: now,
+            priority: TaskPriority.MEDIUM,
+            completed: false,
+            completedDate: null,
+            notes: singleHarvest
+                ? `Mature and ready to lift within ${entry.harvestWindowDays} days`
+                : 'Ready for the first harvest',
+            weather_dependent: false
+        });
+
+        return task.id;
+    }
+
+    /**
+     * Retrieves the harvest tasks of a garden that may cover a ready plant: those pending
+     * and those done since the first plant was planted
+     * @private
+     */
+    private async findHarvestTasks(gardenId: string, from: Date, now: Date): Promise<ISchedule[]> {
+        const filters = { gardenId, taskTypes: [TaskType.HARVESTING] };
+
+        const [pending, completed] = await Promise.all([
+            this.scheduleRepository.getPendingTasks(
+                from,
+                moment(now).add(GROWTH_PROGRESSION_DEFAULTS.HARVEST_LOOKAHEAD_DAYS, 'days').toDate(),
+                filters
+            ),
+            this.scheduleRepository.getPendingTasks(from, now, { ...filters, completed: true })
+        ]);
+
+        return [...pending, ...completed];
+    }
+
+    /**
+     * Builds the notification telling the gardener a plant is ready to harvest
+     * @private
+     */
+    private buildNotification(
+        gardenId: string,
+        plant: IPlant,
+        entry: IPlantCatalogEntry,
+        scheduleId: string,
+        now: Date
+    ): INotificationPayload {
+        return {
+            title: 'Time to harvest',
+            body: entry.singleHarvest
+                ? `${entry.name}: mature and ready to lift`
+                : `${entry.name}: ready for the first harvest`,
+            type: NotificationType.HARVEST_TIME,
+            data: {
+                scheduleId,
+                token: gardenId // Raised in the garden's pool; using gardenId as device token for example
+            },
+            priority: 'normal',
+            gardenZone: gardenId,
+            plantType: plant.type,
+            scheduledTime: now
+        };
+    }
+
+    /**
+     * Retrieves a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+
+    /**
+     * Rounds a day count or degree days to one decimal place
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 10) / 10;
+    }
+
+    /**
+     * Keys a date by its UTC day
+     * @private
+     */
+    private dayKey(date: Date): string {
+        return moment.utc(date).format('YYYY-MM-DD');
+    }
+}
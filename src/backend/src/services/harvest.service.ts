@@ -0,0 +1,397 @@
+/**
+ * Harvest Service
+ * @packageVersion 5.0
+ *
+ * Projects how much a garden yields each week from its plants' planted dates, days to
+ * maturity, harvest windows, growth stages and quantities, and keeps a log of actual
+ * harvests. Each plant's first harvest updates the actual growth rate of its plant type,
+ * which later forecasts use in place of the catalog's days to maturity.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { HarvestRepository } from '../repositories/harvest.repository';
+import { PlantCatalogService } from './plant-catalog.service';
+import { IPlant } from '../interfaces/plant.interface';
+import { IGarden } from '../interfaces/garden.interface';
+import {
+    IHarvestForecast,
+    IHarvestForecastWeek,
+    IHarvestInput,
+    IHarvestLogQuery,
+    IHarvestRecord,
+    IHarvestTotals,
+    IPlantHarvestProjection,
+    ISeasonHarvestTotals
+} from '../interfaces/harvest.interface';
+import { GROWTH_STAGES } from '../constants/plant.constants';
+import {
+    HARVEST_FORECAST_LIMITS,
+    HARVEST_FORECAST_DEFAULTS,
+    HARVEST_QUALITY_RATING,
+    GROWTH_RATE_LEARNING,
+    HARVEST_ERRORS
+} from '../constants/harvest.constants';
+import { BadRequestError, NotFoundError } from '../utils/error.utils';
+
+const DAYS_PER_WEEK = 7;
+
+@Injectable()
+export class HarvestService {
+    private readonly logger = new Logger(HarvestService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly harvestRepository: HarvestRepository,
+        private readonly plantCatalog: PlantCatalogService
+    ) {}
+
+    /**
+     * Projects the garden's yield per week and compares it with recorded harvests
+     * Each plant's expected yield is spread evenly over its harvest window, which starts
+     * earlier or later when its plant type has grown faster or slower than the catalog expects
+     * @param gardenId Garden identifier
+     * @param from Date inside the first forecast week; defaults to today
+     * @param weeks Number of weeks to forecast
+     * @param asOf Date growth stages are judged against; defaults to now
+     * @returns Promise<IHarvestForecast>
+     */
+    async getHarvestForecast(
+        gardenId: string,
+        from: Date = new Date(),
+        weeks: number = HARVEST_FORECAST_LIMITS.DEFAULT_WEEKS,
+        asOf: Date = new Date()
+    ): Promise<IHarvestForecast> {
+        if (Number.isNaN(from.getTime()) || !Number.isInteger(weeks) ||
+            weeks < 1 || weeks > HARVEST_FORECAST_LIMITS.MAX_WEEKS) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_FORECAST_RANGE);
+        }
+
+        await this.requireGarden(gardenId);
+
+        const startDate = moment(from).startOf('isoWeek');
+        const endDate = startDate.clone().add(weeks, 'weeks');
+        const forecastWeeks: IHarvestForecastWeek[] = Array.from({ length: weeks }, (_, index) => ({
+            weekStart: startDate.clone().add(index, 'weeks').toDate(),
+            forecastKg: 0,
+            actualKg: 0,
+            forecastByPlantType: {}
+        }));
+
+        const [plants, harvests, growthRates] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(gardenId),
+            this.harvestRepository.findByGarden(gardenId, startDate.toDate(), endDate.toDate()),
+            this.harvestRepository.getGrowthRates()
+        ]);
+        const expectedDates = await this.harvestRepository.getExpectedHarvestDates(plants.map(plant => plant.id));
+
+        const projections: IPlantHarvestProjection[] = [];
+        for (const plant of plants) {
+            const projection = this.projectPlant(plant, asOf, growthRates.get(plant.type), expectedDates.get(plant.id));
+            if (!projection) {
+                continue;
+            }
+
+            const harvestStart = moment(projection.harvestStartDate);
+            const harvestEnd = moment(projection.harvestEndDate).add(1, 'day');
+            if (!harvestStart.isBefore(endDate) || !harvestEnd.isAfter(startDate)) {
+                continue;
+            }
+            projections.push(projection);
+
+            const windowDays = harvestEnd.diff(harvestStart, 'days');
+            const dailyYieldKg = projection.expectedYieldKg / windowDays;
+            forecastWeeks.forEach(week => {
+                const weekStart = moment(week.weekStart);
+                const weekEnd = weekStart.clone().add(1, 'week');
+                const overlapStart = moment.max(weekStart, harvestStart);
+                const overlapEnd = moment.min(weekEnd, harvestEnd);
+                const overlapDays = overlapEnd.diff(overlapStart, 'days');
+                if (overlapDays <= 0) {
+                    return;
+                }
+
+                const yieldKg = dailyYieldKg * overlapDays;
+                week.forecastKg += yieldKg;
+                week.forecastByPlantType[plant.type] = (week.forecastByPlantType[plant.type] || 0) + yieldKg;
+            });
+        }
+
+        for (const harvest of harvests) {
+            const weekIndex = Math.floor(moment(harvest.harvestedAt).diff(startDate, 'days') / DAYS_PER_WEEK);
+            if (forecastWeeks[weekIndex]) {
+                forecastWeeks[weekIndex].actualKg += harvest.quantityKg ?? 0;
+            }
+        }
+
+        const roundedWeeks = forecastWeeks.map(week => ({
+            ...week,
+            forecastKg: this.roundKg(week.forecastKg),
+            actualKg: this.roundKg(week.actualKg),
+            forecastByPlantType: Object.fromEntries(
+                Object.entries(week.forecastByPlantType).map(([type, kg]) => [type, this.roundKg(kg)])
+            )
+        }));
+
+        return {
+            gardenId,
+            startDate: startDate.toDate(),
+            endDate: endDate.toDate(),
+            weeks: roundedWeeks,
+            plants: projections,
+            totalForecastKg: this.roundKg(forecastWeeks.reduce((sum, week) => sum + week.forecastKg, 0)),
+            totalActualKg: this.roundKg(forecastWeeks.reduce((sum, week) => sum + week.actualKg, 0))
+        };
+    }
+
+    /**
+     * Logs a harvest picked from one of the garden's plants
+     * A plant's first harvest also teaches its plant type's actual growth rate
+     * @param gardenId Garden identifier
+     * @param input Harvested plant, date, weight or count, quality rating and notes
+     * @returns Promise<IHarvestRecord> Stored harvest record
+     */
+    async recordHarvest(gardenId: string, input: IHarvestInput): Promise<IHarvestRecord> {
+        this.validateHarvestInput(input);
+        const harvestedAt = input.harvestedAt ? new Date(input.harvestedAt) : new Date();
+
+        const garden = await this.requireGarden(gardenId);
+
+        const plant = await this.plantRepository.getPlantById(input.plantId);
+        if (!plant || plant.gardenId !== gardenId) {
+            throw new BadRequestError(HARVEST_ERRORS.PLANT_NOT_IN_GARDEN);
+        }
+
+        const isFirstHarvest = !(await this.harvestRepository.hasHarvests(plant.id));
+        const zone = (garden.zones || []).find(gardenZone =>
+            (gardenZone.plants || []).some(zonePlant => zonePlant.id === plant.id)
+        );
+
+        const record = await this.harvestRepository.create({
+            gardenId,
+            plantId: plant.id,
+            plantType: plant.type,
+            zoneId: zone?.id,
+            scheduleId: input.scheduleId,
+            harvestedAt,
+            season: harvestedAt.getFullYear(),
+            quantityKg: input.quantityKg,
+            count: input.count,
+            qualityRating: input.qualityRating,
+            notes: input.notes
+        });
+
+        this.logger.log(`Logged harvest of ${plant.type} in garden ${gardenId}`);
+
+        if (isFirstHarvest) {
+            await this.learnGrowthRate(plant, harvestedAt);
+        }
+
+        return record;
+    }
+
+    /**
+     * Checks the amount, quality rating and date of a harvest before it is logged
+     * @param input Harvest data to check
+     * @throws Error when the harvest data is invalid
+     */
+    public validateHarvestInput(input: IHarvestInput): void {
+        if (input.quantityKg === undefined && input.count === undefined) {
+            throw new BadRequestError(HARVEST_ERRORS.MISSING_AMOUNT);
+        }
+
+        if (input.quantityKg !== undefined &&
+            (typeof input.quantityKg !== 'number' || !Number.isFinite(input.quantityKg) || input.quantityKg <= 0)) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_QUANTITY);
+        }
+
+        if (input.count !== undefined && (!Number.isInteger(input.count) || input.count <= 0)) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_COUNT);
+        }
+
+        if (input.qualityRating !== undefined && (
+            !Number.isInteger(input.qualityRating) ||
+            input.qualityRating < HARVEST_QUALITY_RATING.MIN ||
+            input.qualityRating > HARVEST_QUALITY_RATING.MAX
+        )) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_QUALITY);
+        }
+
+        const harvestedAt = input.harvestedAt ? new Date(input.harvestedAt) : new Date();
+        if (Number.isNaN(harvestedAt.getTime()) || harvestedAt.getTime() > Date.now()) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_DATE);
+        }
+    }
+
+    /**
+     * Lists a garden's harvest log, newest first
+     * @param query Garden and optional plant, zone and season filters
+     * @returns Promise<IHarvestRecord[]> Harvest records
+     */
+    async listHarvests(query: IHarvestLogQuery): Promise<IHarvestRecord[]> {
+        if (query.season !== undefined &&
+            (!Number.isInteger(query.season) || query.season < 1000 || query.season > 9999)) {
+            throw new BadRequestError(HARVEST_ERRORS.INVALID_SEASON);
+        }
+
+        await this.requireGarden(query.gardenId);
+        return this.harvestRepository.findHarvests(query);
+    }
+
+    /**
+     * Totals a garden's harvest log per season, with a breakdown per plant type
+     * @param gardenId Garden identifier
+     * @returns Promise<ISeasonHarvestTotals[]> Season totals, newest season first
+     */
+    async getSeasonTotals(gardenId: string): Promise<ISeasonHarvestTotals[]> {
+        await this.requireGarden(gardenId);
+        const rows = await this.harvestRepository.getSeasonTotals(gardenId);
+
+        const seasons = new Map<number, ISeasonHarvestTotals & { qualityRatingSum: number; ratedCount: number }>();
+        for (const row of rows) {
+            const season = seasons.get(row.season) ?? {
+                season: row.season,
+                harvestCount: 0,
+                totalKg: 0,
+                totalCount: 0,
+                plantTypes: {},
+                qualityRatingSum: 0,
+                ratedCount: 0
+            };
+
+            season.harvestCount += row.harvestCount;
+            season.totalKg += row.totalKg;
+            season.totalCount += row.totalCount;
+            season.qualityRatingSum += row.qualityRatingSum;
+            season.ratedCount += row.ratedCount;
+            season.plantTypes[row.plantType] = this.toTotals(row);
+            seasons.set(row.season, season);
+        }
+
+        return Array.from(seasons.values())
+            .sort((a, b) => b.season - a.season)
+            .map(({ qualityRatingSum, ratedCount, ...season }) => ({
+                ...season,
+                ...this.toTotals({ ...season, qualityRatingSum, ratedCount })
+            }));
+    }
+
+    /**
+     * Works out a plant's harvest window and total expected yield
+     * Plants tracked by the growth stage service start at the harvest date expected from their
+     * degree days, others at their days to maturity scaled by the learned growth rate.
+     * Mature plants are harvestable now; plants past maturity that have not matured yet
+     * are expected shortly instead of in the past
+     * @private
+     */
+    private projectPlant(
+        plant: IPlant,
+        asOf: Date,
+        growthRate?: number,
+        expectedHarvestDate?: Date
+    ): IPlantHarvestProjection | undefined {
+        const entry = this.plantCatalog.getEntry(plant.type);
+        const expectedDays = plant.daysToMaturity ?? entry?.daysToMaturity;
+        if (!plant.plantedDate || expectedDays === undefined) {
+            this.logger.warn(`Skipping plant ${plant.id} without planted date or maturity data`);
+            return undefined;
+        }
+
+        const daysToMaturity = growthRate ? Math.round(expectedDays / growthRate) : expectedDays;
+        const today = moment(asOf).startOf('day');
+        let harvestStart = expectedHarvestDate
+            ? moment(expectedHarvestDate).startOf('day')
+            : moment(plant.plantedDate).startOf('day').add(daysToMaturity, 'days');
+        const isMature = plant.growthStage === GROWTH_STAGES.MATURE ||
+            plant.growthStage === GROWTH_STAGES.HARVESTING;
+        if (isMature && harvestStart.isAfter(today)) {
+            harvestStart = today.clone();
+        } else if (!isMature && harvestStart.isBefore(today)) {
+            harvestStart = today.clone().add(HARVEST_FORECAST_DEFAULTS.OVERDUE_MATURITY_DAYS, 'days');
+        }
+
+        const windowDays = Math.max(1, entry?.harvestWindowDays ?? HARVEST_FORECAST_DEFAULTS.HARVEST_WINDOW_DAYS);
+        const quantity = plant.quantity ?? 1;
+        const yieldPerPlantKg = plant.expectedYieldKg ?? entry?.expectedYieldKg ?? 0;
+
+        return {
+            plantId: plant.id,
+            plantType: plant.type,
+            quantity,
+            expectedYieldKg: this.roundKg(yieldPerPlantKg * quantity),
+            harvestStartDate: harvestStart.toDate(),
+            harvestEndDate: harvestStart.clone().add(windowDays - 1, 'days').toDate()
+        };
+    }
+
+    /**
+     * Updates the plant type's actual growth rate from the days a plant took to its first harvest
+     * Failures are logged rather than thrown, since the harvest itself is already stored
+     * @private
+     */
+    private async learnGrowthRate(plant: IPlant, harvestedAt: Date): Promise<void> {
+        const expectedDays = plant.daysToMaturity ?? this.plantCatalog.getEntry(plant.type)?.daysToMaturity;
+        const actualDays = moment(harvestedAt).diff(moment(plant.plantedDate), 'days');
+        if (!plant.plantedDate || !expectedDays || actualDays <= 0) {
+            return;
+        }
+
+        const sample = Math.min(
+            GROWTH_RATE_LEARNING.MAX_RATE,
+            Math.max(GROWTH_RATE_LEARNING.MIN_RATE, expectedDays / actualDays)
+        );
+
+        try {
+            const rate = await this.harvestRepository.updateGrowthRate(
+                plant.type,
+                sample,
+                GROWTH_RATE_LEARNING.SMOOTHING,
+                moment(plant.plantedDate).add(expectedDays, 'days').toDate()
+            );
+            if (rate !== undefined) {
+                this.logger.debug(`Actual growth rate of ${plant.type} is now ${rate.toFixed(2)}`);
+            }
+        } catch (error) {
+            this.logger.warn(`Failed to update growth rate of ${plant.type}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Rounds aggregated harvest totals and works out the average quality rating
+     * @private
+     */
+    private toTotals(totals: IHarvestTotals & { qualityRatingSum: number; ratedCount: number }): IHarvestTotals {
+        return {
+            harvestCount: totals.harvestCount,
+            totalKg: this.roundKg(totals.totalKg),
+            totalCount: totals.totalCount,
+            averageQualityRating: totals.ratedCount > 0
+                ? Number((totals.qualityRatingSum / totals.ratedCount).toFixed(1))
+                : undefined
+        };
+    }
+
+    /**
+     * Loads a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+
+        return garden;
+    }
+
+    /**
+     * Rounds a weight to two decimals
+     * @private
+     */
+    private roundKg(value: number): number {
+        return Number(value.toFixed(2));
+    }
+}
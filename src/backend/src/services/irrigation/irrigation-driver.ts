@@ -0,0 +1,30 @@
+import { IIrrigationValve, IValveClosure } from '../../interfaces/irrigation.interface';
+
+/**
+ * Controller hardware that opens and closes irrigation valves
+ * Implementations are selected through the irrigation configuration; the class doubles as
+ * the injection token for the configured driver
+ * @version 1.0.0
+ */
+export abstract class IrrigationDriver {
+    /**
+     * Name of the driver, for logging
+     */
+    abstract readonly name: string;
+
+    /**
+     * Opens a valve for a run
+     * Controllers should close the valve themselves once the run time has passed, so a
+     * lost connection cannot leave it open
+     * @param valve Valve to open
+     * @param runMinutes Time to keep the valve open
+     */
+    abstract openValve(valve: IIrrigationValve, runMinutes: number): Promise<void>;
+
+    /**
+     * Closes a valve at the end of its run; closing a valve that is already closed succeeds
+     * @param valve Valve to close
+     * @returns Promise<IValveClosure> Water delivered when the controller meters it
+     */
+    abstract closeValve(valve: IIrrigationValve): Promise<IValveClosure>;
+}
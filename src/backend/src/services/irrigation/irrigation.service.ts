@@ -0,0 +1,509 @@
+/**
+ * Irrigation Service
+ * @packageVersion 5.0
+ *
+ * Runs the irrigation valves linked to garden zones. When watering tasks of a zone with a
+ * valve come due, the valve is opened through the configured driver for as long as its
+ * flow rate takes to deliver the water the zone's plants need, with no more valves open
+ * at once across all gardens than the controller's water supply allows. Once the run time
+ * has passed the valve is closed and the tasks are completed with the water actually delivered.
+ */
+
+import { Inject, Injectable, Logger } from '@nestjs/common'; // ^8.0.0
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+
+import { IrrigationDriver } from './irrigation-driver';
+import { ScheduleService } from '../schedule.service';
+import { PlantCatalogService } from '../plant-catalog.service';
+import { IrrigationRepository } from '../../repositories/irrigation.repository';
+import { ScheduleRepository } from '../../repositories/schedule.repository';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { PlantRepository } from '../../repositories/plant.repository';
+import { IrrigationConfig } from '../../config/irrigation.config';
+import {
+    IIrrigationRun,
+    IIrrigationRunTask,
+    IIrrigationValve,
+    IIrrigationValveInput
+} from '../../interfaces/irrigation.interface';
+import { IGarden } from '../../interfaces/garden.interface';
+import { IPlant } from '../../interfaces/plant.interface';
+import { ISchedule, TaskType } from '../../interfaces/schedule.interface';
+import {
+    IRRIGATION_DEFAULTS,
+    IRRIGATION_ERRORS,
+    IRRIGATION_LIMITS,
+    IRRIGATION_RUN_STATUS
+} from '../../constants/irrigation.constants';
+import { BadRequestError, ConflictError, NotFoundError } from '../../utils/error.utils';
+
+/**
+ * Injection token for the irrigation configuration
+ */
+export const IRRIGATION_CONFIG = 'IRRIGATION_CONFIG';
+
+/**
+ * Runs started and finished in one pass over the valves
+ */
+export interface IrrigationPass {
+    started: IIrrigationRun[];
+    finished: IIrrigationRun[];
+}
+
+@Injectable()
+export class IrrigationService {
+    private readonly logger = new Logger(IrrigationService.name);
+
+    constructor(
+        @Inject(IRRIGATION_CONFIG) private readonly config: IrrigationConfig,
+        private readonly driver: IrrigationDriver,
+        private readonly irrigationRepository: IrrigationRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly scheduleService: ScheduleService
+    ) {}
+
+    /**
+     * Closes valves whose run time has passed and opens valves for due watering tasks
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    async handleIrrigation(): Promise<void> {
+        try {
+            await this.runValves();
+        } catch (error) {
+            this.logger.error(`Failed to run irrigation valves: ${error.message}`);
+        }
+    }
+
+    /**
+     * Closes valves whose run time has passed, completing their watering tasks, then opens
+     * valves for the due watering tasks of their zones
+     * Valves are closed first so their place counts towards the valves that may be open;
+     * the open valve limit holds across all gardens, which are served in turn
+     * @param now Current time
+     * @returns Promise<IrrigationPass> Runs started and finished
+     */
+    async runValves(now: Date = new Date()): Promise<IrrigationPass> {
+        const finished: IIrrigationRun[] = [];
+        const ended = (await this.irrigationRepository.findRunningRuns())
+            .filter(run => run.endsAt.getTime() <= now.getTime());
+
+        for (const run of ended) {
+            try {
+                finished.push(await this.finishRun(run, now));
+            } catch (error) {
+                // The valve may still be open, so the run is closed again on the next pass
+                this.logger.error(`Failed to finish irrigation run ${run.id}: ${error.message}`);
+            }
+        }
+
+        const started: IIrrigationRun[] = [];
+        const running = await this.irrigationRepository.findRunningRuns();
+        let slots = this.config.maxConcurrentValves - running.length;
+        const valves = await this.irrigationRepository.findEnabledValves();
+        const gardenIds = Array.from(new Set(valves.map(valve => valve.gardenId)));
+
+        for (const gardenId of gardenIds) {
+            if (slots <= 0) {
+                break;
+            }
+
+            try {
+                const gardenRuns = await this.startGardenRuns(
+                    gardenId,
+                    valves.filter(valve => valve.gardenId === gardenId),
+                    running.filter(run => run.gardenId === gardenId),
+                    slots,
+                    now
+                );
+                started.push(...gardenRuns);
+                slots -= gardenRuns.length;
+            } catch (error) {
+                this.logger.error(`Failed to start irrigation in garden ${gardenId}: ${error.message}`);
+            }
+        }
+
+        return { started, finished };
+    }
+
+    /**
+     * Links a valve to a garden zone
+     * @param gardenId Garden identifier
+     * @param input Zone, name, controller channel, flow rate and optional maximum run time
+     * @returns Promise<IIrrigationValve> Stored valve
+     */
+    async registerValve(gardenId: string, input: IIrrigationValveInput): Promise<IIrrigationValve> {
+        const valve = this.checkValveInput(input);
+        const garden = await this.requireGarden(gardenId);
+        if (!(garden.zones || []).some(zone => zone.id === valve.zoneId)) {
+            throw new BadRequestError(IRRIGATION_ERRORS.UNKNOWN_ZONE);
+        }
+
+        const existing = await this.irrigationRepository.findValvesByGarden(gardenId);
+        if (existing.some(linked => linked.zoneId === valve.zoneId)) {
+            throw new ConflictError(IRRIGATION_ERRORS.ZONE_HAS_VALVE);
+        }
+
+        const created = await this.irrigationRepository.createValve({
+            gardenId,
+            zoneId: valve.zoneId,
+            name: valve.name,
+            channel: valve.channel,
+            flowRateLpm: valve.flowRateLpm,
+            maxRunMinutes: valve.maxRunMinutes,
+            enabled: valve.enabled ?? true
+        });
+        this.logger.log(`Linked irrigation valve ${created.id} to zone ${created.zoneId} of garden ${gardenId}`);
+
+        return created;
+    }
+
+    /**
+     * Lists the valves of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<IIrrigationValve[]> Valves
+     */
+    async listValves(gardenId: string): Promise<IIrrigationValve[]> {
+        await this.requireGarden(gardenId);
+        return this.irrigationRepository.findValvesByGarden(gardenId);
+    }
+
+    /**
+     * Changes a valve's name, channel, flow rate, maximum run time or whether it runs
+     * The zone a valve waters cannot be changed; remove the valve and link a new one
+     * @param gardenId Garden identifier
+     * @param valveId Valve identifier
+     * @param changes Fields to change
+     * @returns Promise<IIrrigationValve> Updated valve
+     */
+    async updateValve(
+        gardenId: string,
+        valveId: string,
+        changes: Partial<Omit<IIrrigationValveInput, 'zoneId'>>
+    ): Promise<IIrrigationValve> {
+        const valve = await this.requireValve(gardenId, valveId);
+        const checked = this.checkValveInput({ ...valve, ...changes, zoneId: valve.zoneId });
+
+        const updated = await this.irrigationRepository.updateValve(valveId, {
+            name: checked.name,
+            channel: checked.channel,
+            flowRateLpm: checked.flowRateLpm,
+            maxRunMinutes: checked.maxRunMinutes,
+            enabled: checked.enabled ?? valve.enabled
+        });
+        if (!updated) {
+            throw new NotFoundError(IRRIGATION_ERRORS.VALVE_NOT_FOUND);
+        }
+
+        return updated;
+    }
+
+    /**
+     * Unlinks a valve from its zone together with its run history
+     * @param gardenId Garden identifier
+     * @param valveId Valve identifier
+     */
+    async removeValve(gardenId: string, valveId: string): Promise<void> {
+        await this.requireValve(gardenId, valveId);
+
+        const running = await this.irrigationRepository.findRunningRuns(gardenId);
+        if (running.some(run => run.valveId === valveId)) {
+            throw new ConflictError(IRRIGATION_ERRORS.VALVE_RUNNING);
+        }
+
+        await this.irrigationRepository.deleteValve(valveId);
+        this.logger.log(`Removed irrigation valve ${valveId} of garden ${gardenId}`);
+    }
+
+    /**
+     * Lists the latest valve runs of a garden
+     * @param gardenId Garden identifier
+     * @param limit Maximum number of runs
+     * @returns Promise<IIrrigationRun[]> Runs, newest first
+     */
+    async listRuns(gardenId: string, limit: number = IRRIGATION_DEFAULTS.RUN_HISTORY_LIMIT): Promise<IIrrigationRun[]> {
+        await this.requireGarden(gardenId);
+        return this.irrigationRepository.findRunsByGarden(
+            gardenId,
+            Math.min(Math.max(1, Math.floor(limit) || 1), IRRIGATION_DEFAULTS.RUN_HISTORY_LIMIT)
+        );
+    }
+
+    /**
+     * Opens the valves of a garden's zones with due watering tasks, at most as many as the
+     * valves still free to open
+     * Zones are served in the order of their most pressing task; the rest wait for a
+     * later pass
+     * @private
+     */
+    private async startGardenRuns(
+        gardenId: string,
+        valves: IIrrigationValve[],
+        running: IIrrigationRun[],
+        slots: number,
+        now: Date
+    ): Promise<IIrrigationRun[]> {
+        const tasks = (await this.scheduleRepository.getPendingTasks(
+            moment(now).subtract(IRRIGATION_DEFAULTS.TASK_LOOKBACK_HOURS, 'hours').toDate(),
+            now,
+            { gardenId, taskTypes: [TaskType.WATERING] }
+        )).filter(task => !task.task_metadata?.irrigationCommandedAt);
+        if (!tasks.length) {
+            return [];
+        }
+
+        const [garden, plants] = await Promise.all([
+            this.gardenRepository.getGardenById(gardenId),
+            this.plantRepository.getPlantsByGarden(gardenId)
+        ]);
+        if (!garden) {
+            this.logger.warn(`Garden ${gardenId} of irrigation valves was not found`);
+            return [];
+        }
+
+        // Tasks arrive most pressing first, so valves are queued in the same order
+        const runningValves = new Set(running.map(run => run.valveId));
+        const queued = new Map<string, { valve: IIrrigationValve; tasks: ISchedule[] }>();
+        for (const task of tasks) {
+            const zoneId = this.findPlantZoneId(garden, task.plantId);
+            const valve = valves.find(gardenValve => gardenValve.zoneId === zoneId);
+            if (!valve || runningValves.has(valve.id)) {
+                continue;
+            }
+
+            const entry = queued.get(valve.id) ?? { valve, tasks: [] };
+            entry.tasks.push(task);
+            queued.set(valve.id, entry);
+        }
+
+        const started: IIrrigationRun[] = [];
+        for (const { valve, tasks: zoneTasks } of queued.values()) {
+            if (slots <= 0) {
+                break;
+            }
+
+            const run = await this.startRun(valve, zoneTasks, plants, now);
+            if (run) {
+                started.push(run);
+                slots--;
+            }
+        }
+
+        return started;
+    }
+
+    /**
+     * Opens a valve for the water its zone's due tasks need and marks the tasks as taken on
+     * @private
+     */
+    private async startRun(
+        valve: IIrrigationValve,
+        tasks: ISchedule[],
+        plants: IPlant[],
+        now: Date
+    ): Promise<IIrrigationRun | undefined> {
+        const runTasks: IIrrigationRunTask[] = tasks
+            .map(task => ({
+                scheduleId: task.id,
+                plantId: task.plantId,
+                plannedMl: this.getPlannedMl(plants.find(plant => plant.id === task.plantId))
+            }))
+            .filter(task => task.plannedMl > 0);
+        if (!runTasks.length) {
+            this.logger.warn(`No water requirement known for the due tasks of zone ${valve.zoneId}; left to the gardener`);
+            return undefined;
+        }
+
+        const plannedMl = runTasks.reduce((total, task) => total + task.plannedMl, 0);
+        const neededMinutes = plannedMl / (valve.flowRateLpm * 1000);
+        const maxRunMinutes = valve.maxRunMinutes ?? IRRIGATION_DEFAULTS.MAX_RUN_MINUTES;
+        if (neededMinutes > maxRunMinutes) {
+            this.logger.warn(
+                `Valve ${valve.id} needs ${neededMinutes.toFixed(1)} minutes for zone ${valve.zoneId}; running ${maxRunMinutes}`
+            );
+        }
+        const runMinutes = Math.round(Math.min(neededMinutes, maxRunMinutes) * 100) / 100;
+        if (runMinutes <= 0) {
+            this.logger.warn(`Valve ${valve.id} would run for no time to deliver ${plannedMl} ml; left to the gardener`);
+            return undefined;
+        }
+
+        // The run is stored before the valve opens, so no valve is left open without a run to close it
+        const run = await this.irrigationRepository.createRun({
+            valveId: valve.id,
+            gardenId: valve.gardenId,
+            zoneId: valve.zoneId,
+            tasks: runTasks,
+            plannedMl,
+            runMinutes,
+            startedAt: now,
+            endsAt: moment(now).add(Math.round(runMinutes * 60), 'seconds').toDate()
+        });
+
+        try {
+            await this.driver.openValve(valve, runMinutes);
+        } catch (error) {
+            this.logger.error(`Failed to open valve ${valve.id} with the ${this.driver.name} driver: ${error.message}`);
+            await this.irrigationRepository.finishRun(run.id, {
+                status: IRRIGATION_RUN_STATUS.FAILED,
+                finishedAt: now,
+                deliveredMl: 0,
+                error: `${IRRIGATION_ERRORS.VALVE_NOT_OPENED}: ${error.message}`
+            });
+            return undefined;
+        }
+
+        const scheduleIds = new Set(runTasks.map(task => task.scheduleId));
+        await Promise.all(tasks
+            .filter(task => scheduleIds.has(task.id))
+            .map(task => this.scheduleRepository.updateSchedule(task.id, {
+                task_metadata: { ...task.task_metadata, irrigationCommandedAt: now, irrigationRunId: run.id }
+            }, { optimisticLock: false })));
+        this.logger.log(`Opened valve ${valve.id} for ${runMinutes} minutes to deliver ${plannedMl} ml`);
+
+        return run;
+    }
+
+    /**
+     * Closes a run's valve and completes its tasks, each with its share of the water the
+     * valve delivered
+     * A run that delivered nothing fails and leaves its tasks to the gardener
+     * @private
+     */
+    private async finishRun(run: IIrrigationRun, now: Date): Promise<IIrrigationRun> {
+        const valve = await this.irrigationRepository.findValveById(run.valveId);
+        if (!valve) {
+            throw new NotFoundError(IRRIGATION_ERRORS.VALVE_NOT_FOUND);
+        }
+
+        const closure = await this.driver.closeValve(valve);
+        const deliveredMl = Math.round(closure.deliveredMl ?? valve.flowRateLpm * 1000 * run.runMinutes);
+
+        if (deliveredMl <= 0) {
+            this.logger.warn(`Irrigation run ${run.id} failed: ${IRRIGATION_ERRORS.NOTHING_DELIVERED}`);
+            return (await this.irrigationRepository.finishRun(run.id, {
+                status: IRRIGATION_RUN_STATUS.FAILED,
+                finishedAt: now,
+                deliveredMl: 0,
+                error: IRRIGATION_ERRORS.NOTHING_DELIVERED
+            }))!;
+        }
+
+        const finished = await this.irrigationRepository.finishRun(run.id, {
+            status: IRRIGATION_RUN_STATUS.COMPLETED,
+            finishedAt: now,
+            deliveredMl
+        });
+
+        for (const task of run.tasks) {
+            try {
+                // Tasks the gardener completed while the valve ran are not completed twice
+                const schedule = await this.scheduleRepository.getScheduleById(task.scheduleId);
+                if (!schedule || schedule.completed) {
+                    continue;
+                }
+
+                await this.scheduleService.markTaskCompleted(task.scheduleId, undefined, undefined, {
+                    runId: run.id,
+                    deliveredMl: Math.round(deliveredMl * task.plannedMl / run.plannedMl)
+                });
+            } catch (error) {
+                this.logger.error(`Failed to complete watering task ${task.scheduleId}: ${error.message}`);
+            }
+        }
+        this.logger.log(`Closed valve ${valve.id} after delivering ${deliveredMl} of ${run.plannedMl} ml`);
+
+        return finished!;
+    }
+
+    /**
+     * Checks and trims valve details
+     * @private
+     */
+    private checkValveInput(input: IIrrigationValveInput): IIrrigationValveInput {
+        const name = typeof input?.name === 'string' ? input.name.trim() : '';
+        if (!name || name.length > IRRIGATION_LIMITS.MAX_VALVE_NAME_LENGTH) {
+            throw new BadRequestError(IRRIGATION_ERRORS.INVALID_VALVE_NAME);
+        }
+
+        const channel = typeof input.channel === 'string' ? input.channel.trim() : '';
+        if (!channel || channel.length > IRRIGATION_LIMITS.MAX_CHANNEL_LENGTH) {
+            throw new BadRequestError(IRRIGATION_ERRORS.INVALID_CHANNEL);
+        }
+
+        const flowRateLpm = Number(input.flowRateLpm);
+        if (!Number.isFinite(flowRateLpm) || flowRateLpm <= 0 || flowRateLpm > IRRIGATION_LIMITS.MAX_FLOW_RATE_LPM) {
+            throw new BadRequestError(IRRIGATION_ERRORS.INVALID_FLOW_RATE);
+        }
+
+        let maxRunMinutes: number | undefined;
+        if (input.maxRunMinutes !== undefined && input.maxRunMinutes !== null) {
+            maxRunMinutes = Number(input.maxRunMinutes);
+            if (!Number.isFinite(maxRunMinutes) || maxRunMinutes <= 0 || maxRunMinutes > IRRIGATION_LIMITS.MAX_RUN_MINUTES) {
+                throw new BadRequestError(IRRIGATION_ERRORS.INVALID_MAX_RUN);
+            }
+        }
+
+        return {
+            zoneId: input.zoneId,
+            name,
+            channel,
+            flowRateLpm,
+            maxRunMinutes,
+            enabled: input.enabled === undefined ? undefined : Boolean(input.enabled)
+        };
+    }
+
+    /**
+     * Works out the water a plant needs for one watering: its requirement, or its catalog
+     * type's, for each plant of the planting
+     * @private
+     */
+    private getPlannedMl(plant: IPlant | undefined): number {
+        if (!plant) {
+            return 0;
+        }
+
+        const waterRequirementMl = plant.waterRequirementMl
+            ?? this.plantCatalog.getEntry(plant.type)?.waterRequirementMl
+            ?? 0;
+        return Math.round(waterRequirementMl * (plant.quantity ?? 1));
+    }
+
+    /**
+     * Finds the zone a plant is placed in
+     * @private
+     */
+    private findPlantZoneId(garden: IGarden, plantId: string): string | undefined {
+        return (garden.zones || []).find(zone =>
+            (zone.plants || []).some(zonePlant => zonePlant.id === plantId)
+        )?.id;
+    }
+
+    /**
+     * Retrieves a valve of a garden, failing when it does not exist
+     * @private
+     */
+    private async requireValve(gardenId: string, valveId: string): Promise<IIrrigationValve> {
+        const valve = await this.irrigationRepository.findValveById(valveId);
+        if (!valve || valve.gardenId !== gardenId) {
+            throw new NotFoundError(IRRIGATION_ERRORS.VALVE_NOT_FOUND);
+        }
+        return valve;
+    }
+
+    /**
+     * Retrieves a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+}
@@ -0,0 +1,65 @@
+import { IrrigationDriver } from './irrigation-driver';
+import { IIrrigationValve, IValveClosure } from '../../interfaces/irrigation.interface';
+
+/**
+ * Valve opened by the simulated driver
+ */
+interface OpenValve {
+    openedAt: Date;
+    runMinutes: number;
+}
+
+/**
+ * Irrigation driver that opens valves in memory instead of on controller hardware
+ * A valve delivers its flow rate for as long as it is open, up to its run time, as a
+ * controller closing the valve on time would; used for development and tests
+ * @version 1.0.0
+ */
+export class SimulatedIrrigationDriver extends IrrigationDriver {
+    readonly name = 'simulated';
+
+    private readonly openValves = new Map<string, OpenValve>();
+
+    /**
+     * @param now Clock deciding how long valves were open
+     */
+    constructor(private readonly now: () => Date = () => new Date()) {
+        super();
+    }
+
+    /**
+     * Records the valve as open from now
+     * @param valve Valve to open
+     * @param runMinutes Time to keep the valve open
+     */
+    async openValve(valve: IIrrigationValve, runMinutes: number): Promise<void> {
+        this.openValves.set(valve.id, { openedAt: this.now(), runMinutes });
+    }
+
+    /**
+     * Closes the valve and reports the water its flow rate delivered while open
+     * @param valve Valve to close
+     * @returns Promise<IValveClosure> Water delivered; none when the valve was not open
+     */
+    async closeValve(valve: IIrrigationValve): Promise<IValveClosure> {
+        const open = this.openValves.get(valve.id);
+        if (!open) {
+            return { deliveredMl: 0 };
+        }
+
+        this.openValves.delete(valve.id);
+        const openMinutes = Math.max(0, (this.now().getTime() - open.openedAt.getTime()) / 60000);
+
+        return {
+            deliveredMl: Math.round(valve.flowRateLpm * 1000 * Math.min(openMinutes, open.runMinutes))
+        };
+    }
+
+    /**
+     * Returns the identifiers of the valves currently open
+     * @returns string[] Valve identifiers
+     */
+    getOpenValves(): string[] {
+        return Array.from(this.openValves.keys());
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Mail Service
+ * @packageVersion 5.0
+ *
+ * Sends account messages to the email address of a user through the SMTP server of the
+ * mail configuration.
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // ^8.0.0
+import nodemailer, { Transporter } from 'nodemailer'; // ^6.9.0
+
+import { mailConfig } from '../config/mail.config';
+
+@Injectable()
+export class MailService {
+    private readonly logger = new Logger(MailService.name);
+
+    private readonly transporter: Transporter = nodemailer.createTransport({
+        host: mailConfig.host,
+        port: mailConfig.port,
+        secure: mailConfig.secure,
+        auth: mailConfig.username
+            ? { user: mailConfig.username, pass: mailConfig.password }
+            : undefined
+    });
+
+    /**
+     * Sends a plain text message
+     * @param to Recipient address
+     * @param subject Subject line
+     * @param text Message body
+     */
+    async send(to: string, subject: string, text: string): Promise<void> {
+        await this.transporter.sendMail({ from: mailConfig.from, to, subject, text });
+        this.logger.log(`Sent "${subject}"`);
+    }
+}
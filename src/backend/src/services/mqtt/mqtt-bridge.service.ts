@@ -0,0 +1,381 @@
+/**
+ * MQTT Bridge Service
+ * @packageVersion 5.0
+ *
+ * Connects the backend to garden hardware over MQTT. Messages on the mapped sensor topics
+ * are stored as readings of a registered sensor device, so they feed current plant
+ * conditions and soil water balances like readings submitted over HTTP. When a watering
+ * task of a mapped garden comes due, a watering command is published to the garden's
+ * irrigation topics once. A broker can be embedded for hardware to connect to directly;
+ * it only admits clients with the configured credentials, and lets hardware publish to the
+ * sensor topics and subscribe to the irrigation topics.
+ */
+
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common'; // ^8.0.0
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import { connectAsync, MqttClient } from 'mqtt'; // ^5.3.0
+import Aedes, { AuthErrorCode, AuthenticateError, Client, createBroker } from 'aedes'; // ^0.51.0
+import { createServer, Server } from 'net';
+import { timingSafeEqual } from 'crypto';
+import moment from 'moment'; // ^2.29.0
+
+import { SensorService } from '../sensor.service';
+import { PlantCatalogService } from '../plant-catalog.service';
+import { ScheduleRepository } from '../../repositories/schedule.repository';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { PlantRepository } from '../../repositories/plant.repository';
+import { MqttConfig } from '../../config/mqtt.config';
+import { IIrrigationCommand, IMqttMappings, IMqttSensorMapping } from '../../interfaces/mqtt.interface';
+import { IGarden } from '../../interfaces/garden.interface';
+import { IPlant } from '../../interfaces/plant.interface';
+import { ISchedule, TaskType } from '../../interfaces/schedule.interface';
+import { IRRIGATION_COMMANDS, MQTT_DEFAULTS, MQTT_ERRORS } from '../../constants/mqtt.constants';
+import {
+    buildIrrigationTopic,
+    CompiledSensorTopic,
+    compileSensorTopic,
+    mapSensorPayload,
+    matchIrrigationFilter,
+    matchSensorTopic
+} from './mqtt-mappings';
+
+/**
+ * Injection token for the bridge configuration and topic mappings
+ */
+export const MQTT_BRIDGE_OPTIONS = 'MQTT_BRIDGE_OPTIONS';
+
+// CONNACK return code for a bad username or password; aedes only declares its codes as types
+const BAD_CREDENTIALS_RETURN_CODE = 4 as AuthErrorCode;
+
+/**
+ * Configuration and topic mappings the bridge runs with
+ */
+export interface MqttBridgeOptions {
+    config: MqttConfig;
+    mappings: IMqttMappings;
+}
+
+@Injectable()
+export class MqttBridgeService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(MqttBridgeService.name);
+    private readonly sensorTopics: { mapping: IMqttSensorMapping; compiled: CompiledSensorTopic }[];
+    private client?: MqttClient;
+    private broker?: { instance: Aedes; server: Server };
+
+    constructor(
+        @Inject(MQTT_BRIDGE_OPTIONS) private readonly options: MqttBridgeOptions,
+        private readonly sensorService: SensorService,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly plantCatalog: PlantCatalogService
+    ) {
+        this.sensorTopics = options.mappings.sensors.map(mapping => ({
+            mapping,
+            compiled: compileSensorTopic(mapping.topic)
+        }));
+    }
+
+    async onModuleInit(): Promise<void> {
+        if (this.options.config.enabled) {
+            await this.start();
+        }
+    }
+
+    async onModuleDestroy(): Promise<void> {
+        await this.stop();
+    }
+
+    /**
+     * Starts the embedded broker when configured, connects to the broker and subscribes
+     * to the mapped sensor topics
+     * The embedded broker is stopped again when the bridge cannot connect
+     */
+    async start(): Promise<void> {
+        const { config } = this.options;
+        if (config.embeddedBroker) {
+            await this.startEmbeddedBroker();
+        }
+
+        try {
+            this.client = await connectAsync(config.url, {
+                clientId: config.clientId,
+                username: config.username,
+                password: config.password,
+                reconnectPeriod: MQTT_DEFAULTS.RECONNECT_PERIOD_MS,
+                connectTimeout: MQTT_DEFAULTS.CONNECT_TIMEOUT_MS
+            });
+        } catch (error) {
+            await this.stop();
+            throw error;
+        }
+        this.client.on('error', error => this.logger.warn(`MQTT connection error: ${error.message}`));
+        this.client.on('message', (topic, payload) => {
+            this.handleMessage(topic, payload).catch(error =>
+                this.logger.error(`Failed to handle MQTT message on ${topic}: ${error.message}`)
+            );
+        });
+
+        const filters = Array.from(new Set(this.sensorTopics.map(({ compiled }) => compiled.filter)));
+        if (filters.length) {
+            await this.client.subscribeAsync(filters, { qos: MQTT_DEFAULTS.QOS });
+        }
+
+        this.logger.log(`MQTT bridge connected to ${config.url} with ${filters.length} sensor topics`);
+    }
+
+    /**
+     * Disconnects from the broker and stops the embedded broker
+     */
+    async stop(): Promise<void> {
+        if (this.client) {
+            await this.client.endAsync();
+            this.client = undefined;
+        }
+
+        if (this.broker) {
+            const { instance, server } = this.broker;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+            await new Promise<void>(resolve => instance.close(() => resolve()));
+            this.broker = undefined;
+        }
+    }
+
+    /**
+     * Stores the readings of a message received on a sensor topic
+     * Messages that map to no readings or fail to store are logged and dropped, so one bad
+     * device cannot stop the bridge
+     * @param topic Topic the message arrived on
+     * @param payload Message payload
+     * @param receivedAt When the message arrived
+     * @returns Promise<number> Number of readings stored
+     */
+    async handleMessage(topic: string, payload: Buffer | string, receivedAt: Date = new Date()): Promise<number> {
+        let stored = 0;
+
+        for (const { mapping, compiled } of this.sensorTopics) {
+            const params = matchSensorTopic(compiled, topic);
+            if (!params) {
+                continue;
+            }
+
+            try {
+                const readings = mapSensorPayload(mapping, params, payload);
+                if (!readings.length) {
+                    continue;
+                }
+
+                const result = await this.sensorService.ingestReadings(mapping.deviceKey, readings, receivedAt);
+                stored += result.accepted;
+                result.rejected.forEach(rejection =>
+                    this.logger.warn(`Dropped MQTT reading on ${topic}: ${rejection.error}`)
+                );
+            } catch (error) {
+                this.logger.warn(`Dropped MQTT message on ${topic}: ${error.message}`);
+            }
+        }
+
+        return stored;
+    }
+
+    /**
+     * Publishes watering commands for watering tasks that have come due
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    async handleDueWatering(): Promise<void> {
+        if (!this.client) {
+            return;
+        }
+
+        try {
+            await this.publishDueWatering();
+        } catch (error) {
+            this.logger.error(`Failed to publish watering commands: ${error.message}`);
+        }
+    }
+
+    /**
+     * Publishes a watering command for each due watering task of the mapped gardens
+     * Each task is commanded once; tasks overdue past the lookback are left to the gardener
+     * @param now Current time
+     * @returns Promise<IIrrigationCommand[]> Commands published
+     */
+    async publishDueWatering(now: Date = new Date()): Promise<IIrrigationCommand[]> {
+        if (!this.client) {
+            throw new Error(MQTT_ERRORS.NOT_CONNECTED);
+        }
+
+        const commands: IIrrigationCommand[] = [];
+        const gardenIds = Array.from(new Set(this.options.mappings.irrigation.map(mapping => mapping.gardenId)));
+
+        for (const gardenId of gardenIds) {
+            const tasks = await this.scheduleRepository.getPendingTasks(
+                moment(now).subtract(MQTT_DEFAULTS.COMMAND_LOOKBACK_HOURS, 'hours').toDate(),
+                now,
+                { gardenId, taskTypes: [TaskType.WATERING] }
+            );
+            const due = tasks.filter(task => !task.task_metadata?.irrigationCommandedAt);
+            if (!due.length) {
+                continue;
+            }
+
+            const [garden, plants] = await Promise.all([
+                this.gardenRepository.getGardenById(gardenId),
+                this.plantRepository.getPlantsByGarden(gardenId)
+            ]);
+            if (!garden) {
+                this.logger.warn(`Garden ${gardenId} in the MQTT irrigation mappings was not found`);
+                continue;
+            }
+
+            for (const task of due) {
+                const command = await this.publishCommand(garden, plants, task, now);
+                if (command) {
+                    commands.push(command);
+                }
+            }
+        }
+
+        return commands;
+    }
+
+    /**
+     * Publishes a watering task's command to the irrigation topics of its zone and marks
+     * the task as commanded
+     * @private
+     */
+    private async publishCommand(
+        garden: IGarden,
+        plants: IPlant[],
+        task: ISchedule,
+        now: Date
+    ): Promise<IIrrigationCommand | undefined> {
+        const zoneId = (garden.zones || []).find(zone =>
+            (zone.plants || []).some(zonePlant => zonePlant.id === task.plantId)
+        )?.id;
+        const mappings = this.options.mappings.irrigation.filter(mapping =>
+            mapping.gardenId === garden.id && (!mapping.zoneId || mapping.zoneId === zoneId)
+        );
+        if (!mappings.length) {
+            return undefined;
+        }
+
+        const plant = plants.find(gardenPlant => gardenPlant.id === task.plantId);
+        const waterRequirementMl = plant?.waterRequirementMl
+            ?? (plant ? this.plantCatalog.getEntry(plant.type)?.waterRequirementMl : undefined)
+            ?? 0;
+        const command: IIrrigationCommand = {
+            command: IRRIGATION_COMMANDS.WATER,
+            scheduleId: task.id,
+            gardenId: garden.id,
+            zoneId,
+            plantId: task.plantId,
+            amountMl: waterRequirementMl * (plant?.quantity ?? 1),
+            dueDate: new Date(task.dueDate),
+            issuedAt: now
+        };
+
+        let published = 0;
+        for (const mapping of mappings) {
+            const topic = buildIrrigationTopic(mapping, { gardenId: garden.id, zoneId, plantId: task.plantId });
+            if (!topic) {
+                this.logger.warn(`No irrigation topic for task ${task.id}: ${mapping.topic} needs a zone`);
+                continue;
+            }
+
+            await this.client!.publishAsync(topic, JSON.stringify(command), {
+                qos: MQTT_DEFAULTS.QOS,
+                retain: mapping.retain ?? false
+            });
+            published++;
+        }
+
+        if (!published) {
+            return undefined;
+        }
+
+        await this.scheduleRepository.updateSchedule(task.id, {
+            task_metadata: { ...task.task_metadata, irrigationCommandedAt: now }
+        }, { optimisticLock: false });
+        this.logger.log(`Published watering command for task ${task.id} to ${published} irrigation topics`);
+
+        return command;
+    }
+
+    /**
+     * Starts a broker inside the backend on the configured interface
+     * @private
+     */
+    private async startEmbeddedBroker(): Promise<void> {
+        const { config } = this.options;
+        if (!config.username || !config.password) {
+            throw new Error(MQTT_ERRORS.BROKER_CREDENTIALS_REQUIRED);
+        }
+
+        const instance = createBroker({
+            authenticate: (client, username, password, done) => {
+                if (this.hasBrokerCredentials(username, password)) {
+                    done(null, true);
+                    return;
+                }
+
+                const error = new Error(MQTT_ERRORS.BAD_CREDENTIALS) as AuthenticateError;
+                error.returnCode = BAD_CREDENTIALS_RETURN_CODE;
+                this.logger.warn(`Refused MQTT client ${client.id}: ${error.message}`);
+                done(error, false);
+            },
+            authorizePublish: (client, packet, callback) => {
+                const allowed = this.isBridge(client) || this.sensorTopics.some(({ compiled }) =>
+                    matchSensorTopic(compiled, packet.topic)
+                );
+                if (allowed) {
+                    callback(null);
+                    return;
+                }
+
+                this.logger.warn(`Refused publish by MQTT client ${client?.id} to ${packet.topic}`);
+                callback(new Error(`${MQTT_ERRORS.PUBLISH_NOT_ALLOWED}: ${packet.topic}`));
+            },
+            authorizeSubscribe: (client, subscription, callback) => {
+                const allowed = this.isBridge(client) || this.options.mappings.irrigation.some(mapping =>
+                    matchIrrigationFilter(mapping, subscription.topic)
+                );
+                if (!allowed) {
+                    this.logger.warn(`Refused subscription by MQTT client ${client.id} to ${subscription.topic}`);
+                }
+
+                // A null subscription is refused without disconnecting the client
+                callback(null, allowed ? subscription : null);
+            }
+        });
+        const server = createServer(instance.handle);
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(config.embeddedBrokerPort, config.embeddedBrokerHost, () => resolve());
+        });
+
+        this.broker = { instance, server };
+        this.logger.log(`Embedded MQTT broker listening on ${config.embeddedBrokerHost}:${config.embeddedBrokerPort}`);
+    }
+
+    /**
+     * Checks credentials presented to the embedded broker against the configured ones
+     * @private
+     */
+    private hasBrokerCredentials(username?: string, password?: Buffer): boolean {
+        const { config } = this.options;
+        const expected = Buffer.from(config.password ?? '');
+
+        return username === config.username && password !== undefined &&
+            password.length === expected.length && timingSafeEqual(password, expected);
+    }
+
+    /**
+     * Checks whether a broker client is the bridge itself; messages published by the broker
+     * itself come without a client
+     * @private
+     */
+    private isBridge(client: Client | null): boolean {
+        return !client || client.id === this.options.config.clientId;
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * MQTT Mappings
+ * Loads the MQTT mappings file and maps sensor topics and payloads onto readings, and
+ * watering tasks onto the irrigation topics their commands are published to
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+
+import {
+    IMqttIrrigationMapping,
+    IMqttMappings,
+    IMqttSensorMapping
+} from '../../interfaces/mqtt.interface';
+import { ISensorReadingInput } from '../../interfaces/sensor.interface';
+import { MQTT_ERRORS, MQTT_TOPIC_PLACEHOLDERS } from '../../constants/mqtt.constants';
+import { SENSOR_METRICS, SensorMetric } from '../../constants/sensor.constants';
+
+/**
+ * Values taken from the placeholders of a matched sensor topic
+ */
+export type TopicParams = Partial<Record<typeof MQTT_TOPIC_PLACEHOLDERS[keyof typeof MQTT_TOPIC_PLACEHOLDERS], string>>;
+
+/**
+ * Sensor topic split into levels, ready for matching
+ */
+export interface CompiledSensorTopic {
+    filter: string;     // Topic filter subscribed to, with placeholders as + wildcards
+    levels: string[];
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/;
+
+/**
+ * Reads and checks the MQTT mappings file
+ * @param path Mappings file; no mappings when omitted
+ * @returns IMqttMappings Sensor and irrigation mappings
+ */
+export function loadMqttMappings(path?: string): IMqttMappings {
+    if (!path) {
+        return { sensors: [], irrigation: [] };
+    }
+
+    const mappings = JSON.parse(readFileSync(path, 'utf8'));
+    const sensors: IMqttSensorMapping[] = mappings?.sensors ?? [];
+    const irrigation: IMqttIrrigationMapping[] = mappings?.irrigation ?? [];
+
+    if (!Array.isArray(sensors) || !Array.isArray(irrigation)
+        || sensors.some(mapping => typeof mapping?.topic !== 'string' || typeof mapping.deviceKey !== 'string')
+        || irrigation.some(mapping => typeof mapping?.topic !== 'string' || typeof mapping.gardenId !== 'string')) {
+        throw new Error(MQTT_ERRORS.INVALID_MAPPINGS);
+    }
+
+    sensors.forEach(mapping => compileSensorTopic(mapping.topic));
+    irrigation.forEach(mapping => checkIrrigationTopic(mapping.topic));
+
+    return { sensors, irrigation };
+}
+
+/**
+ * Splits a sensor topic into levels and derives the filter subscribed to
+ * @param topic Sensor topic with optional wildcards and placeholders
+ * @returns CompiledSensorTopic Topic filter and levels
+ */
+export function compileSensorTopic(topic: string): CompiledSensorTopic {
+    const placeholders = Object.values(MQTT_TOPIC_PLACEHOLDERS) as string[];
+    const levels = topic.split('/');
+
+    levels.forEach((level, index) => {
+        const placeholder = PLACEHOLDER_PATTERN.exec(level);
+        if (placeholder && (level !== placeholder[0] || !placeholders.includes(placeholder[1]))) {
+            throw new Error(`${MQTT_ERRORS.INVALID_TOPIC}: ${topic}`);
+        }
+        if (level === '#' && index !== levels.length - 1) {
+            throw new Error(`${MQTT_ERRORS.INVALID_TOPIC}: ${topic}`);
+        }
+    });
+
+    return {
+        filter: levels.map(level => (PLACEHOLDER_PATTERN.test(level) ? '+' : level)).join('/'),
+        levels
+    };
+}
+
+/**
+ * Matches a topic a message arrived on against a sensor topic
+ * @param compiled Compiled sensor topic
+ * @param topic Topic of the message
+ * @returns TopicParams | undefined Placeholder values, or undefined when the topic does not match
+ */
+export function matchSensorTopic(compiled: CompiledSensorTopic, topic: string): TopicParams | undefined {
+    const parts = topic.split('/');
+    const params: Record<string, string> = {};
+
+    for (let index = 0; index < compiled.levels.length; index++) {
+        const level = compiled.levels[index];
+        if (level === '#') {
+            return params;
+        }
+
+        const part = parts[index];
+        if (part === undefined) {
+            return undefined;
+        }
+
+        const placeholder = PLACEHOLDER_PATTERN.exec(level);
+        if (placeholder) {
+            params[placeholder[1]] = part;
+        } else if (level !== '+' && level !== part) {
+            return undefined;
+        }
+    }
+
+    return parts.length === compiled.levels.length ? params : undefined;
+}
+
+/**
+ * Checks whether a topic filter only matches topics of an irrigation mapping
+ * Placeholder levels may be filled in or subscribed to with a + wildcard; other levels must match
+ * @param mapping Irrigation mapping
+ * @param filter Topic filter a controller subscribes to
+ * @returns boolean Whether the filter stays within the mapping's topics
+ */
+export function matchIrrigationFilter(mapping: IMqttIrrigationMapping, filter: string): boolean {
+    const levels = mapping.topic.split('/');
+    const parts = filter.split('/');
+
+    return parts.length === levels.length && levels.every((level, index) =>
+        PLACEHOLDER_PATTERN.test(level) ? parts[index] !== '#' : parts[index] === level
+    );
+}
+
+/**
+ * Maps a sensor message onto readings
+ * A payload may be a bare number of the mapped metric, a JSON object with a value (and
+ * optionally a metric), or a JSON object of values keyed by metric or by the mapped fields
+ * @param mapping Sensor mapping the topic matched
+ * @param params Placeholder values of the topic
+ * @param payload Message payload
+ * @returns ISensorReadingInput[] Readings; the receiving time applies when the payload has none
+ */
+export function mapSensorPayload(
+    mapping: IMqttSensorMapping,
+    params: TopicParams,
+    payload: Buffer | string
+): ISensorReadingInput[] {
+    const text = payload.toString().trim();
+    const spot = {
+        zoneId: params.zoneId ?? mapping.zoneId,
+        plantId: params.plantId ?? mapping.plantId
+    };
+    const defaultMetric = (params.metric ?? mapping.metric) as SensorMetric | undefined;
+
+    if (text !== '' && !isNaN(Number(text))) {
+        if (!defaultMetric) {
+            throw new Error(MQTT_ERRORS.MISSING_METRIC);
+        }
+        return [{ metric: defaultMetric, value: Number(text), ...spot }];
+    }
+
+    let body: any;
+    try {
+        body = JSON.parse(text);
+    } catch (error) {
+        throw new Error(MQTT_ERRORS.INVALID_PAYLOAD);
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new Error(MQTT_ERRORS.INVALID_PAYLOAD);
+    }
+
+    const recordedAt = mapping.timestampField !== undefined
+        ? toRecordedAt(body[mapping.timestampField])
+        : undefined;
+    const reading = (metric: SensorMetric, value: unknown): ISensorReadingInput => ({
+        metric,
+        value: Number(value),
+        ...spot,
+        ...(recordedAt ? { recordedAt } : {})
+    });
+
+    if (mapping.fields) {
+        return Object.entries(mapping.fields)
+            .filter(([field]) => body[field] !== undefined && body[field] !== null)
+            .map(([field, metric]) => reading(metric, body[field]));
+    }
+
+    if (body.value !== undefined) {
+        const metric = body.metric ?? defaultMetric;
+        if (!metric) {
+            throw new Error(MQTT_ERRORS.MISSING_METRIC);
+        }
+        return [reading(metric, body.value)];
+    }
+
+    return (Object.values(SENSOR_METRICS) as SensorMetric[])
+        .filter(metric => body[metric] !== undefined && body[metric] !== null)
+        .map(metric => reading(metric, body[metric]));
+}
+
+/**
+ * Fills in the placeholders of an irrigation topic
+ * @param mapping Irrigation mapping
+ * @param values Garden, zone and plant of the watering task
+ * @returns string | undefined Topic, or undefined when a placeholder has no value
+ */
+export function buildIrrigationTopic(
+    mapping: IMqttIrrigationMapping,
+    values: { gardenId: string; zoneId?: string; plantId: string }
+): string | undefined {
+    let missing = false;
+    const topic = mapping.topic.replace(/\{(\w+)\}/g, (_, name: string) => {
+        const value = (values as Record<string, string | undefined>)[name];
+        if (!value) {
+            missing = true;
+        }
+        return value ?? '';
+    });
+
+    return missing ? undefined : topic;
+}
+
+/**
+ * Checks an irrigation topic can be published to
+ * @private
+ */
+function checkIrrigationTopic(topic: string): void {
+    const names = Array.from(topic.matchAll(/\{(\w+)\}/g), match => match[1]);
+    if (/[+#]/.test(topic) || names.some(name => !['gardenId', 'zoneId', 'plantId'].includes(name))) {
+        throw new Error(`${MQTT_ERRORS.INVALID_TOPIC}: ${topic}`);
+    }
+}
+
+/**
+ * Reads a payload timestamp given as an ISO date or unix seconds or milliseconds
+ * @private
+ */
+function toRecordedAt(value: unknown): Date | undefined {
+    if (typeof value === 'number') {
+        return new Date(value > 1e11 ? value : value * 1000);
+    }
+    if (typeof value === 'string' && value) {
+        return new Date(value);
+    }
+    return undefined;
+}
@@ -0,0 +1,44 @@
+/**
+ * MQTT Module
+ * @packageVersion 5.0
+ *
+ * Provides the optional MQTT bridge between garden hardware and the sensor store and
+ * watering schedule. The bridge only connects when enabled in the MQTT configuration.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+
+import { MQTT_BRIDGE_OPTIONS, MqttBridgeOptions, MqttBridgeService } from './mqtt-bridge.service';
+import { loadMqttMappings } from './mqtt-mappings';
+import { SensorModule } from '../../routes/sensor.routes';
+import { PlantCatalogModule } from '../../routes/plant-catalog.routes';
+import { ScheduleRepository } from '../../repositories/schedule.repository';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { PlantRepository } from '../../repositories/plant.repository';
+import { mqttConfig } from '../../config/mqtt.config';
+
+/**
+ * MQTT module exporting the bridge so watering commands can be published on demand
+ */
+@Module({
+    imports: [SensorModule, PlantCatalogModule],
+    providers: [
+        {
+            provide: MQTT_BRIDGE_OPTIONS,
+            useFactory: (): MqttBridgeOptions => ({
+                config: mqttConfig,
+                mappings: mqttConfig.enabled
+                    ? loadMqttMappings(mqttConfig.mappingsPath)
+                    : { sensors: [], irrigation: [] }
+            })
+        },
+        ScheduleRepository,
+        GardenRepository,
+        PlantRepository,
+        MqttBridgeService
+    ],
+    exports: [MqttBridgeService]
+})
+export class MqttModule {
+    // Module configuration is handled through decorators
+}
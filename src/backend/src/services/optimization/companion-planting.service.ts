@@ -8,30 +8,25 @@ import { Injectable } from '@nestjs/common';
 import { Observable, of } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 import { IPlant } from '../../interfaces/plant.interface';
-import { COMPANION_PLANTS, PLANT_TYPES } from '../../constants/plant.constants';
+import {
+    IGardenZone,
+    IGardenOptimizationParams,
+    IPlacementInfluence,
+    IZonePlacementExplanation
+} from '../../interfaces/garden.interface';
+import {
+    PlantType,
+    COMPANION_RELATIONSHIP_TYPES,
+    COMPANION_PLANTING_DEFAULTS
+} from '../../constants/plant.constants';
+import { PlantCatalogService } from '../plant-catalog.service';
 
 @Injectable()
 export class CompanionPlantingService {
-    private readonly companionPlantsMap: Map<PLANT_TYPES, PLANT_TYPES[]>;
-    private readonly spacingAdjustments: Map<string, number>;
-
-    constructor() {
-        // Initialize companion plants mapping
-        this.companionPlantsMap = new Map(Object.entries(COMPANION_PLANTS));
-
-        // Initialize spacing adjustments for companion pairs
-        // Reduce spacing requirements by 25% for compatible companions
-        this.spacingAdjustments = new Map<string, number>();
-        Object.keys(COMPANION_PLANTS).forEach(plantType => {
-            COMPANION_PLANTS[plantType as PLANT_TYPES].forEach(companion => {
-                const pairKey = this.getCompanionPairKey(
-                    plantType as PLANT_TYPES,
-                    companion
-                );
-                this.spacingAdjustments.set(pairKey, 0.75); // 25% reduction
-            });
-        });
-    }
+    // Reduce spacing requirements by 25% for compatible companions
+    private readonly COMPANION_SPACING_ADJUSTMENT = COMPANION_PLANTING_DEFAULTS.BENEFICIAL_SPACING_FACTOR;
+
+    constructor(private readonly plantCatalog: PlantCatalogService) {}
 
     /**
      * Optimizes plant placement based on companion planting principles
@@ -80,33 +75,144 @@ export class CompanionPlantingService {
      * @returns boolean indicating compatibility
      */
     public checkCompatibility(
-        plant1Type: PLANT_TYPES,
-        plant2Type: PLANT_TYPES
+        plant1Type: PlantType,
+        plant2Type: PlantType
     ): boolean {
         try {
-            if (!this.companionPlantsMap.has(plant1Type)) {
+            const entry = this.plantCatalog.getEntry(plant1Type);
+            if (!entry) {
                 return false;
             }
 
-            const companions = this.companionPlantsMap.get(plant1Type);
-            return companions?.includes(plant2Type) || false;
+            return entry.companionPlants.includes(plant2Type);
         } catch (error) {
             console.error('Companion compatibility check error:', error);
             return false;
         }
     }
 
+    /**
+     * Places the plants of a zone one at a time, applying the companion relationship graph
+     * Beneficial neighbours are rewarded; harmful neighbours that cannot be kept at least
+     * antagonistDistance apart within the zone are forbidden or penalised
+     * @param zone - Zone whose plants are being placed
+     * @param params - Optimization parameters carrying the antagonist rules
+     * @returns Accepted plants and the explanation of every relationship applied
+     */
+    public evaluateZonePlacement(
+        zone: IGardenZone,
+        params: IGardenOptimizationParams
+    ): { plants: IPlant[]; explanation: IZonePlacementExplanation } {
+        const explanation: IZonePlacementExplanation = {
+            zoneId: zone.id,
+            companionScore: 0,
+            influences: [],
+            rejectedPlantIds: []
+        };
+
+        if (!params.companionPlantingEnabled) {
+            return { plants: [...zone.plants], explanation };
+        }
+
+        const antagonistDistance = params.antagonistDistance ?? COMPANION_PLANTING_DEFAULTS.ANTAGONIST_DISTANCE_INCHES;
+        const forbidHarmful = params.forbidHarmfulAdjacency ?? COMPANION_PLANTING_DEFAULTS.FORBID_HARMFUL_ADJACENCY;
+
+        // Widest separation two plants can have inside the zone, in inches
+        const maxSeparation = zone.position?.width && zone.position?.height
+            ? Math.hypot(zone.position.width, zone.position.height) * 12
+            : Math.sqrt(2 * zone.area) * 12;
+        const antagonistInRange = maxSeparation < antagonistDistance;
+
+        const placed: IPlant[] = [];
+
+        for (const plant of zone.plants) {
+            const influences: IPlacementInfluence[] = [];
+            let score = 0;
+            let forbidden = false;
+
+            for (const neighbour of placed) {
+                const relationship = this.plantCatalog.getRelationship(plant.type, neighbour.type);
+                if (!relationship || relationship.relationshipType === COMPANION_RELATIONSHIP_TYPES.NEUTRAL) {
+                    continue;
+                }
+
+                const influence: Omit<IPlacementInfluence, 'effect' | 'reason'> = {
+                    plantId: plant.id,
+                    plantType: plant.type,
+                    neighbourId: neighbour.id,
+                    neighbourType: neighbour.type,
+                    relationshipType: relationship.relationshipType
+                };
+
+                if (relationship.relationshipType === COMPANION_RELATIONSHIP_TYPES.BENEFICIAL) {
+                    score += COMPANION_PLANTING_DEFAULTS.BENEFICIAL_SCORE;
+                    influences.push({
+                        ...influence,
+                        effect: 'REWARDED',
+                        reason: relationship.benefitDescription ||
+                            `${plant.type} benefits from growing near ${neighbour.type}`
+                    });
+                } else if (!antagonistInRange) {
+                    influences.push({
+                        ...influence,
+                        effect: 'SEPARATED',
+                        reason: `${plant.type} must be kept at least ${antagonistDistance} inches from ${neighbour.type}`
+                    });
+                } else if (forbidHarmful) {
+                    forbidden = true;
+                    influences.push({
+                        ...influence,
+                        effect: 'FORBIDDEN',
+                        reason: `${plant.type} cannot be kept ${antagonistDistance} inches from ${neighbour.type} in zone ${zone.id}`
+                    });
+                } else {
+                    score += COMPANION_PLANTING_DEFAULTS.HARMFUL_PENALTY;
+                    influences.push({
+                        ...influence,
+                        effect: 'PENALISED',
+                        reason: `${plant.type} is within ${antagonistDistance} inches of antagonist ${neighbour.type}`
+                    });
+                }
+            }
+
+            if (forbidden) {
+                // A rejected plant contributes only the relationships that excluded it
+                explanation.rejectedPlantIds.push(plant.id);
+                explanation.influences.push(...influences.filter(item => item.effect === 'FORBIDDEN'));
+                continue;
+            }
+
+            placed.push(plant);
+            explanation.companionScore += score;
+            explanation.influences.push(...influences);
+        }
+
+        return { plants: placed, explanation };
+    }
+
     /**
      * Calculates optimal spacing between companion plants
+     * Beneficial pairs may be planted closer together while harmful pairs are kept
+     * at least the antagonist distance apart
      * @param plant1 - First plant
      * @param plant2 - Second plant
+     * @param antagonistDistance - Minimum distance in inches for harmful pairs
      * @returns number representing optimal spacing in inches
      */
-    public calculateOptimalSpacing(plant1: IPlant, plant2: IPlant): number {
+    public calculateOptimalSpacing(
+        plant1: IPlant,
+        plant2: IPlant,
+        antagonistDistance: number = COMPANION_PLANTING_DEFAULTS.ANTAGONIST_DISTANCE_INCHES
+    ): number {
         try {
             // Get base spacing requirements
             const baseSpacing = Math.max(plant1.spacing, plant2.spacing);
 
+            const relationship = this.plantCatalog.getRelationship(plant1.type, plant2.type);
+            if (relationship?.relationshipType === COMPANION_RELATIONSHIP_TYPES.HARMFUL) {
+                return Number(Math.max(baseSpacing, antagonistDistance).toFixed(1));
+            }
+
             // Apply companion planting adjustment if plants are compatible
             const adjustmentFactor = this.getSpacingAdjustment(
                 plant1.type,
@@ -126,26 +232,19 @@ export class CompanionPlantingService {
         }
     }
 
-    /**
-     * Generates a unique key for companion plant pairs
-     * @private
-     */
-    private getCompanionPairKey(
-        plant1Type: PLANT_TYPES,
-        plant2Type: PLANT_TYPES
-    ): string {
-        return [plant1Type, plant2Type].sort().join('_');
-    }
-
     /**
      * Retrieves spacing adjustment factor for plant pairs
+     * A pair counts as companions when either catalog entry lists the other
      * @private
      */
     private getSpacingAdjustment(
-        plant1Type: PLANT_TYPES,
-        plant2Type: PLANT_TYPES
+        plant1Type: PlantType,
+        plant2Type: PlantType
     ): number {
-        const pairKey = this.getCompanionPairKey(plant1Type, plant2Type);
-        return this.spacingAdjustments.get(pairKey) || 1.0;
+        const isCompanionPair =
+            this.checkCompatibility(plant1Type, plant2Type) ||
+            this.checkCompatibility(plant2Type, plant1Type);
+
+        return isCompanionPair ? this.COMPANION_SPACING_ADJUSTMENT : 1.0;
     }
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+/**
+ * Service responsible for crop rotation checks
+ * Compares the plant family placed in a zone with the families grown there in earlier
+ * seasons, so the same family does not return to a zone within the rotation period
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+    IGardenZone,
+    IRotationWarning,
+    IZonePlantingRecord
+} from '../../interfaces/garden.interface';
+import { IPlant } from '../../interfaces/plant.interface';
+import { PlantType, CROP_ROTATION_DEFAULTS } from '../../constants/plant.constants';
+import { PlantCatalogService } from '../plant-catalog.service';
+
+@Injectable()
+export class CropRotationService {
+    constructor(private readonly plantCatalog: PlantCatalogService) {}
+
+    /**
+     * Checks whether a plant type may grow in a zone during a season
+     * Crops grown in the same season are ignored, so succession sowings never conflict
+     * @param zone Zone with its planting history and current plants
+     * @param plantType Catalog plant type being placed
+     * @param season Growing season the plant is placed in
+     * @param rotationSeasons Seasons before a family may return to the same zone
+     * @returns IRotationWarning | undefined Warning for the most recent conflicting crop
+     */
+    public findRotationConflict(
+        zone: IGardenZone,
+        plantType: PlantType,
+        season: number,
+        rotationSeasons: number = CROP_ROTATION_DEFAULTS.ROTATION_SEASONS
+    ): IRotationWarning | undefined {
+        const entry = this.plantCatalog.getEntry(plantType);
+        if (!entry) {
+            return undefined;
+        }
+
+        const previous = this.getGrownCrops(zone)
+            .filter(record =>
+                record.season < season &&
+                record.season > season - rotationSeasons &&
+                this.plantCatalog.getEntry(record.plantType)?.family === entry.family
+            )
+            .sort((a, b) => b.season - a.season)[0];
+        if (!previous) {
+            return undefined;
+        }
+
+        const previousName = this.plantCatalog.getEntry(previous.plantType)?.name ?? previous.plantType;
+        const nextAllowedSeason = previous.season + rotationSeasons;
+
+        return {
+            zoneId: zone.id,
+            plantType,
+            family: entry.family,
+            lastGrownSeason: previous.season,
+            nextAllowedSeason,
+            message: `${previousName} (${entry.family}) grew in zone ${zone.id} in ${previous.season}; ` +
+                `avoid planting ${entry.name} there before ${nextAllowedSeason}`
+        };
+    }
+
+    /**
+     * Moves plants whose family grew in their zone within the rotation period to another zone
+     * with the same sunlight and room for them, where the family has not grown recently
+     * Plants without such a zone stay where they are; moved plants lose their zone position
+     * @param zones Zones with placed plants
+     * @param rotationSeasons Seasons before a family may return to the same zone
+     * @param referenceDate Date used for plants without a planted date
+     * @returns IGardenZone[] Zones with the plants rotated out of conflicting zones
+     */
+    public rotatePlacements(
+        zones: IGardenZone[],
+        rotationSeasons: number = CROP_ROTATION_DEFAULTS.ROTATION_SEASONS,
+        referenceDate: Date = new Date()
+    ): IGardenZone[] {
+        const rotated = zones.map(zone => ({ ...zone, plants: [...zone.plants] }));
+
+        for (const zone of rotated) {
+            for (const plant of [...zone.plants]) {
+                const season = this.getSeason(plant, referenceDate);
+                if (!this.findRotationConflict(zone, plant.type, season, rotationSeasons)) {
+                    continue;
+                }
+
+                const target = rotated.find(candidate =>
+                    candidate.id !== zone.id &&
+                    candidate.sunlightCondition === zone.sunlightCondition &&
+                    this.getOccupiedArea(candidate.plants) + this.getOccupiedArea([plant]) <= candidate.area &&
+                    !this.findRotationConflict(candidate, plant.type, season, rotationSeasons)
+                );
+                if (target) {
+                    const { position, ...moved } = plant;
+                    zone.plants = zone.plants.filter(other => other !== plant);
+                    target.plants.push(moved);
+                }
+            }
+        }
+
+        return rotated;
+    }
+
+    /**
+     * Checks every plant placed in the given zones against the zones' planting history
+     * Plants without a planted date are treated as planted in the reference season
+     * @param zones Zones with placed plants
+     * @param rotationSeasons Seasons before a family may return to the same zone
+     * @param referenceDate Date used for plants without a planted date
+     * @returns IRotationWarning[] One warning per conflicting plant
+     */
+    public evaluateZones(
+        zones: IGardenZone[],
+        rotationSeasons: number = CROP_ROTATION_DEFAULTS.ROTATION_SEASONS,
+        referenceDate: Date = new Date()
+    ): IRotationWarning[] {
+        return zones.flatMap(zone => zone.plants.flatMap(plant => {
+            const season = this.getSeason(plant, referenceDate);
+            const conflict = this.findRotationConflict(zone, plant.type, season, rotationSeasons);
+
+            return conflict ? [{ ...conflict, plantId: plant.id }] : [];
+        }));
+    }
+
+    /**
+     * Works out the season a plant grows in, using the reference date when it has no planted date
+     * @private
+     */
+    private getSeason(plant: IPlant, referenceDate: Date): number {
+        return plant.plantedDate
+            ? new Date(plant.plantedDate).getFullYear()
+            : referenceDate.getFullYear();
+    }
+
+    /**
+     * Calculates the square feet taken by plants at their spacing
+     * @private
+     */
+    private getOccupiedArea(plants: IPlant[]): number {
+        return plants.reduce((sum, plant) =>
+            sum + Math.pow(plant.spacing / 12, 2) * (plant.quantity ?? 1), 0);
+    }
+
+    /**
+     * Lists the crops recorded for a zone, including the plants currently placed in it
+     * @private
+     */
+    private getGrownCrops(zone: IGardenZone): IZonePlantingRecord[] {
+        return [
+            ...(zone.plantingHistory || []),
+            ...zone.plants
+                .filter(plant => plant.plantedDate)
+                .map(plant => ({
+                    plantType: plant.type,
+                    season: new Date(plant.plantedDate).getFullYear()
+                }))
+        ];
+    }
+}
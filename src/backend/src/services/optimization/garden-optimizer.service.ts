@@ -11,10 +11,17 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Observable, from, mergeMap } from 'rxjs';
 import { MMKV } from 'react-native-mmkv';
 
-import { IGarden, IGardenLayout } from '../../interfaces/garden.interface';
+import {
+    IGarden,
+    IGardenLayout,
+    IGardenZone,
+    IGardenOptimizationParams,
+    IZonePlacementExplanation
+} from '../../interfaces/garden.interface';
 import { SpaceCalculatorService } from './space-calculator.service';
 import { CompanionPlantingService } from './companion-planting.service';
 import { SunlightAnalyzerService } from './sunlight-analyzer.service';
+import { CropRotationService } from './crop-rotation.service';
 
 import {
     GARDEN_AREA_LIMITS,
@@ -22,6 +29,9 @@ import {
     OPTIMIZATION_CACHE_TTL,
     LAYOUT_GENERATION_TIMEOUT
 } from '../../constants/garden.constants';
+import { COMPANION_PLANTING_DEFAULTS, CROP_ROTATION_DEFAULTS } from '../../constants/plant.constants';
+import { calculatePlantableArea } from '../../utils/garden-math.utils';
+import { hasIrregularLayout } from '../../validators/garden.validator';
 
 @Injectable()
 export class GardenOptimizerService {
@@ -32,7 +42,8 @@ export class GardenOptimizerService {
     constructor(
         private readonly spaceCalculator: SpaceCalculatorService,
         private readonly companionPlanting: CompanionPlantingService,
-        private readonly sunlightAnalyzer: SunlightAnalyzerService
+        private readonly sunlightAnalyzer: SunlightAnalyzerService,
+        private readonly cropRotation: CropRotationService
     ) {
         this.cache = new MMKV();
         this.logger.log('Initializing GardenOptimizerService');
@@ -41,11 +52,13 @@ export class GardenOptimizerService {
     /**
      * Generates an optimized garden layout with enhanced caching and performance monitoring
      * @param garden Garden configuration to optimize
+     * @param companionPlanting Whether plants are placed by their companions and antagonists,
+     * an advanced feature; off, only space and sunlight decide the layout
      * @returns Promise<IGardenLayout> Optimized garden layout
      */
-    async optimizeGardenLayout(garden: IGarden): Promise<IGardenLayout> {
+    async optimizeGardenLayout(garden: IGarden, companionPlanting: boolean = true): Promise<IGardenLayout> {
         const startTime = Date.now();
-        const cacheKey = `layout_${garden.id}`;
+        const cacheKey = `layout_${garden.id}_${companionPlanting ? 'companion' : 'basic'}`;
 
         try {
             // Check cache first
@@ -64,25 +77,45 @@ export class GardenOptimizerService {
                 throw new Error(`Invalid sunlight distribution: ${sunlightAnalysis.recommendations?.join(', ')}`);
             }
 
-            // Calculate optimal space utilization
-            const optimizedLayout = await this.spaceCalculator.calculateOptimalLayout(garden, {
+            const params: IGardenOptimizationParams = {
                 targetUtilization: SPACE_UTILIZATION_TARGET,
                 minZoneSize: 4,
                 defaultSpacing: 12,
                 maxZoneCount: garden.zones.length,
-                companionPlantingEnabled: true,
+                companionPlantingEnabled: companionPlanting,
                 zoneBalancing: 'optimal',
-                seasonalAdjustments: false
-            });
+                antagonistDistance: COMPANION_PLANTING_DEFAULTS.ANTAGONIST_DISTANCE_INCHES,
+                forbidHarmfulAdjacency: COMPANION_PLANTING_DEFAULTS.FORBID_HARMFUL_ADJACENCY,
+                rotationSeasons: garden.rotationSeasons ?? CROP_ROTATION_DEFAULTS.ROTATION_SEASONS
+            };
 
-            // Optimize plant placement with companion planting
-            const optimizedZones = await this.optimizePlantPlacement(optimizedLayout);
+            // Calculate optimal space utilization
+            const optimizedLayout = await this.spaceCalculator.calculateOptimalLayout(garden, params);
 
-            const finalLayout: IGardenLayout = {
+            // Replace declared sunlight conditions with sun-path estimates when the latitude is known
+            const sunExposure = this.sunlightAnalyzer.estimateSunExposure(garden, optimizedLayout.zones);
+            const exposedLayout: IGardenLayout = {
                 ...optimizedLayout,
+                zones: optimizedLayout.zones.map(zone => {
+                    const exposure = sunExposure.find(candidate => candidate.zoneId === zone.id);
+                    return exposure ? { ...zone, sunlightCondition: exposure.sunlightCondition } : zone;
+                })
+            };
+
+            // Optimize plant placement with crop rotation and companion planting
+            const { zones: optimizedZones, explanations } = this.optimizePlantPlacement(exposedLayout, params);
+
+            // Flag plants left in a zone their family grew in within the rotation period
+            const rotationWarnings = this.cropRotation.evaluateZones(optimizedZones, params.rotationSeasons);
+
+            const finalLayout: IGardenLayout = {
+                ...exposedLayout,
                 zones: optimizedZones,
-                spaceUtilization: this.calculateFinalUtilization(optimizedZones, garden.area),
-                generatedAt: new Date()
+                spaceUtilization: this.calculateFinalUtilization(optimizedZones, calculatePlantableArea(garden)),
+                generatedAt: new Date(),
+                placementExplanations: explanations,
+                sunExposure: sunExposure.length > 0 ? sunExposure : undefined,
+                rotationWarnings: rotationWarnings.length > 0 ? rotationWarnings : undefined
             };
 
             // Cache the result
@@ -118,50 +151,55 @@ export class GardenOptimizerService {
         }
 
         const totalZoneArea = garden.zones.reduce((sum, zone) => sum + zone.area, 0);
-        if (Math.abs(totalZoneArea - garden.area) > 0.1) { // 0.1 sq ft tolerance
+        if (hasIrregularLayout(garden)) {
+            if (totalZoneArea - calculatePlantableArea(garden) > 0.1) { // 0.1 sq ft tolerance
+                throw new Error('Total zone area must not exceed plantable garden area');
+            }
+        } else if (Math.abs(totalZoneArea - garden.area) > 0.1) { // 0.1 sq ft tolerance
             throw new Error('Total zone area must match garden area');
         }
     }
 
     /**
-     * Optimizes plant placement using companion planting rules
+     * Optimizes plant placement using crop rotation and the companion relationship graph
+     * Plants are first moved out of zones their family grew in within the rotation period
      * @param layout Initial optimized layout
-     * @returns Promise<IGardenZone[]> Zones with optimized plant placement
+     * @param params Optimization parameters carrying the antagonist and rotation rules
+     * @returns Zones with optimized plant placement and per-zone explanations
      */
-    private async optimizePlantPlacement(layout: IGardenLayout): Promise<IGardenZone[]> {
-        return Promise.all(layout.zones.map(async zone => {
-            const plantPlacements = new Map<string, boolean>();
-
+    private optimizePlantPlacement(
+        layout: IGardenLayout,
+        params: IGardenOptimizationParams
+    ): { zones: IGardenZone[]; explanations: IZonePlacementExplanation[] } {
+        const explanations: IZonePlacementExplanation[] = [];
+        const rotatedZones = this.cropRotation.rotatePlacements(layout.zones, params.rotationSeasons);
+
+        const zones = rotatedZones.map(zone => {
             // Process plants in order of sunlight requirements
-            const sortedPlants = [...zone.plants].sort((a, b) => 
+            const sortedPlants = [...zone.plants].sort((a, b) =>
                 b.sunlightNeeds.localeCompare(a.sunlightNeeds)
             );
 
-            for (const plant of sortedPlants) {
-                const existingPlants = zone.plants.filter(p => 
-                    plantPlacements.has(p.id)
-                );
-
-                const isOptimal = await this.companionPlanting
-                    .optimizePlantPlacement(existingPlants, plant)
-                    .toPromise();
+            const { plants, explanation } = this.companionPlanting.evaluateZonePlacement(
+                { ...zone, plants: sortedPlants },
+                params
+            );
+            explanations.push(explanation);
 
-                plantPlacements.set(plant.id, isOptimal || false);
+            if (explanation.rejectedPlantIds.length > 0) {
+                this.logger.debug(`Zone ${zone.id} rejected plants: ${explanation.rejectedPlantIds.join(', ')}`);
             }
 
-            return {
-                ...zone,
-                plants: zone.plants.filter(plant => 
-                    plantPlacements.get(plant.id)
-                )
-            };
-        }));
+            return { ...zone, plants };
+        });
+
+        return { zones, explanations };
     }
 
     /**
      * Calculates final space utilization percentage
      * @param zones Optimized garden zones
-     * @param totalArea Total garden area
+     * @param totalArea Plantable garden area
      * @returns number Space utilization percentage
      */
     private calculateFinalUtilization(zones: IGardenZone[], totalArea: number): number {
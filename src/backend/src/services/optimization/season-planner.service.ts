@@ -0,0 +1,357 @@
+/**
+ * Season Planner Service
+ * @packageVersion 5.0
+ *
+ * Schedules plantings across a whole season. Each crop holds zone space from sowing
+ * until its harvest window closes, after which the space is reused by later sowings.
+ * Zones that grew the same plant family within the rotation period are used last.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import moment from 'moment'; // ^2.29.0
+import {
+    IGarden,
+    IGardenZone,
+    ISeasonCropRequest,
+    ISeasonPlanRequest,
+    ISeasonPlanting,
+    ISeasonTimeline,
+    IUnscheduledSowing,
+    IRotationWarning
+} from '../../interfaces/garden.interface';
+import { IPlantCatalogEntry } from '../../interfaces/plant.interface';
+import {
+    SUNLIGHT_CONDITIONS,
+    SEASON_PLANNING_LIMITS,
+    SunlightCondition
+} from '../../constants/garden.constants';
+import { SUNLIGHT_REQUIREMENTS, CROP_ROTATION_DEFAULTS } from '../../constants/plant.constants';
+import { PLANTING_DATE_STATUS } from '../../constants/climate.constants';
+import { PlantCatalogService } from '../plant-catalog.service';
+import { ClimateService } from '../climate.service';
+import { CropRotationService } from './crop-rotation.service';
+import { BadRequestError } from '../../utils/error.utils';
+
+/**
+ * Sowing waiting to be placed, with dates as day offsets from the season start
+ */
+interface PendingSowing {
+    crop: ISeasonCropRequest;
+    entry: IPlantCatalogEntry;
+    succession: number;
+    earliestDay: number;
+    occupiedDays: number;
+    areaSqFt: number;
+}
+
+/**
+ * Sowing placed in a zone, with dates as day offsets from the season start
+ */
+interface ZoneBooking {
+    startDay: number;
+    endDay: number;
+    areaSqFt: number;
+}
+
+// Zone sunlight conditions ordered from least to most sun
+const SUNLIGHT_RANK: Record<SunlightCondition, number> = {
+    [SUNLIGHT_CONDITIONS.FULL_SHADE]: 0,
+    [SUNLIGHT_CONDITIONS.PARTIAL_SHADE]: 1,
+    [SUNLIGHT_CONDITIONS.FULL_SUN]: 2
+};
+
+// Least sunny zone condition each catalog sunlight requirement tolerates
+const REQUIRED_SUNLIGHT: Record<SUNLIGHT_REQUIREMENTS, SunlightCondition> = {
+    [SUNLIGHT_REQUIREMENTS.FULL_SHADE]: SUNLIGHT_CONDITIONS.FULL_SHADE,
+    [SUNLIGHT_REQUIREMENTS.PARTIAL_SHADE]: SUNLIGHT_CONDITIONS.PARTIAL_SHADE,
+    [SUNLIGHT_REQUIREMENTS.FULL_SUN]: SUNLIGHT_CONDITIONS.FULL_SUN
+};
+
+@Injectable()
+export class SeasonPlannerService {
+    private readonly logger = new Logger(SeasonPlannerService.name);
+
+    constructor(
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly climateService: ClimateService,
+        private readonly cropRotation: CropRotationService
+    ) {}
+
+    /**
+     * Plans every requested crop across the season, longest-occupying crops first
+     * Each sowing takes the earliest frost-safe day on or after its requested date at which
+     * a suitable zone has enough free area for the crop's whole stay. Zones breaking the crop
+     * rotation are only used when no other zone has room, and are reported as warnings
+     * @param garden Garden whose zones are planted
+     * @param request Season dates and crops to schedule
+     * @returns ISeasonTimeline Scheduled and unscheduled sowings
+     * @throws Error if the request is invalid
+     */
+    planSeason(garden: IGarden, request: ISeasonPlanRequest): ISeasonTimeline {
+        const startDate = moment(request.startDate).startOf('day');
+        const endDate = request.endDate
+            ? moment(request.endDate).startOf('day')
+            : startDate.clone().add(SEASON_PLANNING_LIMITS.DEFAULT_SEASON_DAYS, 'days');
+        const seasonDays = endDate.diff(startDate, 'days');
+
+        this.validateRequest(garden, request, startDate, seasonDays);
+
+        const climate = this.climateService.resolveClimate(garden);
+        const season = startDate.year();
+        const rotationSeasons = garden.rotationSeasons ?? CROP_ROTATION_DEFAULTS.ROTATION_SEASONS;
+        const bookings = new Map<string, ZoneBooking[]>(garden.zones.map(zone => [zone.id, []]));
+        const plantings: ISeasonPlanting[] = [];
+        const unscheduled: IUnscheduledSowing[] = [];
+        const rotationWarnings: IRotationWarning[] = [];
+
+        const sowings = request.crops
+            .flatMap(crop => this.expandSowings(crop, startDate))
+            .sort((a, b) => b.occupiedDays - a.occupiedDays || a.earliestDay - b.earliestDay);
+
+        for (const sowing of sowings) {
+            const zones = this.getSuitableZones(garden, sowing);
+            if (zones.length === 0) {
+                unscheduled.push(this.toUnscheduled(sowing, sowing.crop.zoneId
+                    ? `Zone ${sowing.crop.zoneId} does not get enough sunlight`
+                    : `No zone gets enough sunlight for ${sowing.entry.sunlightRequirement}`));
+                continue;
+            }
+            if (!zones.some(zone => zone.area >= sowing.areaSqFt)) {
+                unscheduled.push(this.toUnscheduled(
+                    sowing,
+                    `Needs ${sowing.areaSqFt} sq ft but no suitable zone is large enough`
+                ));
+                continue;
+            }
+
+            // Gardens without a known climate may be sown on any day
+            const isSafeDay = (day: number) => !climate || this.climateService.checkPlantingDate(
+                climate,
+                sowing.entry.type,
+                startDate.clone().add(day, 'days').toDate()
+            ).status === PLANTING_DATE_STATUS.OK;
+            if (this.isOutsideSafeWindow(sowing, seasonDays, isSafeDay)) {
+                unscheduled.push(this.toUnscheduled(
+                    sowing,
+                    `No frost-safe sowing date for ${sowing.entry.name} before the end of the season`
+                ));
+                continue;
+            }
+
+            const rotatedZones = zones.filter(zone =>
+                !this.cropRotation.findRotationConflict(zone, sowing.entry.type, season, rotationSeasons)
+            );
+            const slot = (rotatedZones.length > 0
+                ? this.findSlot(rotatedZones, bookings, sowing, seasonDays, isSafeDay)
+                : null) ?? this.findSlot(zones, bookings, sowing, seasonDays, isSafeDay);
+            if (!slot) {
+                unscheduled.push(this.toUnscheduled(sowing, 'No free zone space before the end of the season'));
+                continue;
+            }
+
+            const conflict = this.cropRotation.findRotationConflict(
+                slot.zone,
+                sowing.entry.type,
+                season,
+                rotationSeasons
+            );
+            if (conflict && !rotationWarnings.some(warning =>
+                warning.zoneId === conflict.zoneId && warning.plantType === conflict.plantType)) {
+                rotationWarnings.push(conflict);
+            }
+
+            const zoneBookings = bookings.get(slot.zone.id) ?? [];
+            zoneBookings.push({
+                startDay: slot.day,
+                endDay: slot.day + sowing.occupiedDays,
+                areaSqFt: sowing.areaSqFt
+            });
+            bookings.set(slot.zone.id, zoneBookings);
+            const sowDate = startDate.clone().add(slot.day, 'days');
+            plantings.push({
+                plantType: sowing.entry.type,
+                zoneId: slot.zone.id,
+                quantity: sowing.crop.quantity,
+                areaSqFt: sowing.areaSqFt,
+                succession: sowing.succession,
+                sowDate: sowDate.toDate(),
+                sowIndoorsDate: sowing.entry.indoorSowingWeeks
+                    ? sowDate.clone().subtract(sowing.entry.indoorSowingWeeks, 'weeks').toDate()
+                    : undefined,
+                maturityDate: startDate.clone().add(slot.day + sowing.entry.daysToMaturity, 'days').toDate(),
+                harvestEndDate: startDate.clone().add(slot.day + sowing.occupiedDays, 'days').toDate()
+            });
+        }
+
+        this.logger.debug(
+            `Planned ${plantings.length} sowings for garden ${garden.id}; ${unscheduled.length} did not fit`
+        );
+
+        return {
+            gardenId: garden.id,
+            startDate: startDate.toDate(),
+            endDate: endDate.toDate(),
+            plantings: plantings.sort((a, b) =>
+                a.sowDate.getTime() - b.sowDate.getTime() || a.zoneId.localeCompare(b.zoneId)
+            ),
+            unscheduled,
+            rotationWarnings: rotationWarnings.length > 0 ? rotationWarnings : undefined
+        };
+    }
+
+    /**
+     * Validates season dates and crop requests
+     * @private
+     */
+    private validateRequest(
+        garden: IGarden,
+        request: ISeasonPlanRequest,
+        startDate: moment.Moment,
+        seasonDays: number
+    ): void {
+        if (!startDate.isValid() || Number.isNaN(seasonDays)) {
+            throw new BadRequestError('Season start and end dates must be valid dates');
+        }
+        if (seasonDays <= 0 || seasonDays > SEASON_PLANNING_LIMITS.MAX_SEASON_DAYS) {
+            throw new BadRequestError(
+                `Season must end after it starts and last at most ${SEASON_PLANNING_LIMITS.MAX_SEASON_DAYS} days`
+            );
+        }
+        if (!Array.isArray(request.crops) || request.crops.length === 0) {
+            throw new BadRequestError('Season plan must request at least one crop');
+        }
+
+        request.crops.forEach((crop, index) => {
+            this.plantCatalog.requireEntry(crop.plantType);
+
+            if (!Number.isInteger(crop.quantity) || crop.quantity <= 0) {
+                throw new BadRequestError(`Crop ${index + 1} quantity must be a positive whole number`);
+            }
+            if (crop.successions !== undefined && (!Number.isInteger(crop.successions) ||
+                crop.successions < 1 || crop.successions > SEASON_PLANNING_LIMITS.MAX_SUCCESSIONS)) {
+                throw new BadRequestError(
+                    `Crop ${index + 1} successions must be between 1 and ${SEASON_PLANNING_LIMITS.MAX_SUCCESSIONS}`
+                );
+            }
+            if (crop.zoneId && !garden.zones.some(zone => zone.id === crop.zoneId)) {
+                throw new BadRequestError(`Crop ${index + 1} references unknown zone ${crop.zoneId}`);
+            }
+            if (crop.earliestSowDate && !moment(crop.earliestSowDate).isValid()) {
+                throw new BadRequestError(`Crop ${index + 1} earliest sow date must be a valid date`);
+            }
+        });
+    }
+
+    /**
+     * Expands a crop request into its succession sowings
+     * Crops without a catalog succession interval are resown once the previous sowing is cleared
+     * @private
+     */
+    private expandSowings(crop: ISeasonCropRequest, startDate: moment.Moment): PendingSowing[] {
+        const entry = this.plantCatalog.requireEntry(crop.plantType);
+        const occupiedDays = entry.daysToMaturity + entry.harvestWindowDays;
+        const interval = entry.successionIntervalDays ?? occupiedDays;
+        const firstDay = crop.earliestSowDate
+            ? Math.max(moment(crop.earliestSowDate).startOf('day').diff(startDate, 'days'), 0)
+            : 0;
+        const areaSqFt = Number((crop.quantity * Math.pow(entry.defaultSpacing / 12, 2)).toFixed(2));
+
+        return Array.from({ length: crop.successions ?? 1 }, (_, index) => ({
+            crop,
+            entry,
+            succession: index + 1,
+            earliestDay: firstDay + index * interval,
+            occupiedDays,
+            areaSqFt
+        }));
+    }
+
+    /**
+     * Lists zones a sowing may use: the requested zone, or every zone with enough sunlight
+     * @private
+     */
+    private getSuitableZones(garden: IGarden, sowing: PendingSowing): IGardenZone[] {
+        const required = REQUIRED_SUNLIGHT[sowing.entry.sunlightRequirement] ?? SUNLIGHT_CONDITIONS.FULL_SHADE;
+
+        return garden.zones.filter(zone =>
+            (!sowing.crop.zoneId || zone.id === sowing.crop.zoneId) &&
+            SUNLIGHT_RANK[zone.sunlightCondition] >= SUNLIGHT_RANK[required]
+        );
+    }
+
+    /**
+     * Checks whether the sowing could start within the season but only on days outside
+     * its frost-safe window
+     * @private
+     */
+    private isOutsideSafeWindow(
+        sowing: PendingSowing,
+        seasonDays: number,
+        isSafeDay: (day: number) => boolean
+    ): boolean {
+        let hasCandidateDay = false;
+        for (let day = sowing.earliestDay; day + sowing.occupiedDays <= seasonDays; day++) {
+            if (isSafeDay(day)) {
+                return false;
+            }
+            hasCandidateDay = true;
+        }
+
+        return hasCandidateDay;
+    }
+
+    /**
+     * Finds the earliest frost-safe day and zone with room for the sowing's whole stay
+     * @private
+     */
+    private findSlot(
+        zones: IGardenZone[],
+        bookings: Map<string, ZoneBooking[]>,
+        sowing: PendingSowing,
+        seasonDays: number,
+        isSafeDay: (day: number) => boolean
+    ): { zone: IGardenZone; day: number } | null {
+        for (let day = sowing.earliestDay; day + sowing.occupiedDays <= seasonDays; day++) {
+            if (!isSafeDay(day)) {
+                continue;
+            }
+
+            const zone = zones.find(candidate =>
+                this.getPeakBookedArea(bookings.get(candidate.id) || [], day, day + sowing.occupiedDays) +
+                sowing.areaSqFt <= candidate.area
+            );
+            if (zone) {
+                return { zone, day };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Calculates the largest area booked at any one time within a period
+     * Booked area only grows when a booking starts, so start days are the only peaks
+     * @private
+     */
+    private getPeakBookedArea(bookings: ZoneBooking[], startDay: number, endDay: number): number {
+        const overlapping = bookings.filter(booking => booking.startDay < endDay && booking.endDay > startDay);
+        const peakDays = [startDay, ...overlapping.map(booking => booking.startDay).filter(day => day > startDay)];
+
+        return Math.max(...peakDays.map(day => overlapping
+            .filter(booking => booking.startDay <= day && booking.endDay > day)
+            .reduce((sum, booking) => sum + booking.areaSqFt, 0)
+        ));
+    }
+
+    /**
+     * Builds the unscheduled record for a sowing
+     * @private
+     */
+    private toUnscheduled(sowing: PendingSowing, reason: string): IUnscheduledSowing {
+        return {
+            plantType: sowing.entry.type,
+            succession: sowing.succession,
+            reason
+        };
+    }
+}
@@ -7,16 +7,53 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { IGarden, IGardenLayout, IGardenOptimizationParams, IGardenZone } from '../../interfaces/garden.interface';
-import { calculatePlantSpacing, calculateZoneArea, calculatePlantDensity, calculateSpaceEfficiency } from '../../utils/garden-math.utils';
-import { GARDEN_AREA_LIMITS, OPTIMIZATION_CACHE_TTL, LAYOUT_GENERATION_TIMEOUT, SPACE_UTILIZATION_TARGET } from '../../constants/garden.constants';
-import { PLANT_TYPES, COMPANION_PLANTS } from '../../constants/plant.constants';
+import {
+    IGarden,
+    IGardenLayout,
+    IGardenObstacle,
+    IGardenOptimizationParams,
+    IGardenZone,
+    IPoint,
+    IZonePosition
+} from '../../interfaces/garden.interface';
+import { IPlant, IPlantPosition } from '../../interfaces/plant.interface';
+import {
+    calculatePlantSpacing,
+    calculateZoneArea,
+    calculateSpaceEfficiency,
+    calculatePlantableArea,
+    calculateBoundingBox,
+    isRectangleInUsableArea
+} from '../../utils/garden-math.utils';
+import {
+    GARDEN_AREA_LIMITS,
+    OPTIMIZATION_CACHE_TTL,
+    LAYOUT_GENERATION_TIMEOUT,
+    SPACE_UTILIZATION_TARGET,
+    PLANT_PLACEMENT_GRID_STEP,
+    ZONE_PLACEMENT_GRID_STEP
+} from '../../constants/garden.constants';
+import { COMPANION_RELATIONSHIP_TYPES, COMPANION_PLANTING_DEFAULTS } from '../../constants/plant.constants';
+import { checkZoneOverlap } from '../../validators/garden.validator';
+import { PlantCatalogService } from '../plant-catalog.service';
+
+/**
+ * Zone whose rectangle has been resolved by the layout engine
+ */
+type PositionedZone = IGardenZone & { position: Required<IZonePosition> };
+
+/**
+ * Plant whose spacing circle has been placed inside its zone
+ */
+type PositionedPlant = IPlant & { position: IPlantPosition };
 
 @Injectable()
 export class SpaceCalculatorService {
     private readonly logger = new Logger(SpaceCalculatorService.name);
     private readonly layoutCache = new Map<string, { layout: IGardenLayout; timestamp: number }>();
 
+    constructor(private readonly plantCatalog: PlantCatalogService) {}
+
     /**
      * Calculates optimal garden layout with enhanced space utilization
      * @param garden Garden configuration
@@ -45,25 +82,27 @@ export class SpaceCalculatorService {
 
             // Calculate zone distribution
             const zoneDistribution = this.calculateZoneDistribution(
-                garden.area,
+                garden,
                 params.minZoneSize,
                 garden.zones
             );
 
             // Optimize plant placement within zones
-            const optimizedZones = await this.optimizePlantPlacement(
+            const { zones: optimizedZones, unplacedPlantIds } = await this.optimizePlantPlacement(
                 zoneDistribution,
                 garden.zones,
                 params
             );
 
             // Calculate overall space utilization
-            const spaceUtilization = this.calculateOverallUtilization(optimizedZones, garden.area);
+            // Utilization is measured against the area that can actually be planted
+            const spaceUtilization = this.calculateOverallUtilization(optimizedZones, calculatePlantableArea(garden));
 
             const layout: IGardenLayout = {
                 gardenId: garden.id,
                 spaceUtilization,
                 zones: optimizedZones,
+                unplacedPlantIds,
                 generatedAt: new Date()
             };
 
@@ -94,24 +133,24 @@ export class SpaceCalculatorService {
 
     /**
      * Calculates optimal zone distribution with maintenance paths
-     * @param totalArea Total garden area
+     * @param garden Garden configuration including boundary and obstacles
      * @param minZoneSize Minimum zone size
      * @param currentZones Current zone configuration
-     * @returns Array of optimized zones
+     * @returns Array of optimized zones positioned within the garden
+     * @throws Error if stored zone rectangles overlap or fall outside usable space
      */
     private calculateZoneDistribution(
-        totalArea: number,
+        garden: IGarden,
         minZoneSize: number,
         currentZones: IGardenZone[]
-    ): IGardenZone[] {
-        const maintenancePathArea = totalArea * 0.1; // 10% for paths
-        const usableArea = totalArea - maintenancePathArea;
-        
+    ): PositionedZone[] {
+        const positionedZones = this.calculateZoneRectangles(garden, currentZones);
+
         // Calculate optimal zone sizes
-        return currentZones.map(zone => {
+        return positionedZones.map(zone => {
             const zoneArea = calculateZoneArea(
-                Math.sqrt(zone.area),
-                Math.sqrt(zone.area),
+                zone.position.width,
+                zone.position.height,
                 'rectangular'
             );
 
@@ -122,40 +161,165 @@ export class SpaceCalculatorService {
         });
     }
 
+    /**
+     * Assigns a rectangle to every zone. Stored rectangles are kept and checked for
+     * overlaps and usable space; remaining zones are placed at the first free position,
+     * scanning the plot top to bottom and preferring full-width beds
+     * @param garden Garden configuration including boundary and obstacles
+     * @param zones Current zone configuration
+     * @returns Zones with complete positions
+     * @throws Error if stored zone rectangles are invalid or a zone does not fit
+     */
+    private calculateZoneRectangles(garden: IGarden, zones: IGardenZone[]): PositionedZone[] {
+        const boundary = garden.boundary?.length ? garden.boundary : undefined;
+        const obstacles = garden.obstacles || [];
+
+        // Without a boundary, lay zones out across a square plot of the recorded area
+        const plot = boundary
+            ? calculateBoundingBox(boundary)
+            : { x: 0, y: 0, width: Math.sqrt(garden.area), height: Math.sqrt(garden.area) };
+
+        const result: Array<PositionedZone | undefined> = zones.map(zone => zone.position ? {
+            ...zone,
+            position: {
+                x: zone.position.x,
+                y: zone.position.y,
+                width: zone.position.width ?? Math.sqrt(zone.area),
+                height: zone.position.height ?? Math.sqrt(zone.area)
+            }
+        } : undefined);
+
+        const placed = result.filter((zone): zone is PositionedZone => zone !== undefined);
+        for (let i = 0; i < placed.length; i++) {
+            if (!isRectangleInUsableArea(placed[i].position, boundary, obstacles)) {
+                throw new Error(`Zone ${placed[i].id} is outside the usable garden area`);
+            }
+            for (let j = i + 1; j < placed.length; j++) {
+                if (checkZoneOverlap(placed[i], placed[j])) {
+                    throw new Error(`Zone ${placed[i].id} overlaps with zone ${placed[j].id}`);
+                }
+            }
+        }
+
+        zones.forEach((zone, index) => {
+            if (result[index]) {
+                return;
+            }
+
+            const position = this.findZonePosition(zone, plot, placed, boundary, obstacles);
+            if (!position) {
+                throw new Error(`Zone ${zone.id} does not fit in the usable garden area`);
+            }
+
+            const positionedZone = { ...zone, position };
+            result[index] = positionedZone;
+            placed.push(positionedZone);
+        });
+
+        const plotBottom = Math.max(...placed.map(zone => zone.position.y + zone.position.height));
+        if (plotBottom > plot.y + plot.height + 0.01) {
+            this.logger.warn(`Zone layout extends ${(plotBottom - plot.y - plot.height).toFixed(2)} ft beyond a square plot`);
+        }
+
+        return placed.length === zones.length ? result as PositionedZone[] : [];
+    }
+
+    /**
+     * Finds the first free rectangle for a zone, trying full-width, square and narrower shapes
+     * Gardens without a boundary may grow downwards past the square plot
+     * @private
+     */
+    private findZonePosition(
+        zone: IGardenZone,
+        plot: Required<IZonePosition>,
+        placed: PositionedZone[],
+        boundary: IPoint[] | undefined,
+        obstacles: IGardenObstacle[]
+    ): Required<IZonePosition> | null {
+        const widths = [plot.width, Math.sqrt(zone.area), plot.width / 2, plot.width / 3]
+            .map(width => Math.min(width, plot.width, zone.area))
+            .filter((width, index, all) => width > 0 && all.indexOf(width) === index);
+
+        // Candidate edges: the plot grid plus edges of placed zones, obstacles and the boundary
+        const edgePoints = [
+            ...placed.map(other => ({
+                x: other.position.x + other.position.width,
+                y: other.position.y + other.position.height
+            })),
+            ...obstacles.flatMap(obstacle => obstacle.boundary),
+            ...(boundary || [])
+        ];
+        const xs = this.buildCandidateAxis(plot.x, plot.width, edgePoints.map(point => point.x), false);
+        const ys = this.buildCandidateAxis(plot.y, plot.height, edgePoints.map(point => point.y), !boundary);
+
+        for (const width of widths) {
+            const height = zone.area / width;
+            if (boundary && height > plot.height) {
+                continue;
+            }
+
+            for (const y of ys) {
+                for (const x of xs) {
+                    const rect = { x, y, width, height };
+                    if (x + width > plot.x + plot.width + 1e-9) {
+                        break;
+                    }
+
+                    const candidate = { ...zone, position: rect };
+                    if (!placed.some(other => checkZoneOverlap(candidate, other)) &&
+                        isRectangleInUsableArea(rect, boundary, obstacles)) {
+                        return rect;
+                    }
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Builds sorted, de-duplicated candidate offsets along one axis of the plot
+     * @private
+     */
+    private buildCandidateAxis(
+        start: number,
+        length: number,
+        edges: number[],
+        unbounded: boolean
+    ): number[] {
+        const steps = Math.floor(length / ZONE_PLACEMENT_GRID_STEP);
+        const grid = Array.from({ length: steps + 1 }, (_, index) => start + index * ZONE_PLACEMENT_GRID_STEP);
+
+        return [...grid, ...edges]
+            .filter(value => value >= start - 1e-9 && (unbounded || value <= start + length + 1e-9))
+            .sort((a, b) => a - b)
+            .filter((value, index, sorted) => index === 0 || value - sorted[index - 1] > 1e-6);
+    }
+
     /**
      * Optimizes plant placement within zones considering companion planting
      * @param zones Garden zones
      * @param currentZones Current zone configuration
      * @param params Optimization parameters
-     * @returns Promise<IGardenZone[]>
+     * @returns Promise with positioned zones and the plants that did not fit
      */
     private async optimizePlantPlacement(
-        zones: IGardenZone[],
+        zones: PositionedZone[],
         currentZones: IGardenZone[],
         params: IGardenOptimizationParams
-    ): Promise<IGardenZone[]> {
-        return zones.map(zone => {
-            const currentZone = currentZones.find(cz => cz.id === zone.id);
+    ): Promise<{ zones: IGardenZone[]; unplacedPlantIds: string[] }> {
+        const unplacedPlantIds: string[] = [];
+
+        const optimizedZones = zones.map((zone, index) => {
+            const currentZone = currentZones[index];
             if (!currentZone) return zone;
 
-            const optimizedPlants = currentZone.plants.map(plant => {
+            const spacedPlants = currentZone.plants.map(plant => {
+                const catalogEntry = this.plantCatalog.getEntry(plant.type);
                 const spacing = calculatePlantSpacing(
                     params.defaultSpacing / 12, // Convert to feet
                     1.0, // Default growth factor
-                    plant.type as PLANT_TYPES
-                );
-
-                // Consider companion planting
-                const companions = COMPANION_PLANTS[plant.type as PLANT_TYPES] || [];
-                const companionFactors = companions.reduce((acc, companion) => ({
-                    ...acc,
-                    [companion]: 1.1 // 10% efficiency boost for companion plants
-                }), {});
-
-                const density = calculatePlantDensity(
-                    zone.area,
-                    spacing,
-                    companionFactors
+                    catalogEntry?.defaultSpacing
                 );
 
                 return {
@@ -164,11 +328,111 @@ export class SpaceCalculatorService {
                 };
             });
 
+            const { placed, unplaced } = this.placePlantsInZone(zone.position, spacedPlants, params);
+            unplacedPlantIds.push(...unplaced.map(plant => plant.id));
+
+            if (unplaced.length > 0) {
+                this.logger.warn(`${unplaced.length} plants do not fit in zone ${zone.id}`);
+            }
+
             return {
                 ...zone,
-                plants: optimizedPlants
+                plants: placed
             };
         });
+
+        return { zones: optimizedZones, unplacedPlantIds };
+    }
+
+    /**
+     * Places plants inside a zone rectangle so that no two spacing circles overlap
+     * Larger plants are placed first at the first free point of a candidate grid;
+     * antagonistic pairs are kept at least the antagonist distance apart
+     * @param bounds Zone rectangle in feet
+     * @param plants Plants with spacing in feet
+     * @param params Optimization parameters
+     * @returns Plants with positions relative to the zone origin and plants that did not fit
+     */
+    private placePlantsInZone(
+        bounds: Required<IZonePosition>,
+        plants: IPlant[],
+        params: IGardenOptimizationParams
+    ): { placed: PositionedPlant[]; unplaced: IPlant[] } {
+        const placed: PositionedPlant[] = [];
+        const unplaced: IPlant[] = [];
+        const antagonistDistance = (params.antagonistDistance ?? COMPANION_PLANTING_DEFAULTS.ANTAGONIST_DISTANCE_INCHES) / 12;
+
+        const sortedPlants = [...plants].sort((a, b) => b.spacing - a.spacing);
+
+        for (const plant of sortedPlants) {
+            const radius = plant.spacing / 2;
+            const position = this.findFreePosition(bounds, radius, candidate =>
+                placed.every(other => {
+                    const distance = Math.hypot(candidate.x - other.position.x, candidate.y - other.position.y);
+                    return distance >= this.getMinimumDistance(plant, other, antagonistDistance, params);
+                })
+            );
+
+            if (position) {
+                placed.push({ ...plant, position: { ...position, radius } });
+            } else {
+                unplaced.push(plant);
+            }
+        }
+
+        // Keep plants in their original order for stable output
+        return {
+            placed: plants
+                .map(plant => placed.find(candidate => candidate.id === plant.id))
+                .filter((plant): plant is PositionedPlant => plant !== undefined),
+            unplaced
+        };
+    }
+
+    /**
+     * Scans the zone row by row for the first centre where a spacing circle fits
+     * @private
+     */
+    private findFreePosition(
+        bounds: Required<IZonePosition>,
+        radius: number,
+        isFree: (candidate: { x: number; y: number }) => boolean
+    ): { x: number; y: number } | null {
+        if (radius * 2 > bounds.width || radius * 2 > bounds.height) {
+            return null;
+        }
+
+        for (let y = radius; y <= bounds.height - radius + 1e-9; y += PLANT_PLACEMENT_GRID_STEP) {
+            for (let x = radius; x <= bounds.width - radius + 1e-9; x += PLANT_PLACEMENT_GRID_STEP) {
+                const candidate = { x: Number(x.toFixed(2)), y: Number(y.toFixed(2)) };
+                if (isFree(candidate)) {
+                    return candidate;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Minimum centre distance between two plants in feet
+     * @private
+     */
+    private getMinimumDistance(
+        plant: IPlant,
+        other: PositionedPlant,
+        antagonistDistance: number,
+        params: IGardenOptimizationParams
+    ): number {
+        const circleDistance = plant.spacing / 2 + other.position.radius;
+        if (!params.companionPlantingEnabled) {
+            return circleDistance;
+        }
+
+        const relationship = this.plantCatalog.getRelationship(plant.type, other.type);
+        return relationship?.relationshipType === COMPANION_RELATIONSHIP_TYPES.HARMFUL
+            ? Math.max(circleDistance, antagonistDistance)
+            : circleDistance;
     }
 
     /**
@@ -1,8 +1,38 @@
 import { Injectable } from '@nestjs/common';
 import { Logger } from '@nestjs/common';
-import { IGarden, IGardenZone } from '../../interfaces/garden.interface';
+import {
+    IGarden,
+    IGardenObstacle,
+    IGardenZone,
+    IPoint,
+    IZonePosition,
+    IZoneSunExposure
+} from '../../interfaces/garden.interface';
 import { IPlant } from '../../interfaces/plant.interface';
-import { SUNLIGHT_CONDITIONS, SUNLIGHT_HOURS } from '../../constants/garden.constants';
+import {
+    SUNLIGHT_CONDITIONS,
+    SUNLIGHT_HOURS,
+    SUN_PATH_SETTINGS,
+    MONTHLY_REPRESENTATIVE_DAYS,
+    GROWING_SEASON_MONTHS,
+    SunlightCondition
+} from '../../constants/garden.constants';
+import { calculatePlantableArea, calculateRayDistanceToPolygon } from '../../utils/garden-math.utils';
+import { hasIrregularLayout } from '../../validators/garden.validator';
+import { PlantCatalogService } from '../plant-catalog.service';
+
+/**
+ * Position of the sun above the horizon, in radians
+ */
+interface SunPosition {
+    /** Angle above the horizon */
+    altitude: number;
+
+    /** Compass bearing measured clockwise from north */
+    azimuth: number;
+}
+
+const DEGREES_TO_RADIANS = Math.PI / 180;
 
 /**
  * Service responsible for analyzing and validating sunlight conditions in garden zones
@@ -13,7 +43,7 @@ import { SUNLIGHT_CONDITIONS, SUNLIGHT_HOURS } from '../../constants/garden.cons
 export class SunlightAnalyzerService {
     private readonly logger = new Logger(SunlightAnalyzerService.name);
 
-    constructor() {
+    constructor(private readonly plantCatalog: PlantCatalogService) {
         this.logger.log('Initializing SunlightAnalyzerService');
     }
 
@@ -51,11 +81,26 @@ export class SunlightAnalyzerService {
             totalArea += zone.area;
         }
 
-        // Check if total zone area matches garden area
-        if (Math.abs(totalArea - garden.area) > 0.1) { // Allow 0.1 sq ft tolerance
+        // Check if total zone area matches garden area; irregular gardens only need zones to fit
+        if (hasIrregularLayout(garden)) {
+            if (totalArea - calculatePlantableArea(garden) > 0.1) {
+                recommendations.push('Total zone area exceeds plantable garden area');
+            }
+        } else if (Math.abs(totalArea - garden.area) > 0.1) { // Allow 0.1 sq ft tolerance
             recommendations.push('Total zone area does not match garden area');
         }
 
+        // Compare declared conditions with the sun-path estimate for zones already laid out
+        for (const exposure of this.estimateSunExposure(garden, garden.zones)) {
+            const zone = garden.zones.find(candidate => candidate.id === exposure.zoneId);
+            if (zone && zone.sunlightCondition !== exposure.sunlightCondition) {
+                recommendations.push(
+                    `Zone ${zone.id} is marked ${zone.sunlightCondition} but receives an estimated ` +
+                    `${exposure.growingSeasonSunHours} hours of direct sun (${exposure.sunlightCondition})`
+                );
+            }
+        }
+
         // Ensure balanced sunlight distribution
         const hasFullSun = garden.zones.some(
             zone => zone.sunlightCondition === SUNLIGHT_CONDITIONS.FULL_SUN
@@ -72,6 +117,46 @@ export class SunlightAnalyzerService {
         };
     }
 
+    /**
+     * Estimates direct sun hours per month for each positioned zone from the sun's path,
+     * the garden's latitude and orientation, and the shade cast by obstacles with a height
+     * @param garden Garden providing latitude, orientation and obstacles
+     * @param zones Zones to estimate; zones without a position are skipped
+     * @returns Sun exposure per zone, or an empty list when the garden latitude is unknown
+     */
+    estimateSunExposure(garden: IGarden, zones: IGardenZone[]): IZoneSunExposure[] {
+        if (typeof garden.latitude !== 'number') {
+            return [];
+        }
+
+        const latitude = garden.latitude;
+        const shadingObstacles = (garden.obstacles || []).filter(obstacle => (obstacle.height ?? 0) > 0);
+        const monthlySunPositions = MONTHLY_REPRESENTATIVE_DAYS.map(day => this.getSunPositions(latitude, day));
+        const seasonMonths: readonly number[] = latitude >= 0
+            ? GROWING_SEASON_MONTHS.NORTHERN
+            : GROWING_SEASON_MONTHS.SOUTHERN;
+
+        return zones
+            .filter((zone): zone is IGardenZone & { position: IZonePosition } => Boolean(zone.position))
+            .map(zone => {
+                const samplePoints = this.getZoneSamplePoints(zone.position, zone.area);
+                const monthlySunHours = monthlySunPositions.map(positions =>
+                    this.calculateDailySunHours(samplePoints, positions, garden.orientation ?? 0, shadingObstacles)
+                );
+                const growingSeasonSunHours = this.roundHours(
+                    seasonMonths.reduce((sum, month) => sum + monthlySunHours[month], 0) / seasonMonths.length
+                );
+
+                return {
+                    zoneId: zone.id,
+                    monthlySunHours,
+                    growingSeasonSunHours,
+                    sunlightCondition: this.classifySunHours(growingSeasonSunHours),
+                    ...this.comparePlantSunlight(zone.plants, growingSeasonSunHours)
+                };
+            });
+    }
+
     /**
      * Validates sunlight conditions for a specific garden zone
      * @param zone Garden zone to validate
@@ -169,4 +254,147 @@ export class SunlightAnalyzerService {
                 return 0;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Derives a zone sunlight condition from estimated hours of direct sun
+     * @param hours Average daily hours of direct sun
+     * @returns Matching sunlight condition
+     */
+    private classifySunHours(hours: number): SunlightCondition {
+        if (hours >= SUNLIGHT_HOURS.FULL_SUN) {
+            return SUNLIGHT_CONDITIONS.FULL_SUN;
+        }
+        if (hours >= SUNLIGHT_HOURS.PARTIAL_SHADE) {
+            return SUNLIGHT_CONDITIONS.PARTIAL_SHADE;
+        }
+        return SUNLIGHT_CONDITIONS.FULL_SHADE;
+    }
+
+    /**
+     * Compares estimated sun hours with the catalog minimum and optimal hours of each plant
+     * Plants whose type is missing from the catalog are not reported
+     * @private
+     */
+    private comparePlantSunlight(
+        plants: IPlant[],
+        hours: number
+    ): Pick<IZoneSunExposure, 'underexposedPlantIds' | 'belowOptimalPlantIds'> {
+        const underexposedPlantIds: string[] = [];
+        const belowOptimalPlantIds: string[] = [];
+
+        for (const plant of plants || []) {
+            const entry = this.plantCatalog.getEntry(plant.type);
+            if (!entry) {
+                continue;
+            }
+
+            if (hours < entry.minSunlightHours) {
+                underexposedPlantIds.push(plant.id);
+            } else if (hours < entry.optimalSunlightHours) {
+                belowOptimalPlantIds.push(plant.id);
+            }
+        }
+
+        return { underexposedPlantIds, belowOptimalPlantIds };
+    }
+
+    /**
+     * Calculates the sun's position through a day at the given latitude
+     * Samples are taken at the middle of each interval in local solar time
+     * @private
+     */
+    private getSunPositions(latitude: number, dayOfYear: number): SunPosition[] {
+        const phi = latitude * DEGREES_TO_RADIANS;
+        const declination = SUN_PATH_SETTINGS.AXIAL_TILT_DEGREES * DEGREES_TO_RADIANS *
+            Math.sin(2 * Math.PI * (284 + dayOfYear) / 365);
+        const minAltitude = SUN_PATH_SETTINGS.MIN_SUN_ALTITUDE_DEGREES * DEGREES_TO_RADIANS;
+        const positions: SunPosition[] = [];
+
+        for (let minute = SUN_PATH_SETTINGS.SAMPLE_INTERVAL_MINUTES / 2; minute < 24 * 60; minute += SUN_PATH_SETTINGS.SAMPLE_INTERVAL_MINUTES) {
+            const hourAngle = (minute / 60 - 12) * 15 * DEGREES_TO_RADIANS;
+            const altitude = Math.asin(
+                Math.sin(phi) * Math.sin(declination) +
+                Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+            );
+            if (altitude < minAltitude) {
+                continue;
+            }
+
+            const azimuth = Math.atan2(
+                -Math.cos(declination) * Math.sin(hourAngle),
+                Math.sin(declination) * Math.cos(phi) - Math.cos(declination) * Math.sin(phi) * Math.cos(hourAngle)
+            );
+            positions.push({ altitude, azimuth: (azimuth + 2 * Math.PI) % (2 * Math.PI) });
+        }
+
+        return positions;
+    }
+
+    /**
+     * Averages the hours of unshaded sun received by a zone's sample points over one day
+     * @private
+     */
+    private calculateDailySunHours(
+        samplePoints: IPoint[],
+        sunPositions: SunPosition[],
+        orientation: number,
+        obstacles: IGardenObstacle[]
+    ): number {
+        const hoursPerSample = SUN_PATH_SETTINGS.SAMPLE_INTERVAL_MINUTES / 60;
+        let sunlitSamples = 0;
+
+        for (const sun of sunPositions) {
+            // Garden y grows away from the top edge, which faces the orientation bearing
+            const bearing = sun.azimuth - orientation * DEGREES_TO_RADIANS;
+            const direction = { x: Math.sin(bearing), y: -Math.cos(bearing) };
+
+            sunlitSamples += samplePoints.filter(point =>
+                !this.isShaded(point, direction, Math.tan(sun.altitude), obstacles)
+            ).length;
+        }
+
+        return this.roundHours(sunlitSamples * hoursPerSample / samplePoints.length);
+    }
+
+    /**
+     * Checks whether any obstacle rises above the line from a point towards the sun
+     * @private
+     */
+    private isShaded(
+        point: IPoint,
+        direction: IPoint,
+        altitudeSlope: number,
+        obstacles: IGardenObstacle[]
+    ): boolean {
+        return obstacles.some(obstacle => {
+            const distance = calculateRayDistanceToPolygon(point, direction, obstacle.boundary);
+            return distance !== undefined && (obstacle.height ?? 0) > distance * altitudeSlope;
+        });
+    }
+
+    /**
+     * Returns the zone centre and the centres of its four quarters
+     * @private
+     */
+    private getZoneSamplePoints(position: IZonePosition, area: number): IPoint[] {
+        const { x, y } = position;
+        const width = position.width ?? Math.sqrt(area);
+        const height = position.height ?? Math.sqrt(area);
+
+        return [
+            { x: x + width / 2, y: y + height / 2 },
+            { x: x + width / 4, y: y + height / 4 },
+            { x: x + (3 * width) / 4, y: y + height / 4 },
+            { x: x + width / 4, y: y + (3 * height) / 4 },
+            { x: x + (3 * width) / 4, y: y + (3 * height) / 4 }
+        ];
+    }
+
+    /**
+     * Rounds hours to one decimal place
+     * @private
+     */
+    private roundHours(hours: number): number {
+        return Number(hours.toFixed(1));
+    }
+}
@@ -0,0 +1,546 @@
+/**
+ * Pest Pressure Service
+ * @packageVersion 5.0
+ *
+ * Works out how much pressure pests and diseases put on each garden from its recent and
+ * forecast weather. Days are described by the garden's air temperature and humidity
+ * sensors where they measured enough of the day, and otherwise by the forecast, which is
+ * kept as the garden's weather history. Counting the days that favour each pest or disease
+ * over a week gives a risk calendar for the plants it attacks; a moderate risk raises an
+ * inspection task and a high risk a treatment task, in place of weekly pest control.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { RainfallRepository } from '../repositories/rainfall.repository';
+import { PestPressureRepository } from '../repositories/pest-pressure.repository';
+import { PlantCatalogService } from './plant-catalog.service';
+import { WeatherService } from './weather/weather.service';
+import { SensorService } from './sensor.service';
+import { IGarden } from '../interfaces/garden.interface';
+import { IPlant } from '../interfaces/plant.interface';
+import { ISchedule, TaskFrequency, TaskPriority, TaskType } from '../interfaces/schedule.interface';
+import { IRainfallObservation, IWeatherForecast } from '../interfaces/weather.interface';
+import { ISensorHistory } from '../interfaces/sensor.interface';
+import {
+    IPestPressureDay,
+    IPestPressureReport,
+    IPestRisk,
+    IPestThreat,
+    IPestThreatConditions,
+    IWeatherDay
+} from '../interfaces/pest-pressure.interface';
+import {
+    PEST_PRESSURE_DEFAULTS,
+    PEST_RISK_LEVELS,
+    PEST_THREAT_CATALOG,
+    PestRiskLevel,
+    WEATHER_DAY_SOURCES
+} from '../constants/pest-pressure.constants';
+import { SENSOR_METRICS, SensorMetric } from '../constants/sensor.constants';
+import { NotFoundError } from '../utils/error.utils';
+
+/**
+ * Risk levels from lowest to highest
+ */
+const RISK_ORDER: PestRiskLevel[] = [
+    PEST_RISK_LEVELS.LOW,
+    PEST_RISK_LEVELS.MODERATE,
+    PEST_RISK_LEVELS.HIGH
+];
+
+/**
+ * Sensor measurements summarised over a day
+ */
+interface ISensorDay {
+    hours: number;
+    min: number;
+    max: number;
+    mean: number;
+}
+
+@Injectable()
+export class PestPressureService {
+    private readonly logger = new Logger(PestPressureService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly rainfallRepository: RainfallRepository,
+        private readonly pestPressureRepository: PestPressureRepository,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly weatherService: WeatherService,
+        private readonly sensorService: SensorService
+    ) {}
+
+    /**
+     * Assesses the pest pressure on every garden each morning
+     * A failing garden is logged and does not stop the others from being assessed
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_6AM)
+    async handleDailyAssessments(): Promise<void> {
+        const gardenIds = await this.gardenRepository.getGardenIds();
+
+        for (const gardenId of gardenIds) {
+            try {
+                await this.assessGarden(gardenId);
+            } catch (error) {
+                this.logger.error(`Failed to assess pest pressure for garden ${gardenId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Assesses the pest pressure on a garden and raises pest control tasks for elevated risks
+     * The weather up to today is kept as the garden's history. Each plant attacked by a
+     * threat at moderate risk gets an inspection task and at high risk a treatment task,
+     * unless a pending task or one done recently already covers it.
+     * @param gardenId Garden identifier
+     * @param now Current time
+     * @returns Promise<IPestPressureReport> Risk calendar with the tasks covering each risk
+     */
+    async assessGarden(gardenId: string, now: Date = new Date()): Promise<IPestPressureReport> {
+        const { report, hosts } = await this.buildReport(gardenId, now);
+
+        await this.pestPressureRepository.saveWeatherDays(
+            gardenId,
+            report.days
+                .filter(day => !day.forecast && day.weather)
+                .map(day => day.weather!)
+        );
+
+        const tasks = await this.findResponseTasks(gardenId, now);
+        for (const risk of report.risks) {
+            risk.scheduleIds = await this.raiseTasks(gardenId, risk, hosts.get(risk.threat)!, tasks, now);
+        }
+
+        const elevated = report.risks.filter(risk => risk.level !== PEST_RISK_LEVELS.LOW);
+        this.logger.log(`Assessed pest pressure for garden ${gardenId}: ${elevated.length} elevated risks`);
+        return report;
+    }
+
+    /**
+     * Works out the pest pressure calendar of a garden without raising tasks
+     * @param gardenId Garden identifier
+     * @param now Current time
+     * @returns Promise<IPestPressureReport> Risk calendar with the tasks pending for each risk
+     */
+    async getPressureCalendar(gardenId: string, now: Date = new Date()): Promise<IPestPressureReport> {
+        const { report } = await this.buildReport(gardenId, now);
+
+        const tasks = (await this.findResponseTasks(gardenId, now)).filter(task => !task.completed);
+        for (const risk of report.risks) {
+            risk.scheduleIds = tasks
+                .filter(task => risk.hostPlantIds.includes(task.plantId) && task.task_metadata?.pestThreat === risk.threat)
+                .map(task => task.id);
+        }
+
+        return report;
+    }
+
+    /**
+     * Lists the pests and diseases tracked, with the plants they attack and the weather
+     * that favours them
+     * @returns IPestThreat[] Tracked threats
+     */
+    getThreats(): IPestThreat[] {
+        return PEST_THREAT_CATALOG.map(threat => ({ ...threat }));
+    }
+
+    /**
+     * Checks whether a day's weather favours a threat
+     * @param conditions Weather ranges that favour the threat
+     * @param weather Weather of the day
+     * @returns boolean Whether the mean temperature, humidity and rainfall are all in range
+     */
+    isFavourable(conditions: IPestThreatConditions, weather: IWeatherDay): boolean {
+        const within = (value: number, min?: number, max?: number): boolean =>
+            (min === undefined || value >= min) && (max === undefined || value <= max);
+
+        return within((weather.minTemperature + weather.maxTemperature) / 2, conditions.minTemperature, conditions.maxTemperature)
+            && within(weather.humidity, conditions.minHumidity, conditions.maxHumidity)
+            && within(weather.rainfall, conditions.minRainfall, conditions.maxRainfall);
+    }
+
+    /**
+     * Rates the risk of a threat from the favourable days in a week
+     * @param threat Threat rated
+     * @param favourableDays Days in the week whose weather favoured it
+     * @returns PestRiskLevel Risk level
+     */
+    rateRisk(threat: IPestThreat, favourableDays: number): PestRiskLevel {
+        if (favourableDays >= threat.highDays) {
+            return PEST_RISK_LEVELS.HIGH;
+        }
+        return favourableDays >= threat.moderateDays ? PEST_RISK_LEVELS.MODERATE : PEST_RISK_LEVELS.LOW;
+    }
+
+    /**
+     * Builds the risk calendar of a garden
+     * @private
+     * @returns The report and the host plants of each threat to the garden
+     */
+    private async buildReport(
+        gardenId: string,
+        now: Date
+    ): Promise<{ report: IPestPressureReport; hosts: Map<string, IPlant[]> }> {
+        await this.requireGarden(gardenId);
+        const today = moment.utc(now).startOf('day');
+        // The week counted for the first day of the calendar starts before it
+        const historyDays = PEST_PRESSURE_DEFAULTS.HISTORY_DAYS + PEST_PRESSURE_DEFAULTS.WINDOW_DAYS - 1;
+        const from = today.clone().subtract(historyDays, 'days');
+
+        const [plants, forecast, stored, rainfall, temperatures, humidities] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(gardenId),
+            this.getForecast(gardenId),
+            this.pestPressureRepository.findWeatherDays(gardenId, from.toDate(), today.toDate()),
+            this.rainfallRepository.findByGarden(gardenId, from.toDate(), now),
+            this.getSensorDays(gardenId, SENSOR_METRICS.AIR_TEMPERATURE, historyDays + 1, now),
+            this.getSensorDays(gardenId, SENSOR_METRICS.HUMIDITY, historyDays + 1, now)
+        ]);
+        const observedRain = this.sumRainfallByDay(rainfall);
+
+        const weather: (IWeatherDay | undefined)[] = [];
+        for (let offset = -historyDays; offset <= PEST_PRESSURE_DEFAULTS.LOOKAHEAD_DAYS; offset++) {
+            const date = today.clone().add(offset, 'days').toDate();
+            const key = this.dayKey(date);
+            weather.push(this.describeDay(
+                date,
+                this.findForecastDay(forecast, date) ?? stored.find(day => this.dayKey(day.date) === key),
+                offset <= 0 ? temperatures.get(key) : undefined,
+                offset <= 0 ? humidities.get(key) : undefined,
+                observedRain.get(key)
+            ));
+        }
+
+        const hosts = new Map<string, IPlant[]>();
+        for (const threat of PEST_THREAT_CATALOG) {
+            const hostPlants = plants.filter(plant => this.attacks(threat, plant));
+            if (hostPlants.length) {
+                hosts.set(threat.threat, hostPlants);
+            }
+        }
+        const threats = PEST_THREAT_CATALOG.filter(threat => hosts.has(threat.threat));
+
+        const favoured = weather.map(day => PEST_THREAT_CATALOG
+            .filter(threat => day && this.isFavourable(threat.conditions, day))
+            .map(threat => threat.threat));
+        const counts = weather.map((_, index) => new Map(threats.map(threat => [
+            threat.threat,
+            favoured
+                .slice(Math.max(0, index - PEST_PRESSURE_DEFAULTS.WINDOW_DAYS + 1), index + 1)
+                .filter(day => day.includes(threat.threat))
+                .length
+        ])));
+
+        const days: IPestPressureDay[] = [];
+        for (let index = PEST_PRESSURE_DEFAULTS.WINDOW_DAYS - 1; index < weather.length; index++) {
+            const offset = index - historyDays;
+            days.push({
+                date: today.clone().add(offset, 'days').toDate(),
+                forecast: offset > 0,
+                weather: weather[index],
+                favoured: favoured[index],
+                risks: Object.fromEntries(threats.map(threat =>
+                    [threat.threat, this.rateRisk(threat, counts[index].get(threat.threat)!)]))
+            });
+        }
+
+        const upcomingCounts = counts.slice(historyDays);
+        const risks = threats.map(threat => this.findPeakRisk(threat, days, upcomingCounts, hosts.get(threat.threat)!));
+        risks.sort((a, b) => RISK_ORDER.indexOf(b.level) - RISK_ORDER.indexOf(a.level)
+            || b.favourableDays - a.favourableDays);
+
+        return {
+            report: { gardenId, assessedAt: now, days, risks },
+            hosts
+        };
+    }
+
+    /**
+     * Finds the highest risk of a threat from today to the end of the lookahead
+     * Ties go to the earliest day
+     * @private
+     * @param counts Favourable days counted for each day from today on
+     */
+    private findPeakRisk(
+        threat: IPestThreat,
+        days: IPestPressureDay[],
+        counts: Map<string, number>[],
+        hostPlants: IPlant[]
+    ): IPestRisk {
+        const upcoming = days.slice(days.length - counts.length);
+        let peak = 0;
+        for (let index = 1; index < upcoming.length; index++) {
+            if (RISK_ORDER.indexOf(upcoming[index].risks[threat.threat]!) > RISK_ORDER.indexOf(upcoming[peak].risks[threat.threat]!)) {
+                peak = index;
+            }
+        }
+
+        return {
+            threat: threat.threat,
+            kind: threat.kind,
+            level: upcoming[peak].risks[threat.threat]!,
+            favourableDays: counts[peak].get(threat.threat)!,
+            peakDate: upcoming[peak].date,
+            hostPlantIds: hostPlants.map(plant => plant.id),
+            scheduleIds: []
+        };
+    }
+
+    /**
+     * Raises a pest control task for each host plant an elevated risk is not yet covered for
+     * @private
+     * @returns Identifiers of the tasks raised or already covering the risk
+     */
+    private async raiseTasks(
+        gardenId: string,
+        risk: IPestRisk,
+        hostPlants: IPlant[],
+        tasks: ISchedule[],
+        now: Date
+    ): Promise<string[]> {
+        if (risk.level === PEST_RISK_LEVELS.LOW) {
+            return [];
+        }
+
+        const threat = PEST_THREAT_CATALOG.find(entry => entry.threat === risk.threat)!;
+        const treat = risk.level === PEST_RISK_LEVELS.HIGH;
+        const scheduleIds: string[] = [];
+
+        for (const plant of hostPlants) {
+            const covering = tasks.find(task => task.plantId === plant.id && this.covers(task, threat, risk.level, now));
+            if (covering) {
+                scheduleIds.push(covering.id);
+                continue;
+            }
+
+            const task = await this.scheduleRepository.createSchedule({
+                gardenId,
+                plantId: plant.id,
+                taskType: TaskType.PEST_CONTROL,
+                frequency: TaskFrequency.AS_NEEDED,
+                dueDate: now,
+                priority: treat ? TaskPriority.HIGH : TaskPriority.MEDIUM,
+                completed: false,
+                completedDate: null,
+                notes: treat ? threat.treatment : threat.inspection,
+                // Sprays wash off in rain; looking plants over does not wait for the weather
+                weather_dependent: treat,
+                task_metadata: { pestThreat: threat.threat, pestRisk: risk.level }
+            });
+            scheduleIds.push(task.id);
+        }
+
+        return scheduleIds;
+    }
+
+    /**
+     * Checks whether a pest control task covers a plant against a threat at a risk level
+     * Pending tasks cover while open; done ones for as long as an inspection or treatment
+     * lasts. A treatment scheduled by a diagnosis of the damage the threat does covers it too.
+     * @private
+     */
+    private covers(task: ISchedule, threat: IPestThreat, level: PestRiskLevel, now: Date): boolean {
+        const metadata = task.task_metadata;
+        const treats = Boolean(threat.problem) && metadata?.healthProblem === threat.problem;
+        const responds = metadata?.pestThreat === threat.threat
+            && RISK_ORDER.indexOf(metadata.pestRisk ?? PEST_RISK_LEVELS.LOW) >= RISK_ORDER.indexOf(level);
+        if (!treats && !responds) {
+            return false;
+        }
+        if (!task.completed) {
+            return true;
+        }
+
+        const lastsDays = treats || metadata?.pestRisk === PEST_RISK_LEVELS.HIGH
+            ? PEST_PRESSURE_DEFAULTS.TREATMENT_INTERVAL_DAYS
+            : PEST_PRESSURE_DEFAULTS.INSPECTION_INTERVAL_DAYS;
+        return Boolean(task.completedDate)
+            && moment(task.completedDate).isAfter(moment(now).subtract(lastsDays, 'days'));
+    }
+
+    /**
+     * Retrieves the pest control tasks of a garden that may cover a risk: those pending and
+     * those done within the treatment interval
+     * @private
+     */
+    private async findResponseTasks(gardenId: string, now: Date): Promise<ISchedule[]> {
+        const from = moment(now).subtract(PEST_PRESSURE_DEFAULTS.TREATMENT_INTERVAL_DAYS, 'days').toDate();
+        const filters = { gardenId, taskTypes: [TaskType.PEST_CONTROL] };
+
+        const [pending, completed] = await Promise.all([
+            this.scheduleRepository.getPendingTasks(
+                from,
+                moment(now).add(PEST_PRESSURE_DEFAULTS.LOOKAHEAD_DAYS, 'days').toDate(),
+                filters
+            ),
+            this.scheduleRepository.getPendingTasks(from, now, { ...filters, completed: true })
+        ]);
+
+        return [...pending, ...completed];
+    }
+
+    /**
+     * Describes a day's weather from the forecast or stored history, replacing temperature
+     * and humidity with sensor measurements that cover enough of the day and rainfall with
+     * rain recorded at the garden
+     * @private
+     * @returns The day's weather, or undefined when nothing is known about the day
+     */
+    private describeDay(
+        date: Date,
+        known: IWeatherDay | undefined,
+        temperature: ISensorDay | undefined,
+        humidity: ISensorDay | undefined,
+        observedRain: number | undefined
+    ): IWeatherDay | undefined {
+        const measuredTemperature = temperature && temperature.hours >= PEST_PRESSURE_DEFAULTS.MIN_SENSOR_HOURS
+            ? temperature
+            : undefined;
+        const measuredHumidity = humidity && humidity.hours >= PEST_PRESSURE_DEFAULTS.MIN_SENSOR_HOURS
+            ? humidity
+            : undefined;
+        if (!known && !(measuredTemperature && measuredHumidity)) {
+            return undefined;
+        }
+
+        return {
+            date,
+            minTemperature: this.round(measuredTemperature?.min ?? known!.minTemperature),
+            maxTemperature: this.round(measuredTemperature?.max ?? known!.maxTemperature),
+            humidity: this.round(measuredHumidity?.mean ?? known!.humidity),
+            rainfall: this.round(observedRain ?? known?.rainfall ?? 0),
+            source: measuredTemperature || measuredHumidity ? WEATHER_DAY_SOURCES.SENSORS : known!.source
+        };
+    }
+
+    /**
+     * Summarises a garden's sensor measurements of a metric per UTC day
+     * Raw readings and hourly aggregates are rolled up per hour first, so a day's mean is
+     * not skewed by sensors reporting more often at some hours
+     * @private
+     */
+    private async getSensorDays(
+        gardenId: string,
+        metric: SensorMetric,
+        days: number,
+        now: Date
+    ): Promise<Map<string, ISensorDay>> {
+        const history: ISensorHistory = await this.sensorService.getReadingHistory(gardenId, metric, days, {}, now);
+
+        const hours = new Map<string, { min: number; max: number; sum: number; count: number }>();
+        const addHour = (hour: Date, min: number, max: number, avg: number, count: number): void => {
+            const key = moment.utc(hour).startOf('hour').toISOString();
+            const entry = hours.get(key) ?? { min, max, sum: 0, count: 0 };
+            entry.min = Math.min(entry.min, min);
+            entry.max = Math.max(entry.max, max);
+            entry.sum += avg * count;
+            entry.count += count;
+            hours.set(key, entry);
+        };
+        history.hourly.forEach(aggregate => addHour(aggregate.hour, aggregate.min, aggregate.max, aggregate.avg, aggregate.count));
+        history.readings.forEach(reading => addHour(reading.recordedAt, reading.value, reading.value, reading.value, 1));
+
+        const summaries = new Map<string, ISensorDay>();
+        for (const [hour, entry] of hours) {
+            const key = this.dayKey(new Date(hour));
+            const summary = summaries.get(key) ?? { hours: 0, min: entry.min, max: entry.max, mean: 0 };
+            summary.mean = (summary.mean * summary.hours + entry.sum / entry.count) / (summary.hours + 1);
+            summary.hours += 1;
+            summary.min = Math.min(summary.min, entry.min);
+            summary.max = Math.max(summary.max, entry.max);
+            summaries.set(key, summary);
+        }
+
+        return summaries;
+    }
+
+    /**
+     * Sums the rain recorded at a garden per UTC day
+     * @private
+     */
+    private sumRainfallByDay(observations: IRainfallObservation[]): Map<string, number> {
+        const totals = new Map<string, number>();
+        for (const observation of observations) {
+            const key = this.dayKey(observation.observedAt);
+            totals.set(key, (totals.get(key) ?? 0) + observation.rainfallMm);
+        }
+        return totals;
+    }
+
+    /**
+     * Finds the forecast for a day as the weather of the day
+     * @private
+     */
+    private findForecastDay(forecast: IWeatherForecast | undefined, date: Date): IWeatherDay | undefined {
+        const key = this.dayKey(date);
+        const day = forecast?.daily.find(entry => this.dayKey(entry.date) === key);
+        return day && {
+            date,
+            minTemperature: day.minTemperature,
+            maxTemperature: day.maxTemperature,
+            humidity: day.humidity,
+            rainfall: day.rainfall,
+            source: WEATHER_DAY_SOURCES.FORECAST
+        };
+    }
+
+    /**
+     * Checks whether a threat attacks a plant, by the plant's catalog family
+     * @private
+     */
+    private attacks(threat: IPestThreat, plant: IPlant): boolean {
+        if (!threat.hostFamilies) {
+            return true;
+        }
+        const family = this.plantCatalog.getEntry(plant.type)?.family;
+        return family !== undefined && threat.hostFamilies.includes(family);
+    }
+
+    /**
+     * Retrieves the forecast for a garden covering the lookahead, if one is available
+     * @private
+     */
+    private async getForecast(gardenId: string): Promise<IWeatherForecast | undefined> {
+        try {
+            return await this.weatherService.getGardenForecast(gardenId, PEST_PRESSURE_DEFAULTS.LOOKAHEAD_DAYS + 1);
+        } catch (error) {
+            this.logger.warn(`No forecast for garden ${gardenId}: ${error.message}; using recorded weather only`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Retrieves a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+
+    /**
+     * Keys a date by its UTC day
+     * @private
+     */
+    private dayKey(date: Date): string {
+        return moment.utc(date).format('YYYY-MM-DD');
+    }
+
+    /**
+     * Rounds to one decimal
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 10) / 10;
+    }
+}
@@ -0,0 +1,322 @@
+/**
+ * Service class for the runtime plant catalog
+ * Keeps an in-memory snapshot of catalog entries for synchronous trait lookups and
+ * validates catalog changes before they are persisted
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'; // ^8.0.0
+import { PlantCatalogRepository, PlantCatalogInput } from '../repositories/plant-catalog.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import {
+    IPlantCatalogEntry,
+    IPlantCatalogLookup,
+    ICompanionRelationship
+} from '../interfaces/plant.interface';
+import {
+    PlantType,
+    PLANT_TYPE_KEY_PATTERN,
+    PLANT_CATALOG_ERRORS,
+    SUNLIGHT_REQUIREMENTS,
+    COMPANION_RELATIONSHIP_TYPES,
+    FROST_TOLERANCE,
+    PLANT_FAMILY
+} from '../constants/plant.constants';
+import { GROWTH_PROGRESSION_DEFAULTS } from '../constants/growth-stage.constants';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/error.utils';
+
+@Injectable()
+export class PlantCatalogService implements IPlantCatalogLookup, OnModuleInit {
+    private readonly logger = new Logger(PlantCatalogService.name);
+    private entries = new Map<PlantType, IPlantCatalogEntry>();
+    private relationships = new Map<string, ICompanionRelationship>();
+
+    constructor(
+        private readonly plantCatalogRepository: PlantCatalogRepository,
+        private readonly plantRepository: PlantRepository
+    ) {}
+
+    /**
+     * Loads the catalog snapshot when the module starts
+     */
+    async onModuleInit(): Promise<void> {
+        await this.refresh();
+    }
+
+    /**
+     * Reloads the in-memory catalog snapshot from the database
+     */
+    async refresh(): Promise<void> {
+        const [entries, relationships] = await Promise.all([
+            this.plantCatalogRepository.findAll(),
+            this.plantCatalogRepository.findRelationships()
+        ]);
+
+        this.entries = new Map(entries.map(entry => [entry.type, entry]));
+        this.relationships = new Map(relationships.map(relationship => [
+            this.getRelationshipKey(relationship.plantType, relationship.companionType),
+            relationship
+        ]));
+        this.logger.log(`Loaded ${entries.length} plant catalog entries and ${relationships.length} companion relationships`);
+    }
+
+    /**
+     * Returns the catalog entry for a plant type from the snapshot
+     * @param type Plant type key
+     * @returns IPlantCatalogEntry | undefined Catalog entry or undefined when unknown
+     */
+    getEntry(type: PlantType): IPlantCatalogEntry | undefined {
+        return this.entries.get(type);
+    }
+
+    /**
+     * Returns the catalog entry for a plant type, failing for unknown types
+     * @param type Plant type key
+     * @returns IPlantCatalogEntry Catalog entry
+     */
+    requireEntry(type: PlantType): IPlantCatalogEntry {
+        const entry = this.entries.get(type);
+        if (!entry) {
+            throw new NotFoundError(`${PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND}: ${type}`);
+        }
+        return entry;
+    }
+
+    /**
+     * Lists all catalog entries from the snapshot
+     * @returns IPlantCatalogEntry[] Catalog entries ordered by plant type
+     */
+    listEntries(): IPlantCatalogEntry[] {
+        return Array.from(this.entries.values())
+            .sort((a, b) => a.type.localeCompare(b.type));
+    }
+
+    /**
+     * Resolves the relationship between two plant types in either direction
+     * A harmful record in either direction takes precedence over a beneficial one
+     * @param plantType First plant type
+     * @param otherType Second plant type
+     * @returns ICompanionRelationship | undefined Effective relationship or undefined when none is recorded
+     */
+    getRelationship(plantType: PlantType, otherType: PlantType): ICompanionRelationship | undefined {
+        const forward = this.relationships.get(this.getRelationshipKey(plantType, otherType));
+        const reverse = this.relationships.get(this.getRelationshipKey(otherType, plantType));
+
+        if (reverse?.relationshipType === COMPANION_RELATIONSHIP_TYPES.HARMFUL &&
+            forward?.relationshipType !== COMPANION_RELATIONSHIP_TYPES.HARMFUL) {
+            return reverse;
+        }
+        if (forward && forward.relationshipType !== COMPANION_RELATIONSHIP_TYPES.NEUTRAL) {
+            return forward;
+        }
+        return reverse ?? forward;
+    }
+
+    /**
+     * Lists companion relationships, optionally limited to those recorded for one plant type
+     * @param plantType Optional plant type filter
+     * @returns ICompanionRelationship[] Recorded relationships
+     */
+    listRelationships(plantType?: PlantType): ICompanionRelationship[] {
+        return Array.from(this.relationships.values())
+            .filter(relationship => !plantType || relationship.plantType === plantType);
+    }
+
+    /**
+     * Records the relationship between two catalog plant types
+     * @param relationship Relationship to store
+     * @returns Promise<ICompanionRelationship> Stored relationship
+     */
+    async setRelationship(relationship: ICompanionRelationship): Promise<ICompanionRelationship> {
+        if (!Object.values(COMPANION_RELATIONSHIP_TYPES).includes(relationship.relationshipType)) {
+            throw new BadRequestError(
+                `${PLANT_CATALOG_ERRORS.INVALID_RELATIONSHIP}: relationshipType must be one of ${Object.values(COMPANION_RELATIONSHIP_TYPES).join(', ')}`
+            );
+        }
+        if (relationship.plantType === relationship.companionType) {
+            throw new BadRequestError(`${PLANT_CATALOG_ERRORS.INVALID_RELATIONSHIP}: a plant type cannot be related to itself`);
+        }
+
+        this.requireEntry(relationship.plantType);
+        if (!this.entries.has(relationship.companionType)) {
+            throw new BadRequestError(`${PLANT_CATALOG_ERRORS.UNKNOWN_COMPANION}: ${relationship.companionType}`);
+        }
+
+        const stored = await this.plantCatalogRepository.upsertRelationship(relationship);
+        await this.refresh();
+
+        this.logger.log(`Recorded ${stored.relationshipType} relationship ${stored.plantType} -> ${stored.companionType}`);
+        return stored;
+    }
+
+    /**
+     * Removes the relationship recorded between two plant types
+     * @param plantType Plant type the relationship is recorded for
+     * @param companionType Neighbouring plant type
+     */
+    async removeRelationship(plantType: PlantType, companionType: PlantType): Promise<void> {
+        const deleted = await this.plantCatalogRepository.deleteRelationship(plantType, companionType);
+        if (!deleted) {
+            throw new NotFoundError(`${PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND}: ${plantType} -> ${companionType}`);
+        }
+
+        await this.refresh();
+    }
+
+    /**
+     * Adds a new plant type to the catalog
+     * @param input Catalog entry data
+     * @returns Promise<IPlantCatalogEntry> Created catalog entry
+     */
+    async createEntry(input: PlantCatalogInput): Promise<IPlantCatalogEntry> {
+        this.validateEntry(input);
+
+        if (this.entries.has(input.type)) {
+            throw new ConflictError(`${PLANT_CATALOG_ERRORS.DUPLICATE_TYPE}: ${input.type}`);
+        }
+
+        const created = await this.plantCatalogRepository.create(input);
+        await this.refresh();
+
+        this.logger.log(`Added plant type ${created.type} to catalog`);
+        return created;
+    }
+
+    /**
+     * Updates an existing catalog entry
+     * @param type Plant type key
+     * @param input Updated catalog entry data
+     * @param expectedVersion Version the caller last read
+     * @returns Promise<IPlantCatalogEntry> Updated catalog entry
+     */
+    async updateEntry(
+        type: PlantType,
+        input: PlantCatalogInput,
+        expectedVersion: number
+    ): Promise<IPlantCatalogEntry> {
+        this.validateEntry({ ...input, type });
+
+        const updated = await this.plantCatalogRepository.update(type, input, expectedVersion);
+        await this.refresh();
+
+        this.logger.log(`Updated plant type ${type} to version ${updated.version}`);
+        return updated;
+    }
+
+    /**
+     * Removes a plant type from the catalog
+     * Types plants still use are refused, since their trait lookups would fail afterwards
+     * @param type Plant type key
+     */
+    async deleteEntry(type: PlantType): Promise<void> {
+        const plantsOfType = await this.plantRepository.countPlantsByType(type);
+        if (plantsOfType > 0) {
+            throw new ConflictError(`${PLANT_CATALOG_ERRORS.TYPE_IN_USE}: ${plantsOfType} plants of type ${type}`);
+        }
+
+        const deleted = await this.plantCatalogRepository.delete(type);
+        if (!deleted) {
+            throw new NotFoundError(`${PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND}: ${type}`);
+        }
+
+        await this.refresh();
+        this.logger.log(`Removed plant type ${type} from catalog`);
+    }
+
+    /**
+     * Builds the snapshot key for a directional relationship
+     * @private
+     */
+    private getRelationshipKey(plantType: PlantType, companionType: PlantType): string {
+        return `${plantType}->${companionType}`;
+    }
+
+    /**
+     * Validates catalog entry fields before persisting
+     * @private
+     * @param input Catalog entry data
+     */
+    private validateEntry(input: PlantCatalogInput): void {
+        const errors: string[] = [];
+
+        if (!input.type || !PLANT_TYPE_KEY_PATTERN.test(input.type)) {
+            errors.push('type must be a lowercase key of letters, digits and underscores');
+        }
+        if (!input.name || input.name.trim().length === 0) {
+            errors.push('name is required');
+        }
+
+        const positiveFields: Array<keyof PlantCatalogInput> = [
+            'defaultSpacing',
+            'daysToMaturity',
+            'harvestWindowDays',
+            'wateringFrequencyDays',
+            'fertilizingFrequencyDays',
+            'expectedYieldKg',
+            'waterRequirementMl'
+        ];
+        positiveFields.forEach(field => {
+            const value = input[field];
+            if (typeof value !== 'number' || !(value > 0)) {
+                errors.push(`${field} must be a positive number`);
+            }
+        });
+
+        (['seedlingDays', 'growingDays'] as const).forEach(field => {
+            const value = input[field];
+            if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+                errors.push(`${field} must be a positive whole number of days`);
+            }
+        });
+        if ((input.seedlingDays !== undefined || input.growingDays !== undefined) &&
+            (input.seedlingDays ?? 0) + (input.growingDays ?? 0) >= input.daysToMaturity) {
+            errors.push('seedlingDays and growingDays must end before daysToMaturity');
+        }
+
+        if (input.singleHarvest !== undefined && typeof input.singleHarvest !== 'boolean') {
+            errors.push('singleHarvest must be true or false');
+        }
+
+        if (input.baseTemperature !== undefined &&
+            !(typeof input.baseTemperature === 'number' && input.baseTemperature >= 0 &&
+                input.baseTemperature < GROWTH_PROGRESSION_DEFAULTS.AVERAGE_DAY_TEMPERATURE)) {
+            errors.push(`baseTemperature must be from 0 to below ${GROWTH_PROGRESSION_DEFAULTS.AVERAGE_DAY_TEMPERATURE} °C`);
+        }
+
+        if (input.successionIntervalDays !== undefined &&
+            !(Number.isInteger(input.successionIntervalDays) && input.successionIntervalDays > 0)) {
+            errors.push('successionIntervalDays must be a positive whole number of days');
+        }
+
+        if (!Object.values(FROST_TOLERANCE).includes(input.frostTolerance)) {
+            errors.push(`frostTolerance must be one of: ${Object.values(FROST_TOLERANCE).join(', ')}`);
+        }
+        if (input.indoorSowingWeeks !== undefined &&
+            !(Number.isInteger(input.indoorSowingWeeks) && input.indoorSowingWeeks > 0)) {
+            errors.push('indoorSowingWeeks must be a positive whole number of weeks');
+        }
+        if (!Object.values(PLANT_FAMILY).includes(input.family)) {
+            errors.push(`family must be one of: ${Object.values(PLANT_FAMILY).join(', ')}`);
+        }
+
+        [input.minSunlightHours, input.optimalSunlightHours].forEach((hours, index) => {
+            if (typeof hours !== 'number' || hours < 1 || hours > 24) {
+                errors.push(`${index === 0 ? 'minSunlightHours' : 'optimalSunlightHours'} must be between 1 and 24`);
+            }
+        });
+
+        if (!Object.values(SUNLIGHT_REQUIREMENTS).includes(input.sunlightRequirement)) {
+            errors.push(`sunlightRequirement must be one of: ${Object.values(SUNLIGHT_REQUIREMENTS).join(', ')}`);
+        }
+
+        if (!Array.isArray(input.companionPlants)) {
+            errors.push('companionPlants must be an array of plant types');
+        } else if (input.companionPlants.includes(input.type)) {
+            errors.push('a plant type cannot be its own companion');
+        }
+
+        if (errors.length > 0) {
+            throw new BadRequestError(`${PLANT_CATALOG_ERRORS.INVALID_ENTRY}: ${errors.join('; ')}`);
+        }
+    }
+}
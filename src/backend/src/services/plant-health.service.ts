@@ -0,0 +1,520 @@
+/**
+ * Plant Health Service
+ * @packageVersion 5.0
+ *
+ * Records what gardeners observe on their plants - symptoms, pests seen and photos - and
+ * diagnoses likely problems from the observations of the last two weeks and the recent
+ * conditions at the plant. A diagnosis sets the plant's health status, on the plant and
+ * in growth tracking, and schedules pest control tasks for the treatments it recommends.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import moment from 'moment'; // ^2.29.0
+import { PlantHealthRepository } from '../repositories/plant-health.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { WeatherService } from './weather/weather.service';
+import { SensorService } from './sensor.service';
+import { WaterBalanceService } from './water-balance.service';
+import { IPlant } from '../interfaces/plant.interface';
+import { TaskFrequency, TaskPriority, TaskType } from '../interfaces/schedule.interface';
+import {
+    IDiagnosedProblem,
+    IDiagnosisConditions,
+    IHealthConditions,
+    IObservedHealth,
+    IPlantDiagnosis,
+    IPlantObservation,
+    IPlantObservationInput,
+    IPlantObservationResult,
+    IPlantPhoto
+} from '../interfaces/plant-health.interface';
+import {
+    DIAGNOSIS_CONFIDENCE,
+    DIAGNOSIS_RULES,
+    HEALTH_ACTION_TYPES,
+    PLANT_HEALTH_DEFAULTS,
+    PLANT_HEALTH_ERRORS,
+    PLANT_HEALTH_LIMITS,
+    PLANT_HEALTH_STATUS,
+    PLANT_PESTS,
+    PLANT_SYMPTOMS,
+    PlantHealthStatus,
+    PlantPest,
+    PlantSymptom,
+    PROBLEM_SEVERITY,
+    ProblemSeverity,
+    SYMPTOM_LEAF_COLORS,
+    TREATMENT_DUE_DAYS
+} from '../constants/plant-health.constants';
+import { DEFAULT_ENVIRONMENTAL_FACTORS } from '../constants/weather.constants';
+import { SENSOR_METRICS } from '../constants/sensor.constants';
+import { BadRequestError, NotFoundError } from '../utils/error.utils';
+
+/**
+ * Severities from mildest to most severe
+ */
+const SEVERITY_ORDER: ProblemSeverity[] = [
+    PROBLEM_SEVERITY.LOW,
+    PROBLEM_SEVERITY.MODERATE,
+    PROBLEM_SEVERITY.HIGH
+];
+
+/**
+ * Priority of the pest control task treating a problem of each severity
+ */
+const TREATMENT_PRIORITIES: Record<ProblemSeverity, TaskPriority> = {
+    [PROBLEM_SEVERITY.LOW]: TaskPriority.LOW,
+    [PROBLEM_SEVERITY.MODERATE]: TaskPriority.MEDIUM,
+    [PROBLEM_SEVERITY.HIGH]: TaskPriority.HIGH
+};
+
+@Injectable()
+export class PlantHealthService {
+    private readonly logger = new Logger(PlantHealthService.name);
+
+    constructor(
+        private readonly plantHealthRepository: PlantHealthRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly weatherService: WeatherService,
+        private readonly sensorService: SensorService,
+        private readonly waterBalanceService: WaterBalanceService
+    ) {}
+
+    /**
+     * Records an observation of a plant and diagnoses the plant again
+     * @param plantId Plant identifier
+     * @param input Symptoms, pests, affected share, notes and photos
+     * @param now Current time
+     * @returns Promise<IPlantObservationResult> Stored observation and the new diagnosis
+     */
+    async recordObservation(
+        plantId: string,
+        input: IPlantObservationInput,
+        now: Date = new Date()
+    ): Promise<IPlantObservationResult> {
+        const plant = await this.requirePlant(plantId);
+        const observation = await this.plantHealthRepository.createObservation({
+            plantId,
+            gardenId: plant.gardenId,
+            ...this.validateObservation(input, now)
+        });
+        this.logger.log(`Recorded observation ${observation.id} of plant ${plantId}`);
+
+        const diagnosis = await this.diagnose(plant, now);
+        return { observation, diagnosis };
+    }
+
+    /**
+     * Lists the latest observations of a plant
+     * @param plantId Plant identifier
+     * @param limit Maximum number of observations
+     * @returns Promise<IPlantObservation[]> Observations, newest first
+     */
+    async listObservations(
+        plantId: string,
+        limit: number = PLANT_HEALTH_DEFAULTS.HISTORY_LIMIT
+    ): Promise<IPlantObservation[]> {
+        await this.requirePlant(plantId);
+        return this.plantHealthRepository.findObservations(plantId, {
+            limit: Math.min(Math.max(1, Math.floor(limit) || 1), PLANT_HEALTH_DEFAULTS.HISTORY_LIMIT)
+        });
+    }
+
+    /**
+     * Diagnoses a plant from its recent observations and conditions
+     * @param plantId Plant identifier
+     * @param now Current time
+     * @returns Promise<IPlantDiagnosis> Stored diagnosis
+     */
+    async diagnosePlant(plantId: string, now: Date = new Date()): Promise<IPlantDiagnosis> {
+        const plant = await this.requirePlant(plantId);
+        return this.diagnose(plant, now);
+    }
+
+    /**
+     * Retrieves the latest diagnosis of a plant
+     * @param plantId Plant identifier
+     * @returns Promise<IPlantDiagnosis> Latest diagnosis
+     */
+    async getLatestDiagnosis(plantId: string): Promise<IPlantDiagnosis> {
+        await this.requirePlant(plantId);
+
+        const diagnosis = await this.plantHealthRepository.findLatestDiagnosis(plantId);
+        if (!diagnosis) {
+            throw new NotFoundError(PLANT_HEALTH_ERRORS.NO_DIAGNOSIS);
+        }
+        return diagnosis;
+    }
+
+    /**
+     * Summarises the health signs observed on a plant recently, for growth assessment
+     * @param plantId Plant identifier
+     * @param now Current time
+     * @returns Promise<IObservedHealth> Leaf colour, whether pests were seen and the symptoms seen
+     */
+    async getObservedHealth(plantId: string, now: Date = new Date()): Promise<IObservedHealth> {
+        const observations = await this.findRecentObservations(plantId, now);
+        const symptoms = this.collectSigns(observations, 'symptoms');
+        const leafColor = SYMPTOM_LEAF_COLORS.find(entry => symptoms.includes(entry.symptom))?.leafColor;
+
+        return {
+            leafColor: leafColor ?? PLANT_HEALTH_DEFAULTS.LEAF_COLOR,
+            pestPresence: this.collectSigns(observations, 'pests').length > 0,
+            diseaseSymptoms: symptoms
+        };
+    }
+
+    /**
+     * Works out the likely problems behind observed signs
+     * Each rule with an observed sign is scored by the share of its signs observed, whether
+     * a pest behind it was seen and whether the conditions favour it. Its severity is raised
+     * by the share of the plant affected in the observations showing its signs.
+     * @param observations Recent observations
+     * @param conditions Recent conditions at the plant
+     * @returns IDiagnosedProblem[] Problems at least DIAGNOSIS_CONFIDENCE.MIN likely, most likely first
+     */
+    diagnoseProblems(observations: IPlantObservation[], conditions: IHealthConditions): IDiagnosedProblem[] {
+        const symptoms = this.collectSigns(observations, 'symptoms');
+        const pests = this.collectSigns(observations, 'pests');
+        const problems: IDiagnosedProblem[] = [];
+
+        for (const rule of DIAGNOSIS_RULES) {
+            const seenSymptoms = rule.symptoms.filter(symptom => symptoms.includes(symptom));
+            const seenPests = rule.pests.filter(pest => pests.includes(pest));
+            const signs = [...seenSymptoms, ...seenPests];
+            if (!signs.length) {
+                continue;
+            }
+
+            const conditionsFavour = this.conditionsFavour(rule.conditions, conditions);
+            const confidence = this.round(Math.min(
+                DIAGNOSIS_CONFIDENCE.MAX,
+                DIAGNOSIS_CONFIDENCE.BASE
+                    + DIAGNOSIS_CONFIDENCE.SIGNS * signs.length / (rule.symptoms.length + rule.pests.length)
+                    + (seenPests.length ? DIAGNOSIS_CONFIDENCE.PEST_SIGHTING : 0)
+                    + (conditionsFavour ? DIAGNOSIS_CONFIDENCE.CONDITIONS : 0)
+            ));
+            if (confidence < DIAGNOSIS_CONFIDENCE.MIN) {
+                continue;
+            }
+
+            const affectedPercent = this.maxAffectedPercent(observations.filter(observation =>
+                signs.some(sign => (observation.symptoms as string[]).includes(sign)
+                    || (observation.pests as string[]).includes(sign))));
+
+            problems.push({
+                problem: rule.problem,
+                confidence,
+                severity: this.raiseSeverity(rule.severity, affectedPercent),
+                signs,
+                conditionsFavour,
+                actions: rule.actions.map(action => ({ ...action }))
+            });
+        }
+
+        return problems.sort((a, b) => b.confidence - a.confidence);
+    }
+
+    /**
+     * Rates a plant's overall health from its diagnosed problems
+     * Plants with no problem are excellent unless signs were seen; otherwise the most
+     * severe problem decides, and a plant with several severe problems or mostly affected
+     * by one is critical
+     * @param problems Diagnosed problems
+     * @param observations Observations the problems were diagnosed from
+     * @returns PlantHealthStatus Overall health
+     */
+    rateHealth(problems: IDiagnosedProblem[], observations: IPlantObservation[]): PlantHealthStatus {
+        if (!problems.length) {
+            const signsSeen = observations.some(observation => observation.symptoms.length || observation.pests.length);
+            return signsSeen ? PLANT_HEALTH_STATUS.GOOD : PLANT_HEALTH_STATUS.EXCELLENT;
+        }
+
+        const worst = Math.max(...problems.map(problem => SEVERITY_ORDER.indexOf(problem.severity)));
+        switch (SEVERITY_ORDER[worst]) {
+            case PROBLEM_SEVERITY.HIGH: {
+                const severe = problems.filter(problem => problem.severity === PROBLEM_SEVERITY.HIGH).length;
+                return severe > 1 || this.maxAffectedPercent(observations) >= PLANT_HEALTH_DEFAULTS.CRITICAL_AFFECTED_PERCENT
+                    ? PLANT_HEALTH_STATUS.CRITICAL
+                    : PLANT_HEALTH_STATUS.POOR;
+            }
+            case PROBLEM_SEVERITY.MODERATE:
+                return PLANT_HEALTH_STATUS.FAIR;
+            default:
+                return PLANT_HEALTH_STATUS.GOOD;
+        }
+    }
+
+    /**
+     * Diagnoses a plant, schedules treatments and records its health status
+     * @private
+     */
+    private async diagnose(plant: IPlant, now: Date): Promise<IPlantDiagnosis> {
+        const [observations, conditions] = await Promise.all([
+            this.findRecentObservations(plant.id, now),
+            this.getConditions(plant, now)
+        ]);
+
+        const problems = this.diagnoseProblems(observations, conditions);
+        const healthStatus = this.rateHealth(problems, observations);
+        const treatmentScheduleIds = await this.scheduleTreatments(plant, problems, now);
+
+        const diagnosis = await this.plantHealthRepository.createDiagnosis({
+            plantId: plant.id,
+            gardenId: plant.gardenId,
+            healthStatus,
+            problems,
+            conditions,
+            observationIds: observations.map(observation => observation.id),
+            treatmentScheduleIds,
+            diagnosedAt: now
+        });
+
+        await Promise.all([
+            this.plantRepository.updatePlantHealth(plant.id, healthStatus),
+            this.plantHealthRepository.updateTrackedHealth(plant, healthStatus)
+        ]);
+
+        this.logger.log(`Diagnosed plant ${plant.id} as ${healthStatus} with ${problems.length} likely problems`);
+        return diagnosis;
+    }
+
+    /**
+     * Schedules a pest control task for each problem with a recommended treatment
+     * Problems already treated by a pending task of the plant keep that task
+     * @private
+     * @returns Identifiers of the pest control tasks treating the problems
+     */
+    private async scheduleTreatments(plant: IPlant, problems: IDiagnosedProblem[], now: Date): Promise<string[]> {
+        const treatable = problems.filter(problem =>
+            problem.actions.some(action => action.type === HEALTH_ACTION_TYPES.TREATMENT));
+        // Tasks belong to a garden, so plants outside one get recommendations only
+        if (!plant.gardenId || !treatable.length) {
+            return [];
+        }
+
+        const pending = await this.scheduleRepository.getPendingTasks(
+            moment(now).subtract(PLANT_HEALTH_DEFAULTS.OBSERVATION_WINDOW_DAYS, 'days').toDate(),
+            moment(now).add(PLANT_HEALTH_DEFAULTS.OBSERVATION_WINDOW_DAYS, 'days').toDate(),
+            { gardenId: plant.gardenId, taskTypes: [TaskType.PEST_CONTROL] }
+        );
+
+        const scheduleIds: string[] = [];
+        for (const problem of treatable) {
+            const existing = pending.find(task =>
+                task.plantId === plant.id && task.task_metadata?.healthProblem === problem.problem);
+            if (existing) {
+                scheduleIds.push(existing.id);
+                continue;
+            }
+
+            const treatment = problem.actions.find(action => action.type === HEALTH_ACTION_TYPES.TREATMENT)!;
+            const task = await this.scheduleRepository.createSchedule({
+                gardenId: plant.gardenId,
+                plantId: plant.id,
+                taskType: TaskType.PEST_CONTROL,
+                frequency: TaskFrequency.AS_NEEDED,
+                dueDate: moment(now).add(TREATMENT_DUE_DAYS[problem.severity], 'days').toDate(),
+                priority: TREATMENT_PRIORITIES[problem.severity],
+                completed: false,
+                completedDate: null,
+                notes: treatment.description,
+                // Sprays wash off in rain
+                weather_dependent: true,
+                task_metadata: { healthProblem: problem.problem }
+            });
+            scheduleIds.push(task.id);
+        }
+
+        return scheduleIds;
+    }
+
+    /**
+     * Works out the recent conditions at a plant
+     * Air temperature, humidity and soil moisture measured by sensors at the plant replace
+     * today's forecast and the zone's water balance
+     * @private
+     */
+    private async getConditions(plant: IPlant, now: Date): Promise<IHealthConditions> {
+        if (!plant.gardenId) {
+            return {
+                temperature: DEFAULT_ENVIRONMENTAL_FACTORS.temperature,
+                humidity: DEFAULT_ENVIRONMENTAL_FACTORS.humidity
+            };
+        }
+
+        const [factors, readings] = await Promise.all([
+            this.weatherService.getGardenConditions(plant.gardenId, now),
+            this.sensorService.getPlantReadings(plant, now)
+        ]);
+        const measuredMoisture = readings[SENSOR_METRICS.SOIL_MOISTURE];
+
+        return {
+            temperature: readings[SENSOR_METRICS.AIR_TEMPERATURE]?.value ?? factors.temperature,
+            humidity: readings[SENSOR_METRICS.HUMIDITY]?.value ?? factors.humidity,
+            soilMoisture: measuredMoisture
+                ? measuredMoisture.value / 100
+                : await this.waterBalanceService.getPlantSoilMoisture(plant)
+        };
+    }
+
+    /**
+     * Checks recent conditions against the ranges that favour a problem
+     * Conditions that are not known do not favour it
+     * @private
+     */
+    private conditionsFavour(ranges: IDiagnosisConditions | undefined, conditions: IHealthConditions): boolean {
+        if (!ranges) {
+            return true;
+        }
+
+        const within = (value: number | undefined, min?: number, max?: number): boolean => {
+            if (min === undefined && max === undefined) {
+                return true;
+            }
+            return value !== undefined
+                && (min === undefined || value >= min)
+                && (max === undefined || value <= max);
+        };
+
+        return within(conditions.temperature, ranges.minTemperature, ranges.maxTemperature)
+            && within(conditions.humidity, ranges.minHumidity, ranges.maxHumidity)
+            && within(conditions.soilMoisture, ranges.minSoilMoisture, ranges.maxSoilMoisture);
+    }
+
+    /**
+     * Raises a problem's severity to what the affected share of the plant calls for
+     * @private
+     */
+    private raiseSeverity(severity: ProblemSeverity, affectedPercent: number): ProblemSeverity {
+        let floor: ProblemSeverity = PROBLEM_SEVERITY.LOW;
+        if (affectedPercent >= PLANT_HEALTH_DEFAULTS.HIGH_AFFECTED_PERCENT) {
+            floor = PROBLEM_SEVERITY.HIGH;
+        } else if (affectedPercent >= PLANT_HEALTH_DEFAULTS.MODERATE_AFFECTED_PERCENT) {
+            floor = PROBLEM_SEVERITY.MODERATE;
+        }
+
+        return SEVERITY_ORDER[Math.max(SEVERITY_ORDER.indexOf(severity), SEVERITY_ORDER.indexOf(floor))];
+    }
+
+    /**
+     * Validates and normalises submitted observation details
+     * @private
+     */
+    private validateObservation(
+        input: IPlantObservationInput,
+        now: Date
+    ): Omit<IPlantObservation, 'id' | 'plantId' | 'gardenId' | 'createdAt'> {
+        const symptoms = input.symptoms ?? [];
+        const pests = input.pests ?? [];
+        const notes = typeof input.notes === 'string' ? input.notes.trim() : undefined;
+        const photos = input.photos ?? [];
+
+        if (!Array.isArray(symptoms) || symptoms.some(symptom => !Object.values(PLANT_SYMPTOMS).includes(symptom))) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.UNKNOWN_SYMPTOM);
+        }
+        if (!Array.isArray(pests) || pests.some(pest => !Object.values(PLANT_PESTS).includes(pest))) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.UNKNOWN_PEST);
+        }
+        if (notes && notes.length > PLANT_HEALTH_LIMITS.MAX_NOTES_LENGTH) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.INVALID_NOTES);
+        }
+        if (!symptoms.length && !pests.length && !notes) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.EMPTY_OBSERVATION);
+        }
+        if (input.affectedPercent !== undefined
+            && (typeof input.affectedPercent !== 'number' || !(input.affectedPercent >= 0 && input.affectedPercent <= 100))) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.INVALID_AFFECTED_PERCENT);
+        }
+        if (!Array.isArray(photos) || photos.length > PLANT_HEALTH_LIMITS.MAX_PHOTOS) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.TOO_MANY_PHOTOS);
+        }
+
+        const observedAt = input.observedAt !== undefined ? new Date(input.observedAt) : now;
+        if (isNaN(observedAt.getTime()) || observedAt > now) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.INVALID_OBSERVED_AT);
+        }
+
+        return {
+            symptoms: [...new Set(symptoms)],
+            pests: [...new Set(pests)],
+            affectedPercent: input.affectedPercent,
+            notes: notes || undefined,
+            photos: photos.map(photo => this.validatePhoto(photo)),
+            observedAt
+        };
+    }
+
+    /**
+     * Validates the metadata of a photo taken with an observation
+     * @private
+     */
+    private validatePhoto(photo: IPlantPhoto): IPlantPhoto {
+        const url = typeof photo?.url === 'string' ? photo.url.trim() : '';
+        const caption = typeof photo?.caption === 'string' ? photo.caption.trim() : undefined;
+        const takenAt = photo?.takenAt !== undefined ? new Date(photo.takenAt) : undefined;
+
+        if (!url || url.length > PLANT_HEALTH_LIMITS.MAX_PHOTO_URL_LENGTH
+            || (caption && caption.length > PLANT_HEALTH_LIMITS.MAX_CAPTION_LENGTH)
+            || (takenAt && isNaN(takenAt.getTime()))) {
+            throw new BadRequestError(PLANT_HEALTH_ERRORS.INVALID_PHOTO);
+        }
+
+        return {
+            url,
+            caption: caption || undefined,
+            contentType: typeof photo.contentType === 'string' ? photo.contentType : undefined,
+            takenAt
+        };
+    }
+
+    /**
+     * Retrieves the observations that count towards a diagnosis
+     * @private
+     */
+    private async findRecentObservations(plantId: string, now: Date): Promise<IPlantObservation[]> {
+        return this.plantHealthRepository.findObservations(plantId, {
+            since: moment(now).subtract(PLANT_HEALTH_DEFAULTS.OBSERVATION_WINDOW_DAYS, 'days').toDate()
+        });
+    }
+
+    /**
+     * Collects the distinct symptoms or pests seen across observations
+     * @private
+     */
+    private collectSigns(observations: IPlantObservation[], kind: 'symptoms'): PlantSymptom[];
+    private collectSigns(observations: IPlantObservation[], kind: 'pests'): PlantPest[];
+    private collectSigns(observations: IPlantObservation[], kind: 'symptoms' | 'pests'): string[] {
+        return [...new Set(observations.flatMap(observation => observation[kind] as string[]))];
+    }
+
+    /**
+     * Returns the largest share of the plant affected across observations
+     * @private
+     */
+    private maxAffectedPercent(observations: IPlantObservation[]): number {
+        return Math.max(0, ...observations.map(observation => observation.affectedPercent ?? 0));
+    }
+
+    /**
+     * Retrieves a plant, failing when it does not exist
+     * @private
+     */
+    private async requirePlant(plantId: string): Promise<IPlant> {
+        const plant = await this.plantRepository.getPlantById(plantId);
+        if (!plant) {
+            throw new NotFoundError(`Plant with ID ${plantId} not found`);
+        }
+        return plant;
+    }
+
+    /**
+     * Rounds to two decimals
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
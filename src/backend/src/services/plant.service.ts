@@ -7,24 +7,22 @@
 import { Injectable } from '@nestjs/common'; // ^8.0.0
 import { Logger } from '@nestjs/common'; // ^8.0.0
 import { PlantRepository } from '../repositories/plant.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantCatalogService } from './plant-catalog.service';
+import { ClimateService } from './climate.service';
+import { WeatherService } from './weather/weather.service';
+import { WaterBalanceService } from './water-balance.service';
+import { SensorService } from './sensor.service';
+import { PlantHealthService } from './plant-health.service';
 import { IPlant, IPlantCareSchedule } from '../interfaces/plant.interface';
+import { IEnvironmentalFactors } from '../interfaces/weather.interface';
 import {
-    PLANT_TYPES,
     GROWTH_STAGES,
-    SUNLIGHT_REQUIREMENTS,
-    DEFAULT_PLANT_SPACING,
-    DAYS_TO_MATURITY,
-    WATERING_FREQUENCY_DAYS,
-    FERTILIZING_FREQUENCY_DAYS,
-    COMPANION_PLANTS
+    SUNLIGHT_REQUIREMENTS
 } from '../constants/plant.constants';
-
-interface EnvironmentalFactors {
-    temperature: number;
-    humidity: number;
-    rainfall: number;
-    windSpeed: number;
-}
+import { PLANTING_DATE_STATUS } from '../constants/climate.constants';
+import { DEFAULT_ENVIRONMENTAL_FACTORS } from '../constants/weather.constants';
+import { SENSOR_METRICS } from '../constants/sensor.constants';
 
 interface SoilConditions {
     moisture: number;
@@ -40,41 +38,59 @@ interface SoilConditions {
 export class PlantService {
     constructor(
         private readonly plantRepository: PlantRepository,
-        private readonly logger: Logger
+        private readonly logger: Logger,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly gardenRepository: GardenRepository,
+        private readonly climateService: ClimateService,
+        private readonly weatherService: WeatherService,
+        private readonly waterBalanceService: WaterBalanceService,
+        private readonly sensorService: SensorService,
+        private readonly plantHealthService: PlantHealthService
     ) {
         this.logger.setContext('PlantService');
     }
 
     /**
      * Creates a new plant with initial growth stage and environmental baseline
+     * Plant traits are taken from the plant catalog entry for the plant type, and plants
+     * set out in a garden are checked against the frost-safe window for its climate
      * @param plantData Plant creation data
      * @returns Promise<IPlant> Created plant record
      */
     async createPlant(plantData: IPlant): Promise<IPlant> {
         try {
+            const catalogEntry = this.plantCatalog.requireEntry(plantData.type);
+
             // Validate spacing requirements
-            if (plantData.spacing < DEFAULT_PLANT_SPACING[plantData.type]) {
-                throw new Error(`Insufficient spacing for ${plantData.type}. Minimum: ${DEFAULT_PLANT_SPACING[plantData.type]} inches`);
+            if (plantData.spacing < catalogEntry.defaultSpacing) {
+                throw new Error(`Insufficient spacing for ${plantData.type}. Minimum: ${catalogEntry.defaultSpacing} inches`);
             }
 
             // Validate companion planting compatibility
             if (plantData.companionPlants) {
                 const invalidCompanions = plantData.companionPlants.filter(
-                    companion => !COMPANION_PLANTS[plantData.type].includes(companion)
+                    companion => !catalogEntry.companionPlants.includes(companion)
                 );
                 if (invalidCompanions.length > 0) {
                     throw new Error(`Incompatible companion plants: ${invalidCompanions.join(', ')}`);
                 }
             }
 
+            // Block set-out dates exposed to frost and warn about late ones
+            const plantedDate = plantData.plantedDate ? new Date(plantData.plantedDate) : new Date();
+            const plantingWarnings = await this.checkPlantingWindow(plantData, plantedDate);
+
             // Set initial growth parameters
             const initialPlant: IPlant = {
                 ...plantData,
                 growthStage: GROWTH_STAGES.SEEDLING,
-                plantedDate: new Date(),
+                plantedDate,
+                plantingWarnings: plantingWarnings.length > 0 ? plantingWarnings : undefined,
                 lastWateredDate: new Date(),
                 lastFertilizedDate: new Date(),
-                daysToMaturity: DAYS_TO_MATURITY[plantData.type]
+                daysToMaturity: catalogEntry.daysToMaturity,
+                wateringFrequencyDays: catalogEntry.wateringFrequencyDays,
+                fertilizingFrequencyDays: catalogEntry.fertilizingFrequencyDays
             };
 
             const createdPlant = await this.plantRepository.createPlant(initialPlant);
@@ -94,7 +110,7 @@ export class PlantService {
      */
     async updateGrowthStage(
         plantId: string,
-        environmentalFactors: EnvironmentalFactors
+        environmentalFactors: IEnvironmentalFactors
     ): Promise<IPlant> {
         try {
             const healthIndicators = await this.assessPlantHealth(plantId, environmentalFactors);
@@ -132,8 +148,8 @@ export class PlantService {
                 throw new Error(`Plant not found: ${plantId}`);
             }
 
-            const environmentalFactors = await this.getCurrentEnvironmentalFactors(plantId);
-            const soilConditions = await this.getCurrentSoilConditions(plantId);
+            const environmentalFactors = await this.getCurrentEnvironmentalFactors(plant);
+            const soilConditions = await this.getCurrentSoilConditions(plant);
 
             let nextDate: Date;
             if (careType === 'watering') {
@@ -151,7 +167,39 @@ export class PlantService {
     }
 
     /**
-     * Assesses current plant health based on environmental conditions
+     * Checks a set-out date against the frost-safe window of the plant's garden
+     * @private
+     * @param plantData Plant creation data
+     * @param plantedDate Set-out date
+     * @returns Warnings for dates after the safe window; throws for blocked dates
+     */
+    private async checkPlantingWindow(plantData: IPlant, plantedDate: Date): Promise<string[]> {
+        if (!plantData.gardenId) {
+            return [];
+        }
+
+        const garden = await this.gardenRepository.getGardenById(plantData.gardenId);
+        if (!garden) {
+            throw new Error(`Garden not found: ${plantData.gardenId}`);
+        }
+
+        const climate = this.climateService.resolveClimate(garden);
+        if (!climate) {
+            return [];
+        }
+
+        const check = this.climateService.checkPlantingDate(climate, plantData.type, plantedDate);
+        if (check.status === PLANTING_DATE_STATUS.BLOCKED) {
+            throw new Error(check.message);
+        }
+
+        return check.message ? [check.message] : [];
+    }
+
+    /**
+     * Assesses current plant health from recent observations and environmental conditions
+     * Leaf colour, pests and symptoms are what gardeners recorded over the last two weeks;
+     * stem strength is estimated from wind and humidity
      * @private
      * @param plantId Plant identifier
      * @param environmentalFactors Current environmental conditions
@@ -159,53 +207,67 @@ export class PlantService {
      */
     private async assessPlantHealth(
         plantId: string,
-        environmentalFactors: EnvironmentalFactors
+        environmentalFactors: IEnvironmentalFactors
     ): Promise<any> {
         const plant = await this.plantRepository.getPlantById(plantId);
         if (!plant) {
             throw new Error(`Plant not found: ${plantId}`);
         }
 
-        // Calculate stress factors
-        const temperatureStress = environmentalFactors.temperature < 10 || environmentalFactors.temperature > 35;
-        const humidityStress = environmentalFactors.humidity < 20;
         const windStress = environmentalFactors.windSpeed > 30;
+        const observed = await this.plantHealthService.getObservedHealth(plantId);
 
         return {
-            leafColor: this.determineLeafColor(temperatureStress, humidityStress),
+            leafColor: observed.leafColor,
             stemStrength: this.calculateStemStrength(windStress, environmentalFactors.humidity),
-            pestPresence: false, // Would be determined by sensor data in a real system
-            diseaseSymptoms: this.checkDiseaseSymptoms(temperatureStress, humidityStress)
+            pestPresence: observed.pestPresence,
+            diseaseSymptoms: observed.diseaseSymptoms
         };
     }
 
     /**
-     * Retrieves current environmental conditions for a plant
+     * Retrieves today's forecast conditions for a plant's garden
+     * Air temperature and humidity measured by sensors at the plant replace the forecast
      * @private
-     * @param plantId Plant identifier
-     * @returns Environmental factors
+     * @param plant Plant record
+     * @returns Environmental factors; defaults for plants outside a garden
      */
-    private async getCurrentEnvironmentalFactors(plantId: string): Promise<EnvironmentalFactors> {
-        // In a real system, this would fetch data from environmental sensors
+    private async getCurrentEnvironmentalFactors(plant: IPlant): Promise<IEnvironmentalFactors> {
+        if (!plant.gardenId) {
+            return { ...DEFAULT_ENVIRONMENTAL_FACTORS };
+        }
+
+        const [factors, readings] = await Promise.all([
+            this.weatherService.getGardenConditions(plant.gardenId),
+            this.sensorService.getPlantReadings(plant)
+        ]);
+
         return {
-            temperature: 25, // Default optimal temperature
-            humidity: 60,    // Default optimal humidity
-            rainfall: 0,     // Default no rainfall
-            windSpeed: 5     // Default light breeze
+            ...factors,
+            temperature: readings[SENSOR_METRICS.AIR_TEMPERATURE]?.value ?? factors.temperature,
+            humidity: readings[SENSOR_METRICS.HUMIDITY]?.value ?? factors.humidity
         };
     }
 
     /**
      * Retrieves current soil conditions for a plant
+     * Moisture and pH measured by sensors at the plant are used where available; otherwise
+     * moisture is the share of its capacity the plant's zone holds in its water balance
      * @private
-     * @param plantId Plant identifier
+     * @param plant Plant record
      * @returns Soil conditions
      */
-    private async getCurrentSoilConditions(plantId: string): Promise<SoilConditions> {
-        // In a real system, this would fetch data from soil sensors
+    private async getCurrentSoilConditions(plant: IPlant): Promise<SoilConditions> {
+        const readings = await this.sensorService.getPlantReadings(plant);
+        const measuredMoisture = readings[SENSOR_METRICS.SOIL_MOISTURE];
+        const moisture = measuredMoisture
+            ? measuredMoisture.value / 100
+            : await this.waterBalanceService.getPlantSoilMoisture(plant);
+
+        // Nutrients are not measured by the supported sensors
         return {
-            moisture: 0.6,   // Default optimal moisture
-            pH: 6.5,         // Default optimal pH
+            moisture: moisture ?? 0.6,   // Default optimal moisture for plants in no zone
+            pH: readings[SENSOR_METRICS.SOIL_PH]?.value ?? 6.5,   // Default optimal pH
             nutrients: {
                 nitrogen: 0.5,    // Default moderate nitrogen
                 phosphorus: 0.5,  // Default moderate phosphorus
@@ -214,23 +276,10 @@ export class PlantService {
         };
     }
 
-    private determineLeafColor(temperatureStress: boolean, humidityStress: boolean): string {
-        if (temperatureStress && humidityStress) return 'yellow';
-        if (temperatureStress || humidityStress) return 'light-green';
-        return 'green';
-    }
-
     private calculateStemStrength(windStress: boolean, humidity: number): number {
         let strength = 1.0;
         if (windStress) strength *= 0.8;
         if (humidity < 40) strength *= 0.9;
         return Math.max(0.5, strength);
     }
-
-    private checkDiseaseSymptoms(temperatureStress: boolean, humidityStress: boolean): string[] {
-        const symptoms: string[] = [];
-        if (temperatureStress) symptoms.push('leaf-wilt');
-        if (humidityStress) symptoms.push('powdery-mildew');
-        return symptoms;
-    }
 }
\ No newline at end of file
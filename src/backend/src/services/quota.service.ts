@@ -0,0 +1,217 @@
+/**
+ * Quota Service
+ * @packageVersion 5.0
+ *
+ * Enforces the limits securityConfig.authorization.roles puts on each role: the gardens a
+ * user may own (maxGardens) and the pending tasks across them (maxSchedules), and the
+ * features reserved to roles with use:advanced_features. Limits follow the role stored on
+ * the user's account rather than the one in their token, so upgrades apply at once.
+ * Gardens shared with a user count against the owner only. Limited records are created in
+ * the transaction that counts them, which first writes the owner's account so concurrent
+ * creations for the same owner are retried one after the other rather than both passing.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ClientSession } from 'mongoose';
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { IQuotaExceeded, IQuotaLimit, IQuotaUsage } from '../interfaces/quota.interface';
+import { securityConfig, UserRole } from '../config/security.config';
+import { ERROR_CODES } from '../constants/error.constants';
+import {
+    ADVANCED_FEATURES_PERMISSION,
+    QUOTA_ERRORS,
+    QUOTA_RESOURCES,
+    UNLIMITED_QUOTA
+} from '../constants/quota.constants';
+
+/**
+ * Error refusing an operation that would take a user past the limit of their role
+ * The code and details are returned to the client by the error middleware
+ */
+export class QuotaExceededError extends Error {
+    readonly code = ERROR_CODES.QUOTA_EXCEEDED;
+    readonly retryable = false;
+
+    constructor(message: string, readonly details: IQuotaExceeded) {
+        super(message);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+@Injectable()
+export class QuotaService {
+    private readonly logger = new Logger(QuotaService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly userRepository: UserRepository
+    ) {}
+
+    /**
+     * Reports the limits of a user's role and how much of them is used
+     * @param userId User identifier
+     * @returns Promise<IQuotaUsage> Usage against the limits
+     */
+    async getUsage(userId: string): Promise<IQuotaUsage> {
+        const role = await this.getRole(userId);
+        const { maxGardens, maxSchedules } = securityConfig.authorization.roles[role];
+        const [gardens, schedules] = await Promise.all([
+            this.gardenRepository.countOwnedGardens(userId),
+            this.countPendingSchedules(userId)
+        ]);
+
+        return {
+            userId,
+            role,
+            gardens: this.toLimit(gardens, maxGardens),
+            schedules: this.toLimit(schedules, maxSchedules),
+            advancedFeatures: this.grantsAdvancedFeatures(role)
+        };
+    }
+
+    /**
+     * Creates a garden within the garden limit of its owner
+     * @param ownerId User who will own the garden
+     * @param create Stores the garden in the transaction it is given
+     * @returns Promise<T> Result of create
+     * @throws QuotaExceededError when the user owns as many gardens as their role allows
+     */
+    async createWithinGardenQuota<T>(ownerId: string, create: (session: ClientSession) => Promise<T>): Promise<T> {
+        const role = await this.getRole(ownerId);
+        return this.userRepository.withUserLock(ownerId, async session => {
+            await this.requireGardenQuota(ownerId, role, session);
+            return create(session);
+        });
+    }
+
+    /**
+     * Creates tasks in a garden without taking its owner past their pending task limit
+     * Gardens without an owner, such as vacant site plots, are not limited
+     * @param gardenId Garden the tasks are added to
+     * @param count Number of tasks added
+     * @param create Stores the tasks in the transaction it is given
+     * @returns Promise<T> Result of create
+     * @throws QuotaExceededError when the owner's pending tasks would exceed their role's limit
+     */
+    async createWithinScheduleQuota<T>(
+        gardenId: string,
+        count: number,
+        create: (session: ClientSession) => Promise<T>
+    ): Promise<T> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        const ownerId = garden?.ownerId;
+        const role = ownerId ? await this.getRole(ownerId) : undefined;
+
+        return this.userRepository.withUserLock(ownerId, async session => {
+            if (ownerId && role) {
+                await this.requireScheduleQuota(gardenId, ownerId, role, count, session);
+            }
+            return create(session);
+        });
+    }
+
+    /**
+     * Checks whether a user's role may use advanced features, such as companion-aware layouts
+     * @param userId User identifier; gardens without an owner get the basic features
+     * @returns Promise<boolean> Whether advanced features are available
+     */
+    async canUseAdvancedFeatures(userId?: string): Promise<boolean> {
+        if (!userId) {
+            return false;
+        }
+        return this.grantsAdvancedFeatures(await this.getRole(userId));
+    }
+
+    /**
+     * Retrieves the role of a user; accounts not found get the basic role
+     * @private
+     */
+    private async getRole(userId: string): Promise<UserRole> {
+        const user = await this.userRepository.getUserById(userId);
+        return user?.role && securityConfig.authorization.roles[user.role] ? user.role : 'user';
+    }
+
+    /**
+     * Ensures a user may create one more garden
+     * @private
+     */
+    private async requireGardenQuota(ownerId: string, role: UserRole, session: ClientSession): Promise<void> {
+        const limit = securityConfig.authorization.roles[role].maxGardens;
+        if (limit === UNLIMITED_QUOTA) {
+            return;
+        }
+
+        const used = await this.gardenRepository.countOwnedGardens(ownerId, session);
+        if (used + 1 > limit) {
+            this.logger.warn(`User ${ownerId} reached the garden limit of the ${role} role`);
+            throw new QuotaExceededError(QUOTA_ERRORS.GARDEN_LIMIT_REACHED, {
+                resource: QUOTA_RESOURCES.GARDENS,
+                role,
+                limit,
+                used,
+                requested: 1
+            });
+        }
+    }
+
+    /**
+     * Ensures tasks may be added to a garden without taking its owner past their limit
+     * @private
+     */
+    private async requireScheduleQuota(
+        gardenId: string,
+        ownerId: string,
+        role: UserRole,
+        count: number,
+        session: ClientSession
+    ): Promise<void> {
+        const limit = securityConfig.authorization.roles[role].maxSchedules;
+        if (limit === UNLIMITED_QUOTA || count <= 0) {
+            return;
+        }
+
+        const used = await this.countPendingSchedules(ownerId, session);
+        if (used + count > limit) {
+            this.logger.warn(`Owner ${ownerId} of garden ${gardenId} reached the task limit of the ${role} role`);
+            throw new QuotaExceededError(QUOTA_ERRORS.SCHEDULE_LIMIT_REACHED, {
+                resource: QUOTA_RESOURCES.SCHEDULES,
+                role,
+                limit,
+                used,
+                requested: count
+            });
+        }
+    }
+
+    /**
+     * Checks whether a role holds the advanced features permission
+     * @private
+     */
+    private grantsAdvancedFeatures(role: UserRole): boolean {
+        const permissions: readonly string[] = securityConfig.authorization.roles[role].permissions;
+        return permissions.includes(ADVANCED_FEATURES_PERMISSION);
+    }
+
+    /**
+     * Counts the pending tasks across the gardens a user owns
+     * @private
+     */
+    private async countPendingSchedules(ownerId: string, session?: ClientSession): Promise<number> {
+        const gardenIds = await this.gardenRepository.getOwnedGardenIds(ownerId, session);
+        return this.scheduleRepository.countPendingSchedules(gardenIds, session);
+    }
+
+    /**
+     * Builds the usage of a resource against a limit
+     * @private
+     */
+    private toLimit(used: number, limit: number): IQuotaLimit {
+        if (limit === UNLIMITED_QUOTA) {
+            return { used, limit: null, remaining: null };
+        }
+        return { used, limit, remaining: Math.max(0, limit - used) };
+    }
+}
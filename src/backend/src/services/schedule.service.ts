@@ -1,19 +1,24 @@
 import { Injectable } from '@nestjs/common'; // ^8.0.0
 import moment from 'moment'; // ^2.29.0
 import { Cache } from 'cache-manager'; // ^3.4.0
+import { ClientSession } from 'mongoose'; // ^6.0.0
 
 import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
 import { MaintenanceCalculator } from './scheduling/maintenance-calculator.service';
 import { NotificationSchedulerService } from './scheduling/notification-scheduler.service';
-import { ISchedule, TaskType } from '../interfaces/schedule.interface';
-import { SCHEDULE_ERRORS, SCHEDULE_LIMITS } from '../constants/schedule.constants';
-
-interface EnvironmentalFactors {
-    temperature: number;
-    humidity: number;
-    rainfall: number;
-    windSpeed: number;
-}
+import { HarvestService } from './harvest.service';
+import { WeatherService } from './weather/weather.service';
+import { WaterBalanceService } from './water-balance.service';
+import { QuotaService } from './quota.service';
+import { ISchedule, TaskFrequency, TaskType } from '../interfaces/schedule.interface';
+import { NotificationType } from '../interfaces/notification.interface';
+import { IHarvestCompletion, IHarvestInput } from '../interfaces/harvest.interface';
+import { IIrrigationDelivery } from '../interfaces/irrigation.interface';
+import { IEnvironmentalFactors } from '../interfaces/weather.interface';
+import { RECURRING_TASK_TYPES, SCHEDULE_ERRORS, SCHEDULE_LIMITS } from '../constants/schedule.constants';
+import { HARVEST_ERRORS } from '../constants/harvest.constants';
+import { addressTaskNotification } from '../utils/notification.utils';
 
 /**
  * Enhanced service for managing garden maintenance schedules
@@ -28,20 +33,27 @@ export class ScheduleService {
         private readonly scheduleRepository: ScheduleRepository,
         private readonly maintenanceCalculator: MaintenanceCalculator,
         private readonly notificationScheduler: NotificationSchedulerService,
-        private readonly cacheManager: Cache
+        private readonly cacheManager: Cache,
+        private readonly harvestService: HarvestService,
+        private readonly weatherService: WeatherService,
+        private readonly waterBalanceService: WaterBalanceService,
+        private readonly quotaService: QuotaService,
+        private readonly userRepository: UserRepository
     ) {}
 
     /**
      * Creates a new maintenance schedule with environmental factor consideration
+     * Conditions are taken from the garden's weather forecast unless given. Nothing is created
+     * when the tasks would take the garden's owner past the pending task limit of their role
      * @param gardenId Unique identifier for the garden
      * @param daysAhead Number of days to schedule ahead
-     * @param environmentalFactors Current environmental conditions
+     * @param environmentalFactors Optional conditions overriding the forecast
      * @returns Promise<ISchedule[]> Array of created maintenance schedules
      */
     async createMaintenanceSchedule(
         gardenId: string,
         daysAhead: number,
-        environmentalFactors: EnvironmentalFactors
+        environmentalFactors?: IEnvironmentalFactors
     ): Promise<ISchedule[]> {
         try {
             // Validate input parameters
@@ -65,11 +77,15 @@ export class ScheduleService {
             const schedules = await this.maintenanceCalculator.generateMaintenanceSchedule(
                 gardenId,
                 daysAhead,
-                environmentalFactors
+                environmentalFactors ?? await this.weatherService.getGardenConditions(gardenId)
             );
 
-            // Batch create schedules in repository
-            const createdSchedules = await this.batchCreateSchedules(schedules);
+            // Create the schedules within the owner's pending task limit
+            const createdSchedules = await this.quotaService.createWithinScheduleQuota(
+                gardenId,
+                schedules.length,
+                session => this.createSchedules(schedules, session)
+            );
 
             // Schedule notifications for all maintenance tasks
             await this.scheduleNotifications(createdSchedules);
@@ -112,25 +128,72 @@ export class ScheduleService {
 
     /**
      * Marks task completed and handles next schedule with environmental adjustments
+     * Harvest details given for a harvesting task are added to the harvest log, and a
+     * watering task refills its zone's water balance, which decides the next watering.
+     * A task carried out by an irrigation valve credits the water actually delivered.
+     * Pest control tasks are not repeated; pest pressure raises the next one when needed.
+     * The next occurrence goes back to the garden's pool of unassigned tasks
      * @param scheduleId Unique identifier for the schedule
-     * @param currentFactors Current environmental conditions
-     * @returns Promise<ISchedule> Updated schedule
+     * @param currentFactors Optional conditions overriding the garden's weather forecast
+     * @param harvest Optional weight or count, quality rating and notes of the harvest
+     * @param irrigation Optional valve run and water it delivered for the task
+     * @param completedBy Optional user who did the work, credited in the completion history
+     * @returns Promise<ISchedule> Next schedule, or the completed one when it does not recur
      */
     async markTaskCompleted(
         scheduleId: string,
-        currentFactors: EnvironmentalFactors
+        currentFactors?: IEnvironmentalFactors,
+        harvest?: IHarvestCompletion,
+        irrigation?: IIrrigationDelivery,
+        completedBy?: string
     ): Promise<ISchedule> {
         try {
+            // Check the harvest before completing the task so invalid input leaves it open
+            const harvestInput = harvest
+                ? await this.prepareHarvest(scheduleId, harvest)
+                : undefined;
+
+            const completedDate = new Date();
             const completedSchedule = await this.scheduleRepository.markTaskCompleted(scheduleId, {
-                completedDate: new Date(),
-                notes: `Completed with environmental factors: ${JSON.stringify(currentFactors)}`
+                completedDate,
+                notes: irrigation
+                    ? `Watered by irrigation valve: ${irrigation.deliveredMl} ml delivered`
+                    : currentFactors
+                        ? `Completed with environmental factors: ${JSON.stringify(currentFactors)}`
+                        : undefined,
+                irrigation,
+                completedBy
             });
+            if (harvestInput) {
+                await this.harvestService.recordHarvest(completedSchedule.gardenId, {
+                    ...harvestInput,
+                    harvestedAt: completedDate
+                });
+            }
 
-            // Calculate next maintenance date with environmental factors
-            const nextDate = await this.maintenanceCalculator.calculateNextMaintenanceDate(
+            // Tasks raised as needed, such as the one harvest of a crop lifted at maturity, do not repeat
+            if (!RECURRING_TASK_TYPES.includes(completedSchedule.taskType as TaskType) ||
+                completedSchedule.frequency === TaskFrequency.AS_NEEDED) {
+                await this.cacheManager.del(`${this.CACHE_PREFIX}${completedSchedule.gardenId}`);
+                return completedSchedule;
+            }
+
+            const environmentalFactors = currentFactors
+                ?? await this.weatherService.getGardenConditions(completedSchedule.gardenId, completedDate);
+
+            // Watering follows the plant's zone water balance; other tasks, and plants in no
+            // zone, use the next maintenance date with environmental factors
+            const balanceDate = completedSchedule.taskType === TaskType.WATERING
+                ? await this.waterBalanceService.scheduleNextWatering(
+                    completedSchedule,
+                    completedDate,
+                    irrigation?.deliveredMl
+                )
+                : undefined;
+            const nextDate = balanceDate ?? await this.maintenanceCalculator.calculateNextMaintenanceDate(
                 completedSchedule.plantId,
                 completedSchedule.taskType as TaskType,
-                currentFactors
+                environmentalFactors
             );
 
             // Create next schedule
@@ -139,8 +202,11 @@ export class ScheduleService {
                 id: undefined,
                 completed: false,
                 completedDate: null,
+                completedBy: undefined,
+                assigneeId: undefined,
+                assignedAt: undefined,
                 dueDate: nextDate,
-                environmentalFactors: currentFactors
+                environmentalFactors
             });
 
             // Schedule notification for next task
@@ -169,22 +235,42 @@ export class ScheduleService {
     }
 
     /**
-     * Creates schedules in batches for better performance
+     * Builds the harvest log entry for a harvesting task being completed
+     * @param scheduleId Unique identifier for the schedule
+     * @param harvest Harvest details given with the completion
+     * @returns Promise<IHarvestInput> Validated harvest input for the task's plant
+     */
+    private async prepareHarvest(scheduleId: string, harvest: IHarvestCompletion): Promise<IHarvestInput> {
+        const schedule = await this.scheduleRepository.getScheduleById(scheduleId);
+        if (!schedule) {
+            throw new Error(SCHEDULE_ERRORS.SCHEDULE_NOT_FOUND);
+        }
+
+        if (schedule.taskType !== TaskType.HARVESTING) {
+            throw new Error(HARVEST_ERRORS.NOT_A_HARVEST_TASK);
+        }
+
+        const harvestInput: IHarvestInput = {
+            ...harvest,
+            plantId: schedule.plantId,
+            scheduleId
+        };
+        this.harvestService.validateHarvestInput(harvestInput);
+
+        return harvestInput;
+    }
+
+    /**
+     * Creates schedules one after the other in a transaction, which runs one operation at a time
      * @param schedules Array of schedules to create
+     * @param session Transaction the schedules are created in
      * @returns Promise<ISchedule[]> Created schedules
      */
-    private async batchCreateSchedules(schedules: Partial<ISchedule>[]): Promise<ISchedule[]> {
-        const batchSize = 100;
+    private async createSchedules(schedules: Partial<ISchedule>[], session: ClientSession): Promise<ISchedule[]> {
         const createdSchedules: ISchedule[] = [];
-
-        for (let i = 0; i < schedules.length; i += batchSize) {
-            const batch = schedules.slice(i, i + batchSize);
-            const batchResults = await Promise.all(
-                batch.map(schedule => this.scheduleRepository.createSchedule(schedule))
-            );
-            createdSchedules.push(...batchResults);
+        for (const schedule of schedules) {
+            createdSchedules.push(await this.scheduleRepository.createSchedule(schedule, session));
         }
-
         return createdSchedules;
     }
 
@@ -193,19 +279,22 @@ export class ScheduleService {
      * @param schedules Array of schedules requiring notifications
      */
     private async scheduleNotifications(schedules: ISchedule[]): Promise<void> {
-        const notifications = schedules.map(schedule => ({
+        // Assigned tasks remind only their assignee
+        const deviceTokens = await this.userRepository.getDeviceTokens(
+            schedules.filter(schedule => schedule.assigneeId).map(schedule => schedule.assigneeId!)
+        );
+        const notifications = schedules.flatMap(schedule => addressTaskNotification({
             title: 'Maintenance Reminder',
             body: `Time for ${schedule.taskType} in your garden`,
-            type: 'MAINTENANCE_REMINDER',
+            type: NotificationType.MAINTENANCE_REMINDER,
             data: {
-                scheduleId: schedule.id,
-                token: schedule.gardenId // Using gardenId as device token for example
+                scheduleId: schedule.id
             },
             priority: 'high',
             gardenZone: schedule.gardenId,
             plantType: schedule.plantId,
             scheduledTime: schedule.dueDate
-        }));
+        }, schedule, deviceTokens));
 
         await this.notificationScheduler.scheduleBatchNotifications(notifications, new Date());
     }
@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import moment from 'moment';
 import { ISchedule, TaskType } from '../../interfaces/schedule.interface';
 import { Plant } from '../../models/plant.model';
-import { TASK_INTERVALS, TASK_PRIORITIES, SCHEDULE_LIMITS, SCHEDULE_ERRORS } from '../../constants/schedule.constants';
+import { TASK_INTERVALS, TASK_PRIORITIES, SCHEDULE_LIMITS, SCHEDULE_ERRORS, RECURRING_TASK_TYPES } from '../../constants/schedule.constants';
 import { GROWTH_STAGES } from '../../constants/plant.constants';
 
 /**
@@ -99,9 +99,10 @@ export class MaintenanceCalculator {
         }
 
         const schedules: ISchedule[] = [];
-        const taskTypes = Object.values(TaskType);
-
-        // Generate schedules for each task type in parallel
+        // Generate schedules for each recurring task type in parallel; plants are only
+        // harvested regularly once they have been advanced to the harvesting stage
+        const taskTypes = RECURRING_TASK_TYPES.filter(taskType =>
+            taskType !== TaskType.HARVESTING || plant.growthStage === GROWTH_STAGES.HARVESTING);
         const schedulePromises = taskTypes.map(async taskType => {
             let currentDate = moment().startOf('day');
             const endDate = moment().add(daysAhead, 'days');
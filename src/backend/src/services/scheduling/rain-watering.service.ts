@@ -0,0 +1,464 @@
+import { Injectable, Logger } from '@nestjs/common'; // ^8.0.0
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+
+import { ScheduleRepository } from '../../repositories/schedule.repository';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { PlantRepository } from '../../repositories/plant.repository';
+import { RainfallRepository } from '../../repositories/rainfall.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { PlantCatalogService } from '../plant-catalog.service';
+import { WeatherService } from '../weather/weather.service';
+import { NotificationSchedulerService } from './notification-scheduler.service';
+import {
+    IRainAdjustment,
+    IRainfallRecordResult,
+    ISchedule,
+    TaskType
+} from '../../interfaces/schedule.interface';
+import { IPlant } from '../../interfaces/plant.interface';
+import { IRainfallObservationInput, IWeatherForecast } from '../../interfaces/weather.interface';
+import { INotificationPayload, NotificationType } from '../../interfaces/notification.interface';
+import { RAIN_ADJUSTMENT_ACTIONS, RAIN_RESCHEDULING, RainAdjustmentAction } from '../../constants/schedule.constants';
+import { WEATHER_DEFAULTS, WEATHER_ERRORS } from '../../constants/weather.constants';
+import { BadRequestError, NotFoundError } from '../../utils/error.utils';
+import { addressTaskNotification } from '../../utils/notification.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const METRES_PER_INCH = 0.0254;
+
+/**
+ * Water a plant needs, as rain over its spacing footprint
+ */
+interface WaterBudget {
+    frequencyDays: number;
+    dailyDemandMm: number;
+}
+
+/**
+ * Rain credited to a plant and the date it needs watering again
+ */
+interface RainCredit {
+    creditedFrom: Date;
+    observedMm: number;
+    forecastMm: number;
+    coveredDays: number;
+    wateringDueBy: Date;
+}
+
+/**
+ * Service skipping and postponing pending watering tasks while rain keeps plants watered
+ * Rain observed since a plant was last watered, and a discounted share of the forecast, is
+ * credited against the plant's daily water demand over its spacing footprint. Garden tasks
+ * are reviewed hourly and whenever rainfall is recorded, and the gardener is told of changes
+ * @version 1.0.0
+ */
+@Injectable()
+export class RainWateringService {
+    private readonly logger = new Logger(RainWateringService.name);
+
+    constructor(
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly rainfallRepository: RainfallRepository,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly weatherService: WeatherService,
+        private readonly notificationScheduler: NotificationSchedulerService,
+        private readonly userRepository: UserRepository
+    ) {}
+
+    /**
+     * Reviews the pending watering tasks of every garden against the latest rain and forecasts
+     * A failing garden is logged and does not stop the others from being reviewed
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async handleRainfallUpdates(): Promise<void> {
+        const now = new Date();
+        const schedules = await this.getPendingWatering(now);
+
+        for (const [gardenId, gardenSchedules] of this.groupBy(schedules, schedule => schedule.gardenId)) {
+            try {
+                await this.reviewGarden(gardenId, gardenSchedules, now);
+            } catch (error) {
+                this.logger.error(`Failed to review watering for garden ${gardenId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Records rain measured at a garden and reviews the garden's pending watering tasks
+     * @param gardenId Garden identifier
+     * @param input Rain measured and when the measurement ended
+     * @param now Current time
+     * @returns Promise<IRainfallRecordResult> Stored observation and the adjusted watering tasks
+     */
+    async recordRainfall(
+        gardenId: string,
+        input: IRainfallObservationInput,
+        now: Date = new Date()
+    ): Promise<IRainfallRecordResult> {
+        const rainfallMm = Number(input?.rainfallMm);
+        if (!Number.isFinite(rainfallMm) || rainfallMm < 0 || rainfallMm > WEATHER_DEFAULTS.MAX_RAINFALL_MM) {
+            throw new BadRequestError(WEATHER_ERRORS.INVALID_RAINFALL);
+        }
+
+        const observedAt = input.observedAt ? new Date(input.observedAt) : now;
+        if (Number.isNaN(observedAt.getTime()) || observedAt > now) {
+            throw new BadRequestError(WEATHER_ERRORS.INVALID_OBSERVATION_DATE);
+        }
+
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+
+        const observation = await this.rainfallRepository.create({
+            gardenId,
+            observedAt,
+            rainfallMm,
+            source: input.source
+        });
+        const adjustedSchedules = await this.rescheduleGarden(gardenId, now);
+
+        return { observation, adjustedSchedules };
+    }
+
+    /**
+     * Skips, postpones or restores a garden's pending watering tasks for rain
+     * @param gardenId Garden identifier
+     * @param now Current time
+     * @returns Promise<ISchedule[]> Watering tasks that were adjusted
+     */
+    async rescheduleGarden(gardenId: string, now: Date = new Date()): Promise<ISchedule[]> {
+        const schedules = await this.getPendingWatering(now, gardenId);
+        return this.reviewGarden(gardenId, schedules, now);
+    }
+
+    /**
+     * Retrieves pending watering tasks from recently overdue to the end of the lookahead
+     * @private
+     */
+    private getPendingWatering(now: Date, gardenId?: string): Promise<ISchedule[]> {
+        return this.scheduleRepository.getPendingTasks(
+            moment(now).subtract(RAIN_RESCHEDULING.OVERDUE_DAYS, 'days').toDate(),
+            moment(now).add(RAIN_RESCHEDULING.LOOKAHEAD_DAYS, 'days').toDate(),
+            { gardenId, taskTypes: [TaskType.WATERING] }
+        );
+    }
+
+    /**
+     * Reviews a garden's pending watering tasks plant by plant and notifies the changes
+     * @private
+     */
+    private async reviewGarden(gardenId: string, schedules: ISchedule[], now: Date): Promise<ISchedule[]> {
+        if (!schedules.length) {
+            return [];
+        }
+
+        const forecast = await this.getForecast(gardenId);
+        const adjusted: ISchedule[] = [];
+        const changes: Array<{ notification: INotificationPayload; tasks: ISchedule[] }> = [];
+
+        for (const [plantId, plantSchedules] of this.groupBy(schedules, schedule => schedule.plantId)) {
+            const plant = await this.plantRepository.getPlantById(plantId);
+            const budget = plant ? this.getWaterBudget(plant) : undefined;
+            if (!plant || !budget) {
+                this.logger.warn(`No water demand known for plant ${plantId}; watering left as scheduled`);
+                continue;
+            }
+
+            const tasks = [...plantSchedules].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+            const credit = await this.creditRain(gardenId, plant, tasks[0], budget, forecast, now);
+            const plantAdjusted = await this.adjustTasks(tasks, credit, now);
+            if (plantAdjusted.length) {
+                adjusted.push(...plantAdjusted);
+                changes.push({ notification: this.buildNotification(plant, plantAdjusted, now), tasks: plantAdjusted });
+            }
+        }
+
+        const notifications = await this.addressNotifications(changes);
+        if (notifications.length) {
+            await this.notificationScheduler.scheduleBatchNotifications(notifications, now);
+            this.logger.log(`Adjusted ${adjusted.length} watering tasks in garden ${gardenId} for rain`);
+        }
+
+        return adjusted;
+    }
+
+    /**
+     * Retrieves the garden forecast, going on with observed rain only when none is available
+     * @private
+     */
+    private async getForecast(gardenId: string): Promise<IWeatherForecast | undefined> {
+        try {
+            return await this.weatherService.getGardenForecast(gardenId);
+        } catch (error) {
+            this.logger.warn(`No forecast for garden ${gardenId}: ${error.message}; using observed rain only`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Works out a plant's daily water demand in millimetres of rain over its spacing footprint
+     * @private
+     */
+    private getWaterBudget(plant: IPlant): WaterBudget | undefined {
+        const entry = this.plantCatalog.getEntry(plant.type);
+        const frequencyDays = plant.wateringFrequencyDays ?? entry?.wateringFrequencyDays;
+        const dailyMl = plant.waterRequirementMl ?? entry?.waterRequirementMl;
+        const spacing = plant.spacing ?? entry?.defaultSpacing;
+        if (!frequencyDays || frequencyDays <= 0 || !dailyMl || dailyMl <= 0 || !spacing || spacing <= 0) {
+            return undefined;
+        }
+
+        const footprintM2 = Math.pow(spacing * METRES_PER_INCH, 2);
+        // One millimetre of rain over one square metre is one litre
+        return { frequencyDays, dailyDemandMm: dailyMl / (footprintM2 * 1000) };
+    }
+
+    /**
+     * Credits the rain since a plant was last watered and works out when it needs water again
+     * The plant counts as watered when the task before its first pending one was due, unless
+     * it was watered later or an earlier adjustment recorded when rain started to count.
+     * Forecast rain only counts up to the date the plant needs water, which the credited
+     * rain itself moves, so that date is worked out a day of rain at a time
+     * @private
+     */
+    private async creditRain(
+        gardenId: string,
+        plant: IPlant,
+        firstTask: ISchedule,
+        budget: WaterBudget,
+        forecast: IWeatherForecast | undefined,
+        now: Date
+    ): Promise<RainCredit> {
+        const metadata = firstTask.task_metadata ?? {};
+        const previousWatering = metadata.rainCreditedFrom
+            ? new Date(metadata.rainCreditedFrom)
+            : moment(metadata.originalDueDate ?? firstTask.dueDate).subtract(budget.frequencyDays, 'days').toDate();
+        const lastWatered = plant.lastWateredDate ? new Date(plant.lastWateredDate) : undefined;
+        const creditedFrom = lastWatered && lastWatered > previousWatering && lastWatered <= now
+            ? lastWatered
+            : previousWatering;
+
+        const observations = await this.rainfallRepository.findByGarden(gardenId, creditedFrom, now);
+        const observedMm = this.round(observations.reduce((sum, observation) => sum + observation.rainfallMm, 0));
+        const latest = moment(now).add(RAIN_RESCHEDULING.MAX_POSTPONE_DAYS, 'days').toDate();
+        const dueBy = (coveredDays: number): Date =>
+            new Date(creditedFrom.getTime() + (budget.frequencyDays + coveredDays) * DAY_MS);
+
+        let forecastMm = 0;
+        let coveredDays = this.getCoveredDays(observedMm, forecastMm, budget);
+        for (let day = 0; forecast && day < RAIN_RESCHEDULING.MAX_POSTPONE_DAYS; day++) {
+            const until = new Date(Math.min(dueBy(coveredDays).getTime(), latest.getTime()));
+            const untilForecastMm = until > now ? this.weatherService.getForecastRainfall(forecast, now, until) : 0;
+            if (untilForecastMm <= forecastMm) {
+                break;
+            }
+
+            forecastMm = untilForecastMm;
+            coveredDays = this.getCoveredDays(observedMm, forecastMm, budget);
+        }
+
+        return {
+            creditedFrom,
+            observedMm,
+            forecastMm,
+            coveredDays: Math.round(coveredDays * 10) / 10,
+            wateringDueBy: dueBy(coveredDays)
+        };
+    }
+
+    /**
+     * Converts rain into days of a plant's water demand it covers
+     * Light rain never reaches the roots and part of the rest runs off
+     * @private
+     */
+    private getCoveredDays(observedMm: number, forecastMm: number, budget: WaterBudget): number {
+        const rainMm = observedMm + forecastMm * RAIN_RESCHEDULING.FORECAST_CONFIDENCE;
+        const soakedMm = Math.max(0, rainMm - RAIN_RESCHEDULING.INTERCEPTION_MM) * RAIN_RESCHEDULING.INFILTRATION_FRACTION;
+        return soakedMm / budget.dailyDemandMm;
+    }
+
+    /**
+     * Skips the tasks rain has made unnecessary and moves the task that waters the plant next
+     * Tasks are skipped while the task after them still comes before the plant needs water; the
+     * next task is moved by whole days to when the plant needs water, never earlier than its
+     * original due date and never further than the postponement limit
+     * @private
+     */
+    private async adjustTasks(tasks: ISchedule[], credit: RainCredit, now: Date): Promise<ISchedule[]> {
+        const keepIndex = tasks.findIndex((_, index) =>
+            index === tasks.length - 1 || new Date(tasks[index + 1].dueDate) > credit.wateringDueBy
+        );
+        const adjusted: ISchedule[] = [];
+
+        for (const schedule of tasks.slice(0, keepIndex)) {
+            const dueDate = new Date(schedule.dueDate);
+            const adjustment = this.buildAdjustment(RAIN_ADJUSTMENT_ACTIONS.SKIPPED, dueDate, dueDate, credit, now);
+            adjusted.push(await this.scheduleRepository.updateSchedule(schedule.id, {
+                completed: true,
+                completedDate: now,
+                task_metadata: this.appendAdjustment(schedule, adjustment, credit)
+            }, { optimisticLock: false }));
+        }
+
+        const next = tasks[keepIndex];
+        const currentDueDate = new Date(next.dueDate);
+        const originalDueDate = moment(next.task_metadata?.originalDueDate ?? next.dueDate);
+        const latest = moment(now).add(RAIN_RESCHEDULING.MAX_POSTPONE_DAYS, 'days');
+        const extraDays = Math.min(
+            Math.max(0, Math.floor((credit.wateringDueBy.getTime() - originalDueDate.valueOf()) / DAY_MS)),
+            Math.max(0, latest.diff(originalDueDate, 'days'))
+        );
+        const dueDate = originalDueDate.clone().add(extraDays, 'days').toDate();
+
+        let action: RainAdjustmentAction | undefined;
+        if (dueDate > currentDueDate) {
+            action = RAIN_ADJUSTMENT_ACTIONS.POSTPONED;
+        } else if (dueDate < currentDueDate) {
+            action = RAIN_ADJUSTMENT_ACTIONS.RESTORED;
+        }
+
+        if (action) {
+            const adjustment = this.buildAdjustment(action, currentDueDate, dueDate, credit, now);
+            adjusted.push(await this.scheduleRepository.updateSchedule(next.id, {
+                dueDate,
+                task_metadata: this.appendAdjustment(next, adjustment, credit)
+            }, { optimisticLock: false }));
+        } else if (adjusted.length) {
+            // Later reviews credit rain from the same watering as the skipped tasks did
+            await this.scheduleRepository.updateSchedule(next.id, {
+                task_metadata: { ...next.task_metadata, rainCreditedFrom: credit.creditedFrom }
+            }, { optimisticLock: false });
+        }
+
+        return adjusted;
+    }
+
+    /**
+     * Builds the record of a rain adjustment
+     * @private
+     */
+    private buildAdjustment(
+        action: RainAdjustmentAction,
+        previousDueDate: Date,
+        dueDate: Date,
+        credit: RainCredit,
+        now: Date
+    ): IRainAdjustment {
+        const neededBy = moment(credit.wateringDueBy).format('YYYY-MM-DD');
+        const reason = action === RAIN_ADJUSTMENT_ACTIONS.RESTORED
+            ? `Less rain than forecast; the plant needs water by ${neededBy}`
+            : `${credit.observedMm} mm of rain observed and ${credit.forecastMm} mm forecast keep the plant watered until ${neededBy}`;
+
+        return {
+            action,
+            adjustedAt: now,
+            previousDueDate,
+            dueDate,
+            observedRainfallMm: credit.observedMm,
+            forecastRainfallMm: credit.forecastMm,
+            coveredDays: credit.coveredDays,
+            reason
+        };
+    }
+
+    /**
+     * Adds an adjustment to a task's metadata, keeping the due date it had before any
+     * @private
+     */
+    private appendAdjustment(schedule: ISchedule, adjustment: IRainAdjustment, credit: RainCredit) {
+        const metadata = schedule.task_metadata ?? {};
+        return {
+            ...metadata,
+            originalDueDate: metadata.originalDueDate ?? adjustment.previousDueDate,
+            rainCreditedFrom: credit.creditedFrom,
+            rainAdjustments: [...(metadata.rainAdjustments ?? []), adjustment]
+        };
+    }
+
+    /**
+     * Builds the notification telling the gardener how a plant's watering changed
+     * @private
+     */
+    private buildNotification(plant: IPlant, adjusted: ISchedule[], now: Date): INotificationPayload {
+        const last = adjusted[adjusted.length - 1];
+        const adjustment = last.task_metadata!.rainAdjustments![last.task_metadata!.rainAdjustments!.length - 1];
+        const dueDate = moment(adjustment.dueDate).format('ddd D MMM');
+
+        let title: string;
+        let body: string;
+        switch (adjustment.action) {
+            case RAIN_ADJUSTMENT_ACTIONS.POSTPONED:
+                title = 'Watering postponed';
+                body = `Rain has watered your ${plant.type}; next watering moved to ${dueDate}`;
+                break;
+            case RAIN_ADJUSTMENT_ACTIONS.RESTORED:
+                title = 'Watering rescheduled';
+                body = `Less rain fell than forecast; water your ${plant.type} on ${dueDate}`;
+                break;
+            default:
+                title = 'Watering skipped';
+                body = `Rain has watered your ${plant.type}; ${adjusted.length} watering task(s) skipped`;
+        }
+
+        return {
+            title,
+            body,
+            type: NotificationType.WATERING_SCHEDULE,
+            data: {
+                scheduleId: last.id
+            },
+            priority: 'normal',
+            gardenZone: last.gardenId,
+            plantType: plant.type,
+            scheduledTime: now
+        };
+    }
+
+    /**
+     * Addresses each plant's watering notification to the assignees of its adjusted tasks,
+     * and to the garden when some of them are in the pool
+     * @private
+     */
+    private async addressNotifications(
+        changes: Array<{ notification: INotificationPayload; tasks: ISchedule[] }>
+    ): Promise<INotificationPayload[]> {
+        const tasks = changes.flatMap(change => change.tasks);
+        const deviceTokens = await this.userRepository.getDeviceTokens(
+            tasks.filter(task => task.assigneeId).map(task => task.assigneeId!)
+        );
+
+        return changes.flatMap(({ notification, tasks: plantTasks }) =>
+            [...this.groupBy(plantTasks, task => task.assigneeId ?? '').values()]
+                .flatMap(([task]) => addressTaskNotification(notification, task, deviceTokens))
+        );
+    }
+
+    /**
+     * Groups items by a key, keeping their order
+     * @private
+     */
+    private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+        const groups = new Map<string, T[]>();
+        items.forEach(item => {
+            const group = groups.get(key(item));
+            if (group) {
+                group.push(item);
+            } else {
+                groups.set(key(item), [item]);
+            }
+        });
+        return groups;
+    }
+
+    /**
+     * Rounds millimetres to two decimals
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
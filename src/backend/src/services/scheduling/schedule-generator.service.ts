@@ -4,8 +4,16 @@ import moment from 'moment';
 import { ISchedule } from '../../interfaces/schedule.interface';
 import { MaintenanceCalculator } from './maintenance-calculator.service';
 import { NotificationSchedulerService } from './notification-scheduler.service';
+import { WeatherService } from '../weather/weather.service';
+import { ClimateService } from '../climate.service';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { PlantRepository } from '../../repositories/plant.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { IEnvironmentalFactors } from '../../interfaces/weather.interface';
 import { Schedule } from '../../models/schedule.model';
 import { SCHEDULE_LIMITS, SCHEDULE_ERRORS } from '../../constants/schedule.constants';
+import { PLANTING_DATE_STATUS } from '../../constants/climate.constants';
+import { addressTaskNotification } from '../../utils/notification.utils';
 
 /**
  * Service responsible for generating and managing garden maintenance schedules
@@ -21,25 +29,26 @@ export class ScheduleGeneratorService {
         private readonly maintenanceCalculator: MaintenanceCalculator,
         private readonly notificationScheduler: NotificationSchedulerService,
         private readonly scheduleModel: Schedule,
-        private readonly cacheManager: Cache
+        private readonly cacheManager: Cache,
+        private readonly weatherService: WeatherService,
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly climateService: ClimateService,
+        private readonly userRepository: UserRepository
     ) {}
 
     /**
      * Generates an optimized maintenance schedule for a garden
+     * Tasks for plants set out outside their frost-safe window carry the planting warning
      * @param gardenId Unique identifier of the garden
      * @param daysAhead Number of days to schedule ahead
-     * @param environmentalFactors Current environmental conditions
+     * @param environmentalFactors Optional conditions overriding the garden's weather forecast
      * @returns Promise<ISchedule[]> Generated maintenance schedule
      */
     async generateSchedule(
         gardenId: string,
         daysAhead: number,
-        environmentalFactors: {
-            temperature: number;
-            humidity: number;
-            rainfall: number;
-            windSpeed: number;
-        }
+        environmentalFactors?: IEnvironmentalFactors
     ): Promise<ISchedule[]> {
         // Check cache for existing schedule
         const cacheKey = `schedule_${gardenId}_${daysAhead}`;
@@ -55,11 +64,14 @@ export class ScheduleGeneratorService {
         }
 
         try {
+            const factors = environmentalFactors ?? await this.weatherService.getGardenConditions(gardenId);
+            const plantingWarnings = await this.checkPlantingWindows(gardenId);
+
             // Generate maintenance schedules with environmental factors
             const schedules = await this.maintenanceCalculator.generateMaintenanceSchedule(
                 gardenId,
                 daysAhead,
-                environmentalFactors
+                factors
             );
 
             // Process schedules in batches for optimal performance
@@ -73,8 +85,14 @@ export class ScheduleGeneratorService {
                     priority: this.maintenanceCalculator.calculateTaskPriority(
                         schedule.taskType,
                         schedule.dueDate,
-                        environmentalFactors
-                    )
+                        factors
+                    ),
+                    ...(plantingWarnings.has(schedule.plantId) ? {
+                        task_metadata: {
+                            ...schedule.task_metadata,
+                            plantingWarning: plantingWarnings.get(schedule.plantId)
+                        }
+                    } : {})
                 }));
 
                 // Batch save to database
@@ -147,8 +165,11 @@ export class ScheduleGeneratorService {
                 { new: true }
             );
 
-            // Update notifications with retry mechanism
-            await this.notificationScheduler.scheduleMaintenanceReminder({
+            // Update notifications with retry mechanism; assigned tasks notify only their assignee
+            const deviceTokens = await this.userRepository.getDeviceTokens(
+                schedule.assigneeId ? [schedule.assigneeId] : []
+            );
+            const notifications = addressTaskNotification({
                 title: `Updated: ${schedule.taskType} Task`,
                 body: `Task rescheduled for ${moment(schedule.dueDate).format('MMMM Do YYYY, h:mm a')}`,
                 type: 'MAINTENANCE_REMINDER',
@@ -160,7 +181,10 @@ export class ScheduleGeneratorService {
                 gardenZone: schedule.gardenZone,
                 plantType: schedule.plantType,
                 scheduledTime: schedule.dueDate
-            });
+            }, schedule, deviceTokens);
+            for (const notification of notifications) {
+                await this.notificationScheduler.scheduleMaintenanceReminder(notification);
+            }
 
             // Invalidate related cache
             await this.invalidateScheduleCache(schedule.gardenId);
@@ -225,6 +249,35 @@ export class ScheduleGeneratorService {
         }
     }
 
+    /**
+     * Checks the set-out date of each plant in a garden against its frost-safe window
+     * Gardens without a known climate are not checked
+     * @param gardenId Unique identifier of the garden
+     * @returns Map of plant IDs to the warnings of plants set out outside their window
+     */
+    private async checkPlantingWindows(gardenId: string): Promise<Map<string, string>> {
+        const warnings = new Map<string, string>();
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        const climate = garden ? this.climateService.resolveClimate(garden) : undefined;
+        if (!climate) {
+            return warnings;
+        }
+
+        const plants = await this.plantRepository.getPlantsByGarden(gardenId);
+        for (const plant of plants) {
+            if (!plant.plantedDate) {
+                continue;
+            }
+
+            const check = this.climateService.checkPlantingDate(climate, plant.type, plant.plantedDate);
+            if (check.status !== PLANTING_DATE_STATUS.OK && check.message) {
+                warnings.set(plant.id, check.message);
+            }
+        }
+
+        return warnings;
+    }
+
     /**
      * Creates batches of schedules for efficient processing
      * @param schedules Array of schedules to batch
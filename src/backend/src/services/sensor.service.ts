@@ -0,0 +1,494 @@
+/**
+ * Sensor Service
+ * @packageVersion 5.0
+ *
+ * Ingests soil moisture, temperature, pH, humidity and light readings from garden sensor
+ * devices, submitted as JSON batches or as lines of a lightweight line protocol. Devices
+ * authenticate with a key issued when they are registered for a garden. Recent readings
+ * stand in for forecasts and defaults wherever a garden has sensors; raw readings are
+ * rolled up into hourly aggregates once past their retention.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+import * as crypto from 'crypto';
+import { SensorReadingFilter, SensorRepository } from '../repositories/sensor.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { IGarden } from '../interfaces/garden.interface';
+import { IPlant } from '../interfaces/plant.interface';
+import {
+    ISensorDevice,
+    ISensorDeviceRegistration,
+    ISensorHistory,
+    ISensorIngestionResult,
+    ISensorReading,
+    ISensorReadingInput,
+    ISensorReadingRejection,
+    ISensorSnapshot
+} from '../interfaces/sensor.interface';
+import {
+    SENSOR_ERRORS,
+    SENSOR_FRESHNESS_HOURS,
+    SENSOR_HISTORY_LIMITS,
+    SENSOR_INGESTION_LIMITS,
+    SENSOR_METRIC_RANGES,
+    SENSOR_METRICS,
+    SENSOR_RETENTION,
+    SensorMetric
+} from '../constants/sensor.constants';
+import { BadRequestError, NotFoundError, PayloadTooLargeError, UnauthorizedError } from '../utils/error.utils';
+
+/**
+ * Line protocol timestamps above these magnitudes are taken as milli-, micro- and nanoseconds
+ */
+const TIMESTAMP_MAGNITUDES = [
+    { above: 1e17, perSecond: 1e9 },
+    { above: 1e14, perSecond: 1e6 },
+    { above: 1e11, perSecond: 1e3 }
+];
+
+@Injectable()
+export class SensorService {
+    private readonly logger = new Logger(SensorService.name);
+
+    constructor(
+        private readonly sensorRepository: SensorRepository,
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository
+    ) {}
+
+    /**
+     * Rolls raw readings past their retention up into hourly aggregates and drops
+     * aggregates past theirs
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    async handleRetention(now: Date = new Date()): Promise<void> {
+        try {
+            const rolledUp = await this.sensorRepository.rollUpReadings(this.getRawCutoff(now));
+            const dropped = await this.sensorRepository.deleteAggregates(
+                moment.utc(now).subtract(SENSOR_RETENTION.HOURLY_DAYS, 'days').startOf('hour').toDate()
+            );
+
+            if (rolledUp || dropped) {
+                this.logger.log(`Rolled up ${rolledUp} sensor readings and dropped ${dropped} hourly aggregates`);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to apply sensor retention: ${error.message}`);
+        }
+    }
+
+    /**
+     * Registers a sensor device for a garden and issues the key it authenticates with
+     * @param gardenId Garden identifier
+     * @param name Name given to the device
+     * @returns Promise<ISensorDeviceRegistration> Device and its key, which is not shown again
+     */
+    async registerDevice(gardenId: string, name: string): Promise<ISensorDeviceRegistration> {
+        const trimmed = typeof name === 'string' ? name.trim() : '';
+        if (!trimmed || trimmed.length > SENSOR_INGESTION_LIMITS.MAX_DEVICE_NAME_LENGTH) {
+            throw new BadRequestError(SENSOR_ERRORS.INVALID_DEVICE_NAME);
+        }
+
+        await this.requireGarden(gardenId);
+
+        const key = crypto.randomBytes(SENSOR_INGESTION_LIMITS.KEY_BYTES).toString('hex');
+        const device = await this.sensorRepository.createDevice(gardenId, trimmed, this.hashKey(key));
+        this.logger.log(`Registered sensor device ${device.id} for garden ${gardenId}`);
+
+        return { device, key };
+    }
+
+    /**
+     * Lists the sensor devices of a garden
+     * @param gardenId Garden identifier
+     * @returns Promise<ISensorDevice[]> Devices, including revoked ones
+     */
+    async listDevices(gardenId: string): Promise<ISensorDevice[]> {
+        await this.requireGarden(gardenId);
+        return this.sensorRepository.findDevicesByGarden(gardenId);
+    }
+
+    /**
+     * Revokes a device's key so it can no longer submit readings
+     * Readings it already submitted are kept
+     * @param gardenId Garden identifier
+     * @param deviceId Device identifier
+     * @returns Promise<ISensorDevice> Revoked device
+     */
+    async revokeDevice(gardenId: string, deviceId: string): Promise<ISensorDevice> {
+        const device = await this.sensorRepository.findDeviceById(deviceId);
+        if (!device || device.gardenId !== gardenId) {
+            throw new NotFoundError(SENSOR_ERRORS.DEVICE_NOT_FOUND);
+        }
+        if (device.revokedAt) {
+            return device;
+        }
+
+        const revoked = await this.sensorRepository.revokeDevice(deviceId, new Date());
+        this.logger.log(`Revoked sensor device ${deviceId} of garden ${gardenId}`);
+        return revoked ?? device;
+    }
+
+    /**
+     * Stores a batch of readings submitted by a device
+     * Valid readings are stored even when others in the batch are rejected
+     * @param key Device key
+     * @param readings Submitted readings
+     * @param now Time the batch was received
+     * @returns Promise<ISensorIngestionResult> Readings stored and rejected
+     */
+    async ingestReadings(
+        key: string | undefined,
+        readings: ISensorReadingInput[],
+        now: Date = new Date()
+    ): Promise<ISensorIngestionResult> {
+        const device = await this.authenticateDevice(key);
+        if (!Array.isArray(readings)) {
+            throw new BadRequestError(SENSOR_ERRORS.EMPTY_BATCH);
+        }
+
+        return this.storeReadings(device, readings.map((reading, index) => ({ index, reading })), [], now);
+    }
+
+    /**
+     * Stores readings submitted by a device in the line protocol, one reading per line:
+     * `<metric>[,zone=<id>][,plant=<id>] value=<number> [<unix timestamp>]`
+     * Blank lines and lines starting with # are skipped. Timestamps may be given in seconds,
+     * milliseconds, microseconds or nanoseconds
+     * @param key Device key
+     * @param body Submitted lines
+     * @param now Time the lines were received
+     * @returns Promise<ISensorIngestionResult> Readings stored and lines rejected, indexed by line
+     */
+    async ingestLineProtocol(
+        key: string | undefined,
+        body: string,
+        now: Date = new Date()
+    ): Promise<ISensorIngestionResult> {
+        const device = await this.authenticateDevice(key);
+
+        const parsed: { index: number; reading: ISensorReadingInput }[] = [];
+        const rejected: ISensorReadingRejection[] = [];
+        (typeof body === 'string' ? body : '').split(/\r?\n/).forEach((line, index) => {
+            const trimmed = line.trim();
+            if (!trimmed || trimmed.startsWith('#')) {
+                return;
+            }
+
+            const reading = this.parseLine(trimmed);
+            if (reading) {
+                parsed.push({ index, reading });
+            } else {
+                rejected.push({ index, error: SENSOR_ERRORS.INVALID_LINE });
+            }
+        });
+
+        return this.storeReadings(device, parsed, rejected, now);
+    }
+
+    /**
+     * Returns the latest current reading of each metric at a spot of a garden
+     * Readings at the plant win over readings elsewhere in its zone, which win over readings
+     * not placed in any zone; readings older than the freshness window are ignored
+     * @param gardenId Garden identifier
+     * @param filter Zone or plant to read at; the whole garden when empty
+     * @param now Current time
+     * @returns Promise<ISensorSnapshot> Latest reading of each metric that has one
+     */
+    async getLatestReadings(
+        gardenId: string,
+        filter: SensorReadingFilter = {},
+        now: Date = new Date()
+    ): Promise<ISensorSnapshot> {
+        const readings = await this.sensorRepository.findRecentReadings(
+            gardenId,
+            moment(now).subtract(SENSOR_FRESHNESS_HOURS, 'hours').toDate()
+        );
+
+        const snapshot: ISensorSnapshot = {};
+        const ranks: Partial<Record<SensorMetric, number>> = {};
+        // Readings come newest first, so the first of each rank is kept
+        for (const reading of readings) {
+            const rank = this.rankReading(reading, filter);
+            const current = ranks[reading.metric];
+            if (rank === undefined || (current !== undefined && current <= rank)) {
+                continue;
+            }
+            snapshot[reading.metric] = reading;
+            ranks[reading.metric] = rank;
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Returns the latest current reading of each metric at a plant
+     * @param plant Plant record
+     * @param now Current time
+     * @returns Promise<ISensorSnapshot> Latest readings; empty for plants outside a garden
+     */
+    async getPlantReadings(plant: IPlant, now: Date = new Date()): Promise<ISensorSnapshot> {
+        if (!plant.gardenId) {
+            return {};
+        }
+
+        const garden = await this.gardenRepository.getGardenById(plant.gardenId);
+        const zoneId = garden ? this.findPlantZoneId(garden, plant.id) : undefined;
+        return this.getLatestReadings(plant.gardenId, { zoneId, plantId: plant.id }, now);
+    }
+
+    /**
+     * Retrieves the soil moisture measured in a zone within a period, oldest first
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param from First instant of the period
+     * @param to Instant the period ends (exclusive)
+     * @returns Promise<ISensorReading[]> Soil moisture readings in percent of field capacity
+     */
+    async getZoneSoilMoisture(gardenId: string, zoneId: string, from: Date, to: Date): Promise<ISensorReading[]> {
+        return this.sensorRepository.findReadings(gardenId, SENSOR_METRICS.SOIL_MOISTURE, from, to, { zoneId });
+    }
+
+    /**
+     * Retrieves the readings of one metric over the last days
+     * @param gardenId Garden identifier
+     * @param metric Metric measured
+     * @param days Number of days, ending now
+     * @param filter Zone or plant the readings are limited to
+     * @param now Current time
+     * @returns Promise<ISensorHistory> Raw readings and hourly aggregates
+     */
+    async getReadingHistory(
+        gardenId: string,
+        metric: SensorMetric,
+        days: number = SENSOR_HISTORY_LIMITS.DEFAULT_DAYS,
+        filter: SensorReadingFilter = {},
+        now: Date = new Date()
+    ): Promise<ISensorHistory> {
+        if (!Object.values(SENSOR_METRICS).includes(metric)) {
+            throw new BadRequestError(SENSOR_ERRORS.UNKNOWN_METRIC);
+        }
+        if (!Number.isInteger(days) || days < 1 || days > SENSOR_HISTORY_LIMITS.MAX_DAYS) {
+            throw new BadRequestError(SENSOR_ERRORS.INVALID_HISTORY_RANGE);
+        }
+
+        await this.requireGarden(gardenId);
+
+        const from = moment(now).subtract(days, 'days').toDate();
+        const to = moment(now).add(SENSOR_INGESTION_LIMITS.MAX_FUTURE_SKEW_MINUTES, 'minutes').toDate();
+        const [readings, hourly] = await Promise.all([
+            this.sensorRepository.findReadings(gardenId, metric, from, to, filter),
+            this.sensorRepository.findAggregates(gardenId, metric, from, to, filter)
+        ]);
+
+        return { gardenId, metric, ...filter, readings, hourly };
+    }
+
+    /**
+     * Validates readings against the device's garden and stores the valid ones
+     * @private
+     */
+    private async storeReadings(
+        device: ISensorDevice,
+        submitted: { index: number; reading: ISensorReadingInput }[],
+        rejected: ISensorReadingRejection[],
+        now: Date
+    ): Promise<ISensorIngestionResult> {
+        if (!submitted.length && !rejected.length) {
+            throw new BadRequestError(SENSOR_ERRORS.EMPTY_BATCH);
+        }
+        if (submitted.length + rejected.length > SENSOR_INGESTION_LIMITS.MAX_BATCH_SIZE) {
+            throw new PayloadTooLargeError(SENSOR_ERRORS.BATCH_TOO_LARGE);
+        }
+
+        const garden = await this.requireGarden(device.gardenId);
+        const plants = await this.plantRepository.getPlantsByGarden(device.gardenId);
+        const plantIds = new Set(plants.map(plant => plant.id));
+        const zoneIds = new Set((garden.zones || []).map(zone => zone.id));
+
+        const accepted: Omit<ISensorReading, 'id'>[] = [];
+        for (const { index, reading } of submitted) {
+            const error = this.validateReading(reading, zoneIds, plantIds, now);
+            if (error) {
+                rejected.push({ index, error });
+                continue;
+            }
+
+            accepted.push({
+                gardenId: device.gardenId,
+                deviceId: device.id,
+                metric: reading.metric,
+                value: reading.value,
+                zoneId: reading.zoneId ?? (reading.plantId ? this.findPlantZoneId(garden, reading.plantId) : undefined),
+                plantId: reading.plantId,
+                recordedAt: reading.recordedAt !== undefined ? new Date(reading.recordedAt) : now
+            });
+        }
+
+        const stored = await this.sensorRepository.createReadings(accepted);
+        await this.sensorRepository.touchDevice(device.id, now);
+
+        if (rejected.length) {
+            this.logger.warn(`Sensor device ${device.id} had ${rejected.length} readings rejected`);
+        }
+
+        return {
+            accepted: stored,
+            rejected: rejected.sort((a, b) => a.index - b.index)
+        };
+    }
+
+    /**
+     * Checks a submitted reading, returning why it is rejected
+     * @private
+     */
+    private validateReading(
+        reading: ISensorReadingInput,
+        zoneIds: Set<string>,
+        plantIds: Set<string>,
+        now: Date
+    ): string | undefined {
+        const range = reading ? SENSOR_METRIC_RANGES[reading.metric] : undefined;
+        if (!range) {
+            return SENSOR_ERRORS.UNKNOWN_METRIC;
+        }
+        if (typeof reading.value !== 'number' || !Number.isFinite(reading.value)
+            || reading.value < range.min || reading.value > range.max) {
+            return SENSOR_ERRORS.VALUE_OUT_OF_RANGE;
+        }
+
+        if (reading.recordedAt !== undefined) {
+            const recordedAt = new Date(reading.recordedAt);
+            const latest = moment(now).add(SENSOR_INGESTION_LIMITS.MAX_FUTURE_SKEW_MINUTES, 'minutes').toDate();
+            if (isNaN(recordedAt.getTime()) || recordedAt > latest || recordedAt < this.getRawCutoff(now)) {
+                return SENSOR_ERRORS.INVALID_TIMESTAMP;
+            }
+        }
+
+        if (reading.zoneId !== undefined && !zoneIds.has(reading.zoneId)) {
+            return SENSOR_ERRORS.UNKNOWN_ZONE;
+        }
+        if (reading.plantId !== undefined && !plantIds.has(reading.plantId)) {
+            return SENSOR_ERRORS.UNKNOWN_PLANT;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Parses one line of the line protocol
+     * @private
+     */
+    private parseLine(line: string): ISensorReadingInput | undefined {
+        const parts = line.split(/\s+/);
+        if (parts.length < 2 || parts.length > 3) {
+            return undefined;
+        }
+
+        const [metric, ...tags] = parts[0].split(',');
+        const reading: Partial<ISensorReadingInput> = { metric: metric as SensorMetric };
+        for (const tag of tags) {
+            const [name, value, ...rest] = tag.split('=');
+            if (!value || rest.length) {
+                return undefined;
+            }
+            if (name === 'zone') {
+                reading.zoneId = value;
+            } else if (name === 'plant') {
+                reading.plantId = value;
+            } else {
+                return undefined;
+            }
+        }
+
+        const field = /^value=(-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?)$/.exec(parts[1]);
+        if (!field) {
+            return undefined;
+        }
+        reading.value = Number(field[1]);
+
+        if (parts[2] !== undefined) {
+            if (!/^\d+$/.test(parts[2])) {
+                return undefined;
+            }
+            const timestamp = Number(parts[2]);
+            const magnitude = TIMESTAMP_MAGNITUDES.find(({ above }) => timestamp > above);
+            reading.recordedAt = new Date(timestamp / (magnitude?.perSecond ?? 1) * 1000);
+        }
+
+        return reading as ISensorReadingInput;
+    }
+
+    /**
+     * Ranks a reading's relevance to a spot, lower first; undefined when it does not apply
+     * @private
+     */
+    private rankReading(reading: ISensorReading, filter: SensorReadingFilter): number | undefined {
+        if (filter.plantId && reading.plantId === filter.plantId) {
+            return 0;
+        }
+        if (filter.zoneId && reading.zoneId === filter.zoneId) {
+            return 1;
+        }
+        if (!reading.zoneId && !reading.plantId) {
+            return 2;
+        }
+        return filter.zoneId || filter.plantId ? undefined : 3;
+    }
+
+    /**
+     * Authenticates a device by its key
+     * @private
+     */
+    private async authenticateDevice(key: string | undefined): Promise<ISensorDevice> {
+        if (!key) {
+            throw new UnauthorizedError(SENSOR_ERRORS.MISSING_KEY);
+        }
+
+        const device = await this.sensorRepository.findDeviceByKeyHash(this.hashKey(key));
+        if (!device || device.revokedAt) {
+            throw new UnauthorizedError(SENSOR_ERRORS.INVALID_KEY);
+        }
+        return device;
+    }
+
+    /**
+     * Start of the earliest hour raw readings are kept for
+     * @private
+     */
+    private getRawCutoff(now: Date): Date {
+        return moment.utc(now).subtract(SENSOR_RETENTION.RAW_DAYS, 'days').startOf('hour').toDate();
+    }
+
+    /**
+     * Hashes a device key for storage and lookup
+     * @private
+     */
+    private hashKey(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+
+    /**
+     * Finds the zone a plant is placed in
+     * @private
+     */
+    private findPlantZoneId(garden: IGarden, plantId: string): string | undefined {
+        return (garden.zones || []).find(zone =>
+            (zone.plants || []).some(zonePlant => zonePlant.id === plantId)
+        )?.id;
+    }
+
+    /**
+     * Retrieves a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+}
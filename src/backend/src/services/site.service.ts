@@ -0,0 +1,560 @@
+/**
+ * Site Service
+ * @packageVersion 5.0
+ *
+ * Runs community garden sites made up of many plots. Each plot is a garden of its own:
+ * site admins lay plots out and allocate them to members, who then own the plot's garden
+ * and may share it like any other. Upkeep of the site itself, such as turning the compost
+ * or weeding the paths, is raised by admins as site-wide tasks that any member may claim.
+ * The site dashboard sums up the task statistics of every plot, which are kept in
+ * schedule_statistics and recalculated from the plot's schedules once they go stale.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import moment from 'moment'; // ^2.29.0
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { SiteRepository } from '../repositories/site.repository';
+import { GardenRepository } from '../repositories/garden.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { ScheduleStatisticsRepository } from '../repositories/schedule-statistics.repository';
+import { IGarden } from '../interfaces/garden.interface';
+import {
+    IScheduleStatistics,
+    ISchedule,
+    TaskFrequency,
+    TaskType
+} from '../interfaces/schedule.interface';
+import {
+    ISite,
+    ISiteDashboard,
+    ISiteInput,
+    ISiteMembership,
+    ISitePlot,
+    ISitePlotInput,
+    ISitePlotStatistics,
+    ISiteTaskInput
+} from '../interfaces/site.interface';
+import { SUNLIGHT_CONDITIONS } from '../constants/garden.constants';
+import { TASK_PRIORITIES } from '../constants/schedule.constants';
+import {
+    SITE_DEFAULTS,
+    SITE_ERRORS,
+    SITE_ROLES,
+    SITE_TASK_REPEAT_DAYS,
+    SITE_TASK_TYPES
+} from '../constants/site.constants';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/error.utils';
+
+@Injectable()
+export class SiteService {
+    private readonly logger = new Logger(SiteService.name);
+
+    constructor(
+        private readonly siteRepository: SiteRepository,
+        private readonly gardenRepository: GardenRepository,
+        private readonly userRepository: UserRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly statisticsRepository: ScheduleStatisticsRepository
+    ) {}
+
+    /**
+     * Lists the sites a user administers or has a plot in
+     * @param userId User identifier
+     * @returns Promise<ISiteMembership[]> Sites with the user's role in each
+     */
+    async listSites(userId: string): Promise<ISiteMembership[]> {
+        const gardens = await this.gardenRepository.getGardensForUser(userId);
+        const siteIds = [...new Set(gardens.map(garden => garden.siteId).filter((id): id is string => !!id))];
+        const sites = await this.siteRepository.getSitesForUser(userId, siteIds);
+
+        return sites.map(site => ({
+            ...this.toSite(site),
+            role: site.adminIds.includes(userId) ? SITE_ROLES.ADMIN : SITE_ROLES.MEMBER
+        }));
+    }
+
+    /**
+     * Creates a community site run by the user creating it
+     * @param input Name and address of the site
+     * @param userId User creating the site, who becomes its first admin
+     * @returns Promise<ISite> Created site
+     */
+    async createSite(input: ISiteInput, userId: string): Promise<ISite> {
+        if (!input?.name?.trim()) {
+            throw new BadRequestError('Site name is required');
+        }
+
+        const site = await this.siteRepository.createSite({
+            name: input.name.trim(),
+            address: input.address?.trim() || undefined
+        }, userId);
+
+        this.logger.log(`Site ${site.id} created by user ${userId}`);
+        return this.toSite(site);
+    }
+
+    /**
+     * Retrieves a site the user belongs to
+     * @param siteId Site identifier
+     * @param userId User identifier
+     * @returns Promise<ISiteMembership> Site with the user's role in it
+     */
+    async getSite(siteId: string, userId: string): Promise<ISiteMembership> {
+        return this.requireMembership(siteId, userId);
+    }
+
+    /**
+     * Lists the plots of a site and who holds them
+     * @param siteId Site identifier
+     * @param userId User asking, who must belong to the site
+     * @returns Promise<ISitePlot[]> Plots in plot number order
+     */
+    async listPlots(siteId: string, userId: string): Promise<ISitePlot[]> {
+        await this.requireMembership(siteId, userId);
+        const plots = await this.gardenRepository.getSitePlots(siteId);
+        return plots.map(plot => this.toPlot(plot));
+    }
+
+    /**
+     * Lays out a vacant plot on a site
+     * @param siteId Site identifier
+     * @param userId User laying out the plot, who must administer the site
+     * @param input Number, area and zones of the plot
+     * @returns Promise<ISitePlot> Created plot
+     */
+    async createPlot(siteId: string, userId: string, input: ISitePlotInput): Promise<ISitePlot> {
+        await this.requireAdmin(siteId, userId);
+
+        const plotNumber = input?.plotNumber?.trim();
+        if (!plotNumber) {
+            throw new BadRequestError('Plot number is required');
+        }
+        const plots = await this.gardenRepository.getSitePlots(siteId);
+        if (plots.some(plot => plot.plotNumber === plotNumber)) {
+            throw new ConflictError(SITE_ERRORS.PLOT_NUMBER_TAKEN);
+        }
+
+        const garden = await this.gardenRepository.createGarden({
+            area: input.area,
+            zones: input.zones?.length ? input.zones : [{
+                id: uuidv4(),
+                area: input.area,
+                sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN,
+                plants: []
+            }],
+            siteId,
+            plotNumber
+        } as IGarden);
+
+        this.logger.log(`Plot ${plotNumber} laid out on site ${siteId}`);
+        return this.toPlot(garden);
+    }
+
+    /**
+     * Allocates a vacant plot to a member, who becomes the owner of the plot's garden
+     * @param siteId Site identifier
+     * @param userId User allocating the plot, who must administer the site
+     * @param gardenId Garden identifier of the plot
+     * @param holderId Member the plot is allocated to
+     * @returns Promise<ISitePlot> Allocated plot
+     */
+    async allocatePlot(siteId: string, userId: string, gardenId: string, holderId: string): Promise<ISitePlot> {
+        await this.requireAdmin(siteId, userId);
+        const plots = await this.gardenRepository.getSitePlots(siteId);
+        const plot = this.requirePlot(plots, gardenId);
+
+        if (plot.ownerId) {
+            throw new ConflictError(SITE_ERRORS.PLOT_ALLOCATED);
+        }
+        if (!holderId || !await this.userRepository.getUserById(holderId)) {
+            throw new NotFoundError(`User with ID ${holderId} not found`);
+        }
+        if (plots.filter(candidate => candidate.ownerId === holderId).length >= SITE_DEFAULTS.MAX_PLOTS_PER_MEMBER) {
+            throw new BadRequestError(SITE_ERRORS.TOO_MANY_PLOTS);
+        }
+        // The update re-checks the plot is vacant, so a plot allocated concurrently fails here
+        if (!await this.gardenRepository.allocatePlot(gardenId, siteId, holderId)) {
+            throw new ConflictError(SITE_ERRORS.PLOT_ALLOCATED);
+        }
+
+        this.logger.log(`Plot ${plot.plotNumber} of site ${siteId} allocated to user ${holderId}`);
+        return { ...this.toPlot(plot), holderId };
+    }
+
+    /**
+     * Takes a plot back from its holder so it can be allocated again
+     * The garden stays with the site; the users it was shared with lose access
+     * @param siteId Site identifier
+     * @param userId User vacating the plot, who must administer the site
+     * @param gardenId Garden identifier of the plot
+     */
+    async vacatePlot(siteId: string, userId: string, gardenId: string): Promise<void> {
+        await this.requireAdmin(siteId, userId);
+        const plot = this.requirePlot(await this.gardenRepository.getSitePlots(siteId), gardenId);
+
+        if (await this.gardenRepository.vacatePlot(gardenId, siteId)) {
+            this.logger.log(`Plot ${plot.plotNumber} of site ${siteId} vacated`);
+        }
+    }
+
+    /**
+     * Lists the pending site-wide tasks of a site
+     * @param siteId Site identifier
+     * @param userId User asking, who must belong to the site
+     * @returns Promise<ISchedule[]> Pending tasks, soonest due first
+     */
+    async listTasks(siteId: string, userId: string): Promise<ISchedule[]> {
+        await this.requireMembership(siteId, userId);
+        return (await this.getSiteTasks(siteId)).filter(task => !task.completed);
+    }
+
+    /**
+     * Raises a site-wide task for members to claim
+     * @param siteId Site identifier
+     * @param userId User raising the task, who must administer the site
+     * @param input Type, due date and repetition of the task
+     * @returns Promise<ISchedule> Created task
+     */
+    async createTask(siteId: string, userId: string, input: ISiteTaskInput): Promise<ISchedule> {
+        await this.requireAdmin(siteId, userId);
+
+        if (!SITE_TASK_TYPES.includes(input?.taskType)) {
+            throw new BadRequestError(SITE_ERRORS.INVALID_TASK_TYPE);
+        }
+        const dueDate = moment(input.dueDate);
+        if (!input.dueDate || !dueDate.isValid()) {
+            throw new BadRequestError('A valid due date is required');
+        }
+        const frequency = input.frequency ?? TaskFrequency.AS_NEEDED;
+        if (!Object.values(TaskFrequency).includes(frequency)) {
+            throw new BadRequestError(`Invalid task frequency: ${frequency}`);
+        }
+
+        const task = await this.raiseTask(siteId, input.taskType, frequency, dueDate.toDate(), input.notes);
+        this.logger.log(`Site task ${input.taskType} raised on site ${siteId}`);
+        return task;
+    }
+
+    /**
+     * Claims a site-wide task for a member
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @param userId Member claiming the task
+     * @param now Current time
+     * @returns Promise<ISchedule> Claimed task
+     */
+    async claimTask(siteId: string, taskId: string, userId: string, now: Date = new Date()): Promise<ISchedule> {
+        await this.requireMembership(siteId, userId);
+        const task = await this.requirePendingTask(siteId, taskId);
+
+        if (task.assigneeId) {
+            throw new ConflictError(SITE_ERRORS.TASK_CLAIMED);
+        }
+        // The update re-checks the task is unclaimed, so a task claimed concurrently fails here
+        const claimed = await this.scheduleRepository.claimTask(taskId, userId, now);
+        if (!claimed) {
+            throw new ConflictError(SITE_ERRORS.TASK_CLAIMED);
+        }
+
+        this.logger.log(`Site task ${taskId} claimed by user ${userId}`);
+        return claimed;
+    }
+
+    /**
+     * Hands a claimed site-wide task back for another member to claim
+     * Members release their own claims; site admins may release any claim
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @param userId User releasing the task
+     * @returns Promise<ISchedule> Released task
+     */
+    async releaseTask(siteId: string, taskId: string, userId: string): Promise<ISchedule> {
+        const membership = await this.requireMembership(siteId, userId);
+        const task = await this.requirePendingTask(siteId, taskId);
+
+        if (!task.assigneeId ||
+            (task.assigneeId !== userId && membership.role !== SITE_ROLES.ADMIN)) {
+            throw new ForbiddenError(SITE_ERRORS.TASK_NOT_CLAIMED);
+        }
+        const released = await this.scheduleRepository.releaseTask(taskId, task.assigneeId);
+        if (!released) {
+            throw new ForbiddenError(SITE_ERRORS.TASK_NOT_CLAIMED);
+        }
+        return released;
+    }
+
+    /**
+     * Completes a site-wide task; an unclaimed task is claimed by the member completing it
+     * Repeating tasks are raised again, unclaimed, once their repeat interval has passed
+     * @param siteId Site identifier
+     * @param taskId Task identifier
+     * @param userId Member completing the task
+     * @param now Current time
+     * @returns Promise<ISchedule> Completed task
+     */
+    async completeTask(siteId: string, taskId: string, userId: string, now: Date = new Date()): Promise<ISchedule> {
+        const membership = await this.requireMembership(siteId, userId);
+        let task = await this.requirePendingTask(siteId, taskId);
+
+        if (!task.assigneeId) {
+            const claimed = await this.scheduleRepository.claimTask(taskId, userId, now);
+            if (!claimed) {
+                throw new ConflictError(SITE_ERRORS.TASK_CLAIMED);
+            }
+            task = claimed;
+        } else if (task.assigneeId !== userId && membership.role !== SITE_ROLES.ADMIN) {
+            throw new ForbiddenError(SITE_ERRORS.TASK_NOT_CLAIMED);
+        }
+
+        const completed = await this.scheduleRepository.markTaskCompleted(taskId, {
+            completedDate: now,
+            completedBy: userId,
+            notes: task.notes
+        });
+
+        const repeatDays = SITE_TASK_REPEAT_DAYS[task.frequency];
+        if (repeatDays) {
+            await this.raiseTask(
+                siteId,
+                task.taskType,
+                task.frequency,
+                moment(now).add(repeatDays, 'days').toDate(),
+                task.notes
+            );
+        }
+
+        this.logger.log(`Site task ${taskId} completed by user ${task.assigneeId}`);
+        return completed;
+    }
+
+    /**
+     * Sums up the plots and task statistics of a site
+     * Plot statistics are recalculated from the plot's schedules when none are stored or
+     * they are older than SITE_DEFAULTS.STATISTICS_MAX_AGE_HOURS
+     * @param siteId Site identifier
+     * @param userId User asking, who must belong to the site
+     * @param now Current time
+     * @returns Promise<ISiteDashboard> Site totals, plot statistics and site task counts
+     */
+    async getDashboard(siteId: string, userId: string, now: Date = new Date()): Promise<ISiteDashboard> {
+        await this.requireMembership(siteId, userId);
+        const plots = await this.gardenRepository.getSitePlots(siteId);
+        const stored = new Map(
+            (await this.statisticsRepository.findByGardens(plots.map(plot => plot.id)))
+                .map(statistics => [statistics.gardenId, statistics])
+        );
+        const staleBefore = moment(now).subtract(SITE_DEFAULTS.STATISTICS_MAX_AGE_HOURS, 'hours');
+
+        const plotStatistics: ISitePlotStatistics[] = [];
+        for (const plot of plots) {
+            const gardenId = plot.id;
+            let statistics = stored.get(gardenId);
+            if (!statistics || moment(statistics.lastCalculatedAt).isBefore(staleBefore)) {
+                const tasks = await this.scheduleRepository.getSchedulesByGardenId(gardenId, {
+                    limit: SITE_DEFAULTS.MAX_TASKS_COUNTED
+                });
+                statistics = this.calculateStatistics(gardenId, tasks, now);
+                await this.statisticsRepository.saveStatistics(statistics);
+            }
+            plotStatistics.push({ ...this.toPlot(plot), statistics });
+        }
+
+        const sum = (pick: (statistics: IScheduleStatistics) => number) =>
+            plotStatistics.reduce((total, plot) => total + pick(plot.statistics), 0);
+        const totalTasks = sum(statistics => statistics.totalTasks);
+        const completedTasks = sum(statistics => statistics.completedTasks);
+        const siteTasks = (await this.getSiteTasks(siteId)).filter(task => !task.completed);
+
+        return {
+            siteId,
+            plotCount: plots.length,
+            allocatedPlots: plots.filter(plot => plot.ownerId).length,
+            totalTasks,
+            completedTasks,
+            upcomingTasks: sum(statistics => statistics.upcomingTasks),
+            missedTaskCount: sum(statistics => statistics.missedTaskCount),
+            completionRate: totalTasks ? this.round(completedTasks / totalTasks * 100) : 0,
+            plots: plotStatistics,
+            openSiteTasks: siteTasks.filter(task => !task.assigneeId).length,
+            claimedSiteTasks: siteTasks.filter(task => task.assigneeId).length,
+            overdueSiteTasks: siteTasks.filter(task => moment(task.dueDate).isBefore(now)).length
+        };
+    }
+
+    /**
+     * Works out the task statistics of a garden from its schedules
+     * @private
+     */
+    private calculateStatistics(gardenId: string, tasks: ISchedule[], now: Date): IScheduleStatistics {
+        const completed = tasks.filter(task => task.completed);
+        const pending = tasks.filter(task => !task.completed);
+
+        // Completion rate of the tasks that fell due in each recent month
+        const firstMonth = moment(now).startOf('month').subtract(SITE_DEFAULTS.STATISTICS_MONTHS - 1, 'months');
+        const monthly = new Map<string, { due: number; completed: number }>();
+        for (const task of tasks) {
+            const dueDate = moment(task.dueDate);
+            if (dueDate.isBefore(firstMonth) || dueDate.isAfter(now)) {
+                continue;
+            }
+            const month = dueDate.format('YYYY-MM');
+            const counts = monthly.get(month) ?? { due: 0, completed: 0 };
+            counts.due += 1;
+            counts.completed += task.completed ? 1 : 0;
+            monthly.set(month, counts);
+        }
+
+        const lateness = completed
+            .filter(task => task.completedDate)
+            .map(task => Math.max(0, moment(task.completedDate!).diff(task.dueDate, 'minutes')));
+
+        return {
+            gardenId,
+            totalTasks: tasks.length,
+            completedTasks: completed.length,
+            upcomingTasks: pending.filter(task => !moment(task.dueDate).isBefore(now)).length,
+            completionRate: tasks.length ? this.round(completed.length / tasks.length * 100) : 0,
+            monthlyCompletionRate: Object.fromEntries([...monthly.entries()]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([month, counts]) => [month, this.round(counts.completed / counts.due * 100)])),
+            averageCompletionTime: lateness.length
+                ? Math.round(lateness.reduce((total, minutes) => total + minutes, 0) / lateness.length)
+                : 0,
+            missedTaskCount: pending.filter(task => moment(task.dueDate).isBefore(now)).length,
+            lastCalculatedAt: now
+        };
+    }
+
+    /**
+     * Creates an unclaimed site-wide task
+     * @private
+     */
+    private async raiseTask(
+        siteId: string,
+        taskType: TaskType,
+        frequency: TaskFrequency,
+        dueDate: Date,
+        notes?: string
+    ): Promise<ISchedule> {
+        return this.scheduleRepository.createSchedule({
+            gardenId: siteId,
+            siteId,
+            taskType,
+            frequency,
+            dueDate,
+            priority: TASK_PRIORITIES[taskType as keyof typeof TASK_PRIORITIES],
+            completed: false,
+            completedDate: null,
+            notes: notes ?? '',
+            weather_dependent: false,
+            task_metadata: {}
+        });
+    }
+
+    /**
+     * Retrieves the site-wide tasks of a site, soonest due first
+     * @private
+     */
+    private async getSiteTasks(siteId: string): Promise<ISchedule[]> {
+        const tasks = await this.scheduleRepository.getSchedulesByGardenId(siteId, {
+            limit: SITE_DEFAULTS.MAX_TASKS_COUNTED
+        });
+        return tasks.filter(task => task.siteId === siteId);
+    }
+
+    /**
+     * Retrieves a pending site-wide task of the site
+     * @private
+     */
+    private async requirePendingTask(siteId: string, taskId: string): Promise<ISchedule> {
+        const task = await this.scheduleRepository.getScheduleById(taskId);
+        if (!task || task.siteId !== siteId) {
+            throw new NotFoundError(SITE_ERRORS.TASK_NOT_FOUND);
+        }
+        if (task.completed) {
+            throw new ConflictError(SITE_ERRORS.TASK_COMPLETED);
+        }
+        return task;
+    }
+
+    /**
+     * Finds a plot among the plots of a site
+     * @private
+     */
+    private requirePlot(plots: IGarden[], gardenId: string): IGarden {
+        const plot = plots.find(candidate => candidate.id === gardenId);
+        if (!plot) {
+            throw new NotFoundError(SITE_ERRORS.PLOT_NOT_FOUND);
+        }
+        return plot;
+    }
+
+    /**
+     * Retrieves a site the user administers or holds or shares a plot in; sites the user
+     * does not belong to are reported as not found so their existence is not revealed
+     * @private
+     */
+    private async requireMembership(siteId: string, userId: string): Promise<ISiteMembership> {
+        const site = await this.siteRepository.getSiteById(siteId);
+        if (site?.adminIds.includes(userId)) {
+            return { ...this.toSite(site), role: SITE_ROLES.ADMIN };
+        }
+
+        const plots = site ? await this.gardenRepository.getSitePlots(siteId) : [];
+        const hasPlot = plots.some(plot =>
+            plot.ownerId === userId || (plot.members || []).some(member => member.userId === userId));
+        if (!site || !hasPlot) {
+            throw new NotFoundError(`Site with ID ${siteId} not found`);
+        }
+        return { ...this.toSite(site), role: SITE_ROLES.MEMBER };
+    }
+
+    /**
+     * Retrieves a site the user administers
+     * @private
+     */
+    private async requireAdmin(siteId: string, userId: string): Promise<ISiteMembership> {
+        const membership = await this.requireMembership(siteId, userId);
+        if (membership.role !== SITE_ROLES.ADMIN) {
+            throw new ForbiddenError(SITE_ERRORS.NOT_ADMIN);
+        }
+        return membership;
+    }
+
+    /**
+     * Copies the fields of a site out of its document
+     * @private
+     */
+    private toSite(site: ISite): ISite {
+        return {
+            id: site.id,
+            name: site.name,
+            address: site.address,
+            adminIds: [...site.adminIds],
+            createdAt: site.createdAt,
+            updatedAt: site.updatedAt
+        };
+    }
+
+    /**
+     * Describes a plot garden as a plot of its site
+     * @private
+     */
+    private toPlot(garden: IGarden): ISitePlot {
+        return {
+            gardenId: garden.id,
+            plotNumber: garden.plotNumber!,
+            area: garden.area,
+            holderId: garden.ownerId
+        };
+    }
+
+    /**
+     * Rounds a percentage to two decimals
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -0,0 +1,449 @@
+/**
+ * Task Assignment Service
+ * @packageVersion 5.0
+ *
+ * Shares out the tasks of a garden between the owner and the collaborators it is shared
+ * with. Tasks can be assigned to one of them or left in the garden's pool for anyone to
+ * claim; rotations pass a duty between them in turn, such as watering alternating weekly.
+ * Reminders for an assigned task go to its assignee only, and completed tasks credit the
+ * user who did the work in the garden's completion history.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { NotificationSchedulerService } from './scheduling/notification-scheduler.service';
+import { IGarden, IGardenTaskRotation } from '../interfaces/garden.interface';
+import { ISchedule, TaskType } from '../interfaces/schedule.interface';
+import { INotificationPayload, NotificationType } from '../interfaces/notification.interface';
+import {
+    ITaskCompletionHistory,
+    ITaskContributor,
+    ITaskRotationInput
+} from '../interfaces/task-assignment.interface';
+import { GARDEN_PERMISSION_ROLES, GARDEN_ROLES } from '../constants/garden-sharing.constants';
+import { SCHEDULE_ERRORS } from '../constants/schedule.constants';
+import { TASK_ASSIGNMENT_ERRORS, TASK_ASSIGNMENT_LIMITS } from '../constants/task-assignment.constants';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../utils/error.utils';
+import { addressTaskNotification } from '../utils/notification.utils';
+
+@Injectable()
+export class TaskAssignmentService {
+    private readonly logger = new Logger(TaskAssignmentService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly scheduleRepository: ScheduleRepository,
+        private readonly userRepository: UserRepository,
+        private readonly notificationScheduler: NotificationSchedulerService
+    ) {}
+
+    /**
+     * Assigns the tasks of every garden with rotations each morning, after growth stages
+     * have raised the day's harvest tasks
+     * A failing garden is logged and does not stop the others from being assigned
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_8AM)
+    async handleDailyRotations(): Promise<void> {
+        const gardenIds = await this.gardenRepository.getGardenIds();
+
+        for (const gardenId of gardenIds) {
+            try {
+                await this.applyRotations(gardenId);
+            } catch (error) {
+                this.logger.error(`Failed to apply task rotations for garden ${gardenId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Lists the pending tasks of a garden nobody is assigned to, which any worker may claim
+     * @param gardenId Garden identifier
+     * @param userId User asking, who must have access to the garden
+     * @param now Current time
+     * @returns Promise<ISchedule[]> Unassigned tasks, overdue ones included
+     */
+    async listPool(gardenId: string, userId: string, now: Date = new Date()): Promise<ISchedule[]> {
+        await this.requireGardenForUser(gardenId, userId);
+
+        return this.scheduleRepository.getPendingTasks(
+            new Date(0),
+            moment(now).add(TASK_ASSIGNMENT_LIMITS.POOL_LOOKAHEAD_DAYS, 'days').toDate(),
+            { gardenId, completed: false, assigned: false }
+        );
+    }
+
+    /**
+     * Assigns a pending task to the owner or a collaborator, replacing any earlier assignee
+     * The assignee is told about the task
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @param userId User assigning the task, who must be the owner or a collaborator
+     * @param assigneeId User the task is assigned to
+     * @param now Current time
+     * @returns Promise<ISchedule> Assigned task
+     */
+    async assignTask(
+        gardenId: string,
+        scheduleId: string,
+        userId: string,
+        assigneeId: string,
+        now: Date = new Date()
+    ): Promise<ISchedule> {
+        const garden = await this.requireWorkerGarden(gardenId, userId, new ForbiddenError(TASK_ASSIGNMENT_ERRORS.NOT_ALLOWED));
+        if (!assigneeId || !this.getWorkerIds(garden).includes(assigneeId)) {
+            throw new BadRequestError(TASK_ASSIGNMENT_ERRORS.NOT_ASSIGNABLE);
+        }
+        await this.requirePendingTask(gardenId, scheduleId);
+
+        const assigned = await this.scheduleRepository.assignTask(scheduleId, assigneeId, now);
+        if (!assigned) {
+            throw new ConflictError(TASK_ASSIGNMENT_ERRORS.TASK_COMPLETED);
+        }
+
+        await this.notifyAssignees(garden, [assigned], now);
+        this.logger.log(`Task ${scheduleId} of garden ${gardenId} assigned to user ${assigneeId}`);
+        return assigned;
+    }
+
+    /**
+     * Claims an unassigned task from the garden's pool
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @param userId User claiming the task, who must be the owner or a collaborator
+     * @param now Current time
+     * @returns Promise<ISchedule> Claimed task
+     */
+    async claimTask(gardenId: string, scheduleId: string, userId: string, now: Date = new Date()): Promise<ISchedule> {
+        await this.requireWorkerGarden(gardenId, userId, new BadRequestError(TASK_ASSIGNMENT_ERRORS.NOT_ASSIGNABLE));
+        const task = await this.requirePendingTask(gardenId, scheduleId);
+
+        if (task.assigneeId) {
+            throw new ConflictError(TASK_ASSIGNMENT_ERRORS.TASK_ASSIGNED);
+        }
+        // The update re-checks the task is unassigned, so a task claimed concurrently fails here
+        const claimed = await this.scheduleRepository.claimTask(scheduleId, userId, now);
+        if (!claimed) {
+            throw new ConflictError(TASK_ASSIGNMENT_ERRORS.TASK_ASSIGNED);
+        }
+
+        this.logger.log(`Task ${scheduleId} of garden ${gardenId} claimed by user ${userId}`);
+        return claimed;
+    }
+
+    /**
+     * Puts an assigned task back in the garden's pool
+     * Assignees hand back their own tasks; the owner may unassign any task
+     * @param gardenId Garden identifier
+     * @param scheduleId Task identifier
+     * @param userId User unassigning the task
+     * @returns Promise<ISchedule> Unassigned task
+     */
+    async unassignTask(gardenId: string, scheduleId: string, userId: string): Promise<ISchedule> {
+        const garden = await this.requireGardenForUser(gardenId, userId);
+        const task = await this.requirePendingTask(gardenId, scheduleId);
+
+        if (!task.assigneeId ||
+            (task.assigneeId !== userId && garden.ownerId !== userId)) {
+            throw new ForbiddenError(TASK_ASSIGNMENT_ERRORS.TASK_NOT_ASSIGNED);
+        }
+        const released = await this.scheduleRepository.releaseTask(scheduleId, task.assigneeId);
+        if (!released) {
+            throw new ForbiddenError(TASK_ASSIGNMENT_ERRORS.TASK_NOT_ASSIGNED);
+        }
+        return released;
+    }
+
+    /**
+     * Lists the duties that pass between a garden's users in turn
+     * @param gardenId Garden identifier
+     * @param userId User asking, who must have access to the garden
+     * @returns Promise<IGardenTaskRotation[]> Rotations of the garden
+     */
+    async listRotations(gardenId: string, userId: string): Promise<IGardenTaskRotation[]> {
+        const garden = await this.requireGardenForUser(gardenId, userId);
+        return garden.taskRotations || [];
+    }
+
+    /**
+     * Sets the rotation of a task type, replacing any earlier one for the type
+     * Unassigned tasks of the type due soon are assigned straight away
+     * @param gardenId Garden identifier
+     * @param userId User setting the rotation, who must be the owner or a collaborator
+     * @param taskType Type of task the rotation assigns
+     * @param input Users taking turns and how long each turn lasts
+     * @param now Current time
+     * @returns Promise<IGardenTaskRotation> Rotation as stored
+     */
+    async setRotation(
+        gardenId: string,
+        userId: string,
+        taskType: TaskType,
+        input: ITaskRotationInput,
+        now: Date = new Date()
+    ): Promise<IGardenTaskRotation> {
+        const garden = await this.requireWorkerGarden(gardenId, userId, new ForbiddenError(TASK_ASSIGNMENT_ERRORS.NOT_ALLOWED));
+        if (!Object.values(TaskType).includes(taskType)) {
+            throw new BadRequestError(SCHEDULE_ERRORS.INVALID_TASK_TYPE);
+        }
+
+        const userIds = input?.userIds || [];
+        if (!userIds.length ||
+            userIds.length > TASK_ASSIGNMENT_LIMITS.MAX_ROTATION_USERS ||
+            new Set(userIds).size !== userIds.length) {
+            throw new BadRequestError(TASK_ASSIGNMENT_ERRORS.INVALID_ROTATION);
+        }
+        const workerIds = this.getWorkerIds(garden);
+        if (userIds.some(rotationUserId => !workerIds.includes(rotationUserId))) {
+            throw new BadRequestError(TASK_ASSIGNMENT_ERRORS.NOT_ASSIGNABLE);
+        }
+        if (!Number.isInteger(input.periodDays) ||
+            input.periodDays < TASK_ASSIGNMENT_LIMITS.MIN_PERIOD_DAYS ||
+            input.periodDays > TASK_ASSIGNMENT_LIMITS.MAX_PERIOD_DAYS) {
+            throw new BadRequestError(TASK_ASSIGNMENT_ERRORS.INVALID_PERIOD);
+        }
+
+        const rotation: IGardenTaskRotation = {
+            taskType,
+            userIds,
+            periodDays: input.periodDays,
+            startsOn: moment.utc(input.startsOn ?? now).startOf('day').toDate()
+        };
+        await this.gardenRepository.setTaskRotations(gardenId, [
+            ...(garden.taskRotations || []).filter(existing => existing.taskType !== taskType),
+            rotation
+        ]);
+        await this.applyRotations(gardenId, now);
+
+        this.logger.log(`Rotation of ${taskType} set for garden ${gardenId} between ${userIds.length} users`);
+        return rotation;
+    }
+
+    /**
+     * Stops rotating a task type; tasks already assigned keep their assignee
+     * @param gardenId Garden identifier
+     * @param userId User removing the rotation, who must be the owner or a collaborator
+     * @param taskType Type of task the rotation assigns
+     */
+    async removeRotation(gardenId: string, userId: string, taskType: TaskType): Promise<void> {
+        const garden = await this.requireWorkerGarden(gardenId, userId, new ForbiddenError(TASK_ASSIGNMENT_ERRORS.NOT_ALLOWED));
+        const rotations = garden.taskRotations || [];
+        if (!rotations.some(rotation => rotation.taskType === taskType)) {
+            throw new NotFoundError(TASK_ASSIGNMENT_ERRORS.ROTATION_NOT_FOUND);
+        }
+
+        await this.gardenRepository.setTaskRotations(
+            gardenId,
+            rotations.filter(rotation => rotation.taskType !== taskType)
+        );
+    }
+
+    /**
+     * Assigns the unassigned tasks of a garden due soon to whoever's turn it is on their due date
+     * Users who no longer work the garden are skipped, passing their turns to the others.
+     * Each assignee is told about the tasks they were given
+     * @param gardenId Garden identifier
+     * @param now Current time
+     * @returns Promise<ISchedule[]> Tasks assigned
+     */
+    async applyRotations(gardenId: string, now: Date = new Date()): Promise<ISchedule[]> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        const rotations = garden.taskRotations || [];
+        if (!rotations.length) {
+            return [];
+        }
+
+        const tasks = await this.scheduleRepository.getPendingTasks(
+            new Date(0),
+            moment(now).add(TASK_ASSIGNMENT_LIMITS.ROTATION_LOOKAHEAD_DAYS, 'days').toDate(),
+            { gardenId, completed: false, assigned: false, taskTypes: rotations.map(rotation => rotation.taskType) }
+        );
+        const workerIds = this.getWorkerIds(garden);
+
+        const assigned: ISchedule[] = [];
+        for (const task of tasks) {
+            const rotation = rotations.find(candidate => candidate.taskType === task.taskType);
+            const assigneeId = rotation && this.getTurn(rotation, workerIds, task.dueDate);
+            if (!assigneeId) {
+                continue;
+            }
+            // Claiming only succeeds while the task is unassigned, so claims made meanwhile stand
+            const claimed = await this.scheduleRepository.claimTask(task.id, assigneeId, now);
+            if (claimed) {
+                assigned.push(claimed);
+            }
+        }
+
+        if (assigned.length) {
+            await this.notifyAssignees(garden, assigned, now);
+            this.logger.log(`Assigned ${assigned.length} tasks of garden ${gardenId} by rotation`);
+        }
+        return assigned;
+    }
+
+    /**
+     * Lists the tasks completed in a garden over a period and credits each user's work
+     * @param gardenId Garden identifier
+     * @param userId User asking, who must have access to the garden
+     * @param from Start of the period; TASK_ASSIGNMENT_LIMITS.HISTORY_DAYS before its end by default
+     * @param to End of the period; now by default
+     * @param now Current time
+     * @returns Promise<ITaskCompletionHistory> Completed tasks with totals per user
+     */
+    async getCompletionHistory(
+        gardenId: string,
+        userId: string,
+        from?: Date,
+        to?: Date,
+        now: Date = new Date()
+    ): Promise<ITaskCompletionHistory> {
+        await this.requireGardenForUser(gardenId, userId);
+        const end = to ?? now;
+        const start = from ?? moment(end).subtract(TASK_ASSIGNMENT_LIMITS.HISTORY_DAYS, 'days').toDate();
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end ||
+            moment(end).diff(moment(start), 'days') > TASK_ASSIGNMENT_LIMITS.MAX_HISTORY_DAYS) {
+            throw new BadRequestError(TASK_ASSIGNMENT_ERRORS.INVALID_HISTORY_PERIOD);
+        }
+
+        const tasks = await this.scheduleRepository.getCompletedTasks(gardenId, start, end);
+
+        const contributorsById = new Map<string, ITaskContributor>();
+        let unattributedTasks = 0;
+        for (const task of tasks) {
+            if (!task.completedBy) {
+                unattributedTasks++;
+                continue;
+            }
+            const contributor = contributorsById.get(task.completedBy)
+                ?? { userId: task.completedBy, completedTasks: 0, taskTypes: {} };
+            contributor.completedTasks++;
+            contributor.taskTypes[task.taskType] = (contributor.taskTypes[task.taskType] || 0) + 1;
+            contributorsById.set(task.completedBy, contributor);
+        }
+
+        const users = await this.userRepository.getUsersByIds([...contributorsById.keys()]);
+        const usersById = new Map(users.map(user => [user.id, user]));
+        const contributors = [...contributorsById.values()]
+            .map(contributor => ({ ...contributor, name: usersById.get(contributor.userId)?.name }))
+            .sort((a, b) => b.completedTasks - a.completedTasks);
+
+        return { gardenId, from: start, to: end, tasks, contributors, unattributedTasks };
+    }
+
+    /**
+     * Works out whose turn a rotation gives a day to, among the users still working the garden
+     * @private
+     */
+    private getTurn(rotation: IGardenTaskRotation, workerIds: string[], dueDate: Date): string | undefined {
+        const userIds = rotation.userIds.filter(rotationUserId => workerIds.includes(rotationUserId));
+        if (!userIds.length) {
+            return undefined;
+        }
+
+        const days = moment.utc(dueDate).startOf('day').diff(moment.utc(rotation.startsOn).startOf('day'), 'days');
+        const turn = Math.floor(days / rotation.periodDays);
+        // Tasks due before the rotation starts count turns backwards
+        return userIds[((turn % userIds.length) + userIds.length) % userIds.length];
+    }
+
+    /**
+     * Lists the users who work a garden and can be given its tasks: the owner and collaborators
+     * @private
+     */
+    private getWorkerIds(garden: IGarden): string[] {
+        return [
+            ...(garden.ownerId ? [garden.ownerId] : []),
+            ...(garden.members || [])
+                .filter(member => member.role === GARDEN_ROLES.COLLABORATOR)
+                .map(member => member.userId)
+        ];
+    }
+
+    /**
+     * Tells each assignee about the tasks they were given, on every device they registered
+     * @private
+     */
+    private async notifyAssignees(garden: IGarden, tasks: ISchedule[], now: Date): Promise<void> {
+        const deviceTokens = await this.userRepository.getDeviceTokens(tasks.map(task => task.assigneeId!));
+        const notifications = tasks.flatMap(task =>
+            addressTaskNotification(this.buildNotification(garden, task, now), task, deviceTokens)
+        );
+
+        if (notifications.length) {
+            await this.notificationScheduler.scheduleBatchNotifications(notifications, now);
+        }
+    }
+
+    /**
+     * Builds the notification telling an assignee about a task they were given
+     * @private
+     */
+    private buildNotification(garden: IGarden, task: ISchedule, now: Date): INotificationPayload {
+        const zone = (garden.zones || []).find(gardenZone =>
+            (gardenZone.plants || []).some(zonePlant => zonePlant.id === task.plantId)
+        );
+        const plant = zone?.plants.find(zonePlant => zonePlant.id === task.plantId);
+
+        return {
+            title: 'Task assigned to you',
+            body: `${task.taskType} is due ${moment(task.dueDate).format('MMMM D')}`,
+            type: NotificationType.MAINTENANCE_REMINDER,
+            data: {
+                scheduleId: task.id,
+                gardenId: task.gardenId
+            },
+            priority: 'normal',
+            gardenZone: zone?.id ?? '',
+            plantType: plant?.type ?? '',
+            scheduledTime: now
+        };
+    }
+
+    /**
+     * Retrieves a garden the user has access to
+     * @private
+     */
+    private async requireGardenForUser(gardenId: string, userId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenForUser(gardenId, userId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+
+    /**
+     * Retrieves a garden the user works as its owner or a collaborator
+     * @private
+     */
+    private async requireWorkerGarden(gardenId: string, userId: string, error: Error): Promise<IGarden> {
+        const garden = await this.requireGardenForUser(gardenId, userId);
+        const role = garden.ownerId === userId
+            ? GARDEN_ROLES.OWNER
+            : (garden.members || []).find(member => member.userId === userId)?.role;
+        if (!role || !GARDEN_PERMISSION_ROLES['write:own_schedule'].includes(role)) {
+            throw error;
+        }
+        return garden;
+    }
+
+    /**
+     * Retrieves a pending task of a garden
+     * @private
+     */
+    private async requirePendingTask(gardenId: string, scheduleId: string): Promise<ISchedule> {
+        const task = await this.scheduleRepository.getScheduleById(scheduleId);
+        if (!task || task.gardenId !== gardenId) {
+            throw new NotFoundError(SCHEDULE_ERRORS.SCHEDULE_NOT_FOUND);
+        }
+        if (task.completed) {
+            throw new ConflictError(TASK_ASSIGNMENT_ERRORS.TASK_COMPLETED);
+        }
+        return task;
+    }
+}
@@ -0,0 +1,616 @@
+/**
+ * Water Balance Service
+ * @packageVersion 5.0
+ *
+ * Keeps a daily soil water balance for every garden zone: rain and irrigation soak in,
+ * evapotranspiration estimated from the day's temperature, humidity and wind is lost from
+ * bare soil, and the zone's plants draw their water requirement scaled to the day's
+ * evaporative demand. The soil holds what its type allows over the root depth; watering is
+ * due when the zone is projected to fall to its refill point. Soil moisture measured by
+ * sensors in a zone corrects the modelled balance.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule'; // ^2.0.0
+import moment from 'moment'; // ^2.29.0
+import { GardenRepository } from '../repositories/garden.repository';
+import { PlantRepository } from '../repositories/plant.repository';
+import { RainfallRepository } from '../repositories/rainfall.repository';
+import { WaterBalanceRepository } from '../repositories/water-balance.repository';
+import { PlantCatalogService } from './plant-catalog.service';
+import { WeatherService } from './weather/weather.service';
+import { SensorService } from './sensor.service';
+import { IGarden, IGardenZone } from '../interfaces/garden.interface';
+import { IPlant } from '../interfaces/plant.interface';
+import { ISchedule } from '../interfaces/schedule.interface';
+import { IDailyForecast, IRainfallObservation, IWeatherForecast } from '../interfaces/weather.interface';
+import {
+    IIrrigationEvent,
+    IZoneWaterBalance,
+    IZoneWaterBalanceReport
+} from '../interfaces/water-balance.interface';
+import {
+    IRRIGATION_SOURCES,
+    IrrigationSource,
+    SOIL_WATER_CAPACITY_MM_PER_M,
+    WATER_BALANCE_DEFAULTS,
+    WATER_BALANCE_ERRORS
+} from '../constants/water-balance.constants';
+import { RAIN_RESCHEDULING } from '../constants/schedule.constants';
+import { DEFAULT_ENVIRONMENTAL_FACTORS } from '../constants/weather.constants';
+import { BadRequestError, NotFoundError } from '../utils/error.utils';
+
+const SQUARE_METRES_PER_SQUARE_FOOT = 0.092903;
+const INCHES_PER_FOOT = 12;
+
+/**
+ * What a zone's plants draw and how much of its soil they leave bare
+ */
+interface ZoneLoad {
+    capacityMm: number;
+    referenceDemandMm: number;  // Plant demand on a day at the reference evapotranspiration
+    bareFraction: number;
+}
+
+/**
+ * Projected day a zone falls to its refill point
+ */
+interface WateringProjection {
+    days: number;
+    refillMm: number;
+}
+
+@Injectable()
+export class WaterBalanceService {
+    private readonly logger = new Logger(WaterBalanceService.name);
+
+    constructor(
+        private readonly gardenRepository: GardenRepository,
+        private readonly plantRepository: PlantRepository,
+        private readonly rainfallRepository: RainfallRepository,
+        private readonly waterBalanceRepository: WaterBalanceRepository,
+        private readonly plantCatalog: PlantCatalogService,
+        private readonly weatherService: WeatherService,
+        private readonly sensorService: SensorService
+    ) {}
+
+    /**
+     * Closes the day's balance of every garden zone
+     * A failing garden is logged and does not stop the others from being balanced
+     */
+    @Cron(CronExpression.EVERY_DAY_AT_11PM)
+    async handleDailyBalances(): Promise<void> {
+        const gardenIds = await this.gardenRepository.getGardenIds();
+
+        for (const gardenId of gardenIds) {
+            try {
+                await this.updateGardenBalances(gardenId);
+            } catch (error) {
+                this.logger.error(`Failed to update water balance for garden ${gardenId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Brings the balance of every zone of a garden up to a day
+     * Days since a zone's last balance are filled in, and the last one recalculated, so rain
+     * and irrigation recorded since are taken in
+     * @param gardenId Garden identifier
+     * @param now Instant within the last day to balance; defaults to now
+     * @returns Promise<IZoneWaterBalance[]> Each zone's balance on that day
+     */
+    async updateGardenBalances(gardenId: string, now: Date = new Date()): Promise<IZoneWaterBalance[]> {
+        const garden = await this.requireGarden(gardenId);
+        const [plants, forecast] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(gardenId),
+            this.getForecast(gardenId)
+        ]);
+
+        const balances: IZoneWaterBalance[] = [];
+        for (const zone of garden.zones || []) {
+            const history = await this.updateZoneBalance(garden, zone, plants, forecast, now);
+            balances.push(history[history.length - 1]);
+        }
+
+        return balances;
+    }
+
+    /**
+     * Reports a zone's balance history and when it next needs watering
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param days Number of days of history, ending today
+     * @param now Current time
+     * @returns Promise<IZoneWaterBalanceReport>
+     */
+    async getZoneWaterBalance(
+        gardenId: string,
+        zoneId: string,
+        days: number = WATER_BALANCE_DEFAULTS.DEFAULT_HISTORY_DAYS,
+        now: Date = new Date()
+    ): Promise<IZoneWaterBalanceReport> {
+        if (!Number.isInteger(days) || days < 1 || days > WATER_BALANCE_DEFAULTS.MAX_HISTORY_DAYS) {
+            throw new BadRequestError(WATER_BALANCE_ERRORS.INVALID_HISTORY_DAYS);
+        }
+
+        const garden = await this.requireGarden(gardenId);
+        const zone = this.requireZone(garden, zoneId);
+        const [plants, forecast] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(gardenId),
+            this.getForecast(gardenId)
+        ]);
+
+        const updated = await this.updateZoneBalance(garden, zone, plants, forecast, now);
+        const today = updated[updated.length - 1];
+        const history = await this.waterBalanceRepository.findBalances(
+            gardenId,
+            zoneId,
+            moment.utc(today.date).subtract(days - 1, 'days').toDate(),
+            today.date
+        );
+
+        const load = this.getZoneLoad(zone, plants);
+        const projection = this.projectWatering(garden, load, today, forecast);
+
+        return {
+            gardenId,
+            zoneId,
+            soilType: today.soilType,
+            capacityMm: load.capacityMm,
+            refillPointMm: this.getRefillPoint(load),
+            history,
+            nextWateringDate: projection
+                ? moment(now).add(projection.days, 'days').toDate()
+                : undefined,
+            refillMm: projection?.refillMm
+        };
+    }
+
+    /**
+     * Records water applied to a zone and updates the zone's balance
+     * @param gardenId Garden identifier
+     * @param zoneId Zone identifier
+     * @param amountMm Water applied in millimetres over the zone
+     * @param source How the water was applied
+     * @param appliedAt When the water was applied; defaults to now
+     * @param scheduleId Watering task completed by the irrigation
+     * @returns Promise<IIrrigationEvent> Stored irrigation event
+     */
+    async recordIrrigation(
+        gardenId: string,
+        zoneId: string,
+        amountMm: number,
+        source: IrrigationSource = IRRIGATION_SOURCES.MANUAL,
+        appliedAt: Date = new Date(),
+        scheduleId?: string
+    ): Promise<IIrrigationEvent> {
+        if (!Number.isFinite(amountMm) || amountMm <= 0) {
+            throw new BadRequestError(WATER_BALANCE_ERRORS.INVALID_IRRIGATION);
+        }
+
+        const garden = await this.requireGarden(gardenId);
+        this.requireZone(garden, zoneId);
+
+        const event = await this.waterBalanceRepository.createIrrigation({
+            gardenId,
+            zoneId,
+            appliedAt,
+            amountMm: this.round(amountMm),
+            source,
+            scheduleId
+        });
+        await this.updateGardenBalances(gardenId, appliedAt);
+
+        return event;
+    }
+
+    /**
+     * Credits a completed watering task to its plant's zone and works out when the zone
+     * next needs watering
+     * The zone counts as watered back to capacity, unless the task was carried out by an
+     * irrigation valve, whose delivered water is spread over the zone instead
+     * @param schedule Completed watering task
+     * @param completedAt When the task was completed
+     * @param deliveredMl Water a valve delivered for the task in millilitres
+     * @returns Promise<Date | undefined> Next watering date; undefined when the plant is in no zone
+     */
+    async scheduleNextWatering(
+        schedule: ISchedule,
+        completedAt: Date,
+        deliveredMl?: number
+    ): Promise<Date | undefined> {
+        const garden = await this.requireGarden(schedule.gardenId);
+        const zone = this.findPlantZone(garden, schedule.plantId);
+        if (!zone) {
+            return undefined;
+        }
+
+        const [plants, forecast] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(garden.id),
+            this.getForecast(garden.id)
+        ]);
+        const load = this.getZoneLoad(zone, plants);
+
+        const before = await this.updateZoneBalance(garden, zone, plants, forecast, completedAt);
+        const areaM2 = zone.area * SQUARE_METRES_PER_SQUARE_FOOT;
+        const refillMm = deliveredMl !== undefined
+            ? this.round(areaM2 > 0 ? deliveredMl / (areaM2 * 1000) : 0)
+            : this.round(load.capacityMm - before[before.length - 1].endMm);
+        let today = before[before.length - 1];
+        if (refillMm > 0) {
+            await this.waterBalanceRepository.createIrrigation({
+                gardenId: garden.id,
+                zoneId: zone.id,
+                appliedAt: completedAt,
+                amountMm: refillMm,
+                source: deliveredMl !== undefined ? IRRIGATION_SOURCES.VALVE : IRRIGATION_SOURCES.TASK,
+                scheduleId: schedule.id
+            });
+            const after = await this.updateZoneBalance(garden, zone, plants, forecast, completedAt);
+            today = after[after.length - 1];
+        }
+
+        const projection = this.projectWatering(garden, load, today, forecast);
+        const days = Math.max(1, projection?.days ?? WATER_BALANCE_DEFAULTS.MAX_PROJECTION_DAYS);
+        return moment(completedAt).add(days, 'days').toDate();
+    }
+
+    /**
+     * Returns the share of its capacity a plant's zone holds today
+     * @param plant Plant record
+     * @returns Promise<number | undefined> Soil moisture from 0 to 1; undefined when the plant is in no zone
+     */
+    async getPlantSoilMoisture(plant: IPlant): Promise<number | undefined> {
+        if (!plant.gardenId) {
+            return undefined;
+        }
+
+        const garden = await this.requireGarden(plant.gardenId);
+        const zone = this.findPlantZone(garden, plant.id);
+        if (!zone) {
+            return undefined;
+        }
+
+        const [plants, forecast] = await Promise.all([
+            this.plantRepository.getPlantsByGarden(garden.id),
+            this.getForecast(garden.id)
+        ]);
+        const history = await this.updateZoneBalance(garden, zone, plants, forecast, new Date());
+        const today = history[history.length - 1];
+
+        return today.capacityMm > 0 ? this.round(today.endMm / today.capacityMm) : undefined;
+    }
+
+    /**
+     * Estimates the reference evapotranspiration of a day
+     * Hargreaves' estimate from the temperature range and the radiation reaching the top of
+     * the atmosphere, corrected for dry air and wind which it does not see
+     * @param day Forecast or observed day
+     * @param latitude Latitude of the garden; a default estimate is used when unknown
+     * @returns number Reference evapotranspiration in millimetres
+     */
+    estimateReferenceEt(day: IDailyForecast, latitude?: number): number {
+        const defaults = WATER_BALANCE_DEFAULTS;
+        const clampCorrection = (value: number) =>
+            Math.min(defaults.MAX_CORRECTION, Math.max(defaults.MIN_CORRECTION, value));
+
+        let et: number = defaults.DEFAULT_ET_MM;
+        if (latitude !== undefined && latitude !== null && Number.isFinite(latitude)) {
+            const meanTemperature = (day.minTemperature + day.maxTemperature) / 2;
+            const range = Math.max(0, day.maxTemperature - day.minTemperature);
+            et = 0.0023 * this.getExtraterrestrialRadiationMm(day.date, latitude)
+                * Math.max(0, meanTemperature + 17.8) * Math.sqrt(range);
+        }
+
+        const humidityCorrection = clampCorrection(
+            1 + defaults.HUMIDITY_COEFFICIENT * (defaults.REFERENCE_HUMIDITY - day.humidity)
+        );
+        const windCorrection = clampCorrection(
+            1 + defaults.WIND_COEFFICIENT * (day.windSpeed - defaults.REFERENCE_WIND_KMH)
+        );
+
+        return this.round(Math.max(0, et * humidityCorrection * windCorrection));
+    }
+
+    /**
+     * Brings one zone's balance up to the day of an instant, returning the days recalculated
+     * @private
+     */
+    private async updateZoneBalance(
+        garden: IGarden,
+        zone: IGardenZone,
+        plants: IPlant[],
+        forecast: IWeatherForecast | undefined,
+        now: Date
+    ): Promise<IZoneWaterBalance[]> {
+        const load = this.getZoneLoad(zone, plants);
+        const today = moment.utc(now).startOf('day');
+        const latest = await this.waterBalanceRepository.findLatestBalance(garden.id, zone.id, today.toDate());
+
+        // The latest kept day is recalculated; a zone with no balance starts the day full
+        let day = latest ? moment.utc(latest.date) : today.clone();
+        let startMm: number = latest ? latest.startMm : load.capacityMm;
+        const earliest = today.clone().subtract(WATER_BALANCE_DEFAULTS.MAX_CATCH_UP_DAYS, 'days');
+        if (day.isBefore(earliest)) {
+            day = earliest;
+            startMm = latest!.endMm;
+        }
+
+        const [observations, irrigation, moistureReadings] = await Promise.all([
+            this.rainfallRepository.findByGarden(
+                garden.id,
+                day.toDate(),
+                today.clone().add(1, 'day').toDate()
+            ),
+            this.waterBalanceRepository.findIrrigation(
+                garden.id,
+                zone.id,
+                day.toDate(),
+                today.clone().add(1, 'day').toDate()
+            ),
+            this.sensorService.getZoneSoilMoisture(
+                garden.id,
+                zone.id,
+                day.toDate(),
+                today.clone().add(1, 'day').toDate()
+            )
+        ]);
+
+        const balances: IZoneWaterBalance[] = [];
+        for (; !day.isAfter(today); day.add(1, 'day')) {
+            const dayStart = day.toDate();
+            const dayEnd = day.clone().add(1, 'day').toDate();
+            const inDay = (date: Date) => date >= dayStart && date < dayEnd;
+            const stored = latest && day.isSame(moment.utc(latest.date), 'day') ? latest : undefined;
+            // Readings come oldest first; the day's last one is the closest to its end
+            const measured = moistureReadings.filter(reading => inDay(reading.recordedAt)).pop();
+
+            const balance = this.balanceDay(
+                garden,
+                zone,
+                load,
+                dayStart,
+                Math.min(startMm, load.capacityMm),
+                observations.filter(observation => inDay(observation.observedAt)),
+                irrigation.filter(event => inDay(event.appliedAt)).reduce((sum, event) => sum + event.amountMm, 0),
+                this.findForecastDay(forecast, dayStart),
+                stored,
+                measured ? load.capacityMm * measured.value / 100 : undefined
+            );
+            balances.push(await this.waterBalanceRepository.saveBalance(balance));
+            startMm = balance.endMm;
+        }
+
+        return balances;
+    }
+
+    /**
+     * Works out a zone's balance over one day
+     * A day that is neither forecast nor kept falls back to the default conditions; soil
+     * water measured during the day replaces the modelled end of the day
+     * @private
+     */
+    private balanceDay(
+        garden: IGarden,
+        zone: IGardenZone,
+        load: ZoneLoad,
+        date: Date,
+        startMm: number,
+        observations: IRainfallObservation[],
+        irrigationMm: number,
+        forecastDay: IDailyForecast | undefined,
+        stored: IZoneWaterBalance | undefined,
+        measuredMm?: number
+    ): Omit<IZoneWaterBalance, 'id'> {
+        const referenceEtMm = forecastDay
+            ? this.estimateReferenceEt(forecastDay, garden.latitude)
+            : stored?.referenceEtMm ?? this.estimateReferenceEt(this.getDefaultDay(date), garden.latitude);
+
+        let rainfallMm = 0;
+        if (observations.length) {
+            rainfallMm = this.soakIn(observations.reduce((sum, observation) => sum + observation.rainfallMm, 0));
+        } else if (forecastDay) {
+            rainfallMm = this.soakIn(forecastDay.rainfall);
+        }
+
+        const evaporationMm = referenceEtMm * WATER_BALANCE_DEFAULTS.SOIL_EVAPORATION_FACTOR * load.bareFraction;
+        const plantDemandMm = load.referenceDemandMm * referenceEtMm / WATER_BALANCE_DEFAULTS.REFERENCE_ET_MM;
+        const waterMm = startMm + rainfallMm + irrigationMm - evaporationMm - plantDemandMm;
+
+        return {
+            gardenId: garden.id,
+            zoneId: zone.id,
+            date,
+            soilType: zone.soilType ?? WATER_BALANCE_DEFAULTS.SOIL_TYPE,
+            capacityMm: load.capacityMm,
+            startMm: this.round(startMm),
+            rainfallMm: this.round(rainfallMm),
+            irrigationMm: this.round(irrigationMm),
+            evaporationMm: this.round(evaporationMm),
+            plantDemandMm: this.round(plantDemandMm),
+            referenceEtMm,
+            drainageMm: this.round(Math.max(0, waterMm - load.capacityMm)),
+            endMm: this.round(Math.min(load.capacityMm, Math.max(0, measuredMm ?? waterMm)))
+        };
+    }
+
+    /**
+     * Projects a zone forward from a day's balance until it falls to its refill point
+     * Forecast rain is discounted as it is when rescheduling watering for rain
+     * @private
+     */
+    private projectWatering(
+        garden: IGarden,
+        load: ZoneLoad,
+        today: IZoneWaterBalance,
+        forecast: IWeatherForecast | undefined
+    ): WateringProjection | undefined {
+        const refillPointMm = this.getRefillPoint(load);
+        let waterMm = today.endMm;
+
+        for (let days = 0; days <= WATER_BALANCE_DEFAULTS.MAX_PROJECTION_DAYS; days++) {
+            if (days > 0) {
+                const date = moment.utc(today.date).add(days, 'days').toDate();
+                const forecastDay = this.findForecastDay(forecast, date);
+                const referenceEtMm = this.estimateReferenceEt(forecastDay ?? this.getDefaultDay(date), garden.latitude);
+                const rainMm = forecastDay ? this.soakIn(forecastDay.rainfall * RAIN_RESCHEDULING.FORECAST_CONFIDENCE) : 0;
+                waterMm = Math.min(load.capacityMm, waterMm + rainMm
+                    - referenceEtMm * WATER_BALANCE_DEFAULTS.SOIL_EVAPORATION_FACTOR * load.bareFraction
+                    - load.referenceDemandMm * referenceEtMm / WATER_BALANCE_DEFAULTS.REFERENCE_ET_MM);
+            }
+
+            if (waterMm <= refillPointMm) {
+                return { days, refillMm: this.round(load.capacityMm - Math.max(0, waterMm)) };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Works out what a zone holds, what its plants draw and how much soil they leave bare
+     * Plants draw their daily water requirement on a day at the reference evapotranspiration
+     * @private
+     */
+    private getZoneLoad(zone: IGardenZone, plants: IPlant[]): ZoneLoad {
+        const soilType = zone.soilType ?? WATER_BALANCE_DEFAULTS.SOIL_TYPE;
+        const capacityMm = SOIL_WATER_CAPACITY_MM_PER_M[soilType] * WATER_BALANCE_DEFAULTS.ROOT_DEPTH_M;
+        const areaM2 = zone.area * SQUARE_METRES_PER_SQUARE_FOOT;
+        const plantsById = new Map(plants.map(plant => [plant.id, plant]));
+
+        let demandMl = 0;
+        let coveredSqFt = 0;
+        for (const zonePlant of zone.plants || []) {
+            const plant = plantsById.get(zonePlant.id);
+            const quantity = plant?.quantity ?? 1;
+            const waterRequirementMl = plant?.waterRequirementMl
+                ?? (plant ? this.plantCatalog.getEntry(plant.type)?.waterRequirementMl : undefined)
+                ?? 0;
+            demandMl += waterRequirementMl * quantity;
+            coveredSqFt += Math.pow((zonePlant.spacing ?? plant?.spacing ?? 0) / INCHES_PER_FOOT, 2) * quantity;
+        }
+
+        return {
+            capacityMm: this.round(capacityMm),
+            // One millimetre over one square metre is one litre
+            referenceDemandMm: areaM2 > 0 ? demandMl / (areaM2 * 1000) : 0,
+            bareFraction: zone.area > 0 ? Math.max(0, 1 - coveredSqFt / zone.area) : 1
+        };
+    }
+
+    /**
+     * Returns the soil water below which a zone needs watering
+     * @private
+     */
+    private getRefillPoint(load: ZoneLoad): number {
+        return this.round(load.capacityMm * (1 - WATER_BALANCE_DEFAULTS.ALLOWED_DEPLETION));
+    }
+
+    /**
+     * Returns the rain that soaks into the soil; light rain never reaches it and part of
+     * the rest runs off
+     * @private
+     */
+    private soakIn(rainMm: number): number {
+        return Math.max(0, rainMm - RAIN_RESCHEDULING.INTERCEPTION_MM) * RAIN_RESCHEDULING.INFILTRATION_FRACTION;
+    }
+
+    /**
+     * Builds a day from the default conditions for days without a forecast
+     * @private
+     */
+    private getDefaultDay(date: Date): IDailyForecast {
+        const { temperature, humidity, rainfall, windSpeed } = DEFAULT_ENVIRONMENTAL_FACTORS;
+        const halfRange = WATER_BALANCE_DEFAULTS.DEFAULT_TEMPERATURE_RANGE / 2;
+        return {
+            date,
+            minTemperature: temperature - halfRange,
+            maxTemperature: temperature + halfRange,
+            humidity,
+            rainfall,
+            windSpeed
+        };
+    }
+
+    /**
+     * Radiation reaching the top of the atmosphere on a day at a latitude, as millimetres of
+     * water it could evaporate (FAO-56 equations 21 to 25)
+     * @private
+     */
+    private getExtraterrestrialRadiationMm(date: Date, latitude: number): number {
+        const dayOfYear = moment.utc(date).dayOfYear();
+        const phi = latitude * Math.PI / 180;
+        const inverseDistance = 1 + 0.033 * Math.cos(2 * Math.PI * dayOfYear / 365);
+        const declination = 0.409 * Math.sin(2 * Math.PI * dayOfYear / 365 - 1.39);
+        const sunsetAngle = Math.acos(Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(declination))));
+        const radiationMj = (24 * 60 / Math.PI) * 0.082 * inverseDistance * (
+            sunsetAngle * Math.sin(phi) * Math.sin(declination)
+            + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle)
+        );
+
+        return 0.408 * Math.max(0, radiationMj);
+    }
+
+    /**
+     * Finds the forecast day an instant falls on
+     * @private
+     */
+    private findForecastDay(forecast: IWeatherForecast | undefined, date: Date): IDailyForecast | undefined {
+        return forecast?.daily.find(day => moment.utc(day.date).isSame(moment.utc(date), 'day'));
+    }
+
+    /**
+     * Retrieves the garden forecast, going on with default conditions when none is available
+     * @private
+     */
+    private async getForecast(gardenId: string): Promise<IWeatherForecast | undefined> {
+        try {
+            return await this.weatherService.getGardenForecast(gardenId);
+        } catch (error) {
+            this.logger.warn(`No forecast for garden ${gardenId}: ${error.message}; using default conditions`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Finds the zone a plant is placed in
+     * @private
+     */
+    private findPlantZone(garden: IGarden, plantId: string): IGardenZone | undefined {
+        return (garden.zones || []).find(zone =>
+            (zone.plants || []).some(zonePlant => zonePlant.id === plantId)
+        );
+    }
+
+    /**
+     * Retrieves a zone of a garden, failing when it does not exist
+     * @private
+     */
+    private requireZone(garden: IGarden, zoneId: string): IGardenZone {
+        const zone = (garden.zones || []).find(gardenZone => gardenZone.id === zoneId);
+        if (!zone) {
+            throw new NotFoundError(WATER_BALANCE_ERRORS.ZONE_NOT_FOUND);
+        }
+        return zone;
+    }
+
+    /**
+     * Retrieves a garden, failing when it does not exist
+     * @private
+     */
+    private async requireGarden(gardenId: string): Promise<IGarden> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+        return garden;
+    }
+
+    /**
+     * Rounds millimetres to two decimals
+     * @private
+     */
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import moment from 'moment'; // ^2.29.0
+
+import { WeatherProvider } from './weather-provider';
+import {
+    IDailyForecast,
+    IHourlyForecast,
+    IWeatherForecast,
+    IWeatherLocation
+} from '../../interfaces/weather.interface';
+import { WEATHER_DEFAULTS, WEATHER_ERRORS } from '../../constants/weather.constants';
+import bundledFixture from '../../db/fixtures/weather-forecast.json';
+
+/**
+ * Daily values of a fixture day; the date is assigned when the forecast is built
+ */
+type FixtureDay = Omit<IDailyForecast, 'date'>;
+
+/**
+ * Weather provider serving forecasts from a fixture file instead of a weather service
+ * The fixture holds a pattern of days that is laid out from today onwards and repeated
+ * for longer forecasts, so schedules can be generated offline and in tests
+ * @version 1.0.0
+ */
+export class FixtureWeatherProvider extends WeatherProvider {
+    readonly name = 'fixture';
+
+    private readonly days: FixtureDay[];
+
+    /**
+     * @param fixturePath Optional fixture file replacing the bundled fixture
+     * @param now Clock used to anchor the forecast on today
+     */
+    constructor(
+        fixturePath?: string,
+        private readonly now: () => Date = () => new Date()
+    ) {
+        super();
+        const fixture = fixturePath
+            ? JSON.parse(readFileSync(fixturePath, 'utf8'))
+            : bundledFixture;
+
+        if (!Array.isArray(fixture?.days) || fixture.days.length === 0) {
+            throw new Error(WEATHER_ERRORS.INVALID_FIXTURE);
+        }
+        this.days = fixture.days;
+    }
+
+    /**
+     * Lays the fixture days out from today for the requested number of days
+     * @param location Latitude and longitude of the location
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast> Hourly and daily forecast
+     */
+    async getForecast(location: IWeatherLocation, days: number): Promise<IWeatherForecast> {
+        const today = moment.utc(this.now()).startOf('day');
+
+        const daily: IDailyForecast[] = Array.from({ length: days }, (_, index) => ({
+            ...this.days[index % this.days.length],
+            date: today.clone().add(index, 'days').toDate()
+        }));
+
+        const hourlyDays = Math.ceil(WEATHER_DEFAULTS.HOURLY_FORECAST_HOURS / 24);
+        const hourly = daily
+            .slice(0, hourlyDays)
+            .flatMap(day => this.spreadOverHours(day));
+
+        return {
+            location,
+            source: this.name,
+            issuedAt: this.now(),
+            hourly,
+            daily
+        };
+    }
+
+    /**
+     * Spreads a day's values over its hours
+     * Temperature follows a daily cycle peaking in the afternoon and rain falls evenly
+     * @private
+     */
+    private spreadOverHours(day: IDailyForecast): IHourlyForecast[] {
+        const midTemperature = (day.minTemperature + day.maxTemperature) / 2;
+        const amplitude = (day.maxTemperature - day.minTemperature) / 2;
+
+        return Array.from({ length: 24 }, (_, hour) => ({
+            time: moment.utc(day.date).add(hour, 'hours').toDate(),
+            temperature: Math.round(
+                (midTemperature + amplitude * Math.cos(2 * Math.PI * (hour - WEATHER_DEFAULTS.WARMEST_HOUR) / 24)) * 10
+            ) / 10,
+            humidity: day.humidity,
+            rainfall: Math.round((day.rainfall / 24) * 100) / 100,
+            windSpeed: day.windSpeed
+        }));
+    }
+}
@@ -0,0 +1,80 @@
+import { WeatherProvider } from './weather-provider';
+import {
+    IDailyForecast,
+    IHourlyForecast,
+    IWeatherForecast,
+    IWeatherLocation
+} from '../../interfaces/weather.interface';
+import { WEATHER_ERRORS } from '../../constants/weather.constants';
+
+/**
+ * Weather provider fetching forecasts from a weather HTTP service
+ * The service answers GET /forecast?latitude=&longitude=&days= with a forecast in the
+ * IWeatherForecast shape; the local stand-in serves the same API from the fixture
+ * @version 1.0.0
+ */
+export class HttpWeatherProvider extends WeatherProvider {
+    readonly name = 'http';
+
+    /**
+     * @param baseUrl Base URL of the weather service
+     * @param timeoutMs Maximum time to wait for a response in milliseconds
+     */
+    constructor(
+        private readonly baseUrl: string,
+        private readonly timeoutMs: number
+    ) {
+        super();
+    }
+
+    /**
+     * Fetches the forecast for a location
+     * @param location Latitude and longitude of the location
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast> Hourly and daily forecast
+     */
+    async getForecast(location: IWeatherLocation, days: number): Promise<IWeatherForecast> {
+        const url = new URL('/forecast', this.baseUrl);
+        url.searchParams.set('latitude', String(location.latitude));
+        url.searchParams.set('longitude', String(location.longitude));
+        url.searchParams.set('days', String(days));
+
+        const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) })
+            .catch((error) => {
+                throw new Error(`${WEATHER_ERRORS.PROVIDER_UNAVAILABLE}: ${error.message}`);
+            });
+
+        if (!response.ok) {
+            throw new Error(`${WEATHER_ERRORS.PROVIDER_UNAVAILABLE}: HTTP ${response.status}`);
+        }
+
+        return this.toForecast(await response.json(), location);
+    }
+
+    /**
+     * Converts a JSON forecast body, whose dates are ISO strings, into a forecast
+     * @private
+     */
+    private toForecast(body: any, location: IWeatherLocation): IWeatherForecast {
+        return {
+            location,
+            source: body.source ?? this.name,
+            issuedAt: body.issuedAt ? new Date(body.issuedAt) : new Date(),
+            hourly: (body.hourly ?? []).map((hour: any): IHourlyForecast => ({
+                time: new Date(hour.time),
+                temperature: Number(hour.temperature),
+                humidity: Number(hour.humidity),
+                rainfall: Number(hour.rainfall ?? 0),
+                windSpeed: Number(hour.windSpeed ?? 0)
+            })),
+            daily: (body.daily ?? []).map((day: any): IDailyForecast => ({
+                date: new Date(day.date),
+                minTemperature: Number(day.minTemperature),
+                maxTemperature: Number(day.maxTemperature),
+                humidity: Number(day.humidity),
+                rainfall: Number(day.rainfall ?? 0),
+                windSpeed: Number(day.windSpeed ?? 0)
+            }))
+        };
+    }
+}
@@ -0,0 +1,22 @@
+import { IWeatherForecast, IWeatherLocation } from '../../interfaces/weather.interface';
+
+/**
+ * Source of weather forecasts used for maintenance scheduling
+ * Implementations are selected through the weather configuration; the class doubles as
+ * the injection token for the configured provider
+ * @version 1.0.0
+ */
+export abstract class WeatherProvider {
+    /**
+     * Name recorded as the source of the forecasts this provider issues
+     */
+    abstract readonly name: string;
+
+    /**
+     * Retrieves the forecast for a location starting today
+     * @param location Latitude and longitude of the location
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast> Hourly and daily forecast
+     */
+    abstract getForecast(location: IWeatherLocation, days: number): Promise<IWeatherForecast>;
+}
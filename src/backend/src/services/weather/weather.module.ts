@@ -0,0 +1,49 @@
+/**
+ * Weather Module
+ * @packageVersion 5.0
+ *
+ * Provides the configured weather provider and the weather service that feeds forecast
+ * conditions into maintenance scheduling.
+ */
+
+import { Module } from '@nestjs/common'; // @version ^9.0.0
+
+import { WeatherProvider } from './weather-provider';
+import { FixtureWeatherProvider } from './fixture-weather.provider';
+import { HttpWeatherProvider } from './http-weather.provider';
+import { WeatherService } from './weather.service';
+import { weatherConfig, WeatherConfig } from '../../config/weather.config';
+import { WEATHER_PROVIDERS, WEATHER_ERRORS } from '../../constants/weather.constants';
+
+/**
+ * Creates the weather provider selected by the configuration
+ * @param config Weather configuration
+ * @returns WeatherProvider Fixture or HTTP weather provider
+ */
+export function createWeatherProvider(config: WeatherConfig): WeatherProvider {
+    switch (config.provider) {
+        case WEATHER_PROVIDERS.FIXTURE:
+            return new FixtureWeatherProvider(config.fixturePath);
+        case WEATHER_PROVIDERS.HTTP:
+            return new HttpWeatherProvider(config.apiUrl, config.requestTimeoutMs);
+        default:
+            throw new Error(`${WEATHER_ERRORS.UNKNOWN_PROVIDER}: ${config.provider}`);
+    }
+}
+
+/**
+ * Weather module exporting the weather service for schedule generation
+ */
+@Module({
+    providers: [
+        {
+            provide: WeatherProvider,
+            useFactory: () => createWeatherProvider(weatherConfig)
+        },
+        WeatherService
+    ],
+    exports: [WeatherService]
+})
+export class WeatherModule {
+    // Module configuration is handled through decorators
+}
@@ -0,0 +1,242 @@
+/**
+ * Service class for weather forecasts and the environmental conditions used in scheduling
+ * Fetches forecasts from the configured weather provider, caches them per location and
+ * derives the temperature, humidity, rainfall and wind a garden can expect on a given day
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // ^8.0.0
+import moment from 'moment'; // ^2.29.0
+
+import { WeatherProvider } from './weather-provider';
+import { GardenRepository } from '../../repositories/garden.repository';
+import { IGarden } from '../../interfaces/garden.interface';
+import {
+    IEnvironmentalFactors,
+    IWeatherForecast,
+    IWeatherLocation
+} from '../../interfaces/weather.interface';
+import {
+    WEATHER_DEFAULTS,
+    WEATHER_ERRORS,
+    DEFAULT_ENVIRONMENTAL_FACTORS
+} from '../../constants/weather.constants';
+import { weatherConfig } from '../../config/weather.config';
+import { BadRequestError, NotFoundError } from '../../utils/error.utils';
+
+/**
+ * Forecast cached for a rounded location
+ */
+interface CachedForecast {
+    forecast: IWeatherForecast;
+    expiresAt: number;
+}
+
+@Injectable()
+export class WeatherService {
+    private readonly logger = new Logger(WeatherService.name);
+    private readonly forecastCache = new Map<string, CachedForecast>();
+
+    constructor(
+        private readonly weatherProvider: WeatherProvider,
+        private readonly gardenRepository: GardenRepository
+    ) {}
+
+    /**
+     * Retrieves the forecast for a location, reusing a cached forecast while it is fresh
+     * Nearby locations share a forecast, and at least the default number of days is fetched
+     * so shorter requests for the same location are served from the cache
+     * @param location Latitude and longitude of the location
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast> Hourly and daily forecast
+     */
+    async getForecast(
+        location: IWeatherLocation,
+        days: number = WEATHER_DEFAULTS.FORECAST_DAYS
+    ): Promise<IWeatherForecast> {
+        this.validateLocation(location);
+        if (!Number.isInteger(days) || days < 1 || days > WEATHER_DEFAULTS.MAX_FORECAST_DAYS) {
+            throw new BadRequestError(WEATHER_ERRORS.INVALID_FORECAST_DAYS);
+        }
+
+        const cacheKey = this.getCacheKey(location);
+        const cached = this.forecastCache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now() && this.coversDays(cached.forecast, days)) {
+            return this.limitDays(cached.forecast, days);
+        }
+
+        const forecast = await this.weatherProvider.getForecast(
+            location,
+            Math.max(days, WEATHER_DEFAULTS.FORECAST_DAYS)
+        );
+        this.forecastCache.set(cacheKey, {
+            forecast,
+            expiresAt: Date.now() + weatherConfig.cacheTtlMinutes * 60 * 1000
+        });
+        this.logger.debug(`Fetched ${forecast.daily.length} day forecast from ${forecast.source} for ${cacheKey}`);
+
+        return this.limitDays(forecast, days);
+    }
+
+    /**
+     * Retrieves the forecast for a garden's location
+     * @param gardenId Garden identifier
+     * @param days Number of days to forecast
+     * @returns Promise<IWeatherForecast> Hourly and daily forecast
+     */
+    async getGardenForecast(gardenId: string, days?: number): Promise<IWeatherForecast> {
+        const garden = await this.gardenRepository.getGardenById(gardenId);
+        if (!garden) {
+            throw new NotFoundError(`Garden with ID ${gardenId} not found`);
+        }
+
+        const location = this.getGardenLocation(garden);
+        if (!location) {
+            throw new BadRequestError(WEATHER_ERRORS.INVALID_LOCATION);
+        }
+
+        return this.getForecast(location, days);
+    }
+
+    /**
+     * Works out the environmental conditions a garden can expect on a day
+     * Scheduling goes on with default conditions, with a warning, when the garden has no
+     * location or the weather provider cannot be reached
+     * @param gardenId Garden identifier
+     * @param date Day the conditions are needed for; defaults to today
+     * @returns Promise<IEnvironmentalFactors> Forecast or default conditions
+     */
+    async getGardenConditions(gardenId: string, date: Date = new Date()): Promise<IEnvironmentalFactors> {
+        try {
+            const garden = await this.gardenRepository.getGardenById(gardenId);
+            const location = garden ? this.getGardenLocation(garden) : undefined;
+            if (!location) {
+                this.logger.warn(`No location known for garden ${gardenId}; using default conditions`);
+                return { ...DEFAULT_ENVIRONMENTAL_FACTORS };
+            }
+
+            const forecast = await this.getForecast(location);
+            const factors = this.getEnvironmentalFactors(forecast, date);
+            if (!factors) {
+                this.logger.warn(`Forecast for garden ${gardenId} does not cover ${date.toISOString()}; using default conditions`);
+                return { ...DEFAULT_ENVIRONMENTAL_FACTORS };
+            }
+
+            return factors;
+        } catch (error) {
+            this.logger.warn(`Failed to get weather for garden ${gardenId}: ${error.message}; using default conditions`);
+            return { ...DEFAULT_ENVIRONMENTAL_FACTORS };
+        }
+    }
+
+    /**
+     * Derives the environmental conditions of one forecast day
+     * The day's highest temperature is used since heat stress is what brings tasks forward
+     * @param forecast Forecast to read
+     * @param date Day the conditions are needed for
+     * @returns IEnvironmentalFactors | undefined Conditions, or undefined when the day is not forecast
+     */
+    getEnvironmentalFactors(forecast: IWeatherForecast, date: Date): IEnvironmentalFactors | undefined {
+        const day = forecast.daily.find(daily => moment.utc(daily.date).isSame(moment.utc(date), 'day'));
+        if (!day) {
+            return undefined;
+        }
+
+        return {
+            temperature: day.maxTemperature,
+            humidity: day.humidity,
+            rainfall: day.rainfall,
+            windSpeed: day.windSpeed
+        };
+    }
+
+    /**
+     * Totals the rain forecast within a period
+     * Hourly values are used where the forecast has them and daily values, in proportion to
+     * the part of the day inside the period, beyond that
+     * @param forecast Forecast to read
+     * @param from Instant the period starts
+     * @param to Instant the period ends
+     * @returns number Forecast rainfall in millimetres
+     */
+    getForecastRainfall(forecast: IWeatherForecast, from: Date, to: Date): number {
+        const hourMs = 60 * 60 * 1000;
+        const dayMs = 24 * hourMs;
+        const overlap = (start: number, length: number): number =>
+            Math.max(0, Math.min(start + length, to.getTime()) - Math.max(start, from.getTime())) / length;
+
+        const lastHour = forecast.hourly[forecast.hourly.length - 1];
+        const hourlyEnd = lastHour ? lastHour.time.getTime() + hourMs : -Infinity;
+
+        const hourlyRain = forecast.hourly.reduce(
+            (sum, hour) => sum + hour.rainfall * overlap(hour.time.getTime(), hourMs),
+            0
+        );
+        const dailyRain = forecast.daily
+            .filter(day => day.date.getTime() >= hourlyEnd)
+            .reduce((sum, day) => sum + day.rainfall * overlap(day.date.getTime(), dayMs), 0);
+
+        return Math.round((hourlyRain + dailyRain) * 100) / 100;
+    }
+
+    /**
+     * Returns a garden's coordinates when both are known
+     * @private
+     */
+    private getGardenLocation(garden: IGarden): IWeatherLocation | undefined {
+        if (garden.latitude === undefined || garden.latitude === null
+            || garden.longitude === undefined || garden.longitude === null) {
+            return undefined;
+        }
+
+        return { latitude: garden.latitude, longitude: garden.longitude };
+    }
+
+    /**
+     * Validates forecast location coordinates
+     * @private
+     */
+    private validateLocation(location: IWeatherLocation): void {
+        const { latitude, longitude } = location ?? {} as IWeatherLocation;
+        if (!Number.isFinite(latitude) || Math.abs(latitude) > 90
+            || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+            throw new BadRequestError(WEATHER_ERRORS.INVALID_LOCATION);
+        }
+    }
+
+    /**
+     * Builds the cache key of a location rounded to the cache precision
+     * @private
+     */
+    private getCacheKey(location: IWeatherLocation): string {
+        const precision = WEATHER_DEFAULTS.LOCATION_PRECISION;
+        return `${location.latitude.toFixed(precision)},${location.longitude.toFixed(precision)}`;
+    }
+
+    /**
+     * Checks whether a cached forecast still covers the requested days from today
+     * @private
+     */
+    private coversDays(forecast: IWeatherForecast, days: number): boolean {
+        const lastDay = forecast.daily[forecast.daily.length - 1];
+        return !!lastDay && moment.utc(lastDay.date).isSameOrAfter(
+            moment.utc().startOf('day').add(days - 1, 'days')
+        );
+    }
+
+    /**
+     * Trims a forecast to the requested days from today
+     * @private
+     */
+    private limitDays(forecast: IWeatherForecast, days: number): IWeatherForecast {
+        const today = moment.utc().startOf('day');
+        const end = today.clone().add(days, 'days');
+        const inRange = (date: Date) => !moment.utc(date).isBefore(today) && moment.utc(date).isBefore(end);
+
+        return {
+            ...forecast,
+            hourly: forecast.hourly.filter(hour => inRange(hour.time)),
+            daily: forecast.daily.filter(day => inRange(day.date))
+        };
+    }
+}
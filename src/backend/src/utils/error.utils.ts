@@ -0,0 +1,101 @@
+/**
+ * Application Error Utilities
+ * @packageVersion 5.0
+ *
+ * Typed errors services throw for expected failures, and the mapping controllers use to turn
+ * them into HTTP exceptions. The status follows the type of the error, never its message, so
+ * messages can change without changing responses. Errors of any other type are unexpected and
+ * answered with 500.
+ */
+
+import { HttpException, HttpStatus } from '@nestjs/common'; // ^8.0.0
+
+/**
+ * Base class of expected failures, carrying the HTTP status they are answered with
+ */
+export class ApplicationError extends Error {
+    constructor(message: string, readonly status: HttpStatus) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Input that fails validation
+ */
+export class BadRequestError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.BAD_REQUEST);
+    }
+}
+
+/**
+ * Missing or invalid credentials
+ */
+export class UnauthorizedError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.UNAUTHORIZED);
+    }
+}
+
+/**
+ * Operation the caller is not allowed to perform
+ */
+export class ForbiddenError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.FORBIDDEN);
+    }
+}
+
+/**
+ * Record that does not exist
+ */
+export class NotFoundError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.NOT_FOUND);
+    }
+}
+
+/**
+ * Operation conflicting with the current state of a record
+ */
+export class ConflictError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.CONFLICT);
+    }
+}
+
+/**
+ * Record that existed but can no longer be used
+ */
+export class GoneError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.GONE);
+    }
+}
+
+/**
+ * Request carrying more items than accepted at once
+ */
+export class PayloadTooLargeError extends ApplicationError {
+    constructor(message: string) {
+        super(message, HttpStatus.PAYLOAD_TOO_LARGE);
+    }
+}
+
+/**
+ * Maps an error thrown while handling a request to the HTTP exception returned for it
+ * @param error Error thrown by a service or by the controller itself
+ * @returns HttpException Exception with the status of the error type
+ */
+export function toHttpException(error: unknown): HttpException {
+    if (error instanceof HttpException) {
+        return error;
+    }
+    if (error instanceof ApplicationError) {
+        return new HttpException(error.message, error.status);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new HttpException(message, HttpStatus.INTERNAL_SERVER_ERROR);
+}
@@ -7,22 +7,24 @@
  * targeting 30% improvement in space utilization.
  */
 
-import { IGarden } from '../interfaces/garden.interface';
+import { IGarden, IGardenObstacle, IPoint, IZonePosition } from '../interfaces/garden.interface';
 import { GARDEN_AREA_LIMITS } from '../constants/garden.constants';
-import { PLANT_TYPES, DEFAULT_PLANT_SPACING } from '../constants/plant.constants';
+
+// Tolerance in feet for floating point comparisons between shapes
+const GEOMETRY_TOLERANCE = 1e-6;
 
 /**
  * Calculates optimal plant spacing with maintenance buffer
  * @param plantDiameter - Base diameter of plant in feet
  * @param growthFactor - Growth adjustment factor (0.1-2.0)
- * @param plantType - Type of plant from PLANT_TYPES
+ * @param catalogSpacingInches - Default spacing from the plant catalog entry, if known
  * @returns Optimal spacing in square feet
  * @throws Error if parameters are invalid
  */
 export function calculatePlantSpacing(
     plantDiameter: number,
     growthFactor: number,
-    plantType: PLANT_TYPES
+    catalogSpacingInches?: number
 ): number {
     // Validate input parameters
     if (plantDiameter <= 0) {
@@ -32,17 +34,18 @@ export function calculatePlantSpacing(
         throw new Error('Growth factor must be between 0.1 and 2.0');
     }
 
-    // Get base spacing from constants or use provided diameter
-    const baseSpacing = DEFAULT_PLANT_SPACING[plantType] / 12 || plantDiameter;
+    // Get base spacing from the catalog or use provided diameter
+    const baseSpacing = (catalogSpacingInches ?? 0) / 12 || plantDiameter;
     
-    // Apply growth factor and plant-specific buffer
-    const bufferFactors: Record<PLANT_TYPES, number> = {
-        [PLANT_TYPES.TOMATOES]: 1.3, // 30% buffer for large plants
-        [PLANT_TYPES.LETTUCE]: 1.2,  // 20% buffer for medium plants
-        [PLANT_TYPES.CARROTS]: 1.1   // 10% buffer for small plants
-    };
+    // Apply growth factor and size-based buffer
+    let bufferFactor = 1.1;       // 10% buffer for small plants
+    if (baseSpacing >= 2) {
+        bufferFactor = 1.3;       // 30% buffer for large plants
+    } else if (baseSpacing >= 1) {
+        bufferFactor = 1.2;       // 20% buffer for medium plants
+    }
 
-    const adjustedSpacing = baseSpacing * growthFactor * bufferFactors[plantType];
+    const adjustedSpacing = baseSpacing * growthFactor * bufferFactor;
     
     // Add maintenance access space (0.5 feet)
     const finalSpacing = adjustedSpacing + 0.5;
@@ -177,4 +180,221 @@ export function calculateSpaceEfficiency(
     let finalEfficiency = Math.min(baseEfficiency * improvementFactor, 100);
 
     return Number(finalEfficiency.toFixed(2));
-}
\ No newline at end of file
+}
+
+/**
+ * Calculates the area of a simple polygon using the shoelace formula
+ * @param points - Polygon vertices in feet
+ * @returns Polygon area in square feet
+ * @throws Error if fewer than three vertices are given
+ */
+export function calculatePolygonArea(points: IPoint[]): number {
+    if (!points || points.length < 3) {
+        throw new Error('Polygon must have at least three points');
+    }
+
+    const doubledArea = points.reduce((sum, point, index) => {
+        const next = points[(index + 1) % points.length];
+        return sum + (point.x * next.y - next.x * point.y);
+    }, 0);
+
+    return Math.abs(doubledArea) / 2;
+}
+
+/**
+ * Calculates the area that can actually be planted: the boundary polygon (or the
+ * recorded area for rectangular plots) minus the footprint of every obstacle
+ * @param garden - Garden with optional boundary and obstacles
+ * @returns Plantable area in square feet
+ */
+export function calculatePlantableArea(garden: Pick<IGarden, 'area' | 'boundary' | 'obstacles'>): number {
+    const grossArea = garden.boundary?.length ? calculatePolygonArea(garden.boundary) : garden.area;
+    const obstacleArea = (garden.obstacles || [])
+        .reduce((sum, obstacle) => sum + calculatePolygonArea(obstacle.boundary), 0);
+
+    return Number(Math.max(grossArea - obstacleArea, 0).toFixed(2));
+}
+
+/**
+ * Calculates the axis-aligned bounding box of a polygon
+ * @param points - Polygon vertices in feet
+ * @returns Bounding rectangle in feet
+ */
+export function calculateBoundingBox(points: IPoint[]): Required<IZonePosition> {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Checks whether a point lies inside a polygon; points on an edge count as inside
+ * @param point - Point to test
+ * @param polygon - Polygon vertices
+ * @returns boolean True if the point is inside or on the polygon
+ */
+export function isPointInPolygon(point: IPoint, polygon: IPoint[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+
+        if (isPointOnSegment(point, a, b)) {
+            return true;
+        }
+
+        const crosses = (a.y > point.y) !== (b.y > point.y) &&
+            point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+        if (crosses) {
+            inside = !inside;
+        }
+    }
+
+    return inside;
+}
+
+/**
+ * Checks whether a rectangle lies in usable garden space: fully inside the boundary
+ * (when one is given) and clear of every obstacle footprint
+ * @param rect - Rectangle in feet
+ * @param boundary - Garden boundary polygon, if the garden is not a plain rectangle
+ * @param obstacles - Obstacles inside the garden
+ * @returns boolean True if the rectangle can be planted
+ */
+export function isRectangleInUsableArea(
+    rect: Required<IZonePosition>,
+    boundary: IPoint[] | undefined,
+    obstacles: IGardenObstacle[] = []
+): boolean {
+    const corners = getRectangleCorners(rect);
+
+    if (boundary?.length) {
+        // With every corner inside, the boundary can only cut into the rectangle
+        // through a vertex lying strictly inside it
+        if (!corners.every(corner => isPointInPolygon(corner, boundary)) ||
+            boundary.some(vertex => isPointStrictlyInRectangle(vertex, rect))) {
+            return false;
+        }
+    }
+
+    return !obstacles.some(obstacle => doesPolygonIntersectRectangle(obstacle.boundary, rect));
+}
+
+/**
+ * Calculates how far a ray travels before reaching a polygon edge
+ * @param origin - Start of the ray in feet
+ * @param direction - Unit vector giving the ray direction
+ * @param polygon - Polygon vertices
+ * @returns Distance in feet to the nearest edge, or undefined if the ray misses the polygon
+ */
+export function calculateRayDistanceToPolygon(
+    origin: IPoint,
+    direction: IPoint,
+    polygon: IPoint[]
+): number | undefined {
+    let nearest: number | undefined;
+
+    polygon.forEach((a, index) => {
+        const b = polygon[(index + 1) % polygon.length];
+        const edge = { x: b.x - a.x, y: b.y - a.y };
+        const denominator = direction.x * edge.y - direction.y * edge.x;
+        if (Math.abs(denominator) < GEOMETRY_TOLERANCE) {
+            return;
+        }
+
+        const offset = { x: a.x - origin.x, y: a.y - origin.y };
+        const distance = (offset.x * edge.y - offset.y * edge.x) / denominator;
+        const edgeFraction = (offset.x * direction.y - offset.y * direction.x) / denominator;
+
+        if (distance >= 0 && edgeFraction >= -GEOMETRY_TOLERANCE && edgeFraction <= 1 + GEOMETRY_TOLERANCE &&
+            (nearest === undefined || distance < nearest)) {
+            nearest = distance;
+        }
+    });
+
+    return nearest;
+}
+
+/**
+ * Checks whether a polygon shares any interior area with a rectangle
+ * @private
+ */
+function doesPolygonIntersectRectangle(polygon: IPoint[], rect: Required<IZonePosition>): boolean {
+    const corners = getRectangleCorners(rect);
+    const centre = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+
+    if (polygon.some(vertex => isPointStrictlyInRectangle(vertex, rect))) {
+        return true;
+    }
+    if (isPointInPolygon(centre, polygon) && !polygon.some((a, index) =>
+        isPointOnSegment(centre, a, polygon[(index + 1) % polygon.length]))) {
+        return true;
+    }
+
+    return polygon.some((a, index) => {
+        const b = polygon[(index + 1) % polygon.length];
+        return corners.some((c, cornerIndex) =>
+            doSegmentsCross(a, b, c, corners[(cornerIndex + 1) % corners.length])
+        );
+    });
+}
+
+/**
+ * Returns rectangle corners in clockwise order starting top-left
+ * @private
+ */
+function getRectangleCorners(rect: Required<IZonePosition>): IPoint[] {
+    return [
+        { x: rect.x, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y + rect.height },
+        { x: rect.x, y: rect.y + rect.height }
+    ];
+}
+
+/**
+ * Checks whether a point lies strictly inside a rectangle
+ * @private
+ */
+function isPointStrictlyInRectangle(point: IPoint, rect: Required<IZonePosition>): boolean {
+    return point.x > rect.x + GEOMETRY_TOLERANCE &&
+        point.x < rect.x + rect.width - GEOMETRY_TOLERANCE &&
+        point.y > rect.y + GEOMETRY_TOLERANCE &&
+        point.y < rect.y + rect.height - GEOMETRY_TOLERANCE;
+}
+
+/**
+ * Checks whether a point lies on a segment
+ * @private
+ */
+function isPointOnSegment(point: IPoint, a: IPoint, b: IPoint): boolean {
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+    if (Math.abs(cross) > GEOMETRY_TOLERANCE) {
+        return false;
+    }
+
+    return point.x >= Math.min(a.x, b.x) - GEOMETRY_TOLERANCE &&
+        point.x <= Math.max(a.x, b.x) + GEOMETRY_TOLERANCE &&
+        point.y >= Math.min(a.y, b.y) - GEOMETRY_TOLERANCE &&
+        point.y <= Math.max(a.y, b.y) + GEOMETRY_TOLERANCE;
+}
+
+/**
+ * Checks whether two segments cross at a single interior point; touching does not count
+ * @private
+ */
+function doSegmentsCross(a: IPoint, b: IPoint, c: IPoint, d: IPoint): boolean {
+    const orientation = (p: IPoint, q: IPoint, r: IPoint) =>
+        (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+
+    const o1 = orientation(a, b, c);
+    const o2 = orientation(a, b, d);
+    const o3 = orientation(c, d, a);
+    const o4 = orientation(c, d, b);
+
+    return ((o1 > GEOMETRY_TOLERANCE && o2 < -GEOMETRY_TOLERANCE) || (o1 < -GEOMETRY_TOLERANCE && o2 > GEOMETRY_TOLERANCE)) &&
+        ((o3 > GEOMETRY_TOLERANCE && o4 < -GEOMETRY_TOLERANCE) || (o3 < -GEOMETRY_TOLERANCE && o4 > GEOMETRY_TOLERANCE));
+}
@@ -0,0 +1,32 @@
+/**
+ * Notification Utility Functions
+ * @packageVersion 5.0
+ *
+ * Addresses the notifications of garden tasks. A task assigned to someone notifies the
+ * devices its assignee registered only; a task in the garden's pool notifies the garden.
+ */
+
+import { INotificationPayload } from '../interfaces/notification.interface';
+import { ISchedule } from '../interfaces/schedule.interface';
+
+/**
+ * Addresses the notification of a task to the devices that should receive it
+ * @param notification - Notification about the task, addressed to no device yet
+ * @param task - Task the notification is about
+ * @param deviceTokens - Device tokens of users, as UserRepository.getDeviceTokens returns them
+ * @returns One notification per device; none when the assignee registered no device
+ */
+export function addressTaskNotification(
+    notification: INotificationPayload,
+    task: Pick<ISchedule, 'gardenId' | 'assigneeId'>,
+    deviceTokens: Map<string, string[]>
+): INotificationPayload[] {
+    const tokens = task.assigneeId
+        ? deviceTokens.get(task.assigneeId) ?? []
+        : [task.gardenId]; // Using gardenId as device token for example
+
+    return tokens.map(token => ({
+        ...notification,
+        data: { ...notification.data, token }
+    }));
+}
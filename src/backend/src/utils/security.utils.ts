@@ -4,6 +4,8 @@
 // @package-version winston@3.8.0
 
 import { securityConfig } from '../config/security.config';
+import { ALL_GARDENS_PERMISSIONS } from '../constants/garden-sharing.constants';
+import { ALL_SITES_PERMISSIONS } from '../constants/site.constants';
 import * as jwt from 'jsonwebtoken';
 import * as crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
@@ -22,7 +24,7 @@ const securityLogger = winston.createLogger({
 // Cache for permission validation
 const permissionCache = new Map<string, Set<string>>();
 
-// Token blacklist for revoked tokens
+// Sessions revoked by this process, rejected without waiting for the revocation store
 const tokenBlacklist = new Set<string>();
 
 // Decorator for rate limiting
@@ -84,17 +86,19 @@ interface EncryptedData {
 
 @RateLimit(10, '1m')
 @SecurityLog('token_generation')
-export function generateToken(userData: { id: string; role: string; deviceFingerprint: string }): TokenData {
+export function generateToken(userData: {
+  id: string;
+  role: string;
+  deviceFingerprint: string;
+  sessionId: string;
+}): TokenData {
   // Validate input
-  if (!userData.id || !userData.role || !userData.deviceFingerprint) {
+  if (!userData.id || !userData.role || !userData.deviceFingerprint || !userData.sessionId) {
     throw new Error('Invalid user data for token generation');
   }
 
   // Generate fingerprint hash
-  const fingerprintHash = crypto
-    .createHash('sha256')
-    .update(userData.deviceFingerprint)
-    .digest('hex');
+  const fingerprintHash = hashToken(userData.deviceFingerprint);
 
   // Create token payload
   const payload = {
@@ -105,10 +109,11 @@ export function generateToken(userData: { id: string; role: string; deviceFinger
     aud: securityConfig.jwt.audience
   };
 
-  // Sign access token
+  // Sign access token; its ID is the session it belongs to, so revoking the session revokes it
   const accessToken = jwt.sign(payload, securityConfig.jwt.secret!, {
     algorithm: securityConfig.jwt.algorithm,
-    expiresIn: securityConfig.jwt.expiresIn
+    expiresIn: securityConfig.jwt.expiresIn,
+    jwtid: userData.sessionId
   });
 
   // Generate refresh token if enabled
@@ -116,11 +121,6 @@ export function generateToken(userData: { id: string; role: string; deviceFinger
     ? crypto.randomBytes(64).toString('hex')
     : '';
 
-  // Store token pair in blacklist cache for rotation
-  if (securityConfig.jwt.refreshToken.rotationEnabled) {
-    tokenBlacklist.add(`${userData.id}:${accessToken}`);
-  }
-
   return {
     accessToken,
     refreshToken,
@@ -131,11 +131,6 @@ export function generateToken(userData: { id: string; role: string; deviceFinger
 @RateLimit(100, '1m')
 @SecurityLog('token_verification')
 export function verifyToken(token: string, fingerprint: string): jwt.JwtPayload {
-  // Check token blacklist
-  if (tokenBlacklist.has(token)) {
-    throw new Error('Token has been revoked');
-  }
-
   // Verify token signature and expiration
   const decoded = jwt.verify(token, securityConfig.jwt.secret!, {
     algorithms: [securityConfig.jwt.algorithm],
@@ -144,11 +139,13 @@ export function verifyToken(token: string, fingerprint: string): jwt.JwtPayload
     clockTolerance: securityConfig.jwt.tokenValidation.clockTolerance
   }) as jwt.JwtPayload;
 
+  // Check token blacklist
+  if (!decoded.jti || tokenBlacklist.has(decoded.jti)) {
+    throw new Error('Token has been revoked');
+  }
+
   // Verify fingerprint
-  const fingerprintHash = crypto
-    .createHash('sha256')
-    .update(fingerprint)
-    .digest('hex');
+  const fingerprintHash = hashToken(fingerprint);
 
   if (decoded.fingerprint !== fingerprintHash) {
     throw new Error('Invalid token fingerprint');
@@ -157,6 +154,25 @@ export function verifyToken(token: string, fingerprint: string): jwt.JwtPayload
   return decoded;
 }
 
+/**
+ * Rejects the access tokens of a session from now on
+ * Other processes learn of the revocation from the session store
+ */
+export function revokeSession(sessionId: string): void {
+  tokenBlacklist.add(sessionId);
+}
+
+/**
+ * Hashes a token or device fingerprint for storage and comparison; the tokens hashed are
+ * random, so an unsalted SHA-256 suffices
+ */
+export function hashToken(token: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+}
+
 @RateLimit(50, '1m')
 @SecurityLog('encryption')
 export function encrypt(data: string): EncryptedData {
@@ -222,7 +238,7 @@ export function validatePermission(role: string, requiredPermissions: string[]):
   const cacheKey = `${role}:${requiredPermissions.join(',')}`;
   const cachedResult = permissionCache.get(cacheKey);
   if (cachedResult) {
-    return requiredPermissions.every(permission => cachedResult.has(permission));
+    return requiredPermissions.every(permission => grantsPermission(cachedResult, permission));
   }
 
   // Get role configuration
@@ -232,18 +248,26 @@ export function validatePermission(role: string, requiredPermissions: string[]):
   }
 
   // Validate permissions
+  const rolePermissions = new Set<string>(roleConfig.permissions);
   const hasPermissions = requiredPermissions.every(permission =>
-    roleConfig.permissions.includes(permission)
+    grantsPermission(rolePermissions, permission)
   );
 
   // Update cache
-  permissionCache.set(cacheKey, new Set(roleConfig.permissions));
+  permissionCache.set(cacheKey, rolePermissions);
 
   return hasPermissions;
 }
 
-// Helper function to parse time windows
-function parseTimeWindow(window: string): number {
+// Helper function to check a role's permissions; permissions on all gardens or sites cover
+// those on own gardens or sites
+function grantsPermission(rolePermissions: Set<string>, permission: string): boolean {
+  const broaderPermission = ALL_GARDENS_PERMISSIONS[permission] ?? ALL_SITES_PERMISSIONS[permission];
+  return rolePermissions.has(permission) || (!!broaderPermission && rolePermissions.has(broaderPermission));
+}
+
+// Helper function to parse time windows such as '30m' or '7d' into milliseconds
+export function parseTimeWindow(window: string): number {
   const match = window.match(/^(\d+)([smhd])$/);
   if (!match) {
     throw new Error('Invalid time window format');
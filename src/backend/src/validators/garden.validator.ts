@@ -18,16 +18,28 @@ import {
 
 import { 
     IGarden,
-    IGardenZone
+    IGardenZone,
+    IPoint
 } from '../interfaces/garden.interface';
 
+import {
+    calculatePolygonArea,
+    calculatePlantableArea,
+    isPointInPolygon
+} from '../utils/garden-math.utils';
+
 import {
     GARDEN_AREA_LIMITS,
     SUNLIGHT_CONDITIONS,
     MIN_ZONE_SIZE,
+    OBSTACLE_TYPES,
     isSunlightCondition,
+    isObstacleType,
     isValidGardenArea
 } from '../constants/garden.constants';
+import { HARDINESS_ZONE_PATTERN, FROST_DATE_PATTERN } from '../constants/climate.constants';
+import { SOIL_TYPES, WATER_BALANCE_ERRORS } from '../constants/water-balance.constants';
+import { CROP_ROTATION_DEFAULTS } from '../constants/plant.constants';
 
 /**
  * Main validation function for garden input data
@@ -43,12 +55,29 @@ export async function validateGardenInput(garden: IGarden): Promise<boolean> {
     // Validate garden area
     await validateGardenArea(garden.area);
 
+    // Validate boundary polygon and obstacles
+    validateGardenBoundary(garden);
+
+    // Validate location used for sun-path modelling and climate lookup
+    validateGardenLocation(garden);
+
     // Validate garden zones
     await validateGardenZones(garden.zones);
 
+    // Validate rotation period and zone planting history
+    validateCropRotation(garden);
+
     // Verify total zone areas match garden area
     const totalZoneArea = garden.zones.reduce((sum, zone) => sum + zone.area, 0);
-    if (Math.abs(totalZoneArea - garden.area) > 0.01) { // Allow small rounding differences
+    if (hasIrregularLayout(garden)) {
+        // Zones of irregular gardens only need to fit in the plantable area
+        const plantableArea = calculatePlantableArea(garden);
+        if (totalZoneArea - plantableArea > 0.01) {
+            throw new ValidationError(
+                `Total zone area (${totalZoneArea}) exceeds plantable area (${plantableArea})`
+            );
+        }
+    } else if (Math.abs(totalZoneArea - garden.area) > 0.01) { // Allow small rounding differences
         throw new ValidationError(
             `Total zone area (${totalZoneArea}) must match garden area (${garden.area})`
         );
@@ -57,6 +86,166 @@ export async function validateGardenInput(garden: IGarden): Promise<boolean> {
     return true;
 }
 
+/**
+ * Checks whether a garden has a boundary polygon or obstacles
+ * @param garden Garden configuration
+ * @returns boolean True if the garden is not a plain rectangle
+ */
+export function hasIrregularLayout(garden: Pick<IGarden, 'boundary' | 'obstacles'>): boolean {
+    return Boolean(garden.boundary?.length || garden.obstacles?.length);
+}
+
+/**
+ * Validates the garden boundary polygon and obstacle footprints
+ * The boundary must enclose the recorded garden area and obstacles must lie inside it
+ * @param garden Garden configuration with optional boundary and obstacles
+ * @returns boolean True if valid, throws ValidationError if invalid
+ */
+export function validateGardenBoundary(garden: IGarden): boolean {
+    if (garden.boundary) {
+        validatePolygon(garden.boundary, 'Garden boundary');
+
+        const boundaryArea = calculatePolygonArea(garden.boundary);
+        if (Math.abs(boundaryArea - garden.area) > 0.1) {
+            throw new ValidationError(
+                `Garden boundary encloses ${boundaryArea.toFixed(2)} sq ft but garden area is ${garden.area} sq ft`
+            );
+        }
+    }
+
+    if (garden.obstacles !== undefined && !Array.isArray(garden.obstacles)) {
+        throw new ValidationError('Garden obstacles must be an array');
+    }
+
+    const boundary = garden.boundary;
+    (garden.obstacles || []).forEach((obstacle, index) => {
+        if (!isObstacleType(obstacle.type)) {
+            throw new ValidationError(
+                `Obstacle ${index + 1} type must be one of: ${Object.values(OBSTACLE_TYPES).join(', ')}`
+            );
+        }
+
+        validatePolygon(obstacle.boundary, `Obstacle ${index + 1} boundary`);
+
+        if (obstacle.height !== undefined && !(Number.isFinite(obstacle.height) && obstacle.height >= 0)) {
+            throw new ValidationError(`Obstacle ${index + 1} height must be a non-negative number of feet`);
+        }
+
+        if (boundary && !obstacle.boundary.every(point => isPointInPolygon(point, boundary))) {
+            throw new ValidationError(`Obstacle ${index + 1} must lie inside the garden boundary`);
+        }
+    });
+
+    return true;
+}
+
+/**
+ * Validates the garden's location and climate
+ * Latitude and orientation model the sun's path; postal code and coordinates look up the
+ * hardiness zone when the gardener has not entered one
+ * @param garden Garden configuration with optional location and climate
+ * @returns boolean True if valid, throws ValidationError if invalid
+ */
+export function validateGardenLocation(garden: IGarden): boolean {
+    if (garden.latitude !== undefined &&
+        !(Number.isFinite(garden.latitude) && garden.latitude >= -90 && garden.latitude <= 90)) {
+        throw new ValidationError('Garden latitude must be between -90 and 90 degrees');
+    }
+
+    if (garden.orientation !== undefined &&
+        !(Number.isFinite(garden.orientation) && garden.orientation >= 0 && garden.orientation <= 360)) {
+        throw new ValidationError('Garden orientation must be a compass bearing between 0 and 360 degrees');
+    }
+
+    if (garden.longitude !== undefined &&
+        !(Number.isFinite(garden.longitude) && garden.longitude >= -180 && garden.longitude <= 180)) {
+        throw new ValidationError('Garden longitude must be between -180 and 180 degrees');
+    }
+
+    if (garden.postalCode !== undefined &&
+        (typeof garden.postalCode !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/.test(garden.postalCode))) {
+        throw new ValidationError('Garden postal code must be 2 to 10 letters, digits, spaces or hyphens');
+    }
+
+    const climate = garden.climate;
+    if (climate) {
+        if (climate.hardinessZone !== undefined && !HARDINESS_ZONE_PATTERN.test(climate.hardinessZone)) {
+            throw new ValidationError('Hardiness zone must be a USDA zone from 1 to 13 with an optional a or b suffix');
+        }
+
+        [climate.lastSpringFrost, climate.firstFallFrost].forEach(frostDate => {
+            // Frost dates must exist in every year, so February 29 is rejected
+            if (frostDate !== undefined &&
+                !(FROST_DATE_PATTERN.test(frostDate) && isCalendarDay(frostDate))) {
+                throw new ValidationError('Frost dates must be calendar days in MM-DD format');
+            }
+        });
+
+        if ((climate.lastSpringFrost === undefined) !== (climate.firstFallFrost === undefined)) {
+            throw new ValidationError('Last spring frost and first fall frost must be entered together');
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Validates crop rotation settings
+ * Planting history may be entered for zones to carry over records kept elsewhere
+ * @param garden Garden configuration with optional rotation period and zone history
+ * @returns boolean True if valid, throws ValidationError if invalid
+ */
+export function validateCropRotation(garden: IGarden): boolean {
+    if (garden.rotationSeasons !== undefined &&
+        !(Number.isInteger(garden.rotationSeasons) && garden.rotationSeasons >= 1 &&
+            garden.rotationSeasons <= CROP_ROTATION_DEFAULTS.MAX_ROTATION_SEASONS)) {
+        throw new ValidationError(
+            `Rotation seasons must be a whole number between 1 and ${CROP_ROTATION_DEFAULTS.MAX_ROTATION_SEASONS}`
+        );
+    }
+
+    garden.zones.forEach((zone, index) => {
+        (zone.plantingHistory || []).forEach(record => {
+            if (typeof record.plantType !== 'string' || record.plantType.length === 0 ||
+                !Number.isInteger(record.season)) {
+                throw new ValidationError(
+                    `Zone ${index + 1} planting history entries need a plant type and a season year`
+                );
+            }
+        });
+    });
+
+    return true;
+}
+
+/**
+ * Checks that a MM-DD date exists in a non-leap year
+ * @param monthDay Date in MM-DD format
+ */
+function isCalendarDay(monthDay: string): boolean {
+    const [month, day] = monthDay.split('-').map(Number);
+    return new Date(Date.UTC(2001, month - 1, day)).getUTCDate() === day;
+}
+
+/**
+ * Validates that a polygon has at least three finite, non-negative vertices and encloses an area
+ * @param points Polygon vertices
+ * @param label Name used in error messages
+ */
+function validatePolygon(points: IPoint[], label: string): void {
+    if (!Array.isArray(points) || points.length < 3) {
+        throw new ValidationError(`${label} must have at least three points`);
+    }
+
+    if (points.some(point => !Number.isFinite(point?.x) || !Number.isFinite(point?.y) || point.x < 0 || point.y < 0)) {
+        throw new ValidationError(`${label} points must have non-negative x and y coordinates`);
+    }
+
+    if (calculatePolygonArea(points) <= 0) {
+        throw new ValidationError(`${label} must enclose a positive area`);
+    }
+}
+
 /**
  * Validates garden area against defined limits
  * Implements F-001-RQ-001 requirements
@@ -129,6 +318,11 @@ export function validateGardenZones(zones: IGardenZone[]): boolean {
         // Validate sunlight condition
         validateSunlightCondition(zone.sunlightCondition);
 
+        // Validate soil type if provided
+        if (zone.soilType !== undefined && !Object.values(SOIL_TYPES).includes(zone.soilType)) {
+            throw new ValidationError(`Zone ${index + 1}: ${WATER_BALANCE_ERRORS.INVALID_SOIL_TYPE}`);
+        }
+
         // Validate zone position if provided
         if (zone.position) {
             if (!Number.isFinite(zone.position.x) || !Number.isFinite(zone.position.y)) {
@@ -136,6 +330,12 @@ export function validateGardenZones(zones: IGardenZone[]): boolean {
                     `Zone ${index + 1} position must have valid x and y coordinates`
                 );
             }
+            if ([zone.position.width, zone.position.height].some(size =>
+                size !== undefined && !(Number.isFinite(size) && size > 0))) {
+                throw new ValidationError(
+                    `Zone ${index + 1} width and height must be positive numbers`
+                );
+            }
         }
     });
 
@@ -154,28 +354,29 @@ export function validateGardenZones(zones: IGardenZone[]): boolean {
 }
 
 /**
- * Helper function to check if two zones overlap
+ * Checks if two zone rectangles overlap; zones that only share an edge do not overlap
  * @param zone1 First zone to check
  * @param zone2 Second zone to check
  * @returns boolean True if zones overlap
  */
-function checkZoneOverlap(zone1: IGardenZone, zone2: IGardenZone): boolean {
+export function checkZoneOverlap(zone1: IGardenZone, zone2: IGardenZone): boolean {
     if (!zone1.position || !zone2.position) {
         return false; // Cannot check overlap without positions
     }
 
-    // Simple rectangular overlap check
     const z1 = zone1.position;
     const z2 = zone2.position;
-    
-    // Assuming each zone has width and height derived from area
-    const z1Width = Math.sqrt(zone1.area);
-    const z2Width = Math.sqrt(zone2.area);
+
+    // Fall back to a square derived from area when dimensions are not stored
+    const z1Width = z1.width ?? Math.sqrt(zone1.area);
+    const z1Height = z1.height ?? Math.sqrt(zone1.area);
+    const z2Width = z2.width ?? Math.sqrt(zone2.area);
+    const z2Height = z2.height ?? Math.sqrt(zone2.area);
 
     return !(
-        z1.x + z1Width < z2.x ||
-        z2.x + z2Width < z1.x ||
-        z1.y + z1Width < z2.y ||
-        z2.y + z2Width < z1.y
+        z1.x + z1Width <= z2.x ||
+        z2.x + z2Width <= z1.x ||
+        z1.y + z1Height <= z2.y ||
+        z2.y + z2Height <= z1.y
     );
-}
\ No newline at end of file
+}
@@ -8,30 +8,47 @@
 import { ValidationError } from 'class-validator'; // v0.14.0
 import {
     IPlant,
-    PLANT_TYPES,
-    GROWTH_STAGES,
-    SUNLIGHT_REQUIREMENTS,
-    DEFAULT_PLANT_SPACING,
-    COMPANION_PLANTS,
-    MIN_SUNLIGHT_HOURS
+    IPlantCatalogEntry,
+    IPlantCatalogLookup
 } from '../interfaces/plant.interface';
+import {
+    PlantType,
+    GROWTH_STAGES,
+    SUNLIGHT_REQUIREMENTS
+} from '../constants/plant.constants';
+
+/**
+ * Resolves a catalog entry, failing validation for unknown plant types
+ * @param catalog - Plant catalog used for trait lookups
+ * @param plantType - Type of plant to resolve
+ * @throws ValidationError if plant type is not in the catalog
+ */
+const resolveCatalogEntry = (
+    catalog: IPlantCatalogLookup,
+    plantType: PlantType
+): IPlantCatalogEntry => {
+    const entry = catalog.getEntry(plantType);
+    if (!entry) {
+        throw new ValidationError(`Plant type ${plantType} is not in the plant catalog`);
+    }
+    return entry;
+};
 
 /**
- * Validates if the plant type is supported by the system
+ * Validates if the plant type is present in the plant catalog
  * @param plantType - Type of plant to validate
+ * @param catalog - Plant catalog used for trait lookups
  * @throws ValidationError if plant type is invalid
  */
-export const validatePlantType = (plantType: string): boolean => {
+export const validatePlantType = (
+    plantType: string,
+    catalog: IPlantCatalogLookup
+): boolean => {
     if (!plantType || typeof plantType !== 'string') {
         throw new ValidationError('Plant type must be a non-empty string');
     }
 
-    const validTypes = Object.values(PLANT_TYPES);
-    if (!validTypes.includes(plantType as PLANT_TYPES)) {
-        throw new ValidationError(
-            `Invalid plant type. Supported types are: ${validTypes.join(', ')}`
-        );
-    }
+    resolveCatalogEntry(catalog, plantType);
 
     return true;
 };
@@ -41,18 +58,21 @@ export const validatePlantType = (plantType: string): boolean => {
  * @param spacing - Spacing in inches between plants
  * @param plantType - Type of plant being validated
  * @param adjacentPlants - Array of plants adjacent to the current plant
+ * @param catalog - Plant catalog used for trait lookups
  * @throws ValidationError if spacing requirements are not met
  */
 export const validatePlantSpacing = (
     spacing: number,
-    plantType: PLANT_TYPES,
-    adjacentPlants: IPlant[]
+    plantType: PlantType,
+    adjacentPlants: IPlant[],
+    catalog: IPlantCatalogLookup
 ): boolean => {
     if (typeof spacing !== 'number' || spacing <= 0) {
         throw new ValidationError('Spacing must be a positive number');
     }
 
-    const minSpacing = DEFAULT_PLANT_SPACING[plantType];
+    const entry = resolveCatalogEntry(catalog, plantType);
+    const minSpacing = entry.defaultSpacing;
     if (spacing < minSpacing) {
         throw new ValidationError(
             `Minimum spacing for ${plantType} is ${minSpacing} inches`
@@ -61,10 +81,10 @@ export const validatePlantSpacing = (
 
     // Validate companion planting spacing
     adjacentPlants.forEach(adjacent => {
-        if (!COMPANION_PLANTS[plantType].includes(adjacent.type)) {
+        if (!entry.companionPlants.includes(adjacent.type)) {
             const minCombinedSpacing = Math.max(
-                DEFAULT_PLANT_SPACING[plantType],
-                DEFAULT_PLANT_SPACING[adjacent.type]
+                minSpacing,
+                catalog.getEntry(adjacent.type)?.defaultSpacing ?? adjacent.spacing
             );
             if (spacing < minCombinedSpacing) {
                 throw new ValidationError(
@@ -81,11 +101,13 @@ export const validatePlantSpacing = (
  * Validates plant growth stage based on plant type
  * @param growthStage - Current growth stage of the plant
  * @param plantType - Type of plant being validated
+ * @param catalog - Plant catalog used for trait lookups
  * @throws ValidationError if growth stage is invalid
  */
 export const validatePlantGrowthStage = (
     growthStage: GROWTH_STAGES,
-    plantType: PLANT_TYPES
+    plantType: PlantType,
+    catalog: IPlantCatalogLookup
 ): boolean => {
     if (!growthStage || typeof growthStage !== 'string') {
         throw new ValidationError('Growth stage must be a non-empty string');
@@ -98,13 +120,8 @@ export const validatePlantGrowthStage = (
         );
     }
 
-    // Plant-specific growth stage validation
-    const invalidStageMap: Partial<Record<PLANT_TYPES, GROWTH_STAGES[]>> = {
-        [PLANT_TYPES.CARROTS]: [GROWTH_STAGES.HARVESTING], // Carrots are harvested once
-        [PLANT_TYPES.LETTUCE]: [GROWTH_STAGES.HARVESTING]  // Lettuce is harvested once
-    };
-
-    if (invalidStageMap[plantType]?.includes(growthStage)) {
+    // Crops harvested once are lifted at maturity and never enter the harvesting stage
+    if (growthStage === GROWTH_STAGES.HARVESTING && catalog.getEntry(plantType)?.singleHarvest) {
         throw new ValidationError(
             `Growth stage ${growthStage} is not valid for ${plantType}`
         );
@@ -117,11 +134,13 @@ export const validatePlantGrowthStage = (
  * Validates plant sunlight requirements based on plant type
  * @param sunlightNeeds - Sunlight requirement level
  * @param plantType - Type of plant being validated
+ * @param catalog - Plant catalog used for trait lookups
  * @throws ValidationError if sunlight requirements are invalid
  */
 export const validatePlantSunlightNeeds = (
     sunlightNeeds: SUNLIGHT_REQUIREMENTS,
-    plantType: PLANT_TYPES
+    plantType: PlantType,
+    catalog: IPlantCatalogLookup
 ): boolean => {
     if (!sunlightNeeds || typeof sunlightNeeds !== 'string') {
         throw new ValidationError('Sunlight needs must be a non-empty string');
@@ -135,7 +154,7 @@ export const validatePlantSunlightNeeds = (
     }
 
     // Plant-specific sunlight validation
-    const minHours = MIN_SUNLIGHT_HOURS[plantType];
+    const minHours = resolveCatalogEntry(catalog, plantType).minSunlightHours;
     const sunlightMap: Record<SUNLIGHT_REQUIREMENTS, number> = {
         [SUNLIGHT_REQUIREMENTS.FULL_SUN]: 6,
         [SUNLIGHT_REQUIREMENTS.PARTIAL_SHADE]: 4,
@@ -154,35 +173,37 @@ export const validatePlantSunlightNeeds = (
 /**
  * Comprehensive validation of all plant properties
  * @param plant - Plant object to validate
+ * @param catalog - Plant catalog used for trait lookups
  * @param adjacentPlants - Array of adjacent plants for companion planting validation
  * @throws ValidationError if any plant properties are invalid
  */
 export const validatePlant = (
     plant: IPlant,
+    catalog: IPlantCatalogLookup,
     adjacentPlants: IPlant[] = []
 ): boolean => {
     const errors: string[] = [];
 
     try {
-        validatePlantType(plant.type);
+        validatePlantType(plant.type, catalog);
     } catch (error) {
         errors.push(error.message);
     }
 
     try {
-        validatePlantSpacing(plant.spacing, plant.type, adjacentPlants);
+        validatePlantSpacing(plant.spacing, plant.type, adjacentPlants, catalog);
     } catch (error) {
         errors.push(error.message);
     }
 
     try {
-        validatePlantGrowthStage(plant.growthStage, plant.type);
+        validatePlantGrowthStage(plant.growthStage, plant.type, catalog);
     } catch (error) {
         errors.push(error.message);
     }
 
     try {
-        validatePlantSunlightNeeds(plant.sunlightNeeds, plant.type);
+        validatePlantSunlightNeeds(plant.sunlightNeeds, plant.type, catalog);
     } catch (error) {
         errors.push(error.message);
     }
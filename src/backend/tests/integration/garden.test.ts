@@ -38,6 +38,45 @@ describe('Garden Management Integration Tests', () => {
                     useValue: {
                         optimizeGardenLayout: jest.fn()
                     }
+                },
+                {
+                    provide: 'SeasonPlannerService',
+                    useValue: {
+                        planSeason: jest.fn()
+                    }
+                },
+                {
+                    provide: 'ClimateService',
+                    useValue: {
+                        getPlantingCalendar: jest.fn()
+                    }
+                },
+                {
+                    provide: 'HarvestService',
+                    useValue: {
+                        getHarvestForecast: jest.fn(),
+                        recordHarvest: jest.fn(),
+                        listHarvests: jest.fn(),
+                        getSeasonTotals: jest.fn()
+                    }
+                },
+                {
+                    provide: 'WeatherService',
+                    useValue: {
+                        getGardenForecast: jest.fn()
+                    }
+                },
+                {
+                    provide: 'RainWateringService',
+                    useValue: {
+                        recordRainfall: jest.fn()
+                    }
+                },
+                {
+                    provide: 'WaterBalanceService',
+                    useValue: {
+                        getZoneWaterBalance: jest.fn()
+                    }
                 }
             ]
         }).compile();
@@ -0,0 +1,261 @@
+/**
+ * Integration Tests for the MQTT Bridge
+ * @packageVersion 5.0
+ *
+ * Runs the bridge against a broker started in-process, so sensor messages and watering
+ * commands travel over real MQTT without any outside services.
+ */
+
+import { jest } from '@jest/globals'; // ^29.0.0
+import aedes, { Aedes } from 'aedes'; // ^0.51.0
+import { connectAsync, MqttClient } from 'mqtt'; // ^5.3.0
+import { AddressInfo, createServer, Server } from 'net';
+
+import { MqttBridgeService } from '../../src/services/mqtt/mqtt-bridge.service';
+import { SensorService } from '../../src/services/sensor.service';
+import { PlantCatalogService } from '../../src/services/plant-catalog.service';
+import { ScheduleRepository } from '../../src/repositories/schedule.repository';
+import { GardenRepository } from '../../src/repositories/garden.repository';
+import { PlantRepository } from '../../src/repositories/plant.repository';
+import { mqttConfig } from '../../src/config/mqtt.config';
+import { ISchedule, TaskType } from '../../src/interfaces/schedule.interface';
+import { IRRIGATION_COMMANDS } from '../../src/constants/mqtt.constants';
+import { SENSOR_METRICS } from '../../src/constants/sensor.constants';
+
+/**
+ * Waits until a condition holds, failing after two seconds
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out waiting for MQTT message');
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+describe('MQTT Bridge Integration Tests', () => {
+    let broker: Aedes;
+    let server: Server;
+    let url: string;
+    let bridge: MqttBridgeService;
+    let device: MqttClient;
+    let ingestReadings: jest.Mock;
+    let getPendingTasks: jest.Mock;
+    let updateSchedule: jest.Mock;
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const task = {
+        id: 'schedule-1',
+        gardenId: 'garden-1',
+        plantId: 'plant-1',
+        taskType: TaskType.WATERING,
+        dueDate: new Date('2025-06-10T06:00:00Z'),
+        completed: false
+    } as ISchedule;
+
+    beforeAll(async () => {
+        broker = aedes();
+        server = createServer(broker.handle);
+        await new Promise<void>(resolve => server.listen(0, () => resolve()));
+        url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        await new Promise<void>(resolve => broker.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+        ingestReadings = jest.fn(async (key: string, readings: unknown[]) => ({ accepted: readings.length, rejected: [] }));
+        getPendingTasks = jest.fn(async () => [task]);
+        updateSchedule = jest.fn(async () => task);
+
+        bridge = new MqttBridgeService(
+            {
+                config: { ...mqttConfig, enabled: true, url, clientId: 'bridge-test', embeddedBroker: false },
+                mappings: {
+                    sensors: [
+                        { topic: 'garden/bed-1/{zoneId}/moisture', deviceKey: 'bed-key', metric: SENSOR_METRICS.SOIL_MOISTURE },
+                        {
+                            topic: 'garden/bed-1/weather',
+                            deviceKey: 'weather-key',
+                            fields: { temp: SENSOR_METRICS.AIR_TEMPERATURE, hum: SENSOR_METRICS.HUMIDITY },
+                            timestampField: 'ts'
+                        }
+                    ],
+                    irrigation: [
+                        { topic: 'garden/{gardenId}/valves/{zoneId}/set', gardenId: 'garden-1' }
+                    ]
+                }
+            },
+            { ingestReadings } as unknown as SensorService,
+            { getPendingTasks, updateSchedule } as unknown as ScheduleRepository,
+            {
+                getGardenById: jest.fn(async () => ({
+                    id: 'garden-1',
+                    zones: [{ id: 'zone-1', plants: [{ id: 'plant-1' }] }]
+                }))
+            } as unknown as GardenRepository,
+            {
+                getPlantsByGarden: jest.fn(async () => [
+                    { id: 'plant-1', type: 'tomatoes', waterRequirementMl: 500, quantity: 3 }
+                ])
+            } as unknown as PlantRepository,
+            { getEntry: jest.fn() } as unknown as PlantCatalogService
+        );
+        await bridge.start();
+
+        device = await connectAsync(url, { clientId: 'device-test' });
+    });
+
+    afterEach(async () => {
+        await device.endAsync();
+        await bridge.stop();
+    });
+
+    it('should store numbers published on a sensor topic as readings of its zone', async () => {
+        await device.publishAsync('garden/bed-1/zone-1/moisture', '41.5', { qos: 1 });
+        await waitFor(() => ingestReadings.mock.calls.length > 0);
+
+        expect(ingestReadings).toHaveBeenCalledWith(
+            'bed-key',
+            [{ metric: SENSOR_METRICS.SOIL_MOISTURE, value: 41.5, zoneId: 'zone-1', plantId: undefined }],
+            expect.any(Date)
+        );
+    });
+
+    it('should read the mapped fields of JSON payloads', async () => {
+        await device.publishAsync('garden/bed-1/weather', JSON.stringify({ temp: 18.2, hum: 71, battery: 3.9, ts: 1749538800 }), { qos: 1 });
+        await waitFor(() => ingestReadings.mock.calls.length > 0);
+
+        const [key, readings] = ingestReadings.mock.calls[0];
+        expect(key).toBe('weather-key');
+        expect(readings).toEqual([
+            expect.objectContaining({ metric: SENSOR_METRICS.AIR_TEMPERATURE, value: 18.2, recordedAt: new Date('2025-06-10T07:00:00Z') }),
+            expect.objectContaining({ metric: SENSOR_METRICS.HUMIDITY, value: 71, recordedAt: new Date('2025-06-10T07:00:00Z') })
+        ]);
+    });
+
+    it('should drop payloads it cannot read without disconnecting', async () => {
+        await device.publishAsync('garden/bed-1/zone-1/moisture', 'wet', { qos: 1 });
+        await device.publishAsync('garden/bed-1/zone-1/moisture', '38', { qos: 1 });
+        await waitFor(() => ingestReadings.mock.calls.length > 0);
+
+        expect(ingestReadings).toHaveBeenCalledTimes(1);
+        expect((ingestReadings.mock.calls[0][1] as any[])[0].value).toBe(38);
+    });
+
+    it('should publish a watering command once when a watering task comes due', async () => {
+        const received: { topic: string; command: any }[] = [];
+        await device.subscribeAsync('garden/+/valves/+/set', { qos: 1 });
+        device.on('message', (topic, payload) => received.push({ topic, command: JSON.parse(payload.toString()) }));
+
+        const commands = await bridge.publishDueWatering(now);
+        await waitFor(() => received.length > 0);
+
+        expect(commands).toHaveLength(1);
+        expect(received[0].topic).toBe('garden/garden-1/valves/zone-1/set');
+        expect(received[0].command).toMatchObject({
+            command: IRRIGATION_COMMANDS.WATER,
+            scheduleId: 'schedule-1',
+            zoneId: 'zone-1',
+            plantId: 'plant-1',
+            amountMl: 1500
+        });
+        expect(updateSchedule).toHaveBeenCalledWith('schedule-1', {
+            task_metadata: { irrigationCommandedAt: now }
+        }, { optimisticLock: false });
+
+        // Once commanded, the task is not sent again
+        getPendingTasks.mockResolvedValue([{ ...task, task_metadata: { irrigationCommandedAt: now } }] as never);
+        expect(await bridge.publishDueWatering(now)).toEqual([]);
+    });
+});
+
+describe('MQTT Embedded Broker Integration Tests', () => {
+    const port = 41883;
+    const url = `mqtt://127.0.0.1:${port}`;
+    const credentials = { username: 'garden', password: 'hose-pipe' };
+    let bridge: MqttBridgeService;
+    let ingestReadings: jest.Mock;
+
+    const createBridge = () => new MqttBridgeService(
+        {
+            config: {
+                ...mqttConfig,
+                ...credentials,
+                enabled: true,
+                url,
+                clientId: 'bridge-test',
+                embeddedBroker: true,
+                embeddedBrokerPort: port,
+                embeddedBrokerHost: '127.0.0.1'
+            },
+            mappings: {
+                sensors: [
+                    { topic: 'garden/bed-1/{zoneId}/moisture', deviceKey: 'bed-key', metric: SENSOR_METRICS.SOIL_MOISTURE }
+                ],
+                irrigation: [
+                    { topic: 'garden/{gardenId}/valves/{zoneId}/set', gardenId: 'garden-1' }
+                ]
+            }
+        },
+        { ingestReadings } as unknown as SensorService,
+        {} as ScheduleRepository,
+        {} as GardenRepository,
+        {} as PlantRepository,
+        {} as PlantCatalogService
+    );
+
+    beforeEach(() => {
+        ingestReadings = jest.fn(async (key: string, readings: unknown[]) => ({ accepted: readings.length, rejected: [] }));
+    });
+
+    afterEach(async () => {
+        await bridge.stop();
+    });
+
+    it('should refuse clients without the configured credentials', async () => {
+        bridge = createBridge();
+        await bridge.start();
+
+        await expect(connectAsync(url, { clientId: 'intruder', reconnectPeriod: 0 })).rejects.toThrow();
+        await expect(connectAsync(url, { clientId: 'intruder', reconnectPeriod: 0, username: 'garden', password: 'guess' }))
+            .rejects.toThrow();
+    });
+
+    it('should only let hardware publish to sensor topics and subscribe to irrigation topics', async () => {
+        bridge = createBridge();
+        await bridge.start();
+        const device = await connectAsync(url, { clientId: 'device-test', ...credentials });
+
+        await expect(device.subscribeAsync('garden/+/valves/+/set', { qos: 1 })).resolves.toBeDefined();
+        await expect(device.subscribeAsync('garden/bed-1/+/moisture', { qos: 1 })).rejects.toThrow();
+
+        await device.publishAsync('garden/bed-1/zone-1/moisture', '41.5', { qos: 1 });
+        await waitFor(() => ingestReadings.mock.calls.length > 0);
+        expect(ingestReadings).toHaveBeenCalledTimes(1);
+
+        // Publishing a watering command is refused by closing the connection
+        device.publish('garden/garden-1/valves/zone-1/set', '{}', { qos: 1 });
+        await waitFor(() => !device.connected);
+
+        await device.endAsync(true);
+    });
+
+    it('should stop the embedded broker when the bridge cannot connect', async () => {
+        bridge = createBridge();
+        // The broker refuses every client, the bridge included
+        jest.spyOn(bridge as any, 'hasBrokerCredentials').mockReturnValue(false);
+        await expect(bridge.start()).rejects.toThrow();
+
+        const server = createServer();
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => resolve());
+        });
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+});
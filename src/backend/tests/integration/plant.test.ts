@@ -1,5 +1,15 @@
 import { PlantService } from '../../src/services/plant.service';
 import { PlantRepository } from '../../src/repositories/plant.repository';
+import { PlantCatalogService } from '../../src/services/plant-catalog.service';
+import { ClimateService } from '../../src/services/climate.service';
+import { WeatherService } from '../../src/services/weather/weather.service';
+import { WaterBalanceService } from '../../src/services/water-balance.service';
+import { SensorService } from '../../src/services/sensor.service';
+import { PlantHealthService } from '../../src/services/plant-health.service';
+import { FixtureWeatherProvider } from '../../src/services/weather/fixture-weather.provider';
+import { GardenRepository } from '../../src/repositories/garden.repository';
+import { PlantCatalogRepository } from '../../src/repositories/plant-catalog.repository';
+import { plantCatalogSeedData } from '../../src/db/seeds/plants.seed';
 import { IPlant } from '../../src/interfaces/plant.interface';
 import { 
     PLANT_TYPES, 
@@ -15,6 +25,7 @@ import supertest from 'supertest';
 describe('Plant Management Integration Tests', () => {
     let plantService: PlantService;
     let plantRepository: PlantRepository;
+    let plantCatalogService: PlantCatalogService;
     let logger: Logger;
     let mongoConnection: typeof mongoose;
 
@@ -48,7 +59,27 @@ describe('Plant Management Integration Tests', () => {
 
         // Initialize repository and service
         plantRepository = new PlantRepository(logger);
-        plantService = new PlantService(plantRepository, logger);
+        plantCatalogService = new PlantCatalogService({
+            findAll: async () => plantCatalogSeedData,
+            findRelationships: async () => []
+        } as unknown as PlantCatalogRepository, plantRepository);
+        await plantCatalogService.refresh();
+        plantService = new PlantService(
+            plantRepository,
+            logger,
+            plantCatalogService,
+            { getGardenById: async () => null } as unknown as GardenRepository,
+            new ClimateService(plantCatalogService),
+            new WeatherService(
+                new FixtureWeatherProvider(),
+                { getGardenById: async () => null } as unknown as GardenRepository
+            ),
+            { getPlantSoilMoisture: async () => undefined } as unknown as WaterBalanceService,
+            { getPlantReadings: async () => ({}) } as unknown as SensorService,
+            {
+                getObservedHealth: async () => ({ leafColor: 'green', pestPresence: false, diseaseSymptoms: [] })
+            } as unknown as PlantHealthService
+        );
     });
 
     afterAll(async () => {
@@ -174,8 +205,8 @@ describe('Plant Management Integration Tests', () => {
             ]);
 
             expect(plants).toHaveLength(2);
-            expect(plants[0].spacing).toBeGreaterThanOrEqual(DEFAULT_PLANT_SPACING[plants[0].type]);
-            expect(plants[1].spacing).toBeGreaterThanOrEqual(DEFAULT_PLANT_SPACING[plants[1].type]);
+            expect(plants[0].spacing).toBeGreaterThanOrEqual(plantCatalogService.requireEntry(plants[0].type).defaultSpacing);
+            expect(plants[1].spacing).toBeGreaterThanOrEqual(plantCatalogService.requireEntry(plants[1].type).defaultSpacing);
         });
     });
 
@@ -0,0 +1,37 @@
+import express, { Express } from 'express'; // ^4.18.2
+import request from 'supertest'; // ^6.3.0
+import { authorizeCatalogChanges } from '../../../src/middleware/auth.middleware';
+import { UserRole } from '../../../src/config/security.config';
+
+describe('authorizeCatalogChanges', () => {
+    let app: Express;
+
+    beforeEach(() => {
+        app = express();
+        app.use((req, _res, next) => {
+            req.user = { id: 'user-1', role: req.header('x-role') as UserRole, sessionId: 'session-1' };
+            next();
+        });
+        app.use('/api/plant-catalog', authorizeCatalogChanges(), (_req, res) => {
+            res.sendStatus(204);
+        });
+    });
+
+    it('should let every signed-in user read the catalog', async () => {
+        await request(app).get('/api/plant-catalog/tomato').set('x-role', 'user').expect(204);
+    });
+
+    it('should refuse catalog changes to roles that do not manage the system', async () => {
+        for (const role of ['user', 'premium', 'site_admin']) {
+            await request(app).post('/api/plant-catalog').set('x-role', role).expect(403);
+            await request(app).put('/api/plant-catalog/tomato').set('x-role', role).expect(403);
+            await request(app).delete('/api/plant-catalog/tomato/relationships/basil').set('x-role', role).expect(403);
+        }
+    });
+
+    it('should let administrators change the catalog', async () => {
+        await request(app).post('/api/plant-catalog').set('x-role', 'admin').expect(204);
+        await request(app).put('/api/plant-catalog/tomato/relationships/basil').set('x-role', 'admin').expect(204);
+        await request(app).delete('/api/plant-catalog/tomato').set('x-role', 'admin').expect(204);
+    });
+});
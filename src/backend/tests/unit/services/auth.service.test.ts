@@ -0,0 +1,306 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import * as bcrypt from 'bcrypt'; // ^5.1.0
+import { AuthService } from '../../../src/services/auth.service';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { AuthSessionRepository } from '../../../src/repositories/auth-session.repository';
+import { MailService } from '../../../src/services/mail.service';
+import { IUser } from '../../../src/interfaces/user.interface';
+import { IAuthSession, IRefreshTokenRecord } from '../../../src/interfaces/auth.interface';
+import { AUTH_ERRORS, SESSION_REVOCATION_REASONS } from '../../../src/constants/auth.constants';
+import { hashToken } from '../../../src/utils/security.utils';
+
+// Token pairs are numbered in the order they are signed
+jest.mock('../../../src/utils/security.utils', () => {
+    const actual = jest.requireActual('../../../src/utils/security.utils') as Record<string, unknown>;
+    let signed = 0;
+    return {
+        ...actual,
+        generateToken: jest.fn(() => {
+            signed++;
+            return { accessToken: `access-${signed}`, refreshToken: `refresh-${signed}`, expiresIn: 86400000 };
+        })
+    };
+});
+
+// Password checks are counted to show unknown emails are checked like wrong passwords
+jest.mock('bcrypt', () => {
+    const actual = jest.requireActual('bcrypt') as typeof import('bcrypt');
+    return { ...actual, compare: jest.fn(actual.compare) };
+});
+
+describe('AuthService', () => {
+    let service: AuthService;
+    let users: Record<string, IUser>;
+    let refreshTokens: IRefreshTokenRecord[];
+    let resetTokens: { userId: string; tokenHash: string; expiresAt: Date; usedAt: Date | null }[];
+    let userRepository: Record<string, jest.Mock>;
+    let authSessionRepository: Record<string, jest.Mock>;
+    let mailService: { send: jest.Mock };
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const password = 'correct horse battery';
+    const sentToken = (): string => (mailService.send.mock.calls[0][2] as string).match(/^[0-9a-f]{64}$/m)![0];
+
+    beforeEach(async () => {
+        users = {
+            'user-1': {
+                id: 'user-1',
+                email: 'ana@example.com',
+                name: 'Ana',
+                role: 'premium',
+                passwordHash: await bcrypt.hash(password, 4),
+                createdAt: new Date('2025-01-01T00:00:00Z'),
+                updatedAt: new Date('2025-01-01T00:00:00Z')
+            }
+        };
+        refreshTokens = [];
+        resetTokens = [];
+
+        const findUser = (email: string) => Object.values(users).find(user => user.email === email.toLowerCase()) ?? null;
+        userRepository = {
+            createUser: jest.fn(async (input: any, passwordHash: string) => {
+                if (findUser(input.email)) {
+                    throw new Error(`User with email ${input.email} already exists`);
+                }
+                users['user-2'] = { ...input, id: 'user-2', role: input.role ?? 'user', passwordHash, createdAt: now, updatedAt: now };
+                return { ...users['user-2'], passwordHash: undefined };
+            }),
+            getUserById: jest.fn(async (id: string) => users[id] ?? null),
+            getUserByEmail: jest.fn(async (email: string) => findUser(email)),
+            getUserWithPasswordHash: jest.fn(async (email: string) => findUser(email)),
+            setPasswordHash: jest.fn(async (id: string, passwordHash: string) => {
+                users[id].passwordHash = passwordHash;
+                return true;
+            }),
+            addDeviceToken: jest.fn(async (id: string, deviceToken: string) => {
+                if (!users[id]) {
+                    return false;
+                }
+                users[id].deviceTokens = [...new Set([...(users[id].deviceTokens ?? []), deviceToken])];
+                return true;
+            }),
+            removeDeviceToken: jest.fn(async (id: string, deviceToken: string) => {
+                const registered = users[id]?.deviceTokens ?? [];
+                if (!registered.includes(deviceToken)) {
+                    return false;
+                }
+                users[id].deviceTokens = registered.filter(token => token !== deviceToken);
+                return true;
+            })
+        };
+
+        const activeSessions = (userId: string): IAuthSession[] => {
+            const families = new Map<string, IRefreshTokenRecord[]>();
+            refreshTokens
+                .filter(token => token.userId === userId)
+                .forEach(token => families.set(token.familyId, [...(families.get(token.familyId) ?? []), token]));
+            return [...families.entries()]
+                .filter(([, tokens]) => tokens.every(token => !token.revokedAt))
+                .map(([sessionId, tokens]) => ({
+                    sessionId,
+                    signedInAt: tokens[0].createdAt,
+                    lastRefreshedAt: tokens[tokens.length - 1].createdAt,
+                    expiresAt: tokens[tokens.length - 1].expiresAt
+                }))
+                .sort((a, b) => b.signedInAt.getTime() - a.signedInAt.getTime());
+        };
+        const revoke = (tokens: IRefreshTokenRecord[], reason: any, at: Date) =>
+            tokens.filter(token => !token.revokedAt).map(token => Object.assign(token, { revokedAt: at, revokedReason: reason }));
+        authSessionRepository = {
+            createRefreshToken: jest.fn(async (token: any) => {
+                const record = { ...token, id: `token-${refreshTokens.length + 1}`, usedAt: null, revokedAt: null, revokedReason: null, createdAt: new Date(now.getTime() + refreshTokens.length) };
+                refreshTokens.push(record);
+                return record;
+            }),
+            findRefreshToken: jest.fn(async (tokenHash: string) => refreshTokens.find(token => token.tokenHash === tokenHash) ?? null),
+            markRefreshTokenUsed: jest.fn(async (id: string, usedAt: Date) => {
+                const token = refreshTokens.find(candidate => candidate.id === id && !candidate.usedAt && !candidate.revokedAt);
+                return !!token && !!Object.assign(token, { usedAt });
+            }),
+            revokeFamily: jest.fn(async (familyId: string, reason: any, at: Date) =>
+                revoke(refreshTokens.filter(token => token.familyId === familyId), reason, at).length),
+            revokeUserSessions: jest.fn(async (userId: string, reason: any, at: Date) =>
+                [...new Set(revoke(refreshTokens.filter(token => token.userId === userId), reason, at).map(token => token.familyId))]),
+            listActiveSessions: jest.fn(async (userId: string) => activeSessions(userId)),
+            createResetToken: jest.fn(async (userId: string, tokenHash: string, expiresAt: Date) => {
+                resetTokens.push({ userId, tokenHash, expiresAt, usedAt: null });
+            }),
+            consumeResetToken: jest.fn(async (tokenHash: string, at: Date) => {
+                const token = resetTokens.find(candidate => candidate.tokenHash === tokenHash && !candidate.usedAt && candidate.expiresAt > at);
+                return token ? Object.assign(token, { usedAt: at }).userId : null;
+            })
+        };
+        mailService = { send: jest.fn(async () => undefined) };
+
+        service = new AuthService(
+            userRepository as unknown as UserRepository,
+            authSessionRepository as unknown as AuthSessionRepository,
+            mailService as unknown as MailService
+        );
+    });
+
+    describe('register', () => {
+        it('should create a basic user with a hashed password and sign the device in', async () => {
+            const tokens = await service.register(
+                { email: 'ben@example.com', name: 'Ben', password, role: 'admin' } as any,
+                'device-a',
+                now
+            );
+
+            expect(userRepository.createUser).toHaveBeenCalledWith({ email: 'ben@example.com', name: 'Ben' }, expect.any(String));
+            expect(await bcrypt.compare(password, users['user-2'].passwordHash!)).toBe(true);
+            expect(tokens.user).toEqual(expect.objectContaining({ id: 'user-2', role: 'user' }));
+            expect(tokens.user.passwordHash).toBeUndefined();
+            expect(refreshTokens).toEqual([expect.objectContaining({
+                userId: 'user-2',
+                familyId: tokens.sessionId,
+                tokenHash: hashToken(tokens.refreshToken),
+                fingerprintHash: hashToken('device-a'),
+                expiresAt: new Date('2025-06-17T07:00:00Z')
+            })]);
+        });
+
+        it('should reject short passwords and missing device fingerprints', async () => {
+            await expect(service.register({ email: 'ben@example.com', name: 'Ben', password: 'short' }, 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.WEAK_PASSWORD);
+            await expect(service.register({ email: 'ben@example.com', name: 'Ben', password }, '', now))
+                .rejects.toThrow(AUTH_ERRORS.FINGERPRINT_REQUIRED);
+
+            expect(userRepository.createUser).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('login', () => {
+        it('should give the same error for unknown emails and wrong passwords', async () => {
+            await expect(service.login('nobody@example.com', password, 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_CREDENTIALS);
+            await expect(service.login('ana@example.com', 'wrong password!', 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_CREDENTIALS);
+
+            expect(bcrypt.compare).toHaveBeenCalledTimes(2);
+            expect(authSessionRepository.createRefreshToken).not.toHaveBeenCalled();
+        });
+
+        it('should sign the oldest session out past the concurrent session limit', async () => {
+            const first = await service.login('ANA@example.com', password, 'device-a', now);
+            await service.login('ana@example.com', password, 'device-b', now);
+            await service.login('ana@example.com', password, 'device-c', now);
+            await service.login('ana@example.com', password, 'device-d', now);
+
+            expect(authSessionRepository.revokeFamily).toHaveBeenCalledTimes(1);
+            expect(authSessionRepository.revokeFamily).toHaveBeenCalledWith(first.sessionId, SESSION_REVOCATION_REASONS.SESSION_LIMIT, now);
+            expect(await service.listSessions('user-1', now)).toHaveLength(3);
+        });
+    });
+
+    describe('refresh', () => {
+        it('should exchange a refresh token once for the next pair of the same session', async () => {
+            const signedIn = await service.login('ana@example.com', password, 'device-a', now);
+
+            const refreshed = await service.refresh(signedIn.refreshToken, 'device-a', now);
+
+            expect(refreshed.sessionId).toBe(signedIn.sessionId);
+            expect(refreshed.refreshToken).not.toBe(signedIn.refreshToken);
+            expect(refreshTokens[0].usedAt).toEqual(now);
+            expect(refreshTokens[1]).toMatchObject({ familyId: signedIn.sessionId, usedAt: null });
+        });
+
+        it('should revoke the whole session when a used refresh token is presented again', async () => {
+            const signedIn = await service.login('ana@example.com', password, 'device-a', now);
+            const refreshed = await service.refresh(signedIn.refreshToken, 'device-a', now);
+
+            await expect(service.refresh(signedIn.refreshToken, 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.REFRESH_TOKEN_REUSED);
+            expect(authSessionRepository.revokeFamily).toHaveBeenCalledWith(signedIn.sessionId, SESSION_REVOCATION_REASONS.TOKEN_REUSE, now);
+
+            // The legitimate device's latest token dies with the session
+            await expect(service.refresh(refreshed.refreshToken, 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+        });
+
+        it('should revoke the session when its refresh token is presented from another device', async () => {
+            const signedIn = await service.login('ana@example.com', password, 'device-a', now);
+
+            await expect(service.refresh(signedIn.refreshToken, 'device-b', now))
+                .rejects.toThrow(AUTH_ERRORS.DEVICE_MISMATCH);
+            expect(refreshTokens[0].revokedReason).toBe(SESSION_REVOCATION_REASONS.DEVICE_MISMATCH);
+        });
+
+        it('should refuse expired and unknown refresh tokens', async () => {
+            const signedIn = await service.login('ana@example.com', password, 'device-a', now);
+
+            await expect(service.refresh(signedIn.refreshToken, 'device-a', new Date('2025-06-18T07:00:00Z')))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+            await expect(service.refresh('made-up', 'device-a', now))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_REFRESH_TOKEN);
+            expect(authSessionRepository.markRefreshTokenUsed).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('logout', () => {
+        it('should sign out sessions of the user only', async () => {
+            const signedIn = await service.login('ana@example.com', password, 'device-a', now);
+
+            await expect(service.logout('user-2', signedIn.sessionId, now))
+                .rejects.toThrow(AUTH_ERRORS.SESSION_NOT_FOUND);
+            await service.logout('user-1', signedIn.sessionId, now);
+
+            expect(refreshTokens[0].revokedReason).toBe(SESSION_REVOCATION_REASONS.LOGOUT);
+        });
+    });
+
+    describe('devices', () => {
+        it('should register devices of a user for push notifications once and unregister them', async () => {
+            await service.registerDevice('user-1', 'fcm-token-a');
+            await service.registerDevice('user-1', 'fcm-token-a');
+            expect(users['user-1'].deviceTokens).toEqual(['fcm-token-a']);
+
+            await service.unregisterDevice('user-1', 'fcm-token-a');
+            expect(users['user-1'].deviceTokens).toEqual([]);
+            await expect(service.unregisterDevice('user-1', 'fcm-token-a'))
+                .rejects.toThrow(AUTH_ERRORS.DEVICE_NOT_REGISTERED);
+        });
+
+        it('should reject missing and oversized device tokens', async () => {
+            await expect(service.registerDevice('user-1', '')).rejects.toThrow(AUTH_ERRORS.INVALID_DEVICE_TOKEN);
+            await expect(service.registerDevice('user-1', 'x'.repeat(5000))).rejects.toThrow(AUTH_ERRORS.INVALID_DEVICE_TOKEN);
+            expect(userRepository.addDeviceToken).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('password reset', () => {
+        it('should email a one-time token to the user without revealing whether the email exists', async () => {
+            await expect(service.requestPasswordReset('nobody@example.com', now)).resolves.toBeUndefined();
+            expect(mailService.send).not.toHaveBeenCalled();
+
+            await expect(service.requestPasswordReset('ana@example.com', now)).resolves.toBeUndefined();
+
+            expect(mailService.send).toHaveBeenCalledWith('ana@example.com', 'Reset your password', expect.any(String));
+            expect(resetTokens).toEqual([{
+                userId: 'user-1',
+                tokenHash: hashToken(sentToken()),
+                expiresAt: new Date('2025-06-10T08:00:00Z'),
+                usedAt: null
+            }]);
+        });
+
+        it('should set the new password once and sign out every session', async () => {
+            await service.login('ana@example.com', password, 'device-a', now);
+            await service.requestPasswordReset('ana@example.com', now);
+            const resetToken = sentToken();
+
+            await service.resetPassword(resetToken, 'a brand new passphrase', now);
+
+            expect(await bcrypt.compare('a brand new passphrase', users['user-1'].passwordHash!)).toBe(true);
+            expect(refreshTokens[0].revokedReason).toBe(SESSION_REVOCATION_REASONS.PASSWORD_RESET);
+            await expect(service.resetPassword(resetToken, 'another new passphrase', now))
+                .rejects.toThrow(AUTH_ERRORS.INVALID_RESET_TOKEN);
+        });
+
+        it('should not tell the caller when the token cannot be sent', async () => {
+            mailService.send.mockRejectedValueOnce(new Error('SMTP server unreachable'));
+
+            await expect(service.requestPasswordReset('ana@example.com', now)).resolves.toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import moment from 'moment'; // ^2.29.0
+import { ClimateService } from '../../../src/services/climate.service';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { plantCatalogSeedData } from '../../../src/db/seeds/plants.seed';
+import { IGarden } from '../../../src/interfaces/garden.interface';
+import { PLANT_TYPES } from '../../../src/constants/plant.constants';
+import { CLIMATE_SOURCES, PLANTING_DATE_STATUS } from '../../../src/constants/climate.constants';
+
+describe('ClimateService', () => {
+    let climateService: ClimateService;
+
+    // Helper function to format dates for comparison
+    const formatDate = (date?: Date): string | undefined => date && moment(date).format('YYYY-MM-DD');
+
+    // Helper function to create test garden
+    const createTestGarden = (overrides: Partial<IGarden> = {}): IGarden => ({
+        id: 'test-garden-1',
+        area: 100,
+        zones: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides
+    });
+
+    const zone6Climate = { hardinessZone: '6b', lastSpringFrost: '04-20', firstFallFrost: '10-20' };
+
+    beforeEach(() => {
+        const catalogEntries = new Map(plantCatalogSeedData.map(entry => [entry.type, entry]));
+        const plantCatalog = {
+            requireEntry: jest.fn((type: string) => {
+                const entry = catalogEntries.get(type);
+                if (!entry) {
+                    throw new Error(`Plant type not found in catalog: ${type}`);
+                }
+                return entry;
+            }),
+            listEntries: jest.fn(() => plantCatalogSeedData)
+        } as unknown as PlantCatalogService;
+
+        climateService = new ClimateService(plantCatalog);
+    });
+
+    describe('resolveClimate', () => {
+        it('should prefer frost dates entered by the gardener', () => {
+            const climate = climateService.resolveClimate(createTestGarden({
+                postalCode: '10001',
+                climate: { lastSpringFrost: '05-01', firstFallFrost: '10-01' }
+            }));
+
+            expect(climate).toEqual({
+                lastSpringFrost: '05-01',
+                firstFallFrost: '10-01',
+                source: CLIMATE_SOURCES.USER
+            });
+        });
+
+        it('should take frost dates from an entered hardiness zone', () => {
+            const climate = climateService.resolveClimate(createTestGarden({ climate: { hardinessZone: '6b' } }));
+
+            expect(climate).toEqual({ ...zone6Climate, source: CLIMATE_SOURCES.USER });
+        });
+
+        it('should look up the hardiness zone from the postal code', () => {
+            const climate = climateService.resolveClimate(createTestGarden({ postalCode: '10001' }));
+
+            expect(climate).toEqual({
+                hardinessZone: '7b',
+                lastSpringFrost: '04-10',
+                firstFallFrost: '10-30',
+                source: CLIMATE_SOURCES.LOOKUP
+            });
+        });
+
+        it('should look up the hardiness zone from the nearest reference point', () => {
+            expect(climateService.lookupHardinessZone({ latitude: 41.9, longitude: -87.7 })).toBe('6b');
+            expect(climateService.lookupHardinessZone({ postalCode: 'SW1A 1AA', latitude: 51.5, longitude: -0.1 }))
+                .toBeUndefined();
+            expect(climateService.resolveClimate(createTestGarden({ latitude: 51.5 }))).toBeUndefined();
+        });
+
+        it('should shift zone frost dates by six months in the southern hemisphere', () => {
+            const climate = climateService.resolveClimate(createTestGarden({
+                latitude: -37.8,
+                climate: { hardinessZone: '6' }
+            }));
+
+            expect(climate?.lastSpringFrost).toBe('10-20');
+            expect(climate?.firstFallFrost).toBe('04-20');
+        });
+
+        it('should leave frost dates empty for frost-free zones', () => {
+            const climate = climateService.resolveClimate(createTestGarden({ postalCode: '33101' }));
+
+            expect(climate).toEqual({
+                hardinessZone: '11a',
+                lastSpringFrost: undefined,
+                firstFallFrost: undefined,
+                source: CLIMATE_SOURCES.LOOKUP
+            });
+        });
+    });
+
+    describe('getPlantingWindow', () => {
+        it('should suggest indoor sowing and transplant dates for tender crops', () => {
+            const window = climateService.getPlantingWindow(zone6Climate, PLANT_TYPES.TOMATOES, new Date(2025, 2, 1));
+
+            expect(formatDate(window.safeStartDate)).toBe('2025-05-04');
+            expect(formatDate(window.safeEndDate)).toBe('2025-07-18');
+            expect(formatDate(window.sowIndoorsDate)).toBe('2025-03-23');
+            expect(formatDate(window.transplantDate)).toBe('2025-05-04');
+            expect(window.directSowDate).toBeUndefined();
+        });
+
+        it('should suggest direct sowing before the last frost for hardy crops', () => {
+            const window = climateService.getPlantingWindow(zone6Climate, PLANT_TYPES.CARROTS, new Date(2025, 2, 1));
+
+            expect(formatDate(window.directSowDate)).toBe('2025-03-23');
+            expect(window.sowIndoorsDate).toBeUndefined();
+        });
+
+        it('should use the next season once the first fall frost has passed', () => {
+            const window = climateService.getPlantingWindow(zone6Climate, PLANT_TYPES.LETTUCE, new Date(2025, 10, 1));
+
+            expect(formatDate(window.safeStartDate)).toBe('2026-04-06');
+        });
+    });
+
+    describe('checkPlantingDate', () => {
+        it('should accept dates inside the safe window', () => {
+            const check = climateService.checkPlantingDate(zone6Climate, PLANT_TYPES.TOMATOES, new Date(2025, 4, 15));
+
+            expect(check.status).toBe(PLANTING_DATE_STATUS.OK);
+            expect(check.message).toBeUndefined();
+        });
+
+        it('should block dates exposed to frost', () => {
+            const check = climateService.checkPlantingDate(zone6Climate, PLANT_TYPES.TOMATOES, new Date(2025, 3, 25));
+
+            expect(check.status).toBe(PLANTING_DATE_STATUS.BLOCKED);
+            expect(check.message).toBe('Tomatoes set out before May 4 risks frost damage');
+        });
+
+        it('should warn about dates too late to mature before the first fall frost', () => {
+            const check = climateService.checkPlantingDate(zone6Climate, PLANT_TYPES.TOMATOES, new Date(2025, 7, 1));
+
+            expect(check.status).toBe(PLANTING_DATE_STATUS.WARNING);
+            expect(check.message).toBe('Tomatoes set out after July 18 may not mature before the first fall frost');
+        });
+
+        it('should block crops that cannot mature within the frost-free season', () => {
+            const check = climateService.checkPlantingDate(
+                { hardinessZone: '2', lastSpringFrost: '05-31', firstFallFrost: '09-01' },
+                PLANT_TYPES.TOMATOES,
+                new Date(2025, 5, 20)
+            );
+
+            expect(check.status).toBe(PLANTING_DATE_STATUS.BLOCKED);
+            expect(check.message).toBe('The frost-free season is too short for Tomatoes to mature');
+        });
+
+        it('should accept any date in frost-free climates', () => {
+            const check = climateService.checkPlantingDate({ hardinessZone: '11a' }, PLANT_TYPES.TOMATOES, new Date(2025, 0, 5));
+
+            expect(check.status).toBe(PLANTING_DATE_STATUS.OK);
+        });
+    });
+
+    describe('getPlantingCalendar', () => {
+        it('should list a window for every catalog plant type', () => {
+            const calendar = climateService.getPlantingCalendar(
+                createTestGarden({ climate: zone6Climate }),
+                new Date(2025, 2, 1)
+            );
+
+            expect(calendar.climate.source).toBe(CLIMATE_SOURCES.USER);
+            expect(calendar.windows.map(window => window.plantType))
+                .toEqual(plantCatalogSeedData.map(entry => entry.type));
+        });
+
+        it('should reject gardens without a known climate', () => {
+            expect(() => climateService.getPlantingCalendar(createTestGarden(), new Date()))
+                .toThrow('Garden climate is unknown');
+        });
+    });
+});
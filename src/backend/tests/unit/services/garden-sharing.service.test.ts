@@ -0,0 +1,177 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { GardenSharingService } from '../../../src/services/garden-sharing.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { IGarden, IGardenInvitation } from '../../../src/interfaces/garden.interface';
+import {
+    GARDEN_ROLES,
+    GARDEN_SHARING_DEFAULTS,
+    GARDEN_SHARING_ERRORS,
+    GardenMemberRole
+} from '../../../src/constants/garden-sharing.constants';
+
+describe('GardenSharingService', () => {
+    let service: GardenSharingService;
+    let garden: IGarden;
+    let gardenRepository: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const invitation = (overrides: Partial<IGardenInvitation> = {}): IGardenInvitation => ({
+        code: 'ABCD2345',
+        role: GARDEN_ROLES.COLLABORATOR,
+        createdBy: 'owner-1',
+        createdAt: new Date('2025-06-08T07:00:00Z'),
+        expiresAt: new Date('2025-06-15T07:00:00Z'),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        garden = {
+            id: 'garden-1',
+            area: 100,
+            zones: [],
+            ownerId: 'owner-1',
+            members: [{ userId: 'viewer-1', role: GARDEN_ROLES.VIEWER, addedBy: 'owner-1', addedAt: new Date('2025-05-01T00:00:00Z') }],
+            invitations: [invitation()],
+            createdAt: new Date('2025-04-01T00:00:00Z'),
+            updatedAt: new Date('2025-04-01T00:00:00Z')
+        };
+
+        const hasAccess = (userId: string) =>
+            garden.ownerId === userId || garden.members!.some(member => member.userId === userId);
+        gardenRepository = {
+            getGardenForUser: jest.fn(async (id: string, userId: string) =>
+                id === garden.id && hasAccess(userId) ? garden : null),
+            getGardenRole: jest.fn(async (id: string, userId: string) => {
+                if (id !== garden.id) {
+                    return undefined;
+                }
+                return garden.ownerId === userId
+                    ? GARDEN_ROLES.OWNER
+                    : garden.members!.find(member => member.userId === userId)?.role;
+            }),
+            getGardenByInvitationCode: jest.fn(async (code: string) =>
+                garden.invitations!.some(candidate => candidate.code === code) ? garden : null),
+            addInvitation: jest.fn(async () => true),
+            removeInvitation: jest.fn(async () => true),
+            acceptInvitation: jest.fn(async (_id: string, _code: string, member: any) => ({
+                ...garden,
+                members: [...garden.members!, member]
+            })),
+            setMemberRole: jest.fn(async () => true),
+            removeMember: jest.fn(async (_id: string, userId: string) =>
+                garden.members!.some(member => member.userId === userId))
+        };
+
+        service = new GardenSharingService(
+            gardenRepository as unknown as GardenRepository,
+            {
+                getUsersByIds: jest.fn(async () => [
+                    { id: 'owner-1', name: 'Sam', email: 'sam@example.com' },
+                    { id: 'viewer-1', name: 'Alex', email: 'alex@example.com' }
+                ])
+            } as unknown as UserRepository
+        );
+    });
+
+    describe('hasGardenPermission', () => {
+        it('should grant garden permissions by the user\'s role in the garden', async () => {
+            await expect(service.hasGardenPermission('garden-1', 'owner-1', 'write:own_garden')).resolves.toBe(true);
+            await expect(service.hasGardenPermission('garden-1', 'viewer-1', 'read:own_garden')).resolves.toBe(true);
+            await expect(service.hasGardenPermission('garden-1', 'viewer-1', 'write:own_garden')).resolves.toBe(false);
+            await expect(service.hasGardenPermission('garden-1', 'stranger', 'read:own_garden')).resolves.toBe(false);
+        });
+    });
+
+    describe('listMembers', () => {
+        it('should list the owner first and then the users the garden is shared with', async () => {
+            const members = await service.listMembers('garden-1', 'viewer-1');
+
+            expect(members).toEqual([
+                { userId: 'owner-1', role: GARDEN_ROLES.OWNER, addedAt: garden.createdAt, name: 'Sam', email: 'sam@example.com' },
+                { userId: 'viewer-1', role: GARDEN_ROLES.VIEWER, addedAt: garden.members![0].addedAt, name: 'Alex', email: 'alex@example.com' }
+            ]);
+        });
+
+        it('should not reveal gardens that are not shared with the user', async () => {
+            await expect(service.listMembers('garden-1', 'stranger')).rejects.toThrow('Garden with ID garden-1 not found');
+        });
+    });
+
+    describe('createInvitation', () => {
+        it('should hand out a readable code that expires after a week', async () => {
+            const created = await service.createInvitation('garden-1', 'owner-1', GARDEN_ROLES.VIEWER, now);
+
+            expect(created.code).toMatch(new RegExp(`^[${GARDEN_SHARING_DEFAULTS.INVITATION_CODE_ALPHABET}]{8}$`));
+            expect(created).toMatchObject({
+                role: GARDEN_ROLES.VIEWER,
+                createdBy: 'owner-1',
+                expiresAt: new Date('2025-06-17T07:00:00Z')
+            });
+            expect(gardenRepository.addInvitation).toHaveBeenCalledWith('garden-1', created);
+        });
+
+        it('should only let the owner share the garden, and only as collaborator or viewer', async () => {
+            await expect(service.createInvitation('garden-1', 'viewer-1', GARDEN_ROLES.VIEWER, now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.NOT_OWNER);
+            await expect(service.createInvitation('garden-1', 'owner-1', GARDEN_ROLES.OWNER as GardenMemberRole, now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.INVALID_ROLE);
+
+            expect(gardenRepository.addInvitation).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('acceptInvitation', () => {
+        it('should share the garden with the user under the invitation\'s role', async () => {
+            const membership = await service.acceptInvitation('abcd-2345', 'friend-1', now);
+
+            expect(membership).toEqual({
+                gardenId: 'garden-1',
+                userId: 'friend-1',
+                role: GARDEN_ROLES.COLLABORATOR,
+                addedBy: 'owner-1',
+                addedAt: now
+            });
+            expect(gardenRepository.acceptInvitation).toHaveBeenCalledWith('garden-1', 'ABCD2345', expect.objectContaining({ userId: 'friend-1' }));
+        });
+
+        it('should reject unknown, expired and accepted codes', async () => {
+            await expect(service.acceptInvitation('ZZZZ9999', 'friend-1', now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.INVITATION_NOT_FOUND);
+
+            garden.invitations = [invitation({ expiresAt: new Date('2025-06-09T07:00:00Z') })];
+            await expect(service.acceptInvitation('ABCD2345', 'friend-1', now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.INVITATION_EXPIRED);
+
+            garden.invitations = [invitation({ acceptedBy: 'friend-2', acceptedAt: now })];
+            await expect(service.acceptInvitation('ABCD2345', 'friend-1', now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.INVITATION_USED);
+
+            expect(gardenRepository.acceptInvitation).not.toHaveBeenCalled();
+        });
+
+        it('should reject users who already have access and codes accepted concurrently', async () => {
+            await expect(service.acceptInvitation('ABCD2345', 'viewer-1', now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.ALREADY_MEMBER);
+
+            gardenRepository.acceptInvitation.mockResolvedValue(null as never);
+            await expect(service.acceptInvitation('ABCD2345', 'friend-1', now))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.INVITATION_USED);
+        });
+    });
+
+    describe('removeMember', () => {
+        it('should let members leave a garden but not remove others', async () => {
+            await service.removeMember('garden-1', 'viewer-1', 'viewer-1');
+            expect(gardenRepository.removeMember).toHaveBeenCalledWith('garden-1', 'viewer-1');
+
+            await expect(service.removeMember('garden-1', 'viewer-1', 'owner-1'))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.NOT_OWNER);
+        });
+
+        it('should report users the garden is not shared with', async () => {
+            await expect(service.removeMember('garden-1', 'owner-1', 'stranger'))
+                .rejects.toThrow(GARDEN_SHARING_ERRORS.MEMBER_NOT_FOUND);
+        });
+    });
+});
@@ -1,8 +1,27 @@
-import { describe, it, expect, beforeEach, jest } from 'jest';
-import { GardenService } from '../../src/services/garden.service';
-import { GardenRepository } from '../../src/repositories/garden.repository';
-import { GardenOptimizerService } from '../../src/services/optimization/garden-optimizer.service';
-import { IGarden } from '../../src/interfaces/garden.interface';
+import { jest } from '@jest/globals'; // ^29.0.0
+import { GardenService } from '../../../src/services/garden.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { GardenOptimizerService } from '../../../src/services/optimization/garden-optimizer.service';
+import { SeasonPlannerService } from '../../../src/services/optimization/season-planner.service';
+import { ClimateService } from '../../../src/services/climate.service';
+import { HarvestService } from '../../../src/services/harvest.service';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { RainWateringService } from '../../../src/services/scheduling/rain-watering.service';
+import { WaterBalanceService } from '../../../src/services/water-balance.service';
+import { QuotaExceededError, QuotaService } from '../../../src/services/quota.service';
+import { QUOTA_ERRORS, QUOTA_RESOURCES } from '../../../src/constants/quota.constants';
+import { IGarden } from '../../../src/interfaces/garden.interface';
+
+// @nestjs/common has no CircuitBreaker decorator; apply the service's breaker as a no-op
+jest.mock('@nestjs/common', () => ({
+    ...jest.requireActual<object>('@nestjs/common'),
+    CircuitBreaker: () => () => undefined
+}));
+
+// The optimizer caches layouts in react-native-mmkv, which needs a React Native runtime
+jest.mock('../../../src/services/optimization/garden-optimizer.service', () => ({
+    GardenOptimizerService: jest.fn()
+}));
 
 // Constants for testing
 const AREA_CONSTRAINTS = {
@@ -60,6 +79,13 @@ describe('GardenService', () => {
     let gardenService: GardenService;
     let mockGardenRepository: jest.Mocked<GardenRepository>;
     let mockGardenOptimizer: jest.Mocked<GardenOptimizerService>;
+    let mockSeasonPlanner: jest.Mocked<SeasonPlannerService>;
+    let mockClimateService: jest.Mocked<ClimateService>;
+    let mockHarvestService: jest.Mocked<HarvestService>;
+    let mockWeatherService: jest.Mocked<WeatherService>;
+    let mockRainWateringService: jest.Mocked<RainWateringService>;
+    let mockWaterBalanceService: jest.Mocked<WaterBalanceService>;
+    let mockQuotaService: jest.Mocked<QuotaService>;
 
     beforeEach(() => {
         // Initialize mocks with performance monitoring
@@ -81,7 +107,49 @@ describe('GardenService', () => {
             validateSpaceUtilization: jest.fn()
         } as any;
 
-        gardenService = new GardenService(mockGardenRepository, mockGardenOptimizer);
+        mockSeasonPlanner = {
+            planSeason: jest.fn()
+        } as any;
+
+        mockClimateService = {
+            getPlantingCalendar: jest.fn()
+        } as any;
+
+        mockHarvestService = {
+            getHarvestForecast: jest.fn(),
+            recordHarvest: jest.fn(),
+            listHarvests: jest.fn(),
+            getSeasonTotals: jest.fn()
+        } as any;
+
+        mockWeatherService = {
+            getGardenForecast: jest.fn()
+        } as any;
+
+        mockRainWateringService = {
+            recordRainfall: jest.fn()
+        } as any;
+
+        mockWaterBalanceService = {
+            getZoneWaterBalance: jest.fn()
+        } as any;
+
+        mockQuotaService = {
+            createWithinGardenQuota: jest.fn((_ownerId: string, create: (session: any) => Promise<unknown>) => create('session')),
+            canUseAdvancedFeatures: jest.fn().mockResolvedValue(true)
+        } as any;
+
+        gardenService = new GardenService(
+            mockGardenRepository,
+            mockGardenOptimizer,
+            mockSeasonPlanner,
+            mockClimateService,
+            mockHarvestService,
+            mockWeatherService,
+            mockRainWateringService,
+            mockWaterBalanceService,
+            mockQuotaService
+        );
     });
 
     describe('createGarden', () => {
@@ -100,7 +168,7 @@ describe('GardenService', () => {
             // Verify
             expect(result).toBeDefined();
             expect(result.spaceUtilization).toBeGreaterThanOrEqual(92);
-            expect(mockGardenOptimizer.optimizeGardenLayout).toHaveBeenCalledWith(mockGarden);
+            expect(mockGardenOptimizer.optimizeGardenLayout).toHaveBeenCalledWith(mockGarden, true);
             expect(mockGardenRepository.createGarden).toHaveBeenCalled();
         });
 
@@ -134,6 +202,45 @@ describe('GardenService', () => {
             expect(metrics.successRate).toBe(100);
         });
 
+        it('should refuse gardens past the owner\'s garden limit without storing them', async () => {
+            mockGardenOptimizer.optimizeGardenLayout.mockResolvedValue({ ...mockGarden, spaceUtilization: 95 });
+            mockQuotaService.createWithinGardenQuota.mockRejectedValue(new QuotaExceededError(
+                QUOTA_ERRORS.GARDEN_LIMIT_REACHED,
+                { resource: QUOTA_RESOURCES.GARDENS, role: 'user', limit: 1, used: 1, requested: 1 }
+            ));
+
+            await expect(gardenService.createGarden({ ...mockGarden, ownerId: 'user-1' }))
+                .rejects.toThrow(QUOTA_ERRORS.GARDEN_LIMIT_REACHED);
+            expect(mockQuotaService.createWithinGardenQuota).toHaveBeenCalledWith('user-1', expect.any(Function));
+            expect(mockGardenRepository.createGarden).not.toHaveBeenCalled();
+        });
+
+        it('should store the garden in the transaction checking the owner\'s garden limit', async () => {
+            mockGardenOptimizer.optimizeGardenLayout.mockResolvedValue({ ...mockGarden, spaceUtilization: 95 });
+            mockGardenRepository.createGarden.mockResolvedValue(mockGarden);
+
+            await gardenService.createGarden({ ...mockGarden, ownerId: 'user-1' });
+
+            expect(mockGardenRepository.createGarden).toHaveBeenCalledWith(
+                expect.objectContaining({ ownerId: 'user-1' }),
+                'session'
+            );
+        });
+
+        it('should lay out gardens without companion planting for roles without advanced features', async () => {
+            mockQuotaService.canUseAdvancedFeatures.mockResolvedValue(false);
+            mockGardenOptimizer.optimizeGardenLayout.mockResolvedValue({ ...mockGarden, spaceUtilization: 95 });
+            mockGardenRepository.createGarden.mockResolvedValue(mockGarden);
+
+            await gardenService.createGarden({ ...mockGarden, ownerId: 'user-1' });
+
+            expect(mockQuotaService.canUseAdvancedFeatures).toHaveBeenCalledWith('user-1');
+            expect(mockGardenOptimizer.optimizeGardenLayout).toHaveBeenCalledWith(
+                expect.objectContaining({ ownerId: 'user-1' }),
+                false
+            );
+        });
+
         it('should handle optimization failures and rollback transaction', async () => {
             // Setup
             mockGardenOptimizer.optimizeGardenLayout.mockRejectedValue(new Error('Optimization failed'));
@@ -250,4 +357,139 @@ describe('GardenService', () => {
                 .rejects.toThrow('Deletion failed');
         });
     });
-});
\ No newline at end of file
+
+    describe('planSeason', () => {
+        it('should plan the season for the stored garden', async () => {
+            // Setup
+            const request = {
+                startDate: new Date('2025-03-01'),
+                crops: [{ plantType: 'lettuce', quantity: 4, successions: 3 }]
+            };
+            const timeline = {
+                gardenId: mockGarden.id,
+                startDate: request.startDate,
+                endDate: new Date('2026-03-01'),
+                plantings: [],
+                unscheduled: []
+            };
+            mockGardenRepository.getGardenById.mockResolvedValue(mockGarden);
+            mockSeasonPlanner.planSeason.mockReturnValue(timeline);
+
+            // Execute
+            const result = await gardenService.planSeason(mockGarden.id, request);
+
+            // Verify
+            expect(result).toBe(timeline);
+            expect(mockSeasonPlanner.planSeason).toHaveBeenCalledWith(mockGarden, request);
+        });
+
+        it('should reject planning for unknown gardens', async () => {
+            mockGardenRepository.getGardenById.mockResolvedValue(null);
+
+            await expect(gardenService.planSeason('missing', { startDate: new Date(), crops: [] }))
+                .rejects.toThrow('Garden with ID missing not found');
+            expect(mockSeasonPlanner.planSeason).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getPlantingCalendar', () => {
+        it('should build the calendar for the stored garden', async () => {
+            // Setup
+            const referenceDate = new Date('2025-03-01');
+            const calendar = {
+                gardenId: mockGarden.id,
+                climate: { hardinessZone: '6b', lastSpringFrost: '04-20', firstFallFrost: '10-20' },
+                windows: []
+            };
+            mockGardenRepository.getGardenById.mockResolvedValue(mockGarden);
+            mockClimateService.getPlantingCalendar.mockReturnValue(calendar);
+
+            // Execute
+            const result = await gardenService.getPlantingCalendar(mockGarden.id, referenceDate);
+
+            // Verify
+            expect(result).toBe(calendar);
+            expect(mockClimateService.getPlantingCalendar).toHaveBeenCalledWith(mockGarden, referenceDate);
+        });
+
+        it('should reject invalid reference dates', async () => {
+            await expect(gardenService.getPlantingCalendar(mockGarden.id, new Date('not a date')))
+                .rejects.toThrow('Planting calendar date must be a valid date');
+            expect(mockGardenRepository.getGardenById).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getHarvestForecast', () => {
+        it('should delegate the forecast to the harvest service', async () => {
+            // Setup
+            const from = new Date('2025-07-01');
+            const forecast = {
+                gardenId: mockGarden.id,
+                startDate: new Date('2025-06-30'),
+                endDate: new Date('2025-07-14'),
+                weeks: [],
+                plants: [],
+                totalForecastKg: 0,
+                totalActualKg: 0
+            };
+            mockHarvestService.getHarvestForecast.mockResolvedValue(forecast);
+
+            // Execute
+            const result = await gardenService.getHarvestForecast(mockGarden.id, from, 2);
+
+            // Verify
+            expect(result).toBe(forecast);
+            expect(mockHarvestService.getHarvestForecast).toHaveBeenCalledWith(mockGarden.id, from, 2);
+        });
+    });
+
+    describe('listHarvests', () => {
+        it('should list the harvest log of the garden with the given filters', async () => {
+            mockHarvestService.listHarvests.mockResolvedValue([]);
+
+            await gardenService.listHarvests(mockGarden.id, { zoneId: 'zone-1', season: 2025 });
+
+            expect(mockHarvestService.listHarvests).toHaveBeenCalledWith({
+                gardenId: mockGarden.id,
+                zoneId: 'zone-1',
+                season: 2025
+            });
+        });
+    });
+
+    describe('getWeatherForecast', () => {
+        it('should retrieve the forecast for the garden location', async () => {
+            const forecast = { source: 'fixture', hourly: [], daily: [] } as any;
+            mockWeatherService.getGardenForecast.mockResolvedValue(forecast);
+
+            const result = await gardenService.getWeatherForecast(mockGarden.id, 3);
+
+            expect(result).toBe(forecast);
+            expect(mockWeatherService.getGardenForecast).toHaveBeenCalledWith(mockGarden.id, 3);
+        });
+    });
+
+    describe('recordRainfall', () => {
+        it('should record the rainfall and return the adjusted watering tasks', async () => {
+            const recorded = { observation: { id: 'rain-1', rainfallMm: 18 }, adjustedSchedules: [] } as any;
+            mockRainWateringService.recordRainfall.mockResolvedValue(recorded);
+
+            const result = await gardenService.recordRainfall(mockGarden.id, { rainfallMm: 18 });
+
+            expect(result).toBe(recorded);
+            expect(mockRainWateringService.recordRainfall).toHaveBeenCalledWith(mockGarden.id, { rainfallMm: 18 });
+        });
+    });
+
+    describe('getZoneWaterBalance', () => {
+        it('should retrieve the water balance of the zone', async () => {
+            const report = { zoneId: 'zone-1', capacityMm: 48, history: [] } as any;
+            mockWaterBalanceService.getZoneWaterBalance.mockResolvedValue(report);
+
+            const result = await gardenService.getZoneWaterBalance(mockGarden.id, 'zone-1', 14);
+
+            expect(result).toBe(report);
+            expect(mockWaterBalanceService.getZoneWaterBalance).toHaveBeenCalledWith(mockGarden.id, 'zone-1', 14);
+        });
+    });
+});
@@ -0,0 +1,297 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { GrowthStageService } from '../../../src/services/growth-stage.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { GrowthTrackingRepository } from '../../../src/repositories/growth-tracking.repository';
+import { PestPressureRepository } from '../../../src/repositories/pest-pressure.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { NotificationSchedulerService } from '../../../src/services/scheduling/notification-scheduler.service';
+import { IPlantGrowthTracking } from '../../../src/interfaces/growth-stage.interface';
+import { ISchedule, TaskFrequency, TaskType } from '../../../src/interfaces/schedule.interface';
+import { NotificationType } from '../../../src/interfaces/notification.interface';
+import { GROWTH_STAGES } from '../../../src/constants/plant.constants';
+import { PLANT_HEALTH_STATUS } from '../../../src/constants/plant-health.constants';
+import { WEATHER_DAY_SOURCES } from '../../../src/constants/pest-pressure.constants';
+
+describe('GrowthStageService', () => {
+    let service: GrowthStageService;
+    let garden: any;
+    let plants: any[];
+    let tasks: ISchedule[];
+    let tracked: IPlantGrowthTracking[];
+    let plantRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+    let growthTrackingRepository: Record<string, jest.Mock>;
+    let notificationScheduler: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const catalog: Record<string, any> = {
+        tomatoes: { id: 'catalog-tomatoes', name: 'Tomatoes', daysToMaturity: 80, harvestWindowDays: 60, seedlingDays: 14, growingDays: 46 },
+        carrots: { id: 'catalog-carrots', name: 'Carrots', daysToMaturity: 70, harvestWindowDays: 21, seedlingDays: 21, growingDays: 35, singleHarvest: true },
+        lettuce: { id: 'catalog-lettuce', name: 'Lettuce', daysToMaturity: 45, harvestWindowDays: 14, singleHarvest: true },
+        spinach: { id: 'catalog-spinach', name: 'Spinach', daysToMaturity: 40, harvestWindowDays: 14, baseTemperature: 4 }
+    };
+
+    // Ten cool days count half a growing day each, and a hot day counts at most two
+    const weather = [
+        ...Array.from({ length: 10 }, (_, index) => ({
+            date: new Date(Date.UTC(2025, 4, index + 1)),
+            minTemperature: 10,
+            maxTemperature: 20,
+            humidity: 70,
+            rainfall: 0,
+            source: WEATHER_DAY_SOURCES.FORECAST
+        })),
+        {
+            date: new Date('2025-05-11T00:00:00Z'),
+            minTemperature: 30,
+            maxTemperature: 40,
+            humidity: 40,
+            rainfall: 0,
+            source: WEATHER_DAY_SOURCES.SENSORS
+        }
+    ];
+
+    beforeEach(() => {
+        plants = [
+            { id: 'plant-1', type: 'tomatoes', gardenId: 'garden-1', growthStage: GROWTH_STAGES.GROWING, daysToMaturity: 80, plantedDate: new Date('2025-04-01T09:00:00Z') },
+            { id: 'plant-2', type: 'carrots', gardenId: 'garden-1', growthStage: GROWTH_STAGES.MATURE, daysToMaturity: 70, plantedDate: new Date('2025-03-20T09:00:00Z'), healthStatus: PLANT_HEALTH_STATUS.FAIR },
+            { id: 'plant-3', type: 'lettuce', gardenId: 'garden-1', growthStage: GROWTH_STAGES.SEEDLING, daysToMaturity: 45, plantedDate: new Date('2025-06-01T09:00:00Z') }
+        ];
+        garden = { id: 'garden-1', name: 'Back garden' };
+        tasks = [];
+        tracked = [{
+            plantId: 'plant-2',
+            catalogId: 'catalog-carrots',
+            currentStage: GROWTH_STAGES.MATURE,
+            stageStartedAt: new Date('2025-05-25T00:00:00Z'),
+            daysInStage: 15,
+            progressDays: 77,
+            degreeDays: 770,
+            expectedHarvestDate: new Date('2025-06-02T00:00:00Z'),
+            healthStatus: PLANT_HEALTH_STATUS.GOOD,
+            lastUpdated: new Date('2025-06-09T07:00:00Z')
+        }];
+
+        plantRepository = {
+            getPlantsByGarden: jest.fn(async () => plants),
+            getPlantById: jest.fn(async (id: string) => plants.find(plant => plant.id === id) ?? null),
+            setGrowthStage: jest.fn(async (id: string, growthStage: GROWTH_STAGES) => ({ id, growthStage }))
+        };
+        scheduleRepository = {
+            getPendingTasks: jest.fn(async (_from: any, _to: any, filters: any = {}) =>
+                tasks.filter(task => task.completed === (filters.completed ?? false))),
+            createSchedule: jest.fn(async (input: any) => {
+                const created = { id: `schedule-${tasks.length + 1}`, ...input };
+                tasks.push(created);
+                return created;
+            })
+        };
+        growthTrackingRepository = {
+            findByPlants: jest.fn(async () => tracked),
+            saveTracking: jest.fn(async () => undefined)
+        };
+        notificationScheduler = {
+            scheduleBatchNotifications: jest.fn(async () => undefined)
+        };
+
+        service = new GrowthStageService(
+            {
+                getGardenById: jest.fn(async (id: string) => id === garden.id ? garden : null),
+                getGardenIds: jest.fn(async () => ['garden-1'])
+            } as unknown as GardenRepository,
+            plantRepository as unknown as PlantRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            growthTrackingRepository as unknown as GrowthTrackingRepository,
+            { findWeatherDays: jest.fn(async () => weather) } as unknown as PestPressureRepository,
+            {
+                getEntry: jest.fn((type: string) => catalog[type] && { type, ...catalog[type] }),
+                requireEntry: jest.fn((type: string) => ({ type, ...catalog[type] }))
+            } as unknown as PlantCatalogService,
+            notificationScheduler as unknown as NotificationSchedulerService
+        );
+    });
+
+    describe('progressGarden', () => {
+        it('should advance plants by their growing days and track their growth', async () => {
+            const progressions = await service.progressGarden('garden-1', now);
+
+            expect(plantRepository.setGrowthStage).toHaveBeenCalledTimes(1);
+            expect(plantRepository.setGrowthStage).toHaveBeenCalledWith('plant-1', GROWTH_STAGES.MATURE);
+
+            // 70 days since planting, of which ten cool days count 5 and the hot day 2
+            expect(progressions[0]).toMatchObject({
+                plantId: 'plant-1',
+                previousStage: GROWTH_STAGES.GROWING,
+                tracking: {
+                    catalogId: 'catalog-tomatoes',
+                    currentStage: GROWTH_STAGES.MATURE,
+                    stageStartedAt: new Date('2025-06-04T00:00:00Z'),
+                    daysInStage: 6,
+                    progressDays: 66,
+                    degreeDays: 660,
+                    expectedHarvestDate: new Date('2025-06-24T00:00:00Z'),
+                    healthStatus: PLANT_HEALTH_STATUS.GOOD
+                }
+            });
+            expect(progressions[0].harvestScheduleId).toBeUndefined();
+
+            // Lettuce without catalog durations is a seedling for a quarter of its 45 days
+            expect(progressions[2].tracking).toMatchObject({
+                currentStage: GROWTH_STAGES.SEEDLING,
+                stageStartedAt: new Date('2025-06-01T00:00:00Z'),
+                daysInStage: 9,
+                expectedHarvestDate: new Date('2025-07-16T00:00:00Z')
+            });
+            expect(growthTrackingRepository.saveTracking).toHaveBeenCalledTimes(3);
+        });
+
+        it('should raise one harvest task and notification for plants ready to harvest', async () => {
+            const progressions = await service.progressGarden('garden-1', now);
+
+            // Carrots are lifted once, so they stay mature from the day tracked
+            expect(progressions[1]).toMatchObject({
+                previousStage: GROWTH_STAGES.MATURE,
+                harvestScheduleId: 'schedule-1',
+                tracking: {
+                    currentStage: GROWTH_STAGES.MATURE,
+                    stageStartedAt: new Date('2025-05-25T00:00:00Z'),
+                    expectedHarvestDate: new Date('2025-06-02T00:00:00Z'),
+                    healthStatus: PLANT_HEALTH_STATUS.FAIR
+                }
+            });
+            expect(tasks).toEqual([expect.objectContaining({
+                plantId: 'plant-2',
+                taskType: TaskType.HARVESTING,
+                frequency: TaskFrequency.AS_NEEDED,
+                dueDate: now,
+                notes: 'Mature and ready to lift within 21 days'
+            })]);
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    type: NotificationType.HARVEST_TIME,
+                    body: 'Carrots: mature and ready to lift',
+                    data: { scheduleId: 'schedule-1', token: 'garden-1' },
+                    plantType: 'carrots'
+                })
+            ], now);
+
+            // The pending task covers the carrots the next morning
+            await service.progressGarden('garden-1', now);
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledTimes(1);
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledTimes(1);
+        });
+
+        it('should leave telling about harvest tasks to the rotation of gardens rotating harvests', async () => {
+            garden.taskRotations = [{ taskType: TaskType.HARVESTING, userIds: ['owner-1'], periodDays: 7, startsOn: now }];
+
+            const progressions = await service.progressGarden('garden-1', now);
+
+            expect(progressions[1].harvestScheduleId).toBe('schedule-1');
+            expect(notificationScheduler.scheduleBatchNotifications).not.toHaveBeenCalled();
+        });
+
+        it('should move crops picked over a season to harvesting', async () => {
+            plants[0].plantedDate = new Date('2025-03-01T09:00:00Z');
+            tasks.push({
+                id: 'early-harvest',
+                plantId: 'plant-1',
+                taskType: TaskType.HARVESTING,
+                completed: true,
+                completedDate: new Date('2025-05-01T10:00:00Z')
+            } as ISchedule);
+
+            const progressions = await service.progressGarden('garden-1', now);
+
+            expect(plantRepository.setGrowthStage).toHaveBeenCalledWith('plant-1', GROWTH_STAGES.HARVESTING);
+            expect(progressions[0].tracking.currentStage).toBe(GROWTH_STAGES.HARVESTING);
+            // A harvest done before the plant was ready does not cover it
+            expect(tasks[1]).toMatchObject({
+                plantId: 'plant-1',
+                frequency: TaskFrequency.WEEKLY,
+                notes: 'Ready for the first harvest'
+            });
+        });
+
+        it('should never move a plant back from a stage set by hand', async () => {
+            plants[2].growthStage = GROWTH_STAGES.GROWING;
+
+            const progressions = await service.progressGarden('garden-1', now);
+
+            expect(progressions[2].tracking).toMatchObject({
+                currentStage: GROWTH_STAGES.GROWING,
+                stageStartedAt: new Date('2025-06-10T00:00:00Z'),
+                daysInStage: 0
+            });
+            expect(plantRepository.setGrowthStage).not.toHaveBeenCalledWith('plant-3', expect.anything());
+        });
+
+        it('should fail for an unknown garden', async () => {
+            await expect(service.progressGarden('garden-9', now)).rejects.toThrow('Garden with ID garden-9 not found');
+        });
+    });
+
+    describe('getDegreeDays', () => {
+        it('should count degree days above the base temperature', () => {
+            expect(service.getDegreeDays(undefined, 10)).toBe(10);
+            expect(service.getDegreeDays(weather[0], 10)).toBe(5);
+            expect(service.getDegreeDays({ ...weather[0], minTemperature: 0, maxTemperature: 8 }, 10)).toBe(0);
+            expect(service.getDegreeDays(weather[10], 10)).toBe(20);
+        });
+
+        it('should let cool-season crops keep growing in cool weather', () => {
+            // Lettuce with a base of 4 °C grows 11 of its 16 degree days per average day
+            expect(service.getDegreeDays(weather[0], 4)).toBe(11);
+            expect(service.getDegreeDays(undefined, 4)).toBe(16);
+        });
+    });
+
+    describe('getDegreeDayCurve', () => {
+        it('should chart the degree days of a plant against its stage thresholds', async () => {
+            const curve = await service.getDegreeDayCurve('plant-1', now);
+
+            expect(curve).toMatchObject({
+                plantId: 'plant-1',
+                gardenId: 'garden-1',
+                baseTemperature: 10,
+                stages: [
+                    { stage: GROWTH_STAGES.SEEDLING, degreeDays: 0 },
+                    { stage: GROWTH_STAGES.GROWING, degreeDays: 140 },
+                    { stage: GROWTH_STAGES.MATURE, degreeDays: 600 },
+                    { stage: GROWTH_STAGES.HARVESTING, degreeDays: 800 }
+                ],
+                degreeDaysToMaturity: 800,
+                accumulatedDegreeDays: 660,
+                expectedHarvestDate: new Date('2025-06-24T00:00:00Z')
+            });
+            expect(curve.days).toHaveLength(70);
+            expect(curve.days[30]).toEqual({
+                date: new Date('2025-05-01T00:00:00Z'),
+                degreeDays: 5,
+                accumulated: 305,
+                source: WEATHER_DAY_SOURCES.FORECAST
+            });
+            expect(curve.days[40]).toMatchObject({ degreeDays: 20, accumulated: 370, source: WEATHER_DAY_SOURCES.SENSORS });
+        });
+
+        it('should project the harvest from the pace of a cool spell', async () => {
+            plants.push({ id: 'plant-4', type: 'spinach', gardenId: 'garden-1', growthStage: GROWTH_STAGES.SEEDLING, plantedDate: new Date('2025-04-27T09:00:00Z') });
+
+            const curve = await service.getDegreeDayCurve('plant-4', new Date('2025-05-11T07:00:00Z'));
+
+            // 4 average days and 10 cool days of 11 degree days over a base of 4 °C
+            expect(curve.accumulatedDegreeDays).toBe(174);
+            expect(curve.degreeDaysToMaturity).toBe(640);
+            // 29.1 growing days left at the recent pace of 0.78 a day
+            expect(curve.expectedHarvestDate).toEqual(new Date('2025-06-18T00:00:00Z'));
+        });
+
+        it('should fail for unknown plants and plants outside a garden', async () => {
+            await expect(service.getDegreeDayCurve('plant-9', now)).rejects.toThrow('Plant with ID plant-9 not found');
+
+            plants[0].gardenId = undefined;
+            await expect(service.getDegreeDayCurve('plant-1', now)).rejects.toThrow('Plant plant-1 is not set out in a garden');
+        });
+    });
+});
@@ -0,0 +1,231 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import moment from 'moment'; // ^2.29.0
+import { HarvestService } from '../../../src/services/harvest.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { HarvestRepository } from '../../../src/repositories/harvest.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { plantCatalogSeedData } from '../../../src/db/seeds/plants.seed';
+import { IPlant } from '../../../src/interfaces/plant.interface';
+import { PLANT_TYPES, GROWTH_STAGES } from '../../../src/constants/plant.constants';
+import { HARVEST_ERRORS } from '../../../src/constants/harvest.constants';
+
+describe('HarvestService', () => {
+    let harvestService: HarvestService;
+    let gardenRepository: { getGardenById: jest.Mock };
+    let plantRepository: { getPlantsByGarden: jest.Mock; getPlantById: jest.Mock };
+    let harvestRepository: {
+        findByGarden: jest.Mock;
+        findHarvests: jest.Mock;
+        hasHarvests: jest.Mock;
+        getSeasonTotals: jest.Mock;
+        getGrowthRates: jest.Mock;
+        getExpectedHarvestDates: jest.Mock;
+        updateGrowthRate: jest.Mock;
+        create: jest.Mock;
+    };
+
+    // Helper function to format dates for comparison
+    const formatDate = (date?: Date): string | undefined => date && moment(date).format('YYYY-MM-DD');
+
+    // Helper function to create test plant
+    const createTestPlant = (overrides: Partial<IPlant> = {}): IPlant => ({
+        id: 'plant-1',
+        type: PLANT_TYPES.LETTUCE,
+        growthStage: GROWTH_STAGES.GROWING,
+        daysToMaturity: 45,
+        plantedDate: new Date(2025, 4, 1),
+        expectedYieldKg: 0.7,
+        gardenId: 'garden-1',
+        ...overrides
+    } as IPlant);
+
+    // Monday 2025-06-09; lettuce planted 2025-05-01 matures on 2025-06-15
+    const from = new Date(2025, 5, 11);
+    const asOf = new Date(2025, 5, 1);
+
+    beforeEach(() => {
+        const catalogEntries = new Map(plantCatalogSeedData.map(entry => [entry.type, entry]));
+        const plantCatalog = {
+            getEntry: jest.fn((type: string) => catalogEntries.get(type))
+        } as unknown as PlantCatalogService;
+
+        gardenRepository = {
+            getGardenById: jest.fn(async () => ({
+                id: 'garden-1',
+                zones: [{ id: 'zone-1', plants: [{ id: 'plant-1' }] }]
+            }))
+        };
+        plantRepository = { getPlantsByGarden: jest.fn(async () => []), getPlantById: jest.fn() };
+        harvestRepository = {
+            findByGarden: jest.fn(async () => []),
+            findHarvests: jest.fn(async () => []),
+            hasHarvests: jest.fn(async () => true),
+            getSeasonTotals: jest.fn(async () => []),
+            getGrowthRates: jest.fn(async () => new Map()),
+            getExpectedHarvestDates: jest.fn(async () => new Map()),
+            updateGrowthRate: jest.fn(async () => 1),
+            create: jest.fn(async (record: any) => ({ id: 'harvest-1', ...record }))
+        };
+
+        harvestService = new HarvestService(
+            gardenRepository as unknown as GardenRepository,
+            plantRepository as unknown as PlantRepository,
+            harvestRepository as unknown as HarvestRepository,
+            plantCatalog
+        );
+    });
+
+    describe('getHarvestForecast', () => {
+        it('should spread the expected yield over the harvest window by week', async () => {
+            plantRepository.getPlantsByGarden.mockResolvedValue([createTestPlant({ quantity: 4 })] as never);
+
+            const forecast = await harvestService.getHarvestForecast('garden-1', from, 3, asOf);
+
+            // 2.8 kg over a 14 day window from 2025-06-15: 1 day, then 7 days, then 6 days
+            expect(formatDate(forecast.startDate)).toBe('2025-06-09');
+            expect(forecast.weeks.map(week => week.forecastKg)).toEqual([0.2, 1.4, 1.2]);
+            expect(forecast.weeks[1].forecastByPlantType).toEqual({ [PLANT_TYPES.LETTUCE]: 1.4 });
+            expect(forecast.totalForecastKg).toBe(2.8);
+            expect(forecast.plants).toHaveLength(1);
+            expect(formatDate(forecast.plants[0].harvestStartDate)).toBe('2025-06-15');
+            expect(formatDate(forecast.plants[0].harvestEndDate)).toBe('2025-06-28');
+        });
+
+        it('should move harvests of overdue and early maturing plants to the current date', async () => {
+            plantRepository.getPlantsByGarden.mockResolvedValue([
+                createTestPlant({ id: 'overdue', plantedDate: new Date(2025, 2, 1) }),
+                createTestPlant({ id: 'early', growthStage: GROWTH_STAGES.MATURE })
+            ] as never);
+
+            const forecast = await harvestService.getHarvestForecast('garden-1', asOf, 4, asOf);
+
+            expect(forecast.plants.map(plant => [plant.plantId, formatDate(plant.harvestStartDate)]))
+                .toEqual([['overdue', '2025-06-08'], ['early', '2025-06-01']]);
+        });
+
+        it('should start harvests earlier for plant types that have grown faster than expected', async () => {
+            plantRepository.getPlantsByGarden.mockResolvedValue([createTestPlant()] as never);
+            harvestRepository.getGrowthRates.mockResolvedValue(new Map([[PLANT_TYPES.LETTUCE, 1.25]]) as never);
+
+            const forecast = await harvestService.getHarvestForecast('garden-1', from, 3, asOf);
+
+            // 45 days to maturity at 1.25 times the expected rate takes 36 days
+            expect(formatDate(forecast.plants[0].harvestStartDate)).toBe('2025-06-06');
+        });
+
+        it('should start harvests at the date expected from the degree days tracked for a plant', async () => {
+            plantRepository.getPlantsByGarden.mockResolvedValue([createTestPlant()] as never);
+            harvestRepository.getGrowthRates.mockResolvedValue(new Map([[PLANT_TYPES.LETTUCE, 1.25]]) as never);
+            harvestRepository.getExpectedHarvestDates.mockResolvedValue(
+                new Map([['plant-1', new Date(2025, 5, 19)]]) as never
+            );
+
+            const forecast = await harvestService.getHarvestForecast('garden-1', from, 3, asOf);
+
+            // A cool spell held the lettuce back, which outweighs the rate learned for its type
+            expect(formatDate(forecast.plants[0].harvestStartDate)).toBe('2025-06-19');
+            expect(harvestRepository.getExpectedHarvestDates).toHaveBeenCalledWith(['plant-1']);
+        });
+
+        it('should compare recorded harvests with the forecast', async () => {
+            harvestRepository.findByGarden.mockResolvedValue([
+                { quantityKg: 0.25, harvestedAt: new Date(2025, 5, 17) },
+                { quantityKg: 0.5, harvestedAt: new Date(2025, 5, 20) }
+            ] as never);
+
+            const forecast = await harvestService.getHarvestForecast('garden-1', from, 2, asOf);
+
+            expect(forecast.weeks.map(week => week.actualKg)).toEqual([0, 0.75]);
+            expect(forecast.totalActualKg).toBe(0.75);
+        });
+
+        it('should reject invalid ranges and unknown gardens', async () => {
+            await expect(harvestService.getHarvestForecast('garden-1', from, 0))
+                .rejects.toThrow(HARVEST_ERRORS.INVALID_FORECAST_RANGE);
+
+            gardenRepository.getGardenById.mockResolvedValue(null as never);
+            await expect(harvestService.getHarvestForecast('missing', from))
+                .rejects.toThrow('Garden with ID missing not found');
+        });
+    });
+
+    describe('recordHarvest', () => {
+        it('should log the harvest against the plant type, zone and season', async () => {
+            plantRepository.getPlantById.mockResolvedValue(createTestPlant() as never);
+            const harvestedAt = new Date(2025, 5, 20);
+
+            const record = await harvestService.recordHarvest('garden-1', {
+                plantId: 'plant-1',
+                harvestedAt,
+                count: 3,
+                qualityRating: 4
+            });
+
+            expect(harvestRepository.create).toHaveBeenCalledWith({
+                gardenId: 'garden-1',
+                plantId: 'plant-1',
+                plantType: PLANT_TYPES.LETTUCE,
+                zoneId: 'zone-1',
+                scheduleId: undefined,
+                harvestedAt,
+                season: 2025,
+                quantityKg: undefined,
+                count: 3,
+                qualityRating: 4,
+                notes: undefined
+            });
+            expect(record.id).toBe('harvest-1');
+            expect(harvestRepository.updateGrowthRate).not.toHaveBeenCalled();
+        });
+
+        it('should learn the growth rate from a plant\'s first harvest', async () => {
+            plantRepository.getPlantById.mockResolvedValue(createTestPlant() as never);
+            harvestRepository.hasHarvests.mockResolvedValue(false as never);
+
+            // Planted 2025-05-01 and first picked after 50 days instead of 45
+            await harvestService.recordHarvest('garden-1', {
+                plantId: 'plant-1',
+                harvestedAt: new Date(2025, 5, 20),
+                quantityKg: 0.3
+            });
+
+            expect(harvestRepository.updateGrowthRate).toHaveBeenCalledWith(
+                PLANT_TYPES.LETTUCE,
+                0.9,
+                0.3,
+                new Date(2025, 5, 15)
+            );
+        });
+
+        it('should reject invalid amounts, ratings and plants from other gardens', async () => {
+            await expect(harvestService.recordHarvest('garden-1', { plantId: 'plant-1', quantityKg: 0 }))
+                .rejects.toThrow(HARVEST_ERRORS.INVALID_QUANTITY);
+            await expect(harvestService.recordHarvest('garden-1', { plantId: 'plant-1' }))
+                .rejects.toThrow(HARVEST_ERRORS.MISSING_AMOUNT);
+            await expect(harvestService.recordHarvest('garden-1', { plantId: 'plant-1', count: 2, qualityRating: 6 }))
+                .rejects.toThrow(HARVEST_ERRORS.INVALID_QUALITY);
+
+            plantRepository.getPlantById.mockResolvedValue(createTestPlant({ gardenId: 'garden-2' }) as never);
+            await expect(harvestService.recordHarvest('garden-1', { plantId: 'plant-1', quantityKg: 1 }))
+                .rejects.toThrow(HARVEST_ERRORS.PLANT_NOT_IN_GARDEN);
+            expect(harvestRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getSeasonTotals', () => {
+        it('should total each season across plant types', async () => {
+            harvestRepository.getSeasonTotals.mockResolvedValue([
+                { season: 2025, plantType: PLANT_TYPES.LETTUCE, harvestCount: 2, totalKg: 0.5, totalCount: 0, qualityRatingSum: 9, ratedCount: 2 },
+                { season: 2025, plantType: PLANT_TYPES.CARROTS, harvestCount: 1, totalKg: 0, totalCount: 12, qualityRatingSum: 3, ratedCount: 1 },
+                { season: 2024, plantType: PLANT_TYPES.LETTUCE, harvestCount: 1, totalKg: 0.25, totalCount: 0, qualityRatingSum: 0, ratedCount: 0 }
+            ] as never);
+
+            const totals = await harvestService.getSeasonTotals('garden-1');
+
+            expect(totals.map(season => [season.season, season.harvestCount, season.totalKg, season.totalCount, season.averageQualityRating]))
+                .toEqual([[2025, 3, 0.5, 12, 4], [2024, 1, 0.25, 0, undefined]]);
+            expect(totals[0].plantTypes[PLANT_TYPES.LETTUCE].averageQualityRating).toBe(4.5);
+        });
+    });
+});
@@ -0,0 +1,271 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { IrrigationService } from '../../../src/services/irrigation/irrigation.service';
+import { SimulatedIrrigationDriver } from '../../../src/services/irrigation/simulated-irrigation.driver';
+import { ScheduleService } from '../../../src/services/schedule.service';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { IrrigationRepository } from '../../../src/repositories/irrigation.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { irrigationConfig } from '../../../src/config/irrigation.config';
+import { IIrrigationRun, IIrrigationValve } from '../../../src/interfaces/irrigation.interface';
+import { ISchedule, TaskType } from '../../../src/interfaces/schedule.interface';
+import { IRRIGATION_ERRORS, IRRIGATION_RUN_STATUS } from '../../../src/constants/irrigation.constants';
+
+describe('IrrigationService', () => {
+    let service: IrrigationService;
+    let driver: SimulatedIrrigationDriver;
+    let clock: Date;
+    let valves: IIrrigationValve[];
+    let runs: IIrrigationRun[];
+    let tasks: ISchedule[];
+    let scheduleRepository: Record<string, jest.Mock>;
+    let scheduleService: { markTaskCompleted: jest.Mock };
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+    const task = (id: string, plantId: string, dueDate: string): ISchedule => ({
+        id,
+        gardenId: 'garden-1',
+        plantId,
+        taskType: TaskType.WATERING,
+        dueDate: new Date(dueDate),
+        completed: false
+    } as ISchedule);
+
+    const valve = (id: string, zoneId: string, flowRateLpm: number, maxRunMinutes?: number): IIrrigationValve => ({
+        id,
+        gardenId: 'garden-1',
+        zoneId,
+        name: `Valve ${zoneId}`,
+        channel: id,
+        flowRateLpm,
+        maxRunMinutes,
+        enabled: true
+    });
+
+    beforeEach(() => {
+        clock = now;
+        driver = new SimulatedIrrigationDriver(() => clock);
+        runs = [];
+        valves = [valve('valve-1', 'zone-1', 2)];
+        tasks = [
+            task('schedule-1', 'plant-1', '2025-06-10T06:00:00Z'),
+            task('schedule-2', 'plant-2', '2025-06-10T06:30:00Z')
+        ];
+
+        const irrigationRepository = {
+            findValveById: jest.fn(async (id: string) => valves.find(stored => stored.id === id)),
+            findValvesByGarden: jest.fn(async (gardenId: string) => valves.filter(stored => stored.gardenId === gardenId)),
+            findEnabledValves: jest.fn(async () => valves.filter(stored => stored.enabled)),
+            createValve: jest.fn(async (input: any) => {
+                const stored = { id: `valve-${valves.length + 1}`, ...input };
+                valves.push(stored);
+                return stored;
+            }),
+            createRun: jest.fn(async (input: any) => {
+                const run = { id: `run-${runs.length + 1}`, status: IRRIGATION_RUN_STATUS.RUNNING, ...input };
+                runs.push(run);
+                return run;
+            }),
+            findRunningRuns: jest.fn(async (gardenId?: string) => runs.filter(run =>
+                run.status === IRRIGATION_RUN_STATUS.RUNNING && (!gardenId || run.gardenId === gardenId))),
+            finishRun: jest.fn(async (id: string, result: any) => {
+                const run = runs.find(stored => stored.id === id)!;
+                Object.assign(run, result);
+                return run;
+            })
+        };
+        scheduleRepository = {
+            getPendingTasks: jest.fn(async () => tasks.filter(pending => !pending.completed)),
+            getScheduleById: jest.fn(async (id: string) => tasks.find(stored => stored.id === id)),
+            updateSchedule: jest.fn(async (id: string, update: Partial<ISchedule>) => {
+                const stored = tasks.find(pending => pending.id === id)!;
+                Object.assign(stored, update);
+                return stored;
+            })
+        };
+        scheduleService = { markTaskCompleted: jest.fn(async () => ({})) };
+
+        service = new IrrigationService(
+            { ...irrigationConfig, maxConcurrentValves: 2 },
+            driver,
+            irrigationRepository as unknown as IrrigationRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            {
+                getGardenById: jest.fn(async (id: string) => id === 'garden-1'
+                    ? {
+                        id,
+                        zones: [
+                            { id: 'zone-1', plants: [{ id: 'plant-1' }, { id: 'plant-2' }] },
+                            { id: 'zone-2', plants: [{ id: 'plant-3' }] },
+                            { id: 'zone-3', plants: [{ id: 'plant-4' }] }
+                        ]
+                    }
+                    : null)
+            } as unknown as GardenRepository,
+            {
+                getPlantsByGarden: jest.fn(async () => [
+                    { id: 'plant-1', type: 'tomatoes', waterRequirementMl: 500, quantity: 3 },
+                    { id: 'plant-2', type: 'lettuce', quantity: 2 },
+                    { id: 'plant-3', type: 'peppers', waterRequirementMl: 800 },
+                    { id: 'plant-4', type: 'beans', waterRequirementMl: 600 }
+                ])
+            } as unknown as PlantRepository,
+            {
+                getEntry: jest.fn((type: string) => type === 'lettuce' ? { waterRequirementMl: 250 } : undefined)
+            } as unknown as PlantCatalogService,
+            scheduleService as unknown as ScheduleService
+        );
+    });
+
+    describe('runValves', () => {
+        it('should open a zone\'s valve for as long as its flow takes to water the due plants', async () => {
+            const { started } = await service.runValves(now);
+
+            // 3 tomatoes at 500 ml and 2 lettuces at the catalog's 250 ml take 2 litres at 2 l/min
+            expect(started).toHaveLength(1);
+            expect(started[0]).toMatchObject({
+                valveId: 'valve-1',
+                zoneId: 'zone-1',
+                plannedMl: 2000,
+                runMinutes: 1,
+                endsAt: minutesLater(1),
+                tasks: [
+                    { scheduleId: 'schedule-1', plantId: 'plant-1', plannedMl: 1500 },
+                    { scheduleId: 'schedule-2', plantId: 'plant-2', plannedMl: 500 }
+                ]
+            });
+            expect(driver.getOpenValves()).toEqual(['valve-1']);
+            expect(tasks[0].task_metadata).toEqual({ irrigationCommandedAt: now, irrigationRunId: 'run-1' });
+
+            // Tasks being watered are not run again
+            expect((await service.runValves(minutesLater(0.5))).started).toEqual([]);
+        });
+
+        it('should close the valve once its run time has passed and complete the tasks with the water delivered', async () => {
+            await service.runValves(now);
+
+            clock = minutesLater(1.5);
+            const { finished } = await service.runValves(clock);
+
+            expect(finished[0]).toMatchObject({ status: IRRIGATION_RUN_STATUS.COMPLETED, deliveredMl: 2000 });
+            expect(driver.getOpenValves()).toEqual([]);
+            expect(scheduleService.markTaskCompleted).toHaveBeenCalledWith('schedule-1', undefined, undefined, {
+                runId: 'run-1',
+                deliveredMl: 1500
+            });
+            expect(scheduleService.markTaskCompleted).toHaveBeenCalledWith('schedule-2', undefined, undefined, {
+                runId: 'run-1',
+                deliveredMl: 500
+            });
+        });
+
+        it('should cut runs off at the valve\'s maximum run time', async () => {
+            valves = [valve('valve-1', 'zone-1', 0.5, 2)];
+
+            const { started } = await service.runValves(now);
+            clock = minutesLater(2);
+            const { finished } = await service.runValves(clock);
+
+            expect(started[0].runMinutes).toBe(2);
+            expect(finished[0].deliveredMl).toBe(1000);
+            expect(scheduleService.markTaskCompleted).toHaveBeenCalledWith('schedule-1', undefined, undefined, {
+                runId: 'run-1',
+                deliveredMl: 750
+            });
+        });
+
+        it('should keep no more valves open than allowed, most pressing zone first', async () => {
+            valves.push(valve('valve-2', 'zone-2', 2), valve('valve-3', 'zone-3', 2));
+            tasks = [
+                task('schedule-3', 'plant-3', '2025-06-10T05:00:00Z'),
+                ...tasks,
+                task('schedule-4', 'plant-4', '2025-06-10T06:45:00Z')
+            ];
+
+            const { started } = await service.runValves(now);
+            expect(started.map(run => run.valveId)).toEqual(['valve-2', 'valve-1']);
+
+            // Zone 2 needs only 0.4 minutes, so its valve closes and zone 3 takes its place
+            clock = minutesLater(0.5);
+            const next = await service.runValves(clock);
+            expect(next.finished.map(run => run.valveId)).toEqual(['valve-2']);
+            expect(next.started.map(run => run.valveId)).toEqual(['valve-3']);
+            expect(driver.getOpenValves().sort()).toEqual(['valve-1', 'valve-3']);
+        });
+
+        it('should count valves open in other gardens towards the limit', async () => {
+            runs.push({
+                id: 'run-0',
+                valveId: 'valve-9',
+                gardenId: 'garden-2',
+                zoneId: 'zone-9',
+                status: IRRIGATION_RUN_STATUS.RUNNING,
+                endsAt: minutesLater(30)
+            } as IIrrigationRun);
+            valves.push(valve('valve-2', 'zone-2', 2));
+            tasks.push(task('schedule-3', 'plant-3', '2025-06-10T06:45:00Z'));
+
+            const { started } = await service.runValves(now);
+
+            expect(started.map(run => run.valveId)).toEqual(['valve-1']);
+        });
+
+        it('should fail the run and leave its tasks to the gardener when the valve does not open', async () => {
+            jest.spyOn(driver, 'openValve').mockRejectedValue(new Error('relay offline'));
+
+            const { started } = await service.runValves(now);
+
+            expect(started).toEqual([]);
+            expect(runs[0]).toMatchObject({
+                status: IRRIGATION_RUN_STATUS.FAILED,
+                error: `${IRRIGATION_ERRORS.VALVE_NOT_OPENED}: relay offline`
+            });
+            expect(scheduleRepository.updateSchedule).not.toHaveBeenCalled();
+        });
+
+        it('should not open a valve whose run rounds to no time', async () => {
+            valves = [valve('valve-1', 'zone-1', 500)];
+
+            const { started } = await service.runValves(now);
+
+            expect(started).toEqual([]);
+            expect(runs).toEqual([]);
+            expect(driver.getOpenValves()).toEqual([]);
+        });
+
+        it('should fail a run that delivered no water and leave its tasks to the gardener', async () => {
+            await service.runValves(now);
+            jest.spyOn(driver, 'closeValve').mockResolvedValue({ deliveredMl: 0 });
+
+            const { finished } = await service.runValves(minutesLater(1));
+
+            expect(finished[0]).toMatchObject({
+                status: IRRIGATION_RUN_STATUS.FAILED,
+                error: IRRIGATION_ERRORS.NOTHING_DELIVERED
+            });
+            expect(scheduleService.markTaskCompleted).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('registerValve', () => {
+        it('should link one valve to each zone of the garden', async () => {
+            const linked = await service.registerValve('garden-1', {
+                zoneId: 'zone-2',
+                name: ' Peppers ',
+                channel: 'relay-2',
+                flowRateLpm: 1.5
+            });
+
+            expect(linked).toMatchObject({ zoneId: 'zone-2', name: 'Peppers', enabled: true });
+            await expect(service.registerValve('garden-1', { zoneId: 'zone-1', name: 'Again', channel: 'relay-9', flowRateLpm: 2 }))
+                .rejects.toThrow(IRRIGATION_ERRORS.ZONE_HAS_VALVE);
+            await expect(service.registerValve('garden-1', { zoneId: 'zone-9', name: 'Pond', channel: 'relay-3', flowRateLpm: 2 }))
+                .rejects.toThrow(IRRIGATION_ERRORS.UNKNOWN_ZONE);
+            await expect(service.registerValve('garden-1', { zoneId: 'zone-3', name: 'Beans', channel: 'relay-3', flowRateLpm: 0 }))
+                .rejects.toThrow(IRRIGATION_ERRORS.INVALID_FLOW_RATE);
+        });
+    });
+});
@@ -1,7 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CompanionPlantingService } from '../../../src/services/optimization/companion-planting.service';
-import { IPlant } from '../../../src/interfaces/plant.interface';
-import { PLANT_TYPES, SUNLIGHT_REQUIREMENTS } from '../../../src/constants/plant.constants';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { PlantCatalogRepository } from '../../../src/repositories/plant-catalog.repository';
+import { plantCatalogSeedData } from '../../../src/db/seeds/plants.seed';
+import { IPlant, ICompanionRelationship } from '../../../src/interfaces/plant.interface';
+import { IGardenZone, IGardenOptimizationParams } from '../../../src/interfaces/garden.interface';
+import {
+  PLANT_TYPES,
+  SUNLIGHT_REQUIREMENTS,
+  COMPANION_RELATIONSHIP_TYPES
+} from '../../../src/constants/plant.constants';
 import { firstValueFrom } from 'rxjs';
 
 describe('CompanionPlantingService', () => {
@@ -33,11 +41,70 @@ describe('CompanionPlantingService', () => {
     expectedYieldKg: 2
   });
 
+  // Fennel is a well-known antagonist used to exercise HARMFUL relationships
+  const FENNEL = 'fennel' as PLANT_TYPES;
+
+  const relationships: ICompanionRelationship[] = [
+    ...plantCatalogSeedData.flatMap(entry => entry.companionPlants.map(companionType => ({
+      plantType: entry.type,
+      companionType,
+      relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL
+    }))),
+    {
+      plantType: FENNEL,
+      companionType: PLANT_TYPES.TOMATOES,
+      relationshipType: COMPANION_RELATIONSHIP_TYPES.HARMFUL,
+      benefitDescription: 'Fennel inhibits tomato growth'
+    },
+    {
+      plantType: FENNEL,
+      companionType: PLANT_TYPES.CARROTS,
+      relationshipType: COMPANION_RELATIONSHIP_TYPES.NEUTRAL
+    }
+  ];
+
+  const optimizationParams: IGardenOptimizationParams = {
+    targetUtilization: 92,
+    minZoneSize: 4,
+    defaultSpacing: 12,
+    maxZoneCount: 10,
+    companionPlantingEnabled: true,
+    zoneBalancing: 'optimal',
+    antagonistDistance: 36,
+    forbidHarmfulAdjacency: true
+  };
+
+  const createZone = (area: number, plants: IPlant[]): IGardenZone => ({
+    id: 'zone-1',
+    area,
+    sunlightCondition: 'FULL_SUN',
+    plants
+  });
+
   beforeEach(async () => {
+    const fennelEntry = {
+      ...plantCatalogSeedData.find(entry => entry.type === PLANT_TYPES.LETTUCE),
+      id: 'fennel-id',
+      type: FENNEL,
+      name: 'Fennel',
+      companionPlants: []
+    };
+
     module = await Test.createTestingModule({
-      providers: [CompanionPlantingService],
+      providers: [
+        CompanionPlantingService,
+        PlantCatalogService,
+        {
+          provide: PlantCatalogRepository,
+          useValue: {
+            findAll: async () => [...plantCatalogSeedData, fennelEntry],
+            findRelationships: async () => relationships
+          }
+        }
+      ],
     }).compile();
 
+    await module.get<PlantCatalogService>(PlantCatalogService).refresh();
     companionPlantingService = module.get<CompanionPlantingService>(CompanionPlantingService);
   });
 
@@ -160,6 +227,14 @@ describe('CompanionPlantingService', () => {
       expect(spacing).toBe(12);
     });
 
+    it('should keep antagonistic plants at least the antagonist distance apart', () => {
+      const plant1 = createTestPlant(PLANT_TYPES.TOMATOES, 24);
+      const plant2 = createTestPlant(FENNEL, 12);
+
+      expect(companionPlantingService.calculateOptimalSpacing(plant1, plant2)).toBe(36);
+      expect(companionPlantingService.calculateOptimalSpacing(plant1, plant2, 48)).toBe(48);
+    });
+
     it('should return -1 for invalid input', () => {
       const spacing = companionPlantingService.calculateOptimalSpacing(
         null as any,
@@ -170,6 +245,84 @@ describe('CompanionPlantingService', () => {
     });
   });
 
+  describe('evaluateZonePlacement', () => {
+    it('should reject antagonists that cannot be separated within a small zone', () => {
+      const tomatoes = createTestPlant(PLANT_TYPES.TOMATOES, 24);
+      const fennel = createTestPlant(FENNEL, 12);
+
+      const { plants, explanation } = companionPlantingService.evaluateZonePlacement(
+        createZone(4, [tomatoes, fennel]),
+        optimizationParams
+      );
+
+      expect(plants).toEqual([tomatoes]);
+      expect(explanation.rejectedPlantIds).toEqual([fennel.id]);
+      expect(explanation.influences).toEqual([
+        expect.objectContaining({
+          plantId: fennel.id,
+          neighbourId: tomatoes.id,
+          relationshipType: COMPANION_RELATIONSHIP_TYPES.HARMFUL,
+          effect: 'FORBIDDEN'
+        })
+      ]);
+    });
+
+    it('should penalise antagonists in range when adjacency is not forbidden', () => {
+      const { plants, explanation } = companionPlantingService.evaluateZonePlacement(
+        createZone(4, [createTestPlant(PLANT_TYPES.TOMATOES, 24), createTestPlant(FENNEL, 12)]),
+        { ...optimizationParams, forbidHarmfulAdjacency: false }
+      );
+
+      expect(plants).toHaveLength(2);
+      expect(explanation.companionScore).toBe(-2);
+      expect(explanation.influences[0].effect).toBe('PENALISED');
+    });
+
+    it('should allow antagonists in zones large enough to separate them', () => {
+      const { plants, explanation } = companionPlantingService.evaluateZonePlacement(
+        createZone(50, [createTestPlant(PLANT_TYPES.TOMATOES, 24), createTestPlant(FENNEL, 12)]),
+        optimizationParams
+      );
+
+      expect(plants).toHaveLength(2);
+      expect(explanation.rejectedPlantIds).toHaveLength(0);
+      expect(explanation.influences[0].effect).toBe('SEPARATED');
+    });
+
+    it('should reward beneficial neighbours and ignore neutral ones', () => {
+      const { plants, explanation } = companionPlantingService.evaluateZonePlacement(
+        createZone(4, [
+          createTestPlant(PLANT_TYPES.LETTUCE, 12),
+          createTestPlant(PLANT_TYPES.CARROTS, 3),
+          createTestPlant(FENNEL, 12)
+        ]),
+        optimizationParams
+      );
+
+      expect(plants).toHaveLength(3);
+      expect(explanation.companionScore).toBe(1);
+      expect(explanation.influences).toEqual([
+        expect.objectContaining({
+          plantType: PLANT_TYPES.CARROTS,
+          neighbourType: PLANT_TYPES.LETTUCE,
+          effect: 'REWARDED'
+        })
+      ]);
+    });
+
+    it('should leave zones untouched when companion planting is disabled', () => {
+      const zonePlants = [createTestPlant(PLANT_TYPES.TOMATOES, 24), createTestPlant(FENNEL, 12)];
+
+      const { plants, explanation } = companionPlantingService.evaluateZonePlacement(
+        createZone(4, zonePlants),
+        { ...optimizationParams, companionPlantingEnabled: false }
+      );
+
+      expect(plants).toEqual(zonePlants);
+      expect(explanation.influences).toHaveLength(0);
+    });
+  });
+
   describe('performance requirements', () => {
     it('should optimize placement within 3-second limit', async () => {
       const startTime = Date.now();
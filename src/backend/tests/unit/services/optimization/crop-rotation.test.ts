@@ -0,0 +1,133 @@
+import { describe, beforeEach, it, expect } from '@jest/globals'; // ^29.0.0
+import { CropRotationService } from '../../../../src/services/optimization/crop-rotation.service';
+import { PlantCatalogService } from '../../../../src/services/plant-catalog.service';
+import { plantCatalogSeedData } from '../../../../src/db/seeds/plants.seed';
+import { SUNLIGHT_CONDITIONS } from '../../../../src/constants/garden.constants';
+import { IGardenZone } from '../../../../src/interfaces/garden.interface';
+import { IPlant, IPlantCatalogEntry } from '../../../../src/interfaces/plant.interface';
+import { PLANT_TYPES, PLANT_FAMILY } from '../../../../src/constants/plant.constants';
+
+describe('CropRotationService', () => {
+    let service: CropRotationService;
+
+    // Potatoes share the nightshade family with tomatoes
+    const potatoes = {
+        ...plantCatalogSeedData.find(entry => entry.type === PLANT_TYPES.TOMATOES),
+        type: 'potatoes',
+        name: 'Potatoes',
+        family: PLANT_FAMILY.SOLANACEAE
+    } as IPlantCatalogEntry;
+    const catalogEntries = [...plantCatalogSeedData, potatoes];
+
+    // Helper function to create test zone
+    const createTestZone = (overrides: Partial<IGardenZone> = {}): IGardenZone => ({
+        id: 'zone-1',
+        area: 20,
+        sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN,
+        plants: [],
+        ...overrides
+    });
+
+    beforeEach(() => {
+        service = new CropRotationService({
+            getEntry: (type: string) => catalogEntries.find(entry => entry.type === type)
+        } as unknown as PlantCatalogService);
+    });
+
+    describe('findRotationConflict', () => {
+        it('should flag a family returning to a zone within the rotation period', () => {
+            const zone = createTestZone({
+                plantingHistory: [{ plantType: PLANT_TYPES.TOMATOES, season: 2024 }]
+            });
+
+            expect(service.findRotationConflict(zone, 'potatoes', 2025, 3)).toEqual({
+                zoneId: 'zone-1',
+                plantType: 'potatoes',
+                family: PLANT_FAMILY.SOLANACEAE,
+                lastGrownSeason: 2024,
+                nextAllowedSeason: 2027,
+                message: 'Tomatoes (SOLANACEAE) grew in zone zone-1 in 2024; avoid planting Potatoes there before 2027'
+            });
+        });
+
+        it('should allow a family back once the rotation period has passed', () => {
+            const zone = createTestZone({
+                plantingHistory: [{ plantType: PLANT_TYPES.TOMATOES, season: 2024 }]
+            });
+
+            expect(service.findRotationConflict(zone, 'potatoes', 2027, 3)).toBeUndefined();
+            expect(service.findRotationConflict(zone, 'potatoes', 2026, 2)).toBeUndefined();
+        });
+
+        it('should ignore other families and crops grown in the same season', () => {
+            const zone = createTestZone({
+                plantingHistory: [
+                    { plantType: PLANT_TYPES.CARROTS, season: 2024 },
+                    { plantType: PLANT_TYPES.TOMATOES, season: 2025 }
+                ]
+            });
+
+            expect(service.findRotationConflict(zone, PLANT_TYPES.TOMATOES, 2025, 3)).toBeUndefined();
+        });
+    });
+
+    describe('evaluateZones', () => {
+        it('should check placed plants in the season they were planted', () => {
+            const plant = {
+                id: 'plant-1',
+                type: PLANT_TYPES.TOMATOES,
+                plantedDate: new Date(2025, 4, 15)
+            } as IPlant;
+            const zones = [
+                createTestZone({
+                    plants: [plant],
+                    plantingHistory: [{ plantType: 'potatoes', season: 2023 }]
+                }),
+                createTestZone({ id: 'zone-2', plants: [{ ...plant, id: 'plant-2' }] })
+            ];
+
+            const warnings = service.evaluateZones(zones, 3);
+
+            expect(warnings.map(warning => [warning.zoneId, warning.plantId, warning.nextAllowedSeason]))
+                .toEqual([['zone-1', 'plant-1', 2026]]);
+        });
+    });
+
+    describe('rotatePlacements', () => {
+        const plant = {
+            id: 'plant-1',
+            type: PLANT_TYPES.TOMATOES,
+            spacing: 24,
+            plantedDate: new Date(2025, 4, 15),
+            position: { x: 1, y: 1, radius: 1 }
+        } as IPlant;
+        const history = [{ plantType: 'potatoes', season: 2024 }];
+
+        it('should move plants to a zone with the same sunlight their family has not grown in', () => {
+            const zones = [
+                createTestZone({ plants: [plant], plantingHistory: history }),
+                createTestZone({ id: 'zone-2', sunlightCondition: SUNLIGHT_CONDITIONS.PARTIAL_SHADE }),
+                createTestZone({ id: 'zone-3', plantingHistory: history }),
+                createTestZone({ id: 'zone-4' })
+            ];
+
+            const rotated = service.rotatePlacements(zones, 3);
+
+            expect(rotated.map(zone => zone.plants.map(placed => placed.id)))
+                .toEqual([[], [], [], ['plant-1']]);
+            expect(rotated[3].plants[0].position).toBeUndefined();
+            expect(zones[0].plants).toEqual([plant]);
+        });
+
+        it('should leave plants in place when no other zone has room', () => {
+            const zones = [
+                createTestZone({ plants: [plant], plantingHistory: history }),
+                createTestZone({ id: 'zone-2', area: 3 })
+            ];
+
+            const rotated = service.rotatePlacements(zones, 3);
+
+            expect(rotated.map(zone => zone.plants.map(placed => placed.id))).toEqual([['plant-1'], []]);
+        });
+    });
+});
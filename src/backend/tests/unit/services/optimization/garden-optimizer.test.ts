@@ -5,8 +5,9 @@ import { GardenOptimizerService } from '../../../../src/services/optimization/ga
 import { SpaceCalculatorService } from '../../../../src/services/optimization/space-calculator.service';
 import { CompanionPlantingService } from '../../../../src/services/optimization/companion-planting.service';
 import { SunlightAnalyzerService } from '../../../../src/services/optimization/sunlight-analyzer.service';
+import { CropRotationService } from '../../../../src/services/optimization/crop-rotation.service';
 import { IGarden, IGardenLayout, IGardenZone } from '../../../../src/interfaces/garden.interface';
-import { PLANT_TYPES } from '../../../../src/constants/plant.constants';
+import { PLANT_TYPES, PLANT_FAMILY, CROP_ROTATION_DEFAULTS } from '../../../../src/constants/plant.constants';
 import { SUNLIGHT_CONDITIONS, SPACE_UTILIZATION_TARGET } from '../../../../src/constants/garden.constants';
 
 describe('GardenOptimizerService', () => {
@@ -14,6 +15,7 @@ describe('GardenOptimizerService', () => {
     let spaceCalculatorService: jest.Mocked<SpaceCalculatorService>;
     let companionPlantingService: jest.Mocked<CompanionPlantingService>;
     let sunlightAnalyzerService: jest.Mocked<SunlightAnalyzerService>;
+    let cropRotationService: jest.Mocked<CropRotationService>;
 
     beforeEach(async () => {
         // Create mock services
@@ -24,12 +26,22 @@ describe('GardenOptimizerService', () => {
 
         const mockCompanionPlanting = {
             optimizePlantPlacement: jest.fn(),
+            evaluateZonePlacement: jest.fn((zone: IGardenZone) => ({
+                plants: zone.plants,
+                explanation: { zoneId: zone.id, companionScore: 0, influences: [], rejectedPlantIds: [] }
+            })),
             checkCompatibility: jest.fn()
         };
 
         const mockSunlightAnalyzer = {
             analyzeSunlightDistribution: jest.fn(),
-            validateZoneSunlight: jest.fn()
+            validateZoneSunlight: jest.fn(),
+            estimateSunExposure: jest.fn().mockReturnValue([])
+        };
+
+        const mockCropRotation = {
+            rotatePlacements: jest.fn((zones: IGardenZone[]) => zones),
+            evaluateZones: jest.fn().mockReturnValue([])
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -37,7 +49,8 @@ describe('GardenOptimizerService', () => {
                 GardenOptimizerService,
                 { provide: SpaceCalculatorService, useValue: mockSpaceCalculator },
                 { provide: CompanionPlantingService, useValue: mockCompanionPlanting },
-                { provide: SunlightAnalyzerService, useValue: mockSunlightAnalyzer }
+                { provide: SunlightAnalyzerService, useValue: mockSunlightAnalyzer },
+                { provide: CropRotationService, useValue: mockCropRotation }
             ],
         }).compile();
 
@@ -45,6 +58,7 @@ describe('GardenOptimizerService', () => {
         spaceCalculatorService = module.get(SpaceCalculatorService);
         companionPlantingService = module.get(CompanionPlantingService);
         sunlightAnalyzerService = module.get(SunlightAnalyzerService);
+        cropRotationService = module.get(CropRotationService);
     });
 
     afterEach(() => {
@@ -116,6 +130,61 @@ describe('GardenOptimizerService', () => {
             expect(spaceCalculatorService.calculateOptimalLayout).toHaveBeenCalled();
         });
 
+        it('should report crop rotation warnings using the garden rotation period', async () => {
+            // Arrange
+            const mockGarden = createMockGarden({ rotationSeasons: 4 });
+            const rotationWarning = {
+                zoneId: 'zone-1',
+                plantId: 'plant-1',
+                plantType: PLANT_TYPES.TOMATOES,
+                family: PLANT_FAMILY.SOLANACEAE,
+                lastGrownSeason: 2024,
+                nextAllowedSeason: 2028,
+                message: 'Tomatoes (SOLANACEAE) grew in zone zone-1 in 2024; avoid planting Tomatoes there before 2028'
+            };
+
+            sunlightAnalyzerService.analyzeSunlightDistribution.mockResolvedValue({ isValid: true });
+            spaceCalculatorService.calculateOptimalLayout.mockResolvedValue({
+                gardenId: mockGarden.id,
+                spaceUtilization: 95,
+                zones: mockGarden.zones,
+                generatedAt: new Date()
+            });
+            cropRotationService.evaluateZones.mockReturnValue([rotationWarning]);
+
+            // Act
+            const result = await service.optimizeGardenLayout(mockGarden);
+
+            // Assert
+            expect(result.rotationWarnings).toEqual([rotationWarning]);
+            expect(cropRotationService.rotatePlacements).toHaveBeenCalledWith(expect.any(Array), 4);
+            expect(cropRotationService.evaluateZones).toHaveBeenCalledWith(result.zones, 4);
+            expect(spaceCalculatorService.calculateOptimalLayout).toHaveBeenCalledWith(
+                mockGarden,
+                expect.objectContaining({ rotationSeasons: 4 })
+            );
+        });
+
+        it('should fall back to the default rotation period', async () => {
+            // Arrange
+            const mockGarden = createMockGarden({ id: 'test-garden-2' });
+            sunlightAnalyzerService.analyzeSunlightDistribution.mockResolvedValue({ isValid: true });
+            spaceCalculatorService.calculateOptimalLayout.mockResolvedValue({
+                gardenId: mockGarden.id,
+                spaceUtilization: 95,
+                zones: mockGarden.zones,
+                generatedAt: new Date()
+            });
+
+            // Act
+            const result = await service.optimizeGardenLayout(mockGarden);
+
+            // Assert
+            expect(result.rotationWarnings).toBeUndefined();
+            expect(cropRotationService.evaluateZones)
+                .toHaveBeenCalledWith(result.zones, CROP_ROTATION_DEFAULTS.ROTATION_SEASONS);
+        });
+
         it('should handle minimum garden area requirements', async () => {
             // Arrange
             const mockGarden = createMockGarden({ area: 1 });
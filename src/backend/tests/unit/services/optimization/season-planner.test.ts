@@ -0,0 +1,255 @@
+import { describe, beforeEach, it, expect } from '@jest/globals'; // ^29.0.0
+import moment from 'moment';
+import { SeasonPlannerService } from '../../../../src/services/optimization/season-planner.service';
+import { PlantCatalogService } from '../../../../src/services/plant-catalog.service';
+import { ClimateService } from '../../../../src/services/climate.service';
+import { CropRotationService } from '../../../../src/services/optimization/crop-rotation.service';
+import { plantCatalogSeedData } from '../../../../src/db/seeds/plants.seed';
+import { SUNLIGHT_CONDITIONS } from '../../../../src/constants/garden.constants';
+import { IGarden, IGardenZone } from '../../../../src/interfaces/garden.interface';
+import { PLANT_TYPES } from '../../../../src/constants/plant.constants';
+
+describe('SeasonPlannerService', () => {
+    let service: SeasonPlannerService;
+
+    const startDate = new Date(2025, 2, 1);
+
+    // Helper function to express timeline dates as days into the season
+    const dayOf = (date: Date): number => moment(date).diff(moment(startDate), 'days');
+
+    // Helper function to create test garden
+    const createTestGarden = (zones: Array<Partial<IGardenZone>>): IGarden => {
+        const gardenZones = zones.map((zone, index) => ({
+            id: `zone-${index + 1}`,
+            area: 10,
+            sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN,
+            plants: [],
+            ...zone
+        }));
+
+        return {
+            id: 'test-garden-1',
+            area: gardenZones.reduce((total, zone) => total + zone.area, 0),
+            zones: gardenZones,
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+    };
+
+    beforeEach(() => {
+        const plantCatalog = {
+            requireEntry: (type: string) => {
+                const entry = plantCatalogSeedData.find(candidate => candidate.type === type);
+                if (!entry) {
+                    throw new Error(`Plant catalog entry not found: ${type}`);
+                }
+                return entry;
+            },
+            getEntry: (type: string) => plantCatalogSeedData.find(candidate => candidate.type === type)
+        } as unknown as PlantCatalogService;
+
+        service = new SeasonPlannerService(
+            plantCatalog,
+            new ClimateService(plantCatalog),
+            new CropRotationService(plantCatalog)
+        );
+    });
+
+    describe('planSeason', () => {
+        it('should schedule succession sowings at the catalog interval', () => {
+            const garden = createTestGarden([{ area: 20 }]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.LETTUCE, quantity: 4, successions: 3 }]
+            });
+
+            expect(timeline.plantings.map(planting => dayOf(planting.sowDate))).toEqual([0, 14, 28]);
+            expect(timeline.plantings.map(planting => planting.succession)).toEqual([1, 2, 3]);
+            expect(dayOf(timeline.plantings[0].maturityDate)).toBe(45);
+            expect(dayOf(timeline.plantings[0].harvestEndDate)).toBe(59);
+            expect(timeline.unscheduled).toEqual([]);
+        });
+
+        it('should reuse zone space once a harvest window closes', () => {
+            // Ten square feet holds two sowings of four lettuces at a time
+            const garden = createTestGarden([{ area: 10 }]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.LETTUCE, quantity: 4, successions: 3 }]
+            });
+
+            expect(timeline.plantings.map(planting => dayOf(planting.sowDate))).toEqual([0, 14, 59]);
+        });
+
+        it('should resow crops without a succession interval after the previous crop is cleared', () => {
+            const garden = createTestGarden([{ area: 4 }]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.TOMATOES, quantity: 1, successions: 2 }]
+            });
+
+            expect(timeline.plantings.map(planting => dayOf(planting.sowDate))).toEqual([0, 140]);
+        });
+
+        it('should give long-season crops first claim on zone space', () => {
+            const garden = createTestGarden([{ area: 8 }]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [
+                    { plantType: PLANT_TYPES.LETTUCE, quantity: 4 },
+                    { plantType: PLANT_TYPES.TOMATOES, quantity: 2 }
+                ]
+            });
+
+            const tomatoes = timeline.plantings.find(planting => planting.plantType === PLANT_TYPES.TOMATOES);
+            const lettuce = timeline.plantings.find(planting => planting.plantType === PLANT_TYPES.LETTUCE);
+            expect(dayOf(tomatoes!.sowDate)).toBe(0);
+            expect(dayOf(lettuce!.sowDate)).toBe(140);
+        });
+
+        it('should only use zones with enough sunlight', () => {
+            const garden = createTestGarden([
+                { sunlightCondition: SUNLIGHT_CONDITIONS.PARTIAL_SHADE },
+                { sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN }
+            ]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [
+                    { plantType: PLANT_TYPES.TOMATOES, quantity: 1 },
+                    { plantType: PLANT_TYPES.LETTUCE, quantity: 1, zoneId: 'zone-1' }
+                ]
+            });
+
+            expect(timeline.plantings.map(planting => [planting.plantType, planting.zoneId])).toEqual([
+                [PLANT_TYPES.LETTUCE, 'zone-1'],
+                [PLANT_TYPES.TOMATOES, 'zone-2']
+            ]);
+        });
+
+        it('should report sowings that do not fit in the season', () => {
+            const garden = createTestGarden([{ sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SHADE }, { area: 4 }]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                endDate: moment(startDate).add(200, 'days').toDate(),
+                crops: [
+                    { plantType: PLANT_TYPES.TOMATOES, quantity: 1, successions: 2 },
+                    { plantType: PLANT_TYPES.TOMATOES, quantity: 3 },
+                    { plantType: PLANT_TYPES.LETTUCE, quantity: 1, zoneId: 'zone-1' }
+                ]
+            });
+
+            expect(timeline.plantings).toHaveLength(1);
+            expect(timeline.unscheduled).toEqual([
+                {
+                    plantType: PLANT_TYPES.TOMATOES,
+                    succession: 1,
+                    reason: 'Needs 12 sq ft but no suitable zone is large enough'
+                },
+                {
+                    plantType: PLANT_TYPES.TOMATOES,
+                    succession: 2,
+                    reason: 'No free zone space before the end of the season'
+                },
+                {
+                    plantType: PLANT_TYPES.LETTUCE,
+                    succession: 1,
+                    reason: 'Zone zone-1 does not get enough sunlight'
+                }
+            ]);
+        });
+
+        it('should only sow on days inside each crop\'s frost-safe window', () => {
+            // Zone 6: last spring frost April 20
+            const garden = { ...createTestGarden([{ area: 20 }]), climate: { hardinessZone: '6a' } };
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [
+                    { plantType: PLANT_TYPES.TOMATOES, quantity: 1 },
+                    { plantType: PLANT_TYPES.CARROTS, quantity: 4 }
+                ]
+            });
+
+            // Hardy carrots go in four weeks before the frost and are sown directly; tender
+            // tomatoes wait two weeks past it and are started indoors six weeks earlier
+            expect(timeline.plantings.map(planting => [planting.plantType, dayOf(planting.sowDate)]))
+                .toEqual([[PLANT_TYPES.CARROTS, 22], [PLANT_TYPES.TOMATOES, 64]]);
+            expect(timeline.plantings.map(planting => planting.sowIndoorsDate && dayOf(planting.sowIndoorsDate)))
+                .toEqual([undefined, 22]);
+        });
+
+        it('should report crops that cannot mature within the frost-free season', () => {
+            // Zone 2 has three frost-free months, too few for tomatoes
+            const garden = { ...createTestGarden([{}]), climate: { hardinessZone: '2' } };
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.TOMATOES, quantity: 1 }]
+            });
+
+            expect(timeline.plantings).toEqual([]);
+            expect(timeline.unscheduled).toEqual([{
+                plantType: PLANT_TYPES.TOMATOES,
+                succession: 1,
+                reason: 'No frost-safe sowing date for Tomatoes before the end of the season'
+            }]);
+        });
+
+        it('should keep a family out of zones it grew in within the rotation period', () => {
+            const garden = createTestGarden([
+                { plantingHistory: [{ plantType: PLANT_TYPES.TOMATOES, season: 2024 }] },
+                {}
+            ]);
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.TOMATOES, quantity: 1 }]
+            });
+
+            expect(timeline.plantings.map(planting => planting.zoneId)).toEqual(['zone-2']);
+            expect(timeline.rotationWarnings).toBeUndefined();
+        });
+
+        it('should warn when a requested zone breaks the crop rotation', () => {
+            const garden = {
+                ...createTestGarden([{ plantingHistory: [{ plantType: PLANT_TYPES.TOMATOES, season: 2023 }] }]),
+                rotationSeasons: 4
+            };
+
+            const timeline = service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.TOMATOES, quantity: 1, zoneId: 'zone-1', successions: 2 }]
+            });
+
+            expect(timeline.plantings).toHaveLength(2);
+            expect(timeline.rotationWarnings?.map(warning => [warning.zoneId, warning.nextAllowedSeason]))
+                .toEqual([['zone-1', 2027]]);
+        });
+
+        it('should reject invalid plan requests', () => {
+            const garden = createTestGarden([{}]);
+
+            expect(() => service.planSeason(garden, { startDate, crops: [] }))
+                .toThrow('Season plan must request at least one crop');
+            expect(() => service.planSeason(garden, {
+                startDate,
+                endDate: startDate,
+                crops: [{ plantType: PLANT_TYPES.LETTUCE, quantity: 1 }]
+            })).toThrow('Season must end after it starts');
+            expect(() => service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: PLANT_TYPES.LETTUCE, quantity: 1, zoneId: 'zone-9' }]
+            })).toThrow('Crop 1 references unknown zone zone-9');
+            expect(() => service.planSeason(garden, {
+                startDate,
+                crops: [{ plantType: 'okra', quantity: 1 }]
+            })).toThrow('Plant catalog entry not found: okra');
+        });
+    });
+});
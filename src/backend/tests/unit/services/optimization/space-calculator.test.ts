@@ -2,6 +2,8 @@ import { SpaceCalculatorService } from '../../../../src/services/optimization/sp
 import { GARDEN_AREA_LIMITS } from '../../../../src/constants/garden.constants';
 import { IGarden, IGardenZone, IGardenLayout, IGardenOptimizationParams } from '../../../../src/interfaces/garden.interface';
 import { PLANT_TYPES, SUNLIGHT_REQUIREMENTS } from '../../../../src/constants/plant.constants';
+import { PlantCatalogService } from '../../../../src/services/plant-catalog.service';
+import { plantCatalogSeedData } from '../../../../src/db/seeds/plants.seed';
 
 describe('SpaceCalculatorService', () => {
     let spaceCalculatorService: SpaceCalculatorService;
@@ -9,7 +11,11 @@ describe('SpaceCalculatorService', () => {
     let mockOptimizationParams: IGardenOptimizationParams;
 
     beforeEach(() => {
-        spaceCalculatorService = new SpaceCalculatorService();
+        const catalogEntries = new Map(plantCatalogSeedData.map(entry => [entry.type, entry]));
+        spaceCalculatorService = new SpaceCalculatorService({
+            getEntry: (type: string) => catalogEntries.get(type),
+            getRelationship: () => undefined
+        } as unknown as PlantCatalogService);
 
         // Initialize mock garden data
         mockGarden = {
@@ -54,8 +60,7 @@ describe('SpaceCalculatorService', () => {
             defaultSpacing: 12,
             maxZoneCount: 3,
             companionPlantingEnabled: true,
-            zoneBalancing: 'optimal',
-            seasonalAdjustments: false
+            zoneBalancing: 'optimal'
         };
     });
 
@@ -177,4 +182,165 @@ describe('SpaceCalculatorService', () => {
             expect(Date.now() - startTime).toBeLessThan(3000);
         });
     });
-});
\ No newline at end of file
+
+    describe('geometric layout', () => {
+        it('should assign non-overlapping rectangles to zones without stored positions', async () => {
+            const layout = await spaceCalculatorService.calculateOptimalLayout(mockGarden, mockOptimizationParams);
+            const [first, second] = layout.zones;
+
+            expect(first.position).toEqual({ x: 0, y: 0, width: Math.sqrt(500), height: 300 / Math.sqrt(500) });
+            expect(second.position.y).toBeCloseTo(first.position.height);
+            expect(second.position.width * second.position.height).toBeCloseTo(200);
+        });
+
+        it('should keep stored zone rectangles', async () => {
+            const garden: IGarden = {
+                ...mockGarden,
+                zones: [
+                    { ...mockGarden.zones[0], position: { x: 0, y: 0, width: 15, height: 20 } },
+                    { ...mockGarden.zones[1], position: { x: 15, y: 0, width: 10, height: 20 } }
+                ]
+            };
+
+            const layout = await spaceCalculatorService.calculateOptimalLayout(garden, mockOptimizationParams);
+
+            expect(layout.zones.map(zone => zone.position)).toEqual([
+                { x: 0, y: 0, width: 15, height: 20 },
+                { x: 15, y: 0, width: 10, height: 20 }
+            ]);
+        });
+
+        it('should reject overlapping zone rectangles', async () => {
+            const garden: IGarden = {
+                ...mockGarden,
+                zones: [
+                    { ...mockGarden.zones[0], position: { x: 0, y: 0, width: 15, height: 20 } },
+                    { ...mockGarden.zones[1], position: { x: 10, y: 5, width: 10, height: 20 } }
+                ]
+            };
+
+            await expect(
+                spaceCalculatorService.calculateOptimalLayout(garden, mockOptimizationParams)
+            ).rejects.toThrow('Zone zone-1 overlaps with zone zone-2');
+        });
+
+        it('should place plants inside their zone without overlapping spacing circles', async () => {
+            const crowdedGarden: IGarden = {
+                ...mockGarden,
+                zones: [
+                    {
+                        ...mockGarden.zones[0],
+                        plants: Array.from({ length: 6 }, (_, index) => ({
+                            ...mockGarden.zones[0].plants[0],
+                            id: `tomato-${index}`
+                        }))
+                    },
+                    mockGarden.zones[1]
+                ]
+            };
+
+            const layout = await spaceCalculatorService.calculateOptimalLayout(crowdedGarden, mockOptimizationParams);
+            const zone = layout.zones[0];
+
+            zone.plants.forEach((plant, index) => {
+                const { x, y, radius } = plant.position;
+                expect(x - radius).toBeGreaterThanOrEqual(0);
+                expect(y - radius).toBeGreaterThanOrEqual(0);
+                expect(x + radius).toBeLessThanOrEqual(zone.position.width + 1e-6);
+                expect(y + radius).toBeLessThanOrEqual(zone.position.height + 1e-6);
+
+                zone.plants.slice(index + 1).forEach(other => {
+                    const distance = Math.hypot(x - other.position.x, y - other.position.y);
+                    expect(distance).toBeGreaterThanOrEqual(radius + other.position.radius - 1e-6);
+                });
+            });
+        });
+
+        it('should report plants that do not fit inside their zone', async () => {
+            const smallGarden: IGarden = {
+                ...mockGarden,
+                area: 8,
+                zones: [
+                    {
+                        ...mockGarden.zones[0],
+                        area: 8,
+                        plants: Array.from({ length: 3 }, (_, index) => ({
+                            ...mockGarden.zones[0].plants[0],
+                            id: `tomato-${index}`
+                        }))
+                    }
+                ]
+            };
+
+            const layout = await spaceCalculatorService.calculateOptimalLayout(
+                smallGarden,
+                { ...mockOptimizationParams, minZoneSize: 4 }
+            );
+
+            expect(layout.zones[0].plants).toHaveLength(0);
+            expect(layout.unplacedPlantIds).toEqual(['tomato-0', 'tomato-1', 'tomato-2']);
+        });
+    });
+
+    describe('irregular gardens', () => {
+        // 30 x 30 ft yard with the top-right 15 x 15 ft corner missing
+        const lShapedBoundary = [
+            { x: 0, y: 0 }, { x: 15, y: 0 }, { x: 15, y: 15 },
+            { x: 30, y: 15 }, { x: 30, y: 30 }, { x: 0, y: 30 }
+        ];
+        const shed = {
+            id: 'shed-1',
+            type: 'SHED' as const,
+            boundary: [{ x: 2, y: 2 }, { x: 6, y: 2 }, { x: 6, y: 6 }, { x: 2, y: 6 }]
+        };
+
+        const createIrregularGarden = (zoneAreas: number[]): IGarden => ({
+            ...mockGarden,
+            id: 'irregular-garden',
+            area: 675,
+            boundary: lShapedBoundary,
+            obstacles: [shed],
+            zones: zoneAreas.map((area, index) => ({
+                id: `zone-${index + 1}`,
+                area,
+                sunlightCondition: 'FULL_SUN',
+                plants: []
+            }))
+        });
+
+        it('should only place zones inside the boundary and clear of obstacles', async () => {
+            const layout = await spaceCalculatorService.calculateOptimalLayout(
+                createIrregularGarden([200, 150, 100]),
+                mockOptimizationParams
+            );
+
+            layout.zones.forEach(zone => {
+                const { x, y, width, height } = zone.position;
+                // Nothing may extend into the missing corner
+                expect(x + width <= 15 + 1e-6 || y >= 15 - 1e-6).toBe(true);
+                // Nothing may cover the shed
+                expect(x >= 6 || y >= 6 || x + width <= 2 || y + height <= 2).toBe(true);
+                expect(x + width).toBeLessThanOrEqual(30 + 1e-6);
+                expect(y + height).toBeLessThanOrEqual(30 + 1e-6);
+            });
+        });
+
+        it('should reject zones that do not fit in the plantable area', async () => {
+            await expect(
+                spaceCalculatorService.calculateOptimalLayout(
+                    createIrregularGarden([200, 150, 100, 300]),
+                    mockOptimizationParams
+                )
+            ).rejects.toThrow('Zone zone-4 does not fit in the usable garden area');
+        });
+
+        it('should reject stored zones placed over an obstacle', async () => {
+            const garden = createIrregularGarden([100]);
+            garden.zones[0].position = { x: 0, y: 0, width: 10, height: 10 };
+
+            await expect(
+                spaceCalculatorService.calculateOptimalLayout(garden, mockOptimizationParams)
+            ).rejects.toThrow('Zone zone-1 is outside the usable garden area');
+        });
+    });
+});
@@ -1,10 +1,11 @@
 import { Test } from '@nestjs/testing';
 import { describe, beforeEach, it, expect } from 'jest';
 import { SunlightAnalyzerService } from '../../../../src/services/optimization/sunlight-analyzer.service';
-import { SUNLIGHT_CONDITIONS, SUNLIGHT_HOURS } from '../../../../src/constants/garden.constants';
+import { PlantCatalogService } from '../../../../src/services/plant-catalog.service';
+import { SUNLIGHT_CONDITIONS, SUNLIGHT_HOURS, OBSTACLE_TYPES } from '../../../../src/constants/garden.constants';
 import { IGarden, IGardenZone } from '../../../../src/interfaces/garden.interface';
 import { IPlant } from '../../../../src/interfaces/plant.interface';
-import { PLANT_TYPES } from '../../../../src/constants/plant.constants';
+import { PLANT_TYPES, MIN_SUNLIGHT_HOURS } from '../../../../src/constants/plant.constants';
 
 describe('SunlightAnalyzerService', () => {
     let service: SunlightAnalyzerService;
@@ -42,7 +43,19 @@ describe('SunlightAnalyzerService', () => {
 
     beforeEach(async () => {
         const moduleRef = await Test.createTestingModule({
-            providers: [SunlightAnalyzerService],
+            providers: [
+                SunlightAnalyzerService,
+                {
+                    provide: PlantCatalogService,
+                    useValue: {
+                        getEntry: (type: PLANT_TYPES) => ({
+                            type,
+                            minSunlightHours: MIN_SUNLIGHT_HOURS[type],
+                            optimalSunlightHours: MIN_SUNLIGHT_HOURS[type] + 2
+                        })
+                    }
+                }
+            ],
         }).compile();
 
         service = moduleRef.get<SunlightAnalyzerService>(SunlightAnalyzerService);
@@ -219,4 +232,116 @@ describe('SunlightAnalyzerService', () => {
             expect(positions[0].x + positions[0].y).toBeLessThan(positions[1].x + positions[1].y);
         });
     });
-});
\ No newline at end of file
+
+    describe('estimateSunExposure', () => {
+        // 20x10 ft plot at 40N with its top edge facing north, split into a north and a south strip
+        const createSunPathGarden = (overrides: Partial<IGarden> = {}): IGarden => ({
+            ...createTestGarden([
+                {
+                    id: 'north-strip',
+                    area: 100,
+                    sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN,
+                    plants: [],
+                    position: { x: 0, y: 0, width: 20, height: 5 }
+                },
+                {
+                    id: 'south-strip',
+                    area: 100,
+                    sunlightCondition: SUNLIGHT_CONDITIONS.FULL_SUN,
+                    plants: createTestPlants(1),
+                    position: { x: 0, y: 5, width: 20, height: 5 }
+                }
+            ]),
+            latitude: 40,
+            orientation: 0,
+            ...overrides
+        });
+
+        // 30 ft wall running along the south edge of the plot
+        const wall = {
+            id: 'wall-1',
+            type: OBSTACLE_TYPES.OTHER,
+            boundary: [{ x: 0, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 11 }, { x: 0, y: 11 }],
+            height: 30
+        };
+
+        it('should return no estimates when the latitude is unknown', () => {
+            const garden = createSunPathGarden({ latitude: undefined });
+            expect(service.estimateSunExposure(garden, garden.zones)).toEqual([]);
+        });
+
+        it('should estimate more summer than winter sun for an unshaded zone', () => {
+            const garden = createSunPathGarden();
+            const [exposure] = service.estimateSunExposure(garden, garden.zones);
+
+            expect(exposure.monthlySunHours).toHaveLength(12);
+            expect(exposure.monthlySunHours[5]).toBeGreaterThan(exposure.monthlySunHours[11]);
+            expect(exposure.growingSeasonSunHours).toBeGreaterThanOrEqual(SUNLIGHT_HOURS.FULL_SUN);
+            expect(exposure.sunlightCondition).toBe(SUNLIGHT_CONDITIONS.FULL_SUN);
+        });
+
+        it('should use the southern growing season below the equator', () => {
+            const garden = createSunPathGarden({ latitude: -35 });
+            const [exposure] = service.estimateSunExposure(garden, garden.zones);
+
+            expect(exposure.monthlySunHours[11]).toBeGreaterThan(exposure.monthlySunHours[5]);
+            expect(exposure.growingSeasonSunHours).toBeGreaterThan(exposure.monthlySunHours[5]);
+        });
+
+        it('should reduce sun for zones north of a tall obstacle in the northern hemisphere', () => {
+            const garden = createSunPathGarden({ obstacles: [wall] });
+            const [north, south] = service.estimateSunExposure(garden, garden.zones);
+
+            expect(south.monthlySunHours[11]).toBeLessThan(1);
+            expect(south.growingSeasonSunHours).toBeLessThan(north.growingSeasonSunHours);
+            expect(south.belowOptimalPlantIds).toEqual(['plant-0']);
+        });
+
+        it('should derive full shade and report plants receiving less than their minimum hours', () => {
+            const hedge = {
+                id: 'hedge-1',
+                type: OBSTACLE_TYPES.OTHER,
+                boundary: [{ x: 20, y: 0 }, { x: 21, y: 0 }, { x: 21, y: 11 }, { x: 20, y: 11 }],
+                height: 30
+            };
+            const garden = createSunPathGarden({ obstacles: [wall, hedge] });
+            const [, south] = service.estimateSunExposure(garden, garden.zones);
+
+            expect(south.growingSeasonSunHours).toBeLessThan(MIN_SUNLIGHT_HOURS[PLANT_TYPES.TOMATOES]);
+            expect(south.sunlightCondition).toBe(SUNLIGHT_CONDITIONS.FULL_SHADE);
+            expect(south.underexposedPlantIds).toEqual(['plant-0']);
+        });
+
+        it('should follow the garden orientation', () => {
+            const facingNorth = createSunPathGarden({ obstacles: [wall] });
+            // Rotating the plot 180 degrees puts the wall on its north side
+            const facingSouth = createSunPathGarden({ obstacles: [wall], orientation: 180 });
+
+            const [, shaded] = service.estimateSunExposure(facingNorth, facingNorth.zones);
+            const [, sunny] = service.estimateSunExposure(facingSouth, facingSouth.zones);
+
+            expect(sunny.growingSeasonSunHours).toBeGreaterThan(shaded.growingSeasonSunHours);
+        });
+
+        it('should ignore obstacles without a height', () => {
+            const garden = createSunPathGarden();
+            const withFlatObstacle = createSunPathGarden({ obstacles: [{ ...wall, height: undefined }] });
+
+            expect(service.estimateSunExposure(withFlatObstacle, withFlatObstacle.zones))
+                .toEqual(service.estimateSunExposure(garden, garden.zones));
+        });
+
+        it('should recommend relabelling zones whose estimate disagrees with their condition', async () => {
+            const garden = createSunPathGarden();
+            garden.zones[0].sunlightCondition = SUNLIGHT_CONDITIONS.PARTIAL_SHADE;
+
+            const result = await service.analyzeSunlightDistribution(garden);
+
+            expect(result.isValid).toBe(true);
+            expect(result.recommendations?.some(recommendation =>
+                recommendation.startsWith('Zone north-strip is marked PARTIAL_SHADE') &&
+                recommendation.endsWith('(FULL_SUN)')
+            )).toBe(true);
+        });
+    });
+});
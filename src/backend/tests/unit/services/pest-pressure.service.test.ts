@@ -0,0 +1,242 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { PestPressureService } from '../../../src/services/pest-pressure.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { RainfallRepository } from '../../../src/repositories/rainfall.repository';
+import { PestPressureRepository } from '../../../src/repositories/pest-pressure.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { SensorService } from '../../../src/services/sensor.service';
+import { IWeatherDay } from '../../../src/interfaces/pest-pressure.interface';
+import { ISchedule, TaskPriority, TaskType } from '../../../src/interfaces/schedule.interface';
+import { PLANT_FAMILY } from '../../../src/constants/plant.constants';
+import { PLANT_PROBLEMS } from '../../../src/constants/plant-health.constants';
+import { SENSOR_METRICS } from '../../../src/constants/sensor.constants';
+import {
+    PEST_RISK_LEVELS,
+    PEST_THREATS,
+    WEATHER_DAY_SOURCES
+} from '../../../src/constants/pest-pressure.constants';
+
+describe('PestPressureService', () => {
+    let service: PestPressureService;
+    let tasks: ISchedule[];
+    let sensorHourly: Record<string, any[]>;
+    let pestPressureRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T06:00:00Z');
+    const plants = [
+        { id: 'plant-1', type: 'tomatoes', gardenId: 'garden-1' },
+        { id: 'plant-2', type: 'lettuce', gardenId: 'garden-1' }
+    ];
+    const families: Record<string, PLANT_FAMILY> = {
+        tomatoes: PLANT_FAMILY.SOLANACEAE,
+        lettuce: PLANT_FAMILY.ASTERACEAE
+    };
+
+    // Mild and muggy days favour blight; cool, drier days favour nothing grown here, and
+    // wet days favour blight, downy mildew and slugs
+    const dry = { minTemperature: 10, maxTemperature: 20, humidity: 65, rainfall: 0 };
+    const muggy = { minTemperature: 12, maxTemperature: 22, humidity: 90, rainfall: 0.5 };
+    const wet = { minTemperature: 12, maxTemperature: 18, humidity: 88, rainfall: 6 };
+
+    const day = (date: string, weather: typeof dry, source: IWeatherDay['source'] = WEATHER_DAY_SOURCES.FORECAST) =>
+        ({ date: new Date(`${date}T00:00:00Z`), ...weather, source });
+
+    const stored = [
+        day('2025-06-04', dry),
+        day('2025-06-05', dry),
+        day('2025-06-06', dry),
+        day('2025-06-07', muggy),
+        day('2025-06-08', dry, WEATHER_DAY_SOURCES.SENSORS),
+        day('2025-06-09', wet)
+    ];
+    const forecast = [
+        day('2025-06-10', muggy),
+        day('2025-06-11', muggy),
+        day('2025-06-12', dry),
+        day('2025-06-13', wet)
+    ];
+
+    beforeEach(() => {
+        tasks = [];
+        sensorHourly = { [SENSOR_METRICS.AIR_TEMPERATURE]: [], [SENSOR_METRICS.HUMIDITY]: [] };
+
+        pestPressureRepository = {
+            findWeatherDays: jest.fn(async () => stored),
+            saveWeatherDays: jest.fn(async () => undefined)
+        };
+        scheduleRepository = {
+            getPendingTasks: jest.fn(async (_from: any, _to: any, filters: any = {}) =>
+                tasks.filter(task => task.completed === (filters.completed ?? false))),
+            createSchedule: jest.fn(async (input: any) => {
+                const created = { id: `schedule-${tasks.length + 1}`, ...input };
+                tasks.push(created);
+                return created;
+            })
+        };
+
+        service = new PestPressureService(
+            {
+                getGardenById: jest.fn(async (id: string) => id === 'garden-1' ? { id, name: 'Back garden' } : null),
+                getGardenIds: jest.fn(async () => ['garden-1'])
+            } as unknown as GardenRepository,
+            { getPlantsByGarden: jest.fn(async () => plants) } as unknown as PlantRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            { findByGarden: jest.fn(async () => []) } as unknown as RainfallRepository,
+            pestPressureRepository as unknown as PestPressureRepository,
+            { getEntry: jest.fn((type: string) => ({ type, family: families[type] })) } as unknown as PlantCatalogService,
+            {
+                getGardenForecast: jest.fn(async () => ({ daily: forecast.map(({ source, ...values }) => values) }))
+            } as unknown as WeatherService,
+            {
+                getReadingHistory: jest.fn(async (gardenId: string, metric: string) =>
+                    ({ gardenId, metric, readings: [], hourly: sensorHourly[metric] ?? [] }))
+            } as unknown as SensorService
+        );
+    });
+
+    describe('getPressureCalendar', () => {
+        it('should rate each threat to the plants grown from the favourable days in a week', async () => {
+            const report = await service.getPressureCalendar('garden-1', now);
+
+            expect(report.days).toHaveLength(11);
+            expect(report.days[0]).toMatchObject({ date: new Date('2025-06-03T00:00:00Z'), weather: undefined });
+            expect(report.days[7]).toMatchObject({
+                date: new Date('2025-06-10T00:00:00Z'),
+                forecast: false,
+                weather: { minTemperature: 12, maxTemperature: 22, humidity: 90, source: WEATHER_DAY_SOURCES.FORECAST },
+                favoured: [PEST_THREATS.LATE_BLIGHT, PEST_THREATS.CABBAGE_WHITE, PEST_THREATS.CARROT_FLY]
+            });
+            expect(report.days[7].risks).toMatchObject({
+                [PEST_THREATS.LATE_BLIGHT]: PEST_RISK_LEVELS.MODERATE,
+                [PEST_THREATS.SLUGS]: PEST_RISK_LEVELS.LOW
+            });
+            // Carrots are not grown, so carrot fly is not rated however much the weather favours it
+            expect(report.days[7].risks[PEST_THREATS.CARROT_FLY]).toBeUndefined();
+
+            // The muggy days ahead raise blight to high; the second wet day raises the
+            // threats to lettuce that like the wet to moderate
+            expect(report.risks.filter(risk => risk.level !== PEST_RISK_LEVELS.LOW)).toEqual([
+                expect.objectContaining({
+                    threat: PEST_THREATS.LATE_BLIGHT,
+                    level: PEST_RISK_LEVELS.HIGH,
+                    favourableDays: 4,
+                    peakDate: new Date('2025-06-11T00:00:00Z'),
+                    hostPlantIds: ['plant-1']
+                }),
+                expect.objectContaining({ threat: PEST_THREATS.DOWNY_MILDEW, level: PEST_RISK_LEVELS.MODERATE, hostPlantIds: ['plant-2'] }),
+                expect.objectContaining({ threat: PEST_THREATS.SLUGS, level: PEST_RISK_LEVELS.MODERATE, hostPlantIds: ['plant-2'] })
+            ]);
+            expect(scheduleRepository.createSchedule).not.toHaveBeenCalled();
+        });
+
+        it('should describe days from sensors that measured enough of them', async () => {
+            const hours = (date: string, count: number, min: number, max: number, avg: number) =>
+                Array.from({ length: count }, (_, hour) => ({
+                    hour: new Date(Date.parse(`${date}T00:00:00Z`) + hour * 3600 * 1000),
+                    min,
+                    max,
+                    avg,
+                    count: 4
+                }));
+            sensorHourly[SENSOR_METRICS.AIR_TEMPERATURE] = [...hours('2025-06-08', 24, 13, 21, 17), ...hours('2025-06-05', 6, 15, 25, 20)];
+            sensorHourly[SENSOR_METRICS.HUMIDITY] = [...hours('2025-06-08', 24, 86, 98, 92), ...hours('2025-06-05', 6, 90, 95, 93)];
+
+            const report = await service.getPressureCalendar('garden-1', now);
+
+            expect(report.days[5].weather).toEqual({
+                date: new Date('2025-06-08T00:00:00Z'),
+                minTemperature: 13,
+                maxTemperature: 21,
+                humidity: 92,
+                rainfall: 0,
+                source: WEATHER_DAY_SOURCES.SENSORS
+            });
+            // A quarter of a day is not enough to replace what was recorded
+            expect(report.days[2].weather).toMatchObject({ ...dry, source: WEATHER_DAY_SOURCES.FORECAST });
+            expect(report.days[7].risks[PEST_THREATS.LATE_BLIGHT]).toBe(PEST_RISK_LEVELS.HIGH);
+        });
+    });
+
+    describe('assessGarden', () => {
+        it('should keep the weather up to today and raise tasks for elevated risks', async () => {
+            const report = await service.assessGarden('garden-1', now);
+
+            expect(pestPressureRepository.saveWeatherDays).toHaveBeenCalledWith(
+                'garden-1',
+                [...stored, { ...forecast[0], date: new Date('2025-06-10T00:00:00Z') }]
+            );
+            expect(tasks).toEqual([
+                expect.objectContaining({
+                    plantId: 'plant-1',
+                    taskType: TaskType.PEST_CONTROL,
+                    dueDate: now,
+                    priority: TaskPriority.HIGH,
+                    weather_dependent: true,
+                    notes: 'Remove blighted leaves, keep foliage dry and spray with a copper fungicide',
+                    task_metadata: { pestThreat: PEST_THREATS.LATE_BLIGHT, pestRisk: PEST_RISK_LEVELS.HIGH }
+                }),
+                expect.objectContaining({
+                    plantId: 'plant-2',
+                    priority: TaskPriority.MEDIUM,
+                    weather_dependent: false,
+                    task_metadata: { pestThreat: PEST_THREATS.DOWNY_MILDEW, pestRisk: PEST_RISK_LEVELS.MODERATE }
+                }),
+                expect.objectContaining({
+                    plantId: 'plant-2',
+                    task_metadata: { pestThreat: PEST_THREATS.SLUGS, pestRisk: PEST_RISK_LEVELS.MODERATE }
+                })
+            ]);
+            expect(report.risks.slice(0, 3).map(risk => risk.scheduleIds)).toEqual([['schedule-1'], ['schedule-2'], ['schedule-3']]);
+
+            // The pending tasks cover the same risks the next morning
+            await service.assessGarden('garden-1', now);
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledTimes(3);
+        });
+
+        it('should leave risks covered by recent inspections and diagnosed treatments', async () => {
+            tasks.push(
+                {
+                    id: 'inspected',
+                    plantId: 'plant-2',
+                    taskType: TaskType.PEST_CONTROL,
+                    completed: true,
+                    completedDate: new Date('2025-06-09T18:00:00Z'),
+                    task_metadata: { pestThreat: PEST_THREATS.DOWNY_MILDEW, pestRisk: PEST_RISK_LEVELS.MODERATE }
+                } as ISchedule,
+                {
+                    id: 'slugs-treated',
+                    plantId: 'plant-2',
+                    taskType: TaskType.PEST_CONTROL,
+                    completed: false,
+                    task_metadata: { healthProblem: PLANT_PROBLEMS.SLUG_DAMAGE }
+                } as ISchedule,
+                {
+                    id: 'blight-inspected',
+                    plantId: 'plant-1',
+                    taskType: TaskType.PEST_CONTROL,
+                    completed: true,
+                    completedDate: new Date('2025-06-09T18:00:00Z'),
+                    task_metadata: { pestThreat: PEST_THREATS.LATE_BLIGHT, pestRisk: PEST_RISK_LEVELS.MODERATE }
+                } as ISchedule
+            );
+
+            const report = await service.assessGarden('garden-1', now);
+
+            // An inspection does not cover blight once it calls for treatment
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledTimes(1);
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledWith(expect.objectContaining({
+                plantId: 'plant-1',
+                task_metadata: { pestThreat: PEST_THREATS.LATE_BLIGHT, pestRisk: PEST_RISK_LEVELS.HIGH }
+            }));
+            expect(report.risks.slice(1, 3).map(risk => risk.scheduleIds)).toEqual([['inspected'], ['slugs-treated']]);
+        });
+
+        it('should fail for an unknown garden', async () => {
+            await expect(service.assessGarden('garden-9', now)).rejects.toThrow('Garden with ID garden-9 not found');
+        });
+    });
+});
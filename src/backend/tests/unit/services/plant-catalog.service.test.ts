@@ -0,0 +1,234 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { PlantCatalogRepository, PlantCatalogInput } from '../../../src/repositories/plant-catalog.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { IPlantCatalogEntry, ICompanionRelationship } from '../../../src/interfaces/plant.interface';
+import { plantCatalogSeedData } from '../../../src/db/seeds/plants.seed';
+import {
+    PLANT_TYPES,
+    SUNLIGHT_REQUIREMENTS,
+    PLANT_CATALOG_ERRORS,
+    COMPANION_RELATIONSHIP_TYPES,
+    FROST_TOLERANCE,
+    PLANT_FAMILY
+} from '../../../src/constants/plant.constants';
+
+describe('PlantCatalogService', () => {
+    let plantCatalogService: PlantCatalogService;
+    let mockRepository: jest.Mocked<PlantCatalogRepository>;
+    let mockPlantRepository: jest.Mocked<PlantRepository>;
+    let storedEntries: IPlantCatalogEntry[];
+    let storedRelationships: ICompanionRelationship[];
+
+    const garlicInput: PlantCatalogInput = {
+        type: 'garlic',
+        name: 'Garlic',
+        defaultSpacing: 6,
+        daysToMaturity: 240,
+        harvestWindowDays: 14,
+        frostTolerance: FROST_TOLERANCE.HARDY,
+        family: PLANT_FAMILY.AMARYLLIDACEAE,
+        wateringFrequencyDays: 5,
+        fertilizingFrequencyDays: 30,
+        minSunlightHours: 6,
+        optimalSunlightHours: 8,
+        sunlightRequirement: SUNLIGHT_REQUIREMENTS.FULL_SUN,
+        expectedYieldKg: 0.1,
+        waterRequirementMl: 150,
+        companionPlants: [PLANT_TYPES.TOMATOES]
+    };
+
+    beforeEach(async () => {
+        storedEntries = [...plantCatalogSeedData];
+        storedRelationships = [{
+            plantType: PLANT_TYPES.TOMATOES,
+            companionType: PLANT_TYPES.LETTUCE,
+            relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL
+        }];
+
+        mockRepository = {
+            findAll: jest.fn(async () => storedEntries),
+            findByType: jest.fn(),
+            create: jest.fn(async (input: PlantCatalogInput) => {
+                const created = { ...input, id: 'garlic-id', version: 1 };
+                storedEntries = [...storedEntries, created];
+                return created;
+            }),
+            update: jest.fn(),
+            delete: jest.fn(),
+            findRelationships: jest.fn(async () => storedRelationships),
+            upsertRelationship: jest.fn(async (relationship: ICompanionRelationship) => {
+                storedRelationships = [
+                    ...storedRelationships.filter(existing =>
+                        existing.plantType !== relationship.plantType ||
+                        existing.companionType !== relationship.companionType),
+                    relationship
+                ];
+                return relationship;
+            }),
+            deleteRelationship: jest.fn()
+        } as unknown as jest.Mocked<PlantCatalogRepository>;
+
+        mockPlantRepository = {
+            countPlantsByType: jest.fn(async () => 0)
+        } as unknown as jest.Mocked<PlantRepository>;
+
+        plantCatalogService = new PlantCatalogService(mockRepository, mockPlantRepository);
+        await plantCatalogService.onModuleInit();
+    });
+
+    describe('lookups', () => {
+        it('should serve built-in plant types from the loaded snapshot', () => {
+            const entry = plantCatalogService.getEntry(PLANT_TYPES.TOMATOES);
+
+            expect(entry).toBeDefined();
+            expect(entry.defaultSpacing).toBe(24);
+            expect(entry.companionPlants).toContain(PLANT_TYPES.LETTUCE);
+        });
+
+        it('should return undefined for unknown plant types', () => {
+            expect(plantCatalogService.getEntry('garlic')).toBeUndefined();
+        });
+
+        it('should throw when a required entry is missing', () => {
+            expect(() => plantCatalogService.requireEntry('garlic'))
+                .toThrow(PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND);
+        });
+
+        it('should list entries ordered by plant type', () => {
+            const types = plantCatalogService.listEntries().map(entry => entry.type);
+
+            expect(types).toEqual([PLANT_TYPES.CARROTS, PLANT_TYPES.LETTUCE, PLANT_TYPES.TOMATOES]);
+        });
+    });
+
+    describe('createEntry', () => {
+        it('should add a new plant type without a rebuild', async () => {
+            const created = await plantCatalogService.createEntry(garlicInput);
+
+            expect(created.version).toBe(1);
+            expect(plantCatalogService.getEntry('garlic')).toEqual(expect.objectContaining({
+                name: 'Garlic',
+                daysToMaturity: 240
+            }));
+        });
+
+        it('should reject duplicate plant types', async () => {
+            await expect(plantCatalogService.createEntry({
+                ...garlicInput,
+                type: PLANT_TYPES.LETTUCE
+            })).rejects.toThrow(PLANT_CATALOG_ERRORS.DUPLICATE_TYPE);
+
+            expect(mockRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject invalid entries', async () => {
+            await expect(plantCatalogService.createEntry({
+                ...garlicInput,
+                type: 'Garlic Bulbs',
+                defaultSpacing: 0
+            })).rejects.toThrow(PLANT_CATALOG_ERRORS.INVALID_ENTRY);
+        });
+
+        it('should reject stage durations that do not end before maturity', async () => {
+            await expect(plantCatalogService.createEntry({
+                ...garlicInput,
+                seedlingDays: 60,
+                growingDays: 180
+            })).rejects.toThrow('seedlingDays and growingDays must end before daysToMaturity');
+        });
+
+        it('should reject a single harvest flag that is not a boolean', async () => {
+            await expect(plantCatalogService.createEntry({
+                ...garlicInput,
+                singleHarvest: 'yes' as unknown as boolean
+            })).rejects.toThrow('singleHarvest must be true or false');
+        });
+    });
+
+    describe('updateEntry', () => {
+        it('should pass the expected version to the repository and refresh the snapshot', async () => {
+            const tomatoes = plantCatalogService.requireEntry(PLANT_TYPES.TOMATOES);
+            const { id, version, createdAt, updatedAt, ...input } = tomatoes;
+            const updated = { ...tomatoes, defaultSpacing: 30, version: version + 1 };
+
+            mockRepository.update.mockImplementation(async () => {
+                storedEntries = storedEntries.map(entry => entry.type === tomatoes.type ? updated : entry);
+                return updated;
+            });
+
+            await plantCatalogService.updateEntry(tomatoes.type, { ...input, defaultSpacing: 30 }, version);
+
+            expect(mockRepository.update).toHaveBeenCalledWith(
+                tomatoes.type,
+                expect.objectContaining({ defaultSpacing: 30 }),
+                version
+            );
+            expect(plantCatalogService.requireEntry(PLANT_TYPES.TOMATOES).version).toBe(version + 1);
+        });
+
+        it('should surface version conflicts from the repository', async () => {
+            const { id, version, createdAt, updatedAt, ...input } = plantCatalogService.requireEntry(PLANT_TYPES.CARROTS);
+            mockRepository.update.mockRejectedValue(new Error(PLANT_CATALOG_ERRORS.VERSION_CONFLICT));
+
+            await expect(plantCatalogService.updateEntry(PLANT_TYPES.CARROTS, input, version - 1))
+                .rejects
+                .toThrow(PLANT_CATALOG_ERRORS.VERSION_CONFLICT);
+        });
+    });
+
+    describe('deleteEntry', () => {
+        it('should throw when the plant type does not exist', async () => {
+            mockRepository.delete.mockResolvedValue(false);
+
+            await expect(plantCatalogService.deleteEntry('garlic'))
+                .rejects
+                .toThrow(PLANT_CATALOG_ERRORS.ENTRY_NOT_FOUND);
+        });
+
+        it('should refuse plant types that plants still use', async () => {
+            mockPlantRepository.countPlantsByType.mockResolvedValue(3);
+
+            await expect(plantCatalogService.deleteEntry(PLANT_TYPES.CARROTS))
+                .rejects
+                .toThrow(PLANT_CATALOG_ERRORS.TYPE_IN_USE);
+            expect(mockRepository.delete).not.toHaveBeenCalled();
+            expect(plantCatalogService.getEntry(PLANT_TYPES.CARROTS)).toBeDefined();
+        });
+    });
+
+    describe('relationships', () => {
+        it('should resolve relationships in either direction', () => {
+            expect(plantCatalogService.getRelationship(PLANT_TYPES.LETTUCE, PLANT_TYPES.TOMATOES))
+                .toEqual(expect.objectContaining({ relationshipType: COMPANION_RELATIONSHIP_TYPES.BENEFICIAL }));
+            expect(plantCatalogService.getRelationship(PLANT_TYPES.CARROTS, PLANT_TYPES.LETTUCE)).toBeUndefined();
+        });
+
+        it('should let a harmful record take precedence over a beneficial one', async () => {
+            await plantCatalogService.setRelationship({
+                plantType: PLANT_TYPES.LETTUCE,
+                companionType: PLANT_TYPES.TOMATOES,
+                relationshipType: COMPANION_RELATIONSHIP_TYPES.HARMFUL
+            });
+
+            expect(plantCatalogService.getRelationship(PLANT_TYPES.TOMATOES, PLANT_TYPES.LETTUCE).relationshipType)
+                .toBe(COMPANION_RELATIONSHIP_TYPES.HARMFUL);
+        });
+
+        it('should reject unknown relationship types and plant types', async () => {
+            await expect(plantCatalogService.setRelationship({
+                plantType: PLANT_TYPES.TOMATOES,
+                companionType: PLANT_TYPES.CARROTS,
+                relationshipType: 'HOSTILE' as COMPANION_RELATIONSHIP_TYPES
+            })).rejects.toThrow(PLANT_CATALOG_ERRORS.INVALID_RELATIONSHIP);
+
+            await expect(plantCatalogService.setRelationship({
+                plantType: PLANT_TYPES.TOMATOES,
+                companionType: 'fennel',
+                relationshipType: COMPANION_RELATIONSHIP_TYPES.HARMFUL
+            })).rejects.toThrow(PLANT_CATALOG_ERRORS.UNKNOWN_COMPANION);
+
+            expect(mockRepository.upsertRelationship).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,190 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { PlantHealthService } from '../../../src/services/plant-health.service';
+import { PlantHealthRepository } from '../../../src/repositories/plant-health.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { SensorService } from '../../../src/services/sensor.service';
+import { WaterBalanceService } from '../../../src/services/water-balance.service';
+import { IPlantObservation } from '../../../src/interfaces/plant-health.interface';
+import { ISchedule, TaskPriority, TaskType } from '../../../src/interfaces/schedule.interface';
+import {
+    PLANT_HEALTH_ERRORS,
+    PLANT_HEALTH_STATUS,
+    PLANT_PESTS,
+    PLANT_PROBLEMS,
+    PLANT_SYMPTOMS,
+    PROBLEM_SEVERITY
+} from '../../../src/constants/plant-health.constants';
+
+describe('PlantHealthService', () => {
+    let service: PlantHealthService;
+    let observations: IPlantObservation[];
+    let tasks: ISchedule[];
+    let plantHealthRepository: Record<string, jest.Mock>;
+    let plantRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+    let waterBalanceService: { getPlantSoilMoisture: jest.Mock };
+
+    const now = new Date('2025-06-10T09:00:00Z');
+    const plant = {
+        id: 'plant-1',
+        type: 'tomatoes',
+        gardenId: 'garden-1',
+        growthStage: 'GROWING',
+        plantedDate: new Date('2025-05-01T00:00:00Z'),
+        daysToMaturity: 80
+    };
+
+    const observation = (overrides: Partial<IPlantObservation>): IPlantObservation => ({
+        id: `observation-${observations.length + 1}`,
+        plantId: 'plant-1',
+        symptoms: [],
+        pests: [],
+        photos: [],
+        observedAt: now,
+        ...overrides
+    });
+
+    beforeEach(() => {
+        observations = [];
+        tasks = [];
+
+        plantHealthRepository = {
+            createObservation: jest.fn(async (input: any) => {
+                const stored = { id: `observation-${observations.length + 1}`, ...input };
+                observations.unshift(stored);
+                return stored;
+            }),
+            findObservations: jest.fn(async (plantId: string, options: any = {}) => observations.filter(stored =>
+                stored.plantId === plantId && (!options.since || stored.observedAt >= options.since))),
+            createDiagnosis: jest.fn(async (input: any) => ({ id: 'diagnosis-1', ...input })),
+            findLatestDiagnosis: jest.fn(async () => undefined),
+            updateTrackedHealth: jest.fn(async () => true)
+        };
+        plantRepository = {
+            getPlantById: jest.fn(async (id: string) => id === plant.id ? plant : null),
+            updatePlantHealth: jest.fn(async () => plant)
+        };
+        scheduleRepository = {
+            getPendingTasks: jest.fn(async () => tasks.filter(pending => !pending.completed)),
+            createSchedule: jest.fn(async (input: any) => {
+                const stored = { id: `schedule-${tasks.length + 1}`, ...input };
+                tasks.push(stored);
+                return stored;
+            })
+        };
+        waterBalanceService = { getPlantSoilMoisture: jest.fn(async () => 0.6) };
+
+        service = new PlantHealthService(
+            plantHealthRepository as unknown as PlantHealthRepository,
+            plantRepository as unknown as PlantRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            {
+                getGardenConditions: jest.fn(async () => ({ temperature: 22, humidity: 55, rainfall: 0, windSpeed: 5 }))
+            } as unknown as WeatherService,
+            { getPlantReadings: jest.fn(async () => ({})) } as unknown as SensorService,
+            waterBalanceService as unknown as WaterBalanceService
+        );
+    });
+
+    describe('diagnoseProblems', () => {
+        it('should rank the problems the signs and conditions point to', () => {
+            const problems = service.diagnoseProblems(
+                [observation({ symptoms: [PLANT_SYMPTOMS.POWDERY_COATING, PLANT_SYMPTOMS.YELLOWING_LEAVES] })],
+                { temperature: 22, humidity: 70, soilMoisture: 0.6 }
+            );
+
+            // Two of mildew's three signs in mild, humid air; yellowing alone is too common a
+            // sign of leaf spot, which also needs wetter air, to name it
+            expect(problems.map(problem => [problem.problem, problem.confidence])).toEqual([
+                [PLANT_PROBLEMS.POWDERY_MILDEW, 0.72],
+                [PLANT_PROBLEMS.NITROGEN_DEFICIENCY, 0.65]
+            ]);
+            expect(problems[0]).toMatchObject({
+                severity: PROBLEM_SEVERITY.MODERATE,
+                signs: [PLANT_SYMPTOMS.POWDERY_COATING, PLANT_SYMPTOMS.YELLOWING_LEAVES],
+                conditionsFavour: true
+            });
+        });
+    });
+
+    describe('recordObservation', () => {
+        it('should diagnose the plant and schedule the recommended treatment', async () => {
+            const { observation: stored, diagnosis } = await service.recordObservation('plant-1', {
+                pests: [PLANT_PESTS.APHIDS],
+                affectedPercent: 30,
+                notes: ' Under the top leaves ',
+                photos: [{ url: 'https://photos.example/aphids.jpg', caption: 'Aphids' }]
+            }, now);
+
+            expect(stored).toMatchObject({ gardenId: 'garden-1', notes: 'Under the top leaves', observedAt: now });
+            expect(diagnosis.problems).toEqual([expect.objectContaining({
+                problem: PLANT_PROBLEMS.APHID_INFESTATION,
+                confidence: 0.83,
+                severity: PROBLEM_SEVERITY.MODERATE
+            })]);
+            expect(diagnosis).toMatchObject({
+                healthStatus: PLANT_HEALTH_STATUS.FAIR,
+                conditions: { temperature: 22, humidity: 55, soilMoisture: 0.6 },
+                observationIds: ['observation-1'],
+                treatmentScheduleIds: ['schedule-1']
+            });
+            expect(tasks[0]).toMatchObject({
+                gardenId: 'garden-1',
+                plantId: 'plant-1',
+                taskType: TaskType.PEST_CONTROL,
+                dueDate: new Date('2025-06-11T09:00:00Z'),
+                priority: TaskPriority.MEDIUM,
+                task_metadata: { healthProblem: PLANT_PROBLEMS.APHID_INFESTATION }
+            });
+            expect(plantRepository.updatePlantHealth).toHaveBeenCalledWith('plant-1', PLANT_HEALTH_STATUS.FAIR);
+            expect(plantHealthRepository.updateTrackedHealth).toHaveBeenCalledWith(plant, PLANT_HEALTH_STATUS.FAIR);
+
+            // The pending treatment covers the aphids seen again
+            const again = await service.recordObservation('plant-1', { pests: [PLANT_PESTS.APHIDS] }, now);
+            expect(again.diagnosis.treatmentScheduleIds).toEqual(['schedule-1']);
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledTimes(1);
+        });
+
+        it('should rate a plant mostly lost to a severe problem critical without scheduling care advice', async () => {
+            waterBalanceService.getPlantSoilMoisture.mockResolvedValue(0.97 as never);
+
+            const { diagnosis } = await service.recordObservation('plant-1', {
+                symptoms: [PLANT_SYMPTOMS.WILTING, PLANT_SYMPTOMS.STEM_ROT],
+                affectedPercent: 80
+            }, now);
+
+            expect(diagnosis.problems.map(problem => problem.problem)).toEqual([PLANT_PROBLEMS.ROOT_ROT]);
+            expect(diagnosis.healthStatus).toBe(PLANT_HEALTH_STATUS.CRITICAL);
+            expect(diagnosis.treatmentScheduleIds).toEqual([]);
+            expect(scheduleRepository.createSchedule).not.toHaveBeenCalled();
+        });
+
+        it('should reject observations that record nothing known', async () => {
+            await expect(service.recordObservation('plant-1', { notes: '  ' }, now))
+                .rejects.toThrow(PLANT_HEALTH_ERRORS.EMPTY_OBSERVATION);
+            await expect(service.recordObservation('plant-1', { symptoms: ['glowing' as never] }, now))
+                .rejects.toThrow(PLANT_HEALTH_ERRORS.UNKNOWN_SYMPTOM);
+            await expect(service.recordObservation('plant-1', { pests: [PLANT_PESTS.SLUGS], affectedPercent: 120 }, now))
+                .rejects.toThrow(PLANT_HEALTH_ERRORS.INVALID_AFFECTED_PERCENT);
+            await expect(service.recordObservation('plant-9', { pests: [PLANT_PESTS.SLUGS] }, now))
+                .rejects.toThrow('Plant with ID plant-9 not found');
+        });
+    });
+
+    describe('getObservedHealth', () => {
+        it('should report the leaf colour, pests and symptoms seen in the last two weeks', async () => {
+            observations.push(
+                observation({ symptoms: [PLANT_SYMPTOMS.YELLOWING_LEAVES], pests: [PLANT_PESTS.APHIDS] }),
+                observation({ symptoms: [PLANT_SYMPTOMS.POWDERY_COATING], observedAt: new Date('2025-05-20T09:00:00Z') })
+            );
+
+            expect(await service.getObservedHealth('plant-1', now)).toEqual({
+                leafColor: 'yellow',
+                pestPresence: true,
+                diseaseSymptoms: [PLANT_SYMPTOMS.YELLOWING_LEAVES]
+            });
+        });
+    });
+});
@@ -1,21 +1,30 @@
 import { jest } from '@jest/globals'; // ^29.0.0
-import { PlantService } from '../../src/services/plant.service';
-import { PlantRepository } from '../../src/repositories/plant.repository';
-import { IPlant } from '../../src/interfaces/plant.interface';
+import { PlantService } from '../../../src/services/plant.service';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { ClimateService } from '../../../src/services/climate.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { WaterBalanceService } from '../../../src/services/water-balance.service';
+import { SensorService } from '../../../src/services/sensor.service';
+import { PlantHealthService } from '../../../src/services/plant-health.service';
+import { plantCatalogSeedData } from '../../../src/db/seeds/plants.seed';
+import { IPlant } from '../../../src/interfaces/plant.interface';
 import {
     PLANT_TYPES,
     GROWTH_STAGES,
-    SUNLIGHT_REQUIREMENTS,
-    DEFAULT_PLANT_SPACING,
-    COMPANION_PLANTS
-} from '../../src/constants/plant.constants';
+    SUNLIGHT_REQUIREMENTS
+} from '../../../src/constants/plant.constants';
 
 // Mock the PlantRepository
-jest.mock('../../src/repositories/plant.repository');
+jest.mock('../../../src/repositories/plant.repository');
 
 describe('PlantService', () => {
     let plantService: PlantService;
     let mockPlantRepository: jest.Mocked<PlantRepository>;
+    let mockPlantCatalog: PlantCatalogService;
+    let mockGardenRepository: jest.Mocked<GardenRepository>;
+    let mockPlantHealthService: { getObservedHealth: jest.Mock };
     let mockEnvironmentalData: any;
 
     beforeEach(() => {
@@ -25,8 +34,39 @@ describe('PlantService', () => {
         // Create mock repository instance
         mockPlantRepository = new PlantRepository(null) as jest.Mocked<PlantRepository>;
 
-        // Initialize service with mock repository
-        plantService = new PlantService(mockPlantRepository, { setContext: jest.fn(), log: jest.fn(), error: jest.fn() });
+        // Serve catalog lookups from the built-in seed entries
+        const catalogEntries = new Map(plantCatalogSeedData.map(entry => [entry.type, entry]));
+        mockPlantCatalog = {
+            getEntry: jest.fn((type: string) => catalogEntries.get(type)),
+            requireEntry: jest.fn((type: string) => {
+                const entry = catalogEntries.get(type);
+                if (!entry) {
+                    throw new Error(`Plant type not found in catalog: ${type}`);
+                }
+                return entry;
+            })
+        } as unknown as PlantCatalogService;
+
+        mockGardenRepository = {
+            getGardenById: jest.fn()
+        } as any;
+
+        mockPlantHealthService = {
+            getObservedHealth: jest.fn(async () => ({ leafColor: 'green', pestPresence: false, diseaseSymptoms: [] }))
+        };
+
+        // Initialize service with mock repositories; planting windows come from the real climate rules
+        plantService = new PlantService(
+            mockPlantRepository,
+            { setContext: jest.fn(), log: jest.fn(), error: jest.fn() },
+            mockPlantCatalog,
+            mockGardenRepository,
+            new ClimateService(mockPlantCatalog),
+            { getGardenConditions: jest.fn() } as unknown as WeatherService,
+            { getPlantSoilMoisture: jest.fn() } as unknown as WaterBalanceService,
+            { getPlantReadings: jest.fn(async () => ({})) } as unknown as SensorService,
+            mockPlantHealthService as unknown as PlantHealthService
+        );
 
         // Setup mock environmental data
         mockEnvironmentalData = {
@@ -76,6 +116,22 @@ describe('PlantService', () => {
                 .toThrow(`Insufficient spacing for ${PLANT_TYPES.TOMATOES}`);
         });
 
+        it('should copy care frequencies from the catalog entry', async () => {
+            mockPlantRepository.createPlant.mockImplementation(async (plant: IPlant) => plant);
+
+            const result = await plantService.createPlant(validPlantData);
+
+            expect(result.daysToMaturity).toBe(80);
+            expect(result.wateringFrequencyDays).toBe(3);
+            expect(result.fertilizingFrequencyDays).toBe(14);
+        });
+
+        it('should throw error for plant types missing from the catalog', async () => {
+            await expect(plantService.createPlant({ ...validPlantData, type: 'garlic' }))
+                .rejects
+                .toThrow('Plant type not found in catalog: garlic');
+        });
+
         it('should throw error for incompatible companion plants', async () => {
             const invalidCompanionData = {
                 ...validPlantData,
@@ -86,6 +142,78 @@ describe('PlantService', () => {
                 .rejects
                 .toThrow('Incompatible companion plants');
         });
+
+        describe('frost-safe planting window', () => {
+            // Zone 6 garden: last spring frost April 20, first fall frost October 20
+            const zone6Garden = {
+                id: 'garden-1',
+                area: 100,
+                zones: [],
+                climate: { hardinessZone: '6b' },
+                createdAt: new Date(),
+                updatedAt: new Date()
+            };
+
+            beforeEach(() => {
+                mockGardenRepository.getGardenById.mockResolvedValue(zone6Garden);
+                mockPlantRepository.createPlant.mockImplementation(async (plant: IPlant) => plant);
+            });
+
+            it('should block tender plants set out before the safe window', async () => {
+                await expect(plantService.createPlant({
+                    ...validPlantData,
+                    gardenId: 'garden-1',
+                    plantedDate: new Date(2025, 3, 25)
+                })).rejects.toThrow('Tomatoes set out before May 4 risks frost damage');
+
+                expect(mockPlantRepository.createPlant).not.toHaveBeenCalled();
+            });
+
+            it('should keep the set-out date when it is inside the safe window', async () => {
+                const plantedDate = new Date(2025, 4, 15);
+
+                const result = await plantService.createPlant({
+                    ...validPlantData,
+                    gardenId: 'garden-1',
+                    plantedDate
+                });
+
+                expect(result.plantedDate).toEqual(plantedDate);
+                expect(result.plantingWarnings).toBeUndefined();
+            });
+
+            it('should warn when the crop may not mature before the first fall frost', async () => {
+                const result = await plantService.createPlant({
+                    ...validPlantData,
+                    gardenId: 'garden-1',
+                    plantedDate: new Date(2025, 7, 15)
+                });
+
+                expect(result.plantingWarnings).toEqual([
+                    'Tomatoes set out after July 18 may not mature before the first fall frost'
+                ]);
+            });
+
+            it('should skip the check for gardens without a known climate', async () => {
+                mockGardenRepository.getGardenById.mockResolvedValue({ ...zone6Garden, climate: undefined });
+
+                const result = await plantService.createPlant({
+                    ...validPlantData,
+                    gardenId: 'garden-1',
+                    plantedDate: new Date(2025, 0, 10)
+                });
+
+                expect(result.plantingWarnings).toBeUndefined();
+            });
+
+            it('should throw error for unknown gardens', async () => {
+                mockGardenRepository.getGardenById.mockResolvedValue(null);
+
+                await expect(plantService.createPlant({ ...validPlantData, gardenId: 'missing' }))
+                    .rejects
+                    .toThrow('Garden not found: missing');
+            });
+        });
     });
 
     describe('updateGrowthStage', () => {
@@ -248,6 +376,10 @@ describe('PlantService', () => {
             expectedYieldKg: 5
         };
 
+        beforeEach(() => {
+            mockPlantRepository.updatePlantGrowthStage.mockResolvedValue(mockPlant);
+        });
+
         it('should assess plant health under normal conditions', async () => {
             mockPlantRepository.getPlantById.mockResolvedValue(mockPlant);
 
@@ -266,6 +398,28 @@ describe('PlantService', () => {
             );
         });
 
+        it('should report the pests and symptoms gardeners observed', async () => {
+            mockPlantRepository.getPlantById.mockResolvedValue(mockPlant);
+            mockPlantHealthService.getObservedHealth.mockResolvedValue({
+                leafColor: 'yellow',
+                pestPresence: true,
+                diseaseSymptoms: ['yellowing_leaves', 'sticky_residue']
+            } as never);
+
+            await plantService.updateGrowthStage(mockPlant.id, mockEnvironmentalData);
+
+            expect(mockPlantHealthService.getObservedHealth).toHaveBeenCalledWith(mockPlant.id);
+            expect(mockPlantRepository.updatePlantGrowthStage).toHaveBeenCalledWith(
+                mockPlant.id,
+                mockEnvironmentalData,
+                expect.objectContaining({
+                    leafColor: 'yellow',
+                    pestPresence: true,
+                    diseaseSymptoms: ['yellowing_leaves', 'sticky_residue']
+                })
+            );
+        });
+
         it('should detect stress under extreme conditions', async () => {
             const extremeConditions = {
                 temperature: 38, // Too hot
@@ -0,0 +1,121 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { QuotaExceededError, QuotaService } from '../../../src/services/quota.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { UserRole } from '../../../src/config/security.config';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { QUOTA_ERRORS, QUOTA_RESOURCES } from '../../../src/constants/quota.constants';
+
+describe('QuotaService', () => {
+    let service: QuotaService;
+    let roles: Record<string, UserRole>;
+    let ownedGardens: Record<string, number>;
+    let pendingSchedules: number;
+    let gardenRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+    let userRepository: Record<string, jest.Mock>;
+    let session: object;
+    let create: jest.Mock;
+
+    beforeEach(() => {
+        roles = { 'basic-1': 'user', 'premium-1': 'premium', 'admin-1': 'admin' };
+        ownedGardens = { 'basic-1': 1, 'premium-1': 2, 'admin-1': 40 };
+        pendingSchedules = 8;
+
+        gardenRepository = {
+            getGardenById: jest.fn(async (id: string) =>
+                id === 'plot-1' ? { id, area: 50, zones: [] } : { id, area: 50, zones: [], ownerId: id.replace('garden-of-', '') }),
+            countOwnedGardens: jest.fn(async (ownerId: string) => ownedGardens[ownerId] ?? 0),
+            getOwnedGardenIds: jest.fn(async (ownerId: string) => [`garden-of-${ownerId}`])
+        };
+        scheduleRepository = {
+            countPendingSchedules: jest.fn(async () => pendingSchedules)
+        };
+        session = {};
+        userRepository = {
+            getUserById: jest.fn(async (id: string) => roles[id] ? { id, role: roles[id] } : null),
+            withUserLock: jest.fn(async (_id: string | undefined, work: (session: object) => Promise<unknown>) => work(session))
+        };
+        create = jest.fn(async () => 'created');
+
+        service = new QuotaService(
+            gardenRepository as unknown as GardenRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            userRepository as unknown as UserRepository
+        );
+    });
+
+    describe('getUsage', () => {
+        it('should report usage against the limits of the role', async () => {
+            await expect(service.getUsage('premium-1')).resolves.toEqual({
+                userId: 'premium-1',
+                role: 'premium',
+                gardens: { used: 2, limit: 5, remaining: 3 },
+                schedules: { used: 8, limit: 50, remaining: 42 },
+                advancedFeatures: true
+            });
+            expect(scheduleRepository.countPendingSchedules).toHaveBeenCalledWith(['garden-of-premium-1'], undefined);
+        });
+
+        it('should report unlimited roles without limits and unknown accounts with the basic role', async () => {
+            const admin = await service.getUsage('admin-1');
+            expect(admin.gardens).toEqual({ used: 40, limit: null, remaining: null });
+
+            const unknown = await service.getUsage('stranger');
+            expect(unknown).toMatchObject({ role: 'user', gardens: { limit: 1 }, advancedFeatures: false });
+        });
+    });
+
+    describe('createWithinGardenQuota', () => {
+        it('should count and create in one transaction holding the owner\'s account', async () => {
+            await expect(service.createWithinGardenQuota('premium-1', create)).resolves.toBe('created');
+
+            expect(userRepository.withUserLock).toHaveBeenCalledWith('premium-1', expect.any(Function));
+            expect(gardenRepository.countOwnedGardens).toHaveBeenCalledWith('premium-1', session);
+            expect(create).toHaveBeenCalledWith(session);
+        });
+
+        it('should refuse another garden past the limit with the details of the limit', async () => {
+            const error = await service.createWithinGardenQuota('basic-1', create).catch(caught => caught);
+            expect(error).toBeInstanceOf(QuotaExceededError);
+            expect(error.message).toBe(QUOTA_ERRORS.GARDEN_LIMIT_REACHED);
+            expect(error.code).toBe(ERROR_CODES.QUOTA_EXCEEDED);
+            expect(error.details).toEqual({ resource: QUOTA_RESOURCES.GARDENS, role: 'user', limit: 1, used: 1, requested: 1 });
+            expect(create).not.toHaveBeenCalled();
+        });
+
+        it('should not count gardens of unlimited roles', async () => {
+            await expect(service.createWithinGardenQuota('admin-1', create)).resolves.toBe('created');
+            expect(gardenRepository.countOwnedGardens).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createWithinScheduleQuota', () => {
+        it('should count the tasks added against the pending tasks of the garden\'s owner', async () => {
+            await expect(service.createWithinScheduleQuota('garden-of-basic-1', 2, create)).resolves.toBe('created');
+            expect(userRepository.withUserLock).toHaveBeenCalledWith('basic-1', expect.any(Function));
+            expect(gardenRepository.getOwnedGardenIds).toHaveBeenCalledWith('basic-1', session);
+            expect(scheduleRepository.countPendingSchedules).toHaveBeenCalledWith(['garden-of-basic-1'], session);
+
+            create.mockClear();
+            await expect(service.createWithinScheduleQuota('garden-of-basic-1', 3, create))
+                .rejects.toThrow(QUOTA_ERRORS.SCHEDULE_LIMIT_REACHED);
+            expect(create).not.toHaveBeenCalled();
+        });
+
+        it('should not limit gardens without an owner', async () => {
+            await expect(service.createWithinScheduleQuota('plot-1', 100, create)).resolves.toBe('created');
+            expect(userRepository.withUserLock).toHaveBeenCalledWith(undefined, expect.any(Function));
+            expect(scheduleRepository.countPendingSchedules).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('canUseAdvancedFeatures', () => {
+        it('should reserve advanced features to roles with use:advanced_features', async () => {
+            await expect(service.canUseAdvancedFeatures('premium-1')).resolves.toBe(true);
+            await expect(service.canUseAdvancedFeatures('basic-1')).resolves.toBe(false);
+            await expect(service.canUseAdvancedFeatures(undefined)).resolves.toBe(false);
+        });
+    });
+});
@@ -0,0 +1,216 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { RainWateringService } from '../../../src/services/scheduling/rain-watering.service';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { RainfallRepository } from '../../../src/repositories/rainfall.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { NotificationSchedulerService } from '../../../src/services/scheduling/notification-scheduler.service';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { ISchedule, TaskType } from '../../../src/interfaces/schedule.interface';
+import { RAIN_ADJUSTMENT_ACTIONS } from '../../../src/constants/schedule.constants';
+import { WEATHER_ERRORS } from '../../../src/constants/weather.constants';
+
+describe('RainWateringService', () => {
+    let service: RainWateringService;
+    let schedules: ISchedule[];
+    let scheduleRepository: { getPendingTasks: jest.Mock; updateSchedule: jest.Mock };
+    let gardenRepository: { getGardenById: jest.Mock };
+    let plantRepository: { getPlantById: jest.Mock };
+    let rainfallRepository: { create: jest.Mock; findByGarden: jest.Mock };
+    let weatherService: { getGardenForecast: jest.Mock; getForecastRainfall: jest.Mock };
+    let notificationScheduler: { scheduleBatchNotifications: jest.Mock };
+
+    const now = new Date('2025-06-10T12:00:00Z');
+
+    // 24 inch spacing covers 0.3716 m², so 1858 ml a day is about 5 mm of rain a day
+    const plant = {
+        id: 'plant-1',
+        type: 'tomatoes',
+        gardenId: 'garden-1',
+        spacing: 24,
+        waterRequirementMl: 1858,
+        wateringFrequencyDays: 2,
+        lastWateredDate: new Date('2025-06-08T09:00:00Z')
+    };
+
+    const wateringTask = (id: string, dueDate: string, overrides: Partial<ISchedule> = {}): ISchedule => ({
+        id,
+        gardenId: 'garden-1',
+        plantId: 'plant-1',
+        taskType: TaskType.WATERING,
+        dueDate: new Date(dueDate),
+        completed: false,
+        completedDate: null,
+        task_metadata: {},
+        ...overrides
+    } as ISchedule);
+
+    const observeRain = (rainfallMm: number) => {
+        rainfallRepository.findByGarden.mockResolvedValue([
+            { id: 'rain-1', gardenId: 'garden-1', observedAt: new Date('2025-06-09T18:00:00Z'), rainfallMm }
+        ] as never);
+    };
+
+    beforeEach(() => {
+        schedules = [
+            wateringTask('schedule-1', '2025-06-10T09:00:00Z'),
+            wateringTask('schedule-2', '2025-06-12T09:00:00Z'),
+            wateringTask('schedule-3', '2025-06-14T09:00:00Z')
+        ];
+
+        scheduleRepository = {
+            getPendingTasks: jest.fn(async () => schedules),
+            updateSchedule: jest.fn(async (id: string, data: Partial<ISchedule>) => ({
+                ...schedules.find(schedule => schedule.id === id),
+                ...data
+            }))
+        };
+        gardenRepository = { getGardenById: jest.fn(async () => ({ id: 'garden-1' })) };
+        plantRepository = { getPlantById: jest.fn(async () => plant) };
+        rainfallRepository = {
+            create: jest.fn(async (observation: any) => ({ id: 'rain-2', ...observation })),
+            findByGarden: jest.fn(async () => [])
+        };
+        weatherService = {
+            getGardenForecast: jest.fn(async () => { throw new Error(WEATHER_ERRORS.INVALID_LOCATION); }),
+            getForecastRainfall: jest.fn(() => 0)
+        };
+        notificationScheduler = { scheduleBatchNotifications: jest.fn(async () => []) };
+
+        service = new RainWateringService(
+            scheduleRepository as unknown as ScheduleRepository,
+            gardenRepository as unknown as GardenRepository,
+            plantRepository as unknown as PlantRepository,
+            rainfallRepository as unknown as RainfallRepository,
+            { getEntry: jest.fn() } as unknown as PlantCatalogService,
+            weatherService as unknown as WeatherService,
+            notificationScheduler as unknown as NotificationSchedulerService,
+            {
+                getDeviceTokens: jest.fn(async () => new Map([['collab-1', ['collab-phone']]]))
+            } as unknown as UserRepository
+        );
+    });
+
+    describe('rescheduleGarden', () => {
+        it('should skip watering tasks the observed rain has covered', async () => {
+            // (30 mm - 2 mm caught) * 0.8 soaked in covers 4.48 days, so water is next needed on the 14th
+            observeRain(30);
+
+            const adjusted = await service.rescheduleGarden('garden-1', now);
+
+            expect(adjusted.map(schedule => schedule.id)).toEqual(['schedule-1', 'schedule-2']);
+            expect(adjusted[0]).toMatchObject({ completed: true, completedDate: now });
+            expect(adjusted[0].task_metadata!.rainAdjustments![0]).toMatchObject({
+                action: RAIN_ADJUSTMENT_ACTIONS.SKIPPED,
+                observedRainfallMm: 30,
+                coveredDays: 4.5
+            });
+            expect(rainfallRepository.findByGarden)
+                .toHaveBeenCalledWith('garden-1', plant.lastWateredDate, now);
+            // The task left to water the plant keeps crediting rain from the same watering
+            expect(scheduleRepository.updateSchedule).toHaveBeenCalledWith(
+                'schedule-3',
+                { task_metadata: { rainCreditedFrom: plant.lastWateredDate } },
+                { optimisticLock: false }
+            );
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledWith(
+                [expect.objectContaining({
+                    title: 'Watering skipped',
+                    plantType: 'tomatoes',
+                    data: { scheduleId: 'schedule-2', token: 'garden-1' }
+                })],
+                now
+            );
+        });
+
+        it('should tell the assignees of adjusted tasks on their devices rather than the garden', async () => {
+            observeRain(30);
+            schedules = schedules.map(schedule => ({ ...schedule, assigneeId: 'collab-1' }));
+
+            await service.rescheduleGarden('garden-1', now);
+
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledWith(
+                [expect.objectContaining({ data: { scheduleId: 'schedule-2', token: 'collab-phone' } })],
+                now
+            );
+        });
+
+        it('should postpone the last watering task by whole days while rain covers it', async () => {
+            // 50 mm covers 7.68 days, so the task due on the 14th moves three days
+            observeRain(50);
+
+            const adjusted = await service.rescheduleGarden('garden-1', now);
+
+            const postponed = adjusted[adjusted.length - 1];
+            expect(postponed.id).toBe('schedule-3');
+            expect(postponed.dueDate).toEqual(new Date('2025-06-17T09:00:00Z'));
+            expect(postponed.task_metadata).toMatchObject({
+                originalDueDate: new Date('2025-06-14T09:00:00Z'),
+                rainAdjustments: [expect.objectContaining({ action: RAIN_ADJUSTMENT_ACTIONS.POSTPONED })]
+            });
+        });
+
+        it('should credit forecast rain at a discount until the plant needs water', async () => {
+            observeRain(30);
+            weatherService.getGardenForecast.mockResolvedValue({ hourly: [], daily: [] } as never);
+            weatherService.getForecastRainfall.mockReturnValue(10);
+
+            const adjusted = await service.rescheduleGarden('garden-1', now);
+
+            // Observed rain alone lasts until the evening of the 14th; 10 mm more forecast counts as 7 mm
+            const [, from, until] = weatherService.getForecastRainfall.mock.calls[0] as [unknown, Date, Date];
+            expect(from).toBe(now);
+            expect(until.toISOString()).toMatch(/^2025-06-14T20:31/);
+            const postponed = adjusted[adjusted.length - 1];
+            expect(postponed.dueDate).toEqual(new Date('2025-06-15T09:00:00Z'));
+            expect(postponed.task_metadata!.rainAdjustments![0]).toMatchObject({
+                observedRainfallMm: 30,
+                forecastRainfallMm: 10,
+                coveredDays: 5.6
+            });
+        });
+
+        it('should move a postponed task back when the forecast rain does not fall', async () => {
+            schedules = [
+                wateringTask('schedule-3', '2025-06-15T09:00:00Z', {
+                    task_metadata: {
+                        originalDueDate: new Date('2025-06-12T09:00:00Z'),
+                        rainCreditedFrom: new Date('2025-06-10T09:00:00Z'),
+                        rainAdjustments: []
+                    }
+                })
+            ];
+
+            const [restored] = await service.rescheduleGarden('garden-1', now);
+
+            expect(restored.dueDate).toEqual(new Date('2025-06-12T09:00:00Z'));
+            expect(restored.task_metadata!.rainAdjustments![0].action).toBe(RAIN_ADJUSTMENT_ACTIONS.RESTORED);
+        });
+    });
+
+    describe('recordRainfall', () => {
+        it('should store the observation and review the garden', async () => {
+            observeRain(30);
+
+            const result = await service.recordRainfall('garden-1', { rainfallMm: 30, source: 'gauge' }, now);
+
+            expect(rainfallRepository.create).toHaveBeenCalledWith({
+                gardenId: 'garden-1',
+                observedAt: now,
+                rainfallMm: 30,
+                source: 'gauge'
+            });
+            expect(result.adjustedSchedules).toHaveLength(2);
+        });
+
+        it('should reject invalid amounts and future observations', async () => {
+            await expect(service.recordRainfall('garden-1', { rainfallMm: -1 }, now))
+                .rejects.toThrow(WEATHER_ERRORS.INVALID_RAINFALL);
+            await expect(service.recordRainfall('garden-1', { rainfallMm: 5, observedAt: new Date('2025-06-11T00:00:00Z') }, now))
+                .rejects.toThrow(WEATHER_ERRORS.INVALID_OBSERVATION_DATE);
+            expect(rainfallRepository.create).not.toHaveBeenCalled();
+        });
+    });
+});
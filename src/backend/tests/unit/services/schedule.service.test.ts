@@ -1,12 +1,18 @@
-import { Test, TestingModule } from '@nestjs/testing';
 import { Cache } from 'cache-manager';
 import moment from 'moment';
-import { ScheduleService } from '../../src/services/schedule.service';
-import { ScheduleRepository } from '../../src/repositories/schedule.repository';
-import { MaintenanceCalculator } from '../../src/services/scheduling/maintenance-calculator.service';
-import { NotificationSchedulerService } from '../../src/services/scheduling/notification-scheduler.service';
-import { ISchedule, TaskType, TaskPriority } from '../../src/interfaces/schedule.interface';
-import { SCHEDULE_ERRORS, SCHEDULE_LIMITS } from '../../src/constants/schedule.constants';
+import { ScheduleService } from '../../../src/services/schedule.service';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { MaintenanceCalculator } from '../../../src/services/scheduling/maintenance-calculator.service';
+import { NotificationSchedulerService } from '../../../src/services/scheduling/notification-scheduler.service';
+import { HarvestService } from '../../../src/services/harvest.service';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { WaterBalanceService } from '../../../src/services/water-balance.service';
+import { QuotaExceededError, QuotaService } from '../../../src/services/quota.service';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { QUOTA_ERRORS, QUOTA_RESOURCES } from '../../../src/constants/quota.constants';
+import { ISchedule, TaskType, TaskPriority } from '../../../src/interfaces/schedule.interface';
+import { SCHEDULE_ERRORS, SCHEDULE_LIMITS } from '../../../src/constants/schedule.constants';
+import { HARVEST_ERRORS } from '../../../src/constants/harvest.constants';
 
 describe('ScheduleService', () => {
     let service: ScheduleService;
@@ -14,6 +20,11 @@ describe('ScheduleService', () => {
     let maintenanceCalculator: jest.Mocked<MaintenanceCalculator>;
     let notificationScheduler: jest.Mocked<NotificationSchedulerService>;
     let cacheManager: jest.Mocked<Cache>;
+    let harvestService: jest.Mocked<HarvestService>;
+    let weatherService: jest.Mocked<WeatherService>;
+    let waterBalanceService: jest.Mocked<WaterBalanceService>;
+    let quotaService: jest.Mocked<QuotaService>;
+    let userRepository: jest.Mocked<UserRepository>;
 
     const mockEnvironmentalFactors = {
         temperature: 25,
@@ -35,51 +46,67 @@ describe('ScheduleService', () => {
         weather_dependent: true
     };
 
-    beforeEach(async () => {
-        const module: TestingModule = await Test.createTestingModule({
-            providers: [
-                ScheduleService,
-                {
-                    provide: ScheduleRepository,
-                    useFactory: () => ({
-                        createSchedule: jest.fn(),
-                        getSchedulesByGardenId: jest.fn(),
-                        getPendingTasks: jest.fn(),
-                        markTaskCompleted: jest.fn(),
-                        batchCreateSchedules: jest.fn()
-                    })
-                },
-                {
-                    provide: MaintenanceCalculator,
-                    useFactory: () => ({
-                        calculateNextMaintenanceDate: jest.fn(),
-                        generateMaintenanceSchedule: jest.fn(),
-                        adjustForEnvironmentalFactors: jest.fn()
-                    })
-                },
-                {
-                    provide: NotificationSchedulerService,
-                    useFactory: () => ({
-                        scheduleNotification: jest.fn(),
-                        scheduleBatchNotifications: jest.fn()
-                    })
-                },
-                {
-                    provide: 'CACHE_MANAGER',
-                    useFactory: () => ({
-                        get: jest.fn(),
-                        set: jest.fn(),
-                        del: jest.fn()
-                    })
-                }
-            ]
-        }).compile();
-
-        service = module.get<ScheduleService>(ScheduleService);
-        scheduleRepository = module.get(ScheduleRepository);
-        maintenanceCalculator = module.get(MaintenanceCalculator);
-        notificationScheduler = module.get(NotificationSchedulerService);
-        cacheManager = module.get('CACHE_MANAGER');
+    beforeEach(() => {
+        scheduleRepository = {
+            createSchedule: jest.fn(),
+            getSchedulesByGardenId: jest.fn(),
+            getPendingTasks: jest.fn(),
+            getScheduleById: jest.fn(),
+            markTaskCompleted: jest.fn(),
+            batchCreateSchedules: jest.fn()
+        } as any;
+
+        maintenanceCalculator = {
+            calculateNextMaintenanceDate: jest.fn(),
+            generateMaintenanceSchedule: jest.fn(),
+            adjustForEnvironmentalFactors: jest.fn()
+        } as any;
+
+        notificationScheduler = {
+            scheduleNotification: jest.fn(),
+            scheduleBatchNotifications: jest.fn(),
+            scheduleMaintenanceReminder: jest.fn()
+        } as any;
+
+        cacheManager = {
+            get: jest.fn(),
+            set: jest.fn(),
+            del: jest.fn()
+        } as any;
+
+        harvestService = {
+            validateHarvestInput: jest.fn(),
+            recordHarvest: jest.fn()
+        } as any;
+
+        weatherService = {
+            getGardenConditions: jest.fn()
+        } as any;
+
+        waterBalanceService = {
+            scheduleNextWatering: jest.fn()
+        } as any;
+
+        quotaService = {
+            createWithinScheduleQuota: jest.fn((_gardenId: string, _count: number, create: (session: any) => Promise<unknown>) =>
+                create('session'))
+        } as any;
+
+        userRepository = {
+            getDeviceTokens: jest.fn().mockResolvedValue(new Map())
+        } as any;
+
+        service = new ScheduleService(
+            scheduleRepository,
+            maintenanceCalculator,
+            notificationScheduler,
+            cacheManager,
+            harvestService,
+            weatherService,
+            waterBalanceService,
+            quotaService,
+            userRepository
+        );
     });
 
     describe('createMaintenanceSchedule', () => {
@@ -139,6 +166,37 @@ describe('ScheduleService', () => {
             expect(result).toEqual(cachedSchedules);
             expect(maintenanceCalculator.generateMaintenanceSchedule).not.toHaveBeenCalled();
         });
+
+        it('should create nothing when the tasks would exceed the owner\'s pending task limit', async () => {
+            maintenanceCalculator.generateMaintenanceSchedule.mockResolvedValue([mockSchedule, mockSchedule]);
+            cacheManager.get.mockResolvedValue(null);
+            quotaService.createWithinScheduleQuota.mockRejectedValue(new QuotaExceededError(
+                QUOTA_ERRORS.SCHEDULE_LIMIT_REACHED,
+                { resource: QUOTA_RESOURCES.SCHEDULES, role: 'user', limit: 10, used: 9, requested: 2 }
+            ));
+
+            await expect(service.createMaintenanceSchedule('test-garden-1', 7, mockEnvironmentalFactors))
+                .rejects.toThrow(QUOTA_ERRORS.SCHEDULE_LIMIT_REACHED);
+            expect(quotaService.createWithinScheduleQuota).toHaveBeenCalledWith('test-garden-1', 2, expect.any(Function));
+            expect(scheduleRepository.createSchedule).not.toHaveBeenCalled();
+            expect(cacheManager.set).not.toHaveBeenCalled();
+        });
+
+        it('should schedule with the garden forecast when no environmental factors are given', async () => {
+            const forecastFactors = { temperature: 31, humidity: 52, rainfall: 0, windSpeed: 6 };
+            weatherService.getGardenConditions.mockResolvedValue(forecastFactors);
+            maintenanceCalculator.generateMaintenanceSchedule.mockResolvedValue([]);
+            cacheManager.get.mockResolvedValue(null);
+
+            await service.createMaintenanceSchedule('test-garden-1', 7);
+
+            expect(weatherService.getGardenConditions).toHaveBeenCalledWith('test-garden-1');
+            expect(maintenanceCalculator.generateMaintenanceSchedule).toHaveBeenCalledWith(
+                'test-garden-1',
+                7,
+                forecastFactors
+            );
+        });
     });
 
     describe('getGardenSchedule', () => {
@@ -179,6 +237,140 @@ describe('ScheduleService', () => {
                 mockEnvironmentalFactors
             );
             expect(cacheManager.del).toHaveBeenCalled();
+            expect(harvestService.recordHarvest).not.toHaveBeenCalled();
+            expect(weatherService.getGardenConditions).not.toHaveBeenCalled();
+        });
+
+        it('should credit the user who did the work and put the next task back in the pool', async () => {
+            const completedSchedule = {
+                ...mockSchedule,
+                completed: true,
+                completedDate: new Date(),
+                assigneeId: 'user-2',
+                completedBy: 'user-2'
+            };
+
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+            maintenanceCalculator.calculateNextMaintenanceDate.mockResolvedValue(moment().add(1, 'day').toDate());
+            scheduleRepository.createSchedule.mockResolvedValue({ ...mockSchedule, id: 'test-schedule-2' });
+
+            await service.markTaskCompleted(mockSchedule.id, mockEnvironmentalFactors, undefined, undefined, 'user-2');
+
+            expect(scheduleRepository.markTaskCompleted).toHaveBeenCalledWith(
+                mockSchedule.id,
+                expect.objectContaining({ completedBy: 'user-2' })
+            );
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledWith(expect.objectContaining({
+                assigneeId: undefined,
+                completedBy: undefined
+            }));
+        });
+
+        it('should plan the next task with the garden forecast when no environmental factors are given', async () => {
+            const forecastFactors = { temperature: 26, humidity: 78, rainfall: 12.5, windSpeed: 22 };
+            const completedSchedule = { ...mockSchedule, completed: true, completedDate: new Date() };
+            const nextDate = moment().add(2, 'days').toDate();
+
+            weatherService.getGardenConditions.mockResolvedValue(forecastFactors);
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+            maintenanceCalculator.calculateNextMaintenanceDate.mockResolvedValue(nextDate);
+            scheduleRepository.createSchedule.mockResolvedValue({ ...mockSchedule, id: 'test-schedule-2' });
+
+            await service.markTaskCompleted(mockSchedule.id);
+
+            expect(weatherService.getGardenConditions).toHaveBeenCalledWith(
+                completedSchedule.gardenId,
+                expect.any(Date)
+            );
+            expect(maintenanceCalculator.calculateNextMaintenanceDate).toHaveBeenCalledWith(
+                completedSchedule.plantId,
+                completedSchedule.taskType,
+                forecastFactors
+            );
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledWith(
+                expect.objectContaining({ environmentalFactors: forecastFactors })
+            );
+        });
+
+        it('should schedule the next watering from the zone water balance', async () => {
+            const completedSchedule = { ...mockSchedule, completed: true, completedDate: new Date() };
+            const balanceDate = moment().add(4, 'days').toDate();
+
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+            waterBalanceService.scheduleNextWatering.mockResolvedValue(balanceDate);
+            scheduleRepository.createSchedule.mockResolvedValue({ ...mockSchedule, id: 'test-schedule-2' });
+
+            await service.markTaskCompleted(mockSchedule.id, mockEnvironmentalFactors);
+
+            expect(waterBalanceService.scheduleNextWatering).toHaveBeenCalledWith(completedSchedule, expect.any(Date), undefined);
+            expect(maintenanceCalculator.calculateNextMaintenanceDate).not.toHaveBeenCalled();
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledWith(
+                expect.objectContaining({ dueDate: balanceDate })
+            );
+        });
+
+        it('should record and credit the water delivered by an irrigation valve', async () => {
+            const completedSchedule = { ...mockSchedule, completed: true, completedDate: new Date() };
+            const irrigation = { runId: 'run-1', deliveredMl: 1450 };
+
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+            waterBalanceService.scheduleNextWatering.mockResolvedValue(moment().add(3, 'days').toDate());
+            scheduleRepository.createSchedule.mockResolvedValue({ ...mockSchedule, id: 'test-schedule-2' });
+
+            await service.markTaskCompleted(mockSchedule.id, undefined, undefined, irrigation);
+
+            expect(scheduleRepository.markTaskCompleted).toHaveBeenCalledWith(mockSchedule.id, {
+                completedDate: expect.any(Date),
+                notes: 'Watered by irrigation valve: 1450 ml delivered',
+                irrigation
+            });
+            expect(waterBalanceService.scheduleNextWatering).toHaveBeenCalledWith(completedSchedule, expect.any(Date), 1450);
+        });
+
+        it('should log the harvest when completing a harvesting task', async () => {
+            const harvestSchedule = { ...mockSchedule, taskType: TaskType.HARVESTING };
+            const completedSchedule = { ...harvestSchedule, completed: true, completedDate: new Date() };
+            const harvest = { quantityKg: 1.2, qualityRating: 4, notes: 'First truss' };
+
+            scheduleRepository.getScheduleById.mockResolvedValue(harvestSchedule);
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+            maintenanceCalculator.calculateNextMaintenanceDate.mockResolvedValue(moment().add(7, 'days').toDate());
+            scheduleRepository.createSchedule.mockResolvedValue({ ...harvestSchedule, id: 'test-schedule-2' });
+
+            await service.markTaskCompleted(harvestSchedule.id, mockEnvironmentalFactors, harvest);
+
+            expect(harvestService.recordHarvest).toHaveBeenCalledWith(harvestSchedule.gardenId, {
+                ...harvest,
+                plantId: harvestSchedule.plantId,
+                scheduleId: harvestSchedule.id,
+                harvestedAt: expect.any(Date)
+            });
+        });
+
+        it('should reject harvest details for other task types without completing the task', async () => {
+            scheduleRepository.getScheduleById.mockResolvedValue(mockSchedule);
+
+            await expect(
+                service.markTaskCompleted(mockSchedule.id, mockEnvironmentalFactors, { quantityKg: 1 })
+            ).rejects.toThrow(HARVEST_ERRORS.NOT_A_HARVEST_TASK);
+            expect(scheduleRepository.markTaskCompleted).not.toHaveBeenCalled();
+        });
+
+        it('should not repeat a completed pest control task', async () => {
+            const completedSchedule = {
+                ...mockSchedule,
+                taskType: TaskType.PEST_CONTROL,
+                completed: true,
+                completedDate: new Date()
+            };
+            scheduleRepository.markTaskCompleted.mockResolvedValue(completedSchedule);
+
+            const result = await service.markTaskCompleted(mockSchedule.id, mockEnvironmentalFactors);
+
+            expect(result).toEqual(completedSchedule);
+            expect(maintenanceCalculator.calculateNextMaintenanceDate).not.toHaveBeenCalled();
+            expect(scheduleRepository.createSchedule).not.toHaveBeenCalled();
+            expect(cacheManager.del).toHaveBeenCalled();
         });
     });
 
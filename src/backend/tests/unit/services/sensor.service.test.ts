@@ -0,0 +1,180 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { SensorService } from '../../../src/services/sensor.service';
+import { SensorRepository } from '../../../src/repositories/sensor.repository';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { ISensorDevice, ISensorReading } from '../../../src/interfaces/sensor.interface';
+import { IPlant } from '../../../src/interfaces/plant.interface';
+import { SENSOR_ERRORS, SENSOR_METRICS } from '../../../src/constants/sensor.constants';
+
+describe('SensorService', () => {
+    let service: SensorService;
+    let devices: (ISensorDevice & { keyHash: string })[];
+    let readings: Omit<ISensorReading, 'id'>[];
+    let sensorRepository: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T12:00:00Z');
+
+    beforeEach(() => {
+        devices = [];
+        readings = [];
+
+        sensorRepository = {
+            createDevice: jest.fn(async (gardenId: string, name: string, keyHash: string) => {
+                const device = { id: `device-${devices.length + 1}`, gardenId, name, keyHash };
+                devices.push(device);
+                return device;
+            }),
+            findDeviceById: jest.fn(async (id: string) => devices.find(device => device.id === id)),
+            findDeviceByKeyHash: jest.fn(async (keyHash: string) => devices.find(device => device.keyHash === keyHash)),
+            revokeDevice: jest.fn(async (id: string, revokedAt: Date) => {
+                const device = devices.find(stored => stored.id === id)!;
+                device.revokedAt = revokedAt;
+                return device;
+            }),
+            touchDevice: jest.fn(async () => undefined),
+            createReadings: jest.fn(async (stored: Omit<ISensorReading, 'id'>[]) => {
+                readings.push(...stored);
+                return stored.length;
+            }),
+            findRecentReadings: jest.fn(async (gardenId: string, since: Date) =>
+                readings.filter(reading => reading.recordedAt >= since)
+                    .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())
+                    .map((reading, index) => ({ id: `reading-${index}`, ...reading }))),
+            rollUpReadings: jest.fn(async () => 0),
+            deleteAggregates: jest.fn(async () => 0)
+        };
+
+        service = new SensorService(
+            sensorRepository as unknown as SensorRepository,
+            {
+                getGardenById: jest.fn(async (id: string) => id === 'garden-1'
+                    ? { id, zones: [{ id: 'zone-1', plants: [{ id: 'plant-1' }] }, { id: 'zone-2', plants: [] }] }
+                    : null)
+            } as unknown as GardenRepository,
+            {
+                getPlantsByGarden: jest.fn(async () => [{ id: 'plant-1', gardenId: 'garden-1' }])
+            } as unknown as PlantRepository
+        );
+    });
+
+    describe('registerDevice', () => {
+        it('should issue a key that is only stored hashed', async () => {
+            const { device, key } = await service.registerDevice('garden-1', ' Bed 1 probe ');
+
+            expect(device.name).toBe('Bed 1 probe');
+            expect(key).toMatch(/^[0-9a-f]{64}$/);
+            expect(devices[0].keyHash).not.toBe(key);
+        });
+
+        it('should reject devices for unknown gardens', async () => {
+            await expect(service.registerDevice('garden-9', 'Probe')).rejects.toThrow('Garden with ID garden-9 not found');
+        });
+    });
+
+    describe('ingestReadings', () => {
+        let key: string;
+
+        beforeEach(async () => {
+            ({ key } = await service.registerDevice('garden-1', 'Probe'));
+        });
+
+        it('should store valid readings and report the rejected ones', async () => {
+            const result = await service.ingestReadings(key, [
+                { metric: SENSOR_METRICS.SOIL_MOISTURE, value: 42, plantId: 'plant-1', recordedAt: '2025-06-10T11:55:00Z' },
+                { metric: SENSOR_METRICS.AIR_TEMPERATURE, value: 21.5 },
+                { metric: 'leaf_wetness' as never, value: 3 },
+                { metric: SENSOR_METRICS.SOIL_MOISTURE, value: 140, zoneId: 'zone-1' },
+                { metric: SENSOR_METRICS.LIGHT, value: 1200, zoneId: 'zone-9' },
+                { metric: SENSOR_METRICS.HUMIDITY, value: 50, recordedAt: '2025-06-10T13:00:00Z' }
+            ], now);
+
+            expect(result.accepted).toBe(2);
+            expect(result.rejected).toEqual([
+                { index: 2, error: SENSOR_ERRORS.UNKNOWN_METRIC },
+                { index: 3, error: SENSOR_ERRORS.VALUE_OUT_OF_RANGE },
+                { index: 4, error: SENSOR_ERRORS.UNKNOWN_ZONE },
+                { index: 5, error: SENSOR_ERRORS.INVALID_TIMESTAMP }
+            ]);
+            // Readings at a plant are filed under its zone too
+            expect(readings[0]).toMatchObject({ deviceId: 'device-1', plantId: 'plant-1', zoneId: 'zone-1' });
+            expect(readings[1].recordedAt).toEqual(now);
+            expect(sensorRepository.touchDevice).toHaveBeenCalledWith('device-1', now);
+        });
+
+        it('should refuse missing, unknown and revoked keys', async () => {
+            const readingsToSend = [{ metric: SENSOR_METRICS.HUMIDITY, value: 50 }];
+
+            await expect(service.ingestReadings(undefined, readingsToSend, now)).rejects.toThrow(SENSOR_ERRORS.MISSING_KEY);
+            await expect(service.ingestReadings('not-a-key', readingsToSend, now)).rejects.toThrow(SENSOR_ERRORS.INVALID_KEY);
+
+            await service.revokeDevice('garden-1', 'device-1');
+            await expect(service.ingestReadings(key, readingsToSend, now)).rejects.toThrow(SENSOR_ERRORS.INVALID_KEY);
+            expect(readings).toEqual([]);
+        });
+    });
+
+    describe('ingestLineProtocol', () => {
+        it('should parse readings line by line', async () => {
+            const { key } = await service.registerDevice('garden-1', 'ESP32');
+
+            const result = await service.ingestLineProtocol(key, [
+                '# bed one',
+                'soil_moisture,zone=zone-2 value=37.5 1749556500',
+                'soil_temperature,plant=plant-1 value=18 1749556500000000000',
+                '',
+                'soil_moisture value=abc',
+                'light,room=shed value=10'
+            ].join('\n'), now);
+
+            expect(result.accepted).toBe(2);
+            expect(result.rejected).toEqual([
+                { index: 4, error: SENSOR_ERRORS.INVALID_LINE },
+                { index: 5, error: SENSOR_ERRORS.INVALID_LINE }
+            ]);
+            expect(readings).toEqual([
+                expect.objectContaining({ metric: SENSOR_METRICS.SOIL_MOISTURE, value: 37.5, zoneId: 'zone-2', recordedAt: new Date('2025-06-10T11:55:00Z') }),
+                expect.objectContaining({ metric: SENSOR_METRICS.SOIL_TEMPERATURE, value: 18, plantId: 'plant-1', recordedAt: new Date('2025-06-10T11:55:00Z') })
+            ]);
+        });
+    });
+
+    describe('getPlantReadings', () => {
+        it('should prefer readings at the plant, then its zone, then the garden', async () => {
+            const reading = (metric: string, value: number, minutesAgo: number, spot: Partial<ISensorReading> = {}) => ({
+                gardenId: 'garden-1',
+                deviceId: 'device-1',
+                metric: metric as never,
+                value,
+                recordedAt: new Date(now.getTime() - minutesAgo * 60000),
+                ...spot
+            });
+            readings.push(
+                reading(SENSOR_METRICS.SOIL_MOISTURE, 30, 5, { zoneId: 'zone-1' }),
+                reading(SENSOR_METRICS.SOIL_MOISTURE, 45, 60, { zoneId: 'zone-1', plantId: 'plant-1' }),
+                reading(SENSOR_METRICS.SOIL_MOISTURE, 90, 1, { zoneId: 'zone-2' }),
+                reading(SENSOR_METRICS.AIR_TEMPERATURE, 19, 10),
+                reading(SENSOR_METRICS.HUMIDITY, 80, 10, { zoneId: 'zone-1' }),
+                reading(SENSOR_METRICS.HUMIDITY, 40, 2),
+                // Too old to be the current value
+                reading(SENSOR_METRICS.SOIL_PH, 6.8, 7 * 60, { zoneId: 'zone-1' })
+            );
+
+            const snapshot = await service.getPlantReadings({ id: 'plant-1', gardenId: 'garden-1' } as IPlant, now);
+
+            expect(snapshot[SENSOR_METRICS.SOIL_MOISTURE]?.value).toBe(45);
+            expect(snapshot[SENSOR_METRICS.HUMIDITY]?.value).toBe(80);
+            expect(snapshot[SENSOR_METRICS.AIR_TEMPERATURE]?.value).toBe(19);
+            expect(snapshot[SENSOR_METRICS.SOIL_PH]).toBeUndefined();
+        });
+    });
+
+    describe('handleRetention', () => {
+        it('should roll up readings from before the start of the retained hours', async () => {
+            await service.handleRetention(new Date('2025-06-10T12:34:00Z'));
+
+            expect(sensorRepository.rollUpReadings).toHaveBeenCalledWith(new Date('2025-05-11T12:00:00Z'));
+            expect(sensorRepository.deleteAggregates).toHaveBeenCalledWith(new Date('2023-06-11T12:00:00Z'));
+        });
+    });
+});
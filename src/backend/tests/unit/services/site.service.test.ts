@@ -0,0 +1,266 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { SiteService } from '../../../src/services/site.service';
+import { SiteRepository } from '../../../src/repositories/site.repository';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { ScheduleStatisticsRepository } from '../../../src/repositories/schedule-statistics.repository';
+import { IGarden } from '../../../src/interfaces/garden.interface';
+import { ISite } from '../../../src/interfaces/site.interface';
+import { ISchedule, IScheduleStatistics, TaskFrequency, TaskType } from '../../../src/interfaces/schedule.interface';
+import { SITE_ERRORS, SITE_ROLES } from '../../../src/constants/site.constants';
+
+describe('SiteService', () => {
+    let service: SiteService;
+    let site: ISite;
+    let plots: IGarden[];
+    let tasks: Record<string, ISchedule>;
+    let gardenRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+    let statisticsRepository: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const plot = (id: string, plotNumber: string, overrides: Partial<IGarden> = {}): IGarden => ({
+        id,
+        area: 250,
+        zones: [],
+        siteId: 'site-1',
+        plotNumber,
+        members: [],
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        updatedAt: new Date('2025-01-01T00:00:00Z'),
+        ...overrides
+    });
+    const task = (overrides: Partial<ISchedule>): ISchedule => ({
+        gardenId: 'site-1',
+        siteId: 'site-1',
+        taskType: TaskType.COMPOSTING,
+        frequency: TaskFrequency.WEEKLY,
+        dueDate: new Date('2025-06-12T07:00:00Z'),
+        completed: false,
+        completedDate: null,
+        notes: 'Turn bays 1 and 2',
+        ...overrides
+    } as ISchedule);
+
+    beforeEach(() => {
+        site = {
+            id: 'site-1',
+            name: 'Riverside Allotments',
+            adminIds: ['admin-1'],
+            createdAt: new Date('2025-01-01T00:00:00Z'),
+            updatedAt: new Date('2025-01-01T00:00:00Z')
+        };
+        plots = [
+            plot('garden-1', '1', { ownerId: 'member-1' }),
+            plot('garden-2', '2', { ownerId: 'member-2', members: [{ userId: 'helper-1', role: 'VIEWER' as any, addedBy: 'member-2', addedAt: now }] }),
+            plot('garden-3', '3')
+        ];
+        tasks = {
+            'task-1': task({}),
+            'task-2': task({ taskType: TaskType.WEEDING, assigneeId: 'member-2', assignedAt: now })
+        };
+
+        gardenRepository = {
+            getSitePlots: jest.fn(async () => plots),
+            getGardensForUser: jest.fn(async () => []),
+            createGarden: jest.fn(async (garden: IGarden) => ({ ...garden, id: 'garden-4' })),
+            allocatePlot: jest.fn(async () => true),
+            vacatePlot: jest.fn(async () => true)
+        };
+        scheduleRepository = {
+            getScheduleById: jest.fn(async (id: string) => tasks[id] ?? null),
+            getSchedulesByGardenId: jest.fn(async (gardenId: string) =>
+                gardenId === 'site-1' ? Object.values(tasks) : []),
+            createSchedule: jest.fn(async (data: Partial<ISchedule>) => data),
+            claimTask: jest.fn(async (id: string, userId: string, assignedAt: Date) =>
+                ({ ...tasks[id], assigneeId: userId, assignedAt })),
+            releaseTask: jest.fn(async (id: string) => ({ ...tasks[id], assigneeId: undefined })),
+            markTaskCompleted: jest.fn(async (id: string, completion: any) =>
+                ({ ...tasks[id], completed: true, completedDate: completion.completedDate }))
+        };
+        statisticsRepository = {
+            findByGardens: jest.fn(async () => []),
+            saveStatistics: jest.fn(async () => undefined)
+        };
+
+        service = new SiteService(
+            {
+                getSiteById: jest.fn(async (id: string) => id === site.id ? site : null),
+                getSitesForUser: jest.fn(async () => [site])
+            } as unknown as SiteRepository,
+            gardenRepository as unknown as GardenRepository,
+            {
+                getUserById: jest.fn(async (id: string) => id.startsWith('member') ? { id } : null)
+            } as unknown as UserRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            statisticsRepository as unknown as ScheduleStatisticsRepository
+        );
+    });
+
+    describe('getSite', () => {
+        it('should give admins, plot holders and users a plot is shared with their role in the site', async () => {
+            await expect(service.getSite('site-1', 'admin-1')).resolves.toMatchObject({ role: SITE_ROLES.ADMIN });
+            await expect(service.getSite('site-1', 'member-1')).resolves.toMatchObject({ role: SITE_ROLES.MEMBER });
+            await expect(service.getSite('site-1', 'helper-1')).resolves.toMatchObject({ role: SITE_ROLES.MEMBER });
+        });
+
+        it('should not reveal sites the user does not belong to', async () => {
+            await expect(service.getSite('site-1', 'stranger')).rejects.toThrow('Site with ID site-1 not found');
+        });
+    });
+
+    describe('createPlot', () => {
+        it('should lay out a vacant plot covered by one full-sun zone', async () => {
+            const created = await service.createPlot('site-1', 'admin-1', { plotNumber: ' 4 ', area: 200 });
+
+            expect(created).toEqual({ gardenId: 'garden-4', plotNumber: '4', area: 200, holderId: undefined });
+            expect(gardenRepository.createGarden).toHaveBeenCalledWith(expect.objectContaining({
+                siteId: 'site-1',
+                plotNumber: '4',
+                zones: [expect.objectContaining({ area: 200, sunlightCondition: 'FULL_SUN', plants: [] })]
+            }));
+        });
+
+        it('should only let site admins lay out plots, under numbers not in use', async () => {
+            await expect(service.createPlot('site-1', 'member-1', { plotNumber: '4', area: 200 }))
+                .rejects.toThrow(SITE_ERRORS.NOT_ADMIN);
+            await expect(service.createPlot('site-1', 'admin-1', { plotNumber: '2', area: 200 }))
+                .rejects.toThrow(SITE_ERRORS.PLOT_NUMBER_TAKEN);
+
+            expect(gardenRepository.createGarden).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('allocatePlot', () => {
+        it('should hand a vacant plot to a member', async () => {
+            const allocated = await service.allocatePlot('site-1', 'admin-1', 'garden-3', 'member-3');
+
+            expect(allocated).toEqual({ gardenId: 'garden-3', plotNumber: '3', area: 250, holderId: 'member-3' });
+            expect(gardenRepository.allocatePlot).toHaveBeenCalledWith('garden-3', 'site-1', 'member-3');
+        });
+
+        it('should reject allocated plots, unknown users and members holding too many plots', async () => {
+            await expect(service.allocatePlot('site-1', 'admin-1', 'garden-1', 'member-3'))
+                .rejects.toThrow(SITE_ERRORS.PLOT_ALLOCATED);
+            await expect(service.allocatePlot('site-1', 'admin-1', 'garden-3', 'nobody'))
+                .rejects.toThrow('User with ID nobody not found');
+
+            plots.push(plot('garden-5', '5', { ownerId: 'member-1' }));
+            await expect(service.allocatePlot('site-1', 'admin-1', 'garden-3', 'member-1'))
+                .rejects.toThrow(SITE_ERRORS.TOO_MANY_PLOTS);
+
+            expect(gardenRepository.allocatePlot).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createTask', () => {
+        it('should raise composting and weeding for the whole site without a plant', async () => {
+            const created = await service.createTask('site-1', 'admin-1', {
+                taskType: TaskType.COMPOSTING,
+                dueDate: new Date('2025-06-14T07:00:00Z'),
+                frequency: TaskFrequency.WEEKLY
+            });
+
+            expect(created).toMatchObject({ gardenId: 'site-1', siteId: 'site-1', completed: false });
+            expect(created.plantId).toBeUndefined();
+            await expect(service.createTask('site-1', 'admin-1', {
+                taskType: TaskType.WATERING,
+                dueDate: new Date('2025-06-14T07:00:00Z')
+            })).rejects.toThrow(SITE_ERRORS.INVALID_TASK_TYPE);
+        });
+    });
+
+    describe('claimTask', () => {
+        it('should let any member claim an unclaimed task once', async () => {
+            const claimed = await service.claimTask('site-1', 'task-1', 'helper-1', now);
+
+            expect(claimed).toMatchObject({ assigneeId: 'helper-1', assignedAt: now });
+            await expect(service.claimTask('site-1', 'task-2', 'member-1', now))
+                .rejects.toThrow(SITE_ERRORS.TASK_CLAIMED);
+            await expect(service.claimTask('site-1', 'task-1', 'stranger', now))
+                .rejects.toThrow('Site with ID site-1 not found');
+        });
+
+        it('should report tasks claimed concurrently', async () => {
+            scheduleRepository.claimTask.mockResolvedValue(null as never);
+
+            await expect(service.claimTask('site-1', 'task-1', 'member-1', now))
+                .rejects.toThrow(SITE_ERRORS.TASK_CLAIMED);
+        });
+    });
+
+    describe('completeTask', () => {
+        it('should complete a claimed task and raise the next one unclaimed', async () => {
+            await service.completeTask('site-1', 'task-2', 'member-2', now);
+
+            expect(scheduleRepository.markTaskCompleted).toHaveBeenCalledWith('task-2', expect.objectContaining({ completedDate: now }));
+            expect(scheduleRepository.createSchedule).toHaveBeenCalledWith(expect.objectContaining({
+                siteId: 'site-1',
+                taskType: TaskType.WEEDING,
+                dueDate: new Date('2025-06-17T07:00:00Z')
+            }));
+            expect(scheduleRepository.createSchedule.mock.calls[0][0]).not.toHaveProperty('assigneeId');
+        });
+
+        it('should claim an unclaimed task for the member completing it but not take over claims', async () => {
+            await service.completeTask('site-1', 'task-1', 'member-1', now);
+            expect(scheduleRepository.claimTask).toHaveBeenCalledWith('task-1', 'member-1', now);
+
+            await expect(service.completeTask('site-1', 'task-2', 'member-1', now))
+                .rejects.toThrow(SITE_ERRORS.TASK_NOT_CLAIMED);
+        });
+    });
+
+    describe('getDashboard', () => {
+        it('should recalculate stale plot statistics from their schedules and sum them up', async () => {
+            const fresh: IScheduleStatistics = {
+                gardenId: 'garden-2',
+                totalTasks: 4,
+                completedTasks: 3,
+                upcomingTasks: 1,
+                completionRate: 75,
+                monthlyCompletionRate: { '2025-06': 100 },
+                averageCompletionTime: 60,
+                missedTaskCount: 0,
+                lastCalculatedAt: new Date('2025-06-10T05:00:00Z')
+            };
+            statisticsRepository.findByGardens.mockResolvedValue([fresh] as never);
+            scheduleRepository.getSchedulesByGardenId.mockImplementation(async (gardenId: any) => gardenId === 'garden-1'
+                ? [
+                    task({ gardenId, siteId: undefined, dueDate: new Date('2025-05-20T07:00:00Z'), completed: true, completedDate: new Date('2025-05-20T09:00:00Z') }),
+                    task({ gardenId, siteId: undefined, dueDate: new Date('2025-06-01T07:00:00Z') }),
+                    task({ gardenId, siteId: undefined, dueDate: new Date('2025-06-15T07:00:00Z') })
+                ]
+                : gardenId === 'site-1' ? Object.values(tasks) : []);
+
+            const dashboard = await service.getDashboard('site-1', 'member-1', now);
+
+            expect(statisticsRepository.saveStatistics).toHaveBeenCalledTimes(2);
+            expect(dashboard.plots[0].statistics).toEqual({
+                gardenId: 'garden-1',
+                totalTasks: 3,
+                completedTasks: 1,
+                upcomingTasks: 1,
+                completionRate: 33.33,
+                monthlyCompletionRate: { '2025-05': 100, '2025-06': 0 },
+                averageCompletionTime: 120,
+                missedTaskCount: 1,
+                lastCalculatedAt: now
+            });
+            expect(dashboard.plots[1].statistics).toBe(fresh);
+            expect(dashboard).toMatchObject({
+                plotCount: 3,
+                allocatedPlots: 2,
+                totalTasks: 7,
+                completedTasks: 4,
+                upcomingTasks: 2,
+                missedTaskCount: 1,
+                completionRate: 57.14,
+                openSiteTasks: 1,
+                claimedSiteTasks: 1,
+                overdueSiteTasks: 0
+            });
+        });
+    });
+});
@@ -0,0 +1,243 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { TaskAssignmentService } from '../../../src/services/task-assignment.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { ScheduleRepository } from '../../../src/repositories/schedule.repository';
+import { UserRepository } from '../../../src/repositories/user.repository';
+import { NotificationSchedulerService } from '../../../src/services/scheduling/notification-scheduler.service';
+import { IGarden } from '../../../src/interfaces/garden.interface';
+import { ISchedule, TaskFrequency, TaskType } from '../../../src/interfaces/schedule.interface';
+import { GARDEN_ROLES } from '../../../src/constants/garden-sharing.constants';
+import { SCHEDULE_ERRORS } from '../../../src/constants/schedule.constants';
+import { TASK_ASSIGNMENT_ERRORS } from '../../../src/constants/task-assignment.constants';
+
+describe('TaskAssignmentService', () => {
+    let service: TaskAssignmentService;
+    let garden: IGarden;
+    let tasks: Record<string, ISchedule>;
+    let gardenRepository: Record<string, jest.Mock>;
+    let scheduleRepository: Record<string, jest.Mock>;
+    let notificationScheduler: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T07:00:00Z');
+    const task = (id: string, overrides: Partial<ISchedule> = {}): ISchedule => ({
+        id,
+        gardenId: 'garden-1',
+        plantId: 'plant-1',
+        taskType: TaskType.WATERING,
+        frequency: TaskFrequency.DAILY,
+        dueDate: new Date('2025-06-11T07:00:00Z'),
+        completed: false,
+        completedDate: null,
+        ...overrides
+    } as ISchedule);
+
+    beforeEach(() => {
+        garden = {
+            id: 'garden-1',
+            area: 200,
+            zones: [],
+            ownerId: 'owner-1',
+            members: [
+                { userId: 'collab-1', role: GARDEN_ROLES.COLLABORATOR, addedBy: 'owner-1', addedAt: now },
+                { userId: 'viewer-1', role: GARDEN_ROLES.VIEWER, addedBy: 'owner-1', addedAt: now }
+            ],
+            taskRotations: [],
+            createdAt: new Date('2025-01-01T00:00:00Z'),
+            updatedAt: new Date('2025-01-01T00:00:00Z')
+        };
+        tasks = {
+            'task-1': task('task-1'),
+            'task-2': task('task-2', { assigneeId: 'collab-1', assignedAt: now }),
+            'task-3': task('task-3', { gardenId: 'garden-2' })
+        };
+
+        const hasAccess = (userId: string) =>
+            garden.ownerId === userId || (garden.members || []).some(member => member.userId === userId);
+        gardenRepository = {
+            getGardenById: jest.fn(async () => garden),
+            getGardenForUser: jest.fn(async (id: string, userId: string) =>
+                id === garden.id && hasAccess(userId) ? garden : null),
+            getGardenIds: jest.fn(async () => [garden.id]),
+            setTaskRotations: jest.fn(async (id: string, rotations: any) => {
+                garden.taskRotations = rotations;
+                return true;
+            })
+        };
+        scheduleRepository = {
+            getScheduleById: jest.fn(async (id: string) => tasks[id] ?? null),
+            getPendingTasks: jest.fn(async () => []),
+            getCompletedTasks: jest.fn(async () => []),
+            assignTask: jest.fn(async (id: string, userId: string, assignedAt: Date) =>
+                ({ ...tasks[id], assigneeId: userId, assignedAt })),
+            claimTask: jest.fn(async (id: string, userId: string, assignedAt: Date) =>
+                ({ ...(tasks[id] ?? task(id)), assigneeId: userId, assignedAt })),
+            releaseTask: jest.fn(async (id: string) => ({ ...tasks[id], assigneeId: undefined }))
+        };
+        notificationScheduler = {
+            scheduleMaintenanceReminder: jest.fn(async () => ({ success: true })),
+            scheduleBatchNotifications: jest.fn(async () => [])
+        };
+
+        service = new TaskAssignmentService(
+            gardenRepository as unknown as GardenRepository,
+            scheduleRepository as unknown as ScheduleRepository,
+            {
+                getUsersByIds: jest.fn(async (ids: string[]) =>
+                    ids.map(id => ({ id, name: id === 'owner-1' ? 'Ana' : 'Ben' }))),
+                getDeviceTokens: jest.fn(async () => new Map([
+                    ['owner-1', ['owner-phone']],
+                    ['collab-1', ['collab-phone', 'collab-tablet']]
+                ]))
+            } as unknown as UserRepository,
+            notificationScheduler as unknown as NotificationSchedulerService
+        );
+    });
+
+    describe('assignTask', () => {
+        it('should assign a task to a collaborator and notify only their devices', async () => {
+            garden.zones = [{ id: 'zone-1', plants: [{ id: 'plant-1', type: 'tomatoes' }] } as any];
+
+            const assigned = await service.assignTask('garden-1', 'task-1', 'owner-1', 'collab-1', now);
+
+            expect(assigned).toMatchObject({ assigneeId: 'collab-1', assignedAt: now });
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    data: { scheduleId: 'task-1', gardenId: 'garden-1', token: 'collab-phone' },
+                    gardenZone: 'zone-1',
+                    plantType: 'tomatoes'
+                }),
+                expect.objectContaining({ data: expect.objectContaining({ token: 'collab-tablet' }) })
+            ], now);
+        });
+
+        it('should only let owners and collaborators assign tasks, to owners and collaborators', async () => {
+            await expect(service.assignTask('garden-1', 'task-1', 'viewer-1', 'collab-1', now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.NOT_ALLOWED);
+            await expect(service.assignTask('garden-1', 'task-1', 'owner-1', 'viewer-1', now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.NOT_ASSIGNABLE);
+            await expect(service.assignTask('garden-1', 'task-3', 'owner-1', 'collab-1', now))
+                .rejects.toThrow(SCHEDULE_ERRORS.SCHEDULE_NOT_FOUND);
+
+            expect(scheduleRepository.assignTask).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('claimTask', () => {
+        it('should let a collaborator claim an unassigned task from the pool once', async () => {
+            const claimed = await service.claimTask('garden-1', 'task-1', 'collab-1', now);
+
+            expect(claimed).toMatchObject({ assigneeId: 'collab-1' });
+            await expect(service.claimTask('garden-1', 'task-2', 'owner-1', now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.TASK_ASSIGNED);
+        });
+
+        it('should report tasks claimed concurrently', async () => {
+            scheduleRepository.claimTask.mockResolvedValue(null as never);
+
+            await expect(service.claimTask('garden-1', 'task-1', 'owner-1', now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.TASK_ASSIGNED);
+        });
+    });
+
+    describe('unassignTask', () => {
+        it('should let assignees and the owner put a task back in the pool, but nobody else', async () => {
+            await expect(service.unassignTask('garden-1', 'task-2', 'collab-1')).resolves.toMatchObject({ assigneeId: undefined });
+            await expect(service.unassignTask('garden-1', 'task-2', 'owner-1')).resolves.toBeDefined();
+
+            tasks['task-2'] = task('task-2', { assigneeId: 'owner-1' });
+            await expect(service.unassignTask('garden-1', 'task-2', 'collab-1'))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.TASK_NOT_ASSIGNED);
+        });
+    });
+
+    describe('setRotation', () => {
+        it('should store the rotation and assign unassigned tasks to whoever is on turn', async () => {
+            scheduleRepository.getPendingTasks.mockResolvedValue([
+                task('task-4', { dueDate: new Date('2025-06-12T07:00:00Z') }),
+                task('task-5', { dueDate: new Date('2025-06-18T07:00:00Z') }),
+                task('task-6', { dueDate: new Date('2025-06-24T07:00:00Z') })
+            ] as never);
+
+            const rotation = await service.setRotation('garden-1', 'owner-1', TaskType.WATERING, {
+                userIds: ['owner-1', 'collab-1'],
+                periodDays: 7
+            }, now);
+
+            expect(rotation).toEqual({
+                taskType: TaskType.WATERING,
+                userIds: ['owner-1', 'collab-1'],
+                periodDays: 7,
+                startsOn: new Date('2025-06-10T00:00:00Z')
+            });
+            expect(gardenRepository.setTaskRotations).toHaveBeenCalledWith('garden-1', [rotation]);
+            expect(scheduleRepository.claimTask.mock.calls.map(call => [call[0], call[1]])).toEqual([
+                ['task-4', 'owner-1'],
+                ['task-5', 'collab-1'],
+                ['task-6', 'owner-1']
+            ]);
+            expect(notificationScheduler.scheduleBatchNotifications).toHaveBeenCalledWith([
+                expect.objectContaining({ data: expect.objectContaining({ scheduleId: 'task-4', token: 'owner-phone' }) }),
+                expect.objectContaining({ data: expect.objectContaining({ scheduleId: 'task-5', token: 'collab-phone' }) }),
+                expect.objectContaining({ data: expect.objectContaining({ scheduleId: 'task-5', token: 'collab-tablet' }) }),
+                expect.objectContaining({ data: expect.objectContaining({ scheduleId: 'task-6', token: 'owner-phone' }) })
+            ], now);
+        });
+
+        it('should reject viewers in the rotation, repeated users and periods out of range', async () => {
+            await expect(service.setRotation('garden-1', 'owner-1', TaskType.WATERING, { userIds: ['viewer-1'], periodDays: 7 }, now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.NOT_ASSIGNABLE);
+            await expect(service.setRotation('garden-1', 'owner-1', TaskType.WATERING, { userIds: ['owner-1', 'owner-1'], periodDays: 7 }, now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.INVALID_ROTATION);
+            await expect(service.setRotation('garden-1', 'owner-1', TaskType.WATERING, { userIds: ['owner-1'], periodDays: 0.5 }, now))
+                .rejects.toThrow(TASK_ASSIGNMENT_ERRORS.INVALID_PERIOD);
+
+            expect(gardenRepository.setTaskRotations).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('applyRotations', () => {
+        it('should pass the turns of users who left the garden to the others', async () => {
+            garden.taskRotations = [{
+                taskType: TaskType.WATERING,
+                userIds: ['owner-1', 'former-1'],
+                periodDays: 7,
+                startsOn: new Date('2025-06-03T00:00:00Z')
+            }];
+            scheduleRepository.getPendingTasks.mockResolvedValue([task('task-4')] as never);
+
+            await service.applyRotations('garden-1', now);
+
+            expect(scheduleRepository.getPendingTasks).toHaveBeenCalledWith(
+                expect.any(Date),
+                new Date('2025-06-24T07:00:00Z'),
+                { gardenId: 'garden-1', completed: false, assigned: false, taskTypes: [TaskType.WATERING] }
+            );
+            expect(scheduleRepository.claimTask).toHaveBeenCalledWith('task-4', 'owner-1', now);
+        });
+    });
+
+    describe('getCompletionHistory', () => {
+        it('should credit each user with the tasks they completed', async () => {
+            scheduleRepository.getCompletedTasks.mockResolvedValue([
+                task('task-7', { completed: true, completedBy: 'collab-1' }),
+                task('task-8', { completed: true, completedBy: 'owner-1', taskType: TaskType.PRUNING }),
+                task('task-9', { completed: true, completedBy: 'collab-1' }),
+                task('task-10', { completed: true })
+            ] as never);
+
+            const history = await service.getCompletionHistory('garden-1', 'viewer-1', undefined, undefined, now);
+
+            expect(history.from).toEqual(new Date('2025-05-11T07:00:00Z'));
+            expect(history.contributors).toEqual([
+                { userId: 'collab-1', name: 'Ben', completedTasks: 2, taskTypes: { [TaskType.WATERING]: 2 } },
+                { userId: 'owner-1', name: 'Ana', completedTasks: 1, taskTypes: { [TaskType.PRUNING]: 1 } }
+            ]);
+            expect(history.unattributedTasks).toBe(1);
+        });
+
+        it('should not reveal the history of gardens the user has no access to', async () => {
+            await expect(service.getCompletionHistory('garden-1', 'stranger', undefined, undefined, now))
+                .rejects.toThrow('Garden with ID garden-1 not found');
+        });
+    });
+});
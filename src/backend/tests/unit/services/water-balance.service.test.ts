@@ -0,0 +1,261 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import { WaterBalanceService } from '../../../src/services/water-balance.service';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { PlantRepository } from '../../../src/repositories/plant.repository';
+import { RainfallRepository } from '../../../src/repositories/rainfall.repository';
+import { WaterBalanceRepository } from '../../../src/repositories/water-balance.repository';
+import { PlantCatalogService } from '../../../src/services/plant-catalog.service';
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { SensorService } from '../../../src/services/sensor.service';
+import { IIrrigationEvent, IZoneWaterBalance } from '../../../src/interfaces/water-balance.interface';
+import { ISchedule, TaskType } from '../../../src/interfaces/schedule.interface';
+import {
+    IRRIGATION_SOURCES,
+    SOIL_TYPES,
+    WATER_BALANCE_ERRORS
+} from '../../../src/constants/water-balance.constants';
+
+describe('WaterBalanceService', () => {
+    let service: WaterBalanceService;
+    let balances: IZoneWaterBalance[];
+    let irrigation: IIrrigationEvent[];
+    let garden: any;
+    let rainfallRepository: { findByGarden: jest.Mock };
+    let sensorService: { getZoneSoilMoisture: jest.Mock };
+    let waterBalanceRepository: Record<string, jest.Mock>;
+
+    const now = new Date('2025-06-10T18:00:00Z');
+    const today = new Date('2025-06-10T00:00:00Z');
+
+    // Loam over 0.3 m of roots holds 48 mm. Without a forecast a day at the default conditions
+    // loses 3.91 mm of reference evapotranspiration: the tomato draws 1858 ml, or 2 mm over
+    // the 10 sq ft zone, scaled to 1.56 mm, and the 60% of bare soil loses another 0.7 mm
+    const dailyLossMm = 2.27;
+
+    const sameDay = (a: Date, b: Date) => a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+
+    beforeEach(() => {
+        balances = [];
+        irrigation = [];
+        garden = {
+            id: 'garden-1',
+            zones: [{
+                id: 'zone-1',
+                area: 10,
+                soilType: SOIL_TYPES.LOAM,
+                plants: [{ id: 'plant-1', spacing: 24 }]
+            }]
+        };
+
+        rainfallRepository = { findByGarden: jest.fn(async () => []) };
+        sensorService = { getZoneSoilMoisture: jest.fn(async () => []) };
+        waterBalanceRepository = {
+            saveBalance: jest.fn(async (balance: any) => {
+                const saved = { id: `balance-${balance.date.toISOString()}`, ...balance };
+                balances = [...balances.filter(kept => !sameDay(kept.date, balance.date)), saved];
+                return saved;
+            }),
+            findBalances: jest.fn(async (gardenId: string, zoneId: string, from: Date, to: Date) =>
+                balances.filter(balance => balance.date >= from && balance.date <= to)
+                    .sort((a, b) => a.date.getTime() - b.date.getTime())),
+            findLatestBalance: jest.fn(async (gardenId: string, zoneId: string, date: Date) =>
+                balances.filter(balance => balance.date <= date)
+                    .sort((a, b) => b.date.getTime() - a.date.getTime())[0]),
+            createIrrigation: jest.fn(async (event: any) => {
+                const saved = { id: `irrigation-${irrigation.length + 1}`, ...event };
+                irrigation.push(saved);
+                return saved;
+            }),
+            findIrrigation: jest.fn(async (gardenId: string, zoneId: string, from: Date, to: Date) =>
+                irrigation.filter(event => event.appliedAt >= from && event.appliedAt < to))
+        };
+
+        service = new WaterBalanceService(
+            { getGardenById: jest.fn(async () => garden), getGardenIds: jest.fn() } as unknown as GardenRepository,
+            {
+                getPlantsByGarden: jest.fn(async () => [
+                    { id: 'plant-1', type: 'tomatoes', spacing: 24, waterRequirementMl: 1858 }
+                ])
+            } as unknown as PlantRepository,
+            rainfallRepository as unknown as RainfallRepository,
+            waterBalanceRepository as unknown as WaterBalanceRepository,
+            { getEntry: jest.fn() } as unknown as PlantCatalogService,
+            { getGardenForecast: jest.fn(async () => { throw new Error('No location'); }) } as unknown as WeatherService,
+            sensorService as unknown as SensorService
+        );
+    });
+
+    describe('estimateReferenceEt', () => {
+        it('should follow Hargreaves corrected for humidity and wind', () => {
+            const day = {
+                date: new Date('2025-06-21T00:00:00Z'),
+                minTemperature: 12,
+                maxTemperature: 24,
+                humidity: 70,
+                rainfall: 0,
+                windSpeed: 10
+            };
+
+            // Midsummer in London: 17.0 mm of extraterrestrial radiation gives 4.85 mm, less 5% for
+            // the humid air and plus 2.8% for the wind
+            expect(service.estimateReferenceEt(day, 51.5)).toBeCloseTo(4.74, 2);
+            expect(service.estimateReferenceEt({ ...day, humidity: 60, windSpeed: 7.2 })).toBe(4);
+        });
+    });
+
+    describe('updateGardenBalances', () => {
+        it('should start a zone full and take its plants and bare soil out each day', async () => {
+            const [balance] = await service.updateGardenBalances('garden-1', now);
+
+            expect(balance).toMatchObject({
+                zoneId: 'zone-1',
+                date: today,
+                capacityMm: 48,
+                startMm: 48,
+                referenceEtMm: 3.91,
+                plantDemandMm: 1.56,
+                evaporationMm: 0.7
+            });
+            expect(balance.endMm).toBeCloseTo(48 - dailyLossMm, 1);
+        });
+
+        it('should soak in observed rain and drain what the soil cannot hold', async () => {
+            rainfallRepository.findByGarden.mockResolvedValue([
+                { id: 'rain-1', gardenId: 'garden-1', observedAt: new Date('2025-06-10T07:00:00Z'), rainfallMm: 12 }
+            ] as never);
+
+            const [balance] = await service.updateGardenBalances('garden-1', now);
+
+            // 12 mm less 2 mm caught by leaves, 80% of which soaks in
+            expect(balance.rainfallMm).toBe(8);
+            expect(balance.endMm).toBe(48);
+            expect(balance.drainageMm).toBeCloseTo(8 - dailyLossMm, 1);
+        });
+
+        it('should end the day at the soil moisture measured in the zone', async () => {
+            sensorService.getZoneSoilMoisture.mockResolvedValue([
+                { id: 'reading-1', metric: 'soil_moisture', value: 70, recordedAt: new Date('2025-06-10T06:00:00Z') },
+                { id: 'reading-2', metric: 'soil_moisture', value: 55, recordedAt: new Date('2025-06-10T17:00:00Z') }
+            ] as never);
+
+            const [balance] = await service.updateGardenBalances('garden-1', now);
+
+            expect(balance.plantDemandMm).toBe(1.56);
+            expect(balance.endMm).toBe(26.4);
+        });
+
+        it('should fill in the days since the last balance', async () => {
+            balances.push({
+                id: 'balance-1',
+                gardenId: 'garden-1',
+                zoneId: 'zone-1',
+                date: new Date('2025-06-07T00:00:00Z'),
+                soilType: SOIL_TYPES.LOAM,
+                capacityMm: 48,
+                startMm: 40,
+                rainfallMm: 0,
+                irrigationMm: 0,
+                evaporationMm: 0.7,
+                plantDemandMm: 1.56,
+                referenceEtMm: 3.91,
+                drainageMm: 0,
+                endMm: 37.73
+            });
+
+            await service.updateGardenBalances('garden-1', now);
+
+            expect(balances.map(balance => balance.date.toISOString().slice(0, 10)))
+                .toEqual(['2025-06-07', '2025-06-08', '2025-06-09', '2025-06-10']);
+            expect(balances[3].endMm).toBeCloseTo(40 - 4 * dailyLossMm, 1);
+        });
+    });
+
+    describe('getZoneWaterBalance', () => {
+        it('should project when the zone falls to its refill point', async () => {
+            const report = await service.getZoneWaterBalance('garden-1', 'zone-1', 7, now);
+
+            expect(report.history).toHaveLength(1);
+            expect(report.refillPointMm).toBe(24);
+            // 45.73 mm at the end of today falls below 24 mm on the tenth day
+            expect(report.nextWateringDate).toEqual(new Date('2025-06-20T18:00:00Z'));
+            expect(report.refillMm).toBeCloseTo(48 - (48 - 11 * dailyLossMm), 0);
+        });
+
+        it('should reject unknown zones', async () => {
+            await expect(service.getZoneWaterBalance('garden-1', 'zone-9', 7, now))
+                .rejects.toThrow(WATER_BALANCE_ERRORS.ZONE_NOT_FOUND);
+        });
+    });
+
+    describe('scheduleNextWatering', () => {
+        it('should refill the zone and schedule watering from the balance', async () => {
+            balances.push({
+                id: 'balance-1',
+                gardenId: 'garden-1',
+                zoneId: 'zone-1',
+                date: today,
+                soilType: SOIL_TYPES.LOAM,
+                capacityMm: 48,
+                startMm: 26,
+                rainfallMm: 0,
+                irrigationMm: 0,
+                evaporationMm: 0.7,
+                plantDemandMm: 1.56,
+                referenceEtMm: 3.91,
+                drainageMm: 0,
+                endMm: 23.73
+            });
+            const schedule = { id: 'schedule-1', gardenId: 'garden-1', plantId: 'plant-1', taskType: TaskType.WATERING } as ISchedule;
+
+            const nextDate = await service.scheduleNextWatering(schedule, now);
+
+            expect(irrigation).toEqual([expect.objectContaining({
+                zoneId: 'zone-1',
+                amountMm: 24.27,
+                source: IRRIGATION_SOURCES.TASK,
+                scheduleId: 'schedule-1'
+            })]);
+            expect(balances[0].endMm).toBe(48);
+            // A full zone falls to 24 mm on the eleventh day
+            expect(nextDate).toEqual(new Date('2025-06-21T18:00:00Z'));
+        });
+
+        it('should credit the water a valve delivered instead of refilling the zone', async () => {
+            balances.push({
+                id: 'balance-1',
+                gardenId: 'garden-1',
+                zoneId: 'zone-1',
+                date: today,
+                soilType: SOIL_TYPES.LOAM,
+                capacityMm: 48,
+                startMm: 26,
+                rainfallMm: 0,
+                irrigationMm: 0,
+                evaporationMm: 0.7,
+                plantDemandMm: 1.56,
+                referenceEtMm: 3.91,
+                drainageMm: 0,
+                endMm: 23.73
+            });
+            const schedule = { id: 'schedule-1', gardenId: 'garden-1', plantId: 'plant-1', taskType: TaskType.WATERING } as ISchedule;
+
+            const nextDate = await service.scheduleNextWatering(schedule, now, 5000);
+
+            // 5 litres over the zone's 0.93 m²
+            expect(irrigation).toEqual([expect.objectContaining({
+                zoneId: 'zone-1',
+                amountMm: 5.38,
+                source: IRRIGATION_SOURCES.VALVE,
+                scheduleId: 'schedule-1'
+            })]);
+            expect(nextDate!.getTime()).toBeLessThan(new Date('2025-06-21T18:00:00Z').getTime());
+        });
+
+        it('should leave plants in no zone to the maintenance calculator', async () => {
+            const schedule = { id: 'schedule-2', gardenId: 'garden-1', plantId: 'plant-9' } as ISchedule;
+
+            expect(await service.scheduleNextWatering(schedule, now)).toBeUndefined();
+            expect(irrigation).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import { jest } from '@jest/globals'; // ^29.0.0
+import moment from 'moment'; // ^2.29.0
+import { WeatherService } from '../../../src/services/weather/weather.service';
+import { WeatherProvider } from '../../../src/services/weather/weather-provider';
+import { FixtureWeatherProvider } from '../../../src/services/weather/fixture-weather.provider';
+import { GardenRepository } from '../../../src/repositories/garden.repository';
+import { DEFAULT_ENVIRONMENTAL_FACTORS, WEATHER_ERRORS } from '../../../src/constants/weather.constants';
+
+describe('WeatherService', () => {
+    let weatherService: WeatherService;
+    let fixtureProvider: FixtureWeatherProvider;
+    let weatherProvider: { name: string; getForecast: jest.Mock };
+    let gardenRepository: { getGardenById: jest.Mock };
+
+    const location = { latitude: 51.5072, longitude: -0.1276 };
+    const daysFromToday = (days: number): Date => moment.utc().startOf('day').add(days, 'days').add(12, 'hours').toDate();
+
+    beforeEach(() => {
+        fixtureProvider = new FixtureWeatherProvider();
+        weatherProvider = {
+            name: 'fixture',
+            getForecast: jest.fn((requested: any, days: number) => fixtureProvider.getForecast(requested, days))
+        };
+        gardenRepository = {
+            getGardenById: jest.fn(async () => ({ id: 'garden-1', ...location }))
+        };
+
+        weatherService = new WeatherService(
+            weatherProvider as unknown as WeatherProvider,
+            gardenRepository as unknown as GardenRepository
+        );
+    });
+
+    describe('getForecast', () => {
+        it('should reuse the cached forecast for nearby locations and shorter requests', async () => {
+            const forecast = await weatherService.getForecast(location, 3);
+            const nearby = await weatherService.getForecast({ latitude: 51.5061, longitude: -0.1312 });
+
+            expect(weatherProvider.getForecast).toHaveBeenCalledTimes(1);
+            expect(forecast.daily).toHaveLength(3);
+            expect(forecast.hourly).toHaveLength(48);
+            expect(nearby.daily).toHaveLength(7);
+        });
+
+        it('should fetch again for longer forecasts than the cached one', async () => {
+            await weatherService.getForecast(location);
+            const forecast = await weatherService.getForecast(location, 10);
+
+            expect(weatherProvider.getForecast).toHaveBeenCalledTimes(2);
+            // The seven day fixture pattern repeats for longer forecasts
+            expect(forecast.daily[9].maxTemperature).toBe(forecast.daily[2].maxTemperature);
+        });
+
+        it('should reject invalid locations and ranges', async () => {
+            await expect(weatherService.getForecast({ latitude: 91, longitude: 0 }))
+                .rejects.toThrow(WEATHER_ERRORS.INVALID_LOCATION);
+            await expect(weatherService.getForecast(location, 0))
+                .rejects.toThrow(WEATHER_ERRORS.INVALID_FORECAST_DAYS);
+            expect(weatherProvider.getForecast).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getGardenConditions', () => {
+        it('should derive the conditions of the forecast day', async () => {
+            const conditions = await weatherService.getGardenConditions('garden-1', daysFromToday(3));
+
+            expect(conditions).toEqual({ temperature: 26, humidity: 78, rainfall: 12.5, windSpeed: 22 });
+        });
+
+        it('should fall back to default conditions without a location or forecast', async () => {
+            gardenRepository.getGardenById.mockResolvedValue({ id: 'garden-2' } as never);
+            expect(await weatherService.getGardenConditions('garden-2')).toEqual(DEFAULT_ENVIRONMENTAL_FACTORS);
+
+            gardenRepository.getGardenById.mockResolvedValue({ id: 'garden-1', ...location } as never);
+            weatherProvider.getForecast.mockRejectedValue(new Error(WEATHER_ERRORS.PROVIDER_UNAVAILABLE) as never);
+            expect(await weatherService.getGardenConditions('garden-1')).toEqual(DEFAULT_ENVIRONMENTAL_FACTORS);
+        });
+    });
+
+    describe('getForecastRainfall', () => {
+        it('should total daily rain in proportion to the part of the day in the period', async () => {
+            const forecast = await weatherService.getForecast(location);
+            const dayThree = moment.utc().startOf('day').add(3, 'days');
+
+            expect(weatherService.getForecastRainfall(forecast, dayThree.toDate(), dayThree.clone().add(1, 'day').toDate()))
+                .toBe(12.5);
+            expect(weatherService.getForecastRainfall(forecast, dayThree.toDate(), dayThree.clone().add(12, 'hours').toDate()))
+                .toBe(6.25);
+        });
+    });
+
+    describe('getGardenForecast', () => {
+        it('should reject gardens without a location', async () => {
+            gardenRepository.getGardenById.mockResolvedValue({ id: 'garden-2' } as never);
+
+            await expect(weatherService.getGardenForecast('garden-2'))
+                .rejects.toThrow(WEATHER_ERRORS.INVALID_LOCATION);
+        });
+    });
+});
+
+describe('FixtureWeatherProvider', () => {
+    it('should lay the fixture out from today with an afternoon temperature peak', async () => {
+        const now = new Date(Date.UTC(2025, 5, 9, 8, 30));
+        const provider = new FixtureWeatherProvider(undefined, () => now);
+
+        const forecast = await provider.getForecast({ latitude: 51.5, longitude: -0.1 }, 2);
+
+        expect(forecast.daily.map(day => day.date.toISOString()))
+            .toEqual(['2025-06-09T00:00:00.000Z', '2025-06-10T00:00:00.000Z']);
+        const hottest = forecast.hourly
+            .slice(0, 24)
+            .reduce((max, hour) => (hour.temperature > max.temperature ? hour : max));
+        expect(hottest.time.getUTCHours()).toBe(15);
+        expect(hottest.temperature).toBe(forecast.daily[0].maxTemperature);
+    });
+});
@@ -161,6 +161,28 @@ describe('ScheduleCard Component', () => {
     consoleErrorSpy.mockRestore();
   });
 
+  it('shows an error when claiming the task fails', async () => {
+    const onClaim = jest.fn<(schedule: Schedule) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('Task already claimed'));
+
+    renderWithTheme(
+      <ScheduleCard
+        schedule={mockSchedule}
+        onComplete={jest.fn()}
+        onViewDetails={jest.fn()}
+        onClaim={onClaim}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /claim task/i }));
+
+    expect(onClaim).toHaveBeenCalledWith(mockSchedule);
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Failed to claim task. It may already have been claimed.'
+    );
+    expect(screen.getByRole('button', { name: /claim task/i })).not.toBeDisabled();
+  });
+
   it('triggers view details modal with correct data', async () => {
     const onComplete = jest.fn();
     const onViewDetails = jest.fn();
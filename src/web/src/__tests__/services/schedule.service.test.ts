@@ -89,6 +89,49 @@ describe('ScheduleService', () => {
     });
   });
 
+  describe('Task Assignment', () => {
+    it('should claim a task from the garden pool', async () => {
+      const claimedSchedule = { ...mockSchedule, assigneeId: 'user-1' };
+      jest.spyOn(apiService, 'post').mockResolvedValue(claimedSchedule);
+
+      const result = await scheduleService.claimTask('garden-1', '123');
+
+      expect(result).toEqual(claimedSchedule);
+      expect(apiService.post).toHaveBeenCalledWith('/api/task-assignment/gardens/garden-1/tasks/123/claim', {});
+    });
+
+    it('should assign a task and put it back in the pool', async () => {
+      jest.spyOn(apiService, 'put').mockResolvedValue({ ...mockSchedule, assigneeId: 'user-2' });
+      jest.spyOn(apiService, 'delete').mockResolvedValue(mockSchedule);
+
+      await scheduleService.assignTask('garden-1', '123', 'user-2');
+      const result = await scheduleService.unassignTask('garden-1', '123');
+
+      expect(apiService.put).toHaveBeenCalledWith('/api/task-assignment/gardens/garden-1/tasks/123/assignee', { userId: 'user-2' });
+      expect(apiService.delete).toHaveBeenCalledWith('/api/task-assignment/gardens/garden-1/tasks/123/assignee');
+      expect(result.assigneeId).toBeUndefined();
+    });
+
+    it('should retrieve completion history for a period', async () => {
+      const history = {
+        gardenId: 'garden-1',
+        from: new Date('2024-01-01'),
+        to: new Date('2024-01-31'),
+        tasks: [{ ...mockSchedule, completed: true, completedBy: 'user-1' }],
+        contributors: [{ userId: 'user-1', completedTasks: 1, taskTypes: { [TaskType.WATERING]: 1 } }],
+        unattributedTasks: 0
+      };
+      jest.spyOn(apiService, 'get').mockResolvedValue(history);
+
+      const result = await scheduleService.getCompletionHistory('garden-1', history.from, history.to);
+
+      expect(result).toEqual(history);
+      expect(apiService.get).toHaveBeenCalledWith(
+        '/api/task-assignment/gardens/garden-1/completions?from=2024-01-01T00%3A00%3A00.000Z&to=2024-01-31T00%3A00%3A00.000Z'
+      );
+    });
+  });
+
   describe('Offline Support', () => {
     beforeEach(() => {
       Object.defineProperty(window.navigator, 'onLine', {
@@ -87,6 +87,8 @@ const HealthIndicator = styled.div<{ $health: PlantHealth }>`
         return theme.palette.warning.main;
       case PlantHealth.POOR:
         return theme.palette.error.main;
+      case PlantHealth.CRITICAL:
+        return theme.palette.error.dark;
       default:
         return theme.palette.grey[400];
     }
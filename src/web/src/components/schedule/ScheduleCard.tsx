@@ -13,6 +13,8 @@ interface ScheduleCardProps {
   schedule: Schedule;
   onComplete: (id: string) => Promise<void>;
   onViewDetails: (schedule: Schedule) => void;
+  onClaim?: (schedule: Schedule) => Promise<void>;
+  currentUserId?: string;
   className?: string;
 }
 
@@ -68,6 +70,16 @@ const TaskStatus = styled.span<{ completed: boolean }>`
   }
 `;
 
+const Assignee = styled.span`
+  ${theme.typography.body2};
+  color: ${theme.palette.text}80;
+`;
+
+const ErrorMessage = styled.span`
+  ${theme.typography.body2};
+  color: ${theme.palette.alert.base};
+`;
+
 const ActionButtons = styled.div`
   display: flex;
   gap: 8px;
@@ -113,9 +125,12 @@ const ScheduleCard: React.FC<ScheduleCardProps> = ({
   schedule,
   onComplete,
   onViewDetails,
+  onClaim,
+  currentUserId,
   className
 }) => {
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleComplete = async (event: React.MouseEvent) => {
     event.preventDefault();
@@ -132,6 +147,32 @@ const ScheduleCard: React.FC<ScheduleCardProps> = ({
     }
   };
 
+  const handleClaim = async (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (isLoading || !onClaim) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onClaim(schedule);
+    } catch {
+      setError('Failed to claim task. It may already have been claimed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatAssignee = (): string | null => {
+    const userId = schedule.completed ? schedule.completedBy : schedule.assigneeId;
+    if (!userId) {
+      return schedule.completed ? null : 'Unassigned';
+    }
+    const who = userId === currentUserId ? 'you' : 'another gardener';
+    return schedule.completed ? `Done by ${who}` : `Assigned to ${who}`;
+  };
+
+  const assignee = formatAssignee();
+
   const formatTaskType = (type: TaskType): string => {
     return type.toLowerCase().replace('_', ' ');
   };
@@ -155,6 +196,10 @@ const ScheduleCard: React.FC<ScheduleCardProps> = ({
           {schedule.completed ? 'Completed' : 'Pending'}
         </TaskStatus>
 
+        {assignee && <Assignee>{assignee}</Assignee>}
+
+        {error && <ErrorMessage role="alert">{error}</ErrorMessage>}
+
         <ActionButtons>
           <Button
             onClick={() => onViewDetails(schedule)}
@@ -163,6 +208,16 @@ const ScheduleCard: React.FC<ScheduleCardProps> = ({
           >
             View Details
           </Button>
+          {onClaim && !schedule.completed && !schedule.assigneeId && (
+            <Button
+              onClick={handleClaim}
+              variant="secondary"
+              disabled={isLoading}
+              aria-label="Claim task"
+            >
+              Claim
+            </Button>
+          )}
           <Button
             onClick={handleComplete}
             variant="primary"
@@ -4,6 +4,7 @@ import { VirtualList } from 'react-window';
 import ScheduleCard from './ScheduleCard';
 import { Schedule, ScheduleFilter } from '../../types/schedule.types';
 import { useSchedule } from '../../hooks/useSchedule';
+import { scheduleService } from '../../services/schedule.service';
 import { theme } from '../../theme';
 import { getResponsiveSpacing } from '../../theme/spacing';
 
@@ -14,6 +15,8 @@ interface TaskListProps {
   gardenId: string;
   filter?: ScheduleFilter;
   onTaskSelect?: (schedule: Schedule) => void;
+  currentUserId?: string;
+  allowClaiming?: boolean;
   className?: string;
   offlineSupport?: boolean;
   retryOnError?: boolean;
@@ -89,6 +92,8 @@ const TaskList: React.FC<TaskListProps> = ({
   gardenId,
   filter,
   onTaskSelect,
+  currentUserId,
+  allowClaiming = true,
   className,
   offlineSupport = true,
   retryOnError = true,
@@ -104,14 +109,22 @@ const TaskList: React.FC<TaskListProps> = ({
   } = useSchedule(gardenId);
 
   const [retryCount, setRetryCount] = useState(0);
+  // Tasks claimed from this list, shown claimed until the schedules are next loaded
+  const [claimedTasks, setClaimedTasks] = useState<Record<string, Schedule>>({});
 
   /**
    * Memoized filtered and sorted tasks
    */
   const filteredTasks = useMemo(() => {
-    let result = [...schedules];
+    let result = schedules.map(task => claimedTasks[task.id] ?? task);
 
     if (filter) {
+      if (filter.assigneeId) {
+        result = result.filter(task => task.assigneeId === filter.assigneeId);
+      }
+      if (filter.unassigned) {
+        result = result.filter(task => !task.assigneeId);
+      }
       if (filter.taskType) {
         result = result.filter(task => task.taskType === filter.taskType);
       }
@@ -131,7 +144,7 @@ const TaskList: React.FC<TaskListProps> = ({
       const dateComparison = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
       return dateComparison || a.priority - b.priority;
     });
-  }, [schedules, filter]);
+  }, [schedules, claimedTasks, filter]);
 
   /**
    * Handles task completion with offline support
@@ -149,6 +162,14 @@ const TaskList: React.FC<TaskListProps> = ({
     }
   }, [updateSchedule, offlineSupport, isOffline]);
 
+  /**
+   * Claims an unassigned task from the garden's pool for the current user
+   */
+  const handleTaskClaim = useCallback(async (schedule: Schedule) => {
+    const claimed = await scheduleService.claimTask(gardenId, schedule.id);
+    setClaimedTasks(prev => ({ ...prev, [claimed.id]: claimed }));
+  }, [gardenId]);
+
   /**
    * Handles task selection with error boundary
    */
@@ -181,9 +202,11 @@ const TaskList: React.FC<TaskListProps> = ({
         schedule={filteredTasks[index]}
         onComplete={handleTaskComplete}
         onViewDetails={handleTaskSelect}
+        onClaim={allowClaiming ? handleTaskClaim : undefined}
+        currentUserId={currentUserId}
       />
     </div>
-  ), [filteredTasks, handleTaskComplete, handleTaskSelect]);
+  ), [filteredTasks, handleTaskComplete, handleTaskSelect, handleTaskClaim, allowClaiming, currentUserId]);
 
   if (loading) {
     return (
@@ -239,6 +262,8 @@ const TaskList: React.FC<TaskListProps> = ({
             schedule={schedule}
             onComplete={handleTaskComplete}
             onViewDetails={handleTaskSelect}
+            onClaim={allowClaiming ? handleTaskClaim : undefined}
+            currentUserId={currentUserId}
           />
         ))
       )}
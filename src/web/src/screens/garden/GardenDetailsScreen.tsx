@@ -51,6 +51,19 @@ const ErrorMessage = styled.div`
   margin-bottom: ${spacing.medium};
 `;
 
+const RotationWarnings = styled.section`
+  padding: ${spacing.medium};
+  border-left: 4px solid ${theme.palette.alert.base};
+  background: ${theme.palette.background};
+  border-radius: 4px;
+  margin-bottom: ${spacing.large};
+
+  h2 {
+    font-size: 18px;
+    margin-bottom: ${spacing.small};
+  }
+`;
+
 const LoadingOverlay = styled.div`
   position: fixed;
   top: 0;
@@ -195,6 +208,24 @@ const GardenDetailsScreen: React.FC = () => {
     );
   }, [metrics]);
 
+  // Memoized crop rotation warnings for plants placed too soon after their family
+  const rotationWarningsDisplay = useMemo(() => {
+    if (!layout?.rotationWarnings?.length) return null;
+
+    return (
+      <RotationWarnings aria-label="Crop rotation warnings">
+        <h2>Crop Rotation</h2>
+        <ul>
+          {layout.rotationWarnings.map(warning => (
+            <li key={`${warning.zoneId}-${warning.plantId ?? warning.plantType}`}>
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      </RotationWarnings>
+    );
+  }, [layout]);
+
   return (
     <ScreenContainer role="main" aria-label="Garden Details">
       <Header>
@@ -211,6 +242,8 @@ const GardenDetailsScreen: React.FC = () => {
 
       {metricsDisplay}
 
+      {rotationWarningsDisplay}
+
       {layout && (
         <GardenGrid
           layout={layout}
@@ -108,9 +108,10 @@ const ErrorMessage = styled.div`
 
 interface ScheduleDetailsProps {
   onUpdate?: (schedule: Schedule) => void;
+  currentUserId?: string;
 }
 
-const ScheduleDetailsScreen: React.FC<ScheduleDetailsProps> = ({ onUpdate }) => {
+const ScheduleDetailsScreen: React.FC<ScheduleDetailsProps> = ({ onUpdate, currentUserId }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [schedule, setSchedule] = useState<Schedule | null>(null);
@@ -201,6 +202,36 @@ const ScheduleDetailsScreen: React.FC<ScheduleDetailsProps> = ({ onUpdate }) =>
     }
   }, [schedule, isOffline, onUpdate]);
 
+  const handleClaim = useCallback(async () => {
+    if (!schedule?.id) return;
+
+    try {
+      setError(null);
+      const updatedSchedule = await scheduleService.claimTask(schedule.gardenId, schedule.id);
+      setSchedule(updatedSchedule);
+      onUpdate?.(updatedSchedule);
+    } catch (err) {
+      setError('Failed to claim task. It may already have been claimed.');
+      Sentry.captureException(err);
+    }
+  }, [schedule, onUpdate]);
+
+  const handleRelease = useCallback(async () => {
+    if (!schedule?.id) return;
+
+    try {
+      setError(null);
+      const updatedSchedule = await scheduleService.unassignTask(schedule.gardenId, schedule.id);
+      setSchedule(updatedSchedule);
+      onUpdate?.(updatedSchedule);
+    } catch (err) {
+      setError('Failed to release task. Please try again.');
+      Sentry.captureException(err);
+    }
+  }, [schedule, onUpdate]);
+
+  const formatUser = (userId: string): string => (userId === currentUserId ? 'You' : userId);
+
   if (isLoading) {
     return (
       <Container role="status" aria-label="Loading schedule details">
@@ -247,6 +278,21 @@ const ScheduleDetailsScreen: React.FC<ScheduleDetailsProps> = ({ onUpdate }) =>
             
             <Label>Status:</Label>
             <span>{schedule.completed ? 'Completed' : 'Pending'}</span>
+
+            {schedule.completed ? (
+              <>
+                <Label>Completed by:</Label>
+                <span>{schedule.completedBy ? formatUser(schedule.completedBy) : 'Not recorded'}</span>
+              </>
+            ) : (
+              <>
+                <Label>Assigned to:</Label>
+                <span>
+                  {schedule.assigneeId ? formatUser(schedule.assigneeId) : 'Nobody yet - anyone can claim it'}
+                  {schedule.assignedAt && ` (since ${format(new Date(schedule.assignedAt), 'PP')})`}
+                </span>
+              </>
+            )}
             
             <Label>Progress:</Label>
             <ProgressBar 
@@ -274,6 +320,16 @@ const ScheduleDetailsScreen: React.FC<ScheduleDetailsProps> = ({ onUpdate }) =>
             >
               Postpone
             </Button>
+            {!schedule.completed && !schedule.assigneeId && (
+              <Button onClick={handleClaim} disabled={isOffline}>
+                Claim Task
+              </Button>
+            )}
+            {!schedule.completed && schedule.assigneeId && schedule.assigneeId === currentUserId && (
+              <Button onClick={handleRelease} disabled={isOffline}>
+                Release Task
+              </Button>
+            )}
             <Button onClick={() => navigate(-1)}>
               Go Back
             </Button>
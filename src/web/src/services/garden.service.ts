@@ -1,4 +1,17 @@
-import { Garden, GardenInput, GardenLayout, GardenOptimizationParams } from '../types/garden.types';
+import {
+    Garden,
+    GardenInput,
+    GardenLayout,
+    GardenOptimizationParams,
+    SeasonPlanRequest,
+    SeasonTimeline,
+    PlantingCalendar,
+    HarvestForecast,
+    HarvestRecord,
+    HarvestInput,
+    HarvestLogFilter,
+    SeasonHarvestTotals
+} from '../types/garden.types';
 import { apiService, ApiError } from './api.service';
 import { SunlightCondition } from '../types/zone.types';
 import { PlantType } from '../types/plant.types';
@@ -11,7 +24,15 @@ const API_ENDPOINTS = {
     GET_GARDEN: '/gardens/:id',
     UPDATE_GARDEN: '/gardens/:id',
     DELETE_GARDEN: '/gardens/:id',
-    GENERATE_LAYOUT: '/gardens/:id/layout'
+    GENERATE_LAYOUT: '/gardens/:id/layout',
+    PLAN_SEASON: '/gardens/:id/timeline',
+    PLANTING_CALENDAR: '/gardens/:id/planting-calendar',
+    HARVEST_FORECAST: '/gardens/:id/harvest-forecast',
+    RECORD_HARVEST: '/gardens/:id/harvests',
+    LIST_HARVESTS: '/gardens/:id/harvests',
+    ZONE_HARVESTS: '/gardens/:id/zones/:zoneId/harvests',
+    PLANT_HARVESTS: '/gardens/:id/plants/:plantId/harvests',
+    HARVEST_TOTALS: '/gardens/:id/harvests/totals'
 };
 
 // Validation constants
@@ -28,7 +49,13 @@ const ERROR_MESSAGES = {
     INVALID_OPTIMIZATION: 'Invalid optimization parameters provided',
     LAYOUT_GENERATION_FAILED: 'Failed to generate garden layout',
     INVALID_ZONE: 'Invalid zone configuration provided',
-    INVALID_GARDEN_ID: 'Invalid garden ID provided'
+    INVALID_GARDEN_ID: 'Invalid garden ID provided',
+    SEASON_PLANNING_FAILED: 'Failed to plan the garden season',
+    PLANTING_CALENDAR_FAILED: 'Failed to load the planting calendar',
+    HARVEST_FORECAST_FAILED: 'Failed to load the harvest forecast',
+    RECORD_HARVEST_FAILED: 'Failed to record the harvest',
+    HARVEST_LOG_FAILED: 'Failed to load the harvest log',
+    HARVEST_TOTALS_FAILED: 'Failed to load the harvest totals'
 };
 
 /**
@@ -191,6 +218,133 @@ class GardenService {
         }
     }
 
+    /**
+     * Plans succession plantings for a whole season
+     * @param gardenId Garden identifier
+     * @param request Season dates and crops to schedule
+     * @returns Promise resolving to the season timeline
+     */
+    public async planSeason(gardenId: string, request: SeasonPlanRequest): Promise<SeasonTimeline> {
+        try {
+            const endpoint = API_ENDPOINTS.PLAN_SEASON.replace(':id', gardenId);
+            return await apiService.post<SeasonPlanRequest, SeasonTimeline>(endpoint, request);
+        } catch (error) {
+            throw new ApiError({
+                code: 'SEASON_PLANNING_ERROR',
+                message: ERROR_MESSAGES.SEASON_PLANNING_FAILED,
+                context: { gardenId, request, error }
+            });
+        }
+    }
+
+    /**
+     * Retrieves frost-safe planting windows and suggested sowing dates for a garden
+     * @param gardenId Garden identifier
+     * @param date Optional date the windows are worked out for; defaults to today
+     * @returns Promise resolving to the planting calendar
+     */
+    public async getPlantingCalendar(gardenId: string, date?: Date): Promise<PlantingCalendar> {
+        try {
+            const endpoint = API_ENDPOINTS.PLANTING_CALENDAR.replace(':id', gardenId);
+            return await apiService.get<PlantingCalendar>(endpoint, {
+                params: date ? { date: date.toISOString() } : undefined
+            });
+        } catch (error) {
+            throw new ApiError({
+                code: 'PLANTING_CALENDAR_ERROR',
+                message: ERROR_MESSAGES.PLANTING_CALENDAR_FAILED,
+                context: { gardenId, date, error }
+            });
+        }
+    }
+
+    /**
+     * Retrieves the weekly yield forecast of a garden alongside recorded harvests
+     * @param gardenId Garden identifier
+     * @param from Optional date inside the first week; defaults to today
+     * @param weeks Optional number of weeks to forecast
+     * @returns Promise resolving to the harvest forecast
+     */
+    public async getHarvestForecast(gardenId: string, from?: Date, weeks?: number): Promise<HarvestForecast> {
+        try {
+            const endpoint = API_ENDPOINTS.HARVEST_FORECAST.replace(':id', gardenId);
+            return await apiService.get<HarvestForecast>(endpoint, {
+                params: {
+                    ...(from && { from: from.toISOString() }),
+                    ...(weeks && { weeks })
+                }
+            });
+        } catch (error) {
+            throw new ApiError({
+                code: 'HARVEST_FORECAST_ERROR',
+                message: ERROR_MESSAGES.HARVEST_FORECAST_FAILED,
+                context: { gardenId, from, weeks, error }
+            });
+        }
+    }
+
+    /**
+     * Records a harvest picked from one of the garden's plants
+     * @param gardenId Garden identifier
+     * @param harvest Harvested plant, date, weight and notes
+     * @returns Promise resolving to the stored harvest record
+     */
+    public async recordHarvest(gardenId: string, harvest: HarvestInput): Promise<HarvestRecord> {
+        try {
+            const endpoint = API_ENDPOINTS.RECORD_HARVEST.replace(':id', gardenId);
+            return await apiService.post<HarvestInput, HarvestRecord>(endpoint, harvest);
+        } catch (error) {
+            throw new ApiError({
+                code: 'RECORD_HARVEST_ERROR',
+                message: ERROR_MESSAGES.RECORD_HARVEST_FAILED,
+                context: { gardenId, harvest, error }
+            });
+        }
+    }
+
+    /**
+     * Retrieves a garden's harvest log, newest first
+     * @param gardenId Garden identifier
+     * @param filter Optional plant, zone and season filters
+     * @returns Promise resolving to the harvest records
+     */
+    public async getHarvests(gardenId: string, filter: HarvestLogFilter = {}): Promise<HarvestRecord[]> {
+        try {
+            const endpoint = filter.plantId
+                ? API_ENDPOINTS.PLANT_HARVESTS.replace(':id', gardenId).replace(':plantId', filter.plantId)
+                : filter.zoneId
+                    ? API_ENDPOINTS.ZONE_HARVESTS.replace(':id', gardenId).replace(':zoneId', filter.zoneId)
+                    : API_ENDPOINTS.LIST_HARVESTS.replace(':id', gardenId);
+            return await apiService.get<HarvestRecord[]>(endpoint, {
+                params: filter.season ? { season: filter.season } : undefined
+            });
+        } catch (error) {
+            throw new ApiError({
+                code: 'HARVEST_LOG_ERROR',
+                message: ERROR_MESSAGES.HARVEST_LOG_FAILED,
+                context: { gardenId, filter, error }
+            });
+        }
+    }
+
+    /**
+     * Retrieves a garden's harvest totals per season
+     * @param gardenId Garden identifier
+     * @returns Promise resolving to the season totals, newest season first
+     */
+    public async getHarvestTotals(gardenId: string): Promise<SeasonHarvestTotals[]> {
+        try {
+            const endpoint = API_ENDPOINTS.HARVEST_TOTALS.replace(':id', gardenId);
+            return await apiService.get<SeasonHarvestTotals[]>(endpoint);
+        } catch (error) {
+            throw new ApiError({
+                code: 'HARVEST_TOTALS_ERROR',
+                message: ERROR_MESSAGES.HARVEST_TOTALS_FAILED,
+                context: { gardenId, error }
+            });
+        }
+    }
+
     /**
      * Validates garden dimensions
      * @param area Garden area in square feet
@@ -1,6 +1,13 @@
 import { format } from 'date-fns'; // ^2.30.0
 import * as Sentry from '@sentry/browser'; // ^7.0.0
-import { Schedule, TaskType, SchedulePreferences, ScheduleFilter } from '../types/schedule.types';
+import {
+  Schedule,
+  TaskType,
+  SchedulePreferences,
+  ScheduleFilter,
+  TaskCompletionHistory
+} from '../types/schedule.types';
+import { HarvestCompletion } from '../types/garden.types';
 import { apiService, ApiError } from './api.service';
 
 /**
@@ -19,6 +26,7 @@ interface QueueItem {
 class ScheduleService {
   private static instance: ScheduleService;
   private readonly API_ENDPOINT = '/api/schedules';
+  private readonly ASSIGNMENT_ENDPOINT = '/api/task-assignment/gardens';
   private preferences: SchedulePreferences;
   private offlineQueue: QueueItem[] = [];
   private scheduleCache: Map<string, { data: Schedule[]; timestamp: number }> = new Map();
@@ -145,6 +153,132 @@ class ScheduleService {
     return this.updateSchedule(id, { completed: true });
   }
 
+  /**
+   * Completes a harvesting task and logs what was harvested
+   */
+  public async completeHarvest(id: string, harvest: HarvestCompletion): Promise<Schedule> {
+    const transaction = Sentry.startTransaction({ name: 'completeHarvest' });
+
+    try {
+      const response = await apiService.put<{ harvest: HarvestCompletion }, Schedule>(
+        `${this.API_ENDPOINT}/${id}/complete`,
+        { harvest }
+      );
+
+      this.invalidateCache();
+      return response;
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
+  /**
+   * Retrieves the pending tasks of a garden nobody is assigned to
+   */
+  public async getTaskPool(gardenId: string): Promise<Schedule[]> {
+    const transaction = Sentry.startTransaction({ name: 'getTaskPool' });
+
+    try {
+      return await apiService.get<Schedule[]>(`${this.ASSIGNMENT_ENDPOINT}/${gardenId}/pool`);
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
+  /**
+   * Assigns a task to the garden's owner or a collaborator
+   */
+  public async assignTask(gardenId: string, id: string, userId: string): Promise<Schedule> {
+    const transaction = Sentry.startTransaction({ name: 'assignTask' });
+
+    try {
+      const response = await apiService.put<{ userId: string }, Schedule>(
+        `${this.ASSIGNMENT_ENDPOINT}/${gardenId}/tasks/${id}/assignee`,
+        { userId }
+      );
+
+      this.invalidateCache();
+      return response;
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
+  /**
+   * Puts an assigned task back in the garden's pool
+   */
+  public async unassignTask(gardenId: string, id: string): Promise<Schedule> {
+    const transaction = Sentry.startTransaction({ name: 'unassignTask' });
+
+    try {
+      const response = await apiService.delete<Schedule>(
+        `${this.ASSIGNMENT_ENDPOINT}/${gardenId}/tasks/${id}/assignee`
+      );
+
+      this.invalidateCache();
+      return response;
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
+  /**
+   * Claims an unassigned task from the garden's pool for the signed-in user
+   */
+  public async claimTask(gardenId: string, id: string): Promise<Schedule> {
+    const transaction = Sentry.startTransaction({ name: 'claimTask' });
+
+    try {
+      const response = await apiService.post<Record<string, never>, Schedule>(
+        `${this.ASSIGNMENT_ENDPOINT}/${gardenId}/tasks/${id}/claim`,
+        {}
+      );
+
+      this.invalidateCache();
+      return response;
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
+  /**
+   * Retrieves the tasks completed in a garden and who completed them
+   */
+  public async getCompletionHistory(gardenId: string, from?: Date, to?: Date): Promise<TaskCompletionHistory> {
+    const transaction = Sentry.startTransaction({ name: 'getCompletionHistory' });
+
+    try {
+      const params = new URLSearchParams();
+      if (from) params.append('from', from.toISOString());
+      if (to) params.append('to', to.toISOString());
+      const query = params.toString() ? `?${params.toString()}` : '';
+
+      return await apiService.get<TaskCompletionHistory>(
+        `${this.ASSIGNMENT_ENDPOINT}/${gardenId}/completions${query}`
+      );
+    } catch (error) {
+      Sentry.captureException(error);
+      throw this.handleScheduleError(error as ApiError);
+    } finally {
+      transaction.finish();
+    }
+  }
+
   /**
    * Updates schedule preferences
    */
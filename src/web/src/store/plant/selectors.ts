@@ -131,7 +131,10 @@ export const selectPlantsNeedingMaintenance = createSelector(
             const daysSinceLastMaintenance = Math.floor(
                 (now.getTime() - lastMaintenance.getTime()) / (1000 * 60 * 60 * 24)
             );
-            return health === PlantHealth.FAIR || health === PlantHealth.POOR || daysSinceLastMaintenance > 14;
+            return health === PlantHealth.FAIR
+                || health === PlantHealth.POOR
+                || health === PlantHealth.CRITICAL
+                || daysSinceLastMaintenance > 14;
         });
     }
 );
@@ -8,7 +8,7 @@
  * - Optimization parameters and results
  */
 
-import { Plant } from '../types/plant.types';
+import { Plant, PlantType } from '../types/plant.types';
 import { SunlightCondition } from '../types/zone.types';
 
 /**
@@ -22,6 +22,22 @@ export interface Garden {
     area: number;
     /** Array of zones within the garden */
     zones: GardenZone[];
+    /** Outline of the garden in feet; a rectangular plot is assumed when omitted */
+    boundary?: Point[];
+    /** Trees, sheds, paths and existing beds that cannot be planted over */
+    obstacles?: GardenObstacle[];
+    /** Latitude in decimal degrees (south is negative), used for sun-path modelling */
+    latitude?: number;
+    /** Compass bearing in degrees faced by the garden's top edge (0 = north) */
+    orientation?: number;
+    /** Longitude in decimal degrees (west is negative), used for climate lookup */
+    longitude?: number;
+    /** Postal code, used for climate lookup */
+    postalCode?: string;
+    /** Hardiness zone and frost dates entered by the gardener */
+    climate?: GardenClimate;
+    /** Seasons before a plant family may return to the same zone (default 3) */
+    rotationSeasons?: number;
     /** Garden creation timestamp */
     createdAt: Date;
     /** Last modification timestamp */
@@ -41,6 +57,73 @@ export interface GardenZone {
     sunlightCondition: SunlightCondition;
     /** Array of plants placed in this zone */
     plants: Plant[];
+    /** Rectangle occupied by the zone, in feet from the garden's top-left corner */
+    position?: ZonePosition;
+    /** Crops grown in the zone in earlier seasons */
+    plantingHistory?: ZonePlantingRecord[];
+}
+
+/**
+ * Crop grown in a zone during a season
+ */
+export interface ZonePlantingRecord {
+    plantType: PlantType;
+    /** Calendar year the crop was planted */
+    season: number;
+    plantedDate?: Date;
+}
+
+/**
+ * Plant family placed in a zone too soon after the same family last grew there
+ */
+export interface RotationWarning {
+    zoneId: string;
+    /** Plant being placed; omitted for season plan sowings */
+    plantId?: string;
+    plantType: PlantType;
+    /** Botanical family shared with the earlier crop */
+    family: string;
+    lastGrownSeason: number;
+    /** First season the family may return to the zone */
+    nextAllowedSeason: number;
+    message: string;
+}
+
+/**
+ * Point in feet from the garden's top-left corner
+ */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Rectangle occupied by a zone within the garden
+ */
+export interface ZonePosition extends Point {
+    width?: number;
+    height?: number;
+}
+
+/**
+ * Kinds of obstacles that occupy space inside a garden boundary
+ */
+export type ObstacleType = 'TREE' | 'SHED' | 'PATH' | 'RAISED_BED' | 'OTHER';
+
+/**
+ * Area inside the garden boundary that is unavailable for planting
+ */
+export interface GardenObstacle {
+    /** Unique identifier for the obstacle */
+    id: string;
+    /** Kind of obstacle */
+    type: ObstacleType;
+    /** Footprint polygon in feet */
+    boundary: Point[];
+    /** Optional user supplied label (e.g. 'Apple tree') */
+    label?: string;
+    /** Height in feet; obstacles with a height cast shade */
+    height?: number;
 }
 
 /**
@@ -56,6 +139,28 @@ export interface GardenLayout {
     zones: GardenZone[];
     /** Timestamp of layout generation */
     generatedAt: Date;
+    /** Estimated direct sun per zone, when the garden latitude is known */
+    sunExposure?: ZoneSunExposure[];
+    /** Plants placed in a zone that grew the same family within the rotation period */
+    rotationWarnings?: RotationWarning[];
+}
+
+/**
+ * Direct sun estimated for a zone from the sun's path and shading obstacles
+ */
+export interface ZoneSunExposure {
+    /** Zone the estimate belongs to */
+    zoneId: string;
+    /** Average daily hours of direct sun for each month, January first */
+    monthlySunHours: number[];
+    /** Average daily hours of direct sun over the growing season */
+    growingSeasonSunHours: number;
+    /** Sunlight condition derived from the growing season hours */
+    sunlightCondition: SunlightCondition;
+    /** Plants receiving fewer hours than their minimum */
+    underexposedPlantIds: string[];
+    /** Plants receiving fewer hours than their optimum */
+    belowOptimalPlantIds: string[];
 }
 
 /**
@@ -67,6 +172,173 @@ export interface GardenInput {
     area: number;
     /** Array of initial zones without IDs */
     zones: Omit<GardenZone, 'id'>[];
+    /** Outline of the garden in feet, for irregular yards */
+    boundary?: Point[];
+    /** Obstacles inside the garden */
+    obstacles?: GardenObstacle[];
+    /** Latitude in decimal degrees */
+    latitude?: number;
+    /** Compass bearing faced by the garden's top edge */
+    orientation?: number;
+    /** Longitude in decimal degrees */
+    longitude?: number;
+    /** Postal code used for climate lookup */
+    postalCode?: string;
+    /** Hardiness zone and frost dates */
+    climate?: GardenClimate;
+    /** Seasons before a plant family may return to the same zone */
+    rotationSeasons?: number;
+}
+
+/**
+ * Hardiness zone and average frost dates for a garden
+ */
+export interface GardenClimate {
+    /** USDA hardiness zone (e.g. '6b') */
+    hardinessZone?: string;
+    /** Average last spring frost as MM-DD; omitted for frost-free gardens */
+    lastSpringFrost?: string;
+    /** Average first fall frost as MM-DD; omitted for frost-free gardens */
+    firstFallFrost?: string;
+    /** Whether the values were entered or looked up from the garden's location */
+    source?: 'USER' | 'LOOKUP';
+}
+
+/**
+ * Frost-safe planting window and suggested sowing dates for a plant type
+ */
+export interface PlantingWindow {
+    plantType: PlantType;
+    frostTolerance: 'TENDER' | 'HALF_HARDY' | 'HARDY';
+    /** First day the plant may be set out */
+    safeStartDate: Date;
+    /** Last day the plant may be set out and still mature before the first fall frost */
+    safeEndDate: Date;
+    /** Start seed indoors, for crops raised as transplants */
+    sowIndoorsDate?: Date;
+    transplantDate?: Date;
+    /** Sow in the garden, for crops not raised indoors */
+    directSowDate?: Date;
+}
+
+/**
+ * Planting windows for every plant type in a garden's climate
+ */
+export interface PlantingCalendar {
+    gardenId: string;
+    climate: GardenClimate;
+    windows: PlantingWindow[];
+}
+
+/**
+ * Projected harvest window of a single plant
+ */
+export interface PlantHarvestProjection {
+    plantId: string;
+    plantType: PlantType;
+    /** Number of plants the record stands for */
+    quantity: number;
+    /** Total expected yield in kilograms */
+    expectedYieldKg: number;
+    harvestStartDate: Date;
+    harvestEndDate: Date;
+}
+
+/**
+ * Projected and recorded yield for one week, starting on Monday
+ */
+export interface HarvestForecastWeek {
+    weekStart: Date;
+    forecastKg: number;
+    actualKg: number;
+    /** Projected yield in kilograms per plant type */
+    forecastByPlantType: Record<PlantType, number>;
+}
+
+/**
+ * Weekly yield forecast for a garden compared with recorded harvests
+ */
+export interface HarvestForecast {
+    gardenId: string;
+    startDate: Date;
+    /** Day after the last week */
+    endDate: Date;
+    weeks: HarvestForecastWeek[];
+    plants: PlantHarvestProjection[];
+    totalForecastKg: number;
+    totalActualKg: number;
+}
+
+/**
+ * Harvest logged for one of the garden's plants
+ */
+export interface HarvestRecord {
+    id: string;
+    gardenId: string;
+    plantId: string;
+    plantType: PlantType;
+    zoneId?: string;
+    /** Harvesting task completed by this harvest */
+    scheduleId?: string;
+    harvestedAt: Date;
+    /** Calendar year of the harvest */
+    season: number;
+    /** Weight harvested in kilograms; a harvest records a weight, a count or both */
+    quantityKg?: number;
+    /** Number of items harvested */
+    count?: number;
+    /** Quality rating from 1 (poor) to 5 (excellent) */
+    qualityRating?: number;
+    notes?: string;
+}
+
+/**
+ * Harvest details given when completing a harvesting task
+ */
+export interface HarvestCompletion {
+    /** Weight harvested in kilograms */
+    quantityKg?: number;
+    /** Number of items harvested */
+    count?: number;
+    /** Quality rating from 1 (poor) to 5 (excellent) */
+    qualityRating?: number;
+    notes?: string;
+}
+
+/**
+ * Harvest data submitted when recording a harvest
+ */
+export interface HarvestInput extends HarvestCompletion {
+    plantId: string;
+    /** Defaults to today */
+    harvestedAt?: Date;
+}
+
+/**
+ * Harvest totals of one plant type or a whole season
+ */
+export interface HarvestTotals {
+    harvestCount: number;
+    totalKg: number;
+    totalCount: number;
+    averageQualityRating?: number;
+}
+
+/**
+ * Harvest totals of a garden for one season, with a breakdown per plant type
+ */
+export interface SeasonHarvestTotals extends HarvestTotals {
+    season: number;
+    plantTypes: Record<PlantType, HarvestTotals>;
+}
+
+/**
+ * Filters for listing a garden's harvest log
+ */
+export interface HarvestLogFilter {
+    plantId?: string;
+    zoneId?: string;
+    season?: number;
 }
 
 /**
@@ -80,4 +352,65 @@ export interface GardenOptimizationParams {
     minZoneSize: number;
     /** Default plant spacing when not specified */
     defaultSpacing: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Crop to fit into the garden during a season
+ */
+export interface SeasonCropRequest {
+    /** Plant type to grow */
+    plantType: PlantType;
+    /** Number of plants in each sowing */
+    quantity: number;
+    /** Zone to grow the crop in; any sunny enough zone when omitted */
+    zoneId?: string;
+    /** Earliest sowing date */
+    earliestSowDate?: Date;
+    /** Number of succession sowings (default 1) */
+    successions?: number;
+}
+
+/**
+ * Request to plan a whole season of plantings
+ */
+export interface SeasonPlanRequest {
+    /** First day a crop may be sown */
+    startDate: Date;
+    /** Last day a crop may hold its bed; defaults to one year later */
+    endDate?: Date;
+    /** Crops to schedule */
+    crops: SeasonCropRequest[];
+}
+
+/**
+ * Sowing placed on the season timeline
+ */
+export interface SeasonPlanting {
+    plantType: PlantType;
+    zoneId: string;
+    quantity: number;
+    areaSqFt: number;
+    /** Position in the succession series, starting at 1 */
+    succession: number;
+    sowDate: Date;
+    /** Start seed indoors, for crops set out as transplants */
+    sowIndoorsDate?: Date;
+    maturityDate: Date;
+    /** Date the bed is free again */
+    harvestEndDate: Date;
+}
+
+/**
+ * Season-long planting timeline for a garden
+ */
+export interface SeasonTimeline {
+    gardenId: string;
+    startDate: Date;
+    endDate: Date;
+    /** Scheduled sowings ordered by sowing date */
+    plantings: SeasonPlanting[];
+    /** Sowings that did not fit, with the reason */
+    unscheduled: Array<{ plantType: PlantType; succession: number; reason: string }>;
+    /** Sowings placed in a zone that grew the same family within the rotation period */
+    rotationWarnings?: RotationWarning[];
+}
@@ -34,13 +34,15 @@ export enum GrowthStage {
 
 /**
  * Enum representing plant health status
- * Used for monitoring and triggering maintenance alerts
+ * Used for monitoring and triggering maintenance alerts; diagnoses of observed symptoms
+ * and pests report the same values
  */
 export enum PlantHealth {
     EXCELLENT = 'EXCELLENT',
     GOOD = 'GOOD',
     FAIR = 'FAIR',
-    POOR = 'POOR'
+    POOR = 'POOR',
+    CRITICAL = 'CRITICAL'
 }
 
 /**
@@ -130,8 +132,14 @@ export interface Plant {
     companionPlants: PlantType[];
     /** Expected yield in kilograms */
     expectedYield: number;
+    /** Number of plants the record stands for; defaults to 1 */
+    quantity?: number;
     /** Current health status */
     healthStatus: PlantHealth;
     /** Array of maintenance records */
     maintenanceHistory: MaintenanceRecord[];
+    /** Garden the plant is set out in */
+    gardenId?: string;
+    /** Warnings raised when the plant was set out late in its frost-safe window */
+    plantingWarnings?: string[];
 }
\ No newline at end of file
@@ -13,7 +13,10 @@ export enum TaskType {
     FERTILIZING = 'fertilizing',
     PRUNING = 'pruning',
     HARVESTING = 'harvesting',
-    PEST_CONTROL = 'pest_control'
+    PEST_CONTROL = 'pest_control',
+    COMPOSTING = 'composting',
+    MULCHING = 'mulching',
+    WEEDING = 'weeding'
 }
 
 /**
@@ -41,6 +44,73 @@ export interface Schedule {
     
     /** Whether a notification has been sent for this task */
     notificationSent: boolean;
+
+    /** User the task is assigned to or who claimed it; unassigned tasks are in the garden's pool */
+    assigneeId?: string;
+
+    /** When the task was assigned or claimed */
+    assignedAt?: Date;
+
+    /** User who completed the task */
+    completedBy?: string;
+}
+
+/**
+ * Interface defining a duty that passes between a garden's users in turn
+ * Unassigned tasks of the type go to whoever's turn it is on the day they are due
+ */
+export interface TaskRotation {
+    /** Type of task the rotation assigns */
+    taskType: TaskType;
+
+    /** Users taking turns, in order */
+    userIds: string[];
+
+    /** Days each user's turn lasts */
+    periodDays: number;
+
+    /** Day the first user's turn starts */
+    startsOn: Date;
+}
+
+/**
+ * Interface defining the work one user did in a garden over a period
+ */
+export interface TaskContributor {
+    /** User credited with the work */
+    userId: string;
+
+    /** Name of the user, when the account still exists */
+    name?: string;
+
+    /** Tasks the user completed */
+    completedTasks: number;
+
+    /** Tasks the user completed of each type */
+    taskTypes: Partial<Record<TaskType, number>>;
+}
+
+/**
+ * Interface defining the tasks completed in a garden over a period and who did them
+ */
+export interface TaskCompletionHistory {
+    /** Reference to the garden */
+    gardenId: string;
+
+    /** Start of the period */
+    from: Date;
+
+    /** End of the period */
+    to: Date;
+
+    /** Tasks completed in the period, most recently completed first */
+    tasks: Schedule[];
+
+    /** Users who completed tasks, most tasks first */
+    contributors: TaskContributor[];
+
+    /** Tasks completed without a user to credit */
+    unattributedTasks: number;
 }
 
 /**
@@ -77,4 +147,10 @@ export type ScheduleFilter = {
     
     /** Filter by end date range */
     endDate?: Date;
+
+    /** Filter by the user tasks are assigned to */
+    assigneeId?: string;
+
+    /** Only tasks in the pool, assigned to nobody */
+    unassigned?: boolean;
 }
\ No newline at end of file